@@ -0,0 +1,29 @@
+CREATE TABLE `app_mcp_servers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`app_id` text NOT NULL,
+	`server_id` text NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`server_id`) REFERENCES `mcp_servers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `app_mcp_servers_app_server_idx` ON `app_mcp_servers` (`app_id`,`server_id`);--> statement-breakpoint
+CREATE INDEX `app_mcp_servers_server_idx` ON `app_mcp_servers` (`server_id`);--> statement-breakpoint
+CREATE TABLE `mcp_servers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`transport` text DEFAULT 'streamable-http' NOT NULL,
+	`url` text NOT NULL,
+	`auth_header_name` text,
+	`auth_secret_id` text,
+	`is_active` integer DEFAULT true,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`auth_secret_id`) REFERENCES `user_secrets`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `mcp_servers_user_idx` ON `mcp_servers` (`user_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `mcp_servers_user_name_idx` ON `mcp_servers` (`user_id`,`name`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `user_model_configs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`agent_action_name` text NOT NULL,
+	`model_name` text NOT NULL,
+	`reasoning_effort` text,
+	`max_tokens` integer,
+	`temperature` real,
+	`fallback_model` text,
+	`provider_secret_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`provider_secret_id`) REFERENCES `user_secrets`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `user_model_configs_user_action_idx` ON `user_model_configs` (`user_id`,`agent_action_name`);
\ No newline at end of file
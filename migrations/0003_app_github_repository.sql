@@ -0,0 +1 @@
+ALTER TABLE `apps` ADD `github_repository_url` text;
\ No newline at end of file
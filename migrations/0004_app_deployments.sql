@@ -0,0 +1,34 @@
+CREATE TABLE `app_deployments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`app_id` text NOT NULL,
+	`environment` text NOT NULL,
+	`version` integer NOT NULL,
+	`status` text DEFAULT 'deploying' NOT NULL,
+	`script_name` text,
+	`deployment_url` text,
+	`archive_key` text,
+	`rollback_of_id` text,
+	`error` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`completed_at` integer,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `app_deployments_app_environment_idx` ON `app_deployments` (`app_id`,`environment`,`version`);--> statement-breakpoint
+CREATE TABLE `app_environments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`app_id` text NOT NULL,
+	`name` text NOT NULL,
+	`env_vars` text DEFAULT '{}',
+	`custom_domain` text,
+	`cloudflare_account_id` text,
+	`script_name` text,
+	`active_deployment_id` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`cloudflare_account_id`) REFERENCES `cloudflare_accounts`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `app_environments_app_name_idx` ON `app_environments` (`app_id`,`name`);--> statement-breakpoint
+CREATE UNIQUE INDEX `app_environments_custom_domain_idx` ON `app_environments` (`custom_domain`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `app_deployments` ADD `cloudflare_account_id` text REFERENCES cloudflare_accounts(id);--> statement-breakpoint
+ALTER TABLE `cloudflare_accounts` ADD `api_token_secret_id` text REFERENCES user_secrets(id);
\ No newline at end of file
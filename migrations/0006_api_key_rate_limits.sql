@@ -0,0 +1,3 @@
+ALTER TABLE `api_keys` ADD `rate_limit` integer;--> statement-breakpoint
+ALTER TABLE `api_keys` ADD `window_started_at` integer;--> statement-breakpoint
+ALTER TABLE `api_keys` ADD `window_request_count` integer DEFAULT 0;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `inference_usage` (
+	`id` text PRIMARY KEY NOT NULL,
+	`app_id` text NOT NULL,
+	`user_id` text,
+	`agent_action_name` text NOT NULL,
+	`model` text NOT NULL,
+	`prompt_tokens` integer DEFAULT 0 NOT NULL,
+	`completion_tokens` integer DEFAULT 0 NOT NULL,
+	`reasoning_tokens` integer DEFAULT 0 NOT NULL,
+	`estimated_cost` real DEFAULT 0 NOT NULL,
+	`latency_ms` integer NOT NULL,
+	`retries` integer DEFAULT 0 NOT NULL,
+	`used_fallback` integer DEFAULT false NOT NULL,
+	`success` integer DEFAULT true NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `inference_usage_app_idx` ON `inference_usage` (`app_id`);--> statement-breakpoint
+CREATE INDEX `inference_usage_user_idx` ON `inference_usage` (`user_id`);--> statement-breakpoint
+CREATE INDEX `inference_usage_created_at_idx` ON `inference_usage` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+-- Rows recorded before created_at was set explicitly hold the TEXT default, which sorts after every integer timestamp
+UPDATE `inference_usage` SET `created_at` = unixepoch(`created_at`) WHERE typeof(`created_at`) = 'text';
@@ -0,0 +1,2 @@
+ALTER TABLE `apps` ADD `anonymous_key` text;--> statement-breakpoint
+CREATE INDEX `apps_anonymous_key_idx` ON `apps` (`anonymous_key`);
\ No newline at end of file
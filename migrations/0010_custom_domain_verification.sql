@@ -0,0 +1,3 @@
+ALTER TABLE `app_environments` ADD `custom_hostname_id` text;--> statement-breakpoint
+ALTER TABLE `app_environments` ADD `custom_domain_verification` text;--> statement-breakpoint
+ALTER TABLE `app_environments` ADD `custom_domain_verified_at` integer;
\ No newline at end of file
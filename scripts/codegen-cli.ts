@@ -0,0 +1,492 @@
+#!/usr/bin/env bun
+/**
+ * Headless codegen client
+ *
+ * Drives a code generation from the terminal through the same REST and WebSocket
+ * endpoints the web app uses:
+ * - Starts a generation and streams the blueprint
+ * - Follows phase and file progress over the agent WebSocket
+ * - Sends follow-up suggestions, deploys and exports to GitHub
+ * - Downloads the generated files to a local directory
+ *
+ * Usage:
+ *   bun run scripts/codegen-cli.ts generate "A todo app with tags" --out ./todo-app --deploy preview
+ *   bun run scripts/codegen-cli.ts connect <agentId> --interactive
+ *
+ * Authenticates with an API key created in the settings page, read from --api-key or ORANGE_BUILD_API_KEY.
+ */
+
+import { parseArgs } from 'util';
+import { createInterface } from 'readline';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { WebSocketMessageRequests } from '../worker/agents/constants';
+import type { WebSocketMessage, WebSocketMessageType } from '../worker/agents/websocketTypes';
+import type { CodeGenState } from '../worker/agents/core/state';
+import { ndjsonStream } from '../src/utils/ndjson-parser/ndjson-parser';
+
+const DEFAULT_BASE_URL = 'http://localhost:5173';
+
+const USAGE = `Usage:
+  codegen-cli generate <prompt> [options]   Start a new generation
+  codegen-cli connect <agentId> [options]   Attach to an existing generation
+
+Options:
+  --url <url>             Server URL (default: ORANGE_BUILD_URL or ${DEFAULT_BASE_URL})
+  --api-key <key>         API key (default: ORANGE_BUILD_API_KEY)
+  --mode <mode>           Agent mode for new generations: deterministic | smart
+  --team <teamId>         Save new generations as apps of this team
+  --out <dir>             Download the generated files to <dir> when done
+  --deploy <env>          Deploy when done: production | preview
+  --export <repo>         Export to a GitHub repository when done
+  --private               Create the exported repository as private
+  --pull-request          Push the export to a branch and open a pull request
+  -i, --interactive       Keep the session open to send suggestions and commands
+  -h, --help              Show this help
+
+Interactive commands:
+  <text>                  Send a follow-up suggestion
+  /deploy [env]           Deploy the app
+  /export <repo>          Export to GitHub
+  /download <dir>         Download the current files
+  /stop, /resume          Stop or resume the generation
+  /quit                   Close the session`;
+
+type DeployEnvironment = 'production' | 'preview';
+
+interface CliOptions {
+  baseUrl: string;
+  apiKey?: string;
+  agentMode?: 'deterministic' | 'smart';
+  teamId?: string;
+  outDir?: string;
+  deploy?: DeployEnvironment;
+  exportRepository?: string;
+  isPrivate: boolean;
+  pullRequest: boolean;
+  interactive: boolean;
+}
+
+class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Resolves with the first message of the awaited types, rejects on the failure types
+ */
+interface MessageWaiter {
+  resolveOn: WebSocketMessageType[];
+  rejectOn: WebSocketMessageType[];
+  resolve: (message: WebSocketMessage) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * WebSocket session with a code generation agent
+ * Renders progress and keeps the latest agent state so files can be downloaded at any point
+ */
+class CodegenSession {
+  private ws!: WebSocket;
+  private waiters: MessageWaiter[] = [];
+  private streamingConversationId?: string;
+  state?: CodeGenState;
+
+  constructor(private websocketUrl: string, private apiKey?: string) {}
+
+  /**
+   * Open the connection, resolves once the agent has sent its state
+   */
+  connect(): Promise<void> {
+    // Registered before connecting, the state can be delivered in the same tick as the open event
+    const initialState = this.waitFor(['cf_agent_state']);
+    return new Promise((resolveConnected, rejectConnected) => {
+      initialState.then(() => resolveConnected(), rejectConnected);
+
+      // Bun accepts request headers when opening a WebSocket, browsers authenticate with cookies instead
+      this.ws = new WebSocket(this.websocketUrl, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      });
+
+      this.ws.addEventListener('message', (event) => {
+        try {
+          this.handleMessage(JSON.parse(String(event.data)) as WebSocketMessage);
+        } catch (error) {
+          console.error('Failed to parse message:', error);
+        }
+      });
+      this.ws.addEventListener('error', () => {
+        rejectConnected(new CliError(`Could not connect to ${this.websocketUrl}, check the URL and API key`));
+      });
+      this.ws.addEventListener('close', (event) => {
+        const error = new CliError(`Connection closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`);
+        this.waiters.forEach(waiter => waiter.reject(error));
+        this.waiters = [];
+      });
+    });
+  }
+
+  send(type: string, data: Record<string, unknown> = {}): void {
+    this.ws.send(JSON.stringify({ type, ...data }));
+  }
+
+  /**
+   * Wait for one of the message types, rejecting when a failure type arrives first
+   */
+  waitFor(resolveOn: WebSocketMessageType[], rejectOn: WebSocketMessageType[] = []): Promise<WebSocketMessage> {
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolveOn, rejectOn, resolve, reject });
+    });
+  }
+
+  /**
+   * Send a request and wait for its outcome
+   */
+  request(
+    type: string,
+    data: Record<string, unknown>,
+    resolveOn: WebSocketMessageType[],
+    rejectOn: WebSocketMessageType[]
+  ): Promise<WebSocketMessage> {
+    const outcome = this.waitFor(resolveOn, [...rejectOn, 'error']);
+    this.send(type, data);
+    return outcome;
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+
+  /**
+   * Write the generated files of the latest state below the directory
+   */
+  download(outDir: string): number {
+    const files = Object.values(this.state?.generatedFilesMap ?? {});
+    const root = resolve(outDir);
+    let written = 0;
+    for (const file of files) {
+      const target = resolve(root, file.file_path);
+      const relativePath = relative(root, target);
+      if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+        console.warn(`Skipping file outside of the output directory: ${file.file_path}`);
+        continue;
+      }
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, file.file_contents);
+      written++;
+    }
+    return written;
+  }
+
+  private handleMessage(message: WebSocketMessage): void {
+    if (message.type === 'cf_agent_state') {
+      this.state = message.state;
+    } else if (!this.waiters.some(waiter => waiter.rejectOn.includes(message.type))) {
+      // Failures someone waits for are reported by the waiter
+      this.render(message);
+    }
+
+    this.waiters = this.waiters.filter(waiter => {
+      if (waiter.resolveOn.includes(message.type)) {
+        waiter.resolve(message);
+        return false;
+      }
+      if (waiter.rejectOn.includes(message.type)) {
+        waiter.reject(new CliError(describeFailure(message)));
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private render(message: WebSocketMessage): void {
+    if (message.type !== 'conversation_response' || !message.isStreaming) {
+      this.endConversationStream();
+    }
+
+    switch (message.type) {
+      case 'phase_generating':
+        log('…', message.message);
+        break;
+      case 'phase_implementing':
+        log('▶', `Phase: ${message.phase.name} (${message.phase.files.length} files)`);
+        break;
+      case 'phase_validated':
+        log('✓', `Phase validated: ${message.phase.name}`);
+        break;
+      case 'file_generated':
+      case 'file_regenerated':
+        log('  +', message.file.file_path);
+        break;
+      case 'command_executing':
+        log('$', message.commands.join(' && '));
+        break;
+      case 'deployment_completed':
+        log('🔗', `Preview: ${message.previewURL}`);
+        break;
+      case 'generation_complete':
+        log('✅', 'Generation complete');
+        break;
+      case 'generation_stopped':
+      case 'generation_resumed':
+      case 'user_suggestions_processing':
+      case 'cloudflare_deployment_started':
+      case 'github_export_started':
+        log('…', message.message);
+        break;
+      case 'cloudflare_deployment_completed':
+        log('🚀', `Deployed: ${message.deploymentUrl}`);
+        break;
+      case 'github_export_completed':
+        log('📦', `Exported: ${message.pullRequestUrl || message.repositoryUrl}`);
+        break;
+      case 'conversation_response':
+        if (message.isStreaming) {
+          if (this.streamingConversationId !== message.conversationId) {
+            this.endConversationStream();
+            process.stdout.write('💬 ');
+            this.streamingConversationId = message.conversationId;
+          }
+          process.stdout.write(message.message);
+        } else {
+          log('💬', message.message);
+        }
+        break;
+      case 'error':
+      case 'deployment_failed':
+      case 'cloudflare_deployment_error':
+      case 'github_export_error':
+      case 'blueprint_error':
+        log('✗', describeFailure(message));
+        break;
+    }
+  }
+
+  private endConversationStream(): void {
+    if (this.streamingConversationId !== undefined) {
+      process.stdout.write('\n');
+      this.streamingConversationId = undefined;
+    }
+  }
+}
+
+function log(prefix: string, text: string): void {
+  console.log(`${prefix} ${text}`);
+}
+
+function describeFailure(message: WebSocketMessage): string {
+  if ('error' in message && typeof message.error === 'string') {
+    return 'message' in message && message.message ? `${message.message}: ${message.error}` : message.error;
+  }
+  return 'message' in message && typeof message.message === 'string' ? message.message : message.type;
+}
+
+function authHeaders(options: CliOptions): Record<string, string> {
+  return options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {};
+}
+
+/**
+ * Start a generation, stream the blueprint and return the agent's WebSocket URL
+ */
+async function startGeneration(query: string, options: CliOptions): Promise<{ agentId: string; websocketUrl: string }> {
+  const response = await fetch(`${options.baseUrl}/api/codegen/incremental`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(options) },
+    body: JSON.stringify({ query, agentMode: options.agentMode, teamId: options.teamId }),
+  }).catch((error: unknown) => {
+    throw new CliError(`Could not reach ${options.baseUrl}: ${error instanceof Error ? error.message : error}`);
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new CliError(`Failed to start generation (${response.status}): ${body?.error || response.statusText}`);
+  }
+
+  const result = { agentId: '', websocketUrl: '' };
+  let blueprintChunks = 0;
+  for await (const obj of ndjsonStream(response)) {
+    if (obj.agentId) {
+      result.agentId = obj.agentId;
+      result.websocketUrl = obj.websocketUrl;
+      log('…', `Started ${obj.agentId} from template ${obj.template?.name}`);
+      process.stdout.write('… Generating blueprint');
+    }
+    if (obj.chunk && ++blueprintChunks % 10 === 0) {
+      process.stdout.write('.');
+    }
+  }
+  process.stdout.write('\n');
+
+  if (!result.websocketUrl) {
+    throw new CliError('Server did not return a WebSocket URL');
+  }
+  return result;
+}
+
+function toWebSocketUrl(baseUrl: string, agentId: string): string {
+  const url = new URL(`/api/codegen/ws/${agentId}`, baseUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+function deploy(session: CodegenSession, environment: DeployEnvironment): Promise<WebSocketMessage> {
+  return session.request(
+    WebSocketMessageRequests.DEPLOY,
+    { environment },
+    ['cloudflare_deployment_completed'],
+    ['cloudflare_deployment_error']
+  );
+}
+
+function exportToGitHub(session: CodegenSession, repositoryName: string, options: CliOptions): Promise<WebSocketMessage> {
+  return session.request(
+    WebSocketMessageRequests.GITHUB_EXPORT,
+    { repositoryName, isPrivate: options.isPrivate, pullRequest: options.pullRequest },
+    ['github_export_completed'],
+    ['github_export_error']
+  );
+}
+
+function download(session: CodegenSession, outDir: string): void {
+  const count = session.download(outDir);
+  log('💾', `Wrote ${count} files to ${resolve(outDir)}`);
+}
+
+/**
+ * Read suggestions and commands from stdin until the user quits
+ */
+async function runInteractive(session: CodegenSession, options: CliOptions): Promise<void> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: '> ' });
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+    const [command, ...args] = input.split(/\s+/);
+    try {
+      if (!input) {
+        // Nothing to send
+      } else if (command === '/quit' || command === '/exit') {
+        break;
+      } else if (command === '/deploy') {
+        await deploy(session, args[0] === 'preview' ? 'preview' : 'production');
+      } else if (command === '/export') {
+        if (!args[0]) {
+          throw new CliError('Usage: /export <repo>');
+        }
+        await exportToGitHub(session, args[0], options);
+      } else if (command === '/download') {
+        download(session, args[0] || options.outDir || '.');
+      } else if (command === '/stop') {
+        session.send(WebSocketMessageRequests.STOP_GENERATION);
+      } else if (command === '/resume') {
+        session.send(WebSocketMessageRequests.RESUME_GENERATION);
+      } else if (command.startsWith('/')) {
+        throw new CliError(`Unknown command: ${command}`);
+      } else {
+        session.send(WebSocketMessageRequests.USER_SUGGESTION, { message: input });
+      }
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    rl.prompt();
+  }
+  rl.close();
+}
+
+function parseCliArgs(): { command: string; target: string; options: CliOptions } {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      'api-key': { type: 'string' },
+      mode: { type: 'string' },
+      team: { type: 'string' },
+      out: { type: 'string' },
+      deploy: { type: 'string' },
+      export: { type: 'string' },
+      private: { type: 'boolean', default: false },
+      'pull-request': { type: 'boolean', default: false },
+      interactive: { type: 'boolean', short: 'i', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+  if (command !== 'generate' && command !== 'connect') {
+    throw new CliError(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+  const target = rest.join(' ').trim();
+  if (!target) {
+    throw new CliError(command === 'generate' ? 'Missing prompt' : 'Missing agent id');
+  }
+  if (values.mode && values.mode !== 'deterministic' && values.mode !== 'smart') {
+    throw new CliError(`Invalid mode: ${values.mode}`);
+  }
+  if (values.deploy && values.deploy !== 'production' && values.deploy !== 'preview') {
+    throw new CliError(`Invalid deploy environment: ${values.deploy}`);
+  }
+
+  return {
+    command,
+    target,
+    options: {
+      baseUrl: (values.url || process.env.ORANGE_BUILD_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+      apiKey: values['api-key'] || process.env.ORANGE_BUILD_API_KEY,
+      agentMode: values.mode as CliOptions['agentMode'],
+      teamId: values.team,
+      outDir: values.out,
+      deploy: values.deploy as DeployEnvironment | undefined,
+      exportRepository: values.export,
+      isPrivate: values.private ?? false,
+      pullRequest: values['pull-request'] ?? false,
+      interactive: values.interactive ?? false,
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const { command, target, options } = parseCliArgs();
+  if (!options.apiKey) {
+    console.warn('⚠️  No API key given, the server may reject the session');
+  }
+
+  let websocketUrl: string;
+  if (command === 'generate') {
+    ({ websocketUrl } = await startGeneration(target, options));
+  } else {
+    websocketUrl = toWebSocketUrl(options.baseUrl, target);
+  }
+
+  const session = new CodegenSession(websocketUrl, options.apiKey);
+  await session.connect();
+
+  if (command === 'generate') {
+    const completed = session.waitFor(['generation_complete'], ['generation_stopped']);
+    session.send(WebSocketMessageRequests.GENERATE_ALL);
+    await completed;
+  }
+  if (options.deploy) {
+    await deploy(session, options.deploy);
+  }
+  if (options.exportRepository) {
+    await exportToGitHub(session, options.exportRepository, options);
+  }
+  if (options.outDir) {
+    download(session, options.outDir);
+  }
+  if (options.interactive) {
+    await runInteractive(session, options);
+  }
+  session.close();
+}
+
+main().catch((error) => {
+  console.error(error instanceof CliError ? `✗ ${error.message}` : error);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+#!/usr/bin/env bun
+/**
+ * Local sandbox runner
+ *
+ * Serves the runner service API on the local machine, backed by directories and child
+ * processes instead of containers, for offline development. The worker cannot spawn
+ * processes itself, so it talks to this runner over HTTP like to the hosted runner service.
+ *
+ * Usage:
+ *   bun run scripts/local-runner/index.ts --templates ./templates --port 8100 --token <token>
+ *
+ * Then point the worker at it in .dev.vars:
+ *   SANDBOX_SERVICE_TYPE="runner"
+ *   SANDBOX_SERVICE_URL="http://127.0.0.1:8100"
+ *   SANDBOX_SERVICE_API_KEY="<same value as --token or LOCAL_RUNNER_TOKEN>"
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { LocalSandbox } from './localSandbox';
+import { matchRoute } from './routes';
+
+const DEFAULT_PORT = 8100;
+// Only the worker running on the same machine may reach the runner
+const LISTEN_HOST = '127.0.0.1';
+
+const USAGE = `Usage:
+  local-runner [options]
+
+Options:
+  --templates <dir>       Templates directory: template_catalog.json and <name>.zip or <name>/ (default: ./templates)
+  --port <port>           Port to listen on (default: ${DEFAULT_PORT})
+  --token <token>         Bearer token the worker must send (default: LOCAL_RUNNER_TOKEN, required)
+  -h, --help              Show this help`;
+
+interface RunnerOptions {
+    templatesDir: string;
+    port: number;
+    token: string;
+}
+
+class LocalRunner {
+    // One sandbox per agent session, keyed by the x-session-id header
+    private sandboxes = new Map<string, Promise<LocalSandbox>>();
+
+    constructor(private readonly options: RunnerOptions) {}
+
+    private getSandbox(sessionId: string): Promise<LocalSandbox> {
+        let sandbox = this.sandboxes.get(sessionId);
+        if (!sandbox) {
+            const created = new LocalSandbox(sessionId, { templatesDir: this.options.templatesDir });
+            sandbox = created.initialize().then(() => created);
+            sandbox.catch(() => this.sandboxes.delete(sessionId));
+            this.sandboxes.set(sessionId, sandbox);
+        }
+        return sandbox;
+    }
+
+    async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url || '/', 'http://localhost');
+        const method = (request.method || 'GET').toUpperCase();
+
+        if (request.headers.authorization !== `Bearer ${this.options.token}`) {
+            return sendJson(response, 401, { success: false, error: 'Unauthorized' });
+        }
+
+        const sessionId = request.headers['x-session-id'];
+        if (typeof sessionId !== 'string' || !/^[\w-]+$/.test(sessionId)) {
+            return sendJson(response, 400, { success: false, error: 'Missing or invalid x-session-id header' });
+        }
+
+        const match = matchRoute(method, url.pathname);
+        if (!match) {
+            return sendJson(response, 404, { success: false, error: `No route for ${method} ${url.pathname}` });
+        }
+
+        try {
+            const body = method === 'POST' ? await readJsonBody(request) : {};
+            const sandbox = await this.getSandbox(sessionId);
+            const result = await match.route.handler(sandbox, match.params, url, body);
+            sendJson(response, 200, result);
+        } catch (error) {
+            console.error(`${method} ${url.pathname} failed:`, error);
+            sendJson(response, 500, { success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) as Record<string, unknown> : {};
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+function parseRunnerArgs(): RunnerOptions {
+    const { values } = parseArgs({
+        args: process.argv.slice(2),
+        options: {
+            templates: { type: 'string' },
+            port: { type: 'string' },
+            token: { type: 'string' },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+    if (values.help) {
+        console.log(USAGE);
+        process.exit(0);
+    }
+
+    const port = values.port ? Number(values.port) : DEFAULT_PORT;
+    if (!Number.isInteger(port) || port <= 0) {
+        console.error(`Invalid port: ${values.port}`);
+        process.exit(1);
+    }
+    // Sandboxes run arbitrary commands, so the runner never serves requests without a token
+    const token = values.token || process.env.LOCAL_RUNNER_TOKEN;
+    if (!token) {
+        console.error('A token is required, pass --token or set LOCAL_RUNNER_TOKEN');
+        process.exit(1);
+    }
+    return {
+        templatesDir: values.templates || 'templates',
+        port,
+        token,
+    };
+}
+
+const options = parseRunnerArgs();
+const runner = new LocalRunner(options);
+createServer((request, response) => {
+    void runner.handle(request, response);
+}).listen(options.port, LISTEN_HOST, () => {
+    console.log(`Local runner listening on http://${LISTEN_HOST}:${options.port} (templates: ${options.templatesDir})`);
+});
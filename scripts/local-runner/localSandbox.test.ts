@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// The sandbox only runs under bun or node, the test runtime gets in-memory stand-ins for processes and files
+const fsMock = vi.hoisted(() => ({
+    mkdir: vi.fn(),
+    writeFile: vi.fn(),
+    readFile: vi.fn(),
+    appendFile: vi.fn(),
+    rm: vi.fn(),
+}));
+vi.mock('node:child_process', () => ({ exec: vi.fn(), spawn: vi.fn() }));
+vi.mock('node:net', () => ({ createServer: vi.fn() }));
+vi.mock('node:os', () => ({ tmpdir: () => '/tmp' }));
+vi.mock('node:fs/promises', () => fsMock);
+
+import { isSafeInstanceId, LocalSandbox } from './localSandbox';
+
+describe('isSafeInstanceId', () => {
+    it('should accept generated instance ids', () => {
+        expect(isSafeInstanceId('my-app-0b7f2c1e-4a5d-4e8f-9c3b-2d1e0f9a8b7c')).toBe(true);
+        expect(isSafeInstanceId('app_1')).toBe(true);
+    });
+
+    it('should reject ids that could leave the root directory', () => {
+        for (const instanceId of ['..', '../other', 'a/b', 'a\\b', '.hidden', '', '-flag', 'app 1']) {
+            expect(isSafeInstanceId(instanceId)).toBe(false);
+        }
+    });
+});
+
+describe('LocalSandbox', () => {
+    let sandbox: LocalSandbox;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        sandbox = new LocalSandbox('session-1', { templatesDir: '/templates', rootDir: '/sandbox' });
+    });
+
+    it('should write instance files inside the instance directory', async () => {
+        const result = await sandbox.writeFiles('app-1', [{ file_path: 'src/index.ts', file_contents: 'export {};' }]);
+
+        expect(result.results?.[0].success).toBe(true);
+        expect(fsMock.writeFile).toHaveBeenCalledWith('/sandbox/app-1/src/index.ts', 'export {};');
+    });
+
+    it('should refuse file paths that escape the instance directory', async () => {
+        const result = await sandbox.writeFiles('app-1', [{ file_path: '../app-2/index.ts', file_contents: '' }]);
+
+        expect(result.results?.[0].success).toBe(false);
+        expect(fsMock.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should refuse instance ids that escape the root directory', async () => {
+        const result = await sandbox.writeFiles('..', [{ file_path: 'index.ts', file_contents: '' }]);
+
+        expect(result.results?.[0].success).toBe(false);
+        expect(fsMock.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should not read metadata of instance ids that escape the root directory', async () => {
+        const result = await sandbox.shutdownInstance('../../etc');
+
+        expect(result.success).toBe(false);
+        expect(fsMock.readFile).not.toHaveBeenCalled();
+        expect(fsMock.rm).not.toHaveBeenCalled();
+    });
+
+    it('should keep log names inside the logs directory', async () => {
+        const result = await sandbox.writeFileLogs('../../outside', 'line');
+
+        expect(result.success).toBe(true);
+        expect(fsMock.appendFile).toHaveBeenCalledWith('/sandbox/.monitor/logs/outside.log', 'line\n');
+    });
+});
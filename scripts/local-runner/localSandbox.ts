@@ -0,0 +1,1002 @@
+import { exec, spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+import {
+    TemplateDetailsResponse,
+    BootstrapResponse,
+    GetInstanceResponse,
+    BootstrapStatusResponse,
+    ShutdownResponse,
+    WriteFilesRequest,
+    WriteFilesResponse,
+    GetFilesResponse,
+    ExecuteCommandsResponse,
+    RuntimeErrorResponse,
+    ClearErrorsResponse,
+    StaticAnalysisResponse,
+    DeploymentResult,
+    FileTreeNode,
+    RuntimeError,
+    CommandExecutionResult,
+    InstanceDetails,
+    TemplateDetails,
+    GitHubInitResponse,
+    GitHubPushResponse,
+    GetLogsResponse,
+    ListInstancesResponse,
+    SaveInstanceResponse,
+    ResumeInstanceResponse,
+    TemplateInfo,
+    TemplateListResponse,
+} from '../../worker/services/sandbox/sandboxTypes';
+
+import { createObjectLogger, StructuredLogger } from '../../worker/logger';
+import { DEFAULT_ANALYZERS, runStaticAnalyzers } from '../../worker/services/sandbox/staticAnalyzers';
+
+interface InstanceMetadata {
+    templateName: string;
+    projectName: string;
+    startTime: string;
+    webhookUrl?: string;
+    previewURL?: string;
+    processId?: string;
+    allocatedPort?: number;
+}
+
+interface CommandResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+}
+
+export interface LocalSandboxOptions {
+    templatesDir: string;    // Templates laid out like the templates bucket: template_catalog.json and <name>.zip or <name>/
+    rootDir?: string;        // Directory holding templates and instances, defaults to a per-session temp directory
+    cliToolsPath?: string;   // Path of container/cli-tools.ts, defaults to the one in the working directory
+}
+
+// Directories skipped when listing instance files
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', '.wrangler', '.vscode', '.next', '.cache', '.idea', '.DS_Store', '.monitor']);
+const IGNORED_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.svg', '.ico', '.webp', '.bmp']);
+
+// Instance ids become file and directory names under the root directory, so only plain names are accepted
+const INSTANCE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+const PORT_RANGE_START = 8001;
+const PORT_RANGE_END = 8999;
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function isSafeInstanceId(instanceId: string): boolean {
+    return INSTANCE_ID_PATTERN.test(instanceId);
+}
+
+function isPortAvailable(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const server = createServer();
+        server.once('error', () => resolve(false));
+        server.once('listening', () => server.close(() => resolve(true)));
+        server.listen(port, '127.0.0.1');
+    });
+}
+
+/**
+ * Sandbox of one session backed by local directories and child processes, served over HTTP by the local runner
+ * Requires `bun` on the PATH. Logs and runtime errors are captured by the same process monitor
+ * the sandbox containers run (container/cli-tools.ts).
+ */
+export class LocalSandbox {
+    private logger: StructuredLogger;
+    private templatesDir: string;
+    private rootDir: string;
+    private dataDir: string;
+    private cliToolsPath: string;
+    private metadataCache = new Map<string, InstanceMetadata>();
+
+    constructor(private readonly sandboxId: string, options: LocalSandboxOptions) {
+        this.templatesDir = path.resolve(options.templatesDir);
+        this.rootDir = options.rootDir || path.join(tmpdir(), 'vibesdk-sandbox', sandboxId);
+        this.dataDir = path.join(this.rootDir, '.monitor');
+        this.cliToolsPath = options.cliToolsPath || path.resolve(process.cwd(), 'container/cli-tools.ts');
+
+        this.logger = createObjectLogger(this, 'LocalSandbox');
+        this.logger.setFields({
+            sandboxId: this.sandboxId
+        });
+        this.logger.info('Initialized local sandbox session', { sandboxId: this.sandboxId, rootDir: this.rootDir });
+    }
+
+    async initialize(): Promise<void> {
+        await fs.mkdir(this.dataDir, { recursive: true });
+        await fs.access(this.cliToolsPath);
+        const bunResult = await this.runShell(this.rootDir, 'bun --version');
+        if (bunResult.exitCode !== 0) {
+            throw new Error(`Bun is required for the local sandbox: ${bunResult.stderr}`);
+        }
+        this.logger.info('Local sandbox is ready', { bunVersion: bunResult.stdout.trim() });
+    }
+
+    private get monitorCli(): string {
+        return `bun ${shellQuote(this.cliToolsPath)}`;
+    }
+
+    /**
+     * Path of an instance's directory or one of its files in the root directory, rejecting ids that are not plain names
+     */
+    private getInstancePath(instanceId: string, suffix: string = ''): string {
+        if (!isSafeInstanceId(instanceId)) {
+            throw new Error(`Invalid instance id ${JSON.stringify(instanceId)}`);
+        }
+        return path.join(this.rootDir, `${instanceId}${suffix}`);
+    }
+
+    private getInstanceDir(instanceId: string): string {
+        return this.getInstancePath(instanceId);
+    }
+
+    private getRuntimeErrorFile(instanceId: string): string {
+        return this.getInstancePath(instanceId, '-runtime_errors.json');
+    }
+
+    private getInstanceMetadataFile(instanceId: string): string {
+        return this.getInstancePath(instanceId, '-metadata.json');
+    }
+
+    /**
+     * Resolve a file path inside an instance, rejecting paths that escape its directory
+     */
+    private resolveInstancePath(instanceId: string, filePath: string): string {
+        const instanceDir = this.getInstanceDir(instanceId);
+        const resolved = path.resolve(instanceDir, filePath);
+        if (resolved !== instanceDir && !resolved.startsWith(instanceDir + path.sep)) {
+            throw new Error(`Path ${filePath} is outside of instance ${instanceId}`);
+        }
+        return resolved;
+    }
+
+    private runShell(cwd: string, command: string, timeout?: number): Promise<CommandResult> {
+        return new Promise(resolve => {
+            exec(command, {
+                cwd,
+                timeout,
+                maxBuffer: 16 * 1024 * 1024,
+                env: { ...process.env, CLI_DATA_DIR: this.dataDir },
+            }, (error, stdout, stderr) => {
+                const exitCode = error ? (typeof error.code === 'number' ? error.code : 1) : 0;
+                resolve({ stdout: String(stdout), stderr: String(stderr), exitCode });
+            });
+        });
+    }
+
+    private async executeCommand(instanceId: string, command: string, timeout?: number): Promise<CommandResult> {
+        return this.runShell(this.getInstanceDir(instanceId), command, timeout);
+    }
+
+    private async storeRuntimeError(instanceId: string, error: RuntimeError): Promise<void> {
+        try {
+            const errorFile = this.getRuntimeErrorFile(instanceId);
+            let errors: RuntimeError[] = [];
+            try {
+                errors = JSON.parse(await fs.readFile(errorFile, 'utf8')) as RuntimeError[];
+            } catch {
+                // No existing errors file
+            }
+
+            errors.push(error);
+
+            // Keep only last 100 errors
+            if (errors.length > 100) {
+                errors = errors.slice(-100);
+            }
+
+            await fs.writeFile(errorFile, JSON.stringify(errors));
+        } catch (writeError) {
+            this.logger.warn('Failed to store runtime error', writeError);
+        }
+    }
+
+    private async getInstanceMetadata(instanceId: string): Promise<InstanceMetadata | null> {
+        if (this.metadataCache.has(instanceId)) {
+            return this.metadataCache.get(instanceId)!;
+        }
+        try {
+            const metadata = JSON.parse(await fs.readFile(this.getInstanceMetadataFile(instanceId), 'utf8')) as InstanceMetadata;
+            this.metadataCache.set(instanceId, metadata);
+            return metadata;
+        } catch {
+            return null;
+        }
+    }
+
+    private async storeInstanceMetadata(instanceId: string, metadata: InstanceMetadata): Promise<void> {
+        await fs.writeFile(this.getInstanceMetadataFile(instanceId), JSON.stringify(metadata));
+        this.metadataCache.set(instanceId, metadata);
+    }
+
+    private isProcessRunning(processId?: string): boolean {
+        if (!processId) {
+            return false;
+        }
+        try {
+            process.kill(Number(processId), 0);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private async allocateAvailablePort(): Promise<number> {
+        const instances = await this.listAllInstances();
+        const usedPorts = new Set(instances.instances.map(instance => this.metadataCache.get(instance.runId)?.allocatedPort));
+        for (let port = PORT_RANGE_START; port <= PORT_RANGE_END; port++) {
+            if (!usedPorts.has(port) && await isPortAvailable(port)) {
+                this.logger.info(`Allocated available port: ${port}`);
+                return port;
+            }
+        }
+        throw new Error(`No available ports found in range ${PORT_RANGE_START}-${PORT_RANGE_END}`);
+    }
+
+    // ==========================================
+    // TEMPLATES
+    // ==========================================
+
+    async listTemplates(): Promise<TemplateListResponse> {
+        try {
+            const templates = JSON.parse(await fs.readFile(path.join(this.templatesDir, 'template_catalog.json'), 'utf8')) as TemplateInfo[];
+            return {
+                success: true,
+                templates,
+                count: templates.length
+            };
+        } catch (error) {
+            return {
+                success: false,
+                templates: [],
+                count: 0,
+                error: `Failed to read template catalog: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    private async ensureTemplateExists(templateName: string): Promise<void> {
+        const templateDir = path.join(this.rootDir, templateName);
+        try {
+            await fs.access(path.join(templateDir, 'package.json'));
+            this.logger.info(`Template already exists`);
+            return;
+        } catch {
+            // Not copied yet
+        }
+
+        const sourceDir = path.resolve(this.templatesDir, templateName);
+        if (!sourceDir.startsWith(this.templatesDir + path.sep)) {
+            throw new Error(`Invalid template name: ${templateName}`);
+        }
+        const isDirectory = await fs.stat(sourceDir).then(stat => stat.isDirectory(), () => false);
+        if (isDirectory) {
+            this.logger.info(`Copying template from ${sourceDir}`);
+            await fs.cp(sourceDir, templateDir, { recursive: true });
+            return;
+        }
+
+        const zipPath = `${sourceDir}.zip`;
+        this.logger.info(`Extracting template from ${zipPath}`);
+        await fs.mkdir(templateDir, { recursive: true });
+        const unzipResult = await this.runShell(this.rootDir, `unzip -o -q ${shellQuote(zipPath)} -d ${shellQuote(templateDir)}`);
+        if (unzipResult.exitCode !== 0) {
+            throw new Error(`Failed to extract template: ${unzipResult.stderr}`);
+        }
+    }
+
+    async getTemplateDetails(templateName: string): Promise<TemplateDetailsResponse> {
+        try {
+            await this.ensureTemplateExists(templateName);
+
+            const filesResponse = await this.getFiles(templateName);    // Use template name as directory
+
+            let dependencies: Record<string, string> = {};
+            try {
+                const packageJson = JSON.parse(await fs.readFile(path.join(this.rootDir, templateName, 'package.json'), 'utf8')) as {
+                    dependencies?: Record<string, string>;
+                    devDependencies?: Record<string, string>;
+                };
+                dependencies = {
+                    ...packageJson.dependencies || {},
+                    ...packageJson.devDependencies || {}
+                };
+            } catch {
+                this.logger.info(`No package.json found for ${templateName}`);
+            }
+
+            const templatesResponse = await this.listTemplates();
+            const catalogInfo = templatesResponse.templates.find(t => t.name === templateName);
+
+            const templateDetails: TemplateDetails = {
+                name: templateName,
+                description: {
+                    selection: catalogInfo?.description.selection || '',
+                    usage: catalogInfo?.description.usage || ''
+                },
+                fileTree: await this.buildFileTree(templateName),
+                files: filesResponse.files,
+                language: catalogInfo?.language,
+                deps: dependencies,
+                frameworks: catalogInfo?.frameworks || [],
+                analyzers: catalogInfo?.analyzers || DEFAULT_ANALYZERS
+            };
+
+            return {
+                success: true,
+                templateDetails
+            };
+        } catch (error) {
+            this.logger.error('getTemplateDetails', error, { templateName });
+            return {
+                success: false,
+                error: `Failed to get template details: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    private async listFiles(instanceId: string, relativeDir: string = ''): Promise<{ files: string[]; dirs: string[] }> {
+        const result = { files: [] as string[], dirs: [] as string[] };
+        const entries = await fs.readdir(path.join(this.getInstanceDir(instanceId), relativeDir), { withFileTypes: true });
+        for (const entry of entries) {
+            const entryPath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+                result.dirs.push(entryPath);
+                const nested = await this.listFiles(instanceId, entryPath);
+                result.files.push(...nested.files);
+                result.dirs.push(...nested.dirs);
+            } else if (entry.isFile() && !IGNORED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+                result.files.push(entryPath);
+            }
+        }
+        return result;
+    }
+
+    private async buildFileTree(instanceId: string): Promise<FileTreeNode> {
+        const { files, dirs } = await this.listFiles(instanceId);
+        const fileSet = new Set(files);
+        const root: FileTreeNode = {
+            path: '',
+            type: 'directory',
+            children: []
+        };
+
+        for (const filePath of [...dirs, ...files]) {
+            const parts = filePath.split('/');
+            let current = root;
+            parts.forEach((_, index) => {
+                const nodePath = parts.slice(0, index + 1).join('/');
+                const isFile = fileSet.has(nodePath);
+                let child = current.children?.find(c => c.path === nodePath);
+                if (!child) {
+                    child = {
+                        path: nodePath,
+                        type: isFile ? 'file' : 'directory',
+                        children: isFile ? undefined : []
+                    };
+                    current.children = current.children || [];
+                    current.children.push(child);
+                }
+                if (!isFile) {
+                    current = child;
+                }
+            });
+        }
+        return root;
+    }
+
+    // ==========================================
+    // INSTANCE LIFECYCLE
+    // ==========================================
+
+    async listAllInstances(): Promise<ListInstancesResponse> {
+        try {
+            const entries = await fs.readdir(this.rootDir).catch(() => [] as string[]);
+            const instances: InstanceDetails[] = [];
+
+            for (const entry of entries) {
+                if (!entry.endsWith('-metadata.json')) continue;
+                const instanceId = entry.replace('-metadata.json', '');
+                const metadata = await this.getInstanceMetadata(instanceId);
+                if (!metadata) continue;
+
+                instances.push({
+                    runId: instanceId,
+                    templateName: metadata.templateName,
+                    startTime: new Date(metadata.startTime),
+                    uptime: Math.floor((Date.now() - new Date(metadata.startTime).getTime()) / 1000),
+                    directory: instanceId,
+                    serviceDirectory: instanceId,
+                    previewURL: metadata.previewURL,
+                    processId: metadata.processId,
+                    fileTree: undefined,
+                    runtimeErrors: undefined
+                });
+            }
+
+            return {
+                success: true,
+                instances,
+                count: instances.length
+            };
+        } catch (error) {
+            this.logger.error('listAllInstances', error);
+            return {
+                success: false,
+                instances: [],
+                count: 0,
+                error: `Failed to list instances: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Start the dev server under the process monitor, detached so it outlives the request that created it
+     */
+    private startDevServer(instanceId: string, port: number): string {
+        const child = spawn('bun', [this.cliToolsPath, 'process', 'start', '--instance-id', instanceId, '--port', String(port), '--', 'bun', 'run', 'dev'], {
+            cwd: this.getInstanceDir(instanceId),
+            env: { ...process.env, CLI_DATA_DIR: this.dataDir },
+            detached: true,
+            stdio: 'ignore',
+        });
+        child.unref();
+        if (!child.pid) {
+            throw new Error(`Failed to start dev server for ${instanceId}`);
+        }
+        this.logger.info(`Started dev server with process monitor for ${instanceId}`, { pid: child.pid, port });
+        return String(child.pid);
+    }
+
+    private async stopDevServer(processId?: string): Promise<void> {
+        if (!this.isProcessRunning(processId)) {
+            return;
+        }
+        try {
+            // Negative pid signals the whole process group, including the dev server itself
+            process.kill(-Number(processId), 'SIGTERM');
+        } catch (error) {
+            this.logger.warn(`Failed to stop process ${processId}`, error);
+        }
+    }
+
+    /**
+     * Updates project configuration files with the specified project name
+     */
+    private async updateProjectConfiguration(instanceId: string, projectName: string): Promise<void> {
+        for (const fileName of ['package.json', 'wrangler.jsonc']) {
+            const filePath = this.resolveInstancePath(instanceId, fileName);
+            try {
+                const content = await fs.readFile(filePath, 'utf8');
+                // Only the first "name" key, which is the top-level one in both files
+                await fs.writeFile(filePath, content.replace(/"name"\s*:\s*"[^"]*"/, `"name": "${projectName}"`));
+            } catch (error) {
+                this.logger.warn(`Failed to update ${fileName}`, error);
+            }
+        }
+    }
+
+    async createInstance(templateName: string, projectName: string, webhookUrl?: string, wait?: boolean, localEnvVars?: Record<string, string>): Promise<BootstrapResponse> {
+        try {
+            const instanceId = `${projectName}-${crypto.randomUUID()}`;
+            this.logger.info(`Creating local instance: ${instanceId}`, { templateName, projectName });
+
+            await fs.mkdir(this.dataDir, { recursive: true });
+            await this.ensureTemplateExists(templateName);
+            await fs.cp(path.join(this.rootDir, templateName), this.getInstanceDir(instanceId), { recursive: true });
+            await this.updateProjectConfiguration(instanceId, projectName);
+
+            if (localEnvVars) {
+                const envVarsContent = Object.entries(localEnvVars)
+                    .map(([key, value]) => `${key}=${value}`)
+                    .join('\n');
+                await fs.writeFile(this.resolveInstancePath(instanceId, '.dev.vars'), envVarsContent);
+            }
+
+            const metadata: InstanceMetadata = {
+                templateName,
+                projectName,
+                startTime: new Date().toISOString(),
+                webhookUrl,
+            };
+            await this.storeInstanceMetadata(instanceId, metadata);
+
+            const setupPromise = this.setupInstance(instanceId, metadata);
+            if (wait) {
+                const setupResult = await setupPromise;
+                if (!setupResult) {
+                    return {
+                        success: false,
+                        error: 'Failed to setup instance'
+                    };
+                }
+            }
+
+            return {
+                success: true,
+                runId: instanceId,
+                message: `Successfully created instance from template ${templateName}`,
+                previewURL: metadata.previewURL,
+                processId: metadata.processId,
+            };
+        } catch (error) {
+            this.logger.error('createInstance', error, { templateName, projectName });
+            return {
+                success: false,
+                error: `Failed to create instance: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Install dependencies and start the dev server, recording the result in the instance metadata
+     */
+    private async setupInstance(instanceId: string, metadata: InstanceMetadata): Promise<boolean> {
+        try {
+            this.logger.info(`Installing dependencies for ${instanceId}`);
+            const installResult = await this.executeCommand(instanceId, 'bun install');
+            if (installResult.exitCode !== 0) {
+                await this.storeRuntimeError(instanceId, {
+                    timestamp: new Date(),
+                    message: `Failed to install dependencies: ${installResult.stderr}`,
+                    severity: 'warning',
+                    source: 'npm_install',
+                    rawOutput: `Exit code: ${installResult.exitCode}\nSTDOUT: ${installResult.stdout}\nSTDERR: ${installResult.stderr}`
+                });
+                return false;
+            }
+
+            const allocatedPort = await this.allocateAvailablePort();
+            metadata.allocatedPort = allocatedPort;
+            metadata.processId = this.startDevServer(instanceId, allocatedPort);
+            metadata.previewURL = `http://localhost:${allocatedPort}`;
+            await this.storeInstanceMetadata(instanceId, metadata);
+            return true;
+        } catch (error) {
+            this.logger.warn('Failed to setup instance', error);
+            return false;
+        }
+    }
+
+    async getInstanceDetails(instanceId: string): Promise<GetInstanceResponse> {
+        try {
+            const metadata = await this.getInstanceMetadata(instanceId);
+            if (!metadata) {
+                return {
+                    success: false,
+                    error: `Instance ${instanceId} not found or metadata corrupted`
+                };
+            }
+
+            let runtimeErrors: RuntimeError[] = [];
+            try {
+                runtimeErrors = JSON.parse(await fs.readFile(this.getRuntimeErrorFile(instanceId), 'utf8')) as RuntimeError[];
+            } catch {
+                // No errors stored
+            }
+
+            const startTime = new Date(metadata.startTime);
+            return {
+                success: true,
+                instance: {
+                    runId: instanceId,
+                    templateName: metadata.templateName,
+                    startTime,
+                    uptime: Math.floor((Date.now() - startTime.getTime()) / 1000),
+                    directory: instanceId,
+                    serviceDirectory: instanceId,
+                    fileTree: await this.buildFileTree(instanceId),
+                    runtimeErrors,
+                    previewURL: metadata.previewURL,
+                    processId: metadata.processId,
+                }
+            };
+        } catch (error) {
+            this.logger.error('getInstanceDetails', error, { instanceId });
+            return {
+                success: false,
+                error: `Failed to get instance details: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    async getInstanceStatus(instanceId: string): Promise<BootstrapStatusResponse> {
+        const metadata = await this.getInstanceMetadata(instanceId);
+        if (!metadata) {
+            return {
+                success: false,
+                pending: false,
+                error: `Instance ${instanceId} not found`
+            };
+        }
+
+        const isHealthy = this.isProcessRunning(metadata.processId);
+        return {
+            success: true,
+            pending: !metadata.processId,
+            message: isHealthy ? 'Instance is running normally' : 'Instance may have issues',
+            previewURL: metadata.previewURL,
+            processId: metadata.processId
+        };
+    }
+
+    async shutdownInstance(instanceId: string): Promise<ShutdownResponse> {
+        try {
+            const metadata = await this.getInstanceMetadata(instanceId);
+            if (!metadata) {
+                return {
+                    success: false,
+                    error: `Instance ${instanceId} not found`
+                };
+            }
+
+            this.logger.info(`Shutting down instance: ${instanceId}`);
+            await this.stopDevServer(metadata.processId);
+
+            await fs.rm(this.getInstanceDir(instanceId), { recursive: true, force: true });
+            await fs.rm(this.getInstanceMetadataFile(instanceId), { force: true });
+            await fs.rm(this.getRuntimeErrorFile(instanceId), { force: true });
+            this.metadataCache.delete(instanceId);
+
+            return {
+                success: true,
+                message: `Successfully shutdown instance ${instanceId}`
+            };
+        } catch (error) {
+            this.logger.error('shutdownInstance', error, { instanceId });
+            return {
+                success: false,
+                error: `Failed to shutdown instance: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // ==========================================
+    // FILE OPERATIONS
+    // ==========================================
+
+    async writeFiles(instanceId: string, files: WriteFilesRequest['files']): Promise<WriteFilesResponse> {
+        const results = await Promise.all(files.map(async (file) => {
+            try {
+                const filePath = this.resolveInstancePath(instanceId, file.file_path);
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(filePath, file.file_contents);
+                return { file: file.file_path, success: true };
+            } catch (error) {
+                this.logger.error(`Failed to write file: ${file.file_path}`, error);
+                return { file: file.file_path, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+        }));
+
+        const successCount = results.filter(r => r.success).length;
+        return {
+            success: true,
+            results,
+            message: `Successfully wrote ${successCount}/${files.length} files`
+        };
+    }
+
+    /**
+     * Expand a JSON list of files and directories in the instance, e.g. .important_files.json
+     */
+    private async readPathList(instanceId: string, listFile: string): Promise<string[]> {
+        const entries = JSON.parse(await fs.readFile(this.resolveInstancePath(instanceId, listFile), 'utf8')) as string[];
+        const paths: string[] = [];
+        for (const entry of entries) {
+            const stat = await fs.stat(this.resolveInstancePath(instanceId, entry)).catch(() => null);
+            if (stat?.isDirectory()) {
+                const { files } = await this.listFiles(instanceId, entry.replace(/\/$/, ''));
+                paths.push(...files);
+            } else if (stat?.isFile()) {
+                paths.push(entry);
+            }
+        }
+        return paths;
+    }
+
+    async getFiles(instanceId: string, filePaths?: string[], applyFilter: boolean = false): Promise<GetFilesResponse> {
+        try {
+            if (!filePaths) {
+                filePaths = await this.readPathList(instanceId, '.important_files.json');
+                applyFilter = true;
+            }
+
+            const donttouchPaths = applyFilter
+                ? await this.readPathList(instanceId, 'donttouch_files.json').catch(() => [] as string[])
+                : [];
+
+            const files = [];
+            const errors = [];
+            for (const filePath of filePaths) {
+                try {
+                    const content = await fs.readFile(this.resolveInstancePath(instanceId, filePath), 'utf8');
+                    files.push({
+                        file_path: filePath,
+                        file_contents: donttouchPaths.includes(filePath) ? '[REDACTED]' : content
+                    });
+                } catch {
+                    errors.push({
+                        file: filePath,
+                        error: 'Failed to read file'
+                    });
+                }
+            }
+
+            return {
+                success: true,
+                files,
+                errors: errors.length > 0 ? errors : undefined
+            };
+        } catch (error) {
+            this.logger.error('getFiles', error, { instanceId });
+            return {
+                success: false,
+                files: [],
+                error: `Failed to get files: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // ==========================================
+    // LOG RETRIEVAL
+    // ==========================================
+
+    async getLogs(instanceId: string, onlyRecent?: boolean): Promise<GetLogsResponse> {
+        try {
+            const result = await this.executeCommand(instanceId, `${this.monitorCli} logs get -i ${shellQuote(instanceId)} --format raw ${onlyRecent ? '--reset' : ''}`, 15000);
+            return {
+                success: true,
+                logs: {
+                    stdout: result.stdout,
+                    stderr: result.stderr,
+                },
+                error: undefined
+            };
+        } catch (error) {
+            this.logger.error('getLogs', error, { instanceId });
+            return {
+                success: false,
+                logs: {
+                    stdout: '',
+                    stderr: '',
+                },
+                error: `Failed to get logs: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // ==========================================
+    // COMMAND EXECUTION
+    // ==========================================
+
+    async executeCommands(instanceId: string, commands: string[], timeout?: number): Promise<ExecuteCommandsResponse> {
+        const results: CommandExecutionResult[] = [];
+
+        for (const command of commands) {
+            const result = await this.executeCommand(instanceId, command, timeout);
+            results.push({
+                command,
+                success: result.exitCode === 0,
+                output: result.stdout,
+                error: result.stderr || undefined,
+                exitCode: result.exitCode
+            });
+
+            if (result.exitCode !== 0) {
+                await this.storeRuntimeError(instanceId, {
+                    timestamp: new Date(),
+                    message: `Command failed: ${command}`,
+                    stack: result.stderr,
+                    severity: 'error',
+                    source: 'command_execution',
+                    rawOutput: `Command: ${command}\nExit code: ${result.exitCode}\nSTDOUT: ${result.stdout}\nSTDERR: ${result.stderr}`
+                });
+            }
+            this.logger.info(`Executed command: ${command} (exit: ${result.exitCode})`);
+        }
+
+        const successCount = results.filter(r => r.success).length;
+        return {
+            success: true,
+            results,
+            message: `Executed ${successCount}/${commands.length} commands successfully`
+        };
+    }
+
+    // ==========================================
+    // ERROR MANAGEMENT
+    // ==========================================
+
+    async getInstanceErrors(instanceId: string, clear?: boolean): Promise<RuntimeErrorResponse> {
+        try {
+            const result = await this.executeCommand(instanceId, `${this.monitorCli} errors list -i ${shellQuote(instanceId)} --format json`, 15000);
+            if (result.exitCode !== 0) {
+                throw new Error(`STDERR: ${result.stderr}, STDOUT: ${result.stdout}`);
+            }
+
+            const response = JSON.parse(result.stdout) as { success: boolean; errors?: Record<string, unknown>[] };
+            // CLI returns StoredError objects with snake_case field names
+            const errors: RuntimeError[] = (response.errors || []).map(err => ({
+                timestamp: String(err.last_occurrence || err.created_at),
+                message: String(err.message || ''),
+                filePath: err.source_file ? String(err.source_file) : undefined,
+                lineNumber: typeof err.line_number === 'number' ? err.line_number : undefined,
+                columnNumber: typeof err.column_number === 'number' ? err.column_number : undefined,
+                severity: err.severity === 'fatal' ? 'fatal' : err.severity === 'error' ? 'error' : 'warning',
+                rawOutput: err.raw_output ? String(err.raw_output) : undefined
+            }));
+
+            if (clear && errors.length > 0) {
+                await this.clearInstanceErrors(instanceId);
+            }
+
+            return {
+                success: true,
+                errors,
+                hasErrors: errors.length > 0
+            };
+        } catch (error) {
+            this.logger.error('getInstanceErrors', error, { instanceId });
+            return {
+                success: false,
+                errors: [],
+                hasErrors: false,
+                error: `Failed to get errors: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    async clearInstanceErrors(instanceId: string): Promise<ClearErrorsResponse> {
+        try {
+            const result = await this.executeCommand(instanceId, `${this.monitorCli} errors clear -i ${shellQuote(instanceId)} --confirm`, 15000);
+            if (result.exitCode !== 0) {
+                throw new Error(`STDERR: ${result.stderr}, STDOUT: ${result.stdout}`);
+            }
+            await fs.rm(this.getRuntimeErrorFile(instanceId), { force: true });
+
+            const response = JSON.parse(result.stdout) as { message?: string; clearedCount?: number };
+            return {
+                success: true,
+                message: response.message || `Cleared ${response.clearedCount || 0} errors`
+            };
+        } catch (error) {
+            this.logger.error('clearInstanceErrors', error, { instanceId });
+            return {
+                success: false,
+                error: `Failed to clear errors: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // ==========================================
+    // CODE ANALYSIS
+    // ==========================================
+
+    async runStaticAnalysisCode(instanceId: string): Promise<StaticAnalysisResponse> {
+        try {
+            const metadata = await this.getInstanceMetadata(instanceId);
+            const templatesResponse = await this.listTemplates();
+            const catalogInfo = templatesResponse.templates.find(t => t.name === metadata?.templateName);
+            return await runStaticAnalyzers(catalogInfo?.analyzers || DEFAULT_ANALYZERS, (command) => this.executeCommand(instanceId, command), this.logger);
+        } catch (error) {
+            this.logger.error('runStaticAnalysisCode', error, { instanceId });
+            return {
+                success: false,
+                lint: { issues: [] },
+                typecheck: { issues: [] },
+                error: `Failed to run analysis: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Append a debug log the agent sends, under the session's data directory
+     */
+    async writeFileLogs(logName: string, log: string): Promise<{ success: boolean; error?: string }> {
+        try {
+            const logsDir = path.join(this.dataDir, 'logs');
+            await fs.mkdir(logsDir, { recursive: true });
+            const fileName = `${path.basename(logName).replace(/[^\w.-]/g, '_') || 'log'}.log`;
+            await fs.appendFile(path.join(logsDir, fileName), log.endsWith('\n') ? log : `${log}\n`);
+            return { success: true };
+        } catch (error) {
+            this.logger.error('writeFileLogs', error, { logName });
+            return {
+                success: false,
+                error: `Failed to write logs: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // ==========================================
+    // UNSUPPORTED OPERATIONS
+    // ==========================================
+
+    async deployToCloudflareWorkers(): Promise<DeploymentResult> {
+        return {
+            success: false,
+            message: 'Deployment is not supported by the local sandbox',
+            error: 'Deployment is not supported by the local sandbox'
+        };
+    }
+
+    async initGitHubRepository(): Promise<GitHubInitResponse> {
+        return {
+            success: false,
+            error: 'GitHub export is not supported by the local sandbox'
+        };
+    }
+
+    async pushToGitHub(): Promise<GitHubPushResponse> {
+        return {
+            success: false,
+            error: 'GitHub export is not supported by the local sandbox'
+        };
+    }
+
+    async saveInstance(): Promise<SaveInstanceResponse> {
+        return {
+            success: false,
+            error: 'Local instances are kept on disk and cannot be saved to R2'
+        };
+    }
+
+    async resumeInstance(instanceId: string, forceRestart?: boolean): Promise<ResumeInstanceResponse> {
+        try {
+            const metadata = await this.getInstanceMetadata(instanceId);
+            if (!metadata) {
+                return {
+                    success: false,
+                    resumed: false,
+                    error: `Instance ${instanceId} not found`
+                };
+            }
+
+            if (this.isProcessRunning(metadata.processId)) {
+                if (!forceRestart) {
+                    return {
+                        success: true,
+                        resumed: false,
+                        message: 'Instance is already running',
+                        previewURL: metadata.previewURL,
+                        processId: metadata.processId
+                    };
+                }
+                await this.stopDevServer(metadata.processId);
+            }
+
+            const port = metadata.allocatedPort && await isPortAvailable(metadata.allocatedPort)
+                ? metadata.allocatedPort
+                : await this.allocateAvailablePort();
+            metadata.allocatedPort = port;
+            metadata.processId = this.startDevServer(instanceId, port);
+            metadata.previewURL = `http://localhost:${port}`;
+            await this.storeInstanceMetadata(instanceId, metadata);
+
+            return {
+                success: true,
+                resumed: true,
+                message: `Restarted dev server for ${instanceId}`,
+                previewURL: metadata.previewURL,
+                processId: metadata.processId
+            };
+        } catch (error) {
+            this.logger.error('resumeInstance', error, { instanceId });
+            return {
+                success: false,
+                resumed: false,
+                error: `Failed to resume instance: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { matchRoute } from './routes';
+import type { LocalSandbox } from './localSandbox';
+
+describe('matchRoute', () => {
+    it('should match instance routes with their decoded id', () => {
+        const match = matchRoute('GET', '/instances/my-app-123/status');
+
+        expect(match?.route.pattern.source).toContain('status');
+        expect(match?.params).toEqual(['my-app-123']);
+    });
+
+    it('should match on the method as well as the path', () => {
+        expect(matchRoute('DELETE', '/instances/app-1')?.params).toEqual(['app-1']);
+        expect(matchRoute('DELETE', '/instances/app-1/status')).toBeNull();
+        expect(matchRoute('PUT', '/instances/app-1')).toBeNull();
+    });
+
+    it('should not match paths with more segments than the route', () => {
+        expect(matchRoute('GET', '/instances/app-1/files/extra')).toBeNull();
+    });
+
+    it('should pass the runner logs to the sandbox', async () => {
+        const writeFileLogs = vi.fn().mockResolvedValue({ success: true });
+        const sandbox = { writeFileLogs } as unknown as LocalSandbox;
+
+        const match = matchRoute('POST', '/logs');
+        await match!.route.handler(sandbox, match!.params, new URL('http://localhost/logs'), { logName: 'build', log: 'done' });
+
+        expect(writeFileLogs).toHaveBeenCalledWith('build', 'done');
+    });
+
+    it('should pass the command body to the sandbox', async () => {
+        const executeCommands = vi.fn().mockResolvedValue({ success: true, results: [] });
+        const sandbox = { executeCommands } as unknown as LocalSandbox;
+
+        const match = matchRoute('POST', '/instances/app-1/commands');
+        await match!.route.handler(sandbox, match!.params, new URL('http://localhost/instances/app-1/commands'), {
+            commands: ['bun install'],
+            timeout: 1000,
+        });
+
+        expect(executeCommands).toHaveBeenCalledWith('app-1', ['bun install'], 1000);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Routes of the runner service API, as called by RemoteSandboxServiceClient
+ */
+
+import type { LocalSandbox } from './localSandbox';
+
+export type RouteHandler = (sandbox: LocalSandbox, params: string[], url: URL, body: Record<string, unknown>) => Promise<unknown>;
+
+export interface Route {
+    method: 'GET' | 'POST' | 'DELETE';
+    pattern: RegExp;
+    handler: RouteHandler;
+}
+
+export const ROUTES: Route[] = [
+    { method: 'GET', pattern: /^\/templates\/([^/]+)$/, handler: (sandbox, [name]) => sandbox.getTemplateDetails(name) },
+    { method: 'GET', pattern: /^\/instances$/, handler: (sandbox) => sandbox.listAllInstances() },
+    {
+        method: 'POST', pattern: /^\/instances$/, handler: (sandbox, _, __, body) => sandbox.createInstance(
+            String(body.templateName), String(body.projectName), body.webhookUrl as string | undefined, body.wait === true
+        )
+    },
+    { method: 'GET', pattern: /^\/instances\/([^/]+)$/, handler: (sandbox, [id]) => sandbox.getInstanceDetails(id) },
+    { method: 'DELETE', pattern: /^\/instances\/([^/]+)$/, handler: (sandbox, [id]) => sandbox.shutdownInstance(id) },
+    { method: 'GET', pattern: /^\/instances\/([^/]+)\/status$/, handler: (sandbox, [id]) => sandbox.getInstanceStatus(id) },
+    {
+        method: 'POST', pattern: /^\/instances\/([^/]+)\/files$/,
+        handler: (sandbox, [id], _, body) => sandbox.writeFiles(id, body.files as Parameters<LocalSandbox['writeFiles']>[1])
+    },
+    {
+        method: 'GET', pattern: /^\/instances\/([^/]+)\/files$/, handler: (sandbox, [id], url) => {
+            const filePaths = url.searchParams.get('filePaths');
+            return sandbox.getFiles(id, filePaths ? JSON.parse(filePaths) as string[] : undefined);
+        }
+    },
+    {
+        method: 'POST', pattern: /^\/instances\/([^/]+)\/commands$/,
+        handler: (sandbox, [id], _, body) => sandbox.executeCommands(id, body.commands as string[], body.timeout as number | undefined)
+    },
+    { method: 'GET', pattern: /^\/instances\/([^/]+)\/errors$/, handler: (sandbox, [id]) => sandbox.getInstanceErrors(id) },
+    { method: 'DELETE', pattern: /^\/instances\/([^/]+)\/errors$/, handler: (sandbox, [id]) => sandbox.clearInstanceErrors(id) },
+    { method: 'GET', pattern: /^\/instances\/([^/]+)\/analysis$/, handler: (sandbox, [id]) => sandbox.runStaticAnalysisCode(id) },
+    { method: 'POST', pattern: /^\/instances\/([^/]+)\/deploy$/, handler: (sandbox) => sandbox.deployToCloudflareWorkers() },
+    { method: 'POST', pattern: /^\/instances\/([^/]+)\/github\/init$/, handler: (sandbox) => sandbox.initGitHubRepository() },
+    { method: 'POST', pattern: /^\/instances\/([^/]+)\/github\/push$/, handler: (sandbox) => sandbox.pushToGitHub() },
+    { method: 'GET', pattern: /^\/instances\/([^/]+)\/logs$/, handler: (sandbox, [id]) => sandbox.getLogs(id) },
+    { method: 'POST', pattern: /^\/instances\/([^/]+)\/save$/, handler: (sandbox) => sandbox.saveInstance() },
+    {
+        method: 'POST', pattern: /^\/instances\/([^/]+)\/resume$/,
+        handler: (sandbox, [id], _, body) => sandbox.resumeInstance(id, body.forceRestart === true)
+    },
+    {
+        method: 'POST', pattern: /^\/logs$/,
+        handler: (sandbox, _, __, body) => sandbox.writeFileLogs(String(body.logName), String(body.log ?? ''))
+    },
+];
+
+/**
+ * Route of a request with its decoded path parameters, null when no route matches
+ */
+export function matchRoute(method: string, pathname: string): { route: Route; params: string[] } | null {
+    for (const route of ROUTES) {
+        const match = route.method === method ? route.pattern.exec(pathname) : null;
+        if (match) {
+            return { route, params: match.slice(1).map(decodeURIComponent) };
+        }
+    }
+    return null;
+}
@@ -8,7 +8,8 @@ import {
     Upload, 
     CheckCircle, 
     AlertCircle, 
-    Loader
+    Loader,
+    GitPullRequest
 } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
 
@@ -19,6 +20,7 @@ interface GitHubExportModalProps {
         repositoryName: string;
         isPrivate: boolean;
         description?: string;
+        pullRequest?: boolean;
     }) => void;
     isExporting?: boolean;
     exportProgress?: {
@@ -29,8 +31,10 @@ interface GitHubExportModalProps {
     exportResult?: {
         success: boolean;
         repositoryUrl?: string;
+        pullRequestUrl?: string;
         error?: string;
     };
+    linkedRepository?: string;  // owner/repo the app already pushes to, exports then add commits to it
 }
 
 export function GitHubExportModal({
@@ -39,12 +43,14 @@ export function GitHubExportModal({
     onExport,
     isExporting = false,
     exportProgress,
-    exportResult
+    exportResult,
+    linkedRepository
 }: GitHubExportModalProps) {
     const { isAuthenticated } = useAuth();
     const [repositoryName, setRepositoryName] = useState('');
     const [description, setDescription] = useState('');
     const [isPrivate, setIsPrivate] = useState(false);
+    const [pullRequest, setPullRequest] = useState(false);
 
     const handleSubmit = useCallback((e: React.FormEvent) => {
         e.preventDefault();
@@ -62,9 +68,10 @@ export function GitHubExportModal({
         onExport({
             repositoryName: repositoryName.trim(),
             isPrivate,
-            description: description.trim() || undefined
+            description: description.trim() || undefined,
+            pullRequest: linkedRepository ? pullRequest : undefined
         });
-    }, [repositoryName, description, isPrivate, onExport, isAuthenticated]);
+    }, [repositoryName, description, isPrivate, pullRequest, linkedRepository, onExport, isAuthenticated]);
 
     const handleClose = useCallback(() => {
         if (!isExporting) {
@@ -74,11 +81,13 @@ export function GitHubExportModal({
 
     // Auto-generate repository name based on current timestamp
     React.useEffect(() => {
-        if (isOpen && !repositoryName) {
+        if (isOpen && linkedRepository) {
+            setRepositoryName(linkedRepository.split('/')[1]);
+        } else if (isOpen && !repositoryName) {
             const timestamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
             setRepositoryName(`generated-app-${timestamp}`);
         }
-    }, [isOpen, repositoryName]);
+    }, [isOpen, repositoryName, linkedRepository]);
 
     if (!isOpen) return null;
 
@@ -105,8 +114,12 @@ export function GitHubExportModal({
                                 <Github className="w-5 h-5 text-text" />
                             </div>
                             <div>
-                                <h2 className="text-lg font-semibold text-text">Export to GitHub</h2>
-                                <p className="text-sm text-text/60">Create a new repository with your generated code</p>
+                                <h2 className="text-lg font-semibold text-text">{linkedRepository ? 'Push to GitHub' : 'Export to GitHub'}</h2>
+                                <p className="text-sm text-text/60">
+                                    {linkedRepository
+                                        ? `Commit each completed phase to ${linkedRepository}`
+                                        : 'Create a new repository with your generated code'}
+                                </p>
                             </div>
                         </div>
                         {!isExporting && (
@@ -148,13 +161,13 @@ export function GitHubExportModal({
                                         Your code has been successfully exported to GitHub
                                     </p>
                                     <a
-                                        href={exportResult.repositoryUrl}
+                                        href={exportResult.pullRequestUrl || exportResult.repositoryUrl}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="inline-flex items-center gap-2 bg-bg-lighter hover:bg-border text-text py-2 px-4 rounded-lg transition-colors"
                                     >
                                         <Github className="w-4 h-4" />
-                                        View Repository
+                                        {exportResult.pullRequestUrl ? 'View Pull Request' : 'View Repository'}
                                     </a>
                                 </div>
                             ) : (
@@ -255,42 +268,60 @@ export function GitHubExportModal({
                                 />
                             </div>
 
-                            {/* Privacy Setting */}
-                            <div>
-                                <label className="block text-sm font-medium text-text mb-3">
-                                    Repository Privacy
+                            {linkedRepository ? (
+                                /* Push Mode */
+                                <label className="flex items-center gap-3 p-3 bg-bg-lighter rounded-lg cursor-pointer hover:bg-border transition-colors">
+                                    <input
+                                        type="checkbox"
+                                        checked={pullRequest}
+                                        onChange={(e) => setPullRequest(e.target.checked)}
+                                        className="w-4 h-4 text-brand focus:ring-brand/50"
+                                    />
+                                    <GitPullRequest className="w-4 h-4 text-text/60" />
+                                    <div>
+                                        <p className="text-sm font-medium text-text">Open a pull request</p>
+                                        <p className="text-xs text-text/60">Push to a new branch instead of committing to the default branch</p>
+                                    </div>
                                 </label>
-                                <div className="space-y-2">
-                                    <label className="flex items-center gap-3 p-3 bg-bg-lighter rounded-lg cursor-pointer hover:bg-border transition-colors">
-                                        <input
-                                            type="radio"
-                                            name="privacy"
-                                            checked={!isPrivate}
-                                            onChange={() => setIsPrivate(false)}
-                                            className="w-4 h-4 text-brand focus:ring-brand/50"
-                                        />
-                                        <Globe className="w-4 h-4 text-text/60" />
-                                        <div>
-                                            <p className="text-sm font-medium text-text">Public</p>
-                                            <p className="text-xs text-text/60">Anyone can see this repository</p>
-                                        </div>
-                                    </label>
-                                    <label className="flex items-center gap-3 p-3 bg-bg-lighter rounded-lg cursor-pointer hover:bg-border transition-colors">
-                                        <input
-                                            type="radio"
-                                            name="privacy"
-                                            checked={isPrivate}
-                                            onChange={() => setIsPrivate(true)}
-                                            className="w-4 h-4 text-brand focus:ring-brand/50"
-                                        />
-                                        <Lock className="w-4 h-4 text-text/60" />
-                                        <div>
-                                            <p className="text-sm font-medium text-text">Private</p>
-                                            <p className="text-xs text-text/60">Only you can see this repository</p>
-                                        </div>
+                            ) : (
+                                /* Privacy Setting */
+                                <div>
+                                    <label className="block text-sm font-medium text-text mb-3">
+                                        Repository Privacy
                                     </label>
+                                    <div className="space-y-2">
+                                        <label className="flex items-center gap-3 p-3 bg-bg-lighter rounded-lg cursor-pointer hover:bg-border transition-colors">
+                                            <input
+                                                type="radio"
+                                                name="privacy"
+                                                checked={!isPrivate}
+                                                onChange={() => setIsPrivate(false)}
+                                                className="w-4 h-4 text-brand focus:ring-brand/50"
+                                            />
+                                            <Globe className="w-4 h-4 text-text/60" />
+                                            <div>
+                                                <p className="text-sm font-medium text-text">Public</p>
+                                                <p className="text-xs text-text/60">Anyone can see this repository</p>
+                                            </div>
+                                        </label>
+                                        <label className="flex items-center gap-3 p-3 bg-bg-lighter rounded-lg cursor-pointer hover:bg-border transition-colors">
+                                            <input
+                                                type="radio"
+                                                name="privacy"
+                                                checked={isPrivate}
+                                                onChange={() => setIsPrivate(true)}
+                                                className="w-4 h-4 text-brand focus:ring-brand/50"
+                                            />
+                                            <Lock className="w-4 h-4 text-text/60" />
+                                            <div>
+                                                <p className="text-sm font-medium text-text">Private</p>
+                                                <p className="text-xs text-text/60">Only you can see this repository</p>
+                                            </div>
+                                        </label>
+                                    </div>
                                 </div>
-                            </div>
+
+                            )}
 
                             {/* Submit Button */}
                             <div className="flex gap-3 pt-4">
@@ -307,7 +338,7 @@ export function GitHubExportModal({
                                     className="flex-1 bg-brand hover:bg-brand/90 disabled:bg-brand/50 text-text-on-brand py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
                                 >
                                     <Upload className="w-4 h-4" />
-                                    Export to GitHub
+                                    {linkedRepository ? 'Push to GitHub' : 'Export to GitHub'}
                                 </button>
                             </div>
                         </form>
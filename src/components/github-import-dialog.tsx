@@ -0,0 +1,117 @@
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router';
+import { Github, Loader } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/auth-context';
+import type { AgentMode } from './agent-mode-toggle';
+
+interface GitHubImportDialogProps {
+    agentMode: AgentMode;
+}
+
+/**
+ * Starts a session from an existing GitHub repository of the user
+ */
+export function GitHubImportDialog({ agentMode }: GitHubImportDialogProps) {
+    const navigate = useNavigate();
+    const { isAuthenticated } = useAuth();
+    const [isOpen, setIsOpen] = useState(false);
+    const [repository, setRepository] = useState('');
+    const [branch, setBranch] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+
+    const handleImport = useCallback(async () => {
+        setIsImporting(true);
+        try {
+            const response = await fetch('/api/codegen/import', {
+                method: 'POST',
+                credentials: 'include',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    repository: repository.trim(),
+                    branch: branch.trim() || undefined,
+                    agentMode,
+                })
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to import repository');
+            }
+
+            toast.success(`Imported ${data.data.repository}`);
+            navigate(`/chat/${data.data.agentId}`);
+        } catch (error) {
+            console.error('Error importing repository:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to import repository');
+        } finally {
+            setIsImporting(false);
+        }
+    }, [repository, branch, agentMode, navigate]);
+
+    if (!isAuthenticated) {
+        return null;
+    }
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !isImporting && setIsOpen(open)}>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-text-primary/60">
+                    <Github className="size-4" />
+                    Import from GitHub
+                </Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Import from GitHub</DialogTitle>
+                    <DialogDescription>
+                        Continue building an existing repository from your connected GitHub account.
+                        Commits pushed to the branch later can be pulled into the session.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="github-import-repository">Repository</Label>
+                        <Input
+                            id="github-import-repository"
+                            placeholder="owner/repo or https://github.com/owner/repo"
+                            value={repository}
+                            onChange={(e) => setRepository(e.target.value)}
+                            disabled={isImporting}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="github-import-branch">Branch</Label>
+                        <Input
+                            id="github-import-branch"
+                            placeholder="Default branch"
+                            value={branch}
+                            onChange={(e) => setBranch(e.target.value)}
+                            disabled={isImporting}
+                        />
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button
+                        onClick={handleImport}
+                        disabled={!repository.trim() || isImporting}
+                    >
+                        {isImporting && <Loader className="size-4 animate-spin" />}
+                        {isImporting ? 'Analyzing repository...' : 'Import'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
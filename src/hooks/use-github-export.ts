@@ -6,6 +6,7 @@ export interface GitHubExportOptions {
     repositoryName: string;
     isPrivate: boolean;
     description?: string;
+    pullRequest?: boolean;
 }
 
 export interface GitHubExportProgress {
@@ -17,6 +18,7 @@ export interface GitHubExportProgress {
 export interface GitHubExportResult {
     success: boolean;
     repositoryUrl?: string;
+    pullRequestUrl?: string;
     error?: string;
 }
 
@@ -64,7 +66,8 @@ export function useGitHubExport(websocket?: WebSocket | any) {
                     progress: undefined,
                     result: {
                         success: true,
-                        repositoryUrl: message.repositoryUrl
+                        repositoryUrl: message.repositoryUrl,
+                        pullRequestUrl: message.pullRequestUrl
                     }
                 }));
                 break;
@@ -140,6 +143,7 @@ export function useGitHubExport(websocket?: WebSocket | any) {
             repositoryName: options.repositoryName,
             isPrivate: options.isPrivate,
             description: options.description,
+            pullRequest: options.pullRequest,
             userId: user?.id
         }));
 
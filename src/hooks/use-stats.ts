@@ -1,6 +1,38 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/auth-context';
 
+export interface InferenceUsageTotals {
+  inferences: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+  estimatedCost: number;
+  latencyMs: number;
+  retries: number;
+  fallbacks: number;
+  failures: number;
+}
+
+export interface InferenceUsageSummary {
+  totals: InferenceUsageTotals;
+  byAction: Array<InferenceUsageTotals & { agentActionName: string }>;
+  byModel: Array<InferenceUsageTotals & { model: string }>;
+}
+
+export type QuotaName = 'generationsPerDay' | 'concurrentAgents' | 'deploymentsPerDay' | 'monthlyInferenceSpend';
+
+export interface UserQuotaStatus {
+  limits: Record<QuotaName, number | null>;
+  usage: {
+    generationsToday: number;
+    activeAgents: number;
+    deploymentsToday: number;
+    inferenceSpend: number;
+  };
+  dailyResetAt: string;
+  monthlyResetAt: string;
+}
+
 interface UserStats {
   totalApps: number;
   publicApps: number;
@@ -19,6 +51,7 @@ interface UserStats {
     color?: string;
     [key: string]: unknown;
   }>;
+  inferenceUsage?: InferenceUsageSummary;
 }
 
 interface Activity {
@@ -114,4 +147,88 @@ export function useUserActivity() {
   }, [fetchActivity]);
 
   return { activities, loading, error, refetch: fetchActivity };
-}
\ No newline at end of file
+}
+
+/**
+ * Token usage and estimated cost of an app, only fetched while enabled
+ */
+export function useAppInferenceUsage(appId: string | undefined, enabled: boolean) {
+  const { isAuthenticated } = useAuth();
+  const [usage, setUsage] = useState<InferenceUsageSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    if (!isAuthenticated || !appId || !enabled) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/stats/apps/${appId}/usage`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch usage');
+      }
+
+      const data = await response.json();
+      setUsage(data.data?.usage || null);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching app usage:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, appId, enabled]);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  return { usage, loading, error, refetch: fetchUsage };
+}
+
+/**
+ * Quotas of the user and how much of each is used
+ */
+export function useUserQuotas() {
+  const { isAuthenticated } = useAuth();
+  const [quotas, setQuotas] = useState<UserQuotaStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQuotas = useCallback(async () => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/stats/quotas`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch quotas');
+      }
+
+      const data = await response.json();
+      setQuotas(data.data?.quotas || null);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching quotas:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch quotas');
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    fetchQuotas();
+  }, [fetchQuotas]);
+
+  return { quotas, loading, error, refetch: fetchQuotas };
+}
@@ -0,0 +1,540 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import {
+	ExternalLink,
+	History,
+	Loader2,
+	Plus,
+	RotateCcw,
+	Rocket,
+	Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card';
+
+type EnvironmentName = 'preview' | 'production';
+
+interface AppEnvironment {
+	name: EnvironmentName;
+	envVars: Record<string, string>;
+	customDomain: string | null;
+	// TXT record that proves ownership of the custom domain, which is only served once verified
+	customDomainVerification: { name: string; value: string } | null;
+	customDomainVerifiedAt: string | null;
+	cloudflareAccountId: string | null;
+	scriptName: string | null;
+	activeDeploymentId: string | null;
+}
+
+interface AppDeployment {
+	id: string;
+	environment: EnvironmentName;
+	version: number;
+	status: 'deploying' | 'deployed' | 'failed';
+	deploymentUrl: string | null;
+	rollbackOfId: string | null;
+	error: string | null;
+	createdAt: string;
+}
+
+interface CloudflareAccount {
+	id: string;
+	name: string;
+	accountId: string;
+	validationStatus: string | null;
+}
+
+interface UserSecret {
+	id: string;
+	name: string;
+	keyPreview: string;
+}
+
+interface EnvVarRow {
+	name: string;
+	secretId: string;
+}
+
+interface AppDeploymentsProps {
+	appId: string;
+}
+
+// Sentinel for the "platform account" option, Select items cannot have an empty value
+const PLATFORM_ACCOUNT = '__platform__';
+
+async function deploymentRequest(url: string, method: string, body?: unknown) {
+	const response = await fetch(url, {
+		method,
+		credentials: 'include',
+		headers: body ? { 'Content-Type': 'application/json' } : undefined,
+		body: body ? JSON.stringify(body) : undefined,
+	});
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(data.error || 'Request failed');
+	}
+	return data.data;
+}
+
+interface EnvironmentCardProps {
+	appId: string;
+	environment: AppEnvironment;
+	activeDeployment?: AppDeployment;
+	accounts: CloudflareAccount[];
+	secrets: UserSecret[];
+	isDeploying: boolean;
+	onDeploy: (environment: EnvironmentName) => void;
+	onSaved: (environments: AppEnvironment[]) => void;
+}
+
+function EnvironmentCard({
+	appId,
+	environment,
+	activeDeployment,
+	accounts,
+	secrets,
+	isDeploying,
+	onDeploy,
+	onSaved,
+}: EnvironmentCardProps) {
+	const [customDomain, setCustomDomain] = useState(environment.customDomain ?? '');
+	const [accountId, setAccountId] = useState(environment.cloudflareAccountId ?? PLATFORM_ACCOUNT);
+	const [envVars, setEnvVars] = useState<EnvVarRow[]>(
+		Object.entries(environment.envVars).map(([name, secretId]) => ({ name, secretId })),
+	);
+	const [saving, setSaving] = useState(false);
+	const [verifying, setVerifying] = useState(false);
+
+	const updateEnvVar = (index: number, updates: Partial<EnvVarRow>) => {
+		setEnvVars((rows) => rows.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+	};
+
+	const handleSave = async () => {
+		setSaving(true);
+		try {
+			const data = await deploymentRequest(
+				`/api/apps/${appId}/environments/${environment.name}`,
+				'PUT',
+				{
+					customDomain: customDomain.trim() || null,
+					cloudflareAccountId: accountId === PLATFORM_ACCOUNT ? null : accountId,
+					envVars: Object.fromEntries(
+						envVars
+							.filter((row) => row.name.trim() && row.secretId)
+							.map((row) => [row.name.trim(), row.secretId]),
+					),
+				},
+			);
+			onSaved(data.environments);
+			toast.success(`Saved ${environment.name} environment`);
+		} catch (error) {
+			console.error('Error updating environment:', error);
+			toast.error(error instanceof Error ? error.message : 'Failed to update environment');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleVerify = async () => {
+		setVerifying(true);
+		try {
+			const data = await deploymentRequest(
+				`/api/apps/${appId}/environments/${environment.name}/domain/verify`,
+				'POST',
+			);
+			onSaved(data.environments);
+			toast.success(`${environment.customDomain} is verified`);
+		} catch (error) {
+			console.error('Error verifying custom domain:', error);
+			toast.error(error instanceof Error ? error.message : 'Failed to verify custom domain');
+		} finally {
+			setVerifying(false);
+		}
+	};
+
+	return (
+		<div className="rounded-lg border p-4 space-y-4">
+			<div className="flex items-center justify-between gap-4">
+				<div className="min-w-0">
+					<div className="flex items-center gap-2">
+						<span className="font-medium capitalize">{environment.name}</span>
+						{activeDeployment && (
+							<Badge variant="outline" className="text-xs">
+								v{activeDeployment.version}
+							</Badge>
+						)}
+					</div>
+					{activeDeployment?.deploymentUrl ? (
+						<a
+							href={activeDeployment.deploymentUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="text-xs text-muted-foreground hover:underline inline-flex items-center gap-1 truncate"
+						>
+							{activeDeployment.deploymentUrl}
+							<ExternalLink className="h-3 w-3" />
+						</a>
+					) : (
+						<p className="text-xs text-muted-foreground">Not deployed yet</p>
+					)}
+				</div>
+				<Button
+					size="sm"
+					onClick={() => onDeploy(environment.name)}
+					disabled={isDeploying}
+				>
+					{isDeploying ? (
+						<Loader2 className="h-4 w-4 animate-spin" />
+					) : (
+						<Rocket className="h-4 w-4" />
+					)}
+					Deploy
+				</Button>
+			</div>
+
+			<div className="grid gap-3 sm:grid-cols-2">
+				<div className="space-y-1">
+					<Label htmlFor={`${environment.name}-domain`} className="text-xs">
+						Custom domain
+					</Label>
+					<Input
+						id={`${environment.name}-domain`}
+						placeholder="app.example.com"
+						value={customDomain}
+						onChange={(e) => setCustomDomain(e.target.value)}
+						className="h-8"
+					/>
+					{environment.customDomain && (environment.customDomainVerifiedAt ? (
+						<Badge variant="outline" className="text-xs">
+							Verified
+						</Badge>
+					) : (
+						environment.customDomainVerification && (
+							<div className="space-y-1 text-xs text-muted-foreground">
+								<p>
+									Point a CNAME record for {environment.customDomain} at{' '}
+									{window.location.hostname} and add this TXT record to verify it:
+								</p>
+								<p className="font-mono break-all">
+									{environment.customDomainVerification.name} TXT{' '}
+									{environment.customDomainVerification.value}
+								</p>
+								<Button size="sm" variant="outline" onClick={handleVerify} disabled={verifying}>
+									{verifying && <Loader2 className="h-4 w-4 animate-spin" />}
+									Verify
+								</Button>
+							</div>
+						)
+					))}
+				</div>
+				<div className="space-y-1">
+					<Label className="text-xs">Cloudflare account</Label>
+					<Select value={accountId} onValueChange={setAccountId}>
+						<SelectTrigger className="h-8">
+							<SelectValue placeholder="Platform account" />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={PLATFORM_ACCOUNT}>Platform account</SelectItem>
+							{accounts.map((account) => (
+								<SelectItem key={account.id} value={account.id}>
+									{account.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				<Label className="text-xs">Environment variables</Label>
+				{envVars.map((row, index) => (
+					<div key={index} className="flex items-center gap-2">
+						<Input
+							placeholder="VARIABLE_NAME"
+							value={row.name}
+							onChange={(e) => updateEnvVar(index, { name: e.target.value })}
+							className="h-8 font-mono text-xs"
+						/>
+						<Select
+							value={row.secretId}
+							onValueChange={(secretId) => updateEnvVar(index, { secretId })}
+						>
+							<SelectTrigger className="h-8">
+								<SelectValue placeholder="Secret" />
+							</SelectTrigger>
+							<SelectContent>
+								{secrets.map((secret) => (
+									<SelectItem key={secret.id} value={secret.id}>
+										{secret.name} ({secret.keyPreview})
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => setEnvVars((rows) => rows.filter((_, i) => i !== index))}
+						>
+							<Trash2 className="h-4 w-4" />
+						</Button>
+					</div>
+				))}
+				{secrets.length === 0 ? (
+					<p className="text-xs text-muted-foreground">
+						Variables are read from your stored secrets.{' '}
+						<Link to="/settings" className="underline">
+							Add a secret in Settings
+						</Link>
+						.
+					</p>
+				) : (
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => setEnvVars((rows) => [...rows, { name: '', secretId: '' }])}
+					>
+						<Plus className="h-4 w-4" />
+						Add variable
+					</Button>
+				)}
+			</div>
+
+			<div className="flex justify-end">
+				<Button size="sm" variant="secondary" onClick={handleSave} disabled={saving}>
+					{saving && <Loader2 className="h-4 w-4 animate-spin" />}
+					Save
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export function AppDeployments({ appId }: AppDeploymentsProps) {
+	const [environments, setEnvironments] = useState<AppEnvironment[]>([]);
+	const [deployments, setDeployments] = useState<AppDeployment[]>([]);
+	const [accounts, setAccounts] = useState<CloudflareAccount[]>([]);
+	const [secrets, setSecrets] = useState<UserSecret[]>([]);
+	// Account new deployments go to, defaults to the one the app was last deployed to
+	const [targetAccountId, setTargetAccountId] = useState(PLATFORM_ACCOUNT);
+	const [loading, setLoading] = useState(true);
+	// Environment or deployment id currently being deployed
+	const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+	const fetchDeployments = useCallback(async () => {
+		const data = await deploymentRequest(`/api/apps/${appId}/deployments`, 'GET');
+		setDeployments(data.deployments);
+	}, [appId]);
+
+	const fetchAll = useCallback(async () => {
+		try {
+			setLoading(true);
+			const [environmentData, secretData] = await Promise.all([
+				deploymentRequest(`/api/apps/${appId}/environments`, 'GET'),
+				deploymentRequest('/api/secrets', 'GET'),
+				fetchDeployments(),
+			]);
+			setEnvironments(environmentData.environments);
+			setAccounts(environmentData.cloudflareAccounts);
+			setTargetAccountId(environmentData.cloudflareAccountId ?? PLATFORM_ACCOUNT);
+			setSecrets(secretData.secrets);
+		} catch (error) {
+			console.error('Error fetching deployments:', error);
+		} finally {
+			setLoading(false);
+		}
+	}, [appId, fetchDeployments]);
+
+	useEffect(() => {
+		fetchAll();
+	}, [fetchAll]);
+
+	const runDeployment = async (action: string, url: string, body?: unknown) => {
+		setPendingAction(action);
+		try {
+			const data = await deploymentRequest(url, 'POST', body);
+			toast.success(
+				`Deployed version ${data.deployment.version} to ${data.deployment.environment}`,
+			);
+			const environmentData = await deploymentRequest(`/api/apps/${appId}/environments`, 'GET');
+			setEnvironments(environmentData.environments);
+		} catch (error) {
+			console.error('Error deploying app:', error);
+			toast.error(error instanceof Error ? error.message : 'Deployment failed');
+		} finally {
+			setPendingAction(null);
+			fetchDeployments().catch((error) => console.error('Error fetching deployments:', error));
+		}
+	};
+
+	const handleDeploy = (environment: EnvironmentName) =>
+		runDeployment(environment, `/api/apps/${appId}/deployments`, {
+			environment,
+			accountId: targetAccountId === PLATFORM_ACCOUNT ? null : targetAccountId,
+		});
+
+	const handleRollback = (deployment: AppDeployment) =>
+		runDeployment(
+			deployment.id,
+			`/api/apps/${appId}/deployments/${deployment.id}/rollback`,
+		);
+
+	const activeDeploymentIds = new Set(environments.map((env) => env.activeDeploymentId));
+	const getVersion = (deploymentId: string | null) =>
+		deployments.find((deployment) => deployment.id === deploymentId)?.version;
+
+	return (
+		<div className="space-y-4">
+			<Card>
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2">
+						<Rocket className="h-4 w-4" />
+						Environments
+					</CardTitle>
+					<CardDescription>
+						Preview and production are deployed separately, each with its own variables and
+						custom domain
+					</CardDescription>
+				</CardHeader>
+				<CardContent className="space-y-4">
+					<div className="flex items-center justify-between gap-4">
+						<div>
+							<Label className="text-xs">Deploy to</Label>
+							<p className="text-xs text-muted-foreground">
+								Link your own accounts in{' '}
+								<Link to="/settings#cloudflare-accounts" className="underline">
+									Settings
+								</Link>
+							</p>
+						</div>
+						<Select value={targetAccountId} onValueChange={setTargetAccountId}>
+							<SelectTrigger className="h-8 w-56">
+								<SelectValue placeholder="Platform account" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={PLATFORM_ACCOUNT}>Platform account</SelectItem>
+								{accounts.map((account) => (
+									<SelectItem
+										key={account.id}
+										value={account.id}
+										disabled={account.validationStatus === 'invalid'}
+									>
+										{account.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					{loading ? (
+						<div className="flex items-center justify-center py-8">
+							<Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+						</div>
+					) : (
+						<div className="space-y-4">
+							{environments.map((environment) => (
+								<EnvironmentCard
+									key={environment.name}
+									appId={appId}
+									environment={environment}
+									activeDeployment={deployments.find(
+										(deployment) => deployment.id === environment.activeDeploymentId,
+									)}
+									accounts={accounts}
+									secrets={secrets}
+									isDeploying={pendingAction !== null}
+									onDeploy={handleDeploy}
+									onSaved={setEnvironments}
+								/>
+							))}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader>
+					<CardTitle className="flex items-center gap-2">
+						<History className="h-4 w-4" />
+						Deployment History
+					</CardTitle>
+					<CardDescription>
+						Roll an environment back to any earlier successful version
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{!loading && deployments.length === 0 ? (
+						<p className="text-sm text-muted-foreground py-4">
+							This app has not been deployed yet.
+						</p>
+					) : (
+						<div className="space-y-2">
+							{deployments.map((deployment) => (
+								<div
+									key={deployment.id}
+									className="flex items-center justify-between gap-4 rounded-lg border p-3"
+								>
+									<div className="min-w-0">
+										<div className="flex items-center gap-2">
+											<span className="font-medium">v{deployment.version}</span>
+											<Badge variant="outline" className="text-xs capitalize">
+												{deployment.environment}
+											</Badge>
+											<Badge
+												variant={deployment.status === 'failed' ? 'destructive' : 'secondary'}
+												className="text-xs"
+											>
+												{deployment.status}
+											</Badge>
+											{activeDeploymentIds.has(deployment.id) && (
+												<Badge className="text-xs">Active</Badge>
+											)}
+										</div>
+										<p className="text-xs text-muted-foreground truncate">
+											{formatDistanceToNow(new Date(deployment.createdAt), { addSuffix: true })}
+											{deployment.rollbackOfId &&
+												` · rollback to v${getVersion(deployment.rollbackOfId) ?? '?'}`}
+											{deployment.error && ` · ${deployment.error}`}
+										</p>
+									</div>
+									{deployment.status === 'deployed' &&
+										!activeDeploymentIds.has(deployment.id) && (
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => handleRollback(deployment)}
+												disabled={pendingAction !== null}
+											>
+												{pendingAction === deployment.id ? (
+													<Loader2 className="h-4 w-4 animate-spin" />
+												) : (
+													<RotateCcw className="h-4 w-4" />
+												)}
+												Rollback
+											</Button>
+										)}
+								</div>
+							))}
+						</div>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router';
+import { Loader2, Plug } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card';
+
+interface McpServer {
+	id: string;
+	name: string;
+	description: string | null;
+	transport: 'sse' | 'streamable-http';
+	url: string;
+	hasAuth: boolean;
+}
+
+interface AppMcpServersProps {
+	appId: string;
+}
+
+async function mcpRequest(url: string, method: string, body?: unknown) {
+	const response = await fetch(url, {
+		method,
+		credentials: 'include',
+		headers: body ? { 'Content-Type': 'application/json' } : undefined,
+		body: body ? JSON.stringify(body) : undefined,
+	});
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(data.error || 'Request failed');
+	}
+	return data.data;
+}
+
+export function AppMcpServers({ appId }: AppMcpServersProps) {
+	const [servers, setServers] = useState<McpServer[]>([]);
+	const [enabledIds, setEnabledIds] = useState<string[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [saving, setSaving] = useState(false);
+
+	const fetchServers = useCallback(async () => {
+		try {
+			setLoading(true);
+			const [userServers, appServers] = await Promise.all([
+				mcpRequest('/api/mcp-servers', 'GET'),
+				mcpRequest(`/api/apps/${appId}/mcp-servers`, 'GET'),
+			]);
+			setServers(userServers.servers);
+			setEnabledIds(appServers.serverIds);
+		} catch (error) {
+			console.error('Error fetching MCP servers:', error);
+		} finally {
+			setLoading(false);
+		}
+	}, [appId]);
+
+	useEffect(() => {
+		fetchServers();
+	}, [fetchServers]);
+
+	const toggleServer = async (serverId: string, enabled: boolean) => {
+		const serverIds = enabled
+			? [...enabledIds, serverId]
+			: enabledIds.filter((id) => id !== serverId);
+
+		setSaving(true);
+		try {
+			const data = await mcpRequest(`/api/apps/${appId}/mcp-servers`, 'PUT', {
+				serverIds,
+			});
+			setEnabledIds(data.serverIds);
+		} catch (error) {
+			console.error('Error updating app MCP servers:', error);
+			toast.error(error instanceof Error ? error.message : 'Failed to update tools');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Plug className="h-4 w-4" />
+					MCP Tools
+				</CardTitle>
+				<CardDescription>
+					Choose which of your MCP servers the agent can use while building this app
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{loading ? (
+					<div className="flex items-center justify-center py-8">
+						<Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+					</div>
+				) : servers.length === 0 ? (
+					<p className="text-sm text-muted-foreground py-4">
+						You have not registered any MCP servers yet.{' '}
+						<Link to="/settings#mcp-servers" className="underline">
+							Add one in Settings
+						</Link>
+						.
+					</p>
+				) : (
+					<div className="space-y-3">
+						{servers.map((server) => (
+							<div
+								key={server.id}
+								className="flex items-center justify-between gap-4 rounded-lg border p-3"
+							>
+								<div className="min-w-0">
+									<div className="flex items-center gap-2">
+										<span className="font-medium">{server.name}</span>
+										<Badge variant="outline" className="text-xs">
+											{server.transport}
+										</Badge>
+									</div>
+									<p className="text-xs text-muted-foreground truncate">
+										{server.description || server.url}
+									</p>
+								</div>
+								<Switch
+									checked={enabledIds.includes(server.id)}
+									disabled={saving}
+									onCheckedChange={(checked) => toggleServer(server.id, checked)}
+								/>
+							</div>
+						))}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Check, Loader2, Pencil, Tag, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+
+// Mirrors APP_CATEGORIES in worker/agents/schemas.ts
+const APP_CATEGORIES = [
+	'games',
+	'productivity',
+	'business',
+	'finance',
+	'education',
+	'entertainment',
+	'social',
+	'health',
+	'developer-tools',
+	'design',
+	'data-visualization',
+	'utilities',
+	'other',
+];
+
+const NO_CATEGORY = 'none';
+
+interface AppTaxonomyProps {
+	appId: string;
+	tags: string[];
+	category: string | null;
+	canEdit: boolean;
+	onChange: (taxonomy: { tags: string[]; category: string | null }) => void;
+}
+
+function formatCategory(category: string) {
+	return category.replace(/-/g, ' ');
+}
+
+export function AppTaxonomy({
+	appId,
+	tags,
+	category,
+	canEdit,
+	onChange,
+}: AppTaxonomyProps) {
+	const [isEditing, setIsEditing] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+	const [tagInput, setTagInput] = useState('');
+	const [draftCategory, setDraftCategory] = useState(NO_CATEGORY);
+
+	const startEditing = () => {
+		setTagInput(tags.join(', '));
+		setDraftCategory(category || NO_CATEGORY);
+		setIsEditing(true);
+	};
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		try {
+			const response = await fetch(`/api/apps/${appId}/tags`, {
+				method: 'PUT',
+				credentials: 'include',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					tags: tagInput.split(',').filter((tag) => tag.trim()),
+					category: draftCategory === NO_CATEGORY ? null : draftCategory,
+				}),
+			});
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || 'Failed to update tags');
+			}
+
+			onChange(data.data);
+			setIsEditing(false);
+			toast.success('Tags updated');
+		} catch (error) {
+			console.error('Error updating tags:', error);
+			toast.error(error instanceof Error ? error.message : 'Failed to update tags');
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	if (isEditing) {
+		return (
+			<div className="flex flex-wrap items-center gap-2 my-3">
+				<Select value={draftCategory} onValueChange={setDraftCategory}>
+					<SelectTrigger className="w-[180px] h-8">
+						<SelectValue placeholder="Category" />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value={NO_CATEGORY}>No category</SelectItem>
+						{APP_CATEGORIES.map((name) => (
+							<SelectItem key={name} value={name} className="capitalize">
+								{formatCategory(name)}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Input
+					value={tagInput}
+					onChange={(e) => setTagInput(e.target.value)}
+					placeholder="Tags, separated by commas"
+					className="h-8 w-[320px]"
+				/>
+				<Button size="sm" onClick={handleSave} disabled={isSaving}>
+					{isSaving ? (
+						<Loader2 className="h-4 w-4 animate-spin" />
+					) : (
+						<Check className="h-4 w-4" />
+					)}
+					Save
+				</Button>
+				<Button
+					size="sm"
+					variant="ghost"
+					onClick={() => setIsEditing(false)}
+					disabled={isSaving}
+				>
+					<X className="h-4 w-4" />
+					Cancel
+				</Button>
+			</div>
+		);
+	}
+
+	if (!category && tags.length === 0 && !canEdit) {
+		return null;
+	}
+
+	return (
+		<div className="flex flex-wrap items-center gap-1.5 my-3">
+			{category && (
+				<Badge variant="default" className="capitalize">
+					{formatCategory(category)}
+				</Badge>
+			)}
+			{tags.map((tag) => (
+				<Badge key={tag} variant="outline" className="font-normal">
+					<Tag className="h-3 w-3" />
+					{tag}
+				</Badge>
+			))}
+			{canEdit && (
+				<Button
+					variant="ghost"
+					size="sm"
+					onClick={startEditing}
+					className="h-6 px-2 text-muted-foreground"
+				>
+					<Pencil className="h-3 w-3" />
+					{category || tags.length > 0 ? 'Edit tags' : 'Add tags'}
+				</Button>
+			)}
+		</div>
+	);
+}
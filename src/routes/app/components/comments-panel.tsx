@@ -0,0 +1,506 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Heart, Loader2, MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from '@/components/ui/card';
+import { useAuth } from '@/contexts/auth-context';
+import { cn } from '@/lib/utils';
+
+// Mirrors MAX_COMMENT_DEPTH in worker/api/controllers/commentController.ts
+const MAX_COMMENT_DEPTH = 3;
+
+interface Comment {
+	id: string;
+	userId: string;
+	content: string | null;
+	parentCommentId: string | null;
+	isEdited: boolean;
+	isDeleted: boolean;
+	createdAt: string;
+	userName: string | null;
+	userAvatar: string | null;
+	likeCount: number;
+	userLiked: boolean;
+	replies: Comment[];
+}
+
+interface PaginationInfo {
+	total: number;
+	limit: number;
+	offset: number;
+	hasMore: boolean;
+}
+
+interface CommentsPanelProps {
+	appId: string;
+	appOwnerId: string;
+}
+
+async function commentRequest(url: string, method: string, body?: unknown) {
+	const response = await fetch(url, {
+		method,
+		credentials: 'include',
+		headers: body ? { 'Content-Type': 'application/json' } : undefined,
+		body: body ? JSON.stringify(body) : undefined,
+	});
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(data.error || 'Request failed');
+	}
+	return data.data;
+}
+
+function updateComment(
+	comments: Comment[],
+	commentId: string,
+	update: (comment: Comment) => Comment,
+): Comment[] {
+	return comments.map((comment) =>
+		comment.id === commentId
+			? update(comment)
+			: { ...comment, replies: updateComment(comment.replies, commentId, update) },
+	);
+}
+
+export function CommentsPanel({ appId, appOwnerId }: CommentsPanelProps) {
+	const { user } = useAuth();
+	const [comments, setComments] = useState<Comment[]>([]);
+	const [commentCount, setCommentCount] = useState(0);
+	const [pagination, setPagination] = useState<PaginationInfo>({
+		total: 0,
+		limit: 20,
+		offset: 0,
+		hasMore: false,
+	});
+	const [loading, setLoading] = useState(true);
+	const [loadingMore, setLoadingMore] = useState(false);
+	const [newComment, setNewComment] = useState('');
+	const [submitting, setSubmitting] = useState(false);
+
+	const fetchComments = useCallback(
+		async (offset = 0) => {
+			try {
+				if (offset === 0) setLoading(true);
+				else setLoadingMore(true);
+
+				const data = await commentRequest(
+					`/api/apps/${appId}/comments?limit=20&offset=${offset}`,
+					'GET',
+				);
+				setComments((prev) => (offset === 0 ? data.comments : [...prev, ...data.comments]));
+				setCommentCount(data.commentCount);
+				setPagination(data.pagination);
+			} catch (error) {
+				console.error('Error fetching comments:', error);
+			} finally {
+				setLoading(false);
+				setLoadingMore(false);
+			}
+		},
+		[appId],
+	);
+
+	useEffect(() => {
+		fetchComments();
+	}, [fetchComments]);
+
+	const submitComment = async (content: string, parentCommentId?: string) => {
+		const data = await commentRequest(`/api/apps/${appId}/comments`, 'POST', {
+			content,
+			parentCommentId,
+		});
+		const comment: Comment = data.comment;
+		setComments((prev) =>
+			parentCommentId
+				? updateComment(prev, parentCommentId, (parent) => ({
+						...parent,
+						replies: [...parent.replies, comment],
+					}))
+				: [comment, ...prev],
+		);
+		setCommentCount((count) => count + 1);
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!newComment.trim()) return;
+
+		try {
+			setSubmitting(true);
+			await submitComment(newComment);
+			setNewComment('');
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to post comment');
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	const handleReply = async (parentCommentId: string, content: string) => {
+		try {
+			await submitComment(content, parentCommentId);
+			return true;
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to post reply');
+			return false;
+		}
+	};
+
+	const handleEdit = async (commentId: string, content: string) => {
+		try {
+			const data = await commentRequest(
+				`/api/apps/${appId}/comments/${commentId}`,
+				'PUT',
+				{ content },
+			);
+			setComments((prev) =>
+				updateComment(prev, commentId, (comment) => ({
+					...comment,
+					content: data.comment.content,
+					isEdited: true,
+				})),
+			);
+			return true;
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to edit comment');
+			return false;
+		}
+	};
+
+	const handleDelete = async (commentId: string) => {
+		try {
+			await commentRequest(`/api/apps/${appId}/comments/${commentId}`, 'DELETE');
+			setComments((prev) =>
+				updateComment(prev, commentId, (comment) => ({
+					...comment,
+					content: null,
+					userName: null,
+					userAvatar: null,
+					isDeleted: true,
+				})),
+			);
+			setCommentCount((count) => Math.max(0, count - 1));
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to delete comment');
+		}
+	};
+
+	const handleLike = async (comment: Comment) => {
+		if (!user) {
+			toast.error('Please sign in to like comments');
+			return;
+		}
+
+		try {
+			const data = await commentRequest(
+				`/api/apps/${appId}/comments/${comment.id}/like`,
+				comment.userLiked ? 'DELETE' : 'POST',
+			);
+			setComments((prev) =>
+				updateComment(prev, comment.id, (c) => ({
+					...c,
+					userLiked: data.liked,
+					likeCount: data.likeCount,
+				})),
+			);
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to update like');
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Comments ({commentCount})</CardTitle>
+				<CardDescription>
+					Share feedback and discuss this app with the community
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{user ? (
+					<form onSubmit={handleSubmit} className="space-y-2">
+						<Textarea
+							placeholder="Write a comment..."
+							value={newComment}
+							onChange={(e) => setNewComment(e.target.value)}
+							maxLength={2000}
+							rows={3}
+						/>
+						<div className="flex justify-end">
+							<Button type="submit" size="sm" disabled={submitting || !newComment.trim()}>
+								{submitting && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+								Comment
+							</Button>
+						</div>
+					</form>
+				) : (
+					<p className="text-sm text-muted-foreground">
+						Sign in to join the discussion.
+					</p>
+				)}
+
+				{loading ? (
+					<div className="flex items-center justify-center py-8">
+						<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+					</div>
+				) : comments.length === 0 ? (
+					<div className="flex items-center justify-center py-8 text-muted-foreground">
+						<MessageSquare className="h-6 w-6 mr-3" />
+						<p>No comments yet. Be the first to comment!</p>
+					</div>
+				) : (
+					<div className="space-y-4">
+						{comments.map((comment) => (
+							<CommentItem
+								key={comment.id}
+								comment={comment}
+								depth={0}
+								currentUserId={user?.id}
+								appOwnerId={appOwnerId}
+								onReply={handleReply}
+								onEdit={handleEdit}
+								onDelete={handleDelete}
+								onLike={handleLike}
+							/>
+						))}
+
+						{pagination.hasMore && (
+							<div className="flex justify-center">
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={() => fetchComments(pagination.offset + pagination.limit)}
+									disabled={loadingMore}
+								>
+									{loadingMore && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+									Load more comments
+								</Button>
+							</div>
+						)}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
+
+interface CommentItemProps {
+	comment: Comment;
+	depth: number;
+	currentUserId?: string;
+	appOwnerId: string;
+	onReply: (parentCommentId: string, content: string) => Promise<boolean>;
+	onEdit: (commentId: string, content: string) => Promise<boolean>;
+	onDelete: (commentId: string) => Promise<void>;
+	onLike: (comment: Comment) => Promise<void>;
+}
+
+function CommentItem({
+	comment,
+	depth,
+	currentUserId,
+	appOwnerId,
+	onReply,
+	onEdit,
+	onDelete,
+	onLike,
+}: CommentItemProps) {
+	const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+	const [draft, setDraft] = useState('');
+	const [saving, setSaving] = useState(false);
+
+	const isAuthor = !!currentUserId && comment.userId === currentUserId;
+	const canDelete = isAuthor || currentUserId === appOwnerId;
+
+	const startEditing = () => {
+		setDraft(comment.content || '');
+		setMode('edit');
+	};
+
+	const startReplying = () => {
+		setDraft('');
+		setMode('reply');
+	};
+
+	const handleSave = async () => {
+		if (!draft.trim()) return;
+		setSaving(true);
+		const success =
+			mode === 'edit'
+				? await onEdit(comment.id, draft)
+				: await onReply(comment.id, draft);
+		setSaving(false);
+		if (success) {
+			setMode('view');
+			setDraft('');
+		}
+	};
+
+	return (
+		<div className={cn(depth > 0 && 'pl-4 border-l border-border')}>
+			<div className="flex gap-3">
+				<Avatar className="h-8 w-8">
+					<AvatarImage src={comment.userAvatar || undefined} />
+					<AvatarFallback className="text-xs">
+						{comment.userName?.charAt(0).toUpperCase() || '?'}
+					</AvatarFallback>
+				</Avatar>
+				<div className="flex-1 min-w-0">
+					<div className="flex items-center gap-2 text-sm">
+						<span className="font-medium">
+							{comment.isDeleted ? 'Deleted' : comment.userName || 'Unknown'}
+						</span>
+						<span className="text-muted-foreground">
+							{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+						</span>
+						{comment.isEdited && !comment.isDeleted && (
+							<span className="text-xs text-muted-foreground">(edited)</span>
+						)}
+					</div>
+
+					{mode === 'edit' ? (
+						<CommentEditor
+							value={draft}
+							onChange={setDraft}
+							onCancel={() => setMode('view')}
+							onSave={handleSave}
+							saving={saving}
+							saveLabel="Save"
+						/>
+					) : (
+						<p
+							className={cn(
+								'text-sm mt-1 whitespace-pre-wrap break-words',
+								comment.isDeleted && 'italic text-muted-foreground',
+							)}
+						>
+							{comment.isDeleted ? 'This comment was deleted' : comment.content}
+						</p>
+					)}
+
+					{!comment.isDeleted && mode !== 'edit' && (
+						<div className="flex items-center gap-1 mt-1 -ml-2">
+							<Button
+								variant="ghost"
+								size="sm"
+								className="h-7 gap-1 text-muted-foreground"
+								onClick={() => onLike(comment)}
+							>
+								<Heart
+									className={cn(
+										'h-3.5 w-3.5',
+										comment.userLiked && 'fill-red-500 text-red-500',
+									)}
+								/>
+								{comment.likeCount > 0 && <span>{comment.likeCount}</span>}
+							</Button>
+							{currentUserId && depth < MAX_COMMENT_DEPTH && (
+								<Button
+									variant="ghost"
+									size="sm"
+									className="h-7 gap-1 text-muted-foreground"
+									onClick={startReplying}
+								>
+									<Reply className="h-3.5 w-3.5" />
+									Reply
+								</Button>
+							)}
+							{isAuthor && (
+								<Button
+									variant="ghost"
+									size="sm"
+									className="h-7 gap-1 text-muted-foreground"
+									onClick={startEditing}
+								>
+									<Pencil className="h-3.5 w-3.5" />
+									Edit
+								</Button>
+							)}
+							{canDelete && (
+								<Button
+									variant="ghost"
+									size="sm"
+									className="h-7 gap-1 text-muted-foreground"
+									onClick={() => onDelete(comment.id)}
+								>
+									<Trash2 className="h-3.5 w-3.5" />
+									Delete
+								</Button>
+							)}
+						</div>
+					)}
+
+					{mode === 'reply' && (
+						<CommentEditor
+							value={draft}
+							onChange={setDraft}
+							onCancel={() => setMode('view')}
+							onSave={handleSave}
+							saving={saving}
+							saveLabel="Reply"
+						/>
+					)}
+				</div>
+			</div>
+
+			{comment.replies.length > 0 && (
+				<div className="mt-3 ml-4 space-y-3">
+					{comment.replies.map((reply) => (
+						<CommentItem
+							key={reply.id}
+							comment={reply}
+							depth={depth + 1}
+							currentUserId={currentUserId}
+							appOwnerId={appOwnerId}
+							onReply={onReply}
+							onEdit={onEdit}
+							onDelete={onDelete}
+							onLike={onLike}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+interface CommentEditorProps {
+	value: string;
+	onChange: (value: string) => void;
+	onCancel: () => void;
+	onSave: () => void;
+	saving: boolean;
+	saveLabel: string;
+}
+
+function CommentEditor({ value, onChange, onCancel, onSave, saving, saveLabel }: CommentEditorProps) {
+	return (
+		<div className="mt-2 space-y-2">
+			<Textarea
+				value={value}
+				onChange={(e) => onChange(e.target.value)}
+				maxLength={2000}
+				rows={2}
+				autoFocus
+			/>
+			<div className="flex justify-end gap-2">
+				<Button variant="ghost" size="sm" onClick={onCancel}>
+					Cancel
+				</Button>
+				<Button size="sm" onClick={onSave} disabled={saving || !value.trim()}>
+					{saving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+					{saveLabel}
+				</Button>
+			</div>
+		</div>
+	);
+}
@@ -20,8 +20,13 @@ import {
 	Bookmark,
 	Shuffle,
 	Globe,
+	Github,
 } from 'lucide-react';
 import { SmartPreviewIframe } from '../chat/components/smart-preview-iframe';
+import { CommentsPanel } from './components/comments-panel';
+import { AppTaxonomy } from './components/app-taxonomy';
+import { AppMcpServers } from './components/app-mcp-servers';
+import { AppDeployments } from './components/app-deployments';
 import { WebSocket } from 'partysocket';
 import { Button } from '@/components/ui/button';
 import {
@@ -45,11 +50,14 @@ interface AppDetails {
 	description?: string;
 	framework?: string;
 	visibility: 'private' | 'team' | 'board' | 'public';
+	tags: string[];
+	category: string | null;
 	isFavorite?: boolean;
 	views?: number;
 	stars?: number;
 	cloudflareUrl?: string;
 	previewUrl?: string;
+	githubRepositoryUrl?: string | null;
 	createdAt: string;
 	updatedAt: string;
 	userId: string;
@@ -499,6 +507,16 @@ export default function AppView() {
 							</p>
 						)}
 
+						<AppTaxonomy
+							appId={app.id}
+							tags={app.tags}
+							category={app.category}
+							canEdit={isOwner}
+							onChange={(taxonomy) =>
+								setApp((prev) => (prev ? { ...prev, ...taxonomy } : prev))
+							}
+						/>
+
 						<div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
 							{app.user && (
 								<div className="flex items-center gap-2">
@@ -524,16 +542,34 @@ export default function AppView() {
 								<Star className="h-4 w-4" />
 								<span>{app.stars || 0}</span>
 							</div>
+							{app.githubRepositoryUrl && (
+								<a
+									href={app.githubRepositoryUrl}
+									target="_blank"
+									rel="noopener noreferrer"
+									className="flex items-center gap-2 hover:text-foreground transition-colors"
+								>
+									<Github className="h-4 w-4" />
+									<span>{app.githubRepositoryUrl.replace('https://github.com/', '')}</span>
+								</a>
+							)}
 						</div>
 					</div>
 				</div>
 				<Tabs value={activeTab} onValueChange={setActiveTab}>
-					<TabsList className="grid w-full max-w-md grid-cols-3">
+					<TabsList
+						className={`grid w-full ${isOwner ? 'max-w-2xl grid-cols-6' : 'max-w-lg grid-cols-4'}`}
+					>
 						<TabsTrigger value="preview">Preview</TabsTrigger>
 						<TabsTrigger value="code">Code</TabsTrigger>
 						<TabsTrigger value="conversation">
 							Conversation
 						</TabsTrigger>
+						<TabsTrigger value="comments">Comments</TabsTrigger>
+						{isOwner && <TabsTrigger value="tools">Tools</TabsTrigger>}
+						{isOwner && (
+							<TabsTrigger value="deployments">Deployments</TabsTrigger>
+						)}
 					</TabsList>
 
 					<TabsContent value="preview" className="space-y-4">
@@ -725,6 +761,22 @@ export default function AppView() {
 							</CardContent>
 						</Card>
 					</TabsContent>
+
+					<TabsContent value="comments" className="space-y-4">
+						<CommentsPanel appId={app.id} appOwnerId={app.userId} />
+					</TabsContent>
+
+					{isOwner && (
+						<TabsContent value="tools" className="space-y-4">
+							<AppMcpServers appId={app.id} />
+						</TabsContent>
+					)}
+
+					{isOwner && (
+						<TabsContent value="deployments" className="space-y-4">
+							<AppDeployments appId={app.id} />
+						</TabsContent>
+					)}
 				</Tabs>
 			</div>
 		</div>
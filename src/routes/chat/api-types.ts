@@ -1,10 +1,12 @@
 export type { WebSocketMessage, ApiResponse, CodeFixEdits } from "worker/agents/websocketTypes";
 export type { Blueprint as BlueprintType } from "worker/agents/schemas";
+export type { BlueprintSection } from "worker/agents/schemas";
 export type { ClientReportedErrorType } from "worker/agents/schemas";
 export type { CodeReviewOutputType } from "worker/agents/schemas";
 export type { FileConceptType } from "worker/agents/schemas";
 export type { FileOutputType as GeneratedFile } from "worker/agents/schemas";
 export type { TechnicalInstructionType } from "worker/agents/schemas";
-export type { CodeGenState } from "worker/agents/core/state";
+export type { CodeGenState, GitHubSyncState } from "worker/agents/core/state";
 export type { RuntimeError } from "worker/services/sandbox/sandboxTypes";
 export type { StaticAnalysisResponse } from "worker/services/sandbox/sandboxTypes";
+export type { ProposedFix } from "worker/services/code-fixer";
@@ -10,7 +10,7 @@ import { ArrowRight } from 'react-feather';
 import { useParams, useSearchParams, useNavigate } from 'react-router';
 import { MonacoEditor } from '../../components/monaco-editor/monaco-editor';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Expand, LoaderCircle, RefreshCw } from 'lucide-react';
+import { Expand, GitMerge, LoaderCircle, RefreshCw, Upload } from 'lucide-react';
 import { Blueprint } from './components/blueprint';
 import { FileExplorer } from './components/file-explorer';
 import { UserMessage, AIMessage } from './components/messages';
@@ -19,6 +19,7 @@ import { SmartPreviewIframe } from './components/smart-preview-iframe';
 import { ViewModeSwitch } from './components/view-mode-switch';
 import { DebugPanel, type DebugMessage } from './components/debug-panel';
 import { DeploymentControls } from './components/deployment-controls';
+import { CodeFixReview } from './components/code-fix-review';
 import { useChat, type FileType } from './hooks/use-chat';
 import type { BlueprintType } from './api-types';
 import { Copy } from './components/copy';
@@ -36,6 +37,8 @@ export default function Chat() {
 	const [searchParams] = useSearchParams();
 	const userQuery = searchParams.get('query');
 	const agentMode = searchParams.get('agentMode') || 'deterministic';
+	const enableTesting = searchParams.get('tests') === 'true';
+	const reviewBlueprint = searchParams.get('review') === 'true';
 
 	// Load existing app data if chatId is provided
 	const { app, loading: appLoading } = useApp(urlChatId);
@@ -87,6 +90,13 @@ export default function Chat() {
 		query,
 		files,
 		isGeneratingBlueprint,
+		awaitingBlueprintApproval,
+		isSavingBlueprint,
+		revisingBlueprintSection,
+		blueprintError,
+		handleUpdateBlueprint,
+		handleReviseBlueprint,
+		handleApproveBlueprint,
 		isBootstrapping,
 		totalFiles,
 		websocket,
@@ -113,10 +123,20 @@ export default function Chat() {
 		shouldRefreshPreview,
 		// Preview deployment state
 		isPreviewDeploying,
+		// Dry-run code fix review
+		proposedCodeFixes,
+		handlePreviewCodeFixes,
+		handleAcceptCodeFix,
+		handleRejectCodeFix,
+		githubSync,
+		isPullingFromGitHub,
+		handlePullFromGitHub,
 	} = useChat({
 		chatId: urlChatId,
 		query: userQuery,
 		agentMode: agentMode as 'deterministic' | 'smart',
+		enableTesting,
+		reviewBlueprint,
 		onDebugMessage: addDebugMessage,
 	});
 
@@ -270,16 +290,18 @@ export default function Chat() {
 	}, [view, activeFile, files, isBootstrapping, streamedBootstrapFiles]);
 
 	useEffect(() => {
-		if (view !== 'blueprint' && isGeneratingBlueprint) {
+		// Keep the blueprint open while it is generated or awaits the user's approval
+		if (view !== 'blueprint' && (isGeneratingBlueprint || awaitingBlueprintApproval)) {
 			setView('blueprint');
 		} else if (
 			!hasSwitchedFile.current &&
 			view === 'blueprint' &&
-			!isGeneratingBlueprint
+			!isGeneratingBlueprint &&
+			!awaitingBlueprintApproval
 		) {
 			setView('editor');
 		}
-	}, [isGeneratingBlueprint, view]);
+	}, [isGeneratingBlueprint, awaitingBlueprintApproval, view]);
 
 	useEffect(() => {
 		if (doneStreaming && !isGeneratingBlueprint && !blueprint) {
@@ -633,6 +655,19 @@ export default function Chat() {
 								</motion.div>
 							)}
 
+							{/* Dry-run code fixes awaiting review */}
+							{chatId && isPhase1Complete && (
+								<div className="px-4 mb-6">
+									<CodeFixReview
+										proposedFixes={proposedCodeFixes}
+										isGenerating={isGenerating}
+										onPreview={handlePreviewCodeFixes}
+										onAccept={handleAcceptCodeFix}
+										onReject={handleRejectCodeFix}
+									/>
+								</div>
+							)}
+
 							{otherMessages.map((message) => {
 								if (message.type === 'ai') {
 									return (
@@ -799,6 +834,18 @@ export default function Chat() {
 													blueprint ??
 													({} as BlueprintType)
 												}
+												review={
+													awaitingBlueprintApproval
+														? {
+																isSaving: isSavingBlueprint,
+																revisingSection: revisingBlueprintSection,
+																error: blueprintError,
+																onSave: handleUpdateBlueprint,
+																onRevise: handleReviseBlueprint,
+																onApprove: handleApproveBlueprint,
+															}
+														: undefined
+												}
 												className="w-full max-w-2xl mx-auto"
 											/>
 										</div>
@@ -858,6 +905,32 @@ export default function Chat() {
 													<Github className="size-3" />
 													GitHub
 												</button> */}
+												{githubSync && (
+													<button
+														className="flex items-center gap-1.5 px-2 py-1 hover:bg-bg-lighter rounded-md transition-colors text-xs text-text/70 disabled:opacity-50"
+														onClick={handlePullFromGitHub}
+														disabled={isPullingFromGitHub || isGenerating}
+														title={`Pull changes from ${githubSync.repository} (${githubSync.branch})`}
+													>
+														{isPullingFromGitHub ? (
+															<LoaderCircle className="size-3 animate-spin" />
+														) : (
+															<GitMerge className="size-3" />
+														)}
+														Pull
+													</button>
+												)}
+												{githubSync && (
+													<button
+														className="flex items-center gap-1.5 px-2 py-1 hover:bg-bg-lighter rounded-md transition-colors text-xs text-text/70 disabled:opacity-50"
+														onClick={githubExport.openModal}
+														disabled={githubExport.isExporting || isGenerating}
+														title={`Push completed phases to ${githubSync.repository}`}
+													>
+														<Upload className="size-3" />
+														Push
+													</button>
+												)}
 												<button
 													className="p-1 hover:bg-bg-lighter rounded transition-colors"
 													onClick={() => {
@@ -943,6 +1016,7 @@ export default function Chat() {
 				isExporting={githubExport.isExporting}
 				exportProgress={githubExport.progress}
 				exportResult={githubExport.result}
+				linkedRepository={githubSync?.repository}
 			/>
 		</div>
 	);
@@ -1,13 +1,370 @@
-import type { BlueprintType } from '../api-types';
+import { useState } from 'react';
+import { Check, Loader2, Pencil, Plus, Sparkles, Trash2 } from 'lucide-react';
+import type { BlueprintSection, BlueprintType } from '../api-types';
 import clsx from 'clsx';
 import { Markdown } from './messages';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+
+export interface BlueprintReviewProps {
+	isSaving: boolean;
+	revisingSection: BlueprintSection | null;
+	error?: string;
+	onSave: (blueprint: BlueprintType) => void;
+	onRevise: (section: BlueprintSection, instructions: string) => void;
+	onApprove: () => void;
+}
+
+const SECTION_LABELS: Record<BlueprintSection, string> = {
+	title: 'Title',
+	description: 'Description',
+	colorPalette: 'Color palette',
+	views: 'Views',
+	userFlow: 'User flow',
+	dataFlow: 'Data flow',
+	architecture: 'Architecture',
+	pitfalls: 'Pitfalls',
+	frameworks: 'Dependencies',
+	implementationRoadmap: 'Implementation roadmap',
+	initialPhase: 'Initial phase',
+};
+
+type BlueprintDraft = Pick<
+	BlueprintType,
+	'title' | 'description' | 'colorPalette' | 'views' | 'implementationRoadmap'
+> & { frameworks: string };
+
+function toDraft(blueprint: BlueprintType): BlueprintDraft {
+	return {
+		title: blueprint.title ?? '',
+		description: blueprint.description ?? '',
+		colorPalette: [...(blueprint.colorPalette ?? [])],
+		views: (blueprint.views ?? []).map((view) => ({ ...view })),
+		implementationRoadmap: (blueprint.implementationRoadmap ?? []).map((item) => ({ ...item })),
+		frameworks: (blueprint.frameworks ?? []).join('\n'),
+	};
+}
+
+function BlueprintEditor({
+	blueprint,
+	isSaving,
+	onSave,
+	onCancel,
+}: {
+	blueprint: BlueprintType;
+	isSaving: boolean;
+	onSave: (blueprint: BlueprintType) => void;
+	onCancel: () => void;
+}) {
+	const [draft, setDraft] = useState(() => toDraft(blueprint));
+
+	const update = (updates: Partial<BlueprintDraft>) => setDraft((prev) => ({ ...prev, ...updates }));
+
+	const handleSave = () => {
+		onSave({
+			...blueprint,
+			title: draft.title.trim(),
+			description: draft.description.trim(),
+			colorPalette: draft.colorPalette.filter(Boolean),
+			views: draft.views.filter((view) => view.name.trim()),
+			implementationRoadmap: draft.implementationRoadmap.filter((item) => item.phase.trim()),
+			frameworks: draft.frameworks
+				.split('\n')
+				.map((framework) => framework.trim())
+				.filter(Boolean),
+		});
+	};
+
+	return (
+		<div className="flex flex-col gap-6 text-sm">
+			<div className="space-y-2">
+				<div className="text-text-50/70 font-mono text-xs">Title</div>
+				<Input value={draft.title} onChange={(e) => update({ title: e.target.value })} />
+			</div>
+
+			<div className="space-y-2">
+				<div className="text-text-50/70 font-mono text-xs">Description</div>
+				<Textarea
+					rows={5}
+					value={draft.description}
+					onChange={(e) => update({ description: e.target.value })}
+				/>
+			</div>
+
+			<div className="space-y-2">
+				<div className="text-text-50/70 font-mono text-xs">Color Palette</div>
+				<div className="flex flex-wrap items-center gap-2">
+					{draft.colorPalette.map((color, index) => (
+						<div key={`color-${index}`} className="flex items-center gap-1">
+							<Input
+								value={color}
+								onChange={(e) =>
+									update({
+										colorPalette: draft.colorPalette.map((c, i) => (i === index ? e.target.value : c)),
+									})
+								}
+								className="w-28 h-8 font-mono text-xs"
+							/>
+							<div
+								className="size-6 rounded-md border border-text/10"
+								style={{ backgroundColor: color }}
+							/>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => update({ colorPalette: draft.colorPalette.filter((_, i) => i !== index) })}
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+					))}
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => update({ colorPalette: [...draft.colorPalette, '#000000'] })}
+					>
+						<Plus className="h-4 w-4" />
+						Color
+					</Button>
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				<div className="text-text-50/70 font-mono text-xs">Dependencies (one per line)</div>
+				<Textarea
+					rows={4}
+					value={draft.frameworks}
+					onChange={(e) => update({ frameworks: e.target.value })}
+					className="font-mono text-xs"
+				/>
+			</div>
+
+			<div className="space-y-2">
+				<div className="text-text-50/70 font-mono text-xs">Views</div>
+				{draft.views.map((view, index) => (
+					<div key={`view-${index}`} className="flex items-start gap-2">
+						<div className="flex-1 space-y-1">
+							<Input
+								placeholder="Name"
+								value={view.name}
+								onChange={(e) =>
+									update({
+										views: draft.views.map((v, i) => (i === index ? { ...v, name: e.target.value } : v)),
+									})
+								}
+								className="h-8"
+							/>
+							<Textarea
+								placeholder="Description"
+								rows={2}
+								value={view.description}
+								onChange={(e) =>
+									update({
+										views: draft.views.map((v, i) => (i === index ? { ...v, description: e.target.value } : v)),
+									})
+								}
+							/>
+						</div>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() => update({ views: draft.views.filter((_, i) => i !== index) })}
+						>
+							<Trash2 className="h-4 w-4" />
+						</Button>
+					</div>
+				))}
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={() => update({ views: [...draft.views, { name: '', description: '' }] })}
+				>
+					<Plus className="h-4 w-4" />
+					View
+				</Button>
+			</div>
+
+			<div className="space-y-2">
+				<div className="text-text-50/70 font-mono text-xs">Implementation Roadmap</div>
+				{draft.implementationRoadmap.map((item, index) => (
+					<div key={`roadmap-${index}`} className="flex items-start gap-2">
+						<div className="flex-1 space-y-1">
+							<Input
+								placeholder={`Phase ${index + 1}`}
+								value={item.phase}
+								onChange={(e) =>
+									update({
+										implementationRoadmap: draft.implementationRoadmap.map((r, i) =>
+											i === index ? { ...r, phase: e.target.value } : r,
+										),
+									})
+								}
+								className="h-8"
+							/>
+							<Textarea
+								placeholder="Description"
+								rows={2}
+								value={item.description}
+								onChange={(e) =>
+									update({
+										implementationRoadmap: draft.implementationRoadmap.map((r, i) =>
+											i === index ? { ...r, description: e.target.value } : r,
+										),
+									})
+								}
+							/>
+						</div>
+						<Button
+							variant="ghost"
+							size="sm"
+							onClick={() =>
+								update({ implementationRoadmap: draft.implementationRoadmap.filter((_, i) => i !== index) })
+							}
+						>
+							<Trash2 className="h-4 w-4" />
+						</Button>
+					</div>
+				))}
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={() =>
+						update({
+							implementationRoadmap: [...draft.implementationRoadmap, { phase: '', description: '' }],
+						})
+					}
+				>
+					<Plus className="h-4 w-4" />
+					Phase
+				</Button>
+			</div>
+
+			<div className="flex justify-end gap-2">
+				<Button variant="outline" size="sm" onClick={onCancel} disabled={isSaving}>
+					Cancel
+				</Button>
+				<Button size="sm" onClick={handleSave} disabled={isSaving || !draft.title.trim()}>
+					{isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+					Save
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Controls shown while the blueprint awaits approval: edit it, ask the LLM to revise a section, or approve it
+ */
+function BlueprintReview({
+	blueprint,
+	review,
+}: {
+	blueprint: BlueprintType;
+	review: BlueprintReviewProps;
+}) {
+	const [isEditing, setIsEditing] = useState(false);
+	const [section, setSection] = useState<BlueprintSection>('description');
+	const [instructions, setInstructions] = useState('');
+	const isBusy = review.isSaving || review.revisingSection !== null;
+
+	const handleSave = (updated: BlueprintType) => {
+		review.onSave(updated);
+		setIsEditing(false);
+	};
+
+	const handleRevise = () => {
+		review.onRevise(section, instructions.trim());
+		setInstructions('');
+	};
+
+	return (
+		<div className="flex flex-col gap-4 px-6 py-4 bg-bg border-b border-text/10">
+			<div className="flex items-center justify-between gap-4">
+				<div className="text-sm text-text-50/70">
+					Generation starts once you approve this blueprint
+				</div>
+				<div className="flex items-center gap-2">
+					{!isEditing && (
+						<Button variant="outline" size="sm" onClick={() => setIsEditing(true)} disabled={isBusy}>
+							<Pencil className="h-4 w-4" />
+							Edit
+						</Button>
+					)}
+					<Button size="sm" onClick={review.onApprove} disabled={isBusy || isEditing}>
+						<Check className="h-4 w-4" />
+						Approve & generate
+					</Button>
+				</div>
+			</div>
+
+			{review.error && (
+				<div className="text-xs text-destructive">{review.error}</div>
+			)}
+
+			{isEditing ? (
+				<BlueprintEditor
+					blueprint={blueprint}
+					isSaving={review.isSaving}
+					onSave={handleSave}
+					onCancel={() => setIsEditing(false)}
+				/>
+			) : (
+				<div className="flex items-start gap-2">
+					<Select value={section} onValueChange={(value) => setSection(value as BlueprintSection)}>
+						<SelectTrigger className="w-48 h-9">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{(Object.keys(SECTION_LABELS) as BlueprintSection[]).map((key) => (
+								<SelectItem key={key} value={key}>
+									{SECTION_LABELS[key]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Textarea
+						rows={1}
+						placeholder="Describe the changes you want, e.g. use a dark theme"
+						value={instructions}
+						onChange={(e) => setInstructions(e.target.value)}
+						className="flex-1 min-h-9"
+					/>
+					<Button
+						variant="secondary"
+						size="sm"
+						className="h-9"
+						onClick={handleRevise}
+						disabled={isBusy || !instructions.trim()}
+					>
+						{review.revisingSection ? (
+							<Loader2 className="h-4 w-4 animate-spin" />
+						) : (
+							<Sparkles className="h-4 w-4" />
+						)}
+						Revise
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
 
 export function Blueprint({
 	blueprint,
+	review,
 	className,
 	...props
 }: React.ComponentProps<'div'> & {
 	blueprint: BlueprintType;
+	review?: BlueprintReviewProps;
 }) {
 	if (!blueprint) return null;
 
@@ -23,6 +380,7 @@ export function Blueprint({
 					</div>
 				</div>
 			</div>
+			{review && <BlueprintReview blueprint={blueprint} review={review} />}
 			<div className="flex flex-col px-6 py-4 bg-bg rounded-b-xl space-y-8">
 				{/* Basic Info */}
 				<div className="grid grid-cols-[120px_1fr] gap-4 text-sm">
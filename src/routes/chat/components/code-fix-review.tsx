@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Wrench, X } from 'lucide-react';
+import clsx from 'clsx';
+import { Button } from '../../../components/primitives/button';
+import type { ProposedFix } from '../api-types';
+
+interface CodeFixReviewProps {
+	proposedFixes: ProposedFix[];
+	isGenerating: boolean;
+	onPreview: () => void;
+	onAccept: (fixId: string) => void;
+	onReject: (fixId: string) => void;
+}
+
+const confidenceStyles: Record<ProposedFix['confidence'], string> = {
+	high: 'bg-green-100 text-green-800 dark:bg-green-950/40 dark:text-green-300',
+	medium: 'bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300',
+	low: 'bg-red-100 text-red-800 dark:bg-red-950/40 dark:text-red-300',
+};
+
+function DiffLines({ diff }: { diff: string }) {
+	return (
+		<pre className="text-xs font-mono overflow-x-auto bg-bg-darkest/40 rounded p-2">
+			{diff.split('\n').map((line, index) => (
+				<div
+					key={index}
+					className={clsx(
+						line.startsWith('+') && !line.startsWith('+++') && 'text-green-600 dark:text-green-400',
+						line.startsWith('-') && !line.startsWith('---') && 'text-red-600 dark:text-red-400',
+						line.startsWith('@@') && 'text-text-50/60',
+					)}
+				>
+					{line || ' '}
+				</div>
+			))}
+		</pre>
+	);
+}
+
+function ProposedFixCard({
+	fix,
+	onAccept,
+	onReject,
+}: {
+	fix: ProposedFix;
+	onAccept: (fixId: string) => void;
+	onReject: (fixId: string) => void;
+}) {
+	const [expanded, setExpanded] = useState(false);
+	const [pending, setPending] = useState(false);
+
+	return (
+		<div className="border border-text/10 rounded-lg p-3">
+			<div className="flex items-start gap-2">
+				<button
+					onClick={() => setExpanded(!expanded)}
+					className="mt-0.5 text-text-50/70"
+					aria-label={expanded ? 'Hide diff' : 'Show diff'}
+				>
+					{expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+				</button>
+				<div className="flex-1 min-w-0">
+					<div className="flex items-center gap-2 text-xs">
+						<span className="font-mono font-medium">{fix.issue.issueCode}</span>
+						<span className="text-text-50/70 truncate">
+							{fix.issue.filePath}:{fix.issue.line}
+						</span>
+						<span className={clsx('px-1.5 py-0.5 rounded', confidenceStyles[fix.confidence])}>
+							{fix.confidence}
+						</span>
+					</div>
+					<div className="text-sm mt-1">{fix.issue.fixApplied}</div>
+					<div className="text-xs text-text-50/70 mt-0.5">
+						{fix.issue.originalMessage} · {fix.fixer}
+					</div>
+				</div>
+				<div className="flex gap-1 flex-shrink-0">
+					<Button
+						onClick={() => {
+							setPending(true);
+							onAccept(fix.id);
+						}}
+						disabled={pending}
+						variant="primary"
+						className="h-7 text-xs"
+					>
+						<Check className="w-3 h-3" />
+						Accept
+					</Button>
+					<Button
+						onClick={() => {
+							setPending(true);
+							onReject(fix.id);
+						}}
+						disabled={pending}
+						className="h-7 text-xs"
+					>
+						<X className="w-3 h-3" />
+						Reject
+					</Button>
+				</div>
+			</div>
+
+			{expanded && (
+				<div className="mt-2 space-y-2">
+					{fix.diffs.map((fileDiff) => (
+						<div key={fileDiff.filePath}>
+							<div className="text-xs font-mono text-text-50/70 mb-1">
+								{fileDiff.filePath}
+								{fileDiff.isNewFile && ' (new file)'}
+							</div>
+							<DiffLines diff={fileDiff.diff} />
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+export function CodeFixReview({
+	proposedFixes,
+	isGenerating,
+	onPreview,
+	onAccept,
+	onReject,
+}: CodeFixReviewProps) {
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between">
+				<div className="flex items-center gap-2 text-sm font-medium">
+					<Wrench className="w-4 h-4" />
+					{proposedFixes.length > 0
+						? `${proposedFixes.length} proposed fix${proposedFixes.length === 1 ? '' : 'es'}`
+						: 'Code fixes'}
+				</div>
+				<Button
+					onClick={onPreview}
+					disabled={isGenerating}
+					className="h-7 text-xs"
+				>
+					Preview fixes
+				</Button>
+			</div>
+			{proposedFixes.map((fix) => (
+				<ProposedFixCard
+					key={fix.id}
+					fix={fix}
+					onAccept={onAccept}
+					onReject={onReject}
+				/>
+			))}
+		</div>
+	);
+}
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect, useMemo, Component } from 'react';
 import { Bug, X, Download, Mail, Maximize2, Minimize2, Clock, BookmarkPlus, Bookmark, Activity, BarChart3, Bell, BellOff } from 'lucide-react';
 import { captureDebugScreenshot } from '../../../utils/screenshot';
+import { useAppInferenceUsage } from '../../../hooks/use-stats';
 
 // Custom Error Boundary to prevent debug panel crashes from affecting main site
 class DebugPanelErrorBoundary extends Component<
@@ -95,6 +96,10 @@ function DebugPanelCore({ messages, onClear, chatSessionId }: DebugPanelProps) {
   const [bookmarkedMessages, setBookmarkedMessages] = useState<Set<string>>(new Set());
   const [notifications, setNotifications] = useState(true);
   const [lastNotificationTime, setLastNotificationTime] = useState(0);
+  const { usage: inferenceUsage, loading: inferenceUsageLoading, refetch: refetchInferenceUsage } = useAppInferenceUsage(
+    chatSessionId,
+    isOpen && viewMode === 'analytics'
+  );
   
   // Helper functions defined first to avoid hoisting issues
   const calculateOperationMetrics = (wsMessages: DebugMessage[]) => {
@@ -726,6 +731,75 @@ function DebugPanelCore({ messages, onClear, chatSessionId }: DebugPanelProps) {
           {viewMode === 'analytics' ? (
             /* Analytics Dashboard */
             <div className="p-6 space-y-6">
+              {/* Inference Cost - recorded by the server for every LLM call of this session */}
+              <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-emerald-900">💰 Inference Cost</h4>
+                  <button
+                    onClick={refetchInferenceUsage}
+                    disabled={inferenceUsageLoading}
+                    className="text-xs text-emerald-700 hover:text-emerald-900 disabled:opacity-50"
+                  >
+                    {inferenceUsageLoading ? 'Loading...' : 'Refresh'}
+                  </button>
+                </div>
+                {inferenceUsage && inferenceUsage.totals.inferences > 0 ? (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                      <div>
+                        <div className="text-2xl font-bold text-emerald-600">${inferenceUsage.totals.estimatedCost.toFixed(4)}</div>
+                        <div className="text-sm text-emerald-800">Estimated Cost</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold text-emerald-600">{inferenceUsage.totals.inferences}</div>
+                        <div className="text-sm text-emerald-800">Inferences</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold text-emerald-600">{inferenceUsage.totals.promptTokens.toLocaleString()}</div>
+                        <div className="text-sm text-emerald-800">Prompt Tokens</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold text-emerald-600">{inferenceUsage.totals.completionTokens.toLocaleString()}</div>
+                        <div className="text-sm text-emerald-800">
+                          Completion Tokens ({inferenceUsage.totals.reasoningTokens.toLocaleString()} reasoning)
+                        </div>
+                      </div>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-emerald-800">
+                          <th className="font-medium py-1">Stage</th>
+                          <th className="font-medium py-1 text-right">Calls</th>
+                          <th className="font-medium py-1 text-right">Tokens</th>
+                          <th className="font-medium py-1 text-right">Avg Latency</th>
+                          <th className="font-medium py-1 text-right">Retries / Fallbacks</th>
+                          <th className="font-medium py-1 text-right">Cost</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {inferenceUsage.byAction.map((action) => (
+                          <tr key={action.agentActionName} className="border-t border-emerald-100">
+                            <td className="py-1 font-sans">{action.agentActionName}</td>
+                            <td className="py-1 text-right">{action.inferences}</td>
+                            <td className="py-1 text-right">{(action.promptTokens + action.completionTokens).toLocaleString()}</td>
+                            <td className="py-1 text-right">{(action.latencyMs / action.inferences / 1000).toFixed(1)}s</td>
+                            <td className="py-1 text-right">{action.retries} / {action.fallbacks}</td>
+                            <td className="py-1 text-right">${action.estimatedCost.toFixed(4)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="mt-3 text-xs text-emerald-800">
+                      {inferenceUsage.byModel.map((model) => `${model.model}: $${model.estimatedCost.toFixed(4)}`).join(' • ')}
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-emerald-800">
+                    {inferenceUsageLoading ? 'Loading inference usage...' : 'No inferences recorded for this session yet'}
+                  </div>
+                )}
+              </div>
+
               {analyticsData ? (
                 <>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -2,10 +2,13 @@ import { WebSocket } from 'partysocket';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type {
 	BlueprintType,
+	BlueprintSection,
 	GeneratedFile,
 	WebSocketMessage,
 	ApiResponse,
 	CodeFixEdits,
+	ProposedFix,
+	GitHubSyncState,
 } from '../api-types';
 import {
 	createRepairingJSONParser,
@@ -85,11 +88,15 @@ export function useChat({
 	chatId: urlChatId,
 	query: userQuery,
 	agentMode = 'deterministic',
+	enableTesting = false,
+	reviewBlueprint = false,
 	onDebugMessage,
 }: {
 	chatId?: string;
 	query: string | null;
 	agentMode?: 'deterministic' | 'smart';
+	enableTesting?: boolean;
+	reviewBlueprint?: boolean;
 	onDebugMessage?: (type: 'error' | 'warning' | 'info' | 'websocket', message: string, details?: string, source?: string, messageType?: string, rawMessage?: unknown) => void;
 }) {
 	const { user } = useAuth();
@@ -110,6 +117,11 @@ export function useChat({
 	const [websocket, setWebsocket] = useState<WebSocket>();
 
 	const [isGeneratingBlueprint, setIsGeneratingBlueprint] = useState(false);
+	// Blueprint review before generation starts
+	const [awaitingBlueprintApproval, setAwaitingBlueprintApproval] = useState(false);
+	const [isSavingBlueprint, setIsSavingBlueprint] = useState(false);
+	const [revisingBlueprintSection, setRevisingBlueprintSection] = useState<BlueprintSection | null>(null);
+	const [blueprintError, setBlueprintError] = useState<string>();
 	const [isBootstrapping, setIsBootstrapping] = useState(true);
 
 	const [projectStages, setProjectStages] = useState<ProjectStage[]>(initialStages);
@@ -138,6 +150,13 @@ export function useChat({
 	const [isGenerating, setIsGenerating] = useState(false);
 
 	const [isThinking, setIsThinking] = useState(false);
+
+	// Dry-run code fixes awaiting user review
+	const [proposedCodeFixes, setProposedCodeFixes] = useState<ProposedFix[]>([]);
+
+	// GitHub repository the app is synced with, if any
+	const [githubSync, setGithubSync] = useState<GitHubSyncState>();
+	const [isPullingFromGitHub, setIsPullingFromGitHub] = useState(false);
 	
 	// Preview refresh state - triggers preview reload after deployment
 	const [shouldRefreshPreview, setShouldRefreshPreview] = useState(false);
@@ -177,6 +196,9 @@ export function useChat({
 			'chat-welcome',
             'deployment-status',
             'code_reviewed',
+			'test_results',
+			'visual_check',
+			'github_pull',
 		];
 		
 		// Allow all conversation IDs that start with 'conv-' OR are in the static list
@@ -308,6 +330,11 @@ export function useChat({
 						setPhaseTimeline(timeline);
 					}
 
+					// Restore code fixes still awaiting review
+					if (state.pendingCodeFixes && state.pendingCodeFixes.length > 0) {
+						setProposedCodeFixes(state.pendingCodeFixes);
+					}
+
 					// Restore conversation messages
 					if (state.conversationMessages && state.conversationMessages.length > 0) {
 						console.log('💬 Restoring conversation messages:', state.conversationMessages.length);
@@ -343,6 +370,9 @@ export function useChat({
 					setIsInitialStateRestored(true);
 				}
 
+				setGithubSync(state.githubSync);
+				setAwaitingBlueprintApproval(!!state.awaitingBlueprintApproval);
+
 				// Always handle preview URL updates (this is safe to do repeatedly)
 				const finalPreviewURL = getPreviewUrl(state.previewURL, state.tunnelURL);
 				if (finalPreviewURL && finalPreviewURL !== previewUrl) {
@@ -573,6 +603,91 @@ export function useChat({
 				break;
 			}
 
+			case 'tests_generating': {
+				updateStage('validate', { status: 'active', metadata: 'Writing tests' });
+				break;
+			}
+
+			case 'tests_generated': {
+				setFiles((prev) => [
+					...prev.filter((file) => !message.files.some((test) => test.file_path === file.file_path)),
+					...message.files.map((test) => ({
+						file_path: test.file_path,
+						file_contents: test.file_contents,
+						isGenerating: false,
+						needsFixing: false,
+						hasErrors: false,
+						language: getFileType(test.file_path),
+					})),
+				]);
+				break;
+			}
+
+			case 'tests_running': {
+				updateStage('validate', { status: 'active', metadata: 'Running tests' });
+				break;
+			}
+
+			case 'test_results': {
+				const { testResults } = message;
+				updateStage('validate', { status: 'active', metadata: undefined });
+
+				const failingTests = testResults.failures
+					.slice(0, 5)
+					.map((failure) => `• ${failure.testName} (${failure.filePath})`)
+					.join('\n');
+				const remaining = testResults.failures.length > 5 ? `\n…and ${testResults.failures.length - 5} more` : '';
+				sendMessage({
+					id: 'test_results',
+					message: testResults.success
+						? `✅ ${message.message}`
+						: `🧪 ${message.message}, will work on them:\n${failingTests}${remaining}`,
+				});
+
+				if (!testResults.success) {
+					onDebugMessage?.('warning',
+						`Test Failures (${testResults.failures.length} total)`,
+						testResults.failures.map((failure) => `${failure.filePath} - ${failure.testName}\n${failure.message}`).join('\n\n'),
+						'Generated Tests'
+					);
+				}
+				break;
+			}
+
+			case 'visual_check_started': {
+				updateStage('validate', { status: 'active', metadata: 'Checking layout' });
+				break;
+			}
+
+			case 'visual_check_completed': {
+				const { regressions, check } = message;
+				updateStage('validate', { status: 'active', metadata: undefined });
+
+				if (regressions.length > 0) {
+					const listed = regressions
+						.slice(0, 5)
+						.map((regression) => `• ${regression.viewport}: ${regression.description}`)
+						.join('\n');
+					const remaining = regressions.length > 5 ? `\n…and ${regressions.length - 5} more` : '';
+					sendMessage({
+						id: 'visual_check',
+						message: `📐 ${message.message}, will work on them:\n${listed}${remaining}`,
+					});
+				}
+
+				const analyzed = check.screenshots.filter((screenshot) => screenshot.analysis);
+				if (analyzed.some((screenshot) => screenshot.analysis!.hasIssues)) {
+					onDebugMessage?.('info',
+						`Visual Check: ${check.phaseName}`,
+						analyzed
+							.map((screenshot) => `[${screenshot.viewport} ${screenshot.width}x${screenshot.height}]\n${screenshot.analysis!.issues.join('\n') || 'No issues'}`)
+							.join('\n\n'),
+						'Visual Checks'
+					);
+				}
+				break;
+			}
+
 			case 'file_regenerating': {
 				// Mark file as being regenerated (similar to file_generating)
 				setFiles((prev) => {
@@ -639,9 +754,13 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 			}
 
 			case 'code_reviewing': {
+				// Sections of analyzers beyond ESLint and tsc, which are already counted through lint and typecheck
+				const otherAnalyzers = Object.entries(message.staticAnalysis?.analyzers || {})
+					.filter(([analyzer]) => analyzer !== 'eslint' && analyzer !== 'typescript');
 				const totalIssues =
 					(message.staticAnalysis?.lint?.issues?.length || 0) +
 					(message.staticAnalysis?.typecheck?.issues?.length || 0) +
+					otherAnalyzers.reduce((total, [, section]) => total + section.issues.length, 0) +
 					(message.runtimeErrors.length || 0);
 
 				updateStage('validate', { status: 'active' });
@@ -653,6 +772,7 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 					const errorDetails = [
 						`Lint Issues: ${JSON.stringify(message.staticAnalysis?.lint?.issues)}`,
 						`Type Errors: ${JSON.stringify(message.staticAnalysis?.typecheck?.issues)}`,
+						...otherAnalyzers.map(([analyzer, section]) => `${analyzer} Issues: ${JSON.stringify(section.issues)}`),
 						`Runtime Errors: ${JSON.stringify(message.runtimeErrors)}`,
 						`Client Errors: ${JSON.stringify(message.clientErrors)}`,
 					].filter(Boolean).join('\n');
@@ -837,6 +957,16 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 
 			case 'cloudflare_deployment_completed': {
 				setIsDeploying(false);
+
+				// Preview deployments leave the app's production URL untouched
+				if (message.environment === 'preview') {
+					sendMessage({
+						id: 'cloudflare_deployment_completed',
+						message: `Your preview environment has been deployed (version ${message.version}): ${message.deploymentUrl}`,
+					});
+					break;
+				}
+
 				setCloudflareDeploymentUrl(message.deploymentUrl);
 				
 				// Clear any previous deployment error
@@ -847,13 +977,15 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 				
 				sendMessage({
 					id: 'cloudflare_deployment_completed',
-					message: `Your project has been permanently deployed to Cloudflare Workers: ${message.deploymentUrl}`,
+					message: message.rollbackOfVersion
+						? `${message.message}: ${message.deploymentUrl}`
+						: `Your project has been permanently deployed to Cloudflare Workers: ${message.deploymentUrl}`,
 				});
 				
 				// Debug logging for redeployment state
 				onDebugMessage?.('info', 
 					'Deployment Completed - Redeploy Reset',
-					`Deployment URL: ${message.deploymentUrl}\nPhase count at deployment: ${phaseTimeline.length}\nRedeploy button disabled until next phase`,
+					`Deployment URL: ${message.deploymentUrl}\nEnvironment: ${message.environment ?? 'production'} (version ${message.version})\nPhase count at deployment: ${phaseTimeline.length}\nRedeploy button disabled until next phase`,
 					'Redeployment Management'
 				);
 				break;
@@ -862,6 +994,14 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 			case 'cloudflare_deployment_error': {
 				// Reset deployment state for retry
 				setIsDeploying(false);
+
+				if (message.environment === 'preview') {
+					sendMessage({
+						id: 'cloudflare_deployment_error',
+						message: `❌ Preview deployment failed: ${message.error}`,
+					});
+					break;
+				}
 				
 				// Set deployment error for UI display
 				setDeploymentError(message.error || 'Unknown deployment error');
@@ -886,6 +1026,77 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 				break;
 			}
 
+			case 'blueprint_revising': {
+				setRevisingBlueprintSection(message.section);
+				setBlueprintError(undefined);
+				sendMessage({
+					id: 'blueprint_review',
+					message: message.message,
+					isThinking: true,
+				});
+				break;
+			}
+
+			case 'blueprint_updated': {
+				setBlueprint(message.blueprint);
+				setIsSavingBlueprint(false);
+				setRevisingBlueprintSection(null);
+				setBlueprintError(undefined);
+				sendMessage({
+					id: 'blueprint_review',
+					message: `📝 ${message.message}`,
+				});
+				break;
+			}
+
+			case 'blueprint_approved': {
+				setBlueprint(message.blueprint);
+				setAwaitingBlueprintApproval(false);
+				updateStage('code', { status: 'active' });
+				sendMessage({
+					id: 'main',
+					message: 'Blueprint approved. Now starting the code generation...',
+					isThinking: true,
+				});
+				break;
+			}
+
+			case 'blueprint_error': {
+				setIsSavingBlueprint(false);
+				setRevisingBlueprintSection(null);
+				setBlueprintError(message.error);
+				sendMessage({
+					id: 'blueprint_review',
+					message: `❌ ${message.message}: ${message.error}`,
+				});
+				break;
+			}
+
+			case 'code_fix_proposals': {
+				setProposedCodeFixes(message.proposedFixes);
+				sendMessage({
+					id: 'code_fix_proposals',
+					message: message.proposedFixes.length > 0
+						? `🔍 ${message.message}. Review each change below before applying it.`
+						: '🔍 No deterministic fixes available for the current issues.',
+				});
+				break;
+			}
+
+			case 'code_fix_accepted': {
+				setProposedCodeFixes((prev) => prev.filter((fix) => fix.id !== message.fix.id));
+				sendMessage({
+					id: `code_fix_accepted-${message.fix.id}`,
+					message: `✅ ${message.message}`,
+				});
+				break;
+			}
+
+			case 'code_fix_rejected': {
+				setProposedCodeFixes((prev) => prev.filter((fix) => fix.id !== message.fixId));
+				break;
+			}
+
 			case 'github_export_started': {
 				sendMessage({
 					id: 'github_export_started',
@@ -918,6 +1129,48 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 				break;
 			}
 
+			case 'github_pull_started': {
+				setIsPullingFromGitHub(true);
+				break;
+			}
+
+			case 'github_pull_completed': {
+				setIsPullingFromGitHub(false);
+				const deletedPaths = message.applied
+					.filter((change) => change.action === 'delete')
+					.map((change) => change.path);
+				setFiles((prev) => {
+					const remaining = prev.filter((file) => !deletedPaths.includes(file.file_path));
+					const pulled = message.files.map((file) => ({
+						file_path: file.file_path,
+						file_contents: file.file_contents,
+						isGenerating: false,
+						needsFixing: false,
+						hasErrors: false,
+						language: getFileType(file.file_path),
+					}));
+					const pulledPaths = new Set(pulled.map((file) => file.file_path));
+					return [...remaining.filter((file) => !pulledPaths.has(file.file_path)), ...pulled];
+				});
+				const conflictList = message.conflicts.map((conflict) => `- \`${conflict.path}\` (${conflict.reason.replaceAll('_', ' ')})`).join('\n');
+				sendMessage({
+					id: 'github_pull',
+					message: message.conflicts.length > 0
+						? `${message.message}. Local versions were kept for:\n${conflictList}`
+						: message.message,
+				});
+				break;
+			}
+
+			case 'github_pull_error': {
+				setIsPullingFromGitHub(false);
+				sendMessage({
+					id: 'github_pull',
+					message: `❌ ${message.message}: ${message.error}`,
+				});
+				break;
+			}
+
 			case 'conversation_response': {
 				// Use unique conversation ID or fallback for backward compatibility
 				const messageId = message.conversationId || 'conversation_response';
@@ -1146,11 +1399,17 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 						{
 							method: 'POST',
 							headers,
-							body: JSON.stringify({ query: userQuery, agentMode }),
+							body: JSON.stringify({ query: userQuery, agentMode, enableTesting, reviewBlueprint }),
 						},
 					);
 
 					if (!response.ok) {
+						// Quota and validation errors carry a message worth showing to the user
+						const errorBody = await response.json().catch(() => null) as { error?: string } | null;
+						sendMessage({
+							id: 'generation_rejected',
+							message: `🚫 ${errorBody?.error || `Could not start generation (HTTP ${response.status})`}`,
+						});
 						throw new Error(`HTTP error ${response.status}`);
 					}
 
@@ -1219,14 +1478,15 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 					setIsGeneratingBlueprint(false);
 					sendMessage({
 						id: 'main',
-						message:
-							'Blueprint generation complete. Now starting the code generation...',
-						isThinking: true,
+						message: reviewBlueprint
+							? 'Blueprint generation complete. Review it, edit it or ask for changes, then approve it to start the code generation.'
+							: 'Blueprint generation complete. Now starting the code generation...',
+						isThinking: !reviewBlueprint,
 					});
 
-					// Connect to WebSocket
+					// Connect to WebSocket, generation waits for approval when the blueprint is reviewed
 					logger.debug('connecting to ws with created id');
-					connect(result.websocketUrl);
+					connect(result.websocketUrl, { disableGenerate: reviewBlueprint });
 					setChatId(result.agentId); // This comes from the server response
 				} else if (connectionStatus.current === 'idle') {
 					setIsBootstrapping(false);
@@ -1376,6 +1636,51 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 		}
 	}, [websocket]);
 
+	const handlePreviewCodeFixes = useCallback(() => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'preview_code_fixes' }));
+		}
+	}, [websocket]);
+
+	const handleAcceptCodeFix = useCallback((fixId: string) => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'accept_code_fix', fixId }));
+		}
+	}, [websocket]);
+
+	const handleRejectCodeFix = useCallback((fixId: string) => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'reject_code_fix', fixId }));
+		}
+	}, [websocket]);
+
+	const handleUpdateBlueprint = useCallback((updated: BlueprintType) => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'update_blueprint', blueprint: updated }));
+			setIsSavingBlueprint(true);
+			setBlueprintError(undefined);
+		}
+	}, [websocket]);
+
+	const handleReviseBlueprint = useCallback((section: BlueprintSection, instructions: string) => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'revise_blueprint', section, instructions }));
+		}
+	}, [websocket]);
+
+	const handleApproveBlueprint = useCallback(() => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'approve_blueprint' }));
+		}
+	}, [websocket]);
+
+	const handlePullFromGitHub = useCallback(() => {
+		if (websocket && websocket.readyState === WebSocket.OPEN) {
+			websocket.send(JSON.stringify({ type: 'github_pull', userId: user?.id }));
+			setIsPullingFromGitHub(true);
+		}
+	}, [websocket, user?.id]);
+
 	const handleDeployToCloudflare = useCallback(async (instanceId: string) => {
 		try {
 			// Send deployment command via WebSocket instead of HTTP request
@@ -1445,6 +1750,14 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 		blueprint,
 		previewUrl,
 		isGeneratingBlueprint,
+		// Blueprint review
+		awaitingBlueprintApproval,
+		isSavingBlueprint,
+		revisingBlueprintSection,
+		blueprintError,
+		handleUpdateBlueprint,
+		handleReviseBlueprint,
+		handleApproveBlueprint,
 		isBootstrapping,
 		totalFiles,
 		websocket,
@@ -1469,5 +1782,14 @@ Message: ${message.errors.map((e) => e.message).join('\n').trim()}`;
 		shouldRefreshPreview,
 		// Preview deployment state
 		isPreviewDeploying,
+		// Dry-run code fix review
+		proposedCodeFixes,
+		handlePreviewCodeFixes,
+		handleAcceptCodeFix,
+		handleRejectCodeFix,
+		// GitHub sync
+		githubSync,
+		isPullingFromGitHub,
+		handlePullFromGitHub,
 	};
 }
@@ -16,10 +16,12 @@ import {
   ArrowRight,
   Sparkles,
   Activity,
-  Loader2
+  Loader2,
+  Gauge
 } from 'lucide-react';
 import { useNavigate } from 'react-router';
 import { useUserApps } from '@/hooks/use-apps';
+import { useUserQuotas, type UserQuotaStatus } from '@/hooks/use-stats';
 import { formatDistanceToNow, isValid } from 'date-fns';
 import { AppCard } from '@/components/dashboard/AppCard';
 
@@ -29,12 +31,24 @@ const formatAppDate = (dateString: string): string => {
   return isValid(date) ? formatDistanceToNow(date, { addSuffix: true }) : 'Recently';
 };
 
+// Usage bars of the quotas, in display order
+const getQuotaBars = (quotas: UserQuotaStatus) => [
+  { label: 'Generations today', used: quotas.usage.generationsToday, limit: quotas.limits.generationsPerDay },
+  { label: 'Apps generating now', used: quotas.usage.activeAgents, limit: quotas.limits.concurrentAgents },
+  { label: 'Deployments today', used: quotas.usage.deploymentsToday, limit: quotas.limits.deploymentsPerDay },
+  { label: 'AI usage this month', used: quotas.usage.inferenceSpend, limit: quotas.limits.monthlyInferenceSpend, currency: true },
+];
+
+const formatQuotaValue = (value: number, currency?: boolean): string =>
+  currency ? `$${value.toFixed(2)}` : String(value);
+
 export default function Dashboard() {
   const { user } = useAuth();
   const navigate = useNavigate();
   
   // Fetch real data
   const { apps, loading: appsLoading } = useUserApps();
+  const { quotas } = useUserQuotas();
 
   // Calculate real stats (memoized to avoid re-computation)
   const stats = useMemo(() => ({
@@ -168,6 +182,42 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* Plan Usage */}
+        {quotas && (
+          <Card className="border-border/50">
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <div>
+                <CardTitle className="text-sm font-medium">Plan Usage</CardTitle>
+                <CardDescription>
+                  Daily limits reset at midnight UTC, AI usage on the first of the month
+                </CardDescription>
+              </div>
+              <div className="p-2 bg-green-500/10 rounded-lg">
+                <Gauge className="h-4 w-4 text-green-500" />
+              </div>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              {getQuotaBars(quotas).map(({ label, used, limit, currency }) => {
+                const percent = limit ? Math.min(100, (used / limit) * 100) : limit === 0 ? 100 : 0;
+                return (
+                  <div key={label} className="space-y-2">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-muted-foreground">{label}</span>
+                      <span className="font-medium">
+                        {formatQuotaValue(used, currency)} / {limit === null ? 'Unlimited' : formatQuotaValue(limit, currency)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={percent}
+                      className={percent >= 100 ? 'h-1.5 [&>[data-slot=progress-indicator]]:bg-red-500' : 'h-1.5'}
+                    />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Main Content Tabs */}
         <Tabs defaultValue="overview" className="space-y-6">
           <TabsList className="grid w-full max-w-md grid-cols-3 mx-auto">
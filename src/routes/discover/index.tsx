@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router';
+import { useNavigate, useSearchParams } from 'react-router';
 import { motion } from 'framer-motion';
 import { 
   Clock, 
@@ -11,7 +11,11 @@ import {
   Search,
   Loader2,
   Sparkles,
-  User
+  User,
+  LayoutGrid,
+  Users,
+  Tag,
+  X
 } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -39,6 +43,29 @@ interface PublicApp {
   userAvatar?: string;
   userStarred?: boolean;
   userFavorited?: boolean;
+  tags: string[];
+  category: string | null;
+}
+
+interface FacetCount {
+  name: string;
+  count: number;
+}
+
+interface Facets {
+  tags: FacetCount[];
+  categories: FacetCount[];
+  frameworks: FacetCount[];
+}
+
+interface Board {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  iconUrl?: string;
+  memberCount: number;
+  appCount: number;
 }
 
 interface PaginationInfo {
@@ -51,13 +78,20 @@ interface PaginationInfo {
 export default function DiscoverPage() {
   const navigate = useNavigate();
   const { token } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const boardId = searchParams.get('board');
   
   const [apps, setApps] = useState<PublicApp[]>([]);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [selectedBoard, setSelectedBoard] = useState<Board | null>(null);
   const [trendingApps, setTrendingApps] = useState<PublicApp[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [framework, setFramework] = useState<string>('all');
+  const [category, setCategory] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [facets, setFacets] = useState<Facets>({ tags: [], categories: [], frameworks: [] });
   const [sortBy, setSortBy] = useState<'recent' | 'popular' | 'trending'>('recent');
   const [pagination, setPagination] = useState<PaginationInfo>({
     total: 0,
@@ -80,6 +114,9 @@ export default function DiscoverPage() {
 
       if (searchQuery) params.append('search', searchQuery);
       if (framework !== 'all') params.append('framework', framework);
+      if (boardId) params.append('boardId', boardId);
+      if (category) params.append('category', category);
+      selectedTags.forEach(tag => params.append('tag', tag));
 
       const headers: any = {};
       if (token) headers['Authorization'] = `Bearer ${token}`;
@@ -97,6 +134,7 @@ export default function DiscoverPage() {
       }
       
       setPagination(data.data.pagination);
+      setFacets(data.data.facets);
     } catch (error) {
       console.error('Error fetching apps:', error);
     } finally {
@@ -123,10 +161,60 @@ export default function DiscoverPage() {
     }
   };
 
+  // Fetch popular boards
+  const fetchBoards = async () => {
+    try {
+      const response = await fetch('/api/boards?limit=12');
+      
+      if (!response.ok) throw new Error('Failed to fetch boards');
+      
+      const data = await response.json();
+      setBoards(data.data.boards);
+    } catch (error) {
+      console.error('Error fetching boards:', error);
+    }
+  };
+
+  const selectBoard = (id: string | null) => {
+    setSearchParams(id ? { board: id } : {});
+  };
+
+  useEffect(() => {
+    fetchBoards();
+  }, []);
+
+  // Fetch the selected board details
+  useEffect(() => {
+    if (!boardId) {
+      setSelectedBoard(null);
+      return;
+    }
+
+    const headers: any = {};
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
+    fetch(`/api/boards/${boardId}`, { headers })
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch board');
+        return response.json();
+      })
+      .then(data => setSelectedBoard(data.data.board))
+      .catch(error => {
+        console.error('Error fetching board:', error);
+        setSelectedBoard(null);
+      });
+  }, [boardId, token]);
+
   useEffect(() => {
     fetchApps();
     fetchTrendingApps();
-  }, [sortBy, framework]);
+  }, [sortBy, framework, boardId, category, selectedTags]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const formatFacetName = (name: string) => name.replace(/-/g, ' ');
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -181,6 +269,14 @@ export default function DiscoverPage() {
             >
               {app.framework}
             </Badge>
+            {app.category && (
+              <Badge
+                variant="secondary"
+                className="absolute top-2 left-2 bg-background/90 dark:bg-card/90 backdrop-blur-sm capitalize"
+              >
+                {formatFacetName(app.category)}
+              </Badge>
+            )}
           </div>
 
           <CardHeader className="pb-3">
@@ -195,6 +291,16 @@ export default function DiscoverPage() {
                 {app.description}
               </p>
             )}
+
+            {app.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {app.tags.slice(0, 4).map(tag => (
+                  <Badge key={tag} variant="outline" className="text-xs font-normal">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </CardHeader>
 
           <CardContent className="pt-0">
@@ -282,11 +388,11 @@ export default function DiscoverPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Frameworks</SelectItem>
-                  <SelectItem value="react">React</SelectItem>
-                  <SelectItem value="vue">Vue</SelectItem>
-                  <SelectItem value="svelte">Svelte</SelectItem>
-                  <SelectItem value="angular">Angular</SelectItem>
-                  <SelectItem value="vanilla">Vanilla JS</SelectItem>
+                  {facets.frameworks.map(facet => (
+                    <SelectItem key={facet.name} value={facet.name}>
+                      {facet.name} ({facet.count})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Button type="submit">
@@ -294,6 +400,87 @@ export default function DiscoverPage() {
               </Button>
             </form>
 
+            {/* Boards */}
+            {boards.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <Button
+                  variant={boardId ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => selectBoard(null)}
+                >
+                  All Apps
+                </Button>
+                {boards.map(board => (
+                  <Button
+                    key={board.id}
+                    variant={boardId === board.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => selectBoard(board.id)}
+                    className="flex items-center gap-1.5"
+                  >
+                    <LayoutGrid className="h-3.5 w-3.5" />
+                    {board.name}
+                    <span className="text-xs opacity-70">{board.appCount}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {/* Categories */}
+            {facets.categories.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <Button
+                  variant={category ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => setCategory(null)}
+                >
+                  All Categories
+                </Button>
+                {facets.categories.map(facet => (
+                  <Button
+                    key={facet.name}
+                    variant={category === facet.name ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setCategory(category === facet.name ? null : facet.name)}
+                    className="flex items-center gap-1.5 capitalize"
+                  >
+                    {formatFacetName(facet.name)}
+                    <span className="text-xs opacity-70">{facet.count}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {/* Tags */}
+            {(facets.tags.length > 0 || selectedTags.length > 0) && (
+              <div className="flex flex-wrap items-center gap-1.5 mb-4">
+                <Tag className="h-4 w-4 text-muted-foreground mr-1" />
+                {selectedTags
+                  .filter(tag => !facets.tags.some(facet => facet.name === tag))
+                  .map(tag => (
+                    <Badge key={tag} className="cursor-pointer" onClick={() => toggleTag(tag)}>
+                      {tag}
+                      <X className="h-3 w-3 ml-1" />
+                    </Badge>
+                  ))}
+                {facets.tags.map(facet => {
+                  const selected = selectedTags.includes(facet.name);
+                  return (
+                    <Badge
+                      key={facet.name}
+                      variant={selected ? 'default' : 'outline'}
+                      className="cursor-pointer"
+                      onClick={() => toggleTag(facet.name)}
+                    >
+                      {facet.name}
+                      <span className="ml-1 opacity-70">{facet.count}</span>
+                      {selected && <X className="h-3 w-3 ml-1" />}
+                    </Badge>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Sort Tabs */}
             <Tabs value={sortBy} onValueChange={(v) => setSortBy(v as any)} className="w-full">
               <TabsList className="grid w-full grid-cols-3">
@@ -313,8 +500,38 @@ export default function DiscoverPage() {
             </Tabs>
           </div>
 
+          {/* Board Header */}
+          {selectedBoard && (
+            <Card className="max-w-4xl mx-auto mb-8">
+              <CardHeader className="flex flex-row items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <LayoutGrid className="h-5 w-5 text-orange-500" />
+                    <h2 className="text-2xl font-semibold">{selectedBoard.name}</h2>
+                  </div>
+                  {selectedBoard.description && (
+                    <p className="text-muted-foreground mt-2">{selectedBoard.description}</p>
+                  )}
+                  <div className="flex items-center gap-4 mt-3 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Code2 className="h-3.5 w-3.5" />
+                      <span>{selectedBoard.appCount} apps</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Users className="h-3.5 w-3.5" />
+                      <span>{selectedBoard.memberCount} members</span>
+                    </div>
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => selectBoard(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </CardHeader>
+            </Card>
+          )}
+
           {/* Trending Section */}
-          {trendingApps.length > 0 && sortBy === 'recent' && (
+          {trendingApps.length > 0 && sortBy === 'recent' && !boardId && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
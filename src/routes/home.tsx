@@ -5,11 +5,21 @@ import {
 	AgentModeToggle,
 	type AgentMode,
 } from '../components/agent-mode-toggle';
+import { Switch } from '@/components/ui/switch';
+import { GitHubImportDialog } from '@/components/github-import-dialog';
 
 export default function Home() {
 	const navigate = useNavigate();
 	const textareaRef = useRef<HTMLTextAreaElement>(null);
 	const [agentMode, setAgentMode] = useState<AgentMode>('deterministic');
+	const [enableTesting, setEnableTesting] = useState(false);
+	const [reviewBlueprint, setReviewBlueprint] = useState(false);
+
+	const getChatUrl = () => {
+		const query = encodeURIComponent(textareaRef.current!.value);
+		const mode = encodeURIComponent(agentMode);
+		return `chat/new?query=${query}&agentMode=${mode}${enableTesting ? '&tests=true' : ''}${reviewBlueprint ? '&review=true' : ''}`;
+	};
 
 	// Auto-resize textarea based on content
 	const adjustTextareaHeight = () => {
@@ -36,11 +46,7 @@ export default function Home() {
 					method="POST"
 					onSubmit={(e) => {
 						e.preventDefault();
-						const query = encodeURIComponent(
-							textareaRef.current!.value,
-						);
-						const mode = encodeURIComponent(agentMode);
-						navigate(`chat/new?query=${query}&agentMode=${mode}`);
+						navigate(getChatUrl());
 					}}
 					className="flex flex-col w-full min-h-[150px] bg-bg-4 justify-between dark:bg-card rounded-[18px] shadow-textarea p-5 transition-all duration-200"
 				>
@@ -54,13 +60,7 @@ export default function Home() {
 						onKeyDown={(e) => {
 							if (e.key === 'Enter' && !e.shiftKey) {
 								e.preventDefault();
-								const query = encodeURIComponent(
-									textareaRef.current!.value,
-								);
-								const mode = encodeURIComponent(agentMode);
-								navigate(
-									`chat/new?query=${query}&agentMode=${mode}`,
-								);
+								navigate(getChatUrl());
 							}
 						}}
 					/>
@@ -75,7 +75,21 @@ export default function Home() {
 							<div></div>
 						)}
 
-						<div className="flex items-center justify-end ml-4">
+						<div className="flex items-center justify-end gap-4 ml-4">
+							<label className="flex items-center gap-2 text-xs font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+								<Switch
+									checked={enableTesting}
+									onCheckedChange={setEnableTesting}
+								/>
+								Generate tests
+							</label>
+							<label className="flex items-center gap-2 text-xs font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+								<Switch
+									checked={reviewBlueprint}
+									onCheckedChange={setReviewBlueprint}
+								/>
+								Review blueprint
+							</label>
 							<button
 								type="submit"
 								className="bg-gradient-to-br from-[#0092b8b3] to-[#0092b8e6] dark:from-[#f48120] dark:to-[#faae42] hover:from-[#0092b8e6] hover:to-[#0092b8b3] dark:hover:from-[#faae42] dark:hover:to-[#f48120] text-white p-1 rounded-md *:size-5 transition-all duration-200 hover:shadow-md"
@@ -85,6 +99,10 @@ export default function Home() {
 						</div>
 					</div>
 				</form>
+
+				<div className="mt-4">
+					<GitHubImportDialog agentMode={agentMode} />
+				</div>
 			</div>
 		</div>
 	);
@@ -0,0 +1,298 @@
+import React, { useState } from 'react';
+import { Cloud, Plus, Trash2, Settings, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+interface CloudflareAccount {
+  id: string;
+  name: string;
+  accountId: string;
+  isDefault: boolean | null;
+  capabilities: string[] | null;
+  lastValidated: string | null;
+  validationStatus: string | null;
+}
+
+const EMPTY_ACCOUNT = {
+  name: '',
+  accountId: '',
+  apiToken: '',
+};
+
+/**
+ * Settings section for linking Cloudflare accounts apps can be deployed to
+ */
+export function CloudflareAccountsSection() {
+  const [accounts, setAccounts] = useState<CloudflareAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newAccount, setNewAccount] = useState(EMPTY_ACCOUNT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [validatingId, setValidatingId] = useState<string | null>(null);
+
+  const loadAccounts = async () => {
+    try {
+      const response = await fetch('/api/cloudflare-accounts', {
+        credentials: 'include'
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAccounts(data.data?.accounts || []);
+      }
+    } catch (error) {
+      console.error('Error loading Cloudflare accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  const handleCreateAccount = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/cloudflare-accounts', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newAccount.name.trim(),
+          accountId: newAccount.accountId.trim(),
+          apiToken: newAccount.apiToken.trim(),
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to link Cloudflare account');
+      }
+
+      setAccounts(prev => [...prev, data.data.account]);
+      setNewAccount(EMPTY_ACCOUNT);
+      setDialogOpen(false);
+      toast.success('Cloudflare account linked');
+    } catch (error) {
+      console.error('Error linking Cloudflare account:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to link Cloudflare account');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteAccount = async (id: string) => {
+    try {
+      const response = await fetch(`/api/cloudflare-accounts/${id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove Cloudflare account');
+      }
+      setAccounts(prev => prev.filter(account => account.id !== id));
+      toast.success('Cloudflare account removed');
+    } catch (error) {
+      console.error('Error removing Cloudflare account:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove Cloudflare account');
+    }
+  };
+
+  const handleValidateAccount = async (id: string) => {
+    setValidatingId(id);
+    try {
+      const response = await fetch(`/api/cloudflare-accounts/${id}/validate`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Validation failed');
+      }
+      setAccounts(prev => prev.map(account => account.id === id ? data.data.account : account));
+      if (data.data.valid) {
+        toast.success('Token can deploy to this account');
+      } else {
+        toast.error(data.data.error || 'Token cannot deploy to this account');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Validation failed');
+    } finally {
+      setValidatingId(null);
+    }
+  };
+
+  return (
+    <Card id="cloudflare-accounts">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Cloud className="h-5 w-5" />
+          <div>
+            <CardTitle>Cloudflare Accounts</CardTitle>
+            <CardDescription>Deploy apps to your own Cloudflare account instead of the platform</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h4 className="font-medium">Linked Accounts</h4>
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            if (open) {
+              setNewAccount(EMPTY_ACCOUNT);
+            }
+            setDialogOpen(open);
+          }}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="gap-2">
+                <Plus className="h-4 w-4" />
+                Link Account
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Link Cloudflare Account</DialogTitle>
+                <DialogDescription>
+                  The API token needs the Workers Scripts edit permission and the account needs a workers.dev subdomain
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cf-name">Name</Label>
+                  <Input
+                    id="cf-name"
+                    placeholder="Personal"
+                    value={newAccount.name}
+                    onChange={(e) => setNewAccount(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cf-account-id">Account ID</Label>
+                  <Input
+                    id="cf-account-id"
+                    placeholder="0123456789abcdef0123456789abcdef"
+                    value={newAccount.accountId}
+                    onChange={(e) => setNewAccount(prev => ({ ...prev, accountId: e.target.value.toLowerCase() }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cf-api-token">API token (stored encrypted)</Label>
+                  <Input
+                    id="cf-api-token"
+                    type="password"
+                    value={newAccount.apiToken}
+                    onChange={(e) => setNewAccount(prev => ({ ...prev, apiToken: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreateAccount}
+                  disabled={isSaving || !newAccount.name.trim() || !newAccount.accountId.trim() || !newAccount.apiToken.trim()}
+                >
+                  {isSaving ? 'Validating...' : 'Link Account'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-3">
+            <Settings className="h-5 w-5 animate-spin text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Loading Cloudflare accounts...</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center justify-between p-4 border rounded-lg bg-card">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{account.name}</p>
+                    <Badge
+                      variant={account.validationStatus === 'valid' ? 'secondary' : 'destructive'}
+                      className="text-xs"
+                    >
+                      {account.validationStatus || 'pending'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 font-mono truncate">{account.accountId}</p>
+                  {account.lastValidated && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Checked {formatDistanceToNow(new Date(account.lastValidated), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={validatingId === account.id}
+                    onClick={() => handleValidateAccount(account.id)}
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    {validatingId === account.id ? 'Checking...' : 'Check'}
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove Cloudflare account?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Apps deployed to {account.name} keep running there, but can no longer be redeployed to it. The stored API token is deleted as well.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDeleteAccount(account.id)}>
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+            {accounts.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Apps are deployed to the platform account until you link one of your own
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -19,7 +19,11 @@ import {
   Github,
   Settings,
   ExternalLink,
-  Unlink
+  Unlink,
+  Plug,
+  Cloud,
+  Cpu,
+  Copy
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -61,6 +65,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { McpServersSection } from './mcp-servers-section';
+import { CloudflareAccountsSection } from './cloudflare-accounts-section';
+import { ModelConfigsSection } from './model-configs-section';
 
 export default function SettingsPage() {
   const navigate = useNavigate();
@@ -106,12 +113,24 @@ export default function SettingsPage() {
       id: string;
       name: string;
       keyPreview: string;
+      scopes: string[];
+      rateLimit: number;
+      requestCount: number;
       createdAt: string;
       lastUsed?: string;
       isActive: boolean;
     }>;
+    availableScopes: string[];
     loading: boolean;
-  }>({ keys: [], loading: true });
+  }>({ keys: [], availableScopes: [], loading: true });
+  const [apiKeyDialog, setApiKeyDialog] = useState(false);
+  const [newApiKey, setNewApiKey] = useState<{ name: string; scopes: string[]; rateLimit: string }>({
+    name: '',
+    scopes: [],
+    rateLimit: '60',
+  });
+  const [createdApiKey, setCreatedApiKey] = useState<string | null>(null);
+  const [isCreatingApiKey, setIsCreatingApiKey] = useState(false);
 
   // User Secrets state
   const [userSecrets, setUserSecrets] = useState<{
@@ -329,12 +348,14 @@ export default function SettingsPage() {
       if (response.ok) {
         const data = await response.json();
         setApiKeys({
-          keys: data.keys || [],
+          keys: data.data?.keys || [],
+          availableScopes: data.data?.availableScopes || [],
           loading: false
         });
       } else {
         setApiKeys({
           keys: [],
+          availableScopes: [],
           loading: false
         });
       }
@@ -342,37 +363,50 @@ export default function SettingsPage() {
       console.error('Error loading API keys:', error);
       setApiKeys({
         keys: [],
+        availableScopes: [],
         loading: false
       });
     }
   };
 
+  const handleApiKeyDialogChange = (open: boolean) => {
+    if (open) {
+      setNewApiKey({ name: '', scopes: apiKeys.availableScopes, rateLimit: '60' });
+      setCreatedApiKey(null);
+    }
+    setApiKeyDialog(open);
+  };
+
   const handleCreateApiKey = async () => {
+    setIsCreatingApiKey(true);
     try {
-      const keyName = prompt('Enter a name for your API key:');
-      if (!keyName) return;
-      
       const response = await fetch('/api/auth/api-keys', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         credentials: 'include',
-        body: JSON.stringify({ name: keyName })
+        body: JSON.stringify({
+          name: newApiKey.name.trim(),
+          scopes: newApiKey.scopes,
+          rateLimit: Number(newApiKey.rateLimit)
+        })
       });
       
       const data = await response.json();
       
       if (response.ok && data.success) {
         toast.success('API key created successfully');
-        alert(`Your API key: ${data.data.key}\n\nPlease save this key - you won't be able to see it again!`);
+        setCreatedApiKey(data.data.key);
         loadApiKeys();
       } else {
-        toast.error(data.error?.message || 'Failed to create API key');
+        toast.error(data.error || 'Failed to create API key');
       }
     } catch (error) {
       console.error('Error creating API key:', error);
       toast.error('Failed to create API key');
+    } finally {
+      setIsCreatingApiKey(false);
     }
   };
 
@@ -577,7 +611,7 @@ export default function SettingsPage() {
 
   // Scroll spy functionality
   React.useEffect(() => {
-    const sections = ['profile', 'appearance', 'notifications', 'privacy', 'integrations', 'secrets', 'security'];
+    const sections = ['profile', 'appearance', 'notifications', 'privacy', 'integrations', 'secrets', 'mcp-servers', 'cloudflare-accounts', 'model-configs', 'security'];
     
     const handleScroll = () => {
       const scrollPosition = window.scrollY + 100; // Offset for better UX
@@ -617,6 +651,9 @@ export default function SettingsPage() {
             { id: 'privacy', icon: Shield, label: 'Privacy' },
             { id: 'integrations', icon: Link, label: 'Integrations' },
             { id: 'secrets', icon: Key, label: 'API Keys' },
+            { id: 'mcp-servers', icon: Plug, label: 'MCP Servers' },
+            { id: 'cloudflare-accounts', icon: Cloud, label: 'Cloudflare Accounts' },
+            { id: 'model-configs', icon: Cpu, label: 'Models' },
             { id: 'security', icon: Shield, label: 'Security' }
           ].map(({ id, icon: Icon, label }) => (
             <button
@@ -1413,6 +1450,15 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* MCP Servers Section */}
+          <McpServersSection />
+
+          {/* Cloudflare Accounts Section */}
+          <CloudflareAccountsSection />
+
+          {/* Models Section */}
+          <ModelConfigsSection />
+
           {/* Security Section */}
           <Card id="security">
             <CardHeader>
@@ -1491,10 +1537,94 @@ export default function SettingsPage() {
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <h4 className="font-medium">API Keys</h4>
-                  <Button onClick={handleCreateApiKey} size="sm" className="gap-2">
-                    <Key className="h-4 w-4" />
-                    Create API Key
-                  </Button>
+                  <Dialog open={apiKeyDialog} onOpenChange={handleApiKeyDialogChange}>
+                    <DialogTrigger asChild>
+                      <Button size="sm" className="gap-2">
+                        <Key className="h-4 w-4" />
+                        Create API Key
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>{createdApiKey ? 'API key created' : 'Create API Key'}</DialogTitle>
+                        <DialogDescription>
+                          {createdApiKey
+                            ? "Copy the key now, it won't be shown again"
+                            : 'Send the key as a Bearer token in the Authorization header'}
+                        </DialogDescription>
+                      </DialogHeader>
+                      {createdApiKey ? (
+                        <div className="flex gap-2">
+                          <Input readOnly value={createdApiKey} className="font-mono text-xs" />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              navigator.clipboard.writeText(createdApiKey);
+                              toast.success('API key copied');
+                            }}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="space-y-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="api-key-name">Name</Label>
+                            <Input
+                              id="api-key-name"
+                              placeholder="CI pipeline"
+                              value={newApiKey.name}
+                              onChange={(e) => setNewApiKey(prev => ({ ...prev, name: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Scopes</Label>
+                            {apiKeys.availableScopes.map((scope) => (
+                              <div key={scope} className="flex items-center justify-between">
+                                <span className="text-sm font-mono">{scope}</span>
+                                <Switch
+                                  checked={newApiKey.scopes.includes(scope)}
+                                  onCheckedChange={(checked) => setNewApiKey(prev => ({
+                                    ...prev,
+                                    scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(s => s !== scope)
+                                  }))}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="api-key-rate-limit">Rate limit (requests per minute)</Label>
+                            <Input
+                              id="api-key-rate-limit"
+                              type="number"
+                              min={1}
+                              max={1000}
+                              value={newApiKey.rateLimit}
+                              onChange={(e) => setNewApiKey(prev => ({ ...prev, rateLimit: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      <DialogFooter>
+                        {createdApiKey ? (
+                          <Button onClick={() => setApiKeyDialog(false)}>Done</Button>
+                        ) : (
+                          <>
+                            <Button variant="outline" onClick={() => setApiKeyDialog(false)}>
+                              Cancel
+                            </Button>
+                            <Button
+                              onClick={handleCreateApiKey}
+                              disabled={isCreatingApiKey || !newApiKey.name.trim() || newApiKey.scopes.length === 0}
+                            >
+                              {isCreatingApiKey ? 'Creating...' : 'Create'}
+                            </Button>
+                          </>
+                        )}
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
                 </div>
                 
                 {apiKeys.loading ? (
@@ -1520,6 +1650,10 @@ export default function SettingsPage() {
                             <p className="font-medium">{key.name}</p>
                             <p className="text-sm text-muted-foreground">
                               {key.keyPreview} • Created {new Date(key.createdAt).toLocaleDateString()}
+                              {' • '}{key.lastUsed ? `Last used ${new Date(key.lastUsed).toLocaleString()}` : 'Never used'}
+                            </p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {key.scopes.join(', ')} • {key.rateLimit} requests/min
                             </p>
                           </div>
                         </div>
@@ -0,0 +1,356 @@
+import React, { useState } from 'react';
+import { Plug, Plus, Trash2, Settings, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+
+type McpTransport = 'sse' | 'streamable-http';
+
+interface McpServer {
+  id: string;
+  name: string;
+  description: string | null;
+  transport: McpTransport;
+  url: string;
+  authHeaderName: string | null;
+  hasAuth: boolean;
+}
+
+interface BuiltinMcpServer {
+  name: string;
+  transport: McpTransport;
+  url: string;
+}
+
+const EMPTY_SERVER = {
+  name: '',
+  description: '',
+  transport: 'streamable-http' as McpTransport,
+  url: '',
+  authHeaderName: 'Authorization',
+  authHeaderValue: '',
+};
+
+/**
+ * Settings section for registering MCP servers whose tools the agent can use
+ */
+export function McpServersSection() {
+  const [servers, setServers] = useState<McpServer[]>([]);
+  const [builtinServers, setBuiltinServers] = useState<BuiltinMcpServer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newServer, setNewServer] = useState(EMPTY_SERVER);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const loadServers = async () => {
+    try {
+      const response = await fetch('/api/mcp-servers', {
+        credentials: 'include'
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setServers(data.data?.servers || []);
+        setBuiltinServers(data.data?.builtinServers || []);
+      }
+    } catch (error) {
+      console.error('Error loading MCP servers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    loadServers();
+  }, []);
+
+  const handleCreateServer = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/mcp-servers', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newServer.name.trim(),
+          description: newServer.description.trim() || null,
+          transport: newServer.transport,
+          url: newServer.url.trim(),
+          authHeaderName: newServer.authHeaderValue ? newServer.authHeaderName.trim() : null,
+          authHeaderValue: newServer.authHeaderValue || null,
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add MCP server');
+      }
+
+      setServers(prev => [...prev, data.data.server].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewServer(EMPTY_SERVER);
+      setDialogOpen(false);
+      toast.success('MCP server added');
+    } catch (error) {
+      console.error('Error adding MCP server:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add MCP server');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteServer = async (serverId: string) => {
+    try {
+      const response = await fetch(`/api/mcp-servers/${serverId}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete MCP server');
+      }
+      setServers(prev => prev.filter(server => server.id !== serverId));
+      toast.success('MCP server removed');
+    } catch (error) {
+      console.error('Error deleting MCP server:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete MCP server');
+    }
+  };
+
+  const handleTestServer = async (serverId: string) => {
+    setTestingId(serverId);
+    try {
+      const response = await fetch(`/api/mcp-servers/${serverId}/tools`, {
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Connection failed');
+      }
+      const tools: string[] = data.data.tools;
+      toast.success(`Connected, ${tools.length} tool${tools.length === 1 ? '' : 's'} available`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Connection failed');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  return (
+    <Card id="mcp-servers">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Plug className="h-5 w-5" />
+          <div>
+            <CardTitle>MCP Servers</CardTitle>
+            <CardDescription>Connect Model Context Protocol servers and enable their tools per app</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-between items-center">
+          <h4 className="font-medium">Your Servers</h4>
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            if (open) {
+              setNewServer(EMPTY_SERVER);
+            }
+            setDialogOpen(open);
+          }}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add Server
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add MCP Server</DialogTitle>
+                <DialogDescription>
+                  Tools are exposed to the agent as <code>name__tool</code> in apps that enable this server
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-name">Name</Label>
+                  <Input
+                    id="mcp-name"
+                    placeholder="linear"
+                    value={newServer.name}
+                    onChange={(e) => setNewServer(prev => ({ ...prev, name: e.target.value.toLowerCase() }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-url">URL</Label>
+                  <Input
+                    id="mcp-url"
+                    placeholder="https://mcp.example.com/mcp"
+                    value={newServer.url}
+                    onChange={(e) => setNewServer(prev => ({ ...prev, url: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Transport</Label>
+                  <Select
+                    value={newServer.transport}
+                    onValueChange={(value) => setNewServer(prev => ({ ...prev, transport: value as McpTransport }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="streamable-http">Streamable HTTP</SelectItem>
+                      <SelectItem value="sse">SSE</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mcp-description">Description (optional)</Label>
+                  <Input
+                    id="mcp-description"
+                    value={newServer.description}
+                    onChange={(e) => setNewServer(prev => ({ ...prev, description: e.target.value }))}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="mcp-header-name">Auth header</Label>
+                    <Input
+                      id="mcp-header-name"
+                      value={newServer.authHeaderName}
+                      onChange={(e) => setNewServer(prev => ({ ...prev, authHeaderName: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="mcp-header-value">Value (optional, stored encrypted)</Label>
+                    <Input
+                      id="mcp-header-value"
+                      type="password"
+                      placeholder="Bearer ..."
+                      value={newServer.authHeaderValue}
+                      onChange={(e) => setNewServer(prev => ({ ...prev, authHeaderValue: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreateServer}
+                  disabled={isSaving || !newServer.name.trim() || !newServer.url.trim()}
+                >
+                  {isSaving ? 'Adding...' : 'Add Server'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-3">
+            <Settings className="h-5 w-5 animate-spin text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Loading MCP servers...</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {builtinServers.map((server) => (
+              <div key={server.name} className="flex items-center justify-between p-4 border rounded-lg bg-card">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{server.name}</p>
+                    <Badge variant="secondary" className="text-xs">built-in</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{server.url}</p>
+                </div>
+              </div>
+            ))}
+            {servers.map((server) => (
+              <div key={server.id} className="flex items-center justify-between p-4 border rounded-lg bg-card">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{server.name}</p>
+                    <Badge variant="outline" className="text-xs">{server.transport}</Badge>
+                    {server.hasAuth && (
+                      <Badge variant="secondary" className="text-xs">{server.authHeaderName}</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1 truncate">{server.url}</p>
+                  {server.description && (
+                    <p className="text-xs text-muted-foreground mt-1">{server.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    disabled={testingId === server.id}
+                    onClick={() => handleTestServer(server.id)}
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    {testingId === server.id ? 'Testing...' : 'Test'}
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove MCP server?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Apps using {server.name} will no longer have access to its tools. The stored auth header is deleted as well.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDeleteServer(server.id)}>
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+            {servers.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add your own servers to give the agent access to more tools
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { Cpu, Pencil, RotateCcw, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+
+interface ModelParameters {
+  modelName: string;
+  reasoningEffort: string | null;
+  maxTokens: number | null;
+  temperature: number | null;
+  fallbackModel: string | null;
+}
+
+interface UserModelConfig extends ModelParameters {
+  providerSecretId: string | null;
+}
+
+interface ActionModelConfig {
+  actionKey: string;
+  defaultConfig: ModelParameters;
+  userConfig: UserModelConfig | null;
+}
+
+interface ModelOption {
+  name: string;
+  provider: string;
+}
+
+interface ProviderKey {
+  id: string;
+  name: string;
+  provider: string;
+  keyPreview: string;
+}
+
+interface ConfigForm {
+  modelName: string;
+  reasoningEffort: string;
+  maxTokens: string;
+  temperature: string;
+  fallbackModel: string;
+  providerSecretId: string;
+}
+
+// Radix selects cannot hold empty values
+const NONE = 'none';
+
+function formatActionName(actionKey: string): string {
+  const words = actionKey.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function toForm(config: ModelParameters & { providerSecretId?: string | null }): ConfigForm {
+  return {
+    modelName: config.modelName,
+    reasoningEffort: config.reasoningEffort ?? NONE,
+    maxTokens: config.maxTokens?.toString() ?? '',
+    temperature: config.temperature?.toString() ?? '',
+    fallbackModel: config.fallbackModel ?? NONE,
+    providerSecretId: config.providerSecretId ?? NONE,
+  };
+}
+
+/**
+ * Settings section for choosing the model and parameters the agent uses for each of its actions
+ */
+export function ModelConfigsSection() {
+  const [configs, setConfigs] = useState<ActionModelConfig[]>([]);
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [reasoningEfforts, setReasoningEfforts] = useState<string[]>([]);
+  const [providerKeys, setProviderKeys] = useState<ProviderKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingAction, setEditingAction] = useState<string | null>(null);
+  const [form, setForm] = useState<ConfigForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadConfigs = async () => {
+    try {
+      const response = await fetch('/api/model-configs', {
+        credentials: 'include'
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setConfigs(data.data?.configs || []);
+        setModels(data.data?.models || []);
+        setReasoningEfforts(data.data?.reasoningEfforts || []);
+        setProviderKeys(data.data?.providerKeys || []);
+      }
+    } catch (error) {
+      console.error('Error loading model configs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    loadConfigs();
+  }, []);
+
+  const updateActionConfig = (actionKey: string, userConfig: UserModelConfig | null) => {
+    setConfigs(prev => prev.map(config =>
+      config.actionKey === actionKey ? { ...config, userConfig } : config
+    ));
+  };
+
+  const openEditor = (config: ActionModelConfig) => {
+    setForm(toForm(config.userConfig ?? config.defaultConfig));
+    setEditingAction(config.actionKey);
+  };
+
+  const modelProvider = models.find(model => model.name === form?.modelName)?.provider;
+  const matchingKeys = providerKeys.filter(key => key.provider === modelProvider);
+
+  const handleSave = async () => {
+    if (!editingAction || !form) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/model-configs/${editingAction}`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          modelName: form.modelName,
+          reasoningEffort: form.reasoningEffort === NONE ? null : form.reasoningEffort,
+          maxTokens: form.maxTokens ? Number(form.maxTokens) : null,
+          temperature: form.temperature ? Number(form.temperature) : null,
+          fallbackModel: form.fallbackModel === NONE ? null : form.fallbackModel,
+          providerSecretId: form.providerSecretId === NONE ? null : form.providerSecretId,
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save model config');
+      }
+
+      updateActionConfig(editingAction, data.data.userConfig);
+      setEditingAction(null);
+      toast.success(`${formatActionName(editingAction)} model updated`);
+    } catch (error) {
+      console.error('Error saving model config:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save model config');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async (actionKey: string) => {
+    try {
+      const response = await fetch(`/api/model-configs/${actionKey}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to reset model config');
+      }
+      updateActionConfig(actionKey, null);
+      toast.success(`${formatActionName(actionKey)} uses the default model again`);
+    } catch (error) {
+      console.error('Error resetting model config:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to reset model config');
+    }
+  };
+
+  return (
+    <Card id="model-configs">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Cpu className="h-5 w-5" />
+          <div>
+            <CardTitle>Models</CardTitle>
+            <CardDescription>Choose the model used for each step of code generation, optionally with your own provider keys</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-3">
+            <Settings className="h-5 w-5 animate-spin text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Loading model configs...</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {configs.map((config) => {
+              const effective = config.userConfig ?? config.defaultConfig;
+              return (
+                <div key={config.actionKey} className="flex items-center justify-between p-4 border rounded-lg bg-card">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{formatActionName(config.actionKey)}</p>
+                      {config.userConfig ? (
+                        <Badge variant="secondary" className="text-xs">custom</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs">default</Badge>
+                      )}
+                      {config.userConfig?.providerSecretId && (
+                        <Badge variant="outline" className="text-xs">own key</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1 truncate">
+                      {effective.modelName}
+                      {effective.reasoningEffort && ` · ${effective.reasoningEffort} reasoning`}
+                      {effective.fallbackModel && ` · falls back to ${effective.fallbackModel}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => openEditor(config)}>
+                      <Pencil className="h-4 w-4" />
+                      Edit
+                    </Button>
+                    {config.userConfig && (
+                      <Button variant="ghost" size="sm" onClick={() => handleReset(config.actionKey)}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={editingAction !== null} onOpenChange={(open) => !open && setEditingAction(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingAction && formatActionName(editingAction)}</DialogTitle>
+              <DialogDescription>
+                Replaces the default configuration, parameters left empty use the provider's defaults
+              </DialogDescription>
+            </DialogHeader>
+            {form && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Model</Label>
+                  <Select
+                    value={form.modelName}
+                    onValueChange={(value) => setForm(prev => prev && ({ ...prev, modelName: value, providerSecretId: NONE }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map((model) => (
+                        <SelectItem key={model.name} value={model.name}>{model.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Fallback model</Label>
+                  <Select
+                    value={form.fallbackModel}
+                    onValueChange={(value) => setForm(prev => prev && ({ ...prev, fallbackModel: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>None</SelectItem>
+                      {models.map((model) => (
+                        <SelectItem key={model.name} value={model.name}>{model.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-2">
+                    <Label>Reasoning</Label>
+                    <Select
+                      value={form.reasoningEffort}
+                      onValueChange={(value) => setForm(prev => prev && ({ ...prev, reasoningEffort: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Default</SelectItem>
+                        {reasoningEfforts.map((effort) => (
+                          <SelectItem key={effort} value={effort}>{effort}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="model-max-tokens">Max tokens</Label>
+                    <Input
+                      id="model-max-tokens"
+                      type="number"
+                      min={1}
+                      value={form.maxTokens}
+                      onChange={(e) => setForm(prev => prev && ({ ...prev, maxTokens: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="model-temperature">Temperature</Label>
+                    <Input
+                      id="model-temperature"
+                      type="number"
+                      min={0}
+                      max={2}
+                      step={0.1}
+                      value={form.temperature}
+                      onChange={(e) => setForm(prev => prev && ({ ...prev, temperature: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Provider key</Label>
+                  <Select
+                    value={form.providerSecretId}
+                    onValueChange={(value) => setForm(prev => prev && ({ ...prev, providerSecretId: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Platform key</SelectItem>
+                      {matchingKeys.map((key) => (
+                        <SelectItem key={key.id} value={key.id}>{key.name} ({key.keyPreview})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {matchingKeys.length === 0 && modelProvider && (
+                    <p className="text-xs text-muted-foreground">
+                      Add a {modelProvider} key under API Keys to use your own account for this model
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingAction(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !form?.modelName}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,10 +30,17 @@ declare namespace Cloudflare {
 		AI_GATEWAY_PROXY_FOR_TEMPLATES_URL: string;
 		ENVIRONMENT: string;
 		MAX_SANDBOX_INSTANCES: string;
+		SANDBOX_POOL_TEMPLATES: string;
+		SANDBOX_POOL_SIZE: string;
+		PLATFORM_DOMAIN: string;
+		CUSTOM_HOSTNAMES_ZONE_ID: string;
 		CodeGenObject: DurableObjectNamespace<import("./worker/index").CodeGeneratorAgent>;
 		Sandbox: DurableObjectNamespace<import("./worker/index").UserAppSandboxService>;
 		DeployerServiceObject: DurableObjectNamespace<import("./worker/index").DeployerService>;
+		RATE_LIMITER: DurableObjectNamespace<import("./worker/index").RateLimiter>;
 		TEMPLATES_BUCKET: R2Bucket;
+		DEPLOYMENT_ARCHIVES: R2Bucket;
+		SCREENSHOTS: R2Bucket;
 		DB: D1Database;
 		RUNNER_SERVICE: Fetcher /* runner-service */;
 		DISPATCHER: DispatchNamespace;
@@ -46,7 +53,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "SANDBOX_SERVICE_URL" | "ANTHROPIC_API_KEY" | "OPENAI_API_KEY" | "GEMINI_API_KEY" | "OPENROUTER_API_KEY" | "GROQ_API_KEY" | "SANDBOX_SERVICE_API_KEY" | "SANDBOX_SERVICE_TYPE" | "CLOUDFLARE_DATABASE_ID" | "CLOUDFLARE_API_TOKEN" | "CLOUDFLARE_ACCOUNT_ID" | "CLOUDFLARE_AI_GATEWAY_URL" | "CLOUDFLARE_AI_GATEWAY" | "CLOUDFLARE_AI_GATEWAY_TOKEN" | "SERPAPI_KEY" | "TEMPLATES_REPOSITORY" | "GOOGLE_CLIENT_SECRET" | "GOOGLE_CLIENT_ID" | "GITHUB_CLIENT_ID" | "GITHUB_CLIENT_SECRET" | "JWT_SECRET" | "WEBHOOK_SECRET" | "AI_GATEWAY_PROXY_FOR_TEMPLATES_JWT_SECRET" | "AI_GATEWAY_PROXY_FOR_TEMPLATES_URL" | "ENVIRONMENT" | "MAX_SANDBOX_INSTANCES">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "SANDBOX_SERVICE_URL" | "ANTHROPIC_API_KEY" | "OPENAI_API_KEY" | "GEMINI_API_KEY" | "OPENROUTER_API_KEY" | "GROQ_API_KEY" | "SANDBOX_SERVICE_API_KEY" | "SANDBOX_SERVICE_TYPE" | "CLOUDFLARE_DATABASE_ID" | "CLOUDFLARE_API_TOKEN" | "CLOUDFLARE_ACCOUNT_ID" | "CLOUDFLARE_AI_GATEWAY_URL" | "CLOUDFLARE_AI_GATEWAY" | "CLOUDFLARE_AI_GATEWAY_TOKEN" | "SERPAPI_KEY" | "TEMPLATES_REPOSITORY" | "GOOGLE_CLIENT_SECRET" | "GOOGLE_CLIENT_ID" | "GITHUB_CLIENT_ID" | "GITHUB_CLIENT_SECRET" | "JWT_SECRET" | "WEBHOOK_SECRET" | "AI_GATEWAY_PROXY_FOR_TEMPLATES_JWT_SECRET" | "AI_GATEWAY_PROXY_FOR_TEMPLATES_URL" | "ENVIRONMENT" | "MAX_SANDBOX_INSTANCES" | "SANDBOX_POOL_TEMPLATES" | "SANDBOX_POOL_SIZE" | "PLATFORM_DOMAIN" | "CUSTOM_HOSTNAMES_ZONE_ID">> {}
 }
 
 // Begin runtime types
@@ -4,6 +4,7 @@ import { createObjectLogger, StructuredLogger } from '../../logger';
 import { generalSystemPromptBuilder, PROMPT_UTILS } from '../prompts';
 import { createAssistantMessage, createSystemMessage, createUserMessage } from "../inferutils/common";
 import { executeInference } from "../inferutils/infer";
+import type { InferenceContext } from "../inferutils/userModelConfig";
 import Assistant from "./assistant";
 import { AIModels } from "../inferutils/config";
 import { extractCommands } from "../utils/common";
@@ -14,6 +15,7 @@ interface GenerateSetupCommandsArgs {
     query: string;
     blueprint: Blueprint;
     template: TemplateDetails;
+    inferenceContext?: InferenceContext;
 }
 
 const SYSTEM_PROMPT = `You are an Expert senior full-stack engineer at Cloudflare tasked with designing and developing a full stack application for the user based on their original query and provided blueprint. `
@@ -85,13 +87,15 @@ function extractAllIncludes(files: FileOutputType[]) {
 export class ProjectSetupAssistant extends Assistant<Env> {
     private query: string;
     private logger: StructuredLogger;
+    private inferenceContext?: InferenceContext;
     
     constructor({
         env,
         agentId,
         query,
         blueprint,
-        template
+        template,
+        inferenceContext
     }: GenerateSetupCommandsArgs) {
         const systemPrompt = createSystemMessage(SYSTEM_PROMPT);
         super(env, agentId, systemPrompt);
@@ -103,6 +107,7 @@ export class ProjectSetupAssistant extends Assistant<Env> {
             forCodegen: false
         }))]);
         this.query = query;
+        this.inferenceContext = inferenceContext;
         this.logger = createObjectLogger(this, 'ProjectSetupAssistant');
     }
 
@@ -125,6 +130,7 @@ ${error}`);
                 id: this.agentId,
                 messages,
                 agentActionName: "projectSetup",
+                inferenceContext: this.inferenceContext,
                 modelName: error? AIModels.GEMINI_2_5_FLASH : undefined,
             });
             if (!results.string) {
@@ -158,6 +164,7 @@ ${error}`);
                 id: this.agentId,
                 messages,
                 agentActionName: "projectSetup",
+                inferenceContext: this.inferenceContext,
             });
             if (!results) {
                 this.logger.info(`Failed to generate setup commands`);
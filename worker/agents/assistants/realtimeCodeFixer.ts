@@ -8,7 +8,8 @@ import Assistant from "./assistant";
 import { applySearchReplaceDiff } from "../diff-formats";
 import { infer } from "../inferutils/core";
 import { MatchingStrategy, FailedBlock } from "../diff-formats/search-replace";
-import { AIModels, ModelConfig } from "../inferutils/config";
+import { AgentActionKey, AIModels } from "../inferutils/config";
+import type { InferenceContext } from "../inferutils/userModelConfig";
 // import { analyzeTypeScriptFile } from "../../services/code-fixer/analyzer";
 
 export interface RealtimeCodeFixerContext {
@@ -16,6 +17,7 @@ export interface RealtimeCodeFixerContext {
     query: string;
     blueprint: Blueprint;
     template: TemplateDetails;
+    inferenceContext?: InferenceContext;
 }
 
 const SYSTEM_PROMPT = `You are a seasoned, highly experienced code inspection officier and senior full-stack engineer specializing in React and TypeScript. Your task is to review and verify if the provided typescript code file wouldn't cause any runtime infinite rendering loops or critical failures, and provide fixes if any. 
@@ -200,14 +202,14 @@ export class RealtimeCodeFixer extends Assistant<Env> {
     altPassModelOverride?: string;
     userPrompt: string;
     systemPrompt: string;
-    modelConfigOverride?: ModelConfig;
+    agentActionName: AgentActionKey;
 
     constructor(
         env: Env,
         agentId: string,
         lightMode: boolean = false,
         altPassModelOverride?: string,// = AIModels.GEMINI_2_5_FLASH,
-        modelConfigOverride?: ModelConfig,
+        agentActionName: AgentActionKey = 'realtimeCodeFixer',
         systemPrompt: string = SYSTEM_PROMPT,
         userPrompt: string = USER_PROMPT
     ) {
@@ -216,7 +218,7 @@ export class RealtimeCodeFixer extends Assistant<Env> {
         this.altPassModelOverride = altPassModelOverride;
         this.userPrompt = userPrompt;
         this.systemPrompt = systemPrompt;
-        this.modelConfigOverride = modelConfigOverride;
+        this.agentActionName = agentActionName;
     }
 
     async run(
@@ -273,12 +275,12 @@ Don't be nitpicky, If there are no actual issues, just say "No issues found".
                 const { string: fixResult } = await executeInference({
                     env: this.env,
                     id: this.agentId,
-                    agentActionName: "realtimeCodeFixer",
+                    agentActionName: this.agentActionName,
                     messages,
                     modelName: (i !== 0 && this.altPassModelOverride) || this.lightMode ? this.altPassModelOverride : undefined,
                     temperature: (i !== 0 && this.altPassModelOverride) || this.lightMode ? 0.0 : undefined,
                     reasoning_effort: (i !== 0 && this.altPassModelOverride) || this.lightMode ? 'low' : undefined,
-                    modelConfig: this.modelConfigOverride,
+                    inferenceContext: context.inferenceContext,
                 });
 
                 if (!fixResult) {
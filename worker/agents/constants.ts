@@ -32,12 +32,20 @@ export const WebSocketMessageResponses: Record<string, WebSocketMessageType> = {
     
     // Screenshot messages
     SCREENSHOT_ANALYSIS_RESULT: 'screenshot_analysis_result',
+    VISUAL_CHECK_STARTED: 'visual_check_started',
+    VISUAL_CHECK_COMPLETED: 'visual_check_completed',
     
     ERROR: 'error',
 
     CODE_REVIEWING: 'code_reviewing',
     CODE_REVIEWED: 'code_reviewed',
     COMMAND_EXECUTING: 'command_executing',
+
+    // Generated test messages
+    TESTS_GENERATING: 'tests_generating',
+    TESTS_GENERATED: 'tests_generated',
+    TESTS_RUNNING: 'tests_running',
+    TEST_RESULTS: 'test_results',
     
     // Generation control messages
     GENERATION_STOPPED: 'generation_stopped',
@@ -45,13 +53,34 @@ export const WebSocketMessageResponses: Record<string, WebSocketMessageType> = {
 
     DETERMINISTIC_CODE_FIX_STARTED: 'deterministic_code_fix_started',
     DETERMINISTIC_CODE_FIX_COMPLETED: 'deterministic_code_fix_completed',
+
+    // Dry-run code fix messages
+    CODE_FIX_PROPOSALS: 'code_fix_proposals',
+    CODE_FIX_ACCEPTED: 'code_fix_accepted',
+    CODE_FIX_REJECTED: 'code_fix_rejected',
     
     // GitHub export messages
     GITHUB_EXPORT_STARTED: 'github_export_started',
     GITHUB_EXPORT_PROGRESS: 'github_export_progress',
     GITHUB_EXPORT_COMPLETED: 'github_export_completed',
     GITHUB_EXPORT_ERROR: 'github_export_error',
+
+    // GitHub pull messages
+    GITHUB_PULL_STARTED: 'github_pull_started',
+    GITHUB_PULL_COMPLETED: 'github_pull_completed',
+    GITHUB_PULL_ERROR: 'github_pull_error',
     
+    // Blueprint review messages
+    BLUEPRINT_REVISING: 'blueprint_revising',
+    BLUEPRINT_UPDATED: 'blueprint_updated',
+    BLUEPRINT_APPROVED: 'blueprint_approved',
+    BLUEPRINT_ERROR: 'blueprint_error',
+
+    // Phase snapshot messages
+    SNAPSHOTS_LIST: 'snapshots_list',
+    SNAPSHOTS_DIFF: 'snapshots_diff',
+    SNAPSHOT_ROLLBACK_COMPLETED: 'snapshot_rollback_completed',
+
     // Conversational AI messages
     USER_SUGGESTIONS_PROCESSING: 'user_suggestions_processing',
     USER_SUGGESTIONS_PROCESSED: 'user_suggestions_processed',
@@ -64,6 +93,7 @@ export const WebSocketMessageRequests = {
     GENERATE: 'generate',
     CODE_REVIEW: 'code_review',
     DEPLOY: 'deploy',
+    ROLLBACK_DEPLOYMENT: 'rollback_deployment',
     PREVIEW: 'preview',
     OVERWRITE: 'overwrite',
     UPDATE_QUERY: 'update_query',
@@ -72,9 +102,27 @@ export const WebSocketMessageRequests = {
     SCREENSHOT_CAPTURED: 'screenshot_captured',
     STOP_GENERATION: 'stop_generation',
     RESUME_GENERATION: 'resume_generation',
+
+    // Blueprint review requests, only accepted before generation starts
+    UPDATE_BLUEPRINT: 'update_blueprint',
+    REVISE_BLUEPRINT: 'revise_blueprint',
+    APPROVE_BLUEPRINT: 'approve_blueprint',
+
+    // Phase snapshot requests
+    LIST_SNAPSHOTS: 'list_snapshots',
+    DIFF_SNAPSHOTS: 'diff_snapshots',
+    ROLLBACK_TO_SNAPSHOT: 'rollback_to_snapshot',
+
+    // Dry-run code fix requests
+    PREVIEW_CODE_FIXES: 'preview_code_fixes',
+    ACCEPT_CODE_FIX: 'accept_code_fix',
+    REJECT_CODE_FIX: 'reject_code_fix',
     
     // GitHub export request
     GITHUB_EXPORT: 'github_export',
+
+    // GitHub pull request, merges commits made on GitHub into the app
+    GITHUB_PULL: 'github_pull',
     
     // Conversational AI requests
     USER_SUGGESTION: 'user_suggestion',
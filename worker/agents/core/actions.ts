@@ -1,9 +1,82 @@
 import { AgentActionType } from '../schemas';
-import { Agent } from 'agents';
-import { CodeGenState } from './state';
+import type { SimpleCodeGeneratorAgent } from './simpleGeneratorAgent';
+import { ActionResult } from './types';
+import { CurrentDevState } from './state';
+import { IssueReport } from '../domain/values/IssueReport';
 
-export async function executeAction(agent: Agent<Env, CodeGenState>, action: AgentActionType): Promise<void> {
-    // @ts-ignore - agent.logger exists on our implementation
-    agent.logger?.info(`Executing action: ${action.action}`);
+/**
+ * Dispatch a single builder loop action to the agent
+ * Returns a short observation that is fed back into the next action selection
+ */
+export async function executeAction(agent: SimpleCodeGeneratorAgent, action: AgentActionType): Promise<ActionResult> {
+    agent.logger.info(`Executing action: ${action.action}`, { data: action.data });
+
+    switch (action.action) {
+        case 'generate_phase': {
+            const { currentDevState, result } = await agent.executePhaseGeneration();
+            if (!result) {
+                return {
+                    done: false,
+                    observation: currentDevState === CurrentDevState.FINALIZING
+                        ? 'No more phases to implement, roadmap is complete'
+                        : 'Phase generation failed'
+                };
+            }
+            return { done: false, observation: `Planned phase "${result.name}" with ${result.files.length} files` };
+        }
+        case 'implement_phase': {
+            const phase = agent.state.currentPhase;
+            if (!phase) {
+                return { done: false, observation: 'No phase is planned, generate a phase first' };
+            }
+            const { currentDevState } = await agent.executePhaseImplementation(phase);
+            if (currentDevState === CurrentDevState.IDLE) {
+                return { done: false, codeChanged: true, observation: `Failed to implement phase "${phase.name}"` };
+            }
+            return { done: false, codeChanged: true, observation: `Implemented phase "${phase.name}"${phase.lastPhase ? ', this was the last phase of the roadmap' : ''}` };
+        }
+        case 'regenerate_file': {
+            const filePath = typeof action.data.file_path === 'string' ? action.data.file_path : undefined;
+            const issues = Array.isArray(action.data.issues) ? action.data.issues.map(String) : [];
+            if (!filePath) {
+                return { done: false, observation: 'Missing file_path for regenerate_file' };
+            }
+            const file = agent.state.generatedFilesMap[filePath];
+            if (!file) {
+                return { done: false, observation: `File ${filePath} not found in generated files` };
+            }
+            const regenerated = await agent.regenerateFile(file, issues, 0);
+            await agent.deployToSandbox([regenerated]);
+            return { done: false, codeChanged: true, observation: `Regenerated and deployed ${filePath}` };
+        }
+        case 'run_static_analysis': {
+            const staticAnalysis = await agent.runStaticAnalysisCode();
+            const report = IssueReport.from({ runtimeErrors: [], staticAnalysis, clientErrors: [] });
+            return { done: false, staticAnalysis, observation: `Static analysis: ${report.getSummary()}` };
+        }
+        case 'fetch_runtime_errors': {
+            const errors = await agent.fetchRuntimeErrors(false);
+            return { done: false, runtimeErrors: errors, observation: `Found ${errors.length} runtime errors` };
+        }
+        case 'run_tests': {
+            if (!agent.state.enableTesting) {
+                return { done: false, observation: 'Testing is not enabled for this app' };
+            }
+            await agent.generateTests();
+            const testResults = await agent.runTests();
+            if (!testResults) {
+                return { done: false, codeChanged: true, observation: 'No tests to run' };
+            }
+            const failing = testResults.failures.map(failure => `${failure.filePath}: ${failure.testName}`).join('; ');
+            return { done: false, codeChanged: true, observation: `Tests: ${testResults.numPassedTests}/${testResults.numTotalTests} passed${failing ? `, failing: ${failing}` : ''}` };
+        }
+        case 'deploy': {
+            const instanceId = await agent.deployToSandbox();
+            return { done: false, codeChanged: true, observation: instanceId ? `Deployed to sandbox instance ${instanceId}` : 'Deployment to sandbox failed' };
+        }
+        case 'finish':
+            return { done: true, observation: 'Generation finished' };
+        default:
+            return { done: false, observation: `Unknown action: ${action.action}` };
+    }
 }
-    
\ No newline at end of file
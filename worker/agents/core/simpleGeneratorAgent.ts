@@ -1,7 +1,9 @@
-import { Agent, Connection } from 'agents';
+import { Agent, Connection, ConnectionContext } from 'agents';
 import { 
     AgentActionType, 
     Blueprint, 
+    BlueprintSchema,
+    BlueprintSection,
     CodeOutputType, 
     PhaseConceptGenerationSchemaType, 
     ScreenshotAnalysisType,
@@ -10,12 +12,17 @@ import {
     TechnicalInstructionType,
     PhaseImplementationSchemaType,
 } from '../schemas';
-import { StaticAnalysisResponse, TemplateDetails } from '../../services/sandbox/sandboxTypes';
+import { DeploymentCredentials, DeploymentEnvironment, DeploymentResult, RuntimeError, StaticAnalysisResponse, TemplateDetails, TestRunResult } from '../../services/sandbox/sandboxTypes';
+import { redeployArchive } from '../../services/sandbox/deploymentService';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { QuotaAction, QuotaExceededError, QuotaService } from '../../services/quotas/quotaService';
+import { CloudflareClient } from '../../services/cloudflare/cloudflareClient';
+import { parseVitestOutput } from '../../services/sandbox/analysisParsers';
 import { GitHubExportOptions, GitHubExportResult, GitHubInitRequest, GitHubInitResponse, GitHubPushRequest, GitHubPushResponse } from '../../types/github';
-import { CodeGenState, CurrentDevState } from './state';
-import { AllIssues } from './types';
+import { CodeGenState, CurrentDevState, FileState, GitHubSyncState, PhaseSnapshot, PhaseState, PhaseVisualCheck, ViewportScreenshot } from './state';
+import { ActionHistoryEntry, ActionResult, AllIssues, ScreenshotData, ViewportName } from './types';
 import { WebSocketMessageResponses } from '../constants';
-import { broadcastToConnections, handleWebSocketClose, handleWebSocketMessage } from './websocket';
+import { broadcastToConnections, handleWebSocketClose, handleWebSocketMessage, sendError } from './websocket';
 import { createObjectLogger } from '../../logger';
 import { ProjectSetupAssistant } from '../assistants/projectsetup';
 import { UserConversationProcessor } from '../operations/UserConversationProcessor';
@@ -27,13 +34,19 @@ import { StateManager } from '../services/implementations/StateManager';
 import { GenerationContext } from '../domain/values/GenerationContext';
 import { IssueReport } from '../domain/values/IssueReport';
 import { PhaseManagement } from '../domain/pure/PhaseManagement';
+import { PhaseSnapshotSummary, SnapshotFileDiff, SnapshotManagement } from '../domain/pure/SnapshotManagement';
 import { PhaseImplementationOperation, LAST_PHASE_PROMPT as FINAL_CODE_PHASE_DESCRIPTION } from '../operations/PhaseImplementation';
 import { CodeReviewOperation } from '../operations/CodeReview';
 import { FileRegenerationOperation } from '../operations/FileRegeneration';
 import { PhaseGenerationOperation } from '../operations/PhaseGeneration';
 import { ScreenshotAnalysisOperation } from '../operations/ScreenshotAnalysis';
+import { NextActionSelectionOperation } from '../operations/NextActionSelection';
+import { isTestFile, TEST_DEPENDENCIES_COMMAND, TEST_RUN_COMMAND, TEST_SETUP_FILES, TestGenerationOperation } from '../operations/TestGeneration';
 import { ErrorHandler } from './utilities/ErrorHandler';
 import { DatabaseOperations } from './utilities/DatabaseOperations';
+import { BlueprintRevisions } from './utilities/BlueprintRevisions';
+import { ApiKeyStateGuard } from './utilities/ApiKeyStateGuard';
+import { reviseBlueprintSection } from '../planning/blueprint';
 import { DatabaseService } from '../../database/database';
 import * as schema from '../../database/schema';
 import { eq } from 'drizzle-orm';
@@ -41,11 +54,20 @@ import { BaseSandboxService } from '../../services/sandbox/BaseSandboxService';
 import { getSandboxService } from '../../services/sandbox/factory';
 import { WebSocketMessageData, WebSocketMessageType } from '../websocketTypes';
 import { ConversationMessage } from '../inferutils/common';
-import { FileFetcher, fixProjectIssues } from '../../services/code-fixer';
+import { CodeFixProposal, FileFetcher, fixProjectIssues, proposeProjectFixes, ProposedFix } from '../../services/code-fixer';
+import { applyUnifiedDiff } from '../diff-formats';
+import { DEFAULT_MCP_SERVERS, MCPManager } from '../tools/mcpManager';
+import { loadAppMCPServers } from '../tools/mcpConfig';
+import { InferenceContext, loadAppInferenceContext } from '../inferutils/userModelConfig';
 import { FileProcessing } from '../domain/pure/FileProcessing';
 import { FastCodeFixerOperation } from '../operations/FastCodeFixer';
+import { computeGitBlobSha, GitHubClient, GitHubCommitFile, GitHubRepositoryRef } from '../../services/github/githubClient';
+import { GitHubSync } from '../domain/pure/GitHubSync';
+import { VIEWPORTS, VisualChecks } from '../domain/pure/VisualChecks';
 import { getProtocolForHost } from '../../utils/urls';
 import { looksLikeCommand } from '../utils/common';
+import { API_KEY_SCOPES_HEADER } from '../../middleware/security/apiKeyScopes';
+import { ApiKeyScope } from '../../types/auth-types';
 
 interface WebhookPayload {
     event: {
@@ -70,8 +92,21 @@ interface WebhookPayload {
     source: string;
 }
 
+/**
+ * Oldest phase snapshots are dropped beyond this limit, together with their stored files
+ */
+const MAX_PHASE_SNAPSHOTS = 20;
+
+/**
+ * Oldest visual checks are dropped beyond this limit, together with their stored screenshots
+ */
+const MAX_VISUAL_CHECKS = 20;
+
+const API_KEY_CONNECTION_TAG = 'api-key';
+
 interface Operations {
     codeReview: CodeReviewOperation;
+    generateTests: TestGenerationOperation;
     regenerateFile: FileRegenerationOperation;
     generateNextPhase: PhaseGenerationOperation;
     analyzeScreenshot: ScreenshotAnalysisOperation;
@@ -79,6 +114,7 @@ interface Operations {
     fastCodeFixer: FastCodeFixerOperation;
     processSuggestions: UserSuggestionProcessor;
     processUserMessage: UserConversationProcessor;
+    selectNextAction: NextActionSelectionOperation;
 }
 
 /**
@@ -101,16 +137,38 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
 
     protected operations: Operations = {
         codeReview: new CodeReviewOperation(),
+        generateTests: new TestGenerationOperation(),
         regenerateFile: new FileRegenerationOperation(),
         generateNextPhase: new PhaseGenerationOperation(),
         analyzeScreenshot: new ScreenshotAnalysisOperation(),
         implementPhase: new PhaseImplementationOperation(),
         fastCodeFixer: new FastCodeFixerOperation(),
         processSuggestions: new UserSuggestionProcessor(),
-        processUserMessage: new UserConversationProcessor()
+        processUserMessage: new UserConversationProcessor(),
+        selectNextAction: new NextActionSelectionOperation()
     };
 
     isGenerating: boolean = false;
+
+    // MCP servers enabled for the app, rebuilt whenever the app's server configuration changes
+    private mcpManager: MCPManager | undefined;
+    private mcpServersSignature = '';
+
+    // Settings of the app owner are cached until they change, see invalidateSettingsCache
+    private settingsVersion = 0;
+    private mcpServersStale = true;
+    private inferenceContext: InferenceContext | undefined;
+    private inferenceContextLoaded = false;
+
+    // Last state the agent or a session connection wrote, restored when an API key connection sends its own
+    private stateGuard = new ApiKeyStateGuard<CodeGenState>(connection => this.connectionHasTag(connection, API_KEY_CONNECTION_TAG));
+
+    // Blueprint revisions still waiting on the LLM, approval is refused until they finish
+    private blueprintRevisions = new BlueprintRevisions();
+    
+    // Visual checks still running in the background, later phases queue behind them
+    private visualChecksPromise: Promise<void> | null = null;
+    private latestVisualCheckPhase: string | null = null;
     
     // Deployment queue management to prevent concurrent deployments
     private currentDeploymentPromise: Promise<string | null> | null = null;
@@ -129,8 +187,13 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         templateDetails: {} as TemplateDetails,
         commandsHistory: [],
         lastPackageJson: '',
+        phaseSnapshots: [],
+        pendingCodeFixes: [],
+        testedPhases: [],
         clientReportedErrors: [],
         latestScreenshot: undefined,
+        visualChecks: [],
+        visualRegressions: [],
         pendingUserInputs: [],
         // conversationalAssistant: new ConversationalAssistant(this.env),
         sessionId: '',
@@ -180,7 +243,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         });
 
         this.sandboxServiceClient = this.getSandboxServiceClient();
-        this.projectSetupAssistant = this.getProjectSetupAssistant();
+        this.projectSetupAssistant = await this.getProjectSetupAssistant();
 
         this.logger = createObjectLogger(this, 'CodeGeneratorAgent');
         this.logger.setObjectId(sessionId);
@@ -198,14 +261,15 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         this.logger.info("Agent initialized successfully");
     }
 
-    getProjectSetupAssistant(): ProjectSetupAssistant {
+    async getProjectSetupAssistant(): Promise<ProjectSetupAssistant> {
         if (this.projectSetupAssistant === undefined) {
             this.projectSetupAssistant = new ProjectSetupAssistant({
                 env: this.env,
                 agentId: this.state.sessionId,
                 query: this.state.query,
                 blueprint: this.state.blueprint,
-                template: this.state.templateDetails
+                template: this.state.templateDetails,
+                inferenceContext: await this.getInferenceContext()
             });
         }
         return this.projectSetupAssistant;
@@ -219,10 +283,142 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         return this.sandboxServiceClient;
     }
 
+    /**
+     * Get an MCP manager exposing the built-in servers and the servers enabled for this app
+     * The app's servers are only reloaded after the settings cache was invalidated
+     */
+    async getMCPManager(): Promise<MCPManager> {
+        if (this.mcpManager && !this.mcpServersStale) {
+            return this.mcpManager;
+        }
+
+        const settingsVersion = this.settingsVersion;
+        let appServers: Awaited<ReturnType<typeof loadAppMCPServers>> = [];
+        try {
+            appServers = await loadAppMCPServers(this.env, this.state.sessionId);
+            // Settings changed while loading, keep them stale so the next call reloads
+            this.mcpServersStale = settingsVersion !== this.settingsVersion;
+        } catch (error) {
+            this.logger.error('Failed to load MCP servers for app, using built-in servers only:', error);
+        }
+
+        const signature = JSON.stringify(appServers);
+        if (!this.mcpManager || signature !== this.mcpServersSignature) {
+            await this.mcpManager?.shutdown();
+            this.mcpManager = new MCPManager([...DEFAULT_MCP_SERVERS, ...appServers]);
+            this.mcpServersSignature = signature;
+        }
+        return this.mcpManager;
+    }
+
+    /**
+     * Get the model overrides of the app owner
+     * Loaded once and reused by every inference call until the settings cache is invalidated
+     */
+    async getInferenceContext(): Promise<InferenceContext | undefined> {
+        if (this.inferenceContextLoaded) {
+            return this.inferenceContext;
+        }
+        const settingsVersion = this.settingsVersion;
+        try {
+            const inferenceContext = await loadAppInferenceContext(this.env, this.state.sessionId);
+            if (settingsVersion === this.settingsVersion) {
+                this.inferenceContext = inferenceContext;
+                this.inferenceContextLoaded = true;
+            }
+            return inferenceContext;
+        } catch (error) {
+            this.logger.error('Failed to load model overrides, using default model configs:', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Drop the cached model overrides and MCP servers, called when the owner changes their settings
+     */
+    invalidateSettingsCache(): void {
+        this.settingsVersion++;
+        this.inferenceContext = undefined;
+        this.inferenceContextLoaded = false;
+        this.mcpServersStale = true;
+        this.logger.info('Invalidated cached model and MCP settings');
+    }
+
     isCodeGenerating(): boolean {
         return this.isGenerating;
     }
 
+    /**
+     * Replace the blueprint with the user's edited version while it awaits approval
+     */
+    async updateBlueprint(blueprint: unknown): Promise<Blueprint> {
+        if (!this.state.awaitingBlueprintApproval) {
+            throw new Error('The blueprint can only be edited before generation starts');
+        }
+
+        const result = BlueprintSchema.safeParse(blueprint);
+        if (!result.success) {
+            const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'blueprint'}: ${issue.message}`);
+            throw new Error(`Invalid blueprint: ${issues.join('; ')}`);
+        }
+
+        return this.applyBlueprint(result.data);
+    }
+
+    /**
+     * Ask the LLM to rewrite one section of the blueprint while it awaits approval
+     */
+    async reviseBlueprint(section: BlueprintSection, instructions: string): Promise<Blueprint> {
+        const blueprint = await this.blueprintRevisions.revise(
+            () => !!this.state.awaitingBlueprintApproval,
+            async () => reviseBlueprintSection({
+                env: this.env,
+                agentId: this.state.sessionId,
+                query: this.state.query,
+                blueprint: this.state.blueprint,
+                section,
+                instructions,
+                templateDetails: this.state.templateDetails,
+                inferenceContext: await this.getInferenceContext(),
+            })
+        );
+
+        return this.applyBlueprint(blueprint);
+    }
+
+    /**
+     * Accept the reviewed blueprint, generation can start afterwards
+     */
+    approveBlueprint(): Blueprint {
+        if (!this.state.awaitingBlueprintApproval) {
+            throw new Error('The blueprint was already approved');
+        }
+        this.blueprintRevisions.assertCanApprove();
+
+        this.setState({
+            ...this.state,
+            awaitingBlueprintApproval: false,
+        });
+        this.logger.info('Blueprint approved', { title: this.state.blueprint.title });
+        return this.state.blueprint;
+    }
+
+    private async applyBlueprint(blueprint: Blueprint): Promise<Blueprint> {
+        this.setState({
+            ...this.state,
+            blueprint,
+        });
+        // The setup assistant captured the previous blueprint
+        this.projectSetupAssistant = undefined;
+
+        await DatabaseOperations.updateApp(this.env, this.state.sessionId, this.logger, {
+            title: blueprint.title,
+            description: blueprint.description,
+            blueprint,
+        });
+        return blueprint;
+    }
+
     /**
      * State machine controller for code generation with user interaction support
      * Executes phases sequentially with review cycles and proper state transitions
@@ -232,6 +428,10 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
             this.logger.info("Code generation already in progress");
             return;
         }
+        if (this.state.awaitingBlueprintApproval) {
+            this.logger.info("Blueprint awaits approval, not starting generation");
+            return;
+        }
 
         this.broadcast(WebSocketMessageResponses.GENERATION_STARTED, {
             message: 'Starting code generation',
@@ -287,6 +487,9 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                     case CurrentDevState.FINALIZING:
                         currentDevState = await this.executeFinalizing();
                         break;
+                    case CurrentDevState.TESTING:
+                        currentDevState = await this.executeTesting();
+                        break;
                     default:
                         break;
                 }
@@ -389,7 +592,8 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 currentIssues = {
                     runtimeErrors: await this.fetchRuntimeErrors(true),
                     staticAnalysis: staticAnalysis,
-                    clientErrors: this.state.clientReportedErrors
+                    clientErrors: this.state.clientReportedErrors,
+                    visualRegressions: this.state.visualRegressions
                 };
             } else {
                 currentIssues = await this.fetchAllIssues()
@@ -463,6 +667,11 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
 
                     await this.deployToSandbox(files);
 
+                    // Rerun the tests so the next review cycle sees which failures remain
+                    if (this.state.enableTesting) {
+                        await this.runTests();
+                    }
+
                     // await this.applyDeterministicCodeFixes();
 
                     this.logger.info("Completed regeneration for review cycle");
@@ -496,7 +705,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         // Only do finalizing stage if it wasn't done before
         if (this.state.generatedPhases.find(phase => phase.name === "Finalization and Review")) {
             this.logger.info("Finalizing stage already done");
-            return CurrentDevState.REVIEWING;
+            return this.state.enableTesting ? CurrentDevState.TESTING : CurrentDevState.REVIEWING;
         }
 
         const currentIssues = await this.fetchAllIssues();
@@ -514,6 +723,21 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         this.logger.info(`Finalization complete. Generated ${numFilesGenerated}/${this.getTotalFiles()} files.`);
 
         // Transition to IDLE - generation complete
+        return this.state.enableTesting ? CurrentDevState.TESTING : CurrentDevState.REVIEWING;
+    }
+
+    /**
+     * Execute testing state - generate tests for newly implemented phases and run the whole suite
+     * Failures are picked up by the review cycle that follows
+     */
+    async executeTesting(): Promise<CurrentDevState> {
+        this.logger.info("Executing TESTING state");
+        try {
+            await this.generateTests();
+            await this.runTests();
+        } catch (error) {
+            this.logger.error("Error during testing:", error);
+        }
         return CurrentDevState.REVIEWING;
     }
 
@@ -537,6 +761,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 agentId: this.state.sessionId,
                 logger: this.logger,
                 context,
+                inferenceContext: await this.getInferenceContext(),
             }
         )
         // Execute install commands if any
@@ -590,6 +815,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                     agentId: this.state.sessionId,
                     logger: this.logger,
                     context,
+                    inferenceContext: await this.getInferenceContext(),
                 }
             );
 
@@ -650,6 +876,8 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 agentId: this.state.sessionId,
                 logger: this.logger,
                 context,
+                mcpManager: await this.getMCPManager(),
+                inferenceContext: await this.getInferenceContext(),
             }
         );
         
@@ -719,6 +947,12 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
             generatedPhases: updatedPhases
         });
 
+        await this.createPhaseSnapshot(phase);
+
+        if (finalFiles.length > 0) {
+            this.scheduleVisualChecks(phase);
+        }
+
         this.logger.info("Completed phases:", JSON.stringify(updatedPhases, null, 2));
         
         return {
@@ -753,6 +987,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 agentId: this.state.sessionId,
                 logger: this.logger,
                 context,
+                inferenceContext: await this.getInferenceContext(),
             }
         );
         
@@ -775,6 +1010,113 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         return reviewResult;
     }
 
+    /**
+     * Generate tests for completed phases that don't have tests yet
+     * The Vitest setup and test dependencies are added along with the first tests.
+     */
+    async generateTests(): Promise<FileOutputType[]> {
+        const testedPhases = this.state.testedPhases || [];
+        const phases = this.state.generatedPhases.filter(phase =>
+            phase.completed && phase.files.length > 0 && !testedPhases.includes(phase.name)
+        );
+        if (phases.length === 0) {
+            this.logger.info("All implemented phases already have tests");
+            return [];
+        }
+
+        const context = GenerationContext.from(this.state, this.logger);
+        this.broadcast(WebSocketMessageResponses.TESTS_GENERATING, {
+            message: `Generating tests for ${phases.length} phases`,
+            phases: phases.map(phase => phase.name)
+        });
+
+        const result = await this.operations.generateTests.execute(
+            {phases},
+            {
+                env: this.env,
+                agentId: this.state.sessionId,
+                logger: this.logger,
+                context,
+                inferenceContext: await this.getInferenceContext(),
+            }
+        );
+
+        const isFirstRun = !this.state.generatedFilesMap[TEST_SETUP_FILES[0].file_path];
+        const files = isFirstRun ? [...TEST_SETUP_FILES, ...result.files] : result.files;
+        if (isFirstRun) {
+            await this.executeCommands([TEST_DEPENDENCIES_COMMAND]);
+        }
+        if (result.commands.length > 0) {
+            await this.executeCommands(result.commands);
+        }
+
+        this.fileManager.saveGeneratedFiles(files);
+        await this.deployToSandbox(files);
+
+        this.setState({
+            ...this.state,
+            testedPhases: [...testedPhases, ...phases.map(phase => phase.name)]
+        });
+
+        this.broadcast(WebSocketMessageResponses.TESTS_GENERATED, {
+            message: `Generated ${result.files.length} test files`,
+            files: result.files
+        });
+        return result.files;
+    }
+
+    /**
+     * Run the generated tests in the sandbox and remember the results for the next review
+     */
+    async runTests(): Promise<TestRunResult | undefined> {
+        const testFiles = Object.keys(this.state.generatedFilesMap).filter(isTestFile);
+        if (!this.state.sandboxInstanceId || testFiles.length === 0) {
+            this.logger.info("No generated tests to run");
+            return undefined;
+        }
+
+        this.broadcast(WebSocketMessageResponses.TESTS_RUNNING, {
+            message: `Running ${testFiles.length} test files`
+        });
+
+        let testResults: TestRunResult;
+        const resp = await this.getSandboxServiceClient().executeCommands(this.state.sandboxInstanceId, [TEST_RUN_COMMAND]);
+        const output = resp.results?.[0]?.output || '';
+        try {
+            const parsed = parseVitestOutput(output);
+            // Vitest reports absolute paths, map them back to the generated files
+            const failures = parsed.failures.map(failure => ({
+                ...failure,
+                filePath: testFiles.find(filePath => failure.filePath.endsWith(`/${filePath}`)) || failure.filePath
+            }));
+            testResults = { ...parsed, failures, rawOutput: output.slice(0, 10000) };
+        } catch (error) {
+            this.logger.warn("Failed to parse test results", error, output);
+            const message = resp.results?.[0]?.error || resp.error || output || 'No test report was produced';
+            testResults = {
+                success: false,
+                numTotalTests: 0,
+                numPassedTests: 0,
+                numFailedTests: 0,
+                failures: [{ testName: 'Test run failed', filePath: 'vitest.config.ts', message: message.slice(0, 2000) }],
+                error: error instanceof Error ? error.message : String(error)
+            };
+        }
+
+        this.setState({
+            ...this.state,
+            lastTestResults: testResults
+        });
+
+        this.broadcast(WebSocketMessageResponses.TEST_RESULTS, {
+            message: testResults.success
+                ? `All ${testResults.numTotalTests} tests passed`
+                : `${testResults.failures.length} of ${testResults.numTotalTests} tests failed`,
+            testResults
+        });
+        return testResults;
+    }
+
     /**
      * Regenerate a file to fix identified issues
      * Retries up to 3 times before giving up
@@ -794,6 +1136,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 agentId: this.state.sessionId,
                 logger: this.logger,
                 context,
+                inferenceContext: await this.getInferenceContext(),
             }
         );
 
@@ -808,6 +1151,131 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         return result;
     }
 
+    /**
+     * Snapshot the generated files and package.json after a phase completes
+     * Only the file hashes go into the state, the contents are written to the agent's SQL storage
+     */
+    private async createPhaseSnapshot(phase: PhaseConceptType): Promise<void> {
+        const phaseIndex = this.state.generatedPhases.findIndex(p => p.name === phase.name);
+        const files = Object.values(this.state.generatedFilesMap);
+        const fileHashes: Record<string, string> = {};
+        for (const file of files) {
+            fileHashes[file.file_path] = await computeGitBlobSha(file.file_contents);
+        }
+        const snapshot = SnapshotManagement.createSnapshot(
+            phase.name,
+            phaseIndex === -1 ? this.state.generatedPhases.length : phaseIndex,
+            fileHashes
+        );
+
+        const sql = this.getSnapshotStorage();
+        sql.exec('INSERT INTO phase_snapshots (snapshot_id, phase_index, last_package_json) VALUES (?, ?, ?)', snapshot.id, snapshot.phaseIndex, this.state.lastPackageJson ?? null);
+        for (const file of files) {
+            sql.exec('INSERT INTO phase_snapshot_files (snapshot_id, file_path, file_state) VALUES (?, ?, ?)', snapshot.id, file.file_path, JSON.stringify(file));
+        }
+
+        const snapshots = [...(this.state.phaseSnapshots || []), snapshot];
+        const droppedSnapshots = snapshots.slice(0, -MAX_PHASE_SNAPSHOTS);
+        for (const dropped of droppedSnapshots) {
+            sql.exec('DELETE FROM phase_snapshot_files WHERE snapshot_id = ?', dropped.id);
+            sql.exec('DELETE FROM phase_snapshots WHERE snapshot_id = ?', dropped.id);
+        }
+
+        this.setState({
+            ...this.state,
+            phaseSnapshots: snapshots.slice(-MAX_PHASE_SNAPSHOTS)
+        });
+        this.logger.info(`Created snapshot ${snapshot.id} for phase: ${phase.name}`);
+    }
+
+    /**
+     * SQL storage of the snapshot contents, creating its tables on first use
+     */
+    private getSnapshotStorage(): SqlStorage {
+        const sql = this.ctx.storage.sql;
+        sql.exec(`CREATE TABLE IF NOT EXISTS phase_snapshots (
+            snapshot_id TEXT PRIMARY KEY,
+            phase_index INTEGER NOT NULL,
+            last_package_json TEXT
+        )`);
+        sql.exec(`CREATE TABLE IF NOT EXISTS phase_snapshot_files (
+            snapshot_id TEXT NOT NULL,
+            file_path TEXT NOT NULL,
+            file_state TEXT NOT NULL,
+            PRIMARY KEY (snapshot_id, file_path)
+        )`);
+        return sql;
+    }
+
+    /**
+     * Load the stored files of a snapshot, limited to the given paths when only some are needed
+     */
+    private loadSnapshotFiles(snapshot: PhaseSnapshot, paths: string[] = Object.keys(snapshot.fileHashes)): Record<string, FileState> {
+        const sql = this.getSnapshotStorage();
+        const files: Record<string, FileState> = {};
+        for (const path of paths) {
+            const [row] = sql.exec<{ file_state: string }>('SELECT file_state FROM phase_snapshot_files WHERE snapshot_id = ? AND file_path = ?', snapshot.id, path).toArray();
+            if (row) {
+                files[path] = JSON.parse(row.file_state);
+            }
+        }
+        if (Object.keys(files).length !== paths.filter(path => path in snapshot.fileHashes).length) {
+            throw new Error(`Stored files of snapshot ${snapshot.id} are incomplete`);
+        }
+        return files;
+    }
+
+    listPhaseSnapshots(): PhaseSnapshotSummary[] {
+        return (this.state.phaseSnapshots || []).map(SnapshotManagement.summarize);
+    }
+
+    diffPhaseSnapshots(fromSnapshotId: string, toSnapshotId: string): SnapshotFileDiff[] {
+        const snapshots = this.state.phaseSnapshots || [];
+        const from = snapshots.find(s => s.id === fromSnapshotId);
+        const to = snapshots.find(s => s.id === toSnapshotId);
+        if (!from || !to) {
+            throw new Error(`Snapshot not found: ${!from ? fromSnapshotId : toSnapshotId}`);
+        }
+        const paths = SnapshotManagement.changedPaths(from, to);
+        return SnapshotManagement.diffFiles(paths, this.loadSnapshotFiles(from, paths), this.loadSnapshotFiles(to, paths));
+    }
+
+    /**
+     * Roll the agent back to a phase snapshot and redeploy the sandbox from it
+     * Phases after the snapshot are discarded, snapshots are kept so the rollback can be undone
+     */
+    async rollbackToSnapshot(snapshotId: string): Promise<PhaseSnapshotSummary> {
+        if (this.isGenerating) {
+            throw new Error('Cannot roll back while code generation is in progress');
+        }
+
+        const snapshot = (this.state.phaseSnapshots || []).find(s => s.id === snapshotId);
+        if (!snapshot) {
+            throw new Error(`Snapshot not found: ${snapshotId}`);
+        }
+
+        this.logger.info(`Rolling back to snapshot ${snapshot.id} (phase: ${snapshot.phaseName})`);
+
+        const generatedFilesMap = this.loadSnapshotFiles(snapshot);
+        const [stored] = this.getSnapshotStorage()
+            .exec<{ last_package_json: string | null }>('SELECT last_package_json FROM phase_snapshots WHERE snapshot_id = ?', snapshot.id)
+            .toArray();
+
+        this.setState({
+            ...this.state,
+            generatedFilesMap,
+            lastPackageJson: stored?.last_package_json ?? undefined,
+            generatedPhases: this.state.generatedPhases.slice(0, snapshot.phaseIndex + 1),
+            currentPhase: undefined,
+            lastCodeReview: undefined,
+            clientReportedErrors: [],
+        });
+
+        await this.deployToSandbox(Object.values(generatedFilesMap), true);
+
+        return SnapshotManagement.summarize(snapshot);
+    }
+
     getTotalFiles(): number {
         return PhaseManagement.getTotalFiles(
             Object.keys(this.state.generatedFilesMap).length,
@@ -918,7 +1386,8 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
 
             this.broadcast(WebSocketMessageResponses.STATIC_ANALYSIS_RESULTS, {
                 lint: { issues: lintIssues, summary: lintSummary },
-                typecheck: { issues: typeCheckIssues, summary: typeCheckSummary }
+                typecheck: { issues: typeCheckIssues, summary: typeCheckSummary },
+                analyzers: analysisResponse.analyzers
             });
 
             return analysisResponse;
@@ -970,6 +1439,128 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
     //     }
     // }
 
+    /**
+     * Create a file fetcher that reads files missing from state from the sandbox instance
+     */
+    private createSandboxFileFetcher(): FileFetcher {
+        return async (filePath: string) => {
+            // Fetch a single file from the instance
+            try {
+                const result = await this.getSandboxServiceClient().getFiles(this.state.sandboxInstanceId!, [filePath]);
+                if (result.success && result.files.length > 0) {
+                    this.logger.info(`Successfully fetched file: ${filePath}`);
+                    return {
+                        file_path: filePath,
+                        file_contents: result.files[0].file_contents,
+                        file_purpose: `Fetched file: ${filePath}`
+                    };
+                } else {
+                    this.logger.debug(`File not found: ${filePath}`);
+                }
+            } catch (error) {
+                this.logger.debug(`Failed to fetch file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            return null;
+        };
+    }
+
+    /**
+     * Compute deterministic code fixes without applying them (dry-run mode)
+     * Proposed fixes are kept in state until the user accepts or rejects them
+     */
+    async proposeDeterministicCodeFixes(): Promise<CodeFixProposal> {
+        const staticAnalysis = await this.runStaticAnalysisCode();
+        const allFiles = FileProcessing.getAllFiles(this.state.templateDetails, this.state.generatedFilesMap);
+
+        const proposal = await proposeProjectFixes(
+            allFiles.map(file => ({
+                file_path: file.file_path,
+                file_contents: file.file_contents
+            })),
+            staticAnalysis.typecheck.issues,
+            this.createSandboxFileFetcher()
+        );
+
+        this.setState({
+            ...this.state,
+            pendingCodeFixes: proposal.proposedFixes
+        });
+        this.logger.info(`Proposed ${proposal.proposedFixes.length} deterministic code fixes, ${proposal.unfixableIssues.length} issues unfixable`);
+
+        return proposal;
+    }
+
+    /**
+     * Apply a proposed fix and deploy the changed files
+     * Diffs are applied to the current file contents, so fixes accepted one after another build on each other.
+     * A fix whose diff no longer changes a file is rejected with an error and stays pending.
+     */
+    async acceptProposedCodeFix(fixId: string): Promise<ProposedFix> {
+        const fix = this.findPendingCodeFix(fixId);
+        const allFiles = FileProcessing.getAllFiles(this.state.templateDetails, this.state.generatedFilesMap);
+        const fileFetcher = this.createSandboxFileFetcher();
+
+        const fixedFiles = [];
+        for (const { filePath, isNewFile, diff } of fix.diffs) {
+            const existing = allFiles.find(file => file.file_path === filePath);
+            const currentContents = isNewFile
+                ? ''
+                : existing?.file_contents ?? (await fileFetcher(filePath))?.file_contents;
+            if (currentContents === undefined) {
+                throw new Error(`File not found: ${filePath}`);
+            }
+
+            const fixedContents = applyUnifiedDiff(currentContents, diff);
+            if (fixedContents === currentContents || (isNewFile && existing)) {
+                throw new Error(`Fix ${fix.id} no longer applies to ${filePath}, the file changed since the fix was proposed`);
+            }
+
+            fixedFiles.push({
+                file_path: filePath,
+                file_purpose: existing?.file_purpose || '',
+                file_contents: fixedContents
+            });
+        }
+
+        this.takePendingCodeFix(fix.id);
+        this.fileManager.saveGeneratedFiles(fixedFiles);
+        await this.deployToSandbox(fixedFiles);
+        this.logger.info(`Applied proposed code fix ${fix.id} from ${fix.fixer}`);
+
+        return fix;
+    }
+
+    /**
+     * Discard a proposed fix without touching any file
+     */
+    rejectProposedCodeFix(fixId: string): ProposedFix {
+        const fix = this.takePendingCodeFix(fixId);
+        this.logger.info(`Rejected proposed code fix ${fix.id} from ${fix.fixer}`);
+        return fix;
+    }
+
+    private findPendingCodeFix(fixId: string): ProposedFix {
+        const fix = (this.state.pendingCodeFixes || []).find(f => f.id === fixId);
+        if (!fix) {
+            throw new Error(`Proposed fix not found: ${fixId}`);
+        }
+        return fix;
+    }
+
+    /**
+     * Remove a proposed fix from the pending list
+     */
+    private takePendingCodeFix(fixId: string): ProposedFix {
+        const pendingCodeFixes = this.state.pendingCodeFixes || [];
+        const fix = this.findPendingCodeFix(fixId);
+
+        this.setState({
+            ...this.state,
+            pendingCodeFixes: pendingCodeFixes.filter(f => f.id !== fixId)
+        });
+        return fix;
+    }
+
     /**
      * Apply deterministic code fixes for common TypeScript errors
      */
@@ -990,27 +1581,6 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
             this.logger.info(`Attempting to fix ${typeCheckIssues.length} TypeScript issues using deterministic code fixer`);
             const allFiles = FileProcessing.getAllFiles(this.state.templateDetails, this.state.generatedFilesMap);
 
-            // Create file fetcher callback
-            const fileFetcher: FileFetcher = async (filePath: string) => {
-                // Fetch a single file from the instance
-                try {
-                    const result = await this.getSandboxServiceClient().getFiles(this.state.sandboxInstanceId!, [filePath]);
-                    if (result.success && result.files.length > 0) {
-                        this.logger.info(`Successfully fetched file: ${filePath}`);
-                        return {
-                            file_path: filePath,
-                            file_contents: result.files[0].file_contents,
-                            file_purpose: `Fetched file: ${filePath}`
-                        };
-                    } else {
-                        this.logger.debug(`File not found: ${filePath}`);
-                    }
-                } catch (error) {
-                    this.logger.debug(`Failed to fetch file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-                }
-                return null;
-            };
-            
             const fixResult = await fixProjectIssues(
                 allFiles.map(file => ({
                     file_path: file.file_path,
@@ -1018,7 +1588,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                     file_purpose: ''
                 })),
                 typeCheckIssues,
-                fileFetcher
+                this.createSandboxFileFetcher()
             );
 
             this.broadcast(WebSocketMessageResponses.DETERMINISTIC_CODE_FIX_COMPLETED, {
@@ -1067,11 +1637,19 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
             this.fetchRuntimeErrors(false),
             this.runStaticAnalysisCode()
         ]);
-        
+        return this.collectIssues(runtimeErrors, staticAnalysis);
+    }
+
+    /**
+     * Combine issues collected from the sandbox with the errors and results tracked in state
+     */
+    collectIssues(runtimeErrors: RuntimeError[], staticAnalysis: StaticAnalysisResponse): AllIssues {
         const clientErrors = this.state.clientReportedErrors;
-        this.logger.info("Fetched all issues:", JSON.stringify({ runtimeErrors, staticAnalysis, clientErrors }));
+        const testResults = this.state.enableTesting ? this.state.lastTestResults : undefined;
+        const visualRegressions = this.state.visualRegressions || [];
+        this.logger.info("Fetched all issues:", JSON.stringify({ runtimeErrors, staticAnalysis, clientErrors, testResults, visualRegressions }));
         
-        return { runtimeErrors, staticAnalysis, clientErrors };
+        return { runtimeErrors, staticAnalysis, clientErrors, testResults, visualRegressions };
     }
 
     async resetIssues() {
@@ -1079,7 +1657,8 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         await this.getSandboxServiceClient().clearInstanceErrors(this.state.sandboxInstanceId!);
         this.setState({
             ...this.state,
-            clientReportedErrors: []
+            clientReportedErrors: [],
+            visualRegressions: []
         });
     }
 
@@ -1254,23 +1833,34 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
 
     /**
      * Deploy the generated code to Cloudflare Workers
+     * accountId selects one of the owner's linked Cloudflare accounts, null the platform account
+     * and undefined the account the app was last deployed to
      */
-    async deployToCloudflare(): Promise<{ deploymentUrl?: string; workersUrl?: string } | null> {
+    async deployToCloudflare(environment: DeploymentEnvironment = 'production', accountId?: string | null): Promise<{ deploymentUrl?: string; workersUrl?: string; deploymentId?: string; version?: number } | null> {
+        const dbService = new DatabaseService({ DB: this.env.DB });
+        let deployment: schema.AppDeployment | null = null;
         try {
-            this.logger.info('Starting Cloudflare deployment');
+            const exceededQuota = await this.findExceededOwnerQuota(dbService, 'deployment');
+            if (exceededQuota) {
+                this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
+                    message: `Deployment blocked: ${exceededQuota.message}`,
+                    error: exceededQuota.message,
+                });
+                return null;
+            }
+
+            deployment = await dbService.createAppDeployment({ appId: this.state.sessionId, environment });
+            this.logger.info('Starting Cloudflare deployment', { environment, version: deployment.version });
             this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_STARTED, {
-                message: 'Starting deployment to Cloudflare Workers...',
+                message: `Starting ${environment} deployment to Cloudflare Workers...`,
                 instanceId: this.state.sandboxInstanceId,
+                ...this.getDeploymentEventFields(deployment),
             });
 
             // Check if we have generated files
             if (!this.state.generatedFilesMap || Object.keys(this.state.generatedFilesMap).length === 0) {
                 this.logger.error('No generated files available for deployment');
-                this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
-                    message: 'Deployment failed: No generated code available',
-                    error: 'No files have been generated yet'
-                });
-                return null;
+                return await this.failDeployment(dbService, deployment, 'Deployment failed: No generated code available', 'No files have been generated yet');
             }
 
             // Check if we have a sandbox instance ID
@@ -1281,84 +1871,296 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
 
                 if (!this.state.sandboxInstanceId) {
                     this.logger.error('[DeployToCloudflare] Failed to deploy to sandbox service');
-                    this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
-                        message: 'Deployment failed: Failed to deploy to sandbox service',
-                        error: 'Sandbox service unavailable'
-                    });
-                    return null;
+                    return await this.failDeployment(dbService, deployment, 'Deployment failed: Failed to deploy to sandbox service', 'Sandbox service unavailable');
                 }
             }
 
             this.logger.info('[DeployToCloudflare] Prerequisites met, initiating deployment', {
                 sandboxInstanceId: this.state.sandboxInstanceId,
-                fileCount: Object.keys(this.state.generatedFilesMap).length
+                fileCount: Object.keys(this.state.generatedFilesMap).length,
+                environment,
             });
 
-            // Call the actual deployment API endpoint
-            const defaultCredentials = {
-                apiToken: this.env.CLOUDFLARE_API_TOKEN,
-                accountId: this.env.CLOUDFLARE_ACCOUNT_ID
-            }; // TODO: Remove this before production
+            const account = await this.resolveDeploymentAccount(dbService, accountId);
+            const vars = await this.resolveEnvironmentVars(dbService, environment);
+            const archiveKey = `${this.state.sessionId}/${deployment.id}.zip.b64`;
 
-            const deploymentResult = await this.getSandboxServiceClient().deployToCloudflareWorkers(this.state.sandboxInstanceId, defaultCredentials);
+            // Call the actual deployment API endpoint
+            const deploymentResult = await this.getSandboxServiceClient().deployToCloudflareWorkers(
+                this.state.sandboxInstanceId,
+                account.credentials,
+                { environment, vars, archiveKey }
+            );
             this.logger.info('[DeployToCloudflare] Deployment result:', deploymentResult);
             if (!deploymentResult) {
                 this.logger.error('[DeployToCloudflare] Deployment API call failed');
+                return await this.failDeployment(dbService, deployment, 'Deployment failed: API call returned null', 'Deployment service unavailable');
+            }
+
+            return await this.completeDeployment(dbService, deployment, deploymentResult, archiveKey, account.cloudflareAccountId);
+        } catch (error) {
+            if (deployment) {
+                await this.markDeploymentFailed(dbService, deployment, error);
+            }
+            return ErrorHandler.handleOperationError(
+                this.logger,
+                this,
+                'Cloudflare deployment',
+                error,
+                WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR
+            );
+        }
+    }
+
+    /**
+     * Redeploy the bundle of a previous successful deployment to its environment
+     * The rollback is recorded as a new version so the history stays linear
+     */
+    async rollbackDeployment(deploymentId: string): Promise<{ deploymentUrl?: string; deploymentId?: string; version?: number } | null> {
+        const dbService = new DatabaseService({ DB: this.env.DB });
+        let deployment: schema.AppDeployment | null = null;
+        try {
+            const target = await dbService.getAppDeployment(deploymentId);
+            if (!target || target.appId !== this.state.sessionId) {
                 this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
-                    message: 'Deployment failed: API call returned null',
-                    error: 'Deployment service unavailable'
+                    message: 'Rollback failed: Deployment not found',
+                    error: `Deployment ${deploymentId} not found`
                 });
                 return null;
             }
-
-            if (!deploymentResult.success) {
-                this.logger.error('Deployment failed', {
-                    message: deploymentResult.message,
-                    error: deploymentResult.error
-                });
+            if (target.status !== 'deployed' || !target.archiveKey || !target.scriptName) {
                 this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
-                    message: `Deployment failed: ${deploymentResult.message}`,
-                    error: deploymentResult.error || 'Unknown deployment error'
+                    message: 'Rollback failed: Only successful deployments can be restored',
+                    error: `Version ${target.version} has no deployed bundle to restore`,
+                    ...this.getDeploymentEventFields(target),
                 });
                 return null;
             }
 
-            const deploymentUrl = deploymentResult.deployedUrl;
-
-            this.logger.info('[DeployToCloudflare] Cloudflare deployment completed successfully', {
-                deploymentUrl,
-                deploymentId: deploymentResult.deploymentId,
-                sandboxInstanceId: this.state.sandboxInstanceId,
-                message: deploymentResult.message
+            deployment = await dbService.createAppDeployment({
+                appId: this.state.sessionId,
+                environment: target.environment,
+                rollbackOfId: target.id,
             });
-
-            // Update cloudflare URL in database
-            await DatabaseOperations.updateDeploymentUrl(
-                this.env,
-                this.state.sessionId,
-                this.logger,
-                deploymentUrl || ''
-            );
-
-            // Broadcast success message
-            this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_COMPLETED, {
-                message: deploymentResult.message || 'Successfully deployed to Cloudflare Workers!',
-                deploymentUrl
+            this.logger.info('Rolling back Cloudflare deployment', { environment: target.environment, to: target.version, version: deployment.version });
+            this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_STARTED, {
+                message: `Rolling back ${target.environment} to version ${target.version}...`,
+                instanceId: this.state.sandboxInstanceId,
+                rollbackOfVersion: target.version,
+                ...this.getDeploymentEventFields(deployment),
             });
 
-            return { deploymentUrl };
+            // Restore into the account the bundle was deployed to
+            const account = await this.resolveDeploymentAccount(dbService, target.cloudflareAccountId ?? null);
+            const deploymentResult = await redeployArchive({
+                credentials: account.credentials,
+                archiveKey: target.archiveKey,
+                scriptName: target.scriptName,
+                hostname: this.state.hostname,
+                logger: this.logger,
+                vars: await this.resolveEnvironmentVars(dbService, target.environment),
+            });
 
+            return await this.completeDeployment(dbService, deployment, deploymentResult, target.archiveKey, account.cloudflareAccountId, target);
         } catch (error) {
+            if (deployment) {
+                await this.markDeploymentFailed(dbService, deployment, error);
+            }
             return ErrorHandler.handleOperationError(
                 this.logger,
                 this,
-                'Cloudflare deployment',
+                'Cloudflare deployment rollback',
                 error,
                 WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR
             );
         }
     }
 
+    private getDeploymentEventFields(deployment: schema.AppDeployment) {
+        return {
+            environment: deployment.environment,
+            deploymentId: deployment.id,
+            version: deployment.version,
+        };
+    }
+
+    /**
+     * Decrypt the user secrets mapped to variables of an environment
+     * A secret that cannot be read fails the deployment instead of deploying without the variable
+     */
+    private async resolveEnvironmentVars(dbService: DatabaseService, environment: DeploymentEnvironment): Promise<Record<string, string>> {
+        const appEnvironment = await dbService.getAppEnvironment(this.state.sessionId, environment);
+        const envVars = (appEnvironment?.envVars ?? {}) as Record<string, string>;
+        if (Object.keys(envVars).length === 0) {
+            return {};
+        }
+
+        const ownerId = await dbService.getAppOwnerId(this.state.sessionId);
+        if (!ownerId) {
+            throw new Error('Environment variables require an app owner');
+        }
+
+        const secretsService = new SecretsService(dbService, this.env);
+        const vars: Record<string, string> = {};
+        for (const [name, secretId] of Object.entries(envVars)) {
+            try {
+                vars[name] = await secretsService.getSecretValue(ownerId, secretId);
+            } catch {
+                throw new Error(`Secret for environment variable ${name} is missing or inactive`);
+            }
+        }
+        return vars;
+    }
+
+    /**
+     * Resolve the credentials of the Cloudflare account to deploy to
+     * The token of a linked account is checked before every deployment and the outcome stored on the account
+     */
+    private async resolveDeploymentAccount(
+        dbService: DatabaseService,
+        accountId: string | null | undefined
+    ): Promise<{ cloudflareAccountId: string | null; credentials: DeploymentCredentials }> {
+        const app = await dbService.db
+            .select({ userId: schema.apps.userId, cloudflareAccountId: schema.apps.cloudflareAccountId })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, this.state.sessionId))
+            .get();
+
+        const cloudflareAccountId = accountId === undefined ? app?.cloudflareAccountId ?? null : accountId;
+        if (!cloudflareAccountId) {
+            return {
+                cloudflareAccountId: null,
+                credentials: {
+                    apiToken: this.env.CLOUDFLARE_API_TOKEN,
+                    accountId: this.env.CLOUDFLARE_ACCOUNT_ID
+                }
+            };
+        }
+
+        const account = app?.userId ? await dbService.getCloudflareAccount(cloudflareAccountId, app.userId) : null;
+        if (!account) {
+            throw new Error('Cloudflare account not found or not linked by the app owner');
+        }
+        if (!account.apiTokenSecretId) {
+            throw new Error(`The API token of Cloudflare account ${account.name} was deleted, link the account again`);
+        }
+
+        const apiToken = await new SecretsService(dbService, this.env).getSecretValue(app!.userId!, account.apiTokenSecretId);
+        const validation = await new CloudflareClient(apiToken).validateDeploymentAccess(account.accountId);
+        await dbService.updateCloudflareAccount(account.id, {
+            capabilities: validation.capabilities,
+            lastValidated: new Date(),
+            validationStatus: validation.valid ? 'valid' : 'invalid'
+        });
+        if (!validation.valid) {
+            throw new Error(`The API token of Cloudflare account ${account.name} cannot deploy workers: ${validation.error}`);
+        }
+
+        return {
+            cloudflareAccountId: account.id,
+            credentials: { apiToken, accountId: account.accountId }
+        };
+    }
+
+    private async completeDeployment(
+        dbService: DatabaseService,
+        deployment: schema.AppDeployment,
+        deploymentResult: DeploymentResult,
+        archiveKey: string,
+        cloudflareAccountId: string | null,
+        rollbackOf?: schema.AppDeployment
+    ): Promise<{ deploymentUrl?: string; deploymentId?: string; version?: number } | null> {
+        if (!deploymentResult.success) {
+            this.logger.error('Deployment failed', {
+                message: deploymentResult.message,
+                error: deploymentResult.error
+            });
+            return await this.failDeployment(
+                dbService,
+                deployment,
+                `Deployment failed: ${deploymentResult.message}`,
+                deploymentResult.error || 'Unknown deployment error'
+            );
+        }
+
+        const deploymentUrl = deploymentResult.deployedUrl;
+
+        this.logger.info('[DeployToCloudflare] Cloudflare deployment completed successfully', {
+            deploymentUrl,
+            deploymentId: deployment.id,
+            environment: deployment.environment,
+            version: deployment.version,
+            sandboxInstanceId: this.state.sandboxInstanceId,
+            message: deploymentResult.message
+        });
+
+        await dbService.updateAppDeployment(deployment.id, {
+            status: 'deployed',
+            scriptName: deploymentResult.scriptName,
+            deploymentUrl,
+            archiveKey,
+            cloudflareAccountId,
+            completedAt: new Date(),
+        });
+        await dbService.upsertAppEnvironment(this.state.sessionId, deployment.environment, {
+            scriptName: deploymentResult.scriptName,
+            activeDeploymentId: deployment.id,
+        });
+
+        // The app remembers the account for later deployments, its public URL always points at production
+        await DatabaseOperations.updateApp(this.env, this.state.sessionId, this.logger, {
+            cloudflareAccountId,
+            ...(deployment.environment === 'production' && {
+                deploymentUrl: deploymentUrl || '',
+                deploymentStatus: 'deployed',
+                status: 'deployed' as const,
+            }),
+        });
+
+        // Broadcast success message
+        this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_COMPLETED, {
+            message: rollbackOf
+                ? `Rolled back ${deployment.environment} to version ${rollbackOf.version}`
+                : deploymentResult.message || 'Successfully deployed to Cloudflare Workers!',
+            deploymentUrl,
+            rollbackOfVersion: rollbackOf?.version,
+            ...this.getDeploymentEventFields(deployment),
+        });
+
+        return { deploymentUrl, deploymentId: deployment.id, version: deployment.version };
+    }
+
+    /**
+     * Quota of the app owner the action would exceed, null when it may proceed
+     * Anonymous apps are counted against the key of the client that started them
+     */
+    private async findExceededOwnerQuota(dbService: DatabaseService, action: QuotaAction): Promise<QuotaExceededError | null> {
+        const owner = await dbService.getAppQuotaOwner(this.state.sessionId);
+        return owner ? new QuotaService(dbService).findExceededQuota(owner, action) : null;
+    }
+
+    private async failDeployment(dbService: DatabaseService, deployment: schema.AppDeployment, message: string, error: string): Promise<null> {
+        await this.markDeploymentFailed(dbService, deployment, error);
+        this.broadcast(WebSocketMessageResponses.CLOUDFLARE_DEPLOYMENT_ERROR, {
+            message,
+            error,
+            ...this.getDeploymentEventFields(deployment),
+        });
+        return null;
+    }
+
+    private async markDeploymentFailed(dbService: DatabaseService, deployment: schema.AppDeployment, error: unknown): Promise<void> {
+        try {
+            await dbService.updateAppDeployment(deployment.id, {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+                completedAt: new Date(),
+            });
+        } catch (updateError) {
+            this.logger.error('Failed to record deployment failure', updateError);
+        }
+    }
+
     async analyzeScreenshot(): Promise<ScreenshotAnalysisType | null> {
         const screenshotData = this.state.latestScreenshot;
         if (!screenshotData) {
@@ -1373,13 +2175,156 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 env: this.env,
                 agentId: this.state.sessionId,
                 context,
-                logger: this.logger
+                logger: this.logger,
+                inferenceContext: await this.getInferenceContext(),
             }
         );
 
         return result || null;
     }
 
+    /**
+     * Run the visual checks of a phase in the background, screenshots take long enough to stall every phase otherwise
+     * Checks run one after another so each one compares against the checks of the phases before it.
+     * A check still queued when a later phase completes is skipped, the preview already shows that later phase.
+     */
+    private scheduleVisualChecks(phase: PhaseConceptType): void {
+        const previous = this.visualChecksPromise ?? Promise.resolve();
+        this.latestVisualCheckPhase = phase.name;
+        const current = previous.then(async () => {
+            if (this.latestVisualCheckPhase !== phase.name) {
+                this.logger.info(`Skipping visual checks of phase ${phase.name}, a later phase was completed`);
+                return;
+            }
+            await this.runVisualChecks(phase);
+        }).catch(error => {
+            this.logger.error(`Visual checks failed for phase: ${phase.name}`, error);
+        }).finally(() => {
+            if (this.visualChecksPromise === current) {
+                this.visualChecksPromise = null;
+            }
+        });
+        this.visualChecksPromise = current;
+        this.ctx.waitUntil(current);
+    }
+
+    /**
+     * Screenshot the preview at every viewport after a phase deploy and analyze each screenshot
+     * Each viewport is compared with its last regression-free screenshot from an earlier phase,
+     * regressions are kept as issues for the next phase or review cycle to fix
+     */
+    async runVisualChecks(phase: PhaseConceptType): Promise<PhaseVisualCheck | null> {
+        const url = this.state.previewURL;
+        if (!url) {
+            this.logger.warn('No preview deployed, skipping visual checks');
+            return null;
+        }
+
+        this.broadcast(WebSocketMessageResponses.VISUAL_CHECK_STARTED, {
+            message: `Checking the preview at ${Object.keys(VIEWPORTS).join(', ')} viewports`,
+            phaseName: phase.name
+        });
+
+        const previousChecks = this.state.visualChecks || [];
+        const checkId = `${previousChecks.length}-${Date.now().toString(36)}`;
+        const client = new CloudflareClient(this.env.CLOUDFLARE_API_TOKEN);
+        const context = GenerationContext.from(this.state, this.logger);
+        const inferenceContext = await this.getInferenceContext();
+
+        const screenshots: ViewportScreenshot[] = [];
+        // Viewports are rendered one at a time, Browser Rendering limits concurrent sessions per account
+        for (const [viewport, size] of Object.entries(VIEWPORTS) as [ViewportName, { width: number; height: number }][]) {
+            const screenshotKey = VisualChecks.screenshotKey(this.state.sessionId, checkId, viewport);
+            try {
+                const image = await client.captureScreenshot(this.env.CLOUDFLARE_ACCOUNT_ID, url, size);
+                await this.env.SCREENSHOTS.put(screenshotKey, image, {
+                    httpMetadata: { contentType: 'image/png' }
+                });
+                const screenshotData: ScreenshotData = {
+                    url,
+                    timestamp: Date.now(),
+                    viewport: size,
+                    userAgent: 'Cloudflare Browser Rendering',
+                    screenshot: VisualChecks.toDataUrl(image)
+                };
+
+                const baseline = VisualChecks.findBaseline(previousChecks, viewport);
+                const previousScreenshot = baseline ? await this.loadVisualCheckScreenshot(baseline, viewport) : null;
+                const baselinePhase = previousScreenshot ? baseline?.phaseName : undefined;
+
+                const analysis = await this.operations.analyzeScreenshot.execute(
+                    {
+                        screenshotData,
+                        previousScreenshot: previousScreenshot && baselinePhase
+                            ? { screenshotData: previousScreenshot, phaseName: baselinePhase }
+                            : undefined
+                    },
+                    {
+                        env: this.env,
+                        agentId: this.state.sessionId,
+                        context,
+                        logger: this.logger,
+                        inferenceContext,
+                    }
+                );
+                screenshots.push({ viewport, ...size, screenshotKey, baselinePhase, analysis });
+            } catch (error) {
+                this.logger.warn(`Visual check failed for ${viewport} viewport`, error);
+                screenshots.push({ viewport, ...size, screenshotKey, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        const check: PhaseVisualCheck = {
+            id: checkId,
+            phaseName: phase.name,
+            url,
+            createdAt: Date.now(),
+            screenshots
+        };
+        const regressions = VisualChecks.collectRegressions(check);
+
+        const visualChecks = [...previousChecks, check];
+        const droppedChecks = visualChecks.slice(0, -MAX_VISUAL_CHECKS);
+        if (droppedChecks.length > 0) {
+            await this.env.SCREENSHOTS.delete(droppedChecks.flatMap(c => c.screenshots.map(s => s.screenshotKey)));
+        }
+
+        this.setState({
+            ...this.state,
+            visualChecks: visualChecks.slice(-MAX_VISUAL_CHECKS),
+            visualRegressions: regressions
+        });
+
+        const failedViewports = screenshots.filter(s => s.error).length;
+        this.broadcast(WebSocketMessageResponses.VISUAL_CHECK_COMPLETED, {
+            message: regressions.length > 0
+                ? `Found ${regressions.length} layout regressions after phase ${phase.name}`
+                : `No layout regressions after phase ${phase.name}${failedViewports > 0 ? `, ${failedViewports} viewports could not be checked` : ''}`,
+            check,
+            regressions
+        });
+        return check;
+    }
+
+    /**
+     * Load a stored viewport screenshot of an earlier check for comparison
+     */
+    private async loadVisualCheckScreenshot(check: PhaseVisualCheck, viewport: ViewportName): Promise<ScreenshotData | null> {
+        const screenshot = check.screenshots.find(s => s.viewport === viewport);
+        const object = screenshot ? await this.env.SCREENSHOTS.get(screenshot.screenshotKey) : null;
+        if (!screenshot || !object) {
+            this.logger.warn(`Stored ${viewport} screenshot of phase ${check.phaseName} not found`);
+            return null;
+        }
+        return {
+            url: check.url,
+            timestamp: check.createdAt,
+            viewport: { width: screenshot.width, height: screenshot.height },
+            userAgent: 'Cloudflare Browser Rendering',
+            screenshot: VisualChecks.toDataUrl(await object.arrayBuffer())
+        };
+    }
+
     async waitForGeneration(): Promise<void> {
         if (this.state.generationPromise) {
             try {
@@ -1393,15 +2338,97 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         }
     }
 
-    async getNextAction(): Promise<AgentActionType> {
-        return { action: 'No action', data: {} };
+    /**
+     * Ask the orchestration model for the next builder loop action
+     * based on the action history and the current issues, fetched from the sandbox unless given
+     */
+    async getNextAction(history: ActionHistoryEntry[] = [], remainingSteps: number = 1, currentIssues?: AllIssues): Promise<AgentActionType> {
+        const context = GenerationContext.from(this.state, this.logger);
+        const issues = IssueReport.from(currentIssues ?? await this.fetchAllIssues());
+
+        return this.operations.selectNextAction.execute(
+            {
+                issues,
+                history,
+                currentPhase: this.state.currentPhase,
+                pendingUserInputs: this.state.pendingUserInputs,
+                remainingSteps,
+            },
+            {
+                env: this.env,
+                agentId: this.state.sessionId,
+                logger: this.logger,
+                context,
+                inferenceContext: await this.getInferenceContext(),
+            }
+        );
     }
 
-    async executeAction(action: AgentActionType) {
+    async executeAction(action: AgentActionType): Promise<ActionResult> {
         this.logger.info(`Executing action: ${action.action}`);
         return await executeAction(this, action);
     }
 
+    /**
+     * Tag connections the worker authenticated with an API key with the key's scopes
+     * Tags are attached when the socket is accepted, before any message can arrive
+     */
+    getConnectionTags(_connection: Connection, ctx: ConnectionContext): string[] {
+        const scopes = ctx.request.headers.get(API_KEY_SCOPES_HEADER);
+        if (scopes === null) {
+            return [];
+        }
+        return [API_KEY_CONNECTION_TAG, ...scopes.split(',').filter(Boolean).map(scope => `scope:${scope}`)];
+    }
+
+    /**
+     * Whether a connection may make requests that need the scope, session connections are not limited
+     */
+    connectionHasScope(connection: Connection, scope: ApiKeyScope): boolean {
+        return !this.connectionHasTag(connection, API_KEY_CONNECTION_TAG) || this.connectionHasTag(connection, `scope:${scope}`);
+    }
+
+    /**
+     * User a connection's GitHub requests act as
+     * API key connections can only reach their owner's apps, so they act as the app owner instead of a client supplied user
+     */
+    async resolveConnectionUserId(connection: Connection, requestedUserId?: string): Promise<string | undefined> {
+        if (!this.connectionHasTag(connection, API_KEY_CONNECTION_TAG)) {
+            return requestedUserId;
+        }
+        const dbService = new DatabaseService({ DB: this.env.DB });
+        const app = await dbService.db
+            .select({ userId: schema.apps.userId })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, this.state.sessionId))
+            .get();
+        return app?.userId ?? undefined;
+    }
+
+    async onStart(): Promise<void> {
+        this.stateGuard.accept(this.state, 'server');
+    }
+
+    /**
+     * Keep client state updates from connections that may not write the state
+     * The SDK persists and broadcasts client updates before calling this, so rejected ones are reverted.
+     */
+    onStateUpdate(state: CodeGenState, source: Connection | 'server'): void {
+        if (this.stateGuard.accept(state, source) || source === 'server') {
+            return;
+        }
+        this.logger.warn(`Rejected state update from API key connection ${source.id}`);
+        sendError(source, 'API key connections cannot change the agent state directly');
+        const acceptedState = this.stateGuard.acceptedState;
+        if (acceptedState) {
+            this.setState(acceptedState);
+        }
+    }
+
+    private connectionHasTag(connection: Connection, tag: string): boolean {
+        return Array.from(this.getConnections(tag)).some(c => c.id === connection.id);
+    }
+
     async onMessage(connection: Connection, message: string): Promise<void> {
         handleWebSocketMessage(this, connection, message);
     }
@@ -1620,7 +2647,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                         this.logger.error(`This should never happen, while executing commands ${currentChunk.join(", ")}, response: ${JSON.stringify(resp)}`);
                     }
                     // Use AI to regenerate failed commands
-                    const newCommands = await this.getProjectSetupAssistant().generateSetupCommands(
+                    const newCommands = await (await this.getProjectSetupAssistant()).generateSetupCommands(
                         `The following failures were reported: ${failures.length > 0 ? JSON.stringify(failures, null, 2) :  currentChunk.join(", ")}. The following commands were successful: ${successful.map(r => r.command).join(", ")}`
                     );
                     if (newCommands?.commands) {
@@ -1692,6 +2719,17 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 );
             }
 
+            const exceededQuota = await this.findExceededOwnerQuota(new DatabaseService({ DB: this.env.DB }), 'export');
+            if (exceededQuota) {
+                return ErrorHandler.handleGitHubExportError(this.logger, this, 'Export blocked by plan limits', exceededQuota.message);
+            }
+
+            // Repositories the app is already linked to get incremental commits instead of a new repository
+            const githubSync = this.state.githubSync;
+            if (githubSync && githubSync.repository.split('/')[1]?.toLowerCase() === options.repositoryName.toLowerCase()) {
+                return await this.pushPhaseCommits(options, githubSync);
+            }
+
             // Check if we have a sandbox instance
             if (!ErrorHandler.validateRunnerInstance(
                 this.state.sandboxInstanceId,
@@ -1793,6 +2831,12 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                 repositoryUrl || ''
             );
 
+            await this.linkGitHubRepository(
+                githubIntegration.accessToken,
+                { owner: githubIntegration.username, repo: options.repositoryName },
+                'main'
+            );
+
             // Broadcast success
             this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_COMPLETED, {
                 message: `Successfully exported to GitHub repository: ${repositoryUrl}`,
@@ -1812,6 +2856,410 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         }
     }
 
+    /**
+     * Start a session from the files of a GitHub repository instead of a generated blueprint phase
+     * The imported code becomes a single completed phase, so generation continues from the inferred roadmap
+     */
+    async importRepository(
+        query: string,
+        blueprint: Blueprint,
+        templateDetails: TemplateDetails,
+        sessionId: string,
+        hostname: string,
+        agentMode: 'deterministic' | 'smart',
+        files: FileOutputType[],
+        githubSync: GitHubSyncState
+    ): Promise<void> {
+        this.logger.setFields({
+            sessionId,
+            repository: githubSync.repository,
+        });
+
+        this.logger.info('Importing GitHub repository', {
+            branch: githubSync.branch,
+            commitSha: githubSync.lastSyncedSha,
+            fileCount: files.length,
+            templateName: templateDetails.name
+        });
+
+        const packageJsonFile = files.find(file => file.file_path === 'package.json')
+            || templateDetails.files.find(file => file.file_path === 'package.json');
+        const importedPhase: PhaseState = {
+            name: 'Imported from GitHub',
+            description: `Existing code of ${githubSync.repository} on branch ${githubSync.branch}`,
+            files: files.map(file => ({ path: file.file_path, purpose: file.file_purpose, changes: null })),
+            lastPhase: false,
+            completed: true,
+        };
+
+        this.setState({
+            ...this.initialState,
+            query,
+            blueprint,
+            templateDetails,
+            generatedFilesMap: Object.fromEntries(files.map(file => [file.file_path, {
+                ...file,
+                last_hash: '',
+                last_modified: Date.now(),
+                unmerged: []
+            }])),
+            generatedPhases: [importedPhase],
+            enableFileEnhancement: true,
+            commandsHistory: [],
+            lastPackageJson: packageJsonFile?.file_contents || '',
+            sessionId,
+            hostname,
+            agentMode,
+            githubSync: {
+                ...githubSync,
+                pushedPhases: [importedPhase.name]
+            },
+        });
+
+        this.sandboxServiceClient = this.getSandboxServiceClient();
+
+        this.logger = createObjectLogger(this, 'CodeGeneratorAgent');
+        this.logger.setObjectId(sessionId);
+        // The repository's own package.json is deployed, so installing it is all the setup needed
+        this.deployToSandbox().then(() => this.executeCommands(['bun install'])).catch(error => {
+            this.logger.error("Error during deployment of imported repository:", error);
+            this.broadcast(WebSocketMessageResponses.ERROR, {
+                error: `Error during deployment: ${error instanceof Error ? error.message : String(error)}`
+            });
+        });
+
+        this.logger.info("Repository imported successfully");
+    }
+
+    /**
+     * Merge the commits made on GitHub since the last sync into the app
+     * Files changed on both sides are kept as they are, with the remote version stored as unmerged
+     */
+    async pullFromGithub(userId?: string): Promise<void> {
+        const githubSync = this.state.githubSync;
+        if (!githubSync) {
+            this.broadcast(WebSocketMessageResponses.GITHUB_PULL_ERROR, {
+                message: 'GitHub pull failed',
+                error: 'This app is not linked to a GitHub repository'
+            });
+            return;
+        }
+
+        if (this.isGenerating) {
+            this.broadcast(WebSocketMessageResponses.GITHUB_PULL_ERROR, {
+                message: 'GitHub pull failed',
+                error: 'Cannot pull while code generation is in progress'
+            });
+            return;
+        }
+
+        const githubIntegration = await this.getGitHubIntegration(userId);
+        const repository = GitHubClient.parseRepository(githubSync.repository);
+        if (!githubIntegration || !repository) {
+            this.broadcast(WebSocketMessageResponses.GITHUB_PULL_ERROR, {
+                message: 'GitHub pull failed',
+                error: !githubIntegration ? 'User must connect GitHub account first' : `Invalid repository: ${githubSync.repository}`
+            });
+            return;
+        }
+
+        try {
+            this.broadcast(WebSocketMessageResponses.GITHUB_PULL_STARTED, {
+                message: `Pulling changes from ${githubSync.repository}`,
+                repository: githubSync.repository,
+                branch: githubSync.branch
+            });
+
+            const client = new GitHubClient(githubIntegration.accessToken);
+            const headSha = await client.getBranchHeadSha(repository, githubSync.branch);
+            if (headSha === githubSync.lastSyncedSha) {
+                this.broadcast(WebSocketMessageResponses.GITHUB_PULL_COMPLETED, {
+                    message: 'Already up to date with GitHub',
+                    commitSha: headSha,
+                    upToDate: true,
+                    applied: [],
+                    conflicts: [],
+                    files: []
+                });
+                return;
+            }
+
+            const tree = await client.getTree(repository, headSha);
+            const remoteShas = Object.fromEntries(tree.map(entry => [entry.path, entry.sha]));
+            const localShas: Record<string, string> = {};
+            for (const file of this.fileManager.getAllFiles()) {
+                localShas[file.file_path] = await computeGitBlobSha(file.file_contents);
+            }
+
+            const { changes, conflicts, baseShas } = GitHubSync.classifyChanges(githubSync.baseShas, localShas, remoteShas);
+            this.logger.info('Classified remote changes', { headSha, changes: changes.length, conflicts: conflicts.length });
+
+            // Fetch the remote side of content conflicts too, so it can be shown next to the local version
+            const fetchPaths = new Set([
+                ...changes.filter(change => change.action !== 'delete').map(change => change.path),
+                ...conflicts.filter(conflict => conflict.reason === 'modified_both').map(conflict => conflict.path),
+            ]);
+            const remoteFiles = await client.getFiles(repository, tree.filter(entry => fetchPaths.has(entry.path)), headSha);
+            const remoteContents = new Map(remoteFiles.map(file => [file.path, file.contents]));
+
+            const updatedFiles: FileOutputType[] = changes
+                .filter(change => change.action !== 'delete')
+                .map(change => ({
+                    file_path: change.path,
+                    file_contents: remoteContents.get(change.path) || '',
+                    file_purpose: this.state.generatedFilesMap[change.path]?.file_purpose || `Pulled from ${githubSync.repository}`
+                }));
+            const deletedPaths = changes.filter(change => change.action === 'delete').map(change => change.path);
+
+            this.fileManager.saveGeneratedFiles(updatedFiles);
+
+            // Template files can't be removed from the state, only the generated ones they were overridden with
+            const generatedFilesMap = { ...this.state.generatedFilesMap };
+            for (const path of deletedPaths) {
+                delete generatedFilesMap[path];
+            }
+            for (const conflict of conflicts) {
+                const file = generatedFilesMap[conflict.path];
+                const contents = remoteContents.get(conflict.path);
+                if (file && contents !== undefined) {
+                    generatedFilesMap[conflict.path] = { ...file, unmerged: [contents] };
+                }
+            }
+
+            const packageJson = updatedFiles.find(file => file.file_path === 'package.json');
+            this.setState({
+                ...this.state,
+                generatedFilesMap,
+                lastPackageJson: packageJson ? packageJson.file_contents : this.state.lastPackageJson,
+                githubSync: {
+                    ...githubSync,
+                    lastSyncedSha: headSha,
+                    baseShas,
+                    lastSyncedAt: Date.now()
+                }
+            });
+
+            if (updatedFiles.length > 0) {
+                await this.deployToSandbox(updatedFiles);
+            }
+            if (deletedPaths.length > 0 && this.state.sandboxInstanceId) {
+                await this.getSandboxServiceClient().executeCommands(this.state.sandboxInstanceId, [
+                    `rm -f ${deletedPaths.map(path => `'${path.replace(/'/g, `'\\''`)}'`).join(' ')}`
+                ]);
+            }
+            if (packageJson) {
+                await this.executeCommands(['bun install']);
+            }
+
+            this.broadcast(WebSocketMessageResponses.GITHUB_PULL_COMPLETED, {
+                message: conflicts.length > 0
+                    ? `Pulled ${changes.length} changes from GitHub, ${conflicts.length} files have conflicts`
+                    : `Pulled ${changes.length} changes from GitHub`,
+                commitSha: headSha,
+                upToDate: false,
+                applied: changes,
+                conflicts,
+                files: updatedFiles
+            });
+        } catch (error) {
+            this.logger.error('GitHub pull failed', error);
+            this.broadcast(WebSocketMessageResponses.GITHUB_PULL_ERROR, {
+                message: 'GitHub pull failed',
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    /**
+     * Push the phases completed since the last export to the linked repository, one commit per phase
+     * Only files whose contents differ from their last pushed version are committed.
+     */
+    private async pushPhaseCommits(options: GitHubExportOptions, githubSync: GitHubSyncState): Promise<GitHubExportResult> {
+        const githubIntegration = await this.getGitHubIntegration(options.userId);
+        const repository = GitHubClient.parseRepository(githubSync.repository);
+        if (!githubIntegration || !repository) {
+            return ErrorHandler.handleGitHubExportError(
+                this.logger,
+                this,
+                'GitHub integration not found',
+                !githubIntegration ? 'User must connect GitHub account first' : `Invalid repository: ${githubSync.repository}`
+            );
+        }
+
+        const repositoryUrl = `https://github.com/${githubSync.repository}`;
+        const client = new GitHubClient(githubIntegration.accessToken);
+
+        this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_STARTED, {
+            message: `Pushing changes to ${githubSync.repository}`,
+            repositoryName: options.repositoryName,
+            isPrivate: options.isPrivate
+        });
+
+        const headSha = await client.getBranchHeadSha(repository, githubSync.branch);
+        if (!options.pullRequest && headSha !== githubSync.lastSyncedSha) {
+            return ErrorHandler.handleGitHubExportError(
+                this.logger,
+                this,
+                'Repository has new commits',
+                `${githubSync.branch} has commits that are not in this app yet. Pull them first or push as a pull request.`
+            );
+        }
+
+        this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_PROGRESS, {
+            message: 'Committing completed phases...',
+            step: 'uploading_files',
+            progress: 30
+        });
+
+        // Last pushed version of each file, falling back to the synced commit for files saved since
+        const pushedShas: Record<string, string> = { ...githubSync.baseShas };
+        for (const [path, file] of Object.entries(this.state.generatedFilesMap)) {
+            if (file.last_hash) {
+                pushedShas[path] = file.last_hash;
+            }
+        }
+
+        const plannedCommits = GitHubSync.planPhaseCommits(
+            this.state.generatedPhases,
+            githubSync.pushedPhases || [],
+            this.state.phaseSnapshots || []
+        );
+
+        let parentSha = headSha;
+        const commitMessages: string[] = [];
+        for (const planned of plannedCommits) {
+            const changedFiles: GitHubCommitFile[] = [];
+            const changedShas: Record<string, string> = {};
+            if (planned.snapshot) {
+                // Snapshot hashes are blob shas, so only the changed files are loaded from storage
+                const { fileHashes } = planned.snapshot;
+                const paths = Object.keys(fileHashes).filter(path => pushedShas[path] !== fileHashes[path]);
+                for (const file of Object.values(this.loadSnapshotFiles(planned.snapshot, paths))) {
+                    changedFiles.push({ path: file.file_path, contents: file.file_contents });
+                    changedShas[file.file_path] = fileHashes[file.file_path];
+                }
+            } else {
+                for (const file of Object.values(this.state.generatedFilesMap)) {
+                    const sha = await computeGitBlobSha(file.file_contents);
+                    if (pushedShas[file.file_path] !== sha) {
+                        changedFiles.push({ path: file.file_path, contents: file.file_contents });
+                        changedShas[file.file_path] = sha;
+                    }
+                }
+            }
+            if (changedFiles.length === 0) {
+                continue;
+            }
+
+            const { commitSha } = await client.createCommit(repository, parentSha, planned.message, changedFiles);
+            this.logger.info('Created commit', { commitSha, phaseName: planned.phaseName, fileCount: changedFiles.length });
+            Object.assign(pushedShas, changedShas);
+            parentSha = commitSha;
+            commitMessages.push(planned.message.split('\n')[0]);
+        }
+
+        if (commitMessages.length === 0) {
+            this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_COMPLETED, {
+                message: `${githubSync.repository} is already up to date`,
+                repositoryUrl
+            });
+            return { success: true, repositoryUrl, commitCount: 0 };
+        }
+
+        this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_PROGRESS, {
+            message: options.pullRequest ? 'Opening pull request...' : `Updating ${githubSync.branch}...`,
+            step: 'finalizing',
+            progress: 80
+        });
+
+        const completedPhases = this.state.generatedPhases.filter(phase => phase.completed).map(phase => phase.name);
+        let pullRequestUrl: string | undefined;
+        if (options.pullRequest) {
+            const branch = `orange-build/${Date.now().toString(36)}`;
+            await client.createBranch(repository, branch, parentSha);
+            const pullRequest = await client.createPullRequest(repository, {
+                title: `Update ${this.state.blueprint?.title || 'generated application'}`,
+                body: commitMessages.map(message => `- ${message}`).join('\n'),
+                head: branch,
+                base: githubSync.branch
+            });
+            pullRequestUrl = pullRequest.url;
+
+            // Until the pull request is merged the base branch is unchanged, so its pushed files and phases stay as they were
+            this.setState({
+                ...this.state,
+                githubSync: {
+                    ...githubSync,
+                    pullRequest: {
+                        url: pullRequest.url,
+                        branch,
+                        headSha: parentSha,
+                        pushedPhases: completedPhases,
+                        createdAt: Date.now()
+                    }
+                }
+            });
+        } else {
+            await client.updateBranch(repository, githubSync.branch, parentSha);
+
+            // The last planned commit covers the current files, so all of them are now pushed
+            const generatedFilesMap = Object.fromEntries(Object.entries(this.state.generatedFilesMap).map(([path, file]) => [
+                path,
+                { ...file, last_hash: pushedShas[path] || file.last_hash }
+            ]));
+            this.setState({
+                ...this.state,
+                generatedFilesMap,
+                githubSync: {
+                    ...githubSync,
+                    pushedPhases: completedPhases,
+                    lastSyncedSha: parentSha,
+                    baseShas: pushedShas,
+                    lastSyncedAt: Date.now()
+                }
+            });
+        }
+
+        await DatabaseOperations.updateGitHubRepository(this.env, this.state.sessionId || '', this.logger, repositoryUrl);
+
+        this.broadcast(WebSocketMessageResponses.GITHUB_EXPORT_COMPLETED, {
+            message: pullRequestUrl
+                ? `Opened pull request with ${commitMessages.length} commits: ${pullRequestUrl}`
+                : `Pushed ${commitMessages.length} commits to ${githubSync.repository}`,
+            repositoryUrl,
+            pullRequestUrl
+        });
+
+        this.logger.info('GitHub push completed successfully', { repositoryUrl, pullRequestUrl, commitCount: commitMessages.length });
+        return { success: true, repositoryUrl, pullRequestUrl, commitCount: commitMessages.length };
+    }
+
+    /**
+     * Remember the commit an export pushed, so later pulls only merge what changed on GitHub since then
+     * and later exports only commit the phases completed since
+     */
+    private async linkGitHubRepository(accessToken: string, repository: GitHubRepositoryRef, branch: string): Promise<void> {
+        try {
+            const client = new GitHubClient(accessToken);
+            const headSha = await client.getBranchHeadSha(repository, branch);
+            const tree = await client.getTree(repository, headSha);
+            this.setState({
+                ...this.state,
+                githubSync: {
+                    repository: `${repository.owner}/${repository.repo}`,
+                    branch,
+                    lastSyncedSha: headSha,
+                    baseShas: Object.fromEntries(tree.map(entry => [entry.path, entry.sha])),
+                    lastSyncedAt: Date.now(),
+                    pushedPhases: this.state.generatedPhases.filter(phase => phase.completed).map(phase => phase.name)
+                }
+            });
+        } catch (error) {
+            // The export itself succeeded, pulls just stay unavailable
+            this.logger.warn('Failed to link exported GitHub repository for pulls', error);
+        }
+    }
+
     /**
      * Get GitHub integration data for a user
      */
@@ -1930,7 +3378,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                         });
                     }
                 }, 
-                { env: this.env, agentId: this.state.sessionId, context, logger: this.logger}
+                { env: this.env, agentId: this.state.sessionId, context, logger: this.logger, mcpManager: await this.getMCPManager(), inferenceContext: await this.getInferenceContext() }
             );
 
             const { conversationResponse, newMessages } = conversationalResponse;
@@ -1978,7 +3426,7 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
         }
     }
 
-    private async updateDatabase(data: {
+    protected async updateDatabase(data: {
         status?: 'completed' | 'failed' | 'in_progress' | 'deployed';
         deploymentUrl?: string;
         [key: string]: unknown;
@@ -2002,6 +3450,10 @@ export class SimpleCodeGeneratorAgent extends Agent<Env, CodeGenState> {
                     generatedFiles: generatedFiles,
                     // deploymentUrl: state.previewURL
                 });
+            } else if (data.status === 'failed') {
+                await DatabaseOperations.updateApp(this.env, this.state.sessionId, this.logger, {
+                    status: 'error'
+                });
             } else if (data.deploymentUrl) {
                 await DatabaseOperations.updateDeploymentUrl(
                     this.env,
@@ -1,6 +1,13 @@
 import { SimpleCodeGeneratorAgent } from "./simpleGeneratorAgent";
 import { Blueprint } from '../schemas';
-import { TemplateDetails } from '../../services/sandbox/sandboxTypes';
+import { RuntimeError, StaticAnalysisResponse, TemplateDetails } from '../../services/sandbox/sandboxTypes';
+import { WebSocketMessageResponses } from '../constants';
+import { ActionHistoryEntry } from './types';
+
+/**
+ * Maximum number of actions the builder loop may take in a single run
+ */
+const MAX_BUILDER_STEPS = 50;
 
 /**
  * SmartCodeGeneratorAgent - Smartly orchestrated AI-powered code generation
@@ -24,7 +31,9 @@ export class SmartCodeGeneratorAgent extends SimpleCodeGeneratorAgent {
         templateDetails: TemplateDetails,
         sessionId: string,
         hostname: string,
-        agentMode: 'deterministic' | 'smart'
+        agentMode: 'deterministic' | 'smart',
+        enableTesting: boolean = false,
+        reviewBlueprint: boolean = false
     ): Promise<void> {
         this.logger.setFields({
             sessionId,
@@ -36,11 +45,19 @@ export class SmartCodeGeneratorAgent extends SimpleCodeGeneratorAgent {
             queryLength: query.length,
             blueprintPhases: blueprint.implementationRoadmap?.length || 0,
             templateName: templateDetails?.name,
-            agentType: agentMode
+            agentType: agentMode,
+            enableTesting,
+            reviewBlueprint
         });
 
         // Call the parent initialization
         await super.initialize(query, blueprint, templateDetails, sessionId, hostname);
+        this.setState({
+            ...this.state,
+            agentMode,
+            enableTesting,
+            awaitingBlueprintApproval: reviewBlueprint
+        });
         
         this.logger.info("🚀 Smart Agent initialized successfully with AI orchestration capabilities");
     }
@@ -48,12 +65,98 @@ export class SmartCodeGeneratorAgent extends SimpleCodeGeneratorAgent {
     async generateAllFiles(reviewCycles: number = 10): Promise<void> {
         if (this.state.agentMode === 'deterministic') {
             return super.generateAllFiles(reviewCycles);
+        } else if (this.state.awaitingBlueprintApproval) {
+            this.logger.info("Blueprint awaits approval, not starting generation");
         } else {
             return this.builderLoop();
         }
     }
 
-    async builderLoop() {
-        // TODO
+    /**
+     * Tool-driven generation loop - the orchestration model picks the next action
+     * at every step until it finishes or the step budget is exhausted
+     */
+    async builderLoop(maxSteps: number = MAX_BUILDER_STEPS): Promise<void> {
+        if (this.isGenerating) {
+            this.logger.info("Code generation already in progress");
+            return;
+        }
+
+        this.broadcast(WebSocketMessageResponses.GENERATION_STARTED, {
+            message: 'Starting code generation',
+            totalFiles: this.getTotalFiles()
+        });
+
+        this.isGenerating = true;
+
+        // Seed the initial phase from the blueprint so it can be implemented right away
+        if (this.state.generatedPhases.length === 0) {
+            const initialPhase = this.state.blueprint.initialPhase;
+            this.setState({
+                ...this.state,
+                currentPhase: initialPhase,
+                generatedPhases: [{...initialPhase, completed: false}]
+            });
+        }
+
+        const history: ActionHistoryEntry[] = [];
+        // Issues collected by earlier actions, only refetched from the sandbox once code changes
+        let runtimeErrors: RuntimeError[] | undefined;
+        let staticAnalysis: StaticAnalysisResponse | undefined;
+        let failed = false;
+
+        try {
+            for (let step = 1; step <= maxSteps; step++) {
+                // STOP_GENERATION clears isGenerating, honour it between steps
+                if (!this.isGenerating) {
+                    this.logger.info("Builder loop stopped by user");
+                    break;
+                }
+
+                [runtimeErrors, staticAnalysis] = await Promise.all([
+                    runtimeErrors ?? this.fetchRuntimeErrors(false),
+                    staticAnalysis ?? this.runStaticAnalysisCode()
+                ]);
+                const issues = this.collectIssues(runtimeErrors, staticAnalysis);
+
+                const action = await this.getNextAction(history, maxSteps - step + 1, issues);
+                this.logger.info(`[builderLoop] Step ${step}/${maxSteps}: ${action.action}`, { reasoning: action.reasoning });
+
+                const result = await this.executeAction(action);
+                history.push({ step, action: action.action, data: action.data, done: result.done, observation: result.observation });
+
+                if (result.codeChanged) {
+                    runtimeErrors = undefined;
+                    staticAnalysis = undefined;
+                }
+                runtimeErrors = result.runtimeErrors ?? runtimeErrors;
+                staticAnalysis = result.staticAnalysis ?? staticAnalysis;
+
+                if (result.done) {
+                    this.logger.info(`Builder loop completed in ${step} steps`);
+                    break;
+                }
+
+                if (step === maxSteps) {
+                    this.logger.warn(`Builder loop exhausted its budget of ${maxSteps} steps`);
+                }
+            }
+        } catch (error) {
+            failed = true;
+            this.logger.error("Error in builder loop:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.broadcast(WebSocketMessageResponses.ERROR, {
+                error: `Error during generation: ${errorMessage}`
+            });
+        } finally {
+            this.isGenerating = false;
+
+            await this.updateDatabase({ status: failed ? 'failed' : 'completed' });
+
+            this.broadcast(WebSocketMessageResponses.GENERATION_COMPLETE, {
+                message: "Code generation and review process completed.",
+                instanceId: this.state.sandboxInstanceId,
+            });
+        }
     }
 }
\ No newline at end of file
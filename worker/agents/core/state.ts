@@ -2,10 +2,12 @@ import type { Blueprint, ClientReportedErrorType, PhaseConceptType ,
     FileOutputType,
     // FileStructureOutputType,
     CodeReviewOutputType,
+    ScreenshotAnalysisType,
 } from '../schemas';
-import type { TemplateDetails } from '../../services/sandbox/sandboxTypes';
-import type { ScreenshotData } from './types';
+import type { TemplateDetails, TestRunResult } from '../../services/sandbox/sandboxTypes';
+import type { ScreenshotData, ViewportName, VisualRegression } from './types';
 import type { ConversationMessage } from '../inferutils/common';
+import type { ProposedFix } from '../../services/code-fixer';
 
 export interface FileState extends FileOutputType {
     last_hash: string;
@@ -18,6 +20,62 @@ export interface PhaseState extends PhaseConceptType {
     completed: boolean;
 }
 
+/**
+ * Snapshot taken after a phase completes, the file contents are kept in the agent's SQL storage
+ */
+export interface PhaseSnapshot {
+    id: string;
+    phaseName: string;
+    phaseIndex: number;
+    createdAt: number;
+    fileHashes: Record<string, string>; // Git blob sha of each file's contents
+}
+
+/**
+ * Screenshot of one viewport taken after a phase deploy, the image itself is stored in R2
+ */
+export interface ViewportScreenshot {
+    viewport: ViewportName;
+    width: number;
+    height: number;
+    screenshotKey: string;
+    baselinePhase?: string; // Earlier phase the screenshot was compared against
+    analysis?: ScreenshotAnalysisType;
+    error?: string;
+}
+
+export interface PhaseVisualCheck {
+    id: string;
+    phaseName: string;
+    url: string;
+    createdAt: number;
+    screenshots: ViewportScreenshot[];
+}
+
+/**
+ * Link between the agent state and a GitHub branch, used to merge remote commits back in
+ */
+export interface GitHubSyncState {
+    repository: string;     // owner/repo
+    branch: string;
+    lastSyncedSha: string;  // Commit the agent state was last synced with
+    baseShas: Record<string, string>;   // Git blob sha of each file at that commit
+    lastSyncedAt: number;
+    pushedPhases?: string[];    // Completed phases that were already committed to the repository
+    pullRequest?: GitHubPullRequestState;   // Last export opened as a pull request, the fields above only move once it is merged and pulled
+}
+
+/**
+ * Branch of a pull request an export opened, kept apart from the base branch it targets
+ */
+export interface GitHubPullRequestState {
+    url: string;
+    branch: string;
+    headSha: string;
+    pushedPhases: string[];
+    createdAt: number;
+}
+
 export enum CurrentDevState {
     IDLE,
     PHASE_GENERATING,
@@ -25,6 +83,7 @@ export enum CurrentDevState {
     REVIEWING,
     FILE_REGENERATING,
     FINALIZING,
+    TESTING,
 }
 
 export interface CodeGenState {
@@ -35,15 +94,24 @@ export interface CodeGenState {
     generatedPhases: PhaseState[];
     commandsHistory?: string[]; // History of commands run
     lastPackageJson?: string; // Last package.json file contents
+    phaseSnapshots?: PhaseSnapshot[]; // Restorable snapshots taken after each completed phase, without file contents
+    pendingCodeFixes?: ProposedFix[]; // Dry-run code fixes awaiting user review
     templateDetails: TemplateDetails;
     sandboxInstanceId?: string;
     previewURL?: string;
     tunnelURL?: string;
     lastCodeReview?: CodeReviewOutputType;
     enableFileEnhancement?: boolean; // Flag to control file enhancement feature
+    enableTesting?: boolean; // Generate and run tests for implemented phases before review
+    testedPhases?: string[]; // Names of phases that tests were generated for
+    lastTestResults?: TestRunResult; // Latest run of the generated tests
+    githubSync?: GitHubSyncState; // Set once the app was imported from or exported to GitHub
     clientReportedErrors: ClientReportedErrorType[];
     latestScreenshot?: ScreenshotData; // Store captured screenshot
+    visualChecks?: PhaseVisualCheck[]; // Multi-viewport screenshots taken after each phase deploy
+    visualRegressions?: VisualRegression[]; // Regressions of the latest visual check not yet handed to a phase or review
     shouldBeGenerating?: boolean; // Persistent flag indicating generation should be active
+    awaitingBlueprintApproval?: boolean; // Generation waits until the user has reviewed and approved the blueprint
 
     // conversationalAssistant: ConversationalAssistant;
     agentMode: 'deterministic' | 'smart';
@@ -1,11 +1,25 @@
 
-import type { RuntimeError, StaticAnalysisResponse } from '../../services/sandbox/sandboxTypes';
+import type { RuntimeError, StaticAnalysisResponse, TestRunResult } from '../../services/sandbox/sandboxTypes';
 import type { ClientReportedErrorType } from '../schemas';
 
 export interface AllIssues {
     runtimeErrors: RuntimeError[];
     staticAnalysis: StaticAnalysisResponse;
     clientErrors: ClientReportedErrorType[];
+    testResults?: TestRunResult; // Latest run of the generated tests, only when testing is enabled
+    visualRegressions?: VisualRegression[]; // Layout regressions found by the latest visual check
+}
+
+export type ViewportName = 'mobile' | 'tablet' | 'desktop';
+
+/**
+ * Layout regression of a viewport compared to the screenshot taken after the previous phase
+ */
+export interface VisualRegression {
+    phaseName: string;
+    previousPhaseName: string;
+    viewport: ViewportName;
+    description: string;
 }
 
 /**
@@ -17,4 +31,20 @@ export interface ScreenshotData {
     viewport: { width: number; height: number };
     userAgent: string;
     screenshot: string;
-}
\ No newline at end of file
+}
+/**
+ * Outcome of a single builder loop action
+ */
+export interface ActionResult {
+    done: boolean;
+    observation: string;
+    codeChanged?: boolean; // Generated files or the sandbox changed, issues collected earlier are stale
+    runtimeErrors?: RuntimeError[]; // Issues the action collected, reused when selecting the next action
+    staticAnalysis?: StaticAnalysisResponse;
+}
+
+export interface ActionHistoryEntry extends Pick<ActionResult, 'done' | 'observation'> {
+    step: number;
+    action: string;
+    data: Record<string, unknown>;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import type { Connection } from 'agents';
+import { ApiKeyStateGuard } from './ApiKeyStateGuard';
+
+const sessionConnection = { id: 'session' } as Connection;
+const apiKeyConnection = { id: 'api-key' } as Connection;
+
+function createGuard() {
+    return new ApiKeyStateGuard<{ version: number }>(connection => connection.id === apiKeyConnection.id);
+}
+
+describe('ApiKeyStateGuard', () => {
+    it('should accept state written by the agent and session connections', () => {
+        const guard = createGuard();
+
+        expect(guard.accept({ version: 1 }, 'server')).toBe(true);
+        expect(guard.accept({ version: 2 }, sessionConnection)).toBe(true);
+        expect(guard.acceptedState).toEqual({ version: 2 });
+    });
+
+    it('should reject state written over API key connections and keep the last accepted state', () => {
+        const guard = createGuard();
+        guard.accept({ version: 1 }, 'server');
+
+        expect(guard.accept({ version: 99 }, apiKeyConnection)).toBe(false);
+        expect(guard.acceptedState).toEqual({ version: 1 });
+    });
+
+    it('should accept the restored state once the agent writes it back', () => {
+        const guard = createGuard();
+        guard.accept({ version: 1 }, 'server');
+        guard.accept({ version: 99 }, apiKeyConnection);
+
+        expect(guard.accept(guard.acceptedState!, 'server')).toBe(true);
+        expect(guard.acceptedState).toEqual({ version: 1 });
+    });
+});
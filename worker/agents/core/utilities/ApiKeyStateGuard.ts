@@ -0,0 +1,31 @@
+import type { Connection } from 'agents';
+
+/**
+ * Keeps the last state the agent or a session connection wrote, so state updates sent over API key connections can be reverted
+ * API key connections only drive the agent through scoped requests: the state also holds deployment and export results,
+ * which no single scope may overwrite.
+ */
+export class ApiKeyStateGuard<State> {
+    private accepted: State | undefined;
+
+    constructor(private readonly isApiKeyConnection: (connection: Connection) => boolean) {}
+
+    /**
+     * State to restore after a rejected update
+     */
+    get acceptedState(): State | undefined {
+        return this.accepted;
+    }
+
+    /**
+     * Record a state update unless an API key connection sent it
+     * @returns Whether the update is accepted
+     */
+    accept(state: State, source: Connection | 'server'): boolean {
+        if (source !== 'server' && this.isApiKeyConnection(source)) {
+            return false;
+        }
+        this.accepted = state;
+        return true;
+    }
+}
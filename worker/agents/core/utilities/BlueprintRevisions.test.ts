@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { BlueprintRevisions } from './BlueprintRevisions';
+
+function deferred<T>() {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+describe('BlueprintRevisions', () => {
+    it('should refuse revisions once the blueprint is approved', async () => {
+        const revisions = new BlueprintRevisions();
+        let called = false;
+
+        await expect(revisions.revise(() => false, async () => {
+            called = true;
+        })).rejects.toThrow('before generation starts');
+        expect(called).toBe(false);
+    });
+
+    it('should return the revision while the blueprint still awaits approval', async () => {
+        const revisions = new BlueprintRevisions();
+        expect(await revisions.revise(() => true, async () => 'revised')).toBe('revised');
+        expect(revisions.inProgress).toBe(false);
+    });
+
+    it('should refuse approval while a revision is in flight', async () => {
+        const revisions = new BlueprintRevisions();
+        const inference = deferred<string>();
+
+        const revision = revisions.revise(() => true, () => inference.promise);
+
+        expect(revisions.inProgress).toBe(true);
+        expect(() => revisions.assertCanApprove()).toThrow('Wait for the blueprint revision');
+
+        inference.resolve('revised');
+        await revision;
+        expect(() => revisions.assertCanApprove()).not.toThrow();
+    });
+
+    it('should discard a revision that finishes after the blueprint was approved', async () => {
+        const revisions = new BlueprintRevisions();
+        const inference = deferred<string>();
+        let awaitingApproval = true;
+
+        const revision = revisions.revise(() => awaitingApproval, () => inference.promise);
+        awaitingApproval = false;
+        inference.resolve('revised');
+
+        await expect(revision).rejects.toThrow('the revision was discarded');
+        expect(revisions.inProgress).toBe(false);
+    });
+
+    it('should allow approval again after a revision fails', async () => {
+        const revisions = new BlueprintRevisions();
+        const inference = deferred<string>();
+
+        const revision = revisions.revise(() => true, () => inference.promise);
+        inference.reject(new Error('inference failed'));
+
+        await expect(revision).rejects.toThrow('inference failed');
+        expect(() => revisions.assertCanApprove()).not.toThrow();
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * Tracks the blueprint revisions in flight, so an approval cannot start generation from a blueprint
+ * that a pending revision would replace afterwards
+ */
+export class BlueprintRevisions {
+    private pending = 0;
+
+    get inProgress(): boolean {
+        return this.pending > 0;
+    }
+
+    /**
+     * Run a revision while the blueprint awaits approval
+     * Approval is checked again once the revision is done, in case it was granted in the meantime.
+     */
+    async revise<T>(isAwaitingApproval: () => boolean, revise: () => Promise<T>): Promise<T> {
+        if (!isAwaitingApproval()) {
+            throw new Error('The blueprint can only be revised before generation starts');
+        }
+
+        this.pending++;
+        try {
+            const result = await revise();
+            if (!isAwaitingApproval()) {
+                throw new Error('The blueprint was approved while it was being revised, the revision was discarded');
+            }
+            return result;
+        } finally {
+            this.pending--;
+        }
+    }
+
+    assertCanApprove(): void {
+        if (this.inProgress) {
+            throw new Error('Wait for the blueprint revision to finish before approving');
+        }
+    }
+}
@@ -69,14 +69,10 @@ export class DatabaseOperations {
         env: { DB?: D1Database },
         sessionId: string,
         logger: StructuredLogger,
-        repositoryUrl: string,
-        existingMetadata: Record<string, any> = {}
+        repositoryUrl: string
     ): Promise<boolean> {
         return this.updateApp(env, sessionId, logger, {
-            deploymentMetadata: JSON.stringify({
-                ...existingMetadata,
-                githubRepository: repositoryUrl
-            })
+            githubRepositoryUrl: repositoryUrl
         });
     }
-}
\ No newline at end of file
+}
@@ -3,47 +3,96 @@ import { createLogger } from '../../logger';
 import { WebSocketMessageRequests, WebSocketMessageResponses } from '../constants';
 import { SimpleCodeGeneratorAgent } from './simpleGeneratorAgent';
 import { WebSocketMessage, WebSocketMessageData, WebSocketMessageType } from '../websocketTypes';
+import { BlueprintSectionSchema } from '../schemas';
+import type { ApiKeyScope } from '../../types/auth-types';
 
 const logger = createLogger('CodeGeneratorWebSocket');
 
+// Requests an API key connection needs an extra scope for, connecting already requires codegen:write
+const API_KEY_REQUEST_SCOPES: Record<string, ApiKeyScope> = {
+    [WebSocketMessageRequests.DEPLOY]: 'deploy',
+    [WebSocketMessageRequests.ROLLBACK_DEPLOYMENT]: 'deploy',
+    [WebSocketMessageRequests.GITHUB_EXPORT]: 'export',
+};
+
 export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connection: Connection, message: string): void {
     try {
         logger.info(`Received WebSocket message from ${connection.id}: ${message}`);
         const parsedMessage = JSON.parse(message);
 
+        const requiredScope = API_KEY_REQUEST_SCOPES[parsedMessage.type];
+        if (requiredScope && !agent.connectionHasScope(connection, requiredScope)) {
+            sendError(connection, `API key is missing the ${requiredScope} scope`);
+            return;
+        }
+
         switch (parsedMessage.type) {
             case WebSocketMessageRequests.GENERATE_ALL:
-                // Set shouldBeGenerating flag to indicate persistent intent
-                agent.setState({ 
-                    ...agent.state, 
-                    shouldBeGenerating: true 
+                startGeneration(agent, connection);
+                break;
+            case WebSocketMessageRequests.UPDATE_BLUEPRINT:
+                if (!parsedMessage.blueprint) {
+                    sendError(connection, 'No blueprint provided');
+                    return;
+                }
+                agent.updateBlueprint(parsedMessage.blueprint).then((blueprint) => {
+                    agent.broadcast(WebSocketMessageResponses.BLUEPRINT_UPDATED, {
+                        message: 'Blueprint saved',
+                        blueprint
+                    });
+                }).catch((error: unknown) => {
+                    logger.error('Error updating blueprint:', error);
+                    sendToConnection(connection, WebSocketMessageResponses.BLUEPRINT_ERROR, {
+                        message: 'Failed to save blueprint',
+                        error: error instanceof Error ? error.message : String(error)
+                    });
                 });
-                
-                // Check if generation is already active to avoid duplicate processes
-                if (agent.isGenerating) {
-                    logger.info('Generation already in progress, skipping duplicate request');
-                    // sendToConnection(connection, WebSocketMessageResponses.GENERATION_STARTED, {
-                    //     message: 'Code generation is already in progress'
-                    // });
+                break;
+            case WebSocketMessageRequests.REVISE_BLUEPRINT: {
+                const section = BlueprintSectionSchema.safeParse(parsedMessage.section);
+                if (!section.success || typeof parsedMessage.instructions !== 'string' || !parsedMessage.instructions.trim()) {
+                    sendToConnection(connection, WebSocketMessageResponses.BLUEPRINT_ERROR, {
+                        message: 'Failed to revise blueprint',
+                        error: 'A blueprint section and revision instructions are required'
+                    });
                     return;
                 }
-                
-                // Start generation process
-                logger.info('Starting code generation process');
-                agent.generateAllFiles().catch(error => {
-                    logger.error('Error during code generation:', error);
-                    sendError(connection, `Error generating files: ${error instanceof Error ? error.message : String(error)}`);
-                }).finally(() => {
-                    // Only clear shouldBeGenerating on successful completion
-                    // (errors might want to retry, so this could be handled differently)
-                    if (!agent.isGenerating) {
-                        agent.setState({ 
-                            ...agent.state, 
-                            shouldBeGenerating: false 
-                        });
-                    }
+                agent.broadcast(WebSocketMessageResponses.BLUEPRINT_REVISING, {
+                    message: `Revising ${section.data}...`,
+                    section: section.data
+                });
+                agent.reviseBlueprint(section.data, parsedMessage.instructions.trim()).then((blueprint) => {
+                    agent.broadcast(WebSocketMessageResponses.BLUEPRINT_UPDATED, {
+                        message: `Revised ${section.data}`,
+                        blueprint,
+                        section: section.data
+                    });
+                }).catch((error: unknown) => {
+                    logger.error('Error revising blueprint:', error);
+                    agent.broadcast(WebSocketMessageResponses.BLUEPRINT_ERROR, {
+                        message: `Failed to revise ${section.data}`,
+                        error: error instanceof Error ? error.message : String(error),
+                        section: section.data
+                    });
                 });
                 break;
+            }
+            case WebSocketMessageRequests.APPROVE_BLUEPRINT:
+                try {
+                    const blueprint = agent.approveBlueprint();
+                    agent.broadcast(WebSocketMessageResponses.BLUEPRINT_APPROVED, {
+                        message: 'Blueprint approved, starting code generation',
+                        blueprint
+                    });
+                } catch (error) {
+                    sendToConnection(connection, WebSocketMessageResponses.BLUEPRINT_ERROR, {
+                        message: 'Failed to approve blueprint',
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                    return;
+                }
+                startGeneration(agent, connection);
+                break;
             case WebSocketMessageRequests.CODE_REVIEW:
                 if (agent.isGenerating) {
                     sendError(connection, 'Cannot perform code review while generating files');
@@ -84,7 +133,10 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
                 });
                 break;
             case WebSocketMessageRequests.DEPLOY:
-                agent.deployToCloudflare().then((deploymentResult) => {
+                agent.deployToCloudflare(
+                    parsedMessage.environment === 'preview' ? 'preview' : 'production',
+                    typeof parsedMessage.accountId === 'string' || parsedMessage.accountId === null ? parsedMessage.accountId : undefined
+                ).then((deploymentResult) => {
                     if (!deploymentResult) {
                         logger.error('Failed to deploy to Cloudflare Workers');
                         return;
@@ -94,6 +146,12 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
                     logger.error('Error during deployment:', error);
                 });
                 break;
+            case WebSocketMessageRequests.ROLLBACK_DEPLOYMENT:
+                // Progress and errors are broadcast by the agent as deployment events
+                agent.rollbackDeployment(parsedMessage.deploymentId).catch((error: unknown) => {
+                    logger.error('Error during deployment rollback:', error);
+                });
+                break;
             case WebSocketMessageRequests.PREVIEW:
                 // Deploy current state for preview
                 logger.info('Deploying for preview');
@@ -159,6 +217,78 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
                     // });
                 }
                 break;
+            case WebSocketMessageRequests.LIST_SNAPSHOTS:
+                sendToConnection(connection, WebSocketMessageResponses.SNAPSHOTS_LIST, {
+                    snapshots: agent.listPhaseSnapshots()
+                });
+                break;
+            case WebSocketMessageRequests.DIFF_SNAPSHOTS:
+                if (!parsedMessage.fromSnapshotId || !parsedMessage.toSnapshotId) {
+                    sendError(connection, 'Both fromSnapshotId and toSnapshotId are required');
+                    return;
+                }
+                sendToConnection(connection, WebSocketMessageResponses.SNAPSHOTS_DIFF, {
+                    fromSnapshotId: parsedMessage.fromSnapshotId,
+                    toSnapshotId: parsedMessage.toSnapshotId,
+                    files: agent.diffPhaseSnapshots(parsedMessage.fromSnapshotId, parsedMessage.toSnapshotId)
+                });
+                break;
+            case WebSocketMessageRequests.ROLLBACK_TO_SNAPSHOT:
+                if (!parsedMessage.snapshotId) {
+                    sendError(connection, 'No snapshotId provided for rollback');
+                    return;
+                }
+                agent.rollbackToSnapshot(parsedMessage.snapshotId).then((snapshot) => {
+                    agent.broadcast(WebSocketMessageResponses.SNAPSHOT_ROLLBACK_COMPLETED, {
+                        message: `Rolled back to phase: ${snapshot.phaseName}`,
+                        snapshot
+                    });
+                }).catch((error: unknown) => {
+                    logger.error('Error rolling back to snapshot:', error);
+                    sendError(connection, `Error rolling back to snapshot: ${error instanceof Error ? error.message : String(error)}`);
+                });
+                break;
+            case WebSocketMessageRequests.PREVIEW_CODE_FIXES:
+                agent.proposeDeterministicCodeFixes().then((proposal) => {
+                    sendToConnection(connection, WebSocketMessageResponses.CODE_FIX_PROPOSALS, {
+                        message: `Found ${proposal.proposedFixes.length} fixes for review`,
+                        ...proposal
+                    });
+                }).catch((error: unknown) => {
+                    logger.error('Error proposing code fixes:', error);
+                    sendError(connection, `Error proposing code fixes: ${error instanceof Error ? error.message : String(error)}`);
+                });
+                break;
+            case WebSocketMessageRequests.ACCEPT_CODE_FIX:
+                if (!parsedMessage.fixId) {
+                    sendError(connection, 'No fixId provided');
+                    return;
+                }
+                agent.acceptProposedCodeFix(parsedMessage.fixId).then((fix) => {
+                    agent.broadcast(WebSocketMessageResponses.CODE_FIX_ACCEPTED, {
+                        message: `Applied fix: ${fix.issue.fixApplied}`,
+                        fix
+                    });
+                }).catch((error: unknown) => {
+                    logger.error('Error applying code fix:', error);
+                    sendError(connection, `Error applying code fix: ${error instanceof Error ? error.message : String(error)}`);
+                });
+                break;
+            case WebSocketMessageRequests.REJECT_CODE_FIX:
+                if (!parsedMessage.fixId) {
+                    sendError(connection, 'No fixId provided');
+                    return;
+                }
+                try {
+                    const fix = agent.rejectProposedCodeFix(parsedMessage.fixId);
+                    agent.broadcast(WebSocketMessageResponses.CODE_FIX_REJECTED, {
+                        message: `Rejected fix: ${fix.issue.fixApplied}`,
+                        fixId: fix.id
+                    });
+                } catch (error) {
+                    sendError(connection, error instanceof Error ? error.message : String(error));
+                }
+                break;
             case WebSocketMessageRequests.GITHUB_EXPORT:
                 // Handle GitHub export request
                 sendToConnection(connection, WebSocketMessageResponses.GITHUB_EXPORT_STARTED, {
@@ -169,10 +299,12 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
                     repositoryName: parsedMessage.repositoryName || 'generated-app',
                     isPrivate: parsedMessage.isPrivate || false,
                     description: parsedMessage.description,
-                    userId: parsedMessage.userId
+                    pullRequest: parsedMessage.pullRequest || false
                 };
                 
-                agent.exportToGithub(exportOptions).then((result) => {
+                agent.resolveConnectionUserId(connection, parsedMessage.userId).then((userId) =>
+                    agent.exportToGithub({ ...exportOptions, userId })
+                ).then((result) => {
                     if (!result.success) {
                         sendToConnection(connection, WebSocketMessageResponses.GITHUB_EXPORT_ERROR, {
                             message: 'GitHub export failed',
@@ -182,8 +314,9 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
                     }
                     
                     sendToConnection(connection, WebSocketMessageResponses.GITHUB_EXPORT_COMPLETED, {
-                        message: `Successfully exported to GitHub: ${result.repositoryUrl}`,
-                        repositoryUrl: result.repositoryUrl
+                        message: `Successfully exported to GitHub: ${result.pullRequestUrl || result.repositoryUrl}`,
+                        repositoryUrl: result.repositoryUrl,
+                        pullRequestUrl: result.pullRequestUrl
                     });
                 }).catch((error: unknown) => {
                     logger.error('Error during GitHub export:', error);
@@ -193,6 +326,18 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
                     });
                 });
                 break;
+            case WebSocketMessageRequests.GITHUB_PULL:
+                // Progress, results and errors are broadcast by the agent
+                agent.resolveConnectionUserId(connection, parsedMessage.userId).then((userId) =>
+                    agent.pullFromGithub(userId)
+                ).catch((error: unknown) => {
+                    logger.error('Error during GitHub pull:', error);
+                    sendToConnection(connection, WebSocketMessageResponses.GITHUB_PULL_ERROR, {
+                        message: 'GitHub pull failed due to an unexpected error',
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                });
+                break;
             case WebSocketMessageRequests.USER_SUGGESTION:
                 // Handle user suggestion for conversational AI
                 logger.info('Received user suggestion', {
@@ -218,6 +363,42 @@ export function handleWebSocketMessage(agent: SimpleCodeGeneratorAgent, connecti
     }
 }
 
+/**
+ * Start generating the app unless a generation is already running
+ */
+function startGeneration(agent: SimpleCodeGeneratorAgent, connection: Connection): void {
+    // Set shouldBeGenerating flag to indicate persistent intent
+    agent.setState({ 
+        ...agent.state, 
+        shouldBeGenerating: true 
+    });
+    
+    // Check if generation is already active to avoid duplicate processes
+    if (agent.isGenerating) {
+        logger.info('Generation already in progress, skipping duplicate request');
+        // sendToConnection(connection, WebSocketMessageResponses.GENERATION_STARTED, {
+        //     message: 'Code generation is already in progress'
+        // });
+        return;
+    }
+    
+    // Start generation process
+    logger.info('Starting code generation process');
+    agent.generateAllFiles().catch(error => {
+        logger.error('Error during code generation:', error);
+        sendError(connection, `Error generating files: ${error instanceof Error ? error.message : String(error)}`);
+    }).finally(() => {
+        // Only clear shouldBeGenerating on successful completion
+        // (errors might want to retry, so this could be handled differently)
+        if (!agent.isGenerating) {
+            agent.setState({ 
+                ...agent.state, 
+                shouldBeGenerating: false 
+            });
+        }
+    });
+}
+
 export function handleWebSocketClose(connection: Connection): void {
     logger.info(`WebSocket connection closed: ${connection.id}`);
 }
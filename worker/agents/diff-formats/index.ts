@@ -5,7 +5,7 @@
  * each with the same API but different approaches to handling changes.
  */
 
-import { applyDiff as applyUnifiedDiff } from './udiff';
+import { applyDiff as applyUnifiedDiff, createDiff as createUnifiedDiff } from './udiff';
 import { 
 	applyDiff as applySearchReplaceDiff,
 	createSearchReplaceDiff,
@@ -18,6 +18,7 @@ import {
 export {
 	// Unified Diff Format (git-style)
 	applyUnifiedDiff,
+	createUnifiedDiff,
 	
 	// Search/Replace Format (simpler, more reliable for LLMs)
 	applySearchReplaceDiff,
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { applyDiff } from './udiff';
+import { applyDiff, createDiff } from './udiff';
 
 describe('applyUnifiedDiff', () => {
   const applyUnifiedDiff = applyDiff; // Alias for compatibility
@@ -353,4 +353,33 @@ stays the same`;
     const result = applyUnifiedDiff(original, diff);
     expect(result).toBe(expected);
   });
-});
\ No newline at end of file
+});
+
+describe('createDiff', () => {
+  it('should return an empty string for identical contents', () => {
+    expect(createDiff('file.txt', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('should produce a diff with file headers and hunks', () => {
+    const diff = createDiff('src/file.txt', 'line 1\nline 2\n', 'line 1\nchanged\n');
+
+    expect(diff).toContain('--- a/src/file.txt');
+    expect(diff).toContain('+++ b/src/file.txt');
+    expect(diff).toContain('-line 2');
+    expect(diff).toContain('+changed');
+  });
+
+  it('should round-trip through applyDiff', () => {
+    const original = `line 1
+line 2
+line 3
+line 4`;
+    const modified = `line 1
+line two
+line 3
+line 4
+line 5`;
+
+    expect(applyDiff(original, createDiff('file.txt', original, modified))).toBe(modified);
+  });
+});
@@ -1,3 +1,5 @@
+import { createTwoFilesPatch } from 'diff';
+
 // Borrowed from the way Aider handles unified diffs
 /**
  * Parses a hunk string into its "before" and "after" components.
@@ -849,3 +851,24 @@ export function applyDiff(
 		}
 	}
 }
+
+/**
+ * Create a git-style unified diff between two versions of a file
+ * @param filePath - Path of the file, used in the --- / +++ headers
+ * @param beforeContent - The original file content (empty for new files)
+ * @param afterContent - The modified file content (empty for deleted files)
+ * @param options - Number of context lines around each change
+ * @returns The unified diff, or an empty string if the contents are identical
+ */
+export function createDiff(
+	filePath: string,
+	beforeContent: string,
+	afterContent: string,
+	options: { contextLines?: number } = {}
+): string {
+	if (beforeContent === afterContent) {
+		return '';
+	}
+	const { contextLines = 3 } = options;
+	return createTwoFilesPatch(`a/${filePath}`, `b/${filePath}`, beforeContent, afterContent, undefined, undefined, { context: contextLines });
+}
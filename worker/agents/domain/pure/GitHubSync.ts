@@ -0,0 +1,129 @@
+import type { PhaseSnapshot, PhaseState } from '../../core/state';
+
+/**
+ * Change applied to a local file when merging a remote commit
+ */
+export interface RemoteFileChange {
+    path: string;
+    action: 'add' | 'update' | 'delete';
+}
+
+/**
+ * File changed both locally and on GitHub since the last sync
+ */
+export interface SyncConflict {
+    path: string;
+    reason: 'modified_both' | 'deleted_remotely' | 'deleted_locally';
+}
+
+/**
+ * Commit due at the end of a phase, or for the current files when it has no snapshot
+ */
+export interface PlannedCommit {
+    message: string;
+    phaseName?: string;
+    snapshot?: PhaseSnapshot; // Files as they were when the phase completed
+}
+
+export interface SyncClassification {
+    changes: RemoteFileChange[];
+    conflicts: SyncConflict[];
+    // Base shas after the merge, for every path that is identical on both sides or taken from remote
+    baseShas: Record<string, string>;
+}
+
+/**
+ * GitHub sync utilities
+ * Three-way comparison of file blob shas between the last synced commit, the agent state and GitHub
+ */
+export class GitHubSync {
+    /**
+     * Classify every path by comparing its sha at the last sync (base), in the agent state (local) and on GitHub (remote)
+     * - Unchanged remotely: nothing to apply
+     * - Unchanged locally: the remote version is applied
+     * - Same change on both sides: only the base moves forward
+     * - Anything else is a conflict, and the local version is kept
+     */
+    static classifyChanges(
+        base: Record<string, string>,
+        local: Record<string, string>,
+        remote: Record<string, string>
+    ): SyncClassification {
+        const changes: RemoteFileChange[] = [];
+        const conflicts: SyncConflict[] = [];
+        const baseShas: Record<string, string> = {};
+
+        const paths = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+        for (const path of paths) {
+            const baseSha = base[path];
+            const localSha = local[path];
+            const remoteSha = remote[path];
+
+            if (remoteSha === baseSha) {
+                if (baseSha) {
+                    baseShas[path] = baseSha;
+                }
+                continue;
+            }
+
+            if (localSha === baseSha) {
+                if (remoteSha) {
+                    changes.push({ path, action: localSha ? 'update' : 'add' });
+                    baseShas[path] = remoteSha;
+                } else {
+                    changes.push({ path, action: 'delete' });
+                }
+                continue;
+            }
+
+            if (localSha === remoteSha) {
+                if (remoteSha) {
+                    baseShas[path] = remoteSha;
+                }
+                continue;
+            }
+
+            conflicts.push({
+                path,
+                reason: !remoteSha ? 'deleted_remotely' : !localSha ? 'deleted_locally' : 'modified_both',
+            });
+            // Keep the old base so the conflict is reported again until it is resolved
+            if (baseSha) {
+                baseShas[path] = baseSha;
+            }
+        }
+
+        return { changes, conflicts, baseShas };
+    }
+
+    /**
+     * Plan one commit per completed phase that was not pushed yet, using the snapshot taken when the phase completed
+     * Phases without a snapshot are folded into the next commit, and a final commit
+     * carries whatever changed after the last phase, such as review fixes.
+     */
+    static planPhaseCommits(
+        phases: PhaseState[],
+        pushedPhases: string[],
+        snapshots: PhaseSnapshot[]
+    ): PlannedCommit[] {
+        const commits: PlannedCommit[] = [];
+        for (const phase of phases) {
+            if (!phase.completed || pushedPhases.includes(phase.name)) {
+                continue;
+            }
+            const snapshot = [...snapshots].reverse().find(s => s.phaseName === phase.name);
+            if (snapshot) {
+                commits.push({
+                    message: `${phase.name}\n\n${phase.description}`,
+                    phaseName: phase.name,
+                    snapshot,
+                });
+            }
+        }
+
+        commits.push({
+            message: 'Update generated application',
+        });
+        return commits;
+    }
+}
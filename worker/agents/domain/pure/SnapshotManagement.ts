@@ -0,0 +1,82 @@
+import { FileState, PhaseSnapshot } from '../../core/state';
+import { createUnifiedDiff } from '../../diff-formats';
+
+export interface PhaseSnapshotSummary {
+    id: string;
+    phaseName: string;
+    phaseIndex: number;
+    createdAt: number;
+    fileCount: number;
+}
+
+export interface SnapshotFileDiff {
+    file_path: string;
+    status: 'added' | 'removed' | 'modified';
+    diff: string;
+}
+
+/**
+ * Phase snapshot utilities
+ * Captures, summarizes and compares phase snapshots by the hashes of their files
+ */
+export class SnapshotManagement {
+    /**
+     * Describe the file map after a phase completes, the contents themselves are stored separately
+     */
+    static createSnapshot(
+        phaseName: string,
+        phaseIndex: number,
+        fileHashes: Record<string, string>
+    ): PhaseSnapshot {
+        return {
+            id: `${phaseIndex}-${Date.now().toString(36)}`,
+            phaseName,
+            phaseIndex,
+            createdAt: Date.now(),
+            fileHashes,
+        };
+    }
+
+    /**
+     * Summarize a snapshot without its file list
+     */
+    static summarize(snapshot: PhaseSnapshot): PhaseSnapshotSummary {
+        return {
+            id: snapshot.id,
+            phaseName: snapshot.phaseName,
+            phaseIndex: snapshot.phaseIndex,
+            createdAt: snapshot.createdAt,
+            fileCount: Object.keys(snapshot.fileHashes).length,
+        };
+    }
+
+    /**
+     * Paths whose contents differ between two snapshots, so only those files need loading
+     */
+    static changedPaths(from: PhaseSnapshot, to: PhaseSnapshot): string[] {
+        const paths = new Set([
+            ...Object.keys(from.fileHashes),
+            ...Object.keys(to.fileHashes),
+        ]);
+        return [...paths].filter(path => from.fileHashes[path] !== to.fileHashes[path]).sort();
+    }
+
+    /**
+     * Compute per-file unified diffs going from one set of files to another
+     */
+    static diffFiles(paths: string[], from: Record<string, FileState>, to: Record<string, FileState>): SnapshotFileDiff[] {
+        const diffs: SnapshotFileDiff[] = [];
+        for (const path of paths) {
+            const before = from[path]?.file_contents;
+            const after = to[path]?.file_contents;
+            if (before === after) continue;
+
+            diffs.push({
+                file_path: path,
+                status: before === undefined ? 'added' : after === undefined ? 'removed' : 'modified',
+                diff: createUnifiedDiff(path, before ?? '', after ?? ''),
+            });
+        }
+        return diffs;
+    }
+}
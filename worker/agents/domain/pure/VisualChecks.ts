@@ -0,0 +1,66 @@
+import { PhaseVisualCheck, ViewportScreenshot } from '../../core/state';
+import { ViewportName, VisualRegression } from '../../core/types';
+
+export const VIEWPORTS: Record<ViewportName, { width: number; height: number }> = {
+    mobile: { width: 375, height: 812 },
+    tablet: { width: 768, height: 1024 },
+    desktop: { width: 1440, height: 900 },
+};
+
+/**
+ * Visual check utilities
+ * Names stored screenshots and turns per-viewport analyses into regressions
+ */
+export class VisualChecks {
+    /**
+     * R2 key of a viewport screenshot, grouped by session so a session's screenshots can be listed together
+     */
+    static screenshotKey(sessionId: string, checkId: string, viewport: ViewportName): string {
+        return `${sessionId}/${checkId}/${viewport}.png`;
+    }
+
+    /**
+     * Encode a PNG as a data URL for multi-modal inference
+     * Converted in chunks to avoid overflowing the stack on large screenshots
+     */
+    static toDataUrl(image: ArrayBuffer): string {
+        const bytes = new Uint8Array(image);
+        let binaryString = '';
+        const chunkSize = 0x8000;
+        for (let i = 0; i < bytes.length; i += chunkSize) {
+            binaryString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+        }
+        return `data:image/png;base64,${btoa(binaryString)}`;
+    }
+
+    /**
+     * Most recent check with an analyzed, regression-free screenshot of the viewport
+     * Screenshots that regressed are skipped so unfixed regressions are reported again by the next check
+     */
+    static findBaseline(checks: PhaseVisualCheck[], viewport: ViewportName): PhaseVisualCheck | undefined {
+        return [...checks].reverse().find(check =>
+            check.screenshots.some(s => s.viewport === viewport && s.analysis && !VisualChecks.hasRegressed(s))
+        );
+    }
+
+    /**
+     * Regressions only count when the screenshot was compared against an earlier phase
+     */
+    static hasRegressed(screenshot: ViewportScreenshot): boolean {
+        return !!screenshot.baselinePhase && (screenshot.analysis?.layoutRegressions.length || 0) > 0;
+    }
+
+    /**
+     * Collect the layout regressions reported for each viewport of a check
+     */
+    static collectRegressions(check: PhaseVisualCheck): VisualRegression[] {
+        return check.screenshots.filter(s => VisualChecks.hasRegressed(s)).flatMap(screenshot =>
+            screenshot.analysis!.layoutRegressions.map(description => ({
+                phaseName: check.phaseName,
+                previousPhaseName: screenshot.baselinePhase!,
+                viewport: screenshot.viewport,
+                description,
+            }))
+        );
+    }
+}
@@ -1,22 +1,26 @@
-import { RuntimeError, StaticAnalysisResponse } from '../../../services/sandbox/sandboxTypes';
-import { AllIssues } from '../../core/types';
+import { RuntimeError, StaticAnalysisResponse, TestRunResult } from '../../../services/sandbox/sandboxTypes';
+import { AllIssues, VisualRegression } from '../../core/types';
 import { ClientReportedErrorType } from '../../schemas';
 
 /**
  * Immutable report of issues found during code generation
- * Includes runtime errors, static analysis results, and client errors
+ * Includes runtime errors, static analysis results, client errors, failing tests and visual regressions
  */
 export class IssueReport {
     constructor(
         public readonly runtimeErrors: RuntimeError[],
         public readonly staticAnalysis: StaticAnalysisResponse,
-        public readonly clientErrors: ClientReportedErrorType[]
+        public readonly clientErrors: ClientReportedErrorType[],
+        public readonly testResults?: TestRunResult,
+        public readonly visualRegressions: VisualRegression[] = []
     ) {
         // Freeze to ensure immutability
         Object.freeze(this);
         Object.freeze(this.runtimeErrors);
         Object.freeze(this.staticAnalysis);
         Object.freeze(this.clientErrors);
+        if (this.testResults) Object.freeze(this.testResults);
+        Object.freeze(this.visualRegressions);
     }
 
     /**
@@ -26,7 +30,9 @@ export class IssueReport {
         return new IssueReport(
             issues.runtimeErrors || [],
             issues.staticAnalysis || { success: false, lint: { issues: [] }, typecheck: { issues: [] } },
-            issues.clientErrors || []
+            issues.clientErrors || [],
+            issues.testResults,
+            issues.visualRegressions || []
         );
     }
 
@@ -34,7 +40,7 @@ export class IssueReport {
      * Check if there are any issues
      */
     hasIssues(): boolean {
-        return this.hasRuntimeErrors() || this.hasStaticAnalysisIssues() || this.hasClientErrors();
+        return this.hasRuntimeErrors() || this.hasStaticAnalysisIssues() || this.hasClientErrors() || this.hasTestFailures() || this.hasVisualRegressions();
     }
 
     /**
@@ -50,7 +56,16 @@ export class IssueReport {
     hasStaticAnalysisIssues(): boolean {
         const lintIssues = this.staticAnalysis.lint?.issues?.length || 0;
         const typecheckIssues = this.staticAnalysis.typecheck?.issues?.length || 0;
-        return lintIssues > 0 || typecheckIssues > 0;
+        return lintIssues > 0 || typecheckIssues > 0 || this.getAdditionalAnalyzerCounts().length > 0;
+    }
+
+    /**
+     * Issue counts of analyzers other than ESLint and TypeScript, which have their own fields
+     */
+    private getAdditionalAnalyzerCounts(): Array<{ analyzer: string; count: number }> {
+        return Object.entries(this.staticAnalysis.analyzers || {})
+            .filter(([analyzer, section]) => analyzer !== 'eslint' && analyzer !== 'typescript' && section.issues.length > 0)
+            .map(([analyzer, section]) => ({ analyzer, count: section.issues.length }));
     }
 
     /**
@@ -60,6 +75,20 @@ export class IssueReport {
         return this.clientErrors.length > 0;
     }
 
+    /**
+     * Check if any generated tests failed
+     */
+    hasTestFailures(): boolean {
+        return (this.testResults?.failures.length || 0) > 0;
+    }
+
+    /**
+     * Check if the latest visual check found layout regressions
+     */
+    hasVisualRegressions(): boolean {
+        return this.visualRegressions.length > 0;
+    }
+
     /**
      * Get total issue count
      */
@@ -68,8 +97,10 @@ export class IssueReport {
         const lintCount = this.staticAnalysis.lint?.issues?.length || 0;
         const typecheckCount = this.staticAnalysis.typecheck?.issues?.length || 0;
         const clientCount = this.clientErrors.length;
+        const analyzerCount = this.getAdditionalAnalyzerCounts().reduce((total, { count }) => total + count, 0);
+        const testFailureCount = this.testResults?.failures.length || 0;
         
-        return runtimeCount + lintCount + typecheckCount + clientCount;
+        return runtimeCount + lintCount + typecheckCount + analyzerCount + clientCount + testFailureCount + this.visualRegressions.length;
     }
 
     /**
@@ -91,10 +122,22 @@ export class IssueReport {
         if (typecheckCount > 0) {
             parts.push(`${typecheckCount} type errors`);
         }
+
+        for (const { analyzer, count } of this.getAdditionalAnalyzerCounts()) {
+            parts.push(`${count} ${analyzer} issues`);
+        }
         
         if (this.clientErrors.length > 0) {
             parts.push(`${this.clientErrors.length} client errors`);
         }
+
+        if (this.hasTestFailures()) {
+            parts.push(`${this.testResults!.failures.length} failing tests`);
+        }
+
+        if (this.hasVisualRegressions()) {
+            parts.push(`${this.visualRegressions.length} visual regressions`);
+        }
         
         return parts.length > 0 ? parts.join(', ') : 'No issues found';
     }
@@ -62,16 +62,17 @@ export function createAssistantMessage(content: string) {
 }
 
 /**
- * Create a multi-modal user message with text and image content
+ * Create a multi-modal user message with text and one or more images, in the given order
  */
 export function createMultiModalUserMessage(
 	text: string,
-	imageUrl: string,
+	imageUrl: string | string[],
 	detail?: 'auto' | 'low' | 'high',
 ): {
 	role: MessageRole;
 	content: (TextContent | ImageContent)[];
 } {
+	const imageUrls = Array.isArray(imageUrl) ? imageUrl : [imageUrl];
 	return {
 		role: 'user' as MessageRole,
 		content: [
@@ -79,13 +80,13 @@ export function createMultiModalUserMessage(
 				type: 'text',
 				text,
 			},
-			{
+			...imageUrls.map((url): ImageContent => ({
 				type: 'image_url',
 				image_url: {
-					url: imageUrl,
+					url,
 					detail: detail || 'auto',
 				},
-			},
+			})),
 		],
 	};
 }
\ No newline at end of file
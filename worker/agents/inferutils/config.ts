@@ -49,12 +49,14 @@ export interface AgentConfig {
     phaseImplementation: ModelConfig;
     firstPhaseImplementation: ModelConfig;
     codeReview: ModelConfig;
+    testGeneration: ModelConfig;
     fileRegeneration: ModelConfig;
     screenshotAnalysis: ModelConfig;
     realtimeCodeFixer: ModelConfig;
     fastCodeFixer: ModelConfig;
     conversationalResponse: ModelConfig;
     userSuggestionProcessor: ModelConfig;
+    agentOrchestration: ModelConfig;
 }
 
 export const AGENT_CONFIG: AgentConfig = {
@@ -189,6 +191,13 @@ export const AGENT_CONFIG: AgentConfig = {
         temperature: 0.2,
         fallbackModel: AIModels.GEMINI_2_5_PRO,
     },
+    testGeneration: {
+        name: AIModels.GEMINI_2_5_PRO,
+        reasoning_effort: 'low',
+        max_tokens: 32000,
+        temperature: 0.2,
+        fallbackModel: AIModels.GEMINI_2_5_FLASH,
+    },
     fileRegeneration: {
         name: AIModels.CLAUDE_4_SONNET,
         reasoning_effort: undefined,
@@ -203,6 +212,13 @@ export const AGENT_CONFIG: AgentConfig = {
         temperature: 0.1,
         fallbackModel: AIModels.GEMINI_2_5_FLASH,
     },
+    agentOrchestration: {
+        name: AIModels.GEMINI_2_5_FLASH,
+        reasoning_effort: 'low',
+        max_tokens: 4000,
+        temperature: 0.2,
+        fallbackModel: AIModels.GEMINI_2_5_PRO,
+    },
 };
 
 export type AgentActionKey = keyof AgentConfig;
@@ -16,6 +16,7 @@ import {
 import { Message, MessageContent, MessageRole } from './common';
 import { ToolCall } from '../tools/types';
 import { executeTool } from '../tools/customTools';
+import type { MCPManager } from '../tools/mcpManager';
 import { AIModels } from './config';
 
 function optimizeInputs(messages: Message[]): Message[] {
@@ -87,7 +88,7 @@ const providerAliasMap: Record<string, string> = {
     'google-ai-studio': 'gemini',
 }
 
-export async function getConfigurationForModel(model: AIModels | string, env: Env): Promise<{
+export async function getConfigurationForModel(model: AIModels | string, env: Env, apiKeyOverride?: string): Promise<{
     baseURL: string,
     apiKey: string,
     defaultHeaders?: Record<string, string>,
@@ -100,17 +101,17 @@ export async function getConfigurationForModel(model: AIModels | string, env: En
         if (provider === 'openrouter') {
             return {
                 baseURL: 'https://openrouter.ai/api/v1',
-                apiKey: env.OPENROUTER_API_KEY,
+                apiKey: apiKeyOverride || env.OPENROUTER_API_KEY,
             };
         } else if (provider === 'gemini') {
             return {
                 baseURL: 'https://generativelanguage.googleapis.com/v1beta/openai/',
-                apiKey: env.GEMINI_API_KEY,
+                apiKey: apiKeyOverride || env.GEMINI_API_KEY,
             };
         } else if (provider === 'claude') {
             return {
                 baseURL: 'https://api.anthropic.com/v1/',
-                apiKey: env.ANTHROPIC_API_KEY,
+                apiKey: apiKeyOverride || env.ANTHROPIC_API_KEY,
             };
         }
         providerForcedOverride = provider as AIGatewayProviders;
@@ -124,7 +125,7 @@ export async function getConfigurationForModel(model: AIModels | string, env: En
     // `env` is an interface of type `Env`
     const providerKeyString = (providerAliasMap[provider] || provider).toUpperCase().replaceAll('-', '_');
     const envKey = `${providerKeyString}_API_KEY` as keyof Env;
-    const apiKey: string = env[envKey] as string || env.CLOUDFLARE_AI_GATEWAY_TOKEN;
+    const apiKey: string = apiKeyOverride || env[envKey] as string || env.CLOUDFLARE_AI_GATEWAY_TOKEN;
     // AI Gateway Wholesaling checks
     const defaultHeaders = env.CLOUDFLARE_AI_GATEWAY_TOKEN && apiKey !== env.CLOUDFLARE_AI_GATEWAY_TOKEN ? {
         'cf-aig-authorization': `Bearer ${env.CLOUDFLARE_AI_GATEWAY_TOKEN}`,
@@ -149,7 +150,9 @@ type InferArgsBase = {
 		onChunk: (chunk: string) => void;
 	};
 	tools?: ChatCompletionTool[];
+	mcpManager?: MCPManager; // Executes MCP tool calls, defaults to the built-in servers
 	providerOverride?: 'cloudflare' | 'direct';
+	apiKey?: string; // User's own provider key, replaces the platform key for this call
 };
 
 type InferArgsStructured = InferArgsBase & {
@@ -165,6 +168,7 @@ export class InferError extends Error {
 	constructor(
 		message: string,
 		public partialResponse?: string,
+		public usage?: InferenceUsage, // Tokens billed for the response that could not be used
 	) {
 		super(message);
 		this.name = 'InferError';
@@ -178,25 +182,58 @@ const claude_thinking_budget_tokens = {
     minimal: 1000,
 };
 
+/**
+ * Tokens billed for an inference, reasoning tokens are included in the completion tokens
+ */
+export type InferenceUsage = {
+	promptTokens: number;
+	completionTokens: number;
+	reasoningTokens: number;
+};
+
 export type InferResponseObject<OutputSchema extends z.AnyZodObject> = {
 	object: z.infer<OutputSchema>;
 	toolCalls?: ToolCall[];
+	usage?: InferenceUsage;
 };
 
 export type InferResponseString = {
 	string: string;
 	toolCalls?: ToolCall[];
+	usage?: InferenceUsage;
 };
 
+function toInferenceUsage(usage: OpenAI.CompletionUsage | null | undefined): InferenceUsage | undefined {
+	if (!usage) {
+		return undefined;
+	}
+	return {
+		promptTokens: usage.prompt_tokens,
+		completionTokens: usage.completion_tokens,
+		reasoningTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+	};
+}
+
+export function addInferenceUsage(a: InferenceUsage | undefined, b: InferenceUsage | undefined): InferenceUsage | undefined {
+	if (!a || !b) {
+		return a ?? b;
+	}
+	return {
+		promptTokens: a.promptTokens + b.promptTokens,
+		completionTokens: a.completionTokens + b.completionTokens,
+		reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+	};
+}
+
 /**
  * Execute all tool calls from OpenAI response
  */
-async function executeToolCalls(openAiToolCalls: ChatCompletionMessageFunctionToolCall[]): Promise<ToolCall[]> {
+async function executeToolCalls(openAiToolCalls: ChatCompletionMessageFunctionToolCall[], mcpManager?: MCPManager): Promise<ToolCall[]> {
     return Promise.all(
         openAiToolCalls.map(async (tc) => {
             try {
                 const args = tc.function.arguments ? JSON.parse(tc.function.arguments) : {};
-                const result = await executeTool(tc.function.name, args);
+                const result = await executeTool(tc.function.name, args, mcpManager);
                 console.log(`Tool execution result for ${tc.function.name}:`, result);
                 return {
                     id: tc.id,
@@ -243,9 +280,11 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 	modelName,
 	stream,
 	tools,
+	mcpManager,
 	reasoning_effort,
 	temperature,
 	providerOverride,
+	apiKey: apiKeyOverride,
 }: InferArgsBase & {
 	schema?: OutputSchema;
 	schemaName?: string;
@@ -253,7 +292,7 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 	formatOptions?: FormatterOptions;
 }): Promise<InferResponseObject<OutputSchema> | InferResponseString> {
 	try {
-        const { apiKey, baseURL, defaultHeaders } = await getConfigurationForModel(modelName, env);
+        const { apiKey, baseURL, defaultHeaders } = await getConfigurationForModel(modelName, env, apiKeyOverride);
 		console.log(`baseUrl: ${baseURL}, providerOverride: ${providerOverride}, modelName: ${modelName}`);
 
         // Remove [*.] from model name
@@ -327,11 +366,14 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 		console.log(`Token optimization: Original messages size ~${JSON.stringify(messages).length} chars, optimized size ~${JSON.stringify(optimizedMessages).length} chars`);
 
 		const toolsOpts = tools ? { tools, tool_choice: 'auto' as const } : {};
+		// Streamed responses only report usage in a final chunk when asked to
+		const streamOpts = stream ? { stream_options: { include_usage: true } } : {};
 		// Call OpenAI API with proper structured output format
 		const response = await client.chat.completions.create({
 			...schemaObj,
 			...extraBody,
             ...toolsOpts,
+			...streamOpts,
 			model: modelName,
 			messages: optimizedMessages as OpenAI.ChatCompletionMessageParam[],
 			max_completion_tokens: maxTokens || 150000,
@@ -349,11 +391,17 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 		let toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
 
 		let content = '';
+		let usage: InferenceUsage | undefined;
 		if (stream) {
 			// If streaming is enabled, handle the stream response
 			if (response instanceof Stream) {
 				let streamIndex = 0;
 				for await (const event of response) {
+					usage = toInferenceUsage(event.usage) ?? usage;
+					if (!event.choices?.length) {
+						// Usage-only chunk sent after the last choice
+						continue;
+					}
 					const delta = event.choices[0]?.delta;
 					if (delta?.tool_calls) {
 						// Accumulate tool calls
@@ -395,14 +443,13 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 				console.error('Expected a stream response but received a ChatCompletion object.');
 				// Attempt to extract content from the non-stream response
 				content = (response as OpenAI.ChatCompletion).choices[0]?.message?.content || '';
+				usage = toInferenceUsage((response as OpenAI.ChatCompletion).usage);
 			}
 		} else {
 			// If not streaming, get the full response content (response is ChatCompletion)
 			content = (response as OpenAI.ChatCompletion).choices[0]?.message?.content || '';
             toolCalls = (response as OpenAI.ChatCompletion).choices[0]?.message?.tool_calls as ChatCompletionMessageFunctionToolCall[] || [];
-			// Also print the total number of tokens used in the prompt
-			const totalTokens = (response as OpenAI.ChatCompletion).usage?.total_tokens;
-			console.log(`Total tokens used in prompt: ${totalTokens}`);
+			usage = toInferenceUsage((response as OpenAI.ChatCompletion).usage);
 		}
 
 		if (!content && !stream && !toolCalls.length) {
@@ -410,10 +457,10 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 			// console.error('No content received from OpenAI', JSON.stringify(response, null, 2));
 			// throw new Error('No content received from OpenAI');
             console.warn('No content received from OpenAI', JSON.stringify(response, null, 2));
-            return { string: "", toolCalls: [] };
+            return { string: "", toolCalls: [], usage };
 		}
 
-        const executedToolCalls = await executeToolCalls(toolCalls);
+        const executedToolCalls = await executeToolCalls(toolCalls, mcpManager);
 
         if (executedToolCalls.length) {
             console.log(`Tool calls executed:`, JSON.stringify(executedToolCalls, null, 2));
@@ -427,8 +474,9 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
                 }))
             ];
             
+            // Tokens of the call that requested the tools are billed along with the follow-up
             if (schema && schemaName) {
-                return await infer<OutputSchema>({
+                const followUp = await infer<OutputSchema>({
                     env,
                     id,
                     messages: newMessages,
@@ -440,11 +488,14 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
                     maxTokens,
                     stream,
                     tools,
+                    mcpManager,
                     reasoning_effort,
                     temperature,
+                    apiKey: apiKeyOverride,
                 });
+                return { ...followUp, usage: addInferenceUsage(usage, followUp.usage) };
             } else {
-                return infer({
+                const followUp = await infer({
                     env,
                     id,
                     messages: newMessages,
@@ -452,14 +503,17 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
                     maxTokens,
                     stream,
                     tools,
+                    mcpManager,
                     reasoning_effort,
                     temperature,
+                    apiKey: apiKeyOverride,
                 });
+                return { ...followUp, usage: addInferenceUsage(usage, followUp.usage) };
             }
         }
 
 		if (!schema) {
-			return { string: content, toolCalls: executedToolCalls };
+			return { string: content, toolCalls: executedToolCalls, usage };
 		}
 
 		try {
@@ -478,10 +532,10 @@ export async function infer<OutputSchema extends z.AnyZodObject>({
 				throw new Error(`Failed to validate AI response against schema: ${result.error.message}`);
 			}
 
-			return { object: result.data, toolCalls: executedToolCalls };
+			return { object: result.data, toolCalls: executedToolCalls, usage };
 		} catch (parseError) {
 			console.error('Error parsing response:', parseError);
-			throw new InferError('Failed to parse response', content);
+			throw new InferError('Failed to parse response', content, usage);
 		}
 	} catch (error) {
 		console.error('Error in inferWithSchemaOutput:', error);
@@ -1,4 +1,4 @@
-import { infer, InferError, InferResponseString, InferResponseObject } from './core';
+import { addInferenceUsage, infer, InferenceUsage, InferError, InferResponseString, InferResponseObject } from './core';
 import { createAssistantMessage, createUserMessage, Message } from './common';
 import z from 'zod';
 // import { CodeEnhancementOutput, CodeEnhancementOutputType } from '../codegen/phasewiseGenerator';
@@ -7,9 +7,54 @@ import { ChatCompletionTool, ReasoningEffort } from 'openai/resources.mjs';
 import { AGENT_CONFIG, AgentActionKey, AIModels } from './config';
 import { createLogger } from '../../logger';
 import { ModelConfig } from './config';
+import type { MCPManager } from '../tools/mcpManager';
+import { getEffectiveTemperature, getModelProvider, InferenceContext, resolveModelConfig } from './userModelConfig';
+import { estimateInferenceCost } from './pricing';
+import { DatabaseService } from '../../database/database';
 
 const logger = createLogger('InferenceUtils');
 
+interface InferenceRecord {
+    env: Env;
+    appId: string;
+    userId?: string;
+    agentActionName: AgentActionKey;
+    model: string;
+    usage?: InferenceUsage;
+    startTime: number;
+    retries: number;
+    usedFallback: boolean;
+    success: boolean;
+}
+
+/**
+ * Store the usage and estimated cost of an inference, failures to store are only logged
+ */
+async function recordInference(record: InferenceRecord): Promise<void> {
+    const usage = record.usage ?? { promptTokens: 0, completionTokens: 0, reasoningTokens: 0 };
+    const estimatedCost = estimateInferenceCost(record.model, usage);
+    logger.info(`${record.agentActionName} used ${usage.promptTokens} prompt and ${usage.completionTokens} completion tokens, estimated cost $${estimatedCost.toFixed(4)}`);
+    if (!record.env.DB) {
+        return;
+    }
+    try {
+        await new DatabaseService({ DB: record.env.DB }).recordInferenceUsage({
+            appId: record.appId,
+            userId: record.userId ?? null,
+            agentActionName: record.agentActionName,
+            model: record.model,
+            ...usage,
+            estimatedCost,
+            latencyMs: Date.now() - record.startTime,
+            retries: record.retries,
+            usedFallback: record.usedFallback,
+            success: record.success,
+        });
+    } catch (error) {
+        logger.error('Failed to record inference usage', error);
+    }
+}
+
 const responseRegenerationPrompts = `
 The response you provided was either in an incorrect/unparsable format or was incomplete.
 Please provide a valid response that matches the expected output format exactly.
@@ -31,12 +76,14 @@ interface InferenceParamsBase {
     retryLimit?: number;
     agentActionName: AgentActionKey;
     tools?: ChatCompletionTool[];
+    mcpManager?: MCPManager;
     stream?: {
         chunk_size: number;
         onChunk: (chunk: string) => void;
     };
     reasoning_effort?: ReasoningEffort;
     modelConfig?: ModelConfig;
+    inferenceContext?: InferenceContext; // Model overrides and provider keys of the user the call is made for
 }
 
 interface InferenceParamsStructured<T extends z.AnyZodObject> extends InferenceParamsBase {
@@ -62,20 +109,28 @@ export async function executeInference<T extends z.AnyZodObject>(   {
     retryLimit = 5, // Increased retry limit for better reliability
     stream,
     tools,
+    mcpManager,
     reasoning_effort,
     schema,
     agentActionName,
     format,
     modelName,
-    modelConfig
+    modelConfig,
+    inferenceContext
 }: InferenceParamsBase &    {
     schema?: T;
     format?: SchemaFormat;
 }): Promise<InferResponseString | InferResponseObject<T> | null> {
-    const conf = modelConfig || AGENT_CONFIG[agentActionName];
+    // Throws before any request is made if the user's override is not accepted by the provider
+    const { config: conf, providerKey } = resolveModelConfig(
+        agentActionName,
+        modelConfig || AGENT_CONFIG[agentActionName],
+        inferenceContext
+    );
 
     modelName = modelName || conf.name;
-    temperature = temperature || conf.temperature || 0.2;
+    const requestedModel = modelName;
+    temperature = temperature ?? conf.temperature;
     maxTokens = maxTokens || conf.max_tokens || 16000;
     reasoning_effort = reasoning_effort || conf.reasoning_effort;
     const providerOverride = conf.providerOverride;
@@ -84,9 +139,21 @@ export async function executeInference<T extends z.AnyZodObject>(   {
     const backoffMs = (attempt: number) => Math.min(100 * Math.pow(2, attempt), 10000);
 
     let useCheaperModel = false;
+    // Tokens of failed attempts are billed as well, so they count towards the inference
+    let usage: InferenceUsage | undefined;
+    const record = {
+        env,
+        appId: id,
+        userId: inferenceContext?.userId,
+        agentActionName,
+        startTime: Date.now(),
+    };
 
     for (let attempt = 0; attempt < retryLimit; attempt++) {
+        const currentModel = useCheaperModel ? AIModels.GEMINI_2_5_FLASH : modelName;
         try {
+            // The user's key only authenticates models of its own provider, fallbacks may use platform keys
+            const apiKey = providerKey && getModelProvider(currentModel) === providerKey.provider ? providerKey.apiKey : undefined;
             logger.info(`Starting ${agentActionName} operation with model ${modelName} (attempt ${attempt + 1}/${retryLimit})`);
 
             const result = schema ? await infer<T>({
@@ -97,29 +164,41 @@ export async function executeInference<T extends z.AnyZodObject>(   {
                 schemaName: agentActionName,
                 format,
                 maxTokens,
-                modelName: useCheaperModel ? AIModels.GEMINI_2_5_FLASH : modelName,
+                modelName: currentModel,
                 formatOptions: {
                     debug: false,
                 },
                 tools,
+                mcpManager,
                 stream,
                 reasoning_effort: useCheaperModel ? undefined : reasoning_effort,
-                temperature,
-                providerOverride
+                temperature: getEffectiveTemperature(currentModel, temperature),
+                providerOverride,
+                apiKey
             }) : await infer({
                 env,
                 id,
                 messages,
                 maxTokens,
-                modelName: useCheaperModel ? AIModels.GEMINI_2_5_FLASH: modelName,
+                modelName: currentModel,
                 tools,
+                mcpManager,
                 stream,
                 reasoning_effort: useCheaperModel ? undefined : reasoning_effort,
-                temperature,
-                providerOverride
+                temperature: getEffectiveTemperature(currentModel, temperature),
+                providerOverride,
+                apiKey
             });
             logger.info(`Successfully completed ${agentActionName} operation`);
             // console.log(result);
+            await recordInference({
+                ...record,
+                model: currentModel,
+                usage: addInferenceUsage(usage, result.usage),
+                retries: attempt,
+                usedFallback: currentModel !== requestedModel,
+                success: true,
+            });
             return result;
         } catch (error) {
             const isLastAttempt = attempt === retryLimit - 1;
@@ -129,6 +208,7 @@ export async function executeInference<T extends z.AnyZodObject>(   {
             );
 
             if (error instanceof InferError) {
+                usage = addInferenceUsage(usage, error.usage);
                 // If its an infer error, we can append the partial response to the list of messages and ask a cheaper model to retry the generation
                 if (error.partialResponse && error.partialResponse.length > 1000) {
                     messages.push(createAssistantMessage(error.partialResponse));
@@ -145,6 +225,15 @@ export async function executeInference<T extends z.AnyZodObject>(   {
                 const delay = backoffMs(attempt);
                 logger.info(`Retrying in ${delay}ms...`);
                 await new Promise(resolve => setTimeout(resolve, delay));
+            } else {
+                await recordInference({
+                    ...record,
+                    model: currentModel,
+                    usage,
+                    retries: attempt,
+                    usedFallback: currentModel !== requestedModel,
+                    success: false,
+                });
             }
         }
     }
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { AIModels } from './config';
+import { estimateInferenceCost, MODEL_PRICING, UNKNOWN_MODEL_PRICE } from './pricing';
+
+describe('estimateInferenceCost', () => {
+    it('should charge input and output tokens at the model price per million', () => {
+        const cost = estimateInferenceCost(AIModels.CLAUDE_4_SONNET, {
+            promptTokens: 200_000,
+            completionTokens: 10_000,
+            reasoningTokens: 0,
+        });
+
+        // 0.2M * $3 + 0.01M * $15
+        expect(cost).toBeCloseTo(0.75, 10);
+    });
+
+    it('should not charge reasoning tokens on top of the completion tokens', () => {
+        const usage = { promptTokens: 1_000, completionTokens: 5_000, reasoningTokens: 0 };
+
+        expect(estimateInferenceCost(AIModels.OPENAI_O3, { ...usage, reasoningTokens: 4_000 }))
+            .toBe(estimateInferenceCost(AIModels.OPENAI_O3, usage));
+    });
+
+    it('should cost nothing without tokens', () => {
+        expect(estimateInferenceCost(AIModels.GEMINI_2_5_FLASH, { promptTokens: 0, completionTokens: 0, reasoningTokens: 0 })).toBe(0);
+    });
+
+    it('should price aliases through the entry of their model id', () => {
+        expect(AIModels.GEMINI_2_5_PRO_PREVIEW).toBe(AIModels.GEMINI_2_5_PRO_PREVIEW_06_05);
+
+        const usage = { promptTokens: 1_000_000, completionTokens: 0, reasoningTokens: 0 };
+        expect(estimateInferenceCost(AIModels.GEMINI_2_5_PRO_PREVIEW, usage)).toBe(1.25);
+    });
+
+    it('should charge unknown models at the most expensive known rate', () => {
+        const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, reasoningTokens: 0 };
+
+        expect(estimateInferenceCost('custom/my-finetune', usage)).toBe(UNKNOWN_MODEL_PRICE.input + UNKNOWN_MODEL_PRICE.output);
+        for (const price of Object.values(MODEL_PRICING)) {
+            expect(UNKNOWN_MODEL_PRICE.input).toBeGreaterThanOrEqual(price.input);
+            expect(UNKNOWN_MODEL_PRICE.output).toBeGreaterThanOrEqual(price.output);
+        }
+    });
+
+    it('should have a price for every model', () => {
+        for (const model of Object.values(AIModels)) {
+            expect(MODEL_PRICING[model], model).toBeDefined();
+        }
+    });
+});
@@ -0,0 +1,56 @@
+import { AIModels } from './config';
+import type { InferenceUsage } from './core';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * List prices of the providers, used to estimate what each inference costs
+ * Aliases sharing a model id (e.g. GEMINI_2_5_PRO_PREVIEW) are covered by the entry of that id
+ */
+export const MODEL_PRICING: Record<AIModels, ModelPrice> = {
+    [AIModels.GEMINI_2_5_PRO]: { input: 1.25, output: 10 },
+    [AIModels.GEMINI_2_5_FLASH]: { input: 0.3, output: 2.5 },
+    [AIModels.GEMINI_2_5_FLASH_PREVIEW_05_20]: { input: 0.15, output: 3.5 },
+    [AIModels.GEMINI_2_5_FLASH_LITE]: { input: 0.1, output: 0.4 },
+    [AIModels.GEMINI_2_5_PRO_PREVIEW_05_06]: { input: 1.25, output: 10 },
+    [AIModels.GEMINI_2_5_FLASH_PREVIEW_04_17]: { input: 0.15, output: 3.5 },
+    [AIModels.GEMINI_2_5_PRO_PREVIEW_06_05]: { input: 1.25, output: 10 },
+    [AIModels.GEMINI_2_0_FLASH]: { input: 0.1, output: 0.4 },
+    [AIModels.GEMINI_1_5_FLASH_8B]: { input: 0.0375, output: 0.15 },
+    [AIModels.CLAUDE_3_5_SONNET_LATEST]: { input: 3, output: 15 },
+    [AIModels.CLAUDE_3_7_SONNET_20250219]: { input: 3, output: 15 },
+    [AIModels.CLAUDE_4_OPUS]: { input: 15, output: 75 },
+    [AIModels.CLAUDE_4_SONNET]: { input: 3, output: 15 },
+    [AIModels.OPENAI_O3]: { input: 2, output: 8 },
+    [AIModels.OPENAI_O4_MINI]: { input: 1.1, output: 4.4 },
+    [AIModels.OPENAI_CHATGPT_4O_LATEST]: { input: 5, output: 15 },
+    [AIModels.OPENAI_4_1]: { input: 2, output: 8 },
+    [AIModels.OPENAI_5]: { input: 1.25, output: 10 },
+    [AIModels.OPENAI_5_MINI]: { input: 0.25, output: 2 },
+    [AIModels.OPENAI_OSS]: { input: 0.15, output: 0.6 },
+    [AIModels.OPENROUTER_QWEN_3_CODER]: { input: 0.4, output: 1.6 },
+    [AIModels.OPENROUTER_KIMI_2_5]: { input: 0.6, output: 2.5 },
+    [AIModels.CEREBRAS_GPT_OSS]: { input: 0.25, output: 0.69 },
+    [AIModels.CEREBRAS_QWEN_3_CODER]: { input: 2, output: 2 },
+};
+
+/**
+ * Price of models missing from the table, e.g. custom provider models
+ * Charged at the most expensive known rate so they cannot be used to get around the spend limit
+ */
+export const UNKNOWN_MODEL_PRICE: ModelPrice = MODEL_PRICING[AIModels.CLAUDE_4_OPUS];
+
+/**
+ * Estimated USD cost of an inference
+ * Reasoning tokens are part of the completion tokens and billed as output
+ */
+export function estimateInferenceCost(model: string, usage: InferenceUsage): number {
+    const price = (MODEL_PRICING as Record<string, ModelPrice | undefined>)[model] ?? UNKNOWN_MODEL_PRICE;
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
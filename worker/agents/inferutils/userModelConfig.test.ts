@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { AIModels, ModelConfig } from './config';
+import {
+    DEFAULT_TEMPERATURE,
+    InferenceContext,
+    ModelConfigError,
+    getEffectiveTemperature,
+    resolveModelConfig,
+    validateModelConfig,
+} from './userModelConfig';
+
+describe('getEffectiveTemperature', () => {
+    it('should keep a temperature of 0 instead of falling back to the default', () => {
+        expect(getEffectiveTemperature(AIModels.GEMINI_2_5_PRO, 0)).toBe(0);
+    });
+
+    it('should use the default when no temperature is set', () => {
+        expect(getEffectiveTemperature(AIModels.CLAUDE_4_SONNET)).toBe(DEFAULT_TEMPERATURE);
+    });
+
+    it('should not send a temperature to OpenAI reasoning models', () => {
+        expect(getEffectiveTemperature(AIModels.OPENAI_5, 1)).toBeUndefined();
+        expect(getEffectiveTemperature(AIModels.OPENAI_O3)).toBeUndefined();
+        expect(getEffectiveTemperature(AIModels.OPENAI_4_1, 0.5)).toBe(0.5);
+    });
+});
+
+describe('validateModelConfig', () => {
+    it('should accept a valid config', () => {
+        const config: ModelConfig = { name: AIModels.GEMINI_2_5_PRO, reasoning_effort: 'high', max_tokens: 8000, temperature: 0 };
+        expect(validateModelConfig('blueprint', config)).toEqual([]);
+    });
+
+    it('should reject unsupported models', () => {
+        const config = { name: 'openai/gpt-2' } as unknown as ModelConfig;
+        expect(validateModelConfig('blueprint', config)).toEqual(['Model openai/gpt-2 is not a supported model']);
+    });
+
+    it('should reject out of range parameters', () => {
+        const config: ModelConfig = { name: AIModels.GEMINI_2_5_PRO, max_tokens: 0, temperature: 2.5 };
+        expect(validateModelConfig('blueprint', config)).toEqual([
+            'Max tokens must be an integer between 1 and 128000',
+            'Temperature must be between 0 and 2',
+        ]);
+    });
+
+    it('should reject temperatures other than 1 for OpenAI reasoning models', () => {
+        expect(validateModelConfig('blueprint', { name: AIModels.OPENAI_5, temperature: 0.5 })).toEqual([
+            'Model openai/gpt-5 only supports a temperature of 1',
+        ]);
+        expect(validateModelConfig('blueprint', { name: AIModels.OPENAI_5, temperature: 1 })).toEqual([]);
+    });
+
+    it('should reject temperatures above 1 for Anthropic models', () => {
+        expect(validateModelConfig('blueprint', { name: AIModels.CLAUDE_4_SONNET, temperature: 1.5 })).toEqual([
+            'Model anthropic/claude-sonnet-4-20250514 only supports temperatures up to 1',
+        ]);
+    });
+
+    it('should check the parameters against the fallback model too', () => {
+        const config: ModelConfig = { name: AIModels.GEMINI_2_5_PRO, temperature: 1.5, fallbackModel: AIModels.CLAUDE_4_SONNET };
+        expect(validateModelConfig('blueprint', config)).toEqual([
+            'Fallback model anthropic/claude-sonnet-4-20250514 only supports temperatures up to 1',
+        ]);
+    });
+
+    it('should reject reasoning effort for models without reasoning', () => {
+        expect(validateModelConfig('blueprint', { name: AIModels.OPENAI_4_1, reasoning_effort: 'low' })).toEqual([
+            'Model openai/gpt-4.1-2025-04-14 does not support reasoning effort',
+        ]);
+    });
+
+    it('should reject text-only models for actions that send images', () => {
+        expect(validateModelConfig('screenshotAnalysis', { name: AIModels.CEREBRAS_QWEN_3_CODER })).toEqual([
+            'Model cerebras/qwen-3-coder-480b does not accept images, which screenshotAnalysis requires',
+        ]);
+    });
+
+    it('should reject provider keys of another provider', () => {
+        expect(validateModelConfig('blueprint', { name: AIModels.GEMINI_2_5_PRO }, 'openai')).toEqual([
+            'A openai key cannot be used with google-ai-studio/gemini-2.5-pro',
+        ]);
+        expect(validateModelConfig('blueprint', { name: AIModels.GEMINI_2_5_PRO }, 'google')).toEqual([]);
+    });
+});
+
+describe('resolveModelConfig', () => {
+    const baseConfig: ModelConfig = { name: AIModels.GEMINI_2_5_FLASH, temperature: 0.2, providerOverride: 'cloudflare' };
+
+    it('should use the base config without an override', () => {
+        expect(resolveModelConfig('blueprint', baseConfig)).toEqual({ config: baseConfig });
+        expect(resolveModelConfig('blueprint', baseConfig, { userId: 'user-1', overrides: {} })).toEqual({ config: baseConfig });
+    });
+
+    it('should replace the base config as a whole with the override', () => {
+        const context: InferenceContext = {
+            userId: 'user-1',
+            overrides: {
+                blueprint: {
+                    config: { name: AIModels.CLAUDE_4_SONNET, max_tokens: 4000 },
+                    providerKey: { provider: 'anthropic', apiKey: 'sk-ant' },
+                },
+            },
+        };
+
+        expect(resolveModelConfig('blueprint', baseConfig, context)).toEqual({
+            config: { name: AIModels.CLAUDE_4_SONNET, max_tokens: 4000 },
+            providerKey: { provider: 'anthropic', apiKey: 'sk-ant' },
+        });
+    });
+
+    it('should throw for invalid overrides', () => {
+        const context: InferenceContext = {
+            userId: 'user-1',
+            overrides: { blueprint: { config: { name: AIModels.OPENAI_O3, temperature: 0 } } },
+        };
+
+        expect(() => resolveModelConfig('blueprint', baseConfig, context)).toThrow(ModelConfigError);
+        expect(() => resolveModelConfig('blueprint', baseConfig, context)).toThrow('only supports a temperature of 1');
+    });
+});
@@ -0,0 +1,288 @@
+import { ReasoningEffort } from 'openai/resources.mjs';
+import { AGENT_CONFIG, AgentActionKey, AIModels, ModelConfig } from './config';
+import { DatabaseService } from '../../database/database';
+import type { UserModelConfig } from '../../database/schema';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('UserModelConfig');
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['minimal', 'low', 'medium', 'high'];
+
+export const MAX_TOKENS_LIMIT = 128000;
+
+/**
+ * Temperature of inferences that neither the caller nor the model config sets one for
+ */
+export const DEFAULT_TEMPERATURE = 0.2;
+
+const AI_MODELS = new Set<string>(Object.values(AIModels));
+
+/**
+ * Models that reject the reasoning_effort parameter
+ */
+const MODELS_WITHOUT_REASONING = new Set<string>([
+    AIModels.GEMINI_2_0_FLASH,
+    AIModels.GEMINI_1_5_FLASH_8B,
+    AIModels.CLAUDE_3_5_SONNET_LATEST,
+    AIModels.OPENAI_CHATGPT_4O_LATEST,
+    AIModels.OPENAI_4_1,
+    AIModels.OPENROUTER_QWEN_3_CODER,
+    AIModels.OPENROUTER_KIMI_2_5,
+    AIModels.CEREBRAS_QWEN_3_CODER,
+]);
+
+/**
+ * Models that only accept text input
+ */
+const MODELS_WITHOUT_VISION = new Set<string>([
+    AIModels.OPENAI_OSS,
+    AIModels.OPENROUTER_QWEN_3_CODER,
+    AIModels.OPENROUTER_KIMI_2_5,
+    AIModels.CEREBRAS_GPT_OSS,
+    AIModels.CEREBRAS_QWEN_3_CODER,
+]);
+
+/**
+ * Actions whose prompts include images
+ */
+const VISION_ACTIONS = new Set<AgentActionKey>(['screenshotAnalysis']);
+
+/**
+ * Model provider prefixes mapped to the provider names used in user_secrets
+ */
+const SECRET_PROVIDER_ALIASES: Record<string, string> = {
+    'google-ai-studio': 'google',
+    gemini: 'google',
+    claude: 'anthropic',
+};
+
+/**
+ * Provider whose API key authenticates requests for a model, e.g. "openai" for "openai/o3"
+ */
+export function getModelProvider(model: string): string {
+    const match = model.match(/^\[(.*?)\]/);
+    const provider = match ? match[1] : model.split('/')[0];
+    return SECRET_PROVIDER_ALIASES[provider] || provider;
+}
+
+export function isAIModel(model: string): model is AIModels {
+    return AI_MODELS.has(model);
+}
+
+export function isAgentActionKey(key: string): key is AgentActionKey {
+    return Object.prototype.hasOwnProperty.call(AGENT_CONFIG, key);
+}
+
+function isOpenAIReasoningModel(model: string): boolean {
+    return /^openai\/(o\d|gpt-5)/.test(model);
+}
+
+/**
+ * Temperature actually sent to a model, undefined for OpenAI reasoning models which reject the parameter
+ * 0 is a valid temperature, so only unset values fall back to the default
+ */
+export function getEffectiveTemperature(model: string, temperature?: number): number | undefined {
+    if (isOpenAIReasoningModel(model)) {
+        return undefined;
+    }
+    return temperature ?? DEFAULT_TEMPERATURE;
+}
+
+/**
+ * Check the parameters of a model against what the provider accepts
+ */
+function validateModelParameters(actionKey: AgentActionKey, model: string, config: ModelConfig, label: string): string[] {
+    const issues: string[] = [];
+
+    if (!isAIModel(model)) {
+        return [`${label} ${model} is not a supported model`];
+    }
+    if (config.reasoning_effort && MODELS_WITHOUT_REASONING.has(model)) {
+        issues.push(`${label} ${model} does not support reasoning effort`);
+    }
+    if (config.reasoning_effort === 'minimal' && !/^openai\/gpt-5/.test(model)) {
+        issues.push(`Minimal reasoning effort is only supported by GPT-5 models, not ${model}`);
+    }
+    // Reasoning models only run at their default temperature of 1, which is why none is sent to them
+    if (config.temperature !== undefined && config.temperature !== 1 && isOpenAIReasoningModel(model)) {
+        issues.push(`${label} ${model} only supports a temperature of 1`);
+    }
+    const temperature = getEffectiveTemperature(model, config.temperature);
+    if (temperature !== undefined && temperature > 1 && getModelProvider(model) === 'anthropic') {
+        issues.push(`${label} ${model} only supports temperatures up to 1`);
+    }
+    if (VISION_ACTIONS.has(actionKey) && MODELS_WITHOUT_VISION.has(model)) {
+        issues.push(`${label} ${model} does not accept images, which ${actionKey} requires`);
+    }
+    return issues;
+}
+
+/**
+ * Validate an effective model config for an action
+ * The fallback model is used with the same parameters, so it has to accept them as well
+ * @returns A list of human readable issues, empty when the config is valid
+ */
+export function validateModelConfig(
+    actionKey: AgentActionKey,
+    config: ModelConfig,
+    providerKeyProvider?: string
+): string[] {
+    const issues = validateModelParameters(actionKey, config.name, config, 'Model');
+
+    if (config.reasoning_effort && !REASONING_EFFORTS.includes(config.reasoning_effort)) {
+        issues.push(`Unknown reasoning effort ${config.reasoning_effort}`);
+    }
+    if (config.max_tokens !== undefined && (!Number.isInteger(config.max_tokens) || config.max_tokens < 1 || config.max_tokens > MAX_TOKENS_LIMIT)) {
+        issues.push(`Max tokens must be an integer between 1 and ${MAX_TOKENS_LIMIT}`);
+    }
+    if (config.temperature !== undefined && (config.temperature < 0 || config.temperature > 2)) {
+        issues.push('Temperature must be between 0 and 2');
+    }
+    if (config.fallbackModel) {
+        issues.push(...validateModelParameters(actionKey, config.fallbackModel, config, 'Fallback model'));
+    }
+    if (providerKeyProvider && isAIModel(config.name) && getModelProvider(config.name) !== providerKeyProvider) {
+        issues.push(`A ${providerKeyProvider} key cannot be used with ${config.name}`);
+    }
+    return issues;
+}
+
+export class ModelConfigError extends Error {
+    constructor(
+        message: string,
+        public readonly issues: string[],
+    ) {
+        super(message);
+        this.name = 'ModelConfigError';
+    }
+}
+
+/**
+ * User defined model config of an action, replaces the platform default as a whole
+ * Unset parameters are left to the provider's defaults
+ */
+export type ModelConfigOverride = Omit<ModelConfig, 'providerOverride'>;
+
+export interface UserProviderKey {
+    provider: string;
+    apiKey: string;
+}
+
+export interface ActionModelOverride {
+    config: ModelConfigOverride;
+    providerKey?: UserProviderKey;
+}
+
+/**
+ * Per-user model overrides, threaded through inference calls made on the user's behalf
+ */
+export interface InferenceContext {
+    userId: string;
+    overrides: Partial<Record<AgentActionKey, ActionModelOverride>>;
+}
+
+/**
+ * Convert a stored override row to a model config, dropping unset columns
+ */
+export function toModelConfigOverride(row: UserModelConfig): ModelConfigOverride {
+    const override: ModelConfigOverride = { name: row.modelName as AIModels };
+    if (row.reasoningEffort) override.reasoning_effort = row.reasoningEffort;
+    if (row.maxTokens !== null) override.max_tokens = row.maxTokens;
+    if (row.temperature !== null) override.temperature = row.temperature;
+    if (row.fallbackModel) override.fallbackModel = row.fallbackModel as AIModels;
+    return override;
+}
+
+/**
+ * Resolve the effective model config of an action for a single inference call
+ * @throws ModelConfigError when the user's override results in a combination the provider would reject
+ */
+export function resolveModelConfig(
+    actionKey: AgentActionKey,
+    baseConfig: ModelConfig,
+    context?: InferenceContext
+): { config: ModelConfig; providerKey?: UserProviderKey } {
+    const override = context?.overrides[actionKey];
+    if (!override) {
+        return { config: baseConfig };
+    }
+
+    const config: ModelConfig = override.config;
+    const issues = validateModelConfig(actionKey, config, override.providerKey?.provider);
+    if (issues.length > 0) {
+        throw new ModelConfigError(`Invalid model configuration for ${actionKey}: ${issues.join('; ')}`, issues);
+    }
+    return { config, providerKey: override.providerKey };
+}
+
+/**
+ * Validate all overrides of a user, e.g. after models were retired from the platform
+ * @throws ModelConfigError listing the issues of every invalid override
+ */
+export function assertValidInferenceContext(context: InferenceContext): void {
+    const issues: string[] = [];
+    for (const [actionKey, override] of Object.entries(context.overrides)) {
+        if (!isAgentActionKey(actionKey) || !override) {
+            continue;
+        }
+        issues.push(...validateModelConfig(actionKey, override.config, override.providerKey?.provider).map(issue => `${actionKey}: ${issue}`));
+    }
+    if (issues.length > 0) {
+        throw new ModelConfigError(`Invalid model configuration: ${issues.join('; ')}`, issues);
+    }
+}
+
+/**
+ * Load a user's model overrides, decrypting the provider keys they reference
+ * Keys that cannot be decrypted are dropped so the platform key is used instead
+ */
+export async function loadInferenceContext(env: Env, userId: string): Promise<InferenceContext> {
+    const context: InferenceContext = { userId, overrides: {} };
+    if (!env.DB) {
+        return context;
+    }
+
+    const dbService = new DatabaseService({ DB: env.DB });
+    const rows = await dbService.getUserModelConfigs(userId);
+    if (rows.length === 0) {
+        return context;
+    }
+
+    const secretsService = new SecretsService(dbService, env);
+    const secretProviders = rows.some(row => row.providerSecretId)
+        ? new Map((await secretsService.getUserSecrets(userId)).map(secret => [secret.id, secret.provider]))
+        : new Map<string, string>();
+
+    for (const row of rows) {
+        if (!isAgentActionKey(row.agentActionName)) {
+            continue;
+        }
+        const override: ActionModelOverride = { config: toModelConfigOverride(row) };
+        const provider = row.providerSecretId ? secretProviders.get(row.providerSecretId) : undefined;
+        if (row.providerSecretId && provider) {
+            try {
+                override.providerKey = {
+                    provider,
+                    apiKey: await secretsService.getSecretValue(userId, row.providerSecretId),
+                };
+            } catch (error) {
+                logger.error(`Failed to load provider key for ${row.agentActionName}:`, error);
+            }
+        }
+        context.overrides[row.agentActionName] = override;
+    }
+    return context;
+}
+
+/**
+ * Load the model overrides of an app's owner, undefined for anonymous apps
+ */
+export async function loadAppInferenceContext(env: Env, appId: string): Promise<InferenceContext | undefined> {
+    if (!env.DB) {
+        return undefined;
+    }
+    const dbService = new DatabaseService({ DB: env.DB });
+    const userId = await dbService.getAppOwnerId(appId);
+    return userId ? loadInferenceContext(env, userId) : undefined;
+}
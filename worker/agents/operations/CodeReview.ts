@@ -193,6 +193,7 @@ export class CodeReviewOperation extends AgentOperation<CodeReviewInputs, CodeRe
                 messages,
                 schema: CodeReviewOutput,
                 agentActionName: "codeReview",
+                inferenceContext: options.inferenceContext,
                 format: 'markdown'
             });
 
@@ -84,6 +84,7 @@ export class FastCodeFixerOperation extends AgentOperation<FastCodeFixerInputs,
             env: env,
             messages,
             agentActionName: "fastCodeFixer",
+            inferenceContext: options.inferenceContext,
         });
 
         const files = codeGenerationFormat.deserialize(result.string);
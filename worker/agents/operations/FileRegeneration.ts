@@ -2,7 +2,6 @@ import { FileGenerationOutputType } from '../schemas';
 import { AgentOperation, OperationOptions } from '../operations/common';
 import { RealtimeCodeFixer } from '../assistants/realtimeCodeFixer';
 import { FileOutputType } from '../schemas';
-import { AGENT_CONFIG } from '../inferutils/config';
 
 export interface FileRegenerationInputs {
     file: FileOutputType;
@@ -82,13 +81,14 @@ export class FileRegenerationOperation extends AgentOperation<FileRegenerationIn
         try {
             
             // Use realtime code fixer to fix the file
-            const realtimeCodeFixer = new RealtimeCodeFixer(options.env, options.agentId, false, undefined, AGENT_CONFIG.fileRegeneration, SYSTEM_PROMPT, USER_PROMPT);
+            const realtimeCodeFixer = new RealtimeCodeFixer(options.env, options.agentId, false, undefined, 'fileRegeneration', SYSTEM_PROMPT, USER_PROMPT);
             const fixedFile = await realtimeCodeFixer.run(
                 inputs.file, {
                     previousFiles: options.context.allFiles,
                     query: options.context.query,
                     blueprint: options.context.blueprint,
-                    template: options.context.templateDetails
+                    template: options.context.templateDetails,
+                    inferenceContext: options.inferenceContext
                 },
                 undefined,
                 inputs.issues,
@@ -0,0 +1,148 @@
+import { AgentActionSchema, AgentActionType, PhaseConceptType } from '../schemas';
+import { IssueReport } from '../domain/values/IssueReport';
+import { createUserMessage } from '../inferutils/common';
+import { executeInference } from '../inferutils/infer';
+import { PROMPT_UTILS } from '../prompts';
+import { Message } from '../inferutils/common';
+import { ActionHistoryEntry } from '../core/types';
+import { AgentOperation, getSystemPromptWithProjectContext, OperationOptions } from '../operations/common';
+
+export interface NextActionSelectionInputs {
+    issues: IssueReport;
+    history: ActionHistoryEntry[];
+    currentPhase?: PhaseConceptType;
+    pendingUserInputs: string[];
+    remainingSteps: number;
+}
+
+const SYSTEM_PROMPT = `<ROLE>
+    You are a seasoned engineering lead at Cloudflare, orchestrating the development of a web application by a team of specialised AI engineers.
+    You don't write code yourself. You decide, one step at a time, which tool the team should run next to get the project shipped.
+</ROLE>
+
+<TASK>
+    You are given the blueprint (PRD), the client query, the current snapshot of the codebase, the actions taken so far with their outcomes and the current issues in the project.
+    Pick the single most valuable next action. Keep the project deployable at every step and converge towards a complete, polished product.
+</TASK>
+
+<AVAILABLE ACTIONS>
+    • generate_phase - Plan the next development phase (based on the blueprint, progress, issues and user suggestions). No data.
+    • implement_phase - Write the code for the currently planned phase, deploy it and run deterministic fixes. No data. Only valid when a phase is planned and not yet implemented.
+    • regenerate_file - Rewrite a single existing file to fix specific issues. Data: { "file_path": string, "issues": string[] }
+    • run_static_analysis - Run lint and typecheck on the codebase. No data.
+    • fetch_runtime_errors - Fetch runtime errors reported by the preview sandbox. No data.
+    • run_tests - Generate tests for implemented phases that have none yet and run the test suite. No data. Only has an effect when testing is enabled for the app.
+    • deploy - Redeploy the whole codebase to the preview sandbox. No data. Use if the preview seems broken or stale.
+    • finish - Conclude the process. Only when all phases of the roadmap are implemented and no critical issues remain.
+</AVAILABLE ACTIONS>
+
+<GUIDELINES>
+    • Never repeat the same diagnostic action (run_static_analysis, fetch_runtime_errors, run_tests) twice in a row without making a change in between.
+    • Prefer implementing planned phases over endless fixing. Fix critical runtime and type errors before planning new phases.
+    • Pending user suggestions are highest priority: plan a phase for them with generate_phase.
+    • You have a limited step budget. Make sure to finish before it runs out.
+</GUIDELINES>
+
+<CLIENT REQUEST>
+"{{query}}"
+</CLIENT REQUEST>
+
+<BLUEPRINT>
+{{blueprint}}
+</BLUEPRINT>
+
+<STARTING TEMPLATE>
+{{template}}
+</STARTING TEMPLATE>
+
+<DEPENDENCIES>
+template dependencies:
+{{dependencies}}
+
+additional dependencies/frameworks provided:
+{{blueprintDependencies}}
+</DEPENDENCIES>`;
+
+const USER_PROMPT = `**SELECT THE NEXT ACTION**
+
+<CURRENT PHASE>
+{{currentPhase}}
+</CURRENT PHASE>
+
+<ACTION HISTORY>
+{{history}}
+</ACTION HISTORY>
+
+<PENDING USER SUGGESTIONS>
+{{userSuggestions}}
+</PENDING USER SUGGESTIONS>
+
+<CURRENT ISSUES>
+Summary: {{issuesSummary}}
+{{issues}}
+</CURRENT ISSUES>
+
+Remaining step budget: {{remainingSteps}}`;
+
+const formatHistory = (history: ActionHistoryEntry[]): string => {
+    if (history.length === 0) {
+        return 'No actions taken yet';
+    }
+    return history.map(entry => `${entry.step}. ${entry.action}${Object.keys(entry.data).length > 0 ? ` ${JSON.stringify(entry.data)}` : ''} => ${entry.observation}`).join('\n');
+};
+
+const formatIssues = (issues: IssueReport): string => {
+    return `Runtime errors:
+${PROMPT_UTILS.serializeErrors(issues.runtimeErrors)}
+Static analysis:
+${PROMPT_UTILS.serializeStaticAnalysis(issues.staticAnalysis)}${issues.testResults ? `
+Test failures:
+${PROMPT_UTILS.serializeTestResults(issues.testResults)}` : ''}${issues.hasVisualRegressions() ? `
+Visual regressions:
+${PROMPT_UTILS.serializeVisualRegressions(issues.visualRegressions)}` : ''}`;
+};
+
+const userPromptFormatter = (inputs: NextActionSelectionInputs) => {
+    const { issues, history, currentPhase, pendingUserInputs, remainingSteps } = inputs;
+    const prompt = USER_PROMPT
+        .replaceAll('{{currentPhase}}', currentPhase ? `${currentPhase.name}: ${currentPhase.description} (planned, not yet implemented)` : 'None planned')
+        .replaceAll('{{history}}', formatHistory(history))
+        .replaceAll('{{userSuggestions}}', pendingUserInputs.length > 0 ? pendingUserInputs.map((input, index) => `${index + 1}. ${input}`).join('\n') : 'None')
+        .replaceAll('{{issuesSummary}}', issues.getSummary())
+        .replaceAll('{{issues}}', issues.hasIssues() ? formatIssues(issues) : '')
+        .replaceAll('{{remainingSteps}}', String(remainingSteps));
+    return PROMPT_UTILS.verifyPrompt(prompt);
+};
+
+export class NextActionSelectionOperation extends AgentOperation<NextActionSelectionInputs, AgentActionType> {
+    async execute(
+        inputs: NextActionSelectionInputs,
+        options: OperationOptions
+    ): Promise<AgentActionType> {
+        const { env, logger, context } = options;
+        try {
+            logger.info(`Selecting next action, ${inputs.history.length} actions taken so far`);
+
+            const messages: Message[] = [
+                ...getSystemPromptWithProjectContext(SYSTEM_PROMPT, context, false),
+                createUserMessage(userPromptFormatter(inputs))
+            ];
+
+            const { object: result } = await executeInference({
+                id: options.agentId,
+                env: env,
+                messages,
+                agentActionName: "agentOrchestration",
+                inferenceContext: options.inferenceContext,
+                schema: AgentActionSchema,
+            });
+
+            logger.info(`Selected next action: ${result.action}, reasoning: ${result.reasoning}`);
+
+            return result;
+        } catch (error) {
+            logger.error("Error selecting next action:", error);
+            throw error;
+        }
+    }
+}
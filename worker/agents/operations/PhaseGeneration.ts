@@ -143,6 +143,7 @@ export class PhaseGenerationOperation extends AgentOperation<PhaseGenerationInpu
                 env: env,
                 messages,
                 agentActionName: "phaseGeneration",
+                inferenceContext: options.inferenceContext,
                 schema: PhaseConceptGenerationSchema,
                 // format: 'markdown',
             });
@@ -179,6 +180,7 @@ export class PhaseGenerationOperation extends AgentOperation<PhaseGenerationInpu
                 env: env,
                 messages,
                 agentActionName: "phaseGeneration",
+                inferenceContext: options.inferenceContext,
                 schema: PhaseConceptGenerationSchema,
                 format: 'markdown',
             });
@@ -10,7 +10,6 @@ import { AgentOperation, getSystemPromptWithProjectContext, OperationOptions } f
 import { SCOFFormat, SCOFParsingState } from '../code-formats/scof';
 import { TemplateRegistry } from '../inferutils/schemaFormatters';
 import { RealtimeCodeFixer } from '../assistants/realtimeCodeFixer';
-import { AGENT_CONFIG } from '../inferutils/config';
 
 export interface PhaseImplementationInputs {
     phase: PhaseConceptType
@@ -276,18 +275,20 @@ export class PhaseImplementationOperation extends AgentOperation<PhaseImplementa
         //         file_purpose: FileProcessing.findFilePurpose(f.file_path, phase, allFilesLookup)
         //     }));
 
-        let modelConfig = AGENT_CONFIG.phaseImplementation;
-        if (inputs.isFirstPhase) {
-            modelConfig = AGENT_CONFIG.firstPhaseImplementation;
-        }
+        // Only tools of the MCP servers the user enabled for this app are offered during implementation
+        const mcpTools = options.mcpManager
+            ? await options.mcpManager.getToolDefinitions({ includeBuiltin: false })
+            : [];
     
         // Execute inference with streaming
         await executeInference({
             id: options.agentId,    
             env: env,
-            agentActionName: "phaseImplementation",
+            agentActionName: inputs.isFirstPhase ? "firstPhaseImplementation" : "phaseImplementation",
             messages,
-            modelConfig,
+            inferenceContext: options.inferenceContext,
+            tools: mcpTools.length > 0 ? mcpTools : undefined,
+            mcpManager: options.mcpManager,
             stream: {
                 chunk_size: 256,
                 onChunk: (chunk: string) => {
@@ -350,7 +351,8 @@ export class PhaseImplementationOperation extends AgentOperation<PhaseImplementa
                                     // previousFiles: previousFiles,
                                     query: context.query,
                                     blueprint: context.blueprint,
-                                    template: context.templateDetails
+                                    template: context.templateDetails,
+                                    inferenceContext: options.inferenceContext
                                 },
                                 phase
                             );
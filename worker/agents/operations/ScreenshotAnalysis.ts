@@ -7,6 +7,11 @@ import { AgentOperation, OperationOptions } from './common';
 
 export interface ScreenshotAnalysisInput {
     screenshotData: ScreenshotData,
+    // Same viewport after an earlier phase, to spot layout that broke since then
+    previousScreenshot?: {
+        screenshotData: ScreenshotData,
+        phaseName: string,
+    },
 }
 
 const SYSTEM_PROMPT = `<ROLE>
@@ -25,6 +30,7 @@ const SYSTEM_PROMPT = `<ROLE>
 5. Look for any broken elements or rendering issues
 6. Verify layout, spacing, and alignment matches the design intent
 7. Check for any missing UI elements specified in the blueprint
+8. When a previous screenshot is provided, compare against it and report layout regressions
 </TASKS>
 
 <RESPONSE>
@@ -45,10 +51,17 @@ Analyze the screenshot and provide:
 3. Suggestions for improvements
 4. Whether the UI matches the blueprint specifications`
 
-const userPromptFormatter = (screenshotData: { viewport: { width: number; height: number }; }, blueprint: Blueprint) => {
-    const prompt = USER_PROMPT
+const COMPARISON_PROMPT = `
+
+The first image is the current screenshot, the second image was taken at the same viewport after the earlier phase "{{previousPhase}}".
+Report as layout regressions anything that rendered correctly before and is broken now: overflowing or overlapping elements, collapsed or misaligned sections, content that disappeared or became unreachable, horizontal scrolling.
+Intentional changes made by the new phase, such as new sections or restyled content, are not regressions.`
+
+const userPromptFormatter = (screenshotData: { viewport: { width: number; height: number }; }, blueprint: Blueprint, previousPhaseName?: string) => {
+    const prompt = (USER_PROMPT + (previousPhaseName ? COMPARISON_PROMPT : ''))
         .replaceAll('{{blueprint}}', JSON.stringify(blueprint, null, 2))
         .replaceAll('{{viewport}}', `${screenshotData.viewport.width}x${screenshotData.viewport.height}`)
+        .replaceAll('{{previousPhase}}', previousPhaseName || '')
     return PROMPT_UTILS.verifyPrompt(prompt);
 }
 
@@ -57,22 +70,25 @@ export class ScreenshotAnalysisOperation extends AgentOperation<ScreenshotAnalys
         input: ScreenshotAnalysisInput,
         options: OperationOptions
     ): Promise<ScreenshotAnalysisType> {
-        const { screenshotData } = input;
+        const { screenshotData, previousScreenshot } = input;
         const { env, context, logger } = options;
         try {
             logger.info('Analyzing screenshot from preview', {
                 url: screenshotData.url,
                 viewport: screenshotData.viewport,
                 hasScreenshotData: !!screenshotData.screenshot,
-                screenshotDataLength: screenshotData.screenshot?.length || 0
+                screenshotDataLength: screenshotData.screenshot?.length || 0,
+                comparedTo: previousScreenshot?.phaseName
             });
     
             // Create multi-modal messages
             const messages = [
                 createSystemMessage(SYSTEM_PROMPT),
                 createMultiModalUserMessage(
-                    userPromptFormatter(screenshotData, context.blueprint),
-                    screenshotData.screenshot, // The base64 data URL
+                    userPromptFormatter(screenshotData, context.blueprint, previousScreenshot?.phaseName),
+                    previousScreenshot
+                        ? [screenshotData.screenshot, previousScreenshot.screenshotData.screenshot]
+                        : screenshotData.screenshot, // The base64 data URL
                     'high' // Use high detail for better analysis
                 )
             ];
@@ -83,6 +99,7 @@ export class ScreenshotAnalysisOperation extends AgentOperation<ScreenshotAnalys
                 messages,
                 schema: ScreenshotAnalysisSchema,
                 agentActionName: 'screenshotAnalysis',
+                inferenceContext: options.inferenceContext,
                 retryLimit: 3
             });
     
@@ -94,6 +111,7 @@ export class ScreenshotAnalysisOperation extends AgentOperation<ScreenshotAnalys
             logger.info('Screenshot analysis completed', {
                 hasIssues: analysisResult.hasIssues,
                 issueCount: analysisResult.issues.length,
+                regressionCount: analysisResult.layoutRegressions.length,
                 matchesBlueprint: analysisResult.uiCompliance.matchesBlueprint
             });
     
@@ -0,0 +1,164 @@
+import { FileOutputType, PhaseConceptType, TestGenerationOutput, TestGenerationOutputType } from '../schemas';
+import { createUserMessage } from '../inferutils/common';
+import { executeInference } from '../inferutils/infer';
+import { PROMPT_UTILS } from '../prompts';
+import { AgentOperation, getSystemPromptWithProjectContext, OperationOptions } from '../operations/common';
+
+export interface TestGenerationInputs {
+    phases: PhaseConceptType[];     // Implemented phases that have no tests yet
+}
+
+/**
+ * Installs the test runner and Testing Library into the generated app
+ */
+export const TEST_DEPENDENCIES_COMMAND = 'bun add -d vitest jsdom @testing-library/react @testing-library/jest-dom @testing-library/user-event';
+
+/**
+ * Runs the test suite and prints Vitest's JSON report
+ * The report is written to a file so that failing tests don't make the command itself fail,
+ * and removed first so a run that times out is never read as the previous report.
+ */
+export const TEST_RUN_COMMAND = 'rm -f node_modules/.vitest-results.json; timeout 120s bunx vitest run --config vitest.config.ts --reporter=json --outputFile=node_modules/.vitest-results.json > /dev/null 2>&1; cat node_modules/.vitest-results.json';
+
+/**
+ * Vitest setup shared by all generated tests, kept separate from the template's vite config
+ * so that dev server plugins don't run in the test environment
+ */
+export const TEST_SETUP_FILES: FileOutputType[] = [
+    {
+        file_path: 'vitest.config.ts',
+        file_purpose: 'Vitest configuration for the generated tests',
+        file_contents: `import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+import { fileURLToPath } from 'node:url';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'jsdom',
+    globals: true,
+    setupFiles: ['./src/test/setup.ts'],
+    include: ['src/**/*.test.{ts,tsx}'],
+  },
+});
+`,
+    },
+    {
+        file_path: 'src/test/setup.ts',
+        file_purpose: 'Registers the Testing Library DOM matchers for Vitest',
+        file_contents: `import '@testing-library/jest-dom/vitest';
+`,
+    },
+];
+
+const SYSTEM_PROMPT = `<ROLE>
+    You are a Senior Software Engineer in Test at Cloudflare. You write focused, reliable tests that catch real bugs in React applications without being brittle.
+</ROLE>
+
+<GOAL>
+    Write Vitest and React Testing Library tests for the phases of the application that were just implemented.
+    The tests are run automatically and every failure is sent back to the developers as a bug to fix, so a failing test must always mean the application does not behave as the blueprint describes.
+</GOAL>
+
+<TESTING ENVIRONMENT>
+    •   Vitest runs with \`globals: true\` in a jsdom environment. Import \`describe\`, \`it\`, \`expect\` and \`vi\` from 'vitest' anyway for clarity.
+    •   \`@testing-library/react\`, \`@testing-library/user-event\` and \`@testing-library/jest-dom\` matchers (e.g. \`toBeInTheDocument\`) are available.
+    •   The \`@/\` import alias points at \`src/\`.
+    •   There is no network and no Cloudflare Worker runtime. Mock \`fetch\` with \`vi.fn()\` or \`vi.spyOn(globalThis, 'fetch')\` whenever the code under test calls an API.
+    •   Browser APIs missing from jsdom (e.g. \`matchMedia\`, \`ResizeObserver\`, canvas) must be stubbed in the test file that needs them.
+</TESTING ENVIRONMENT>
+
+<GUIDELINES>
+    •   Prioritize pure logic first (utilities, reducers, stores, game rules, calculations), then the primary user flows of each page.
+    •   Test behavior the user can observe through roles, labels and text, never implementation details or CSS classes.
+    •   Only assert what the blueprint and the code clearly specify. Do not guess copy text, exact layouts or animation timings.
+    •   Wrap components that need routing in a \`MemoryRouter\` and components that need providers in the providers the app uses.
+    •   Keep each test file small: a handful of meaningful tests per file, at most one file per source file under test.
+    •   Name test files after the source file they test, next to it, e.g. \`src/lib/game.test.ts\` for \`src/lib/game.ts\`.
+    •   Do not write tests for files generated by the template that were not changed, for config files or for the worker backend.
+    •   Do not modify application files and do not write snapshot tests.
+</GUIDELINES>
+
+<CLIENT REQUEST>
+"{{query}}"
+</CLIENT REQUEST>
+
+<BLUEPRINT>
+{{blueprint}}
+</BLUEPRINT>
+
+<DEPENDENCIES>
+{{dependencies}}
+</DEPENDENCIES>
+
+{{template}}`;
+
+const USER_PROMPT = `<WRITE TESTS>
+Write tests for the following implemented phases:
+
+{{phases}}
+
+Files already covered by tests: {{testedFiles}}
+</WRITE TESTS>`;
+
+const userPromptFormatter = (phases: PhaseConceptType[], existingTests: string[]) => {
+    const phasesText = phases.map(phase => `Phase: ${phase.name}
+Description: ${phase.description}
+Files: ${phase.files.map(file => file.path).join(', ')}`).join('\n\n');
+
+    const prompt = USER_PROMPT
+        .replaceAll('{{phases}}', phasesText)
+        .replaceAll('{{testedFiles}}', existingTests.length > 0 ? existingTests.join(', ') : 'None');
+    return PROMPT_UTILS.verifyPrompt(prompt);
+}
+
+export function isTestFile(filePath: string): boolean {
+    return /\.test\.(ts|tsx)$/.test(filePath);
+}
+
+export class TestGenerationOperation extends AgentOperation<TestGenerationInputs, TestGenerationOutputType> {
+    async execute(
+        inputs: TestGenerationInputs,
+        options: OperationOptions
+    ): Promise<TestGenerationOutputType> {
+        const { phases } = inputs;
+        const { env, logger, context } = options;
+
+        logger.info(`Generating tests for ${phases.length} phases`, { phases: phases.map(phase => phase.name) });
+
+        const existingTests = context.allFiles.map(file => file.file_path).filter(isTestFile);
+        const messages = getSystemPromptWithProjectContext(SYSTEM_PROMPT, context, true);
+        messages.push(createUserMessage(userPromptFormatter(phases, existingTests)));
+
+        try {
+            const { object: result } = await executeInference({
+                id: options.agentId,
+                env: env,
+                messages,
+                schema: TestGenerationOutput,
+                agentActionName: "testGeneration",
+                inferenceContext: options.inferenceContext,
+                format: 'markdown'
+            });
+
+            if (!result) {
+                throw new Error("Failed to get test generation result");
+            }
+
+            // Tests must never overwrite application code
+            const files = result.files.filter(file => isTestFile(file.file_path));
+            if (files.length < result.files.length) {
+                logger.warn(`Discarded ${result.files.length - files.length} generated files that are not test files`);
+            }
+            return { ...result, files };
+        } catch (error) {
+            logger.error("Error during test generation:", error);
+            throw error;
+        }
+    }
+}
@@ -82,8 +82,8 @@ export class UserConversationProcessor extends AgentOperation<UserConversationIn
             let isInUserResponse = false;
             let buffer = '';
 
-            // Get available tools for the conversation
-            const tools = await getToolDefinitions();
+            // Get available tools for the conversation, including the MCP servers enabled for the app
+            const tools = await getToolDefinitions(options.mcpManager);
             
             // Don't save the system prompts so that every time new initial prompts can be generated with latest project context
             await executeInference({
@@ -91,7 +91,9 @@ export class UserConversationProcessor extends AgentOperation<UserConversationIn
                 env: env,
                 messages: [...systemPrompts, ...messages],
                 agentActionName: "conversationalResponse",
+                inferenceContext: options.inferenceContext,
                 tools, // Enable tools for the conversational AI
+                mcpManager: options.mcpManager,
                 stream: {
                     onChunk: (chunk) => {
                         logger.info("Processing user message chunk", { 
@@ -170,6 +170,7 @@ export class UserSuggestionProcessor extends AgentOperation<UserSuggestionProces
                 env: env,
                 messages,
                 agentActionName: "userSuggestionProcessor",
+                inferenceContext: options.inferenceContext,
                 schema: TechnicalInstructionSchema,
                 format: 'markdown',
             });
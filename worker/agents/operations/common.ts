@@ -3,6 +3,8 @@ import { GenerationContext } from "../domain/values/GenerationContext";
 import { Message } from "../inferutils/common";
 import { createUserMessage, createSystemMessage, createAssistantMessage } from "../inferutils/common";
 import { generalSystemPromptBuilder, USER_PROMPT_FORMATTER } from "../prompts";
+import type { MCPManager } from "../tools/mcpManager";
+import type { InferenceContext } from "../inferutils/userModelConfig";
 
 export function getSystemPromptWithProjectContext(
     systemPrompt: string,
@@ -36,6 +38,8 @@ export interface OperationOptions {
     agentId: string;
     context: GenerationContext;
     logger: StructuredLogger;
+    mcpManager?: MCPManager; // MCP servers enabled for the app
+    inferenceContext?: InferenceContext; // Model overrides of the app owner
 }
 
 export abstract class AgentOperation<InputType, OutputType> {
@@ -1,7 +1,9 @@
 import { TemplateDetails } from '../../services/sandbox/sandboxTypes'; // Import the type
 import { STRATEGIES, PROMPT_UTILS, generalSystemPromptBuilder } from '../prompts';
 import { executeInference } from '../inferutils/infer';
-import { Blueprint, BlueprintSchema } from '../schemas';
+import type { InferenceContext } from '../inferutils/userModelConfig';
+import z from 'zod';
+import { Blueprint, BlueprintSchema, BlueprintSection, FileOutputType } from '../schemas';
 import { TemplateSelection } from './templateSelector';
 import { createLogger } from '../../logger';
 import { createSystemMessage, createUserMessage } from '../inferutils/common';
@@ -66,6 +68,10 @@ const SYSTEM_PROMPT = `<ROLE>
         - **Example for 2048 \`moveLeft\` logic:** "A 'left' move on the row \`[2, 2, 4, 0]\` should result in the new row \`[4, 4, 0, 0]\`. Note that the two '2's merge into a '4', and the existing '4' slides next to it."
         - This provides a clear, verifiable test case for the core algorithm.
     • **Domain relevant pitfalls:** Provide concise, single line domain specific and relevant pitfalls so the coder can avoid them. Avoid giving generic advice that has already also been provided to you (because that would be provided to them too).
+
+    ## Discovery Metadata:
+    • **Tags:** Propose 3-6 short lowercase tags that describe what the application is and does (domain, features, style). These help users find the app, so avoid generic tags like "app", "react" or "web".
+    • **Category:** Pick the single category that fits the application best. Use \`other\` only if nothing else applies.
 </INSTRUCTIONS>
 
 <KEY GUIDELINES>
@@ -108,13 +114,14 @@ export interface BlueprintGenerationArgs {
         chunk_size: number;
         onChunk: (chunk: string) => void;
     };
+    inferenceContext?: InferenceContext;
 }
 
 /**
  * Generate a blueprint for the application based on user prompt
  */
 // Update function signature and system prompt
-export async function generateBlueprint({ env, agentId, query, language, frameworks, templateDetails, templateMetaInfo, stream }: BlueprintGenerationArgs): Promise<Blueprint> {
+export async function generateBlueprint({ env, agentId, query, language, frameworks, templateDetails, templateMetaInfo, stream, inferenceContext }: BlueprintGenerationArgs): Promise<Blueprint> {
     try {
         logger.info("Generating application blueprint", { query, queryLength: query.length });
         logger.info(templateDetails ? `Using template: ${templateDetails.name}` : "Not using a template.");
@@ -154,6 +161,7 @@ export async function generateBlueprint({ env, agentId, query, language, framewo
             env,
             messages,
             agentActionName: "blueprint",
+            inferenceContext,
             schema: BlueprintSchema,
             stream: stream,
         });
@@ -168,3 +176,154 @@ export async function generateBlueprint({ env, agentId, query, language, framewo
         throw error;
     }
 }
+
+const IMPORT_SYSTEM_PROMPT = `<ROLE>
+    You are a meticulous Senior Software Architect and Product Manager at Cloudflare.
+    You are onboarding an existing web application into our development process, which is driven by a blueprint (PRD).
+</ROLE>
+
+<TASK>
+    Study the source code of the existing application and write the blueprint that describes it as it is today.
+    Our developers will continue working on the application from this blueprint, so it must be faithful to the code: do not invent features, pages or styles that are not implemented.
+</TASK>
+
+<INSTRUCTIONS>
+    • Derive the title, description, user flows, views, layout, color palette and architecture from the code.
+    • List the dependencies the application uses in the \`frameworks\` section.
+    • The initial phase describes the application as implemented: list its main existing files and mark it as the last phase.
+    • Use the implementation roadmap for concrete, small improvements that would complete or polish the application, such as unfinished features, missing states or accessibility gaps.
+    • Keep the pitfalls specific to this codebase.
+    • Propose 3-6 short lowercase tags and a single category, as for any other application.
+</INSTRUCTIONS>
+
+<STARTING TEMPLATE>
+The application is based on the following template, which is what our development environment provides.
+{{template}}
+
+Preinstalled dependencies:
+{{dependencies}}
+</STARTING TEMPLATE>`;
+
+export interface BlueprintInferenceArgs {
+    env: Env;
+    agentId: string;
+    query: string;
+    files: FileOutputType[];    // Source files of the existing application
+    templateDetails: TemplateDetails;
+    inferenceContext?: InferenceContext;
+}
+
+/**
+ * Infer the blueprint of an existing application from its source code, e.g. for repositories imported from GitHub
+ */
+export async function inferBlueprintFromCode({ env, agentId, query, files, templateDetails, inferenceContext }: BlueprintInferenceArgs): Promise<Blueprint> {
+    try {
+        logger.info("Inferring application blueprint from code", { fileCount: files.length });
+
+        const systemPrompt = createSystemMessage(generalSystemPromptBuilder(IMPORT_SYSTEM_PROMPT, {
+            query,
+            templateDetails,
+            forCodegen: false,
+            blueprint: undefined,
+            dependencies: templateDetails.deps,
+        }));
+
+        const messages = [
+            systemPrompt,
+            createUserMessage(`<APPLICATION SOURCE>
+${PROMPT_UTILS.serializeFiles(files)}
+</APPLICATION SOURCE>
+
+${query}`)
+        ];
+
+        const { object: results } = await executeInference({
+            id: agentId,
+            env,
+            messages,
+            agentActionName: "blueprint",
+            inferenceContext,
+            schema: BlueprintSchema,
+        });
+
+        return results as Blueprint;
+    } catch (error) {
+        logger.error("Error inferring blueprint from code:", error);
+        throw error;
+    }
+}
+
+const REVISION_SYSTEM_PROMPT = `<ROLE>
+    You are a meticulous Senior Software Architect and Product Manager at Cloudflare.
+</ROLE>
+
+<TASK>
+    The client is reviewing the blueprint (PRD) of their web application before development starts and asked for changes to one of its sections.
+    Rewrite only that section so it follows the client's instructions, and keep it consistent with the rest of the blueprint.
+</TASK>
+
+<INSTRUCTIONS>
+    • Apply the client's instructions faithfully, do not add changes they did not ask for.
+    • Keep the level of detail of the original section.
+    • The rest of the blueprint is fixed, do not contradict it.
+</INSTRUCTIONS>
+
+<BLUEPRINT>
+{{blueprint}}
+</BLUEPRINT>
+
+<STARTING TEMPLATE>
+{{template}}
+
+Preinstalled dependencies:
+{{dependencies}}
+</STARTING TEMPLATE>`;
+
+export interface BlueprintRevisionArgs {
+    env: Env;
+    agentId: string;
+    query: string;
+    blueprint: Blueprint;
+    section: BlueprintSection;
+    instructions: string;   // What the user wants changed in the section
+    templateDetails: TemplateDetails;
+    inferenceContext?: InferenceContext;
+}
+
+/**
+ * Revise a single section of a blueprint following the user's instructions, the other sections are kept as they are
+ */
+export async function reviseBlueprintSection({ env, agentId, query, blueprint, section, instructions, templateDetails, inferenceContext }: BlueprintRevisionArgs): Promise<Blueprint> {
+    try {
+        logger.info("Revising blueprint section", { section, instructionsLength: instructions.length });
+
+        const systemPrompt = createSystemMessage(generalSystemPromptBuilder(REVISION_SYSTEM_PROMPT, {
+            query,
+            templateDetails,
+            forCodegen: false,
+            blueprint,
+            dependencies: templateDetails.deps,
+        }));
+
+        const messages = [
+            systemPrompt,
+            createUserMessage(`SECTION TO REVISE: \`${section}\`
+
+CLIENT INSTRUCTIONS: "${instructions}"`)
+        ];
+
+        const { object: results } = await executeInference({
+            id: agentId,
+            env,
+            messages,
+            agentActionName: "blueprint",
+            inferenceContext,
+            schema: z.object({ [section]: BlueprintSchema.shape[section] }),
+        });
+
+        return BlueprintSchema.parse({ ...blueprint, [section]: results[section] });
+    } catch (error) {
+        logger.error("Error revising blueprint section:", error);
+        throw error;
+    }
+}
@@ -3,6 +3,7 @@ import { TemplateListResponse} from '../../services/sandbox/sandboxTypes';
 import z from 'zod';
 import { createLogger } from '../../logger';
 import { executeInference } from '../inferutils/infer';
+import type { InferenceContext } from '../inferutils/userModelConfig';
 
 const logger = createLogger('TemplateSelector');
 
@@ -23,12 +24,13 @@ interface SelectTemplateArgs {
     agentId: string;
     query: string;
     availableTemplates: TemplateListResponse['templates'];
+    inferenceContext?: InferenceContext;
 }
 
 /**
  * Uses AI to select the most suitable template for a given query.
  */
-export async function selectTemplate({ env, agentId, query, availableTemplates }: SelectTemplateArgs): Promise<TemplateSelection> {
+export async function selectTemplate({ env, agentId, query, availableTemplates, inferenceContext }: SelectTemplateArgs): Promise<TemplateSelection> {
     if (availableTemplates.length === 0) {
         logger.info("No templates available for selection.");
         return { selectedTemplateName: null, reasoning: "No templates were available to choose from.", useCase: null, complexity: null, styleSelection: null, projectName: '' };
@@ -79,6 +81,7 @@ Which template (if any) is the most suitable starting point for this query?`;
             env,
             messages,
             agentActionName: "templateSelection",
+            inferenceContext,
             schema: TemplateSelectionSchema,
             maxTokens: 2000,
         });
@@ -1,9 +1,10 @@
-import { RuntimeError, RuntimeErrorSchema, StaticAnalysisResponse, TemplateDetails, TemplateFileSchema } from "../services/sandbox/sandboxTypes";
+import { RuntimeError, RuntimeErrorSchema, StaticAnalysisResponse, TemplateDetails, TemplateFileSchema, TestRunResult } from "../services/sandbox/sandboxTypes";
 import { TemplateRegistry } from "./inferutils/schemaFormatters";
 import z from 'zod';
 import { Blueprint, BlueprintSchema, ClientReportedErrorSchema, ClientReportedErrorType, FileOutputType, PhaseConceptSchema, PhaseConceptType } from "./schemas";
 import { TemplateSelection } from "./planning/templateSelector";
 import { IssueReport } from "./domain/values/IssueReport";
+import { VisualRegression } from "./core/types";
 import { SCOFFormat } from "./code-formats/scof";
 
 export const PROMPT_UTILS = {
@@ -80,7 +81,30 @@ ${staticAnalysis.lint?.rawOutput || 'N/A'}
 </lint_issues>
 <typecheck_issues>
 ${staticAnalysis.typecheck?.rawOutput || 'N/A'}
-</typecheck_issues>`
+</typecheck_issues>${Object.entries(staticAnalysis.analyzers || {})
+    .filter(([analyzer]) => analyzer !== 'eslint' && analyzer !== 'typescript')
+    .map(([analyzer, section]) => `
+<${analyzer}_issues>
+${section.rawOutput || 'N/A'}
+</${analyzer}_issues>`).join('')}`
+    },
+
+    serializeTestResults(testResults: TestRunResult): string {
+        if (testResults.failures.length === 0) {
+            return 'N/A';
+        }
+        return testResults.failures
+            .map(failure => `${failure.filePath}${failure.line ? `:${failure.line}` : ''} - ${failure.testName}\n${failure.message.slice(0, 1000)}`)
+            .join('\n\n');
+    },
+
+    serializeVisualRegressions(regressions: VisualRegression[]): string {
+        if (regressions.length === 0) {
+            return 'N/A';
+        }
+        return regressions
+            .map(regression => `[${regression.viewport}] ${regression.description} (rendered correctly after phase "${regression.previousPhaseName}")`)
+            .join('\n');
     },
 
     serializeClientReportedErrors(errors: ClientReportedErrorType[]): string {
@@ -689,7 +713,15 @@ ${PROMPT_UTILS.serializeClientReportedErrors(issues.clientErrors || [])}
 <LINT ERRORS>
 These may be just cosmetics but they are worth addressing. Please address them in this phase.
 ${PROMPT_UTILS.serializeStaticAnalysis(issues.staticAnalysis)}
-</LINT ERRORS>`
+</LINT ERRORS>${issues.testResults ? `
+<TEST FAILURES>
+${issues.testResults.numFailedTests} of ${issues.testResults.numTotalTests} generated tests failed. Fix the application code when it does not behave as the blueprint describes, fix the test file when the test itself is wrong.
+${PROMPT_UTILS.serializeTestResults(issues.testResults)}
+</TEST FAILURES>` : ''}${issues.hasVisualRegressions() ? `
+<VISUAL REGRESSIONS>
+Screenshots of the preview show layout that broke since an earlier phase. Fix the responsible components and styles, keep the layout working at every listed viewport.
+${PROMPT_UTILS.serializeVisualRegressions(issues.visualRegressions)}
+</VISUAL REGRESSIONS>` : ''}`
 }
 
 
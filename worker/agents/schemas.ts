@@ -73,6 +73,30 @@ export const CodeReviewOutput = z.object({
     commands: z.array(z.string()).describe('Commands that might be needed to run for fixing an issue. Empty array if no commands are needed'),
 });
 
+/**
+ * Schema for generated test files
+ */
+export const TestGenerationOutput = z.object({
+    files: z.array(FileOutputSchema).describe('Test files to write, one `*.test.ts` or `*.test.tsx` file next to each source file under test'),
+    commands: z.array(z.string()).describe('`bun add -d` commands for any test dependencies the tests need beyond vitest, jsdom and Testing Library. Empty array if none are needed'),
+});
+
+export const APP_CATEGORIES = [
+    'games',
+    'productivity',
+    'business',
+    'finance',
+    'education',
+    'entertainment',
+    'social',
+    'health',
+    'developer-tools',
+    'design',
+    'data-visualization',
+    'utilities',
+    'other',
+] as const;
+
 export const BlueprintSchema = z.object({
     title: z.string().describe('Title of the application'),
     projectName: z.string().describe('Name of the project, in small case, no special characters, no spaces, no dots. Only letters, numbers, hyphens, underscores are allowed.'),
@@ -98,9 +122,26 @@ export const BlueprintSchema = z.object({
         description: z.string().describe('Description of the phase'),
     })).describe('Phases of the implementation roadmap'),
     initialPhase: PhaseConceptSchema.describe('The first phase to be implemented, in **STRICT** accordance with <PHASE GENERATION STRATEGY>'),
+    tags: z.array(z.string()).describe('3 to 6 short, lowercase, single or hyphenated word tags describing the application for discovery, e.g. "puzzle", "kanban", "dark-mode"'),
+    category: z.enum(APP_CATEGORIES).describe('The single category that best describes the application'),
     // commands: z.array(z.string()).describe('Commands to set up the development environment and install all dependencies not already in the template. These will run before code generation starts.'),
 });
 
+// Sections of a blueprint that can be revised on their own while the user reviews it
+export const BlueprintSectionSchema = z.enum([
+    'title',
+    'description',
+    'colorPalette',
+    'views',
+    'userFlow',
+    'dataFlow',
+    'architecture',
+    'pitfalls',
+    'frameworks',
+    'implementationRoadmap',
+    'initialPhase',
+]);
+
 export const SetupCommandsSchema = z.object({
     commands: z.array(z.string()).describe('Commands to set up the development environment and install all dependencies not already in the template. These will run before code generation starts.')
 });
@@ -133,15 +174,30 @@ export const ScreenshotAnalysisSchema = z.object({
     uiCompliance: z.object({
         matchesBlueprint: z.boolean().describe('Whether the UI matches the blueprint specifications'),
         deviations: z.array(z.string()).describe('List of deviations from the blueprint')
-    })
+    }),
+    layoutRegressions: z.array(z.string()).describe('Layout that broke compared to the previous screenshot, empty when no previous screenshot was provided')
 });
 
+export const AGENT_ACTIONS = [
+    'generate_phase',
+    'implement_phase',
+    'regenerate_file',
+    'run_static_analysis',
+    'fetch_runtime_errors',
+    'run_tests',
+    'deploy',
+    'finish',
+] as const;
+
 export const AgentActionSchema = z.object({
-    action: z.string().describe('Next action to be taken'),
-    data: z.record(z.unknown()).describe('Data associated with the action')
+    action: z.enum(AGENT_ACTIONS).describe('Next action to be taken'),
+    reasoning: z.string().describe('Very brief justification for choosing this action'),
+    data: z.record(z.unknown()).describe('Data associated with the action. For `regenerate_file`: { "file_path": string, "issues": string[] }. Empty object for all other actions')
 });
 
 export type Blueprint = z.infer<typeof BlueprintSchema>;
+export type BlueprintSection = z.infer<typeof BlueprintSectionSchema>;
+export type AppCategory = typeof APP_CATEGORIES[number];
 export type CodeOutputType = z.infer<typeof CodeOutput>;
 export type FileConceptType = z.infer<typeof FileConceptSchema>;
 export type PhaseConceptType = z.infer<typeof PhaseConceptSchema>;
@@ -151,10 +207,12 @@ export type PhaseImplementationSchemaType = z.infer<typeof PhaseImplementationSc
 export type FileGenerationOutputType = z.infer<typeof FileGenerationOutput>;
 export type DocumentationOutputType = z.infer<typeof DocumentationOutput>;
 export type CodeReviewOutputType = z.infer<typeof CodeReviewOutput>;
+export type TestGenerationOutputType = z.infer<typeof TestGenerationOutput>;
 export type SetupCommandsType = z.infer<typeof SetupCommandsSchema>;
 export type ClientReportedErrorType = z.infer<typeof ClientReportedErrorSchema>;
 export type ScreenshotAnalysisType = z.infer<typeof ScreenshotAnalysisSchema>;
 export type AgentActionType = z.infer<typeof AgentActionSchema>;
+export type AgentActionName = AgentActionType['action'];
 
 // Conversational AI Schemas
 export const ConversationalResponseSchema = z.object({
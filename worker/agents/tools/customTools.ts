@@ -1,5 +1,5 @@
 import type { WeatherResult, ErrorResult } from './types';
-import { mcpManager } from './mcpManager';
+import { MCPManager, mcpManager } from './mcpManager';
 import { ChatCompletionTool } from 'openai/resources';
 import { env } from 'cloudflare:workers'
 
@@ -80,8 +80,8 @@ export const CUSTOM_TOOL_DEFINITIONS: ChatCompletionTool[] = [
 	},
 ];
 
-export async function getToolDefinitions() {
-	const mcpTools = await mcpManager.getToolDefinitions();
+export async function getToolDefinitions(manager: MCPManager = mcpManager) {
+	const mcpTools = await manager.getToolDefinitions();
 	return [...CUSTOM_TOOL_DEFINITIONS, ...mcpTools];
 }
 
@@ -224,6 +224,7 @@ async function fetchWebContent(url: string): Promise<string> {
 export async function executeTool(
 	name: string,
 	args: Record<string, unknown>,
+	manager: MCPManager = mcpManager,
 ): Promise<ToolResult> {
 	try {
 		switch (name) {
@@ -254,7 +255,7 @@ export async function executeTool(
 			}
 
 			default: {
-				const content = await mcpManager.executeTool(name, args);
+				const content = await manager.executeTool(name, args);
 				return { content };
 			}
 		}
@@ -0,0 +1,59 @@
+import { DatabaseService } from '../../database/database';
+import type { McpServer } from '../../database/schema';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { createLogger } from '../../logger';
+import { MCPServerConfig } from './types';
+
+const logger = createLogger('MCPConfig');
+
+/**
+ * Build the connection config of a user-registered MCP server
+ * The auth header value is decrypted from the user's secrets
+ */
+export async function resolveMCPServerConfig(
+	server: McpServer,
+	secretsService: SecretsService,
+): Promise<MCPServerConfig> {
+	const config: MCPServerConfig = {
+		name: server.name,
+		transport: server.transport,
+		url: server.url,
+	};
+
+	if (server.authHeaderName && server.authSecretId) {
+		const value = await secretsService.getSecretValue(
+			server.userId,
+			server.authSecretId,
+		);
+		config.headers = { [server.authHeaderName]: value };
+	}
+
+	return config;
+}
+
+/**
+ * Load the MCP servers enabled for an app
+ * Servers whose secrets cannot be resolved are skipped rather than failing generation
+ */
+export async function loadAppMCPServers(
+	env: Env,
+	appId: string,
+): Promise<MCPServerConfig[]> {
+	if (!env.DB) {
+		return [];
+	}
+
+	const dbService = new DatabaseService({ DB: env.DB });
+	const secretsService = new SecretsService(dbService, env);
+	const servers = await dbService.getAppMcpServers(appId);
+
+	const configs: MCPServerConfig[] = [];
+	for (const server of servers) {
+		try {
+			configs.push(await resolveMCPServerConfig(server, secretsService));
+		} catch (error) {
+			logger.error(`Failed to resolve MCP server ${server.name}:`, error);
+		}
+	}
+	return configs;
+}
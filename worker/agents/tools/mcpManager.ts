@@ -1,35 +1,60 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { createLogger } from '../../logger';
 import { MCPServerConfig } from './types';
 
 const logger = createLogger('MCPManager');
 
-const MCP_SERVERS: MCPServerConfig[] = [
+export const DEFAULT_MCP_SERVERS: MCPServerConfig[] = [
 	{
 		name: 'cloudflare-docs',
-		sseUrl: 'https://docs.mcp.cloudflare.com/sse',
+		transport: 'sse',
+		url: 'https://docs.mcp.cloudflare.com/sse',
+		builtin: true,
 	},
 ];
 
+/**
+ * Separator between server name and tool name, tool names may only contain [a-zA-Z0-9_-]
+ */
+const TOOL_NAMESPACE_SEPARATOR = '__';
+
+export function getNamespacedToolName(serverName: string, toolName: string): string {
+	return `${serverName}${TOOL_NAMESPACE_SEPARATOR}${toolName}`;
+}
+
+function createTransport(serverConfig: MCPServerConfig) {
+	const url = new URL(serverConfig.url);
+	const requestInit = serverConfig.headers
+		? { headers: serverConfig.headers }
+		: undefined;
+
+	return serverConfig.transport === 'sse'
+		? new SSEClientTransport(url, { requestInit })
+		: new StreamableHTTPClientTransport(url, { requestInit });
+}
+
 /**
  * MCP Manager - Based on the reference implementation from vite-cfagents-runner
  * Manages connections to multiple MCP servers and provides unified tool access
+ * Tools are exposed as "<server>__<tool>" so servers cannot shadow each other
  */
 export class MCPManager {
 	private clients: Map<string, Client> = new Map();
-	private toolMap: Map<string, string> = new Map();
+	private toolMap: Map<string, { serverName: string; toolName: string }> =
+		new Map();
 	private initialized = false;
 
+	constructor(private servers: MCPServerConfig[] = DEFAULT_MCP_SERVERS) {}
+
 	async initialize() {
 		if (this.initialized) return;
 
 		logger.info('Initializing MCP manager...');
-		for (const serverConfig of MCP_SERVERS) {
+		for (const serverConfig of this.servers) {
 			try {
-				const transport = new SSEClientTransport(
-					new URL(serverConfig.sseUrl),
-				);
+				const transport = createTransport(serverConfig);
 
 				const client = new Client(
 					{
@@ -48,12 +73,15 @@ export class MCPManager {
 
 				if (toolsResult?.tools) {
 					for (const tool of toolsResult.tools) {
-						this.toolMap.set(tool.name, serverConfig.name);
+						this.toolMap.set(
+							getNamespacedToolName(serverConfig.name, tool.name),
+							{ serverName: serverConfig.name, toolName: tool.name },
+						);
 					}
 				}
 
 				logger.info(
-					`Connected to MCP server ${serverConfig.name}, found ${toolsResult?.tools?.length || 0} tools`,
+					`Connected to MCP server ${serverConfig.name} (${serverConfig.transport}), found ${toolsResult?.tools?.length || 0} tools`,
 				);
 			} catch (error) {
 				logger.error(
@@ -69,21 +97,35 @@ export class MCPManager {
 		);
 	}
 
-	async getToolDefinitions() {
+	/**
+	 * Get tool definitions of all connected servers
+	 * Built-in servers can be left out to expose only user-registered tools
+	 */
+	async getToolDefinitions(options: { includeBuiltin?: boolean } = {}) {
 		await this.initialize();
+		const { includeBuiltin = true } = options;
 		const allTools = [];
 
 		for (const [serverName, client] of this.clients.entries()) {
+			const serverConfig = this.servers.find(
+				(server) => server.name === serverName,
+			);
+			if (!includeBuiltin && serverConfig?.builtin) {
+				continue;
+			}
+
 			try {
 				const toolsResult = await client.listTools();
 
 				if (toolsResult?.tools) {
 					for (const tool of toolsResult.tools) {
+						const name = getNamespacedToolName(serverName, tool.name);
+						this.toolMap.set(name, { serverName, toolName: tool.name });
 						allTools.push({
 							type: 'function' as const,
 							function: {
-								name: tool.name,
-								description: tool.description || '',
+								name,
+								description: `[${serverName}] ${tool.description || ''}`,
 								parameters: tool.inputSchema || {
 									type: 'object',
 									properties: {},
@@ -107,19 +149,19 @@ export class MCPManager {
 	): Promise<string> {
 		await this.initialize();
 
-		const serverName = this.toolMap.get(toolName);
-		if (!serverName) {
+		const tool = this.toolMap.get(toolName);
+		if (!tool) {
 			throw new Error(`Tool ${toolName} not found in any MCP server`);
 		}
 
-		const client = this.clients.get(serverName);
+		const client = this.clients.get(tool.serverName);
 		if (!client) {
-			throw new Error(`Client for server ${serverName} not available`);
+			throw new Error(`Client for server ${tool.serverName} not available`);
 		}
 
 		try {
 			const result = await client.callTool({
-				name: toolName,
+				name: tool.toolName,
 				arguments: args,
 			});
 
@@ -153,7 +195,13 @@ export class MCPManager {
 	async shutdown(): Promise<void> {
 		logger.info('Shutting down MCP manager...');
 
-		// MCP SDK handles cleanup automatically
+		await Promise.all(
+			Array.from(this.clients.values()).map((client) =>
+				client.close().catch((error) => {
+					logger.warn('Error closing MCP client:', error);
+				}),
+			),
+		);
 		this.clients.clear();
 		this.toolMap.clear();
 		this.initialized = false;
@@ -162,5 +210,5 @@ export class MCPManager {
 	}
 }
 
-// Singleton instance
+// Singleton instance with the built-in servers only
 export const mcpManager = new MCPManager();
@@ -1,8 +1,13 @@
 
 
+export type MCPTransportType = 'sse' | 'streamable-http';
+
 export interface MCPServerConfig {
-    name: string;
-    sseUrl: string;
+    name: string; // Namespace for the server's tools
+    transport: MCPTransportType;
+    url: string;
+    headers?: Record<string, string>; // Auth headers sent with every request
+    builtin?: boolean; // Available to every app, not registered by a user
   }
 
   
@@ -1,7 +1,10 @@
-import type { Blueprint, ClientReportedErrorType, CodeReviewOutputType, FileConceptType, FileOutputType, TechnicalInstructionType } from "./schemas";
-import type { CodeGenState } from "./core/state";
-import type { CodeIssue, RuntimeError, StaticAnalysisResponse } from "../services/sandbox/sandboxTypes";
-import type { CodeFixResult } from "../services/code-fixer";
+import type { Blueprint, BlueprintSection, ClientReportedErrorType, CodeReviewOutputType, FileConceptType, FileOutputType, TechnicalInstructionType } from "./schemas";
+import type { CodeGenState, PhaseVisualCheck } from "./core/state";
+import type { VisualRegression } from "./core/types";
+import type { PhaseSnapshotSummary, SnapshotFileDiff } from "./domain/pure/SnapshotManagement";
+import type { RemoteFileChange, SyncConflict } from "./domain/pure/GitHubSync";
+import type { CodeIssue, DeploymentEnvironment, RuntimeError, StaticAnalysisResponse, TestRunResult } from "../services/sandbox/sandboxTypes";
+import type { CodeFixResult, ProposedFix, UnfixableIssue } from "../services/code-fixer";
 
 /**
  * Generation REST API response
@@ -110,6 +113,42 @@ type CodeReviewedMessage = {
 	review: CodeReviewOutputType;
 };
 
+type TestsGeneratingMessage = {
+	type: 'tests_generating';
+	message: string;
+	phases: string[];
+};
+
+type TestsGeneratedMessage = {
+	type: 'tests_generated';
+	message: string;
+	files: FileOutputType[];
+};
+
+type TestsRunningMessage = {
+	type: 'tests_running';
+	message: string;
+};
+
+type TestResultsMessage = {
+	type: 'test_results';
+	message: string;
+	testResults: TestRunResult;
+};
+
+type VisualCheckStartedMessage = {
+	type: 'visual_check_started';
+	message: string;
+	phaseName: string;
+};
+
+type VisualCheckCompletedMessage = {
+	type: 'visual_check_completed';
+	message: string;
+	check: PhaseVisualCheck;
+	regressions: VisualRegression[];
+};
+
 type RuntimeErrorFoundMessage = {
 	type: 'runtime_error_found';
 	errors: RuntimeError[];
@@ -200,10 +239,77 @@ type GenerationResumedMessage = {
 	instanceId: string;
 };
 
+type BlueprintRevisingMessage = {
+	type: 'blueprint_revising';
+	message: string;
+	section: BlueprintSection;
+};
+
+type BlueprintUpdatedMessage = {
+	type: 'blueprint_updated';
+	message: string;
+	blueprint: Blueprint;
+	section?: BlueprintSection;	// Set when the LLM revised a single section
+};
+
+type BlueprintApprovedMessage = {
+	type: 'blueprint_approved';
+	message: string;
+	blueprint: Blueprint;
+};
+
+type BlueprintErrorMessage = {
+	type: 'blueprint_error';
+	message: string;
+	error: string;
+	section?: BlueprintSection;
+};
+
+type SnapshotsListMessage = {
+	type: 'snapshots_list';
+	snapshots: PhaseSnapshotSummary[];
+};
+
+type SnapshotsDiffMessage = {
+	type: 'snapshots_diff';
+	fromSnapshotId: string;
+	toSnapshotId: string;
+	files: SnapshotFileDiff[];
+};
+
+type SnapshotRollbackCompletedMessage = {
+	type: 'snapshot_rollback_completed';
+	message: string;
+	snapshot: PhaseSnapshotSummary;
+};
+
+type CodeFixProposalsMessage = {
+	type: 'code_fix_proposals';
+	message: string;
+	proposedFixes: ProposedFix[];
+	unfixableIssues: UnfixableIssue[];
+};
+
+type CodeFixAcceptedMessage = {
+	type: 'code_fix_accepted';
+	message: string;
+	fix: ProposedFix;
+};
+
+type CodeFixRejectedMessage = {
+	type: 'code_fix_rejected';
+	message: string;
+	fixId: string;
+};
+
 type CloudflareDeploymentStartedMessage = {
 	type: 'cloudflare_deployment_started';
 	message: string;
 	instanceId: string;
+	environment?: DeploymentEnvironment;
+	deploymentId?: string;
+	version?: number;
+	rollbackOfVersion?: number;
 };
 
 type CloudflareDeploymentCompletedMessage = {
@@ -212,6 +318,10 @@ type CloudflareDeploymentCompletedMessage = {
 	instanceId: string;
 	deploymentUrl: string;
 	workersUrl?: string;
+	environment?: DeploymentEnvironment;
+	deploymentId?: string;
+	version?: number;
+	rollbackOfVersion?: number;
 };
 
 type CloudflareDeploymentErrorMessage = {
@@ -219,6 +329,9 @@ type CloudflareDeploymentErrorMessage = {
 	message: string;
 	instanceId: string;
 	error: string;
+	environment?: DeploymentEnvironment;
+	deploymentId?: string;
+	version?: number;
 };
 
 type ScreenshotAnalysisResultMessage = {
@@ -253,6 +366,7 @@ type GitHubExportCompletedMessage = {
 	type: 'github_export_completed';
 	message: string;
 	repositoryUrl: string;
+	pullRequestUrl?: string;
 };
 
 type GitHubExportErrorMessage = {
@@ -261,6 +375,29 @@ type GitHubExportErrorMessage = {
 	error: string;
 };
 
+type GitHubPullStartedMessage = {
+	type: 'github_pull_started';
+	message: string;
+	repository: string;
+	branch: string;
+};
+
+type GitHubPullCompletedMessage = {
+	type: 'github_pull_completed';
+	message: string;
+	commitSha: string;
+	upToDate: boolean;
+	applied: RemoteFileChange[];
+	conflicts: SyncConflict[];
+	files: FileOutputType[];	// New contents of the added and updated files
+};
+
+type GitHubPullErrorMessage = {
+	type: 'github_pull_error';
+	message: string;
+	error: string;
+};
+
 type UserSuggestionsProcessingMessage = {
 	type: 'user_suggestions_processing';
 	message: string;
@@ -308,6 +445,12 @@ export type WebSocketMessage =
 	| CodeReviewingMessage
 	| CodeReviewedMessage
 	| CommandExecutingMessage
+	| TestsGeneratingMessage
+	| TestsGeneratedMessage
+	| TestsRunningMessage
+	| TestResultsMessage
+	| VisualCheckStartedMessage
+	| VisualCheckCompletedMessage
 	| RuntimeErrorFoundMessage
 	| CodeFixEdits
     | StaticAnalysisResults
@@ -319,6 +462,16 @@ export type WebSocketMessage =
 	| PhaseValidatedMessage
 	| GenerationStoppedMessage
 	| GenerationResumedMessage
+	| BlueprintRevisingMessage
+	| BlueprintUpdatedMessage
+	| BlueprintApprovedMessage
+	| BlueprintErrorMessage
+	| SnapshotsListMessage
+	| SnapshotsDiffMessage
+	| SnapshotRollbackCompletedMessage
+	| CodeFixProposalsMessage
+	| CodeFixAcceptedMessage
+	| CodeFixRejectedMessage
 	| CloudflareDeploymentStartedMessage
 	| CloudflareDeploymentCompletedMessage
 	| CloudflareDeploymentErrorMessage
@@ -327,6 +480,9 @@ export type WebSocketMessage =
 	| GitHubExportProgressMessage
 	| GitHubExportCompletedMessage
 	| GitHubExportErrorMessage
+	| GitHubPullStartedMessage
+	| GitHubPullCompletedMessage
+	| GitHubPullErrorMessage
 	| ErrorMessage
 	| UserSuggestionsProcessingMessage
 	| UserSuggestionsProcessedMessage
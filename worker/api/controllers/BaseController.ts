@@ -13,6 +13,11 @@ import { DatabaseQueryHelpers } from '../../utils/DatabaseQueryHelpers';
 import { ControllerErrorHandler, ErrorHandler } from '../../utils/ErrorHandling';
 import { createLogger } from '../../logger';
 import { AuthUser } from '../../types/auth-types';
+import { SecurityError } from '../../types/security';
+import { QuotaExceededError } from '../../services/quotas/quotaService';
+
+// Agents of apps not updated within this window no longer hold cached settings
+const AGENT_SETTINGS_CACHE_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 export interface AuthResult {
     success: boolean;
@@ -92,6 +97,12 @@ export abstract class BaseController {
                 user
             };
         } catch (error) {
+            if (error instanceof SecurityError) {
+                return {
+                    success: false,
+                    response: this.createSecurityErrorResponse(error)
+                };
+            }
             this.logger.error('Authentication failed', error);
             return {
                 success: false,
@@ -100,6 +111,45 @@ export abstract class BaseController {
         }
     }
 
+    /**
+     * Response for a rejected API key or rate limited request, with Retry-After when known
+     */
+    protected createSecurityErrorResponse(error: SecurityError): Response {
+        const response = errorResponse(error.message, error.statusCode);
+        if (error.retryAfter) {
+            response.headers.set('Retry-After', String(error.retryAfter));
+        }
+        return response;
+    }
+
+    /**
+     * Response for an action blocked by a quota of the user, 402 for spend limits and 429 for count limits
+     */
+    protected createQuotaErrorResponse(error: QuotaExceededError): Response {
+        const response = errorResponse(error.message, error.statusCode);
+        if (error.retryAfter) {
+            response.headers.set('Retry-After', String(error.retryAfter));
+        }
+        return response;
+    }
+
+    /**
+     * Tell the agents of the user's recently updated apps, or of a single app, to reload their cached model and MCP settings
+     * Agents that were idle longer have been evicted from memory and load fresh settings anyway
+     */
+    protected async invalidateAgentSettings(env: Env, target: { userId: string } | { appId: string }): Promise<void> {
+        try {
+            const appIds = 'appId' in target
+                ? [target.appId]
+                : await this.createDbService(env).getRecentlyUpdatedAppIds(target.userId, new Date(Date.now() - AGENT_SETTINGS_CACHE_WINDOW_MS));
+            await Promise.all(appIds.map(appId =>
+                env.CodeGenObject.get(env.CodeGenObject.idFromName(appId)).invalidateSettingsCache()
+            ));
+        } catch (error) {
+            this.logger.error('Failed to invalidate agent settings', { target, error });
+        }
+    }
+
     /**
      * Get session from request using token validation
      */
@@ -161,6 +211,12 @@ export abstract class BaseController {
      * Handle errors with consistent logging and response format
      */
     protected handleError(error: unknown, action: string, context?: Record<string, unknown>): Response {
+        if (error instanceof SecurityError) {
+            return this.createSecurityErrorResponse(error);
+        }
+        if (error instanceof QuotaExceededError) {
+            return this.createQuotaErrorResponse(error);
+        }
         const appError = ErrorHandler.handleError(error, action, context);
         return ErrorHandler.toResponse(appError);
     }
@@ -1,8 +1,11 @@
 import { AnalyticsService } from '../../database/analytics';
 import * as schema from '../../database/schema';
+import type { FacetConditions } from '../../database/database';
 import { eq, desc, and, sql, or } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import { BaseController } from './BaseController';
+import { checkPermissions } from '../../middleware/security/auth';
+import { APP_CATEGORIES, AppCategory } from '../../agents/schemas';
 
 export class AppController extends BaseController {
     constructor() {
@@ -17,6 +20,12 @@ export class AppController extends BaseController {
                 return authResult.response!;
             }
 
+            // Optionally list apps of a team the user belongs to
+            const teamId = new URL(request.url).searchParams.get('teamId');
+            if (teamId && !await checkPermissions(authResult.user!, ['team:read'], env, teamId)) {
+                return this.createErrorResponse('Team not found', 404);
+            }
+
             const dbService = this.createDbService(env);
             
             // Get user's apps with favorite status
@@ -28,6 +37,7 @@ export class AppController extends BaseController {
                     framework: schema.apps.framework,
                     visibility: schema.apps.visibility,
                     iconUrl: schema.apps.iconUrl,
+                    teamId: schema.apps.teamId,
                     createdAt: schema.apps.createdAt,
                     updatedAt: schema.apps.updatedAt,
                     isFavorite: sql<boolean>`
@@ -39,7 +49,7 @@ export class AppController extends BaseController {
                     `.as('isFavorite')
                 })
                 .from(schema.apps)
-                .where(eq(schema.apps.userId, authResult.user!.id))
+                .where(teamId ? eq(schema.apps.teamId, teamId) : eq(schema.apps.userId, authResult.user!.id))
                 .orderBy(desc(schema.apps.updatedAt));
 
             return this.createSuccessResponse({
@@ -217,18 +227,30 @@ export class AppController extends BaseController {
                 return authResult.response!;
             }
 
-            const body = await this.parseJsonBody(request) as { 
+            const bodyResult = await this.parseJsonBody<{ 
                 title?: string; 
                 description?: string; 
                 framework?: string; 
-                visibility?: 'private' | 'team' | 'board' | 'public' 
-            };
-            const { title, description, framework, visibility } = body;
+                visibility?: 'private' | 'team' | 'board' | 'public';
+                teamId?: string;
+            }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const { title, description, framework, visibility, teamId } = bodyResult.data ?? {};
 
             if (!title) {
                 return this.createErrorResponse('Title is required', 400);
             }
 
+            // Team-owned apps require write access to the team
+            if (teamId && !await checkPermissions(authResult.user!, ['team:apps:write'], env, teamId)) {
+                return this.createErrorResponse('You do not have permission to create apps in this team', 403);
+            }
+            if (visibility === 'team' && !teamId) {
+                return this.createErrorResponse('Team visibility requires a team', 400);
+            }
+
             const dbService = this.createDbService(env);
 
             const newApp = await dbService.db
@@ -236,10 +258,11 @@ export class AppController extends BaseController {
                 .values({
                     id: nanoid(),
                     userId: authResult.user!.id,
+                    teamId: teamId || null,
                     title,
                     description: description || null,
                     framework: framework || 'react',
-                    visibility: visibility || 'private',
+                    visibility: visibility || (teamId ? 'team' : 'private'),
                     iconUrl: null,
                     originalPrompt: title, // Use title as original prompt for now
                     createdAt: new Date(),
@@ -266,6 +289,9 @@ export class AppController extends BaseController {
             const sort = url.searchParams.get('sort') || 'recent';
             const framework = url.searchParams.get('framework');
             const search = url.searchParams.get('search');
+            const boardId = url.searchParams.get('boardId');
+            const category = url.searchParams.get('category');
+            const tags = url.searchParams.getAll('tag');
             
             // Get current user for interaction data (optional for public endpoint)
             const authResult = await this.requireAuth(request, env);
@@ -273,12 +299,24 @@ export class AppController extends BaseController {
             
             // Build query conditions
             const conditions: any[] = [
-                eq(schema.apps.visibility, 'public'),
                 eq(schema.apps.status, 'completed')
             ];
             
-            if (framework) {
-                conditions.push(eq(schema.apps.framework, framework));
+            if (boardId) {
+                // Only public boards are part of the public feed
+                const board = await dbService.getBoard(boardId);
+                if (!board || board.visibility !== 'public') {
+                    return this.createErrorResponse('Board not found', 404);
+                }
+                conditions.push(
+                    eq(schema.apps.boardId, board.id),
+                    or(
+                        eq(schema.apps.visibility, 'public'),
+                        eq(schema.apps.visibility, 'board')
+                    )
+                );
+            } else {
+                conditions.push(eq(schema.apps.visibility, 'public'));
             }
             
             if (search) {
@@ -292,6 +330,23 @@ export class AppController extends BaseController {
                 );
             }
             
+            const frameworkFilters = framework ? [eq(schema.apps.framework, framework)] : [];
+            const categoryFilters = category
+                ? [sql`EXISTS(SELECT 1 FROM ${schema.appCategories} WHERE ${schema.appCategories.appId} = ${schema.apps.id} AND ${schema.appCategories.categoryName} = ${category})`]
+                : [];
+            // Apps must have all selected tags
+            const tagFilters = tags.map(tag =>
+                sql`EXISTS(SELECT 1 FROM ${schema.appTags} WHERE ${schema.appTags.appId} = ${schema.apps.id} AND ${schema.appTags.tagName} = ${tag.toLowerCase()})`
+            );
+            
+            // Each facet is counted with every active filter except its own
+            const facetConditions: FacetConditions = {
+                tags: [...conditions, ...frameworkFilters, ...categoryFilters],
+                categories: [...conditions, ...frameworkFilters, ...tagFilters],
+                frameworks: [...conditions, ...categoryFilters, ...tagFilters],
+            };
+            conditions.push(...frameworkFilters, ...categoryFilters, ...tagFilters);
+            
             // For popular/trending, we need to fetch apps first and then sort by analytics
             // For recent, we can sort by createdAt directly
             const orderByClause = desc(schema.apps.createdAt);
@@ -393,9 +448,16 @@ export class AppController extends BaseController {
             
             const totalCount = totalCountResult[0]?.count || 0;
             
+            const [taxonomy, facets] = await Promise.all([
+                dbService.getAppTaxonomy(finalApps.map(app => app.id)),
+                dbService.getAppFacets(facetConditions)
+            ]);
+            
             return this.createSuccessResponse({
                 apps: finalApps.map((app: any) => ({
                     ...app,
+                    tags: taxonomy[app.id]?.tags || [],
+                    category: taxonomy[app.id]?.category || null,
                     userName: app.userId ? app.userName : 'Anonymous User',
                     userAvatar: app.userId ? app.userAvatar : null,
                     updatedAt: app.updatedAt ? getRelativeTime(app.updatedAt) : 'Unknown',
@@ -403,6 +465,7 @@ export class AppController extends BaseController {
                     forkCount: app.forkCount || 0,
                     likeCount: app.likeCount || 0
                 })),
+                facets,
                 pagination: {
                     total: totalCount,
                     limit,
@@ -439,6 +502,8 @@ export class AppController extends BaseController {
                     framework: schema.apps.framework,
                     visibility: schema.apps.visibility,
                     iconUrl: schema.apps.iconUrl,
+                    userId: schema.apps.userId,
+                    teamId: schema.apps.teamId,
                     createdAt: schema.apps.createdAt,
                     updatedAt: schema.apps.updatedAt,
                     isFavorite: sql<boolean>`
@@ -450,13 +515,12 @@ export class AppController extends BaseController {
                     `.as('isFavorite')
                 })
                 .from(schema.apps)
-                .where(and(
-                    eq(schema.apps.id, appId),
-                    eq(schema.apps.userId, authResult.user!.id)
-                ))
+                .where(eq(schema.apps.id, appId))
                 .limit(1);
 
-            if (!app.length) {
+            // Owners and members of the owning team can access the app
+            if (!app.length || (app[0].userId !== authResult.user!.id
+                && !(app[0].teamId && await checkPermissions(authResult.user!, ['team:read'], env, app[0].teamId)))) {
                 return this.createErrorResponse('App not found', 404);
             }
 
@@ -472,6 +536,67 @@ export class AppController extends BaseController {
         }
     }
 
+    // Update app tags and category
+    async updateAppTaxonomy(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const appId = params?.id;
+            if (!appId) {
+                return this.createErrorResponse('App ID is required', 400);
+            }
+
+            const bodyResult = await this.parseJsonBody<{ tags?: unknown; category?: unknown }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const { tags, category } = bodyResult.data ?? {};
+            if (tags !== undefined && (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string'))) {
+                return this.createErrorResponse('Tags must be an array of strings', 400);
+            }
+            if (category !== undefined && category !== null && !APP_CATEGORIES.includes(category as AppCategory)) {
+                return this.createErrorResponse(`Category must be one of ${APP_CATEGORIES.join(', ')}`, 400);
+            }
+
+            const dbService = this.createDbService(env);
+
+            const existingApp = await dbService.db
+                .select({ id: schema.apps.id, userId: schema.apps.userId, teamId: schema.apps.teamId })
+                .from(schema.apps)
+                .where(eq(schema.apps.id, appId))
+                .get();
+
+            if (!existingApp) {
+                return this.createErrorResponse('App not found', 404);
+            }
+
+            // Owners and team members with write access can edit team apps
+            const { teamId } = existingApp;
+            if (existingApp.userId !== authResult.user!.id
+                && !(teamId && await checkPermissions(authResult.user!, ['team:apps:write'], env, teamId))) {
+                return this.createErrorResponse('You can only edit your own apps', 403);
+            }
+
+            if (tags !== undefined) {
+                await dbService.setAppTags(appId, tags as string[]);
+            }
+            if (category !== undefined) {
+                await dbService.setAppCategory(appId, category as AppCategory | null);
+            }
+
+            const taxonomy = await dbService.getAppTaxonomy([appId]);
+
+            return this.createSuccessResponse(taxonomy[appId]);
+        } catch (error) {
+            console.error('Error updating app tags:', error);
+            return this.createErrorResponse('Failed to update app tags', 500);
+        }
+    }
+
     // Update app visibility
     async updateAppVisibility(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
         try {
@@ -493,11 +618,11 @@ export class AppController extends BaseController {
             const visibility = (bodyResult.data as { visibility?: string })?.visibility;
 
             // Validate visibility value
-            if (!visibility || !['private', 'public'].includes(visibility)) {
-                return this.createErrorResponse('Visibility must be either "private" or "public"', 400);
+            if (!visibility || !['private', 'team', 'public'].includes(visibility)) {
+                return this.createErrorResponse('Visibility must be one of "private", "team" or "public"', 400);
             }
 
-            const validVisibility = visibility as 'private' | 'public';
+            const validVisibility = visibility as 'private' | 'team' | 'public';
 
             const dbService = this.createDbService(env);
             
@@ -506,6 +631,7 @@ export class AppController extends BaseController {
                 .select({
                     id: schema.apps.id,
                     userId: schema.apps.userId,
+                    teamId: schema.apps.teamId,
                     visibility: schema.apps.visibility
                 })
                 .from(schema.apps)
@@ -516,11 +642,17 @@ export class AppController extends BaseController {
                 return this.createErrorResponse('App not found', 404);
             }
 
-            // Verify ownership
-            if (existingApp[0].userId !== authResult.user!.id) {
+            // Verify ownership, team-owned apps can be edited by team members with write access
+            const { teamId } = existingApp[0];
+            if (existingApp[0].userId !== authResult.user!.id
+                && !(teamId && await checkPermissions(authResult.user!, ['team:apps:write'], env, teamId))) {
                 return this.createErrorResponse('You can only change visibility of your own apps', 403);
             }
 
+            if (validVisibility === 'team' && !teamId) {
+                return this.createErrorResponse('Only team-owned apps can be shared with a team', 400);
+            }
+
             // Update the app visibility
             const updatedApp = await dbService.db
                 .update(schema.apps)
@@ -2,6 +2,7 @@ import * as schema from '../../database/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 import { BaseController } from './BaseController';
+import { canViewApp } from '../../middleware/security/auth';
 
 export class AppViewController extends BaseController {
     constructor() {
@@ -31,9 +32,11 @@ export class AppViewController extends BaseController {
                 framework: schema.apps.framework,
                 visibility: schema.apps.visibility,
                 deploymentUrl: schema.apps.deploymentUrl,
+                githubRepositoryUrl: schema.apps.githubRepositoryUrl,
                 createdAt: schema.apps.createdAt,
                 updatedAt: schema.apps.updatedAt,
                 userId: schema.apps.userId,
+                teamId: schema.apps.teamId,
                 userName: schema.users.displayName,
                 userAvatar: schema.users.avatarUrl,
                 blueprint: schema.apps.blueprint,
@@ -51,8 +54,8 @@ export class AppViewController extends BaseController {
         // For now, use deploymentUrl from apps table as cloudflareUrl
         const cloudflareUrl = appResult.deploymentUrl;
 
-        // Check if user has permission to view
-        if (appResult.visibility === 'private' && appResult.userId !== userId) {
+        // Check if user has permission to view, team members can see team apps
+        if (!await canViewApp(authResult.user, appResult, env)) {
             return this.createErrorResponse('App not found', 404);
         }
 
@@ -114,6 +117,8 @@ export class AppViewController extends BaseController {
             }
         }
 
+        const taxonomy = await dbService.getAppTaxonomy([appId]);
+
         // Try to fetch current agent state to get latest generated code
         let generatedCode = appResult.generatedFiles ? Object.values(appResult.generatedFiles) : [];
         
@@ -144,8 +149,12 @@ export class AppViewController extends BaseController {
             description: appResult.description,
             framework: appResult.framework,
             visibility: appResult.visibility,
+            teamId: appResult.teamId,
+            tags: taxonomy[appId].tags,
+            category: taxonomy[appId].category,
             cloudflareUrl,
             previewUrl: appResult.deploymentUrl,
+            githubRepositoryUrl: appResult.githubRepositoryUrl,
             createdAt: appResult.createdAt,
             updatedAt: appResult.updatedAt,
             userId: appResult.userId,
@@ -266,8 +275,8 @@ export class AppViewController extends BaseController {
             return this.createErrorResponse('App not found', 404);
         }
 
-        // Check visibility permissions
-        if (originalApp.visibility === 'private' && originalApp.userId !== authResult.user!.id) {
+        // Check visibility permissions, team members can fork each other's apps
+        if (!await canViewApp(authResult.user, originalApp, env)) {
             return this.createErrorResponse('App not found', 404);
         }
 
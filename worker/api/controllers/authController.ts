@@ -24,6 +24,8 @@ import {
 import { OAuthIntegrationService } from '../../services/auth/OAuthIntegrationService';
 import * as schema from '../../database/schema';
 import { eq, and, desc, ne } from 'drizzle-orm';
+import { API_KEY_SCOPES } from '../../types/auth-types';
+import { DEFAULT_API_KEY_RATE_LIMIT, MAX_API_KEY_RATE_LIMIT, parseApiKeyScopes } from '../../middleware/security/apiKeyScopes';
 
 /**
  * Authentication Controller
@@ -524,6 +526,9 @@ export class AuthController extends BaseController {
                     id: schema.apiKeys.id,
                     name: schema.apiKeys.name,
                     keyPreview: schema.apiKeys.keyPreview,
+                    scopes: schema.apiKeys.scopes,
+                    rateLimit: schema.apiKeys.rateLimit,
+                    requestCount: schema.apiKeys.requestCount,
                     createdAt: schema.apiKeys.createdAt,
                     lastUsed: schema.apiKeys.lastUsed,
                     isActive: schema.apiKeys.isActive
@@ -534,14 +539,18 @@ export class AuthController extends BaseController {
                 .all();
 
             return this.createSuccessResponse({
-                keys: keys.map((key: { id: string; name: string; keyPreview: string; createdAt: Date | null; lastUsed: Date | null; isActive: boolean | null }) => ({
+                keys: keys.map((key) => ({
                     id: key.id,
                     name: key.name,
                     keyPreview: key.keyPreview,
+                    scopes: parseApiKeyScopes(key.scopes),
+                    rateLimit: key.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT,
+                    requestCount: key.requestCount ?? 0,
                     createdAt: key.createdAt,
                     lastUsed: key.lastUsed,
                     isActive: !!key.isActive
-                }))
+                })),
+                availableScopes: API_KEY_SCOPES
             });
         } catch (error) {
             return this.handleError(error, 'get API keys');
@@ -560,17 +569,26 @@ export class AuthController extends BaseController {
                 return this.createErrorResponse('Unauthorized', 401);
             }
 
-            const bodyResult = await this.parseJsonBody<{ name?: string }>(request);
+            const bodyResult = await this.parseJsonBody<{ name?: string; scopes?: unknown; rateLimit?: unknown }>(request);
             if (!bodyResult.success) {
                 return bodyResult.response!;
             }
 
-            const { name } = bodyResult.data!;
+            const { name, scopes = API_KEY_SCOPES, rateLimit = DEFAULT_API_KEY_RATE_LIMIT } = bodyResult.data!;
 
             if (!name || typeof name !== 'string' || name.trim().length === 0) {
                 return this.createErrorResponse('API key name is required', 400);
             }
 
+            if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => API_KEY_SCOPES.includes(scope))) {
+                return this.createErrorResponse(`Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`, 400);
+            }
+
+            if (typeof rateLimit !== 'number' || !Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_API_KEY_RATE_LIMIT) {
+                return this.createErrorResponse(`Rate limit must be between 1 and ${MAX_API_KEY_RATE_LIMIT} requests per minute`, 400);
+            }
+            const grantedScopes = API_KEY_SCOPES.filter(scope => scopes.includes(scope));
+
             // Sanitize name
             const sanitizedName = name.trim().substring(0, 100);
 
@@ -588,19 +606,22 @@ export class AuthController extends BaseController {
                     name: sanitizedName,
                     keyHash,
                     keyPreview,
-                    scopes: JSON.stringify(['read', 'write']), // Default scopes
+                    scopes: JSON.stringify(grantedScopes),
+                    rateLimit,
                     isActive: true,
                     requestCount: 0,
                     createdAt: new Date(),
                     updatedAt: new Date()
                 });
 
-            this.logger.info('API key created', { userId: session.userId, name: sanitizedName });
+            this.logger.info('API key created', { userId: session.userId, name: sanitizedName, scopes: grantedScopes });
 
             return this.createSuccessResponse({
                 key, // Return the actual key only once
                 keyPreview,
                 name: sanitizedName,
+                scopes: grantedScopes,
+                rateLimit,
                 message: 'API key created successfully'
             });
         } catch (error) {
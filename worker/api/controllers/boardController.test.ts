@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { BoardMember } from '../../database/schema';
+
+const auth = vi.hoisted(() => ({
+    user: { id: 'user-1', email: 'user@example.com', isAnonymous: false },
+}));
+
+vi.mock('../../middleware/security/auth', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../../middleware/security/auth')>(),
+    authMiddleware: async () => auth.user,
+}));
+
+import { BaseController } from './BaseController';
+import { boardController } from './boardController';
+
+const db = {
+    getBoard: vi.fn(),
+    getBoardMember: vi.fn(),
+    removeBoardMember: vi.fn(),
+};
+
+const env = {} as Env;
+const ctx = {} as ExecutionContext;
+
+function createMember(overrides: Partial<BoardMember> = {}): BoardMember {
+    return {
+        id: 'membership-1',
+        boardId: 'board-1',
+        userId: 'user-2',
+        role: 'member',
+        permissions: [],
+        isBanned: false,
+        bannedAt: null,
+        bannedReason: null,
+        joinedAt: null,
+        ...overrides,
+    };
+}
+
+function removeMember(userId: string): Promise<Response> {
+    const request = new Request(`https://build.example.com/api/boards/board-1/members/${userId}`, { method: 'DELETE' });
+    return boardController.removeMember(request, env, ctx, { id: 'board-1', userId });
+}
+
+describe('BoardController.removeMember', () => {
+    let members: Record<string, BoardMember>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(BaseController.prototype as unknown as { createDbService: () => unknown }, 'createDbService')
+            .mockReturnValue(db);
+        members = { 'user-1': createMember({ userId: 'user-1', role: 'moderator' }) };
+        db.getBoard.mockResolvedValue({ id: 'board-1', visibility: 'public' });
+        db.getBoardMember.mockImplementation(async (_boardId: string, userId: string) => members[userId] ?? null);
+    });
+
+    it('should remove an active member', async () => {
+        members['user-2'] = createMember();
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(200);
+        expect(db.removeBoardMember).toHaveBeenCalledWith('board-1', 'user-2');
+    });
+
+    it('should let a moderator remove a banned member', async () => {
+        members['user-2'] = createMember({ isBanned: true, bannedAt: new Date() });
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(200);
+        expect(db.removeBoardMember).toHaveBeenCalledWith('board-1', 'user-2');
+    });
+
+    it('should not let a banned member lift their own ban by leaving', async () => {
+        members['user-1'] = createMember({ userId: 'user-1', isBanned: true });
+
+        const response = await removeMember('user-1');
+
+        expect(response.status).toBe(403);
+        expect(db.removeBoardMember).not.toHaveBeenCalled();
+    });
+
+    it('should not let a moderator remove a banned moderator', async () => {
+        members['user-2'] = createMember({ role: 'moderator', isBanned: true });
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(403);
+        expect(db.removeBoardMember).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for users without a membership', async () => {
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(404);
+        expect(db.removeBoardMember).not.toHaveBeenCalled();
+    });
+});
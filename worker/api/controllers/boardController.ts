@@ -0,0 +1,544 @@
+/**
+ * Board Controller
+ * Handles boards (curated app collections), their apps and membership
+ */
+
+import { BaseController } from './BaseController';
+import { AnalyticsService } from '../../database/analytics';
+import { DatabaseService } from '../../database/database';
+import * as schema from '../../database/schema';
+import { eq } from 'drizzle-orm';
+import { checkPermissions } from '../../middleware/security/auth';
+import { AuthUser } from '../../types/auth-types';
+
+type BoardRole = schema.BoardMember['role'];
+
+const BOARD_ROLE_RANK: Record<BoardRole, number> = {
+    member: 0,
+    moderator: 1,
+    owner: 2,
+};
+
+const BOARD_VISIBILITIES = ['public', 'private', 'team_only'] as const;
+
+interface BoardInput {
+    name?: string;
+    description?: string | null;
+    iconUrl?: string | null;
+    bannerUrl?: string | null;
+    visibility?: schema.Board['visibility'];
+    allowSubmissions?: boolean;
+    requireApproval?: boolean;
+    rules?: string | null;
+    guidelines?: string | null;
+    teamId?: string | null;
+}
+
+export class BoardController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Get the active (non banned) role of a user on a board
+     */
+    private async getBoardRole(dbService: DatabaseService, boardId: string, userId?: string): Promise<BoardRole | null> {
+        if (!userId) {
+            return null;
+        }
+        const member = await dbService.getBoardMember(boardId, userId);
+        return member && !member.isBanned ? member.role : null;
+    }
+
+    private hasBoardRole(role: BoardRole | null, requiredRole: BoardRole): boolean {
+        return !!role && BOARD_ROLE_RANK[role] >= BOARD_ROLE_RANK[requiredRole];
+    }
+
+    /**
+     * Check if a user can view a board based on its visibility
+     */
+    private async canViewBoard(board: schema.Board, role: BoardRole | null, user: AuthUser | undefined, env: Env): Promise<boolean> {
+        if (board.visibility === 'public' || role) {
+            return true;
+        }
+        if (board.visibility === 'team_only' && board.teamId && user) {
+            return checkPermissions(user, ['team:read'], env, board.teamId);
+        }
+        return false;
+    }
+
+    /**
+     * Load a board and the current user's role on it, hiding boards the user cannot view
+     */
+    private async loadBoard(request: Request, env: Env, boardId: string | undefined): Promise<{
+        board?: schema.Board;
+        role: BoardRole | null;
+        user?: AuthUser;
+        response?: Response;
+    }> {
+        if (!boardId) {
+            return { role: null, response: this.createErrorResponse('Board ID is required', 400) };
+        }
+
+        const dbService = this.createDbService(env);
+        const authResult = await this.requireAuth(request, env);
+        const user = authResult.success ? authResult.user : undefined;
+
+        const board = await dbService.getBoard(boardId);
+        if (!board) {
+            return { role: null, response: this.createErrorResponse('Board not found', 404) };
+        }
+
+        const role = await this.getBoardRole(dbService, board.id, user?.id);
+        if (!await this.canViewBoard(board, role, user, env)) {
+            return { role: null, response: this.createErrorResponse('Board not found', 404) };
+        }
+
+        return { board, role, user };
+    }
+
+    /**
+     * Pick the editable board fields from a request body
+     */
+    private pickBoardFields(body: BoardInput): BoardInput {
+        const fields: BoardInput = {};
+        const keys: Array<keyof BoardInput> = [
+            'name', 'description', 'iconUrl', 'bannerUrl', 'visibility',
+            'allowSubmissions', 'requireApproval', 'rules', 'guidelines'
+        ];
+        for (const key of keys) {
+            if (body[key] !== undefined) {
+                (fields as Record<string, unknown>)[key] = body[key];
+            }
+        }
+        return fields;
+    }
+
+    // List popular public boards
+    async getBoards(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const url = new URL(request.url);
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 50);
+
+            const dbService = this.createDbService(env);
+            const boards = await dbService.getPopularBoards(limit);
+
+            return this.createSuccessResponse({ boards });
+        } catch (error) {
+            this.logger.error('Error fetching boards:', error);
+            return this.createErrorResponse('Failed to fetch boards', 500);
+        }
+    }
+
+    // Create a new board owned by the current user
+    async createBoard(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            if (!await checkPermissions(authResult.user!, ['boards:write'], env)) {
+                return this.createErrorResponse('Sign in to create a board', 403);
+            }
+
+            const bodyResult = await this.parseJsonBody<BoardInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const body = bodyResult.data ?? {};
+            const fields = this.pickBoardFields(body);
+            if (!fields.name?.trim()) {
+                return this.createErrorResponse('Board name is required', 400);
+            }
+            if (fields.visibility && !BOARD_VISIBILITIES.includes(fields.visibility)) {
+                return this.createErrorResponse('Visibility must be one of public, private or team_only', 400);
+            }
+
+            // Team boards require write access to the team
+            if (body.teamId && !await checkPermissions(authResult.user!, ['team:apps:write'], env, body.teamId)) {
+                return this.createErrorResponse('You do not have permission to create boards in this team', 403);
+            }
+            if (fields.visibility === 'team_only' && !body.teamId) {
+                return this.createErrorResponse('Team only boards require a team', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const board = await dbService.createBoard({
+                ...fields,
+                name: fields.name.trim(),
+                ownerId: authResult.user!.id,
+                teamId: body.teamId || null,
+            });
+
+            return this.createSuccessResponse({ board: { ...board, memberRole: 'owner' } });
+        } catch (error) {
+            this.logger.error('Error creating board:', error);
+            return this.createErrorResponse('Failed to create board', 500);
+        }
+    }
+
+    // Get board details with stats
+    async getBoard(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+
+            const analyticsService = new AnalyticsService(this.createDbService(env));
+            const stats = await analyticsService.getBoardStats(board.id);
+
+            return this.createSuccessResponse({
+                board: {
+                    ...board,
+                    ...stats,
+                    memberRole: role,
+                }
+            });
+        } catch (error) {
+            this.logger.error('Error fetching board:', error);
+            return this.createErrorResponse('Failed to fetch board', 500);
+        }
+    }
+
+    // Update board settings (moderators and owner, visibility is owner only)
+    async updateBoard(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+
+            if (!this.hasBoardRole(role, 'moderator')) {
+                return this.createErrorResponse('Only board moderators can edit the board', 403);
+            }
+
+            const bodyResult = await this.parseJsonBody<BoardInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const fields = this.pickBoardFields(bodyResult.data ?? {});
+            if (fields.name !== undefined && !fields.name.trim()) {
+                return this.createErrorResponse('Board name cannot be empty', 400);
+            }
+            if (fields.visibility !== undefined) {
+                if (!this.hasBoardRole(role, 'owner')) {
+                    return this.createErrorResponse('Only the board owner can change visibility', 403);
+                }
+                if (!BOARD_VISIBILITIES.includes(fields.visibility)) {
+                    return this.createErrorResponse('Visibility must be one of public, private or team_only', 400);
+                }
+                if (fields.visibility === 'team_only' && !board.teamId) {
+                    return this.createErrorResponse('Team only boards require a team', 400);
+                }
+            }
+
+            const dbService = this.createDbService(env);
+            const updatedBoard = await dbService.updateBoard(board.id, fields);
+
+            return this.createSuccessResponse({ board: { ...updatedBoard, memberRole: role } });
+        } catch (error) {
+            this.logger.error('Error updating board:', error);
+            return this.createErrorResponse('Failed to update board', 500);
+        }
+    }
+
+    // Delete a board (owner only), apps shared to it are unshared
+    async deleteBoard(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+
+            if (!this.hasBoardRole(role, 'owner')) {
+                return this.createErrorResponse('Only the board owner can delete the board', 403);
+            }
+
+            const dbService = this.createDbService(env);
+            await dbService.deleteBoard(board.id);
+
+            return this.createSuccessResponse({ boardId: board.id, deleted: true });
+        } catch (error) {
+            this.logger.error('Error deleting board:', error);
+            return this.createErrorResponse('Failed to delete board', 500);
+        }
+    }
+
+    // Get apps shared to the board
+    async getBoardApps(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+
+            const url = new URL(request.url);
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+            const offset = parseInt(url.searchParams.get('offset') || '0');
+
+            const dbService = this.createDbService(env);
+            const apps = await dbService.getPublicApps(board.id, limit, offset);
+
+            return this.createSuccessResponse({ apps });
+        } catch (error) {
+            this.logger.error('Error fetching board apps:', error);
+            return this.createErrorResponse('Failed to fetch board apps', 500);
+        }
+    }
+
+    // Share an app to the board
+    async addApp(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, user, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+            if (!user) {
+                return this.createErrorResponse('Unauthorized', 401);
+            }
+
+            const bodyResult = await this.parseJsonBody<{ appId?: string }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const appId = bodyResult.data?.appId;
+            if (!appId) {
+                return this.createErrorResponse('App ID is required', 400);
+            }
+
+            // Members submit when the board accepts submissions, moderators can always add apps
+            const isModerator = this.hasBoardRole(role, 'moderator');
+            if (!isModerator && (!role || !board.allowSubmissions || board.requireApproval)) {
+                return this.createErrorResponse('This board does not accept submissions from you', 403);
+            }
+
+            const dbService = this.createDbService(env);
+            const [app] = await this.findUserOwnedResource<schema.App>(dbService, schema.apps, appId, user.id);
+            // Sharing to a board exposes the app, only its owner may do that
+            if (!app) {
+                return this.createErrorResponse('App not found', 404);
+            }
+
+            await dbService.addAppToBoard(app.id, board.id);
+
+            return this.createSuccessResponse({ appId: app.id, boardId: board.id });
+        } catch (error) {
+            this.logger.error('Error adding app to board:', error);
+            return this.createErrorResponse('Failed to add app to board', 500);
+        }
+    }
+
+    // Remove an app from the board (app owner or moderators)
+    async removeApp(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, user, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+            if (!user) {
+                return this.createErrorResponse('Unauthorized', 401);
+            }
+
+            const appId = params?.appId;
+            if (!appId) {
+                return this.createErrorResponse('App ID is required', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const app = await dbService.db
+                .select({ id: schema.apps.id, userId: schema.apps.userId, boardId: schema.apps.boardId })
+                .from(schema.apps)
+                .where(eq(schema.apps.id, appId))
+                .get();
+
+            if (!app || app.boardId !== board.id) {
+                return this.createErrorResponse('App not found on this board', 404);
+            }
+            if (app.userId !== user.id && !this.hasBoardRole(role, 'moderator')) {
+                return this.createErrorResponse('Only the app owner or board moderators can remove this app', 403);
+            }
+
+            await dbService.removeAppFromBoard(app.id);
+
+            return this.createSuccessResponse({ appId: app.id, removed: true });
+        } catch (error) {
+            this.logger.error('Error removing app from board:', error);
+            return this.createErrorResponse('Failed to remove app from board', 500);
+        }
+    }
+
+    // Get board members
+    async getMembers(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const members = await dbService.getBoardMembers(board.id);
+
+            return this.createSuccessResponse({ members });
+        } catch (error) {
+            this.logger.error('Error fetching board members:', error);
+            return this.createErrorResponse('Failed to fetch board members', 500);
+        }
+    }
+
+    // Join a board, or add a user by email as a moderator
+    async addMember(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, user, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+            if (!user || user.isAnonymous) {
+                return this.createErrorResponse('Unauthorized', 401);
+            }
+
+            const bodyResult = await this.parseJsonBody<{ email?: string; role?: BoardRole }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const { email, role: newRole = 'member' } = bodyResult.data ?? {};
+            if (newRole !== 'member' && newRole !== 'moderator') {
+                return this.createErrorResponse('Role must be either "member" or "moderator"', 400);
+            }
+
+            const dbService = this.createDbService(env);
+
+            if (!email) {
+                // Self join, private boards are invite only
+                if (board.visibility === 'private') {
+                    return this.createErrorResponse('This board is invite only', 403);
+                }
+                const existing = await dbService.getBoardMember(board.id, user.id);
+                if (existing?.isBanned) {
+                    return this.createErrorResponse('You are banned from this board', 403);
+                }
+                if (existing) {
+                    return this.createErrorResponse('You are already a member of this board', 409);
+                }
+                await dbService.addBoardMember(board.id, user.id, 'member');
+                return this.createSuccessResponse({ userId: user.id, role: 'member' });
+            }
+
+            if (!this.hasBoardRole(role, newRole === 'moderator' ? 'owner' : 'moderator')) {
+                return this.createErrorResponse('You do not have permission to add members with this role', 403);
+            }
+
+            const invitee = await dbService.findUserByEmail(email.toLowerCase());
+            if (!invitee) {
+                return this.createErrorResponse('No user found with this email', 404);
+            }
+            if (await dbService.getBoardMember(board.id, invitee.id)) {
+                return this.createErrorResponse('User is already a member of this board', 409);
+            }
+
+            await dbService.addBoardMember(board.id, invitee.id, newRole);
+
+            return this.createSuccessResponse({ userId: invitee.id, role: newRole });
+        } catch (error) {
+            this.logger.error('Error adding board member:', error);
+            return this.createErrorResponse('Failed to add board member', 500);
+        }
+    }
+
+    // Promote or demote a moderator (owner only)
+    async updateMemberRole(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+
+            const memberId = params?.userId;
+            if (!memberId) {
+                return this.createErrorResponse('User ID is required', 400);
+            }
+            if (!this.hasBoardRole(role, 'owner')) {
+                return this.createErrorResponse('Only the board owner can change member roles', 403);
+            }
+
+            const bodyResult = await this.parseJsonBody<{ role?: BoardRole }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const newRole = bodyResult.data?.role;
+            if (newRole !== 'member' && newRole !== 'moderator') {
+                return this.createErrorResponse('Role must be either "member" or "moderator"', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const memberRole = await this.getBoardRole(dbService, board.id, memberId);
+            if (!memberRole) {
+                return this.createErrorResponse('Board member not found', 404);
+            }
+            if (memberRole === 'owner') {
+                return this.createErrorResponse('The board owner role cannot be changed', 400);
+            }
+
+            await dbService.updateBoardMemberRole(board.id, memberId, newRole);
+
+            return this.createSuccessResponse({ userId: memberId, role: newRole });
+        } catch (error) {
+            this.logger.error('Error updating board member role:', error);
+            return this.createErrorResponse('Failed to update board member role', 500);
+        }
+    }
+
+    // Leave a board, or remove a member as a moderator
+    async removeMember(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const { board, role, user, response } = await this.loadBoard(request, env, params?.id);
+            if (!board) {
+                return response!;
+            }
+            if (!user) {
+                return this.createErrorResponse('Unauthorized', 401);
+            }
+
+            const memberId = params?.userId;
+            if (!memberId) {
+                return this.createErrorResponse('User ID is required', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const member = await dbService.getBoardMember(board.id, memberId);
+            if (!member) {
+                return this.createErrorResponse('Board member not found', 404);
+            }
+            if (member.role === 'owner') {
+                return this.createErrorResponse('The board owner cannot be removed', 400);
+            }
+
+            // The membership row keeps the ban, so removing a banned member lifts it
+            const isSelf = memberId === user.id;
+            if (isSelf && member.isBanned) {
+                return this.createErrorResponse('You are banned from this board', 403);
+            }
+
+            // Moderators remove members, only the owner removes moderators
+            if (!isSelf && !(role && BOARD_ROLE_RANK[role] > BOARD_ROLE_RANK[member.role])) {
+                return this.createErrorResponse('You do not have permission to remove this member', 403);
+            }
+
+            await dbService.removeBoardMember(board.id, memberId);
+
+            return this.createSuccessResponse({ userId: memberId, removed: true });
+        } catch (error) {
+            this.logger.error('Error removing board member:', error);
+            return this.createErrorResponse('Failed to remove board member', 500);
+        }
+    }
+}
+
+// Export singleton instance
+export const boardController = new BoardController();
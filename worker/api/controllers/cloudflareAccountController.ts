@@ -0,0 +1,192 @@
+/**
+ * Cloudflare Account Controller
+ * Handles the Cloudflare accounts users link to deploy apps to their own account
+ */
+
+import { BaseController } from './BaseController';
+import { DatabaseService } from '../../database/database';
+import * as schema from '../../database/schema';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { CloudflareClient } from '../../services/cloudflare/cloudflareClient';
+
+const ACCOUNT_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+interface CloudflareAccountInput {
+    name?: unknown;
+    accountId?: unknown;
+    apiToken?: unknown;
+}
+
+type CloudflareAccountResponse = Omit<schema.CloudflareAccount, 'apiTokenHash' | 'apiTokenSecretId'>;
+
+export class CloudflareAccountController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Hide the token references from API responses
+     */
+    private formatAccount(account: schema.CloudflareAccount): CloudflareAccountResponse {
+        const { apiTokenHash: _apiTokenHash, apiTokenSecretId: _apiTokenSecretId, ...rest } = account;
+        return rest;
+    }
+
+    private async hashToken(token: string): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+        return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+
+    // List the current user's linked Cloudflare accounts
+    async getAccounts(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const accounts = await dbService.getCloudflareAccounts(authResult.user!.id);
+
+            return this.createSuccessResponse({
+                accounts: accounts.map(account => this.formatAccount(account))
+            });
+        } catch (error) {
+            this.logger.error('Error fetching Cloudflare accounts:', error);
+            return this.createErrorResponse('Failed to fetch Cloudflare accounts', 500);
+        }
+    }
+
+    // Link a Cloudflare account, the token must be able to manage workers on it
+    async createAccount(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const bodyResult = await this.parseJsonBody<CloudflareAccountInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const { name, accountId, apiToken } = bodyResult.data ?? {};
+
+            if (typeof name !== 'string' || !name.trim() || name.length > 64) {
+                return this.createErrorResponse('Name must be 1-64 characters', 400);
+            }
+            if (typeof accountId !== 'string' || !ACCOUNT_ID_PATTERN.test(accountId)) {
+                return this.createErrorResponse('Account ID must be a 32 character Cloudflare account ID', 400);
+            }
+            if (typeof apiToken !== 'string' || !apiToken.trim()) {
+                return this.createErrorResponse('API token is required', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const existing = await dbService.getCloudflareAccounts(user.id);
+            if (existing.some(account => account.accountId === accountId)) {
+                return this.createErrorResponse('This Cloudflare account is already linked', 409);
+            }
+
+            const validation = await new CloudflareClient(apiToken.trim()).validateDeploymentAccess(accountId);
+            if (!validation.valid) {
+                return this.createErrorResponse(`The API token cannot deploy to this account: ${validation.error}`, 400);
+            }
+
+            const secret = await new SecretsService(dbService, env).storeSecret(user.id, {
+                name: `Cloudflare account: ${name.trim()}`,
+                provider: 'cloudflare',
+                secretType: 'api_token',
+                value: apiToken.trim(),
+                description: `API token used to deploy apps to Cloudflare account ${accountId}`
+            });
+
+            const account = await dbService.addCloudflareAccount({
+                name: name.trim(),
+                accountId,
+                apiTokenHash: await this.hashToken(apiToken.trim()),
+                apiTokenSecretId: secret.id,
+                userId: user.id,
+                isDefault: existing.length === 0,
+                isActive: true,
+                capabilities: validation.capabilities,
+                lastValidated: new Date(),
+                validationStatus: 'valid',
+                createdAt: new Date(),
+                updatedAt: new Date()
+            });
+
+            return this.createSuccessResponse({ account: this.formatAccount(account) });
+        } catch (error) {
+            this.logger.error('Error linking Cloudflare account:', error);
+            return this.createErrorResponse('Failed to link Cloudflare account', 500);
+        }
+    }
+
+    // Check the stored token again, e.g. after changing its permissions
+    async validateAccount(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const dbService = this.createDbService(env);
+            const account = params?.id ? await dbService.getCloudflareAccount(params.id, user.id) : null;
+            if (!account) {
+                return this.createErrorResponse('Cloudflare account not found', 404);
+            }
+            if (!account.apiTokenSecretId) {
+                return this.createErrorResponse('The API token of this account was deleted, link the account again', 400);
+            }
+
+            const token = await new SecretsService(dbService, env).getSecretValue(user.id, account.apiTokenSecretId);
+            const validation = await new CloudflareClient(token).validateDeploymentAccess(account.accountId);
+            const updated = await dbService.updateCloudflareAccount(account.id, {
+                capabilities: validation.capabilities,
+                lastValidated: new Date(),
+                validationStatus: validation.valid ? 'valid' : 'invalid'
+            });
+
+            return this.createSuccessResponse({
+                account: this.formatAccount(updated),
+                valid: validation.valid,
+                error: validation.error
+            });
+        } catch (error) {
+            this.logger.error('Error validating Cloudflare account:', error);
+            return this.createErrorResponse('Failed to validate Cloudflare account', 500);
+        }
+    }
+
+    // Unlink a Cloudflare account and delete its stored token
+    async deleteAccount(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const dbService: DatabaseService = this.createDbService(env);
+            const account = params?.id ? await dbService.getCloudflareAccount(params.id, user.id) : null;
+            if (!account) {
+                return this.createErrorResponse('Cloudflare account not found', 404);
+            }
+
+            await dbService.deleteCloudflareAccount(account.id);
+            if (account.apiTokenSecretId) {
+                await new SecretsService(dbService, env).deleteSecret(user.id, account.apiTokenSecretId);
+            }
+
+            return this.createSuccessResponse({ id: account.id, deleted: true });
+        } catch (error) {
+            this.logger.error('Error deleting Cloudflare account:', error);
+            return this.createErrorResponse('Failed to delete Cloudflare account', 500);
+        }
+    }
+}
+
+// Export singleton instance
+export const cloudflareAccountController = new CloudflareAccountController();
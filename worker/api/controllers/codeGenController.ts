@@ -1,14 +1,20 @@
 import { createObjectLogger, Trace, StructuredLogger } from '../../logger'
-import { generateBlueprint } from '../../agents/planning/blueprint';
+import { generateBlueprint, inferBlueprintFromCode } from '../../agents/planning/blueprint';
 import { SmartCodeGeneratorAgent } from '../../agents/core/smartGeneratorAgent';
 import { getAgentByName } from 'agents';
 import { selectTemplate } from '../../agents/planning/templateSelector';
 import { SandboxSdkClient } from '../../services/sandbox/sandboxSdkClient';
 import { WebSocketMessageResponses } from '../../agents/constants';
-import { authMiddleware } from '../../middleware/security/auth';
+import { authMiddleware, canApiKeyAccessApp, checkPermissions } from '../../middleware/security/auth';
+import { API_KEY_SCOPES_HEADER, isApiKeyToken } from '../../middleware/security/apiKeyScopes';
+import { extractToken } from '../../utils/authUtils';
 import * as schema from '../../database/schema';
-import { BaseController } from './BaseController';
+import { AuthResult, BaseController } from './BaseController';
 import { getSandboxService } from '../../services/sandbox/factory';
+import { assertValidInferenceContext, loadInferenceContext, ModelConfigError } from '../../agents/inferutils/userModelConfig';
+import { GitHubApiError, GitHubClient, GitHubRepositoryFile } from '../../services/github/githubClient';
+import { QuotaService, resolveQuotaOwner } from '../../services/quotas/quotaService';
+import type { Blueprint, FileOutputType } from '../../agents/schemas';
 
 interface CodeGenArgs {
     query: string;
@@ -16,6 +22,16 @@ interface CodeGenArgs {
     frameworks?: string[];
     selectedTemplate?: string;
     agentMode: 'deterministic' | 'smart';
+    enableTesting?: boolean;    // Generate and run tests for the app before code review
+    reviewBlueprint?: boolean;  // Wait for the user to edit and approve the blueprint before generating code
+    teamId?: string;            // Save the app as owned by this team, requires team:apps:write
+}
+
+interface GitHubImportArgs {
+    repository: string;     // GitHub URL or owner/repo
+    branch?: string;        // Defaults to the repository's default branch
+    agentMode?: 'deterministic' | 'smart';
+    teamId?: string;        // Save the app as owned by this team, requires team:apps:write
 }
 
 const defaultCodeGenArgs: CodeGenArgs = {
@@ -24,6 +40,8 @@ const defaultCodeGenArgs: CodeGenArgs = {
     frameworks: ['react', 'vite'],
     selectedTemplate: 'auto',
     agentMode: 'deterministic',
+    enableTesting: false,
+    reviewBlueprint: false,
 };
 
 /**
@@ -76,6 +94,8 @@ export class CodeGenController extends BaseController {
             const language = body.language || defaultCodeGenArgs.language;
             const frameworks = body.frameworks || defaultCodeGenArgs.frameworks;
             const agentMode = body.agentMode || defaultCodeGenArgs.agentMode;
+            const enableTesting = body.enableTesting ?? defaultCodeGenArgs.enableTesting;
+            const reviewBlueprint = body.reviewBlueprint ?? defaultCodeGenArgs.reviewBlueprint;
 
             // Create a new agent instance with a generated ID - spawn the correct agent type
             const agentInstance = await getAgentByName<Env, SmartCodeGeneratorAgent>(env.CodeGenObject, chatId);
@@ -85,9 +105,36 @@ export class CodeGenController extends BaseController {
                 requestId,
                 traceId: requestContext.getCurrentTraceId(),
                 agentMode,
+                enableTesting,
+                reviewBlueprint,
                 query: query.substring(0, 100) + (query.length > 100 ? '...' : '')
             });
 
+            // Check if user is authenticated, anonymous sessions are treated like requests without a user
+            const authUser = await authMiddleware(request, env);
+            const user = authUser && !authUser.isAnonymous ? authUser : null;
+
+            const quotaOwner = await resolveQuotaOwner(authUser, this.getClientIpAddress(request));
+            await new QuotaService(this.createDbService(env)).assertWithinQuota(quotaOwner, 'generation');
+            const anonymousKey = 'anonymousKey' in quotaOwner ? quotaOwner.anonymousKey : null;
+
+            if (body.teamId && !(user && await checkPermissions(user, ['team:apps:write'], env, body.teamId))) {
+                return this.createErrorResponse('You do not have permission to create apps in this team', 403);
+            }
+
+            // Reject invalid model overrides before any inference is made on the user's behalf
+            const inferenceContext = user ? await loadInferenceContext(env, user.id) : undefined;
+            if (inferenceContext) {
+                try {
+                    assertValidInferenceContext(inferenceContext);
+                } catch (error) {
+                    if (error instanceof ModelConfigError) {
+                        return this.createErrorResponse(error.message, 400);
+                    }
+                    throw error;
+                }
+            }
+
             // If no template is selected, fetch available templates
             const templatesResponse = await SandboxSdkClient.listTemplates();
             if (!templatesResponse) {
@@ -100,6 +147,7 @@ export class CodeGenController extends BaseController {
                     agentId: chatId,
                     query,
                     availableTemplates: templatesResponse.templates,
+                    inferenceContext,
                 }), 
                 getSandboxService(chatId, hostname)
             ]);
@@ -157,9 +205,6 @@ export class CodeGenController extends BaseController {
                 }
             });
 
-            // Check if user is authenticated
-            const user = await authMiddleware(request, env);
-            
             // Get session token from header for anonymous users
             const sessionToken = !user ? request.headers.get('X-Session-Token') || crypto.randomUUID() : null;
             
@@ -171,6 +216,7 @@ export class CodeGenController extends BaseController {
                 frameworks: frameworks!,
                 templateDetails,
                 templateMetaInfo: analyzeQueryResponse,
+                inferenceContext,
                 stream: {
                     chunk_size: 256,
                     onChunk: (chunk) => {
@@ -182,56 +228,22 @@ export class CodeGenController extends BaseController {
                 
                 // Save the app to database for both authenticated and anonymous users
                 if (user || sessionToken) {
-                    try {
-                        const dbService = this.createDbService(env);
-                        
-                        this.codeGenLogger.info('Attempting to save app to database', {
-                            chatId,
-                            userId: user?.id,
-                            sessionToken: sessionToken,
-                            title: blueprint.title || query.substring(0, 100),
-                            hasDB: !!env.DB
-                        });
-                        
-                        await dbService.db
-                            .insert(schema.apps)
-                            .values({
-                                id: chatId, // Use chatId as the app ID
-                                userId: user?.id || null,
-                                sessionToken: sessionToken,
-                                title: blueprint.title || query.substring(0, 100),
-                                description: blueprint.description || null,
-                                originalPrompt: query,
-                                finalPrompt: query,
-                                blueprint: blueprint,
-                                framework: frameworks?.[0] || 'react',
-                                visibility: user ? 'private' : 'public', // Anonymous apps default to public
-                                status: 'generating',
-                                createdAt: new Date(),
-                                updatedAt: new Date()
-                            });
-                        
-                        this.codeGenLogger.info('App saved successfully to database', { 
-                            chatId, 
-                            userId: user?.id, 
-                            sessionToken: sessionToken,
-                            visibility: user ? 'private' : 'public' 
-                        });
-                    } catch (error) {
-                        this.codeGenLogger.error('Failed to save app to database', {
-                            error: error instanceof Error ? error.message : String(error),
-                            stack: error instanceof Error ? error.stack : undefined,
-                            chatId,
-                            userId: user?.id,
-                            sessionToken: sessionToken
-                        });
-                    }
+                    await this.saveApp(env, {
+                        chatId,
+                        userId: user?.id || null,
+                        teamId: body.teamId,
+                        sessionToken,
+                        anonymousKey,
+                        query,
+                        blueprint,
+                        framework: frameworks?.[0] || 'react'
+                    });
                 } else {
                     this.codeGenLogger.info('No user or session token, skipping app save');
                 }
                 
                 // Initialize the agent with the blueprint and query
-                await agentInstance.initialize(query, blueprint, templateDetails, chatId, hostname, agentMode);
+                await agentInstance.initialize(query, blueprint, templateDetails, chatId, hostname, agentMode, enableTesting, reviewBlueprint);
                 
                 this.codeGenLogger.info('Agent initialized successfully');
                 writer.write("terminate");
@@ -250,11 +262,246 @@ export class CodeGenController extends BaseController {
         }
     }
 
+    /**
+     * Start a code generation session from an existing GitHub repository of the user
+     * Detects the template, loads the files that differ from it and infers a blueprint from the code
+     */
+    async importFromGitHub(request: Request, env: Env, _: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            let body: GitHubImportArgs;
+            try {
+                body = await request.json() as GitHubImportArgs;
+            } catch (error) {
+                return this.createErrorResponse('Invalid JSON in request body', 400);
+            }
+
+            const repository = body.repository ? GitHubClient.parseRepository(body.repository) : null;
+            if (!repository) {
+                return this.createErrorResponse('"repository" must be a GitHub URL or owner/repo', 400);
+            }
+            const agentMode = body.agentMode || defaultCodeGenArgs.agentMode;
+
+            const dbService = this.createDbService(env);
+            await new QuotaService(dbService).assertWithinQuota({ userId: user.id }, 'generation');
+
+            if (body.teamId && !await checkPermissions(user, ['team:apps:write'], env, body.teamId)) {
+                return this.createErrorResponse('You do not have permission to create apps in this team', 403);
+            }
+
+            const integration = await dbService.getGitHubIntegration(user.id);
+            if (!integration) {
+                return this.createErrorResponse('Connect your GitHub account before importing a repository', 400);
+            }
+
+            const inferenceContext = await loadInferenceContext(env, user.id);
+            try {
+                assertValidInferenceContext(inferenceContext);
+            } catch (error) {
+                if (error instanceof ModelConfigError) {
+                    return this.createErrorResponse(error.message, 400);
+                }
+                throw error;
+            }
+
+            const client = new GitHubClient(integration.accessTokenHash);
+            let branch: string;
+            let commitSha: string;
+            let repositoryFiles: GitHubRepositoryFile[];
+            try {
+                branch = body.branch || await client.getDefaultBranch(repository);
+                commitSha = await client.getBranchHeadSha(repository, branch);
+                const tree = await client.getTree(repository, commitSha);
+                repositoryFiles = await client.getFiles(repository, tree, commitSha);
+            } catch (error) {
+                if (error instanceof GitHubApiError) {
+                    return this.createErrorResponse(error.message, error.status === 404 || error.status === 413 ? error.status : 400);
+                }
+                throw error;
+            }
+
+            if (!repositoryFiles.some(file => file.path === 'package.json')) {
+                return this.createErrorResponse('Only JavaScript projects with a package.json at the repository root can be imported', 400);
+            }
+
+            const chatId = crypto.randomUUID();
+            const url = new URL(request.url);
+            const hostname = url.hostname === 'localhost' ? `localhost:${url.port}`: url.hostname;
+            const repositoryName = `${repository.owner}/${repository.repo}`;
+
+            this.codeGenLogger.info('Importing GitHub repository', {
+                chatId,
+                repository: repositoryName,
+                branch,
+                commitSha,
+                fileCount: repositoryFiles.length
+            });
+
+            const templatesResponse = await SandboxSdkClient.listTemplates();
+            if (!templatesResponse) {
+                return this.createErrorResponse('Failed to fetch templates from sandbox service', 500);
+            }
+
+            // The template is picked from what the project is and uses, as described by its manifest and readme
+            const packageJson = repositoryFiles.find(file => file.path === 'package.json')!.contents;
+            const readme = repositoryFiles.find(file => file.path.toLowerCase() === 'readme.md')?.contents || '';
+            const templateQuery = `Existing project to continue working on.\n\npackage.json:\n${packageJson}\n\nREADME:\n${readme.slice(0, 2000)}`;
+
+            const [templateSelection, sandboxClient] = await Promise.all([
+                selectTemplate({
+                    env,
+                    agentId: chatId,
+                    query: templateQuery,
+                    availableTemplates: templatesResponse.templates,
+                    inferenceContext,
+                }),
+                getSandboxService(chatId, hostname)
+            ]);
+
+            const selectedTemplate = templatesResponse.templates.find(template => template.name === templateSelection.selectedTemplateName);
+            if (!selectedTemplate) {
+                return this.createErrorResponse('No template matches the project in this repository', 404);
+            }
+
+            const templateDetailsResponse = await sandboxClient.getTemplateDetails(selectedTemplate.name);
+            if (!templateDetailsResponse.success || !templateDetailsResponse.templateDetails) {
+                this.codeGenLogger.error('Failed to fetch files', { templateDetailsResponse });
+                return this.createErrorResponse('Failed to fetch files', 500);
+            }
+            const templateDetails = templateDetailsResponse.templateDetails;
+
+            // Files identical to the template are served from the template, like for generated apps
+            const templateContents = new Map(templateDetails.files.map(file => [file.file_path, file.file_contents]));
+            const files: FileOutputType[] = repositoryFiles
+                .filter(file => templateContents.get(file.path) !== file.contents)
+                .map(file => ({
+                    file_path: file.path,
+                    file_contents: file.contents,
+                    file_purpose: `Imported from ${repositoryName}`
+                }));
+
+            const query = `Continue developing the existing application from the GitHub repository ${repositoryName}.`;
+            const blueprint = await inferBlueprintFromCode({
+                env,
+                agentId: chatId,
+                query,
+                files,
+                templateDetails,
+                inferenceContext,
+            });
+
+            await this.saveApp(env, {
+                chatId,
+                userId: user.id,
+                teamId: body.teamId,
+                sessionToken: null,
+                query,
+                blueprint,
+                framework: 'react',
+                githubRepositoryUrl: `https://github.com/${repositoryName}`
+            });
+
+            const agentInstance = await getAgentByName<Env, SmartCodeGeneratorAgent>(env.CodeGenObject, chatId);
+            await agentInstance.importRepository(query, blueprint, templateDetails, chatId, hostname, agentMode, files, {
+                repository: repositoryName,
+                branch,
+                lastSyncedSha: commitSha,
+                baseShas: Object.fromEntries(repositoryFiles.map(file => [file.path, file.sha])),
+                lastSyncedAt: Date.now()
+            });
+
+            return this.createSuccessResponse({
+                agentId: chatId,
+                websocketUrl: `${url.protocol === 'https:' ? 'wss:' : 'ws:'}//${url.host}/api/codegen/ws/${chatId}`,
+                httpStatusUrl: `${url.origin}/api/codegen/incremental/${chatId}`,
+                repository: repositoryName,
+                branch
+            });
+        } catch (error) {
+            this.codeGenLogger.error('Error importing GitHub repository', error);
+            return this.handleError(error, 'import GitHub repository');
+        }
+    }
+
+    /**
+     * Save the app record of a new session, failures are logged since the session itself can still proceed
+     */
+    private async saveApp(env: Env, app: {
+        chatId: string;
+        userId: string | null;
+        teamId?: string;
+        sessionToken: string | null;
+        anonymousKey?: string | null;
+        query: string;
+        blueprint: Blueprint;
+        framework: string;
+        githubRepositoryUrl?: string;
+    }): Promise<void> {
+        const { chatId, userId, sessionToken, anonymousKey, query, blueprint } = app;
+        try {
+            const dbService = this.createDbService(env);
+            
+            this.codeGenLogger.info('Attempting to save app to database', {
+                chatId,
+                userId,
+                sessionToken,
+                title: blueprint.title || query.substring(0, 100),
+                hasDB: !!env.DB
+            });
+            
+            await dbService.db
+                .insert(schema.apps)
+                .values({
+                    id: chatId, // Use chatId as the app ID
+                    userId,
+                    sessionToken,
+                    anonymousKey,
+                    title: blueprint.title || query.substring(0, 100),
+                    description: blueprint.description || null,
+                    originalPrompt: query,
+                    finalPrompt: query,
+                    blueprint: blueprint,
+                    framework: app.framework,
+                    teamId: app.teamId ?? null,
+                    visibility: app.teamId ? 'team' : userId ? 'private' : 'public', // Anonymous apps default to public
+                    status: 'generating',
+                    githubRepositoryUrl: app.githubRepositoryUrl,
+                    createdAt: new Date(),
+                    updatedAt: new Date()
+                });
+            
+            // Tags and category proposed by the blueprint, editable later by the owner
+            await dbService.setAppTags(chatId, blueprint.tags || []);
+            await dbService.setAppCategory(chatId, blueprint.category || null);
+            
+            this.codeGenLogger.info('App saved successfully to database', { 
+                chatId, 
+                userId, 
+                sessionToken,
+                teamId: app.teamId,
+                visibility: app.teamId ? 'team' : userId ? 'private' : 'public' 
+            });
+        } catch (error) {
+            this.codeGenLogger.error('Failed to save app to database', {
+                error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
+                chatId,
+                userId,
+                sessionToken
+            });
+        }
+    }
+
     /**
      * Get the current progress of code generation
      */
     async getCodeGenerationProgress(
-        _: Request,
+        request: Request,
         env: Env,
         __: ExecutionContext,
         params?: Record<string, string>
@@ -265,6 +512,11 @@ export class CodeGenController extends BaseController {
                 return this.createErrorResponse('Missing agent ID parameter', 400);
             }
 
+            const apiKeyResult = await this.authorizeApiKeyForAgent(request, env, chatId);
+            if (apiKeyResult.response) {
+                return apiKeyResult.response;
+            }
+
             this.codeGenLogger.info(`Getting code generation progress for chat: ${chatId}`);
 
             // Get the agent instance and its current state
@@ -303,6 +555,11 @@ export class CodeGenController extends BaseController {
                 return this.createErrorResponse('Missing agent ID parameter', 400);
             }
 
+            const apiKeyResult = await this.authorizeApiKeyForAgent(request, env, agentId);
+            if (apiKeyResult.response) {
+                return apiKeyResult.response;
+            }
+
             this.codeGenLogger.info(`Connecting to existing agent: ${agentId}`);
 
             try {
@@ -337,6 +594,27 @@ export class CodeGenController extends BaseController {
         }
     }
 
+    /**
+     * Authenticate an API key presented to an agent endpoint
+     * Keys may only reach apps of their owner, requests without a key keep working as before
+     */
+    private async authorizeApiKeyForAgent(request: Request, env: Env, agentId: string): Promise<AuthResult> {
+        const token = extractToken(request);
+        if (!token || !isApiKeyToken(token)) {
+            return { success: true };
+        }
+
+        const authResult = await this.requireAuth(request, env);
+        if (!authResult.success) {
+            return authResult;
+        }
+
+        if (!await canApiKeyAccessApp(authResult.user!, agentId, this.createDbService(env))) {
+            return { success: false, response: this.createErrorResponse('App not found', 404) };
+        }
+        return authResult;
+    }
+
     /**
      * Handle WebSocket connections for code generation
      * This routes the WebSocket connection directly to the Agent
@@ -358,12 +636,24 @@ export class CodeGenController extends BaseController {
                 return new Response('Expected WebSocket upgrade', { status: 426 });
             }
 
+            // The agent limits API key connections to the key's scopes, clients cannot claim scopes themselves
+            const apiKeyResult = await this.authorizeApiKeyForAgent(request, env, chatId);
+            if (apiKeyResult.response) {
+                return apiKeyResult.response;
+            }
+            const agentHeaders = new Headers(request.headers);
+            agentHeaders.delete(API_KEY_SCOPES_HEADER);
+            if (apiKeyResult.user?.apiKey) {
+                agentHeaders.set(API_KEY_SCOPES_HEADER, apiKeyResult.user.apiKey.scopes.join(','));
+            }
+            const agentRequest = new Request(request, { headers: agentHeaders });
+
             this.codeGenLogger.info(`WebSocket connection request for chat: ${chatId}`);
             
             // Log request details for debugging
             const headers: Record<string, string> = {};
             request.headers.forEach((value, key) => {
-                headers[key] = value;
+                headers[key] = key === 'authorization' ? '[redacted]' : value;
             });
             this.codeGenLogger.info('WebSocket request details', {
                 headers,
@@ -378,7 +668,7 @@ export class CodeGenController extends BaseController {
                 this.codeGenLogger.info(`Successfully got agent instance for chat: ${chatId}`);
 
                 // Let the agent handle the WebSocket connection directly
-                return agentInstance.fetch(request);
+                return agentInstance.fetch(agentRequest);
             } catch (error) {
                 this.codeGenLogger.error(`Failed to get agent instance with ID ${chatId}:`, error);
                 // Return an appropriate WebSocket error response
@@ -0,0 +1,345 @@
+/**
+ * Comment Controller
+ * Handles threaded app comments and comment likes
+ */
+
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { BaseController } from './BaseController';
+import { CommentWithAuthor, DatabaseService } from '../../database/database';
+import { AnalyticsService } from '../../database/analytics';
+import * as schema from '../../database/schema';
+import { canViewApp } from '../../middleware/security/auth';
+import { sanitizers, validateInput } from '../../middleware/security/inputValidator';
+import { SecurityError } from '../../types/security';
+import { AuthUser } from '../../types/auth-types';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// Replies deeper than this are rejected, top-level comments have depth 0
+const MAX_COMMENT_DEPTH = 3;
+
+const commentContentSchema = z.string()
+    .transform(content => sanitizers.stripHtml(content).trim())
+    .pipe(z.string()
+        .min(1, 'Comment cannot be empty')
+        .max(MAX_COMMENT_LENGTH, `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`));
+
+const createCommentSchema = z.object({
+    content: commentContentSchema,
+    parentCommentId: z.string().optional(),
+});
+
+const updateCommentSchema = z.object({
+    content: commentContentSchema,
+});
+
+const listCommentsSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+export interface ThreadedComment extends Omit<CommentWithAuthor, 'content'> {
+    content: string | null;
+    replies: ThreadedComment[];
+}
+
+export class CommentController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Verify the app exists and the user can view it
+     * Returns an error response if not, null otherwise
+     */
+    private async requireViewableApp(dbService: DatabaseService, appId: string | undefined, user: AuthUser | undefined, env: Env): Promise<Response | null> {
+        if (!appId) {
+            return this.createErrorResponse('App ID is required', 400);
+        }
+
+        const app = await dbService.db
+            .select({
+                userId: schema.apps.userId,
+                teamId: schema.apps.teamId,
+                visibility: schema.apps.visibility,
+            })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .get();
+
+        if (!app || !await canViewApp(user, app, env)) {
+            return this.createErrorResponse('App not found', 404);
+        }
+        return null;
+    }
+
+    /**
+     * Load a comment of the given app
+     */
+    private async loadComment(dbService: DatabaseService, appId: string, commentId: string | undefined): Promise<schema.AppComment | null> {
+        if (!commentId) {
+            return null;
+        }
+        const comment = await dbService.getComment(commentId);
+        return comment && comment.appId === appId ? comment : null;
+    }
+
+    private toThreadedComment(comment: CommentWithAuthor): ThreadedComment {
+        return {
+            ...comment,
+            content: comment.isDeleted ? null : comment.content,
+            userName: comment.isDeleted ? null : comment.userName,
+            userAvatar: comment.isDeleted ? null : comment.userAvatar,
+            likeCount: Number(comment.likeCount),
+            userLiked: !!comment.userLiked,
+            replies: [],
+        };
+    }
+
+    /**
+     * Drop deleted comments that have no remaining replies
+     */
+    private pruneDeleted(comments: ThreadedComment[]): ThreadedComment[] {
+        return comments.filter(comment => {
+            comment.replies = this.pruneDeleted(comment.replies);
+            return !comment.isDeleted || comment.replies.length > 0;
+        });
+    }
+
+    /**
+     * Handle errors thrown by the rate limiter and input validator
+     */
+    private handleCommentError(error: unknown, action: string): Response {
+        if (error instanceof SecurityError) {
+            return this.createErrorResponse(error.message, error.statusCode);
+        }
+        this.logger.error(`Error trying to ${action}:`, error);
+        return this.createErrorResponse(`Failed to ${action}`, 500);
+    }
+
+    // List comments of an app as threads, paginated by top-level comment
+    async getComments(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            const user = authResult.success ? authResult.user : undefined;
+
+            const dbService = this.createDbService(env);
+            const denied = await this.requireViewableApp(dbService, params?.id, user, env);
+            if (denied) {
+                return denied;
+            }
+
+            const appId = params!.id;
+            const { limit, offset } = await validateInput(request, listCommentsSchema);
+
+            const [topLevel, total, commentCount] = await Promise.all([
+                dbService.getAppComments(appId, { userId: user?.id, limit, offset }),
+                dbService.countAppComments(appId, true),
+                dbService.countAppComments(appId),
+            ]);
+
+            // Fetch replies level by level down to the maximum depth
+            const threads = topLevel.map(comment => this.toThreadedComment(comment));
+            let level = threads;
+            for (let depth = 1; depth <= MAX_COMMENT_DEPTH && level.length > 0; depth++) {
+                const parents = new Map(level.map(comment => [comment.id, comment]));
+                const replies = await dbService.getAppComments(appId, {
+                    parentCommentIds: [...parents.keys()],
+                    userId: user?.id,
+                });
+
+                level = replies.map(reply => {
+                    const threaded = this.toThreadedComment(reply);
+                    parents.get(reply.parentCommentId!)?.replies.push(threaded);
+                    return threaded;
+                });
+            }
+
+            return this.createSuccessResponse({
+                comments: this.pruneDeleted(threads),
+                commentCount,
+                pagination: {
+                    total,
+                    limit,
+                    offset,
+                    hasMore: offset + limit < total
+                }
+            });
+        } catch (error) {
+            return this.handleCommentError(error, 'fetch comments');
+        }
+    }
+
+    // Create a comment or a reply
+    async createComment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            if (authResult.user!.isAnonymous) {
+                return this.createErrorResponse('Sign in to comment', 403);
+            }
+
+            const dbService = this.createDbService(env);
+            const denied = await this.requireViewableApp(dbService, params?.id, authResult.user, env);
+            if (denied) {
+                return denied;
+            }
+
+            const appId = params!.id;
+            const { content, parentCommentId } = await validateInput(request, createCommentSchema);
+
+            if (parentCommentId) {
+                const parent = await this.loadComment(dbService, appId, parentCommentId);
+                if (!parent || parent.isDeleted) {
+                    return this.createErrorResponse('Parent comment not found', 404);
+                }
+
+                // Walk up the thread to enforce the maximum depth
+                let depth = 1;
+                let ancestorId = parent.parentCommentId;
+                while (ancestorId && depth <= MAX_COMMENT_DEPTH) {
+                    depth++;
+                    ancestorId = (await dbService.getComment(ancestorId))?.parentCommentId ?? null;
+                }
+                if (depth > MAX_COMMENT_DEPTH) {
+                    return this.createErrorResponse('Reply is nested too deeply', 400);
+                }
+            }
+
+            const comment = await dbService.createComment({
+                appId,
+                userId: authResult.user!.id,
+                content,
+                parentCommentId: parentCommentId || null,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            });
+
+            return this.createSuccessResponse({
+                comment: {
+                    ...comment,
+                    userName: authResult.user!.displayName ?? null,
+                    userAvatar: authResult.user!.avatarUrl ?? null,
+                    likeCount: 0,
+                    userLiked: false,
+                    replies: [],
+                }
+            });
+        } catch (error) {
+            return this.handleCommentError(error, 'create comment');
+        }
+    }
+
+    // Edit own comment
+    async updateComment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const denied = await this.requireViewableApp(dbService, params?.id, authResult.user, env);
+            if (denied) {
+                return denied;
+            }
+
+            const comment = await this.loadComment(dbService, params!.id, params?.commentId);
+            if (!comment || comment.isDeleted) {
+                return this.createErrorResponse('Comment not found', 404);
+            }
+            if (comment.userId !== authResult.user!.id) {
+                return this.createErrorResponse('You can only edit your own comments', 403);
+            }
+
+            const { content } = await validateInput(request, updateCommentSchema);
+            const updated = await dbService.updateComment(comment.id, content);
+
+            return this.createSuccessResponse({ comment: updated });
+        } catch (error) {
+            return this.handleCommentError(error, 'update comment');
+        }
+    }
+
+    // Soft-delete a comment (comment author or app owner)
+    async deleteComment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const denied = await this.requireViewableApp(dbService, params?.id, authResult.user, env);
+            if (denied) {
+                return denied;
+            }
+
+            const comment = await this.loadComment(dbService, params!.id, params?.commentId);
+            if (!comment || comment.isDeleted) {
+                return this.createErrorResponse('Comment not found', 404);
+            }
+
+            if (comment.userId !== authResult.user!.id) {
+                const [ownedApp] = await this.findUserOwnedResource(dbService, schema.apps, comment.appId, authResult.user!.id);
+                if (!ownedApp) {
+                    return this.createErrorResponse('You can only delete your own comments', 403);
+                }
+            }
+
+            await dbService.softDeleteComment(comment.id);
+
+            return this.createSuccessResponse({ commentId: comment.id, deleted: true });
+        } catch (error) {
+            return this.handleCommentError(error, 'delete comment');
+        }
+    }
+
+    // Like a comment
+    async likeComment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        return this.setCommentLike(request, env, params, true);
+    }
+
+    // Remove like from a comment
+    async unlikeComment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        return this.setCommentLike(request, env, params, false);
+    }
+
+    private async setCommentLike(request: Request, env: Env, params: Record<string, string> | undefined, liked: boolean): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const denied = await this.requireViewableApp(dbService, params?.id, authResult.user, env);
+            if (denied) {
+                return denied;
+            }
+
+            const comment = await this.loadComment(dbService, params!.id, params?.commentId);
+            if (!comment || comment.isDeleted) {
+                return this.createErrorResponse('Comment not found', 404);
+            }
+
+            if (liked) {
+                await dbService.likeComment(comment.id, authResult.user!.id);
+            } else {
+                await dbService.unlikeComment(comment.id, authResult.user!.id);
+            }
+
+            const { likeCount } = await new AnalyticsService(dbService).getCommentStats(comment.id);
+
+            return this.createSuccessResponse({ commentId: comment.id, liked, likeCount });
+        } catch (error) {
+            return this.handleCommentError(error, liked ? 'like comment' : 'unlike comment');
+        }
+    }
+}
+
+// Export singleton instance
+export const commentController = new CommentController();
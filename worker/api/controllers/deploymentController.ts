@@ -0,0 +1,448 @@
+/**
+ * Deployment Controller
+ * Handles the preview and production environments of an app, its deployment history and rollbacks
+ */
+
+import { BaseController } from './BaseController';
+import { DatabaseService } from '../../database/database';
+import * as schema from '../../database/schema';
+import { eq } from 'drizzle-orm';
+import { getAgentByName } from 'agents';
+import { SmartCodeGeneratorAgent } from '../../agents/core/smartGeneratorAgent';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { QuotaExceededError, QuotaService } from '../../services/quotas/quotaService';
+import { DeploymentEnvironmentSchema } from '../../services/sandbox/sandboxTypes';
+import {
+    checkCustomDomainVerification,
+    getCustomHostnamesZoneId,
+    invalidateCustomDomain,
+    isPlatformHostname,
+    provisionCustomDomain,
+    releaseCustomDomain,
+} from '../../services/domains/customDomains';
+import { CloudflareApiError } from '../../services/cloudflare/cloudflareClient';
+
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+interface EnvironmentInput {
+    envVars?: unknown; // Variable name to user secret id
+    customDomain?: unknown; // null removes the domain
+    cloudflareAccountId?: unknown;
+}
+
+type EnvironmentResponse = Pick<schema.AppEnvironment,
+    'name' | 'envVars' | 'customDomain' | 'customDomainVerification' | 'customDomainVerifiedAt' | 'cloudflareAccountId' | 'scriptName' | 'activeDeploymentId'
+>;
+
+// Clears the custom domain of an environment
+const NO_CUSTOM_DOMAIN = {
+    customDomain: null,
+    customHostnameId: null,
+    customDomainVerification: null,
+    customDomainVerifiedAt: null,
+};
+
+export class DeploymentController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Load an app and verify the current user owns it
+     * Environments reference the owner's secrets and Cloudflare accounts, so only the owner can manage them
+     */
+    private async loadOwnedApp(dbService: DatabaseService, appId: string | undefined, userId: string): Promise<{ appId?: string; cloudflareAccountId?: string | null; response?: Response }> {
+        if (!appId) {
+            return { response: this.createErrorResponse('App ID is required', 400) };
+        }
+
+        const app = await dbService.db
+            .select({ id: schema.apps.id, userId: schema.apps.userId, cloudflareAccountId: schema.apps.cloudflareAccountId })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .get();
+
+        if (!app) {
+            return { response: this.createErrorResponse('App not found', 404) };
+        }
+        if (app.userId !== userId) {
+            return { response: this.createErrorResponse('Only the app owner can manage deployments', 403) };
+        }
+        return { appId: app.id, cloudflareAccountId: app.cloudflareAccountId };
+    }
+
+    /**
+     * List both environments, including ones that were never configured or deployed
+     */
+    private async getEnvironments(dbService: DatabaseService, appId: string): Promise<EnvironmentResponse[]> {
+        const stored = await dbService.getAppEnvironments(appId);
+        return DeploymentEnvironmentSchema.options.map(name => {
+            const environment = stored.find(env => env.name === name);
+            return {
+                name,
+                envVars: environment?.envVars ?? {},
+                customDomain: environment?.customDomain ?? null,
+                customDomainVerification: environment?.customDomainVerification ?? null,
+                customDomainVerifiedAt: environment?.customDomainVerifiedAt ?? null,
+                cloudflareAccountId: environment?.cloudflareAccountId ?? null,
+                scriptName: environment?.scriptName ?? null,
+                activeDeploymentId: environment?.activeDeploymentId ?? null,
+            };
+        });
+    }
+
+    // Get the environments of an app, the Cloudflare accounts it can be deployed to and the one it was last deployed to
+    async getAppEnvironments(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const dbService = this.createDbService(env);
+            const { appId, cloudflareAccountId, response } = await this.loadOwnedApp(dbService, params?.id, user.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const accounts = await dbService.getCloudflareAccounts(user.id);
+
+            return this.createSuccessResponse({
+                environments: await this.getEnvironments(dbService, appId),
+                cloudflareAccounts: accounts.map(({ id, name, accountId, validationStatus }) => ({ id, name, accountId, validationStatus })),
+                cloudflareAccountId: cloudflareAccountId ?? null
+            });
+        } catch (error) {
+            this.logger.error('Error fetching app environments:', error);
+            return this.createErrorResponse('Failed to fetch app environments', 500);
+        }
+    }
+
+    // Update the variables and custom domain of an environment
+    async updateAppEnvironment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const environmentResult = DeploymentEnvironmentSchema.safeParse(params?.environment);
+            if (!environmentResult.success) {
+                return this.createErrorResponse(`Environment must be one of ${DeploymentEnvironmentSchema.options.join(', ')}`, 400);
+            }
+            const environment = environmentResult.data;
+
+            const bodyResult = await this.parseJsonBody<EnvironmentInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const { envVars, customDomain, cloudflareAccountId } = bodyResult.data ?? {};
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, user.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const updates: Parameters<DatabaseService['upsertAppEnvironment']>[2] = {};
+
+            if (envVars !== undefined) {
+                if (!envVars || typeof envVars !== 'object' || Array.isArray(envVars)) {
+                    return this.createErrorResponse('envVars must map variable names to secret ids', 400);
+                }
+                const userSecretIds = new Set((await new SecretsService(dbService, env).getUserSecrets(user.id)).map(secret => secret.id));
+                for (const [name, secretId] of Object.entries(envVars)) {
+                    if (!ENV_VAR_NAME_PATTERN.test(name)) {
+                        return this.createErrorResponse(`Invalid environment variable name '${name}'`, 400);
+                    }
+                    if (typeof secretId !== 'string' || !userSecretIds.has(secretId)) {
+                        return this.createErrorResponse(`Secret for environment variable ${name} not found`, 404);
+                    }
+                }
+                updates.envVars = envVars;
+            }
+
+            const current = await dbService.getAppEnvironment(appId, environment);
+
+            if (cloudflareAccountId !== undefined) {
+                if (cloudflareAccountId !== null) {
+                    const accounts = await dbService.getCloudflareAccounts(user.id);
+                    if (typeof cloudflareAccountId !== 'string' || !accounts.some(account => account.id === cloudflareAccountId)) {
+                        return this.createErrorResponse('Cloudflare account not found', 404);
+                    }
+                }
+                updates.cloudflareAccountId = cloudflareAccountId as string | null;
+            }
+
+            // Custom domains are routed through the platform's dispatch namespace, which apps deployed to the owner's account are not in
+            const targetsOwnAccount = !!(updates.cloudflareAccountId !== undefined ? updates.cloudflareAccountId : current?.cloudflareAccountId)
+                || await this.isActiveOnOwnAccount(dbService, current);
+            const zoneId = getCustomHostnamesZoneId(env);
+            let previousDomain: string | null = null;
+
+            if (customDomain !== undefined) {
+                if (customDomain !== null && (typeof customDomain !== 'string' || !DOMAIN_PATTERN.test(customDomain.toLowerCase()))) {
+                    return this.createErrorResponse('Custom domain must be a valid hostname', 400);
+                }
+                const domain = customDomain === null ? null : (customDomain as string).toLowerCase();
+                // Domains bound before ownership was verified are provisioned again when saved
+                if (domain !== (current?.customDomain ?? null) || (domain && !current?.customHostnameId)) {
+                    if (domain) {
+                        const response = await this.bindCustomDomain(env, dbService, zoneId, domain, targetsOwnAccount, updates);
+                        if (response) {
+                            return response;
+                        }
+                    } else {
+                        Object.assign(updates, NO_CUSTOM_DOMAIN);
+                    }
+                    previousDomain = current?.customDomain ?? null;
+                }
+            }
+
+            if (targetsOwnAccount && (updates.customDomain !== undefined ? updates.customDomain : current?.customDomain)) {
+                return this.createErrorResponse('Remove the custom domain first, environments deployed to your own Cloudflare account can add domains in that account', 400);
+            }
+
+            await dbService.upsertAppEnvironment(appId, environment, updates);
+            if (updates.customHostnameId !== undefined && current?.customHostnameId && zoneId) {
+                await releaseCustomDomain(env, zoneId, current.customHostnameId);
+            }
+            for (const domain of [previousDomain, updates.customDomain]) {
+                if (domain) {
+                    await invalidateCustomDomain(domain);
+                }
+            }
+
+            return this.createSuccessResponse({
+                environments: await this.getEnvironments(dbService, appId)
+            });
+        } catch (error) {
+            this.logger.error('Error updating app environment:', error);
+            return this.createErrorResponse('Failed to update app environment', 500);
+        }
+    }
+
+    // Check the ownership record of an environment's custom domain, the domain is only routed once it is verified
+    async verifyCustomDomain(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const environmentResult = DeploymentEnvironmentSchema.safeParse(params?.environment);
+            if (!environmentResult.success) {
+                return this.createErrorResponse(`Environment must be one of ${DeploymentEnvironmentSchema.options.join(', ')}`, 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, authResult.user!.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const appEnvironment = await dbService.getAppEnvironment(appId, environmentResult.data);
+            const zoneId = getCustomHostnamesZoneId(env);
+            if (!appEnvironment?.customDomain || !appEnvironment.customHostnameId || !zoneId) {
+                return this.createErrorResponse('No custom domain is set for this environment', 404);
+            }
+
+            if (!appEnvironment.customDomainVerifiedAt) {
+                const { verified, errors } = await checkCustomDomainVerification(env, zoneId, appEnvironment.customHostnameId);
+                if (!verified) {
+                    const reason = errors.length > 0 ? errors.join(', ') : 'the TXT record was not found yet';
+                    return this.createErrorResponse(`${appEnvironment.customDomain} is not verified: ${reason}`, 400);
+                }
+                await dbService.upsertAppEnvironment(appId, environmentResult.data, { customDomainVerifiedAt: new Date() });
+                await invalidateCustomDomain(appEnvironment.customDomain);
+            }
+
+            return this.createSuccessResponse({
+                environments: await this.getEnvironments(dbService, appId)
+            });
+        } catch (error) {
+            this.logger.error('Error verifying custom domain:', error);
+            return this.createErrorResponse('Failed to verify custom domain', 500);
+        }
+    }
+
+    /**
+     * Add a new custom domain to the platform zone and record the TXT record that proves its ownership
+     * @returns An error response when the domain cannot be bound, undefined once the updates hold the binding
+     */
+    private async bindCustomDomain(
+        env: Env,
+        dbService: DatabaseService,
+        zoneId: string | null,
+        domain: string,
+        targetsOwnAccount: boolean,
+        updates: Parameters<DatabaseService['upsertAppEnvironment']>[2]
+    ): Promise<Response | undefined> {
+        if (!zoneId) {
+            return this.createErrorResponse('Custom domains are not available on this platform', 400);
+        }
+        if (isPlatformHostname(env, domain)) {
+            return this.createErrorResponse(`Apps on ${env.PLATFORM_DOMAIN} are served from their subdomain, use a domain of your own`, 400);
+        }
+        if (targetsOwnAccount) {
+            return this.createErrorResponse('Custom domains are served from the platform, environments deployed to your own Cloudflare account can add domains in that account', 400);
+        }
+
+        const existing = await dbService.getAppEnvironmentByDomain(domain);
+        if (existing?.customDomainVerifiedAt) {
+            return this.createErrorResponse(`${domain} is already bound to another deployment`, 409);
+        }
+        if (existing) {
+            // Unverified claims must not keep the actual owner of a domain from binding it
+            await dbService.upsertAppEnvironment(existing.appId, existing.name, NO_CUSTOM_DOMAIN);
+            if (existing.customHostnameId) {
+                await releaseCustomDomain(env, zoneId, existing.customHostnameId);
+            }
+        }
+
+        try {
+            const { customHostnameId, verification } = await provisionCustomDomain(env, zoneId, domain);
+            Object.assign(updates, {
+                customDomain: domain,
+                customHostnameId,
+                customDomainVerification: verification,
+                customDomainVerifiedAt: null,
+            });
+            return undefined;
+        } catch (error) {
+            if (error instanceof CloudflareApiError) {
+                return this.createErrorResponse(`Could not add ${domain}: ${error.message}`, 502);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Whether the deployment serving an environment runs in one of the owner's Cloudflare accounts
+     */
+    private async isActiveOnOwnAccount(dbService: DatabaseService, appEnvironment: schema.AppEnvironment | null): Promise<boolean> {
+        if (!appEnvironment?.activeDeploymentId) {
+            return false;
+        }
+        const deployment = await dbService.getAppDeployment(appEnvironment.activeDeploymentId);
+        return !!deployment?.cloudflareAccountId;
+    }
+
+    // Get the deployment history of an app, newest first
+    async getAppDeployments(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, authResult.user!.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const deployments = await dbService.getAppDeployments(appId);
+
+            return this.createSuccessResponse({ deployments });
+        } catch (error) {
+            this.logger.error('Error fetching app deployments:', error);
+            return this.createErrorResponse('Failed to fetch app deployments', 500);
+        }
+    }
+
+    // Deploy the current code of an app to an environment, progress is broadcast to connected clients
+    // accountId picks a linked Cloudflare account, null deploys to the platform and omitting it reuses the app's last account
+    async createAppDeployment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const bodyResult = await this.parseJsonBody<{ environment?: unknown; accountId?: unknown }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const accountId = bodyResult.data?.accountId;
+            if (accountId !== undefined && accountId !== null && typeof accountId !== 'string') {
+                return this.createErrorResponse('accountId must be a Cloudflare account id or null', 400);
+            }
+            const environmentResult = DeploymentEnvironmentSchema.safeParse(bodyResult.data?.environment ?? 'production');
+            if (!environmentResult.success) {
+                return this.createErrorResponse(`Environment must be one of ${DeploymentEnvironmentSchema.options.join(', ')}`, 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, authResult.user!.id);
+            if (!appId) {
+                return response!;
+            }
+
+            await new QuotaService(dbService).assertWithinQuota({ userId: authResult.user!.id }, 'deployment');
+
+            const agentInstance = await getAgentByName<Env, SmartCodeGeneratorAgent>(env.CodeGenObject, appId);
+            const result = await agentInstance.deployToCloudflare(environmentResult.data, accountId);
+
+            return await this.createDeploymentResponse(dbService, appId, result);
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                return this.createQuotaErrorResponse(error);
+            }
+            this.logger.error('Error deploying app:', error);
+            return this.createErrorResponse('Failed to deploy app', 500);
+        }
+    }
+
+    // Redeploy the bundle of a previous deployment to its environment
+    async rollbackAppDeployment(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, authResult.user!.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const deployment = params?.deploymentId ? await dbService.getAppDeployment(params.deploymentId) : null;
+            if (!deployment || deployment.appId !== appId) {
+                return this.createErrorResponse('Deployment not found', 404);
+            }
+            if (deployment.status !== 'deployed' || !deployment.archiveKey) {
+                return this.createErrorResponse('Only successful deployments can be restored', 400);
+            }
+
+            const agentInstance = await getAgentByName<Env, SmartCodeGeneratorAgent>(env.CodeGenObject, appId);
+            const result = await agentInstance.rollbackDeployment(deployment.id);
+
+            return await this.createDeploymentResponse(dbService, appId, result);
+        } catch (error) {
+            this.logger.error('Error rolling back deployment:', error);
+            return this.createErrorResponse('Failed to roll back deployment', 500);
+        }
+    }
+
+    /**
+     * Respond with the deployment recorded by the agent
+     * Failures are recorded in the history too, so the latest entry carries the error
+     */
+    private async createDeploymentResponse(dbService: DatabaseService, appId: string, result: { deploymentId?: string } | null): Promise<Response> {
+        if (!result?.deploymentId) {
+            const [latest] = await dbService.getAppDeployments(appId, 1);
+            return this.createErrorResponse(latest?.error || 'Deployment failed', 502);
+        }
+
+        const deployment = await dbService.getAppDeployment(result.deploymentId);
+        return this.createSuccessResponse({ deployment });
+    }
+}
+
+// Export singleton instance
+export const deploymentController = new DeploymentController();
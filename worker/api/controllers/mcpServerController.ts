@@ -0,0 +1,409 @@
+/**
+ * MCP Server Controller
+ * Handles user-registered MCP servers and the servers enabled for each app
+ */
+
+import { BaseController } from './BaseController';
+import { DatabaseService } from '../../database/database';
+import * as schema from '../../database/schema';
+import { eq } from 'drizzle-orm';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { DEFAULT_MCP_SERVERS, MCPManager } from '../../agents/tools/mcpManager';
+import { resolveMCPServerConfig } from '../../agents/tools/mcpConfig';
+
+const MCP_TRANSPORTS = ['sse', 'streamable-http'] as const;
+
+// Server names become tool name prefixes, so they are limited to characters valid in tool names
+const MCP_SERVER_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+interface McpServerInput {
+    name?: unknown;
+    description?: unknown;
+    transport?: unknown;
+    url?: unknown;
+    authHeaderName?: unknown;
+    authHeaderValue?: unknown; // Stored through SecretsService, null removes it
+}
+
+type McpServerResponse = Omit<schema.McpServer, 'authSecretId'> & {
+    hasAuth: boolean;
+};
+
+export class McpServerController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Hide the secret reference from API responses
+     */
+    private formatServer(server: schema.McpServer): McpServerResponse {
+        const { authSecretId, ...rest } = server;
+        return { ...rest, hasAuth: !!(authSecretId && server.authHeaderName) };
+    }
+
+    /**
+     * Validate the server fields of a request body, returning an error message if invalid
+     */
+    private validateServerInput(body: McpServerInput, partial: boolean): string | null {
+        const { name, description, transport, url, authHeaderName, authHeaderValue } = body;
+
+        if (!partial || name !== undefined) {
+            if (typeof name !== 'string' || !MCP_SERVER_NAME_PATTERN.test(name)) {
+                return 'Name must be 1-32 lowercase letters, numbers or hyphens';
+            }
+            if (DEFAULT_MCP_SERVERS.some(server => server.name === name)) {
+                return `Name '${name}' is reserved for a built-in server`;
+            }
+        }
+        if (!partial || url !== undefined) {
+            if (typeof url !== 'string' || !/^https:\/\//.test(url) || !URL.canParse(url)) {
+                return 'URL must be a valid https URL';
+            }
+        }
+        if (transport !== undefined && !MCP_TRANSPORTS.includes(transport as typeof MCP_TRANSPORTS[number])) {
+            return `Transport must be one of ${MCP_TRANSPORTS.join(', ')}`;
+        }
+        if (description !== undefined && description !== null && typeof description !== 'string') {
+            return 'Description must be a string';
+        }
+        if (authHeaderName !== undefined && authHeaderName !== null
+            && (typeof authHeaderName !== 'string' || !/^[A-Za-z0-9-]+$/.test(authHeaderName))) {
+            return 'Auth header name must be a valid HTTP header name';
+        }
+        if (authHeaderValue !== undefined && authHeaderValue !== null
+            && (typeof authHeaderValue !== 'string' || authHeaderValue.length === 0)) {
+            return 'Auth header value must be a non-empty string';
+        }
+        return null;
+    }
+
+    /**
+     * Store an auth header value as a user secret and return its id
+     */
+    private async storeAuthSecret(secretsService: SecretsService, userId: string, serverName: string, value: string): Promise<string> {
+        const secret = await secretsService.storeSecret(userId, {
+            name: `MCP server: ${serverName}`,
+            provider: 'mcp',
+            secretType: 'auth_header',
+            value,
+            description: `Auth header for the ${serverName} MCP server`
+        });
+        return secret.id;
+    }
+
+    // List the current user's MCP servers
+    async getServers(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const servers = await dbService.getUserMcpServers(authResult.user!.id);
+
+            return this.createSuccessResponse({
+                servers: servers.map(server => this.formatServer(server)),
+                builtinServers: DEFAULT_MCP_SERVERS.map(({ name, transport, url }) => ({ name, transport, url }))
+            });
+        } catch (error) {
+            this.logger.error('Error fetching MCP servers:', error);
+            return this.createErrorResponse('Failed to fetch MCP servers', 500);
+        }
+    }
+
+    // Register a new MCP server
+    async createServer(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const bodyResult = await this.parseJsonBody<McpServerInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const body = bodyResult.data ?? {};
+
+            const validationError = this.validateServerInput(body, false);
+            if (validationError) {
+                return this.createErrorResponse(validationError, 400);
+            }
+            if (body.authHeaderValue && !body.authHeaderName) {
+                return this.createErrorResponse('Auth header name is required with an auth header value', 400);
+            }
+
+            const name = body.name as string;
+            const dbService = this.createDbService(env);
+            const existing = await dbService.getUserMcpServers(user.id);
+            if (existing.some(server => server.name === name)) {
+                return this.createErrorResponse(`An MCP server named '${name}' already exists`, 409);
+            }
+
+            const secretsService = new SecretsService(dbService, env);
+            const authSecretId = typeof body.authHeaderValue === 'string'
+                ? await this.storeAuthSecret(secretsService, user.id, name, body.authHeaderValue)
+                : null;
+
+            const server = await dbService.createMcpServer({
+                userId: user.id,
+                name,
+                description: (body.description as string | null | undefined) ?? null,
+                transport: (body.transport as schema.McpServer['transport'] | undefined) ?? 'streamable-http',
+                url: body.url as string,
+                authHeaderName: (body.authHeaderName as string | null | undefined) ?? null,
+                authSecretId,
+                isActive: true,
+                createdAt: new Date(),
+                updatedAt: new Date()
+            });
+
+            return this.createSuccessResponse({ server: this.formatServer(server) });
+        } catch (error) {
+            this.logger.error('Error creating MCP server:', error);
+            return this.createErrorResponse('Failed to create MCP server', 500);
+        }
+    }
+
+    // Update an MCP server, a new auth header value replaces the stored secret
+    async updateServer(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const serverId = params?.id;
+            if (!serverId) {
+                return this.createErrorResponse('Server ID is required', 400);
+            }
+
+            const bodyResult = await this.parseJsonBody<McpServerInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const body = bodyResult.data ?? {};
+
+            const validationError = this.validateServerInput(body, true);
+            if (validationError) {
+                return this.createErrorResponse(validationError, 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const server = await dbService.getMcpServer(serverId, user.id);
+            if (!server) {
+                return this.createErrorResponse('MCP server not found', 404);
+            }
+
+            const name = (body.name as string | undefined) ?? server.name;
+            if (name !== server.name) {
+                const existing = await dbService.getUserMcpServers(user.id);
+                if (existing.some(other => other.name === name)) {
+                    return this.createErrorResponse(`An MCP server named '${name}' already exists`, 409);
+                }
+            }
+
+            const updates: Parameters<DatabaseService['updateMcpServer']>[1] = { name };
+            if (body.description !== undefined) updates.description = body.description as string | null;
+            if (body.transport !== undefined) updates.transport = body.transport as schema.McpServer['transport'];
+            if (body.url !== undefined) updates.url = body.url as string;
+            if (body.authHeaderName !== undefined) updates.authHeaderName = body.authHeaderName as string | null;
+
+            const authHeaderName = updates.authHeaderName !== undefined ? updates.authHeaderName : server.authHeaderName;
+            const hasAuthValue = body.authHeaderValue !== undefined ? body.authHeaderValue !== null : !!server.authSecretId;
+            if (hasAuthValue && !authHeaderName) {
+                return this.createErrorResponse('Auth header name is required with an auth header value', 400);
+            }
+
+            if (body.authHeaderValue !== undefined) {
+                const secretsService = new SecretsService(dbService, env);
+                if (server.authSecretId) {
+                    await secretsService.deleteSecret(user.id, server.authSecretId);
+                }
+                updates.authSecretId = typeof body.authHeaderValue === 'string'
+                    ? await this.storeAuthSecret(secretsService, user.id, name, body.authHeaderValue)
+                    : null;
+            }
+
+            const updated = await dbService.updateMcpServer(server.id, updates);
+            await this.invalidateAgentSettings(env, { userId: user.id });
+
+            return this.createSuccessResponse({ server: this.formatServer(updated) });
+        } catch (error) {
+            this.logger.error('Error updating MCP server:', error);
+            return this.createErrorResponse('Failed to update MCP server', 500);
+        }
+    }
+
+    // Delete an MCP server and its stored auth header
+    async deleteServer(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const serverId = params?.id;
+            if (!serverId) {
+                return this.createErrorResponse('Server ID is required', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const server = await dbService.getMcpServer(serverId, user.id);
+            if (!server) {
+                return this.createErrorResponse('MCP server not found', 404);
+            }
+
+            if (server.authSecretId) {
+                await new SecretsService(dbService, env).deleteSecret(user.id, server.authSecretId);
+            }
+            await dbService.deleteMcpServer(server.id);
+            await this.invalidateAgentSettings(env, { userId: user.id });
+
+            return this.createSuccessResponse({ id: server.id, deleted: true });
+        } catch (error) {
+            this.logger.error('Error deleting MCP server:', error);
+            return this.createErrorResponse('Failed to delete MCP server', 500);
+        }
+    }
+
+    // Connect to an MCP server and list its tools, used to verify the configuration
+    async getServerTools(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        const authResult = await this.requireAuth(request, env);
+        if (!authResult.success) {
+            return authResult.response!;
+        }
+        const user = authResult.user!;
+
+        const serverId = params?.id;
+        if (!serverId) {
+            return this.createErrorResponse('Server ID is required', 400);
+        }
+
+        const dbService = this.createDbService(env);
+        const server = await dbService.getMcpServer(serverId, user.id);
+        if (!server) {
+            return this.createErrorResponse('MCP server not found', 404);
+        }
+
+        const manager = new MCPManager([
+            await resolveMCPServerConfig(server, new SecretsService(dbService, env))
+        ]);
+        try {
+            await manager.initialize();
+            const tools = manager.getAvailableToolNames();
+            if (tools.length === 0) {
+                return this.createErrorResponse('Could not connect to the MCP server or it exposes no tools', 502);
+            }
+            return this.createSuccessResponse({ tools });
+        } catch (error) {
+            this.logger.error('Error listing MCP server tools:', error);
+            return this.createErrorResponse('Failed to list MCP server tools', 500);
+        } finally {
+            await manager.shutdown();
+        }
+    }
+
+    /**
+     * Load an app and verify the current user owns it
+     * MCP servers and their secrets belong to a user, so only the owner can enable them
+     */
+    private async loadOwnedApp(dbService: DatabaseService, appId: string | undefined, userId: string): Promise<{ appId?: string; response?: Response }> {
+        if (!appId) {
+            return { response: this.createErrorResponse('App ID is required', 400) };
+        }
+
+        const app = await dbService.db
+            .select({ id: schema.apps.id, userId: schema.apps.userId })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .get();
+
+        if (!app) {
+            return { response: this.createErrorResponse('App not found', 404) };
+        }
+        if (app.userId !== userId) {
+            return { response: this.createErrorResponse('Only the app owner can configure MCP servers', 403) };
+        }
+        return { appId: app.id };
+    }
+
+    // Get the MCP servers enabled for an app
+    async getAppServers(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, authResult.user!.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const servers = await dbService.getAppMcpServers(appId);
+
+            return this.createSuccessResponse({
+                serverIds: servers.map(server => server.id),
+                servers: servers.map(server => this.formatServer(server))
+            });
+        } catch (error) {
+            this.logger.error('Error fetching app MCP servers:', error);
+            return this.createErrorResponse('Failed to fetch app MCP servers', 500);
+        }
+    }
+
+    // Replace the MCP servers enabled for an app
+    async updateAppServers(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const bodyResult = await this.parseJsonBody<{ serverIds?: unknown }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const { serverIds } = bodyResult.data ?? {};
+            if (!Array.isArray(serverIds) || !serverIds.every(id => typeof id === 'string')) {
+                return this.createErrorResponse('serverIds must be an array of strings', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const { appId, response } = await this.loadOwnedApp(dbService, params?.id, user.id);
+            if (!appId) {
+                return response!;
+            }
+
+            const userServerIds = new Set((await dbService.getUserMcpServers(user.id)).map(server => server.id));
+            const unknownId = serverIds.find(id => !userServerIds.has(id));
+            if (unknownId) {
+                return this.createErrorResponse(`MCP server ${unknownId} not found`, 404);
+            }
+
+            await dbService.setAppMcpServers(appId, serverIds);
+            await this.invalidateAgentSettings(env, { appId });
+            const servers = await dbService.getAppMcpServers(appId);
+
+            return this.createSuccessResponse({
+                serverIds: servers.map(server => server.id),
+                servers: servers.map(server => this.formatServer(server))
+            });
+        } catch (error) {
+            this.logger.error('Error updating app MCP servers:', error);
+            return this.createErrorResponse('Failed to update app MCP servers', 500);
+        }
+    }
+}
+
+// Export singleton instance
+export const mcpServerController = new McpServerController();
@@ -0,0 +1,228 @@
+/**
+ * Model Config Controller
+ * Handles the user's per-action model config overrides and the provider keys they use
+ */
+
+import { BaseController } from './BaseController';
+import * as schema from '../../database/schema';
+import { SecretsService } from '../../services/secrets/secretsService';
+import { AGENT_CONFIG, AgentActionKey, AIModels, ModelConfig } from '../../agents/inferutils/config';
+import {
+    getModelProvider,
+    isAgentActionKey,
+    isAIModel,
+    MAX_TOKENS_LIMIT,
+    REASONING_EFFORTS,
+    validateModelConfig,
+} from '../../agents/inferutils/userModelConfig';
+
+interface ModelConfigInput {
+    modelName?: unknown;
+    reasoningEffort?: unknown;
+    maxTokens?: unknown;
+    temperature?: unknown;
+    fallbackModel?: unknown;
+    providerSecretId?: unknown; // One of the user's secrets for the model's provider, null uses the platform key
+}
+
+type ReasoningEffortValue = NonNullable<schema.UserModelConfig['reasoningEffort']>;
+
+// Providers that serve at least one supported model, only their secrets can be used as provider keys
+const MODEL_PROVIDERS = new Set(Object.values(AIModels).map(model => getModelProvider(model)));
+
+export class ModelConfigController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Platform default of an action, without gateway routing details
+     */
+    private formatDefaultConfig(config: ModelConfig) {
+        return {
+            modelName: config.name,
+            reasoningEffort: config.reasoning_effort ?? null,
+            maxTokens: config.max_tokens ?? null,
+            temperature: config.temperature ?? null,
+            fallbackModel: config.fallbackModel ?? null,
+        };
+    }
+
+    /**
+     * Validate the field types of a request body, returning an error message if invalid
+     */
+    private validateConfigInput(body: ModelConfigInput): string | null {
+        const { modelName, reasoningEffort, maxTokens, temperature, fallbackModel, providerSecretId } = body;
+
+        if (typeof modelName !== 'string' || !isAIModel(modelName)) {
+            return 'Model must be one of the supported models';
+        }
+        if (fallbackModel !== undefined && fallbackModel !== null && (typeof fallbackModel !== 'string' || !isAIModel(fallbackModel))) {
+            return 'Fallback model must be one of the supported models';
+        }
+        if (reasoningEffort !== undefined && reasoningEffort !== null
+            && !REASONING_EFFORTS.includes(reasoningEffort as ReasoningEffortValue)) {
+            return `Reasoning effort must be one of ${REASONING_EFFORTS.join(', ')}`;
+        }
+        if (maxTokens !== undefined && maxTokens !== null && typeof maxTokens !== 'number') {
+            return 'Max tokens must be a number';
+        }
+        if (temperature !== undefined && temperature !== null && typeof temperature !== 'number') {
+            return 'Temperature must be a number';
+        }
+        if (providerSecretId !== undefined && providerSecretId !== null && typeof providerSecretId !== 'string') {
+            return 'Provider key must be a secret ID';
+        }
+        return null;
+    }
+
+    // List the platform defaults of every agent action with the user's overrides
+    async getModelConfigs(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const dbService = this.createDbService(env);
+            const secretsService = new SecretsService(dbService, env);
+            const [overrides, secrets] = await Promise.all([
+                dbService.getUserModelConfigs(user.id),
+                secretsService.getUserSecrets(user.id),
+            ]);
+            const overridesByAction = new Map(overrides.map(override => [override.agentActionName, override]));
+
+            const configs = (Object.keys(AGENT_CONFIG) as AgentActionKey[]).map(actionKey => {
+                const override = overridesByAction.get(actionKey);
+                return {
+                    actionKey,
+                    defaultConfig: this.formatDefaultConfig(AGENT_CONFIG[actionKey]),
+                    userConfig: override ? {
+                        modelName: override.modelName,
+                        reasoningEffort: override.reasoningEffort,
+                        maxTokens: override.maxTokens,
+                        temperature: override.temperature,
+                        fallbackModel: override.fallbackModel,
+                        providerSecretId: override.providerSecretId,
+                    } : null,
+                };
+            });
+
+            return this.createSuccessResponse({
+                configs,
+                models: Object.values(AIModels).map(name => ({ name, provider: getModelProvider(name) })),
+                reasoningEfforts: REASONING_EFFORTS,
+                maxTokensLimit: MAX_TOKENS_LIMIT,
+                providerKeys: secrets
+                    .filter(secret => MODEL_PROVIDERS.has(secret.provider))
+                    .map(({ id, name, provider, keyPreview }) => ({ id, name, provider, keyPreview })),
+            });
+        } catch (error) {
+            this.logger.error('Error fetching model configs:', error);
+            return this.createErrorResponse('Failed to fetch model configs', 500);
+        }
+    }
+
+    // Replace the model config of an agent action, disallowed combinations are rejected here
+    async updateModelConfig(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+            const user = authResult.user!;
+
+            const actionKey = params?.actionKey;
+            if (!actionKey || !isAgentActionKey(actionKey)) {
+                return this.createErrorResponse('Unknown agent action', 404);
+            }
+
+            const bodyResult = await this.parseJsonBody<ModelConfigInput>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+            const body = bodyResult.data ?? {};
+
+            const validationError = this.validateConfigInput(body);
+            if (validationError) {
+                return this.createErrorResponse(validationError, 400);
+            }
+
+            const config: ModelConfig = { name: body.modelName as AIModels };
+            if (typeof body.reasoningEffort === 'string') config.reasoning_effort = body.reasoningEffort as ReasoningEffortValue;
+            if (typeof body.maxTokens === 'number') config.max_tokens = body.maxTokens;
+            if (typeof body.temperature === 'number') config.temperature = body.temperature;
+            if (typeof body.fallbackModel === 'string') config.fallbackModel = body.fallbackModel as AIModels;
+
+            const dbService = this.createDbService(env);
+            let providerKeyProvider: string | undefined;
+            if (typeof body.providerSecretId === 'string') {
+                const secretsService = new SecretsService(dbService, env);
+                const secrets = await secretsService.getUserSecrets(user.id);
+                const secret = secrets.find(secret => secret.id === body.providerSecretId);
+                if (!secret) {
+                    return this.createErrorResponse('Provider key not found', 404);
+                }
+                providerKeyProvider = secret.provider;
+            }
+
+            const issues = validateModelConfig(actionKey, config, providerKeyProvider);
+            if (issues.length > 0) {
+                return this.createErrorResponse(issues.join('; '), 400);
+            }
+
+            const override = await dbService.upsertUserModelConfig(user.id, actionKey, {
+                modelName: config.name,
+                reasoningEffort: (config.reasoning_effort as ReasoningEffortValue | undefined) ?? null,
+                maxTokens: config.max_tokens ?? null,
+                temperature: config.temperature ?? null,
+                fallbackModel: config.fallbackModel ?? null,
+                providerSecretId: (body.providerSecretId as string | null | undefined) ?? null,
+            });
+            await this.invalidateAgentSettings(env, { userId: user.id });
+
+            return this.createSuccessResponse({
+                actionKey,
+                userConfig: {
+                    modelName: override.modelName,
+                    reasoningEffort: override.reasoningEffort,
+                    maxTokens: override.maxTokens,
+                    temperature: override.temperature,
+                    fallbackModel: override.fallbackModel,
+                    providerSecretId: override.providerSecretId,
+                }
+            });
+        } catch (error) {
+            this.logger.error('Error updating model config:', error);
+            return this.createErrorResponse('Failed to update model config', 500);
+        }
+    }
+
+    // Remove the user's override so the action uses the platform default again
+    async resetModelConfig(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const actionKey = params?.actionKey;
+            if (!actionKey || !isAgentActionKey(actionKey)) {
+                return this.createErrorResponse('Unknown agent action', 404);
+            }
+
+            const dbService = this.createDbService(env);
+            await dbService.deleteUserModelConfig(authResult.user!.id, actionKey);
+            await this.invalidateAgentSettings(env, { userId: authResult.user!.id });
+
+            return this.createSuccessResponse({ actionKey, userConfig: null });
+        } catch (error) {
+            this.logger.error('Error resetting model config:', error);
+            return this.createErrorResponse('Failed to reset model config', 500);
+        }
+    }
+}
+
+// Export singleton instance
+export const modelConfigController = new ModelConfigController();
@@ -313,6 +313,8 @@ export class SecretsController extends BaseController {
             const secretsService = new SecretsService(db, this.env);
 
             await secretsService.deleteSecret(session.userId, secretId);
+            // Agents may hold the decrypted value as a provider key
+            await this.invalidateAgentSettings(this.env, { userId: session.userId });
 
             return this.createSuccessResponse({
                 message: 'Secret deleted successfully'
@@ -2,6 +2,7 @@ import * as schema from '../../database/schema';
 import { eq, sql, desc, and } from 'drizzle-orm';
 import { BaseController } from './BaseController';
 import { DatabaseService } from '../../database/database';
+import { QuotaService } from '../../services/quotas/quotaService';
 
 export class StatsController extends BaseController {
     constructor() {
@@ -54,6 +55,9 @@ export class StatsController extends BaseController {
             // Calculate streak (days of consecutive activity)
             const streakDays = await this.calculateStreak(dbService, authResult.user!.id);
 
+            // Tokens and estimated cost of all inferences made for the user's apps
+            const inferenceUsage = await dbService.getInferenceUsageSummary({ userId: authResult.user!.id });
+
             return this.createSuccessResponse({
                 totalApps: totalAppsResult[0]?.count || 0,
                 publicApps: publicAppsResult[0]?.count || 0,
@@ -63,13 +67,59 @@ export class StatsController extends BaseController {
                 teamCount: teamsCount,
                 boardCount: boardsCount,
                 streak: streakDays,
-                achievements: [] // TODO: Implement achievements system
+                achievements: [], // TODO: Implement achievements system
+                inferenceUsage
             });
         } catch (error) {
             return this.handleError(error, 'fetch user stats');
         }
     }
 
+    // Get token usage and estimated cost of an app, by agent action and model
+    async getAppUsage(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const appId = params?.id;
+            if (!appId) {
+                return this.createErrorResponse('App ID is required', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const app = await dbService.db
+                .select({ userId: schema.apps.userId })
+                .from(schema.apps)
+                .where(eq(schema.apps.id, appId))
+                .get();
+            if (!app || app.userId !== authResult.user!.id) {
+                return this.createErrorResponse('App not found', 404);
+            }
+
+            const usage = await dbService.getInferenceUsageSummary({ appId });
+            return this.createSuccessResponse({ usage });
+        } catch (error) {
+            return this.handleError(error, 'fetch app usage');
+        }
+    }
+
+    // Get the quotas of the user and how much of each is used
+    async getUserQuotas(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const quotas = await new QuotaService(this.createDbService(env)).getStatus({ userId: authResult.user!.id });
+            return this.createSuccessResponse({ quotas });
+        } catch (error) {
+            return this.handleError(error, 'fetch user quotas');
+        }
+    }
+
     // Calculate consecutive days of activity
     private async calculateStreak(dbService: DatabaseService, userId: string): Promise<number> {
         try {
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TeamMember } from '../../database/schema';
+
+const auth = vi.hoisted(() => ({
+    user: { id: 'user-1', email: 'user@example.com', isAnonymous: false },
+    scopes: [] as string[],
+}));
+
+vi.mock('../../middleware/security/auth', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../../middleware/security/auth')>(),
+    authMiddleware: async () => auth.user,
+    checkPermissions: async (_user: unknown, requiredScopes: string[]) =>
+        requiredScopes.every(scope => auth.scopes.includes(scope)),
+}));
+
+import { BaseController } from './BaseController';
+import { teamController } from './teamController';
+
+const db = {
+    getTeam: vi.fn(),
+    getTeamMember: vi.fn(),
+    getTeamMemberRole: vi.fn(),
+    countTeamMembers: vi.fn(),
+    removeTeamMember: vi.fn(),
+};
+
+const env = {} as Env;
+const ctx = {} as ExecutionContext;
+
+function createMember(overrides: Partial<TeamMember> = {}): TeamMember {
+    return {
+        id: 'membership-1',
+        teamId: 'team-1',
+        userId: 'user-2',
+        role: 'member',
+        permissions: [],
+        invitedBy: null,
+        invitedAt: null,
+        joinedAt: null,
+        status: 'active',
+        createdAt: null,
+        updatedAt: null,
+        ...overrides,
+    };
+}
+
+function removeMember(userId: string): Promise<Response> {
+    const request = new Request(`https://build.example.com/api/teams/team-1/members/${userId}`, { method: 'DELETE' });
+    return teamController.removeMember(request, env, ctx, { id: 'team-1', userId });
+}
+
+describe('TeamController.removeMember', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(BaseController.prototype as unknown as { createDbService: () => unknown }, 'createDbService')
+            .mockReturnValue(db);
+        auth.scopes = ['team:read', 'team:members:manage'];
+        db.getTeam.mockResolvedValue({ id: 'team-1' });
+        db.getTeamMemberRole.mockResolvedValue('admin');
+        db.countTeamMembers.mockResolvedValue(1);
+    });
+
+    it.each(['active', 'pending', 'suspended'] as const)('should remove a %s member', async (status) => {
+        db.getTeamMember.mockResolvedValue(createMember({ status }));
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(200);
+        expect(db.removeTeamMember).toHaveBeenCalledWith('team-1', 'user-2');
+    });
+
+    it('should let a pending invitee decline without any team scope', async () => {
+        auth.scopes = [];
+        db.getTeamMember.mockResolvedValue(createMember({ userId: 'user-1', status: 'pending' }));
+
+        const response = await removeMember('user-1');
+
+        expect(response.status).toBe(200);
+        expect(db.removeTeamMember).toHaveBeenCalledWith('team-1', 'user-1');
+    });
+
+    it('should not count a pending owner as the last owner', async () => {
+        auth.scopes = ['team:members:manage', 'team:owner'];
+        db.getTeamMember.mockResolvedValue(createMember({ role: 'owner', status: 'pending' }));
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(200);
+        expect(db.removeTeamMember).toHaveBeenCalled();
+    });
+
+    it('should keep the last active owner', async () => {
+        auth.scopes = ['team:members:manage', 'team:owner'];
+        db.getTeamMember.mockResolvedValue(createMember({ role: 'owner' }));
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(400);
+        expect(db.removeTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for users without a membership', async () => {
+        db.getTeamMember.mockResolvedValue(null);
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(404);
+        expect(db.removeTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should require the manage scope to remove someone else', async () => {
+        auth.scopes = ['team:read'];
+        db.getTeamMember.mockResolvedValue(createMember({ status: 'pending' }));
+
+        const response = await removeMember('user-2');
+
+        expect(response.status).toBe(403);
+        expect(db.removeTeamMember).not.toHaveBeenCalled();
+    });
+});
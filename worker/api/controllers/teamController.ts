@@ -0,0 +1,353 @@
+/**
+ * Team Controller
+ * Handles team workspaces, membership and role management
+ */
+
+import { BaseController } from './BaseController';
+import { checkPermissions, hasTeamRole, TeamRole } from '../../middleware/security/auth';
+import { AuthUser } from '../../types/auth-types';
+import { DatabaseService } from '../../database/database';
+
+const TEAM_ROLES: readonly TeamRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+function isTeamRole(role: unknown): role is TeamRole {
+    return typeof role === 'string' && (TEAM_ROLES as readonly string[]).includes(role);
+}
+
+export class TeamController extends BaseController {
+    constructor() {
+        super();
+    }
+
+    /**
+     * Verify the user holds the given team scope
+     * Returns an error response if not, null otherwise
+     */
+    private async requireTeamScope(user: AuthUser, teamId: string, scope: string, env: Env): Promise<Response | null> {
+        const dbService = this.createDbService(env);
+        const team = await dbService.getTeam(teamId);
+        if (!team) {
+            return this.createErrorResponse('Team not found', 404);
+        }
+
+        const allowed = await checkPermissions(user, [scope], env, teamId);
+        if (!allowed) {
+            // Hide the team from non-members
+            const role = await dbService.getTeamMemberRole(teamId, user.id);
+            return role
+                ? this.createErrorResponse('You do not have permission to perform this action', 403)
+                : this.createErrorResponse('Team not found', 404);
+        }
+        return null;
+    }
+
+    /**
+     * Ensure at least one owner remains after removing or demoting an owner
+     */
+    private async isLastOwner(dbService: DatabaseService, teamId: string, role: TeamRole): Promise<boolean> {
+        return role === 'owner' && await dbService.countTeamMembers(teamId, 'owner') <= 1;
+    }
+
+    // Get all teams of the current user
+    async getUserTeams(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const dbService = this.createDbService(env);
+            const teams = await dbService.getUserTeams(authResult.user!.id);
+
+            return this.createSuccessResponse({ teams: teams.filter(team => !team.deletedAt) });
+        } catch (error) {
+            this.logger.error('Error fetching user teams:', error);
+            return this.createErrorResponse('Failed to fetch teams', 500);
+        }
+    }
+
+    // Create a new team owned by the current user
+    async createTeam(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            if (!await checkPermissions(authResult.user!, ['teams:write'], env)) {
+                return this.createErrorResponse('Sign in to create a team', 403);
+            }
+
+            const bodyResult = await this.parseJsonBody<{
+                name?: string;
+                description?: string;
+                visibility?: 'private' | 'public';
+            }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const { name, description, visibility } = bodyResult.data ?? {};
+            if (!name?.trim()) {
+                return this.createErrorResponse('Team name is required', 400);
+            }
+            if (visibility && !['private', 'public'].includes(visibility)) {
+                return this.createErrorResponse('Visibility must be either "private" or "public"', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const team = await dbService.createTeam({
+                name: name.trim(),
+                description: description || null,
+                visibility: visibility || 'private',
+                ownerId: authResult.user!.id,
+            });
+
+            return this.createSuccessResponse({ team: { ...team, memberRole: 'owner' } });
+        } catch (error) {
+            this.logger.error('Error creating team:', error);
+            return this.createErrorResponse('Failed to create team', 500);
+        }
+    }
+
+    // Get team details with its members
+    async getTeam(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const teamId = params?.id;
+            if (!teamId) {
+                return this.createErrorResponse('Team ID is required', 400);
+            }
+
+            const denied = await this.requireTeamScope(authResult.user!, teamId, 'team:read', env);
+            if (denied) {
+                return denied;
+            }
+
+            const dbService = this.createDbService(env);
+            const [team, members, memberRole] = await Promise.all([
+                dbService.getTeam(teamId),
+                dbService.getTeamMembers(teamId),
+                dbService.getTeamMemberRole(teamId, authResult.user!.id),
+            ]);
+
+            return this.createSuccessResponse({ team: { ...team, memberRole }, members });
+        } catch (error) {
+            this.logger.error('Error fetching team:', error);
+            return this.createErrorResponse('Failed to fetch team', 500);
+        }
+    }
+
+    // Get apps owned by the team
+    async getTeamApps(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const teamId = params?.id;
+            if (!teamId) {
+                return this.createErrorResponse('Team ID is required', 400);
+            }
+
+            const denied = await this.requireTeamScope(authResult.user!, teamId, 'team:read', env);
+            if (denied) {
+                return denied;
+            }
+
+            const url = new URL(request.url);
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 100);
+            const offset = parseInt(url.searchParams.get('offset') || '0');
+
+            const dbService = this.createDbService(env);
+            const apps = await dbService.getTeamApps(teamId, limit, offset);
+
+            return this.createSuccessResponse({ apps });
+        } catch (error) {
+            this.logger.error('Error fetching team apps:', error);
+            return this.createErrorResponse('Failed to fetch team apps', 500);
+        }
+    }
+
+    // Invite a user to the team by email
+    async inviteMember(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const teamId = params?.id;
+            if (!teamId) {
+                return this.createErrorResponse('Team ID is required', 400);
+            }
+
+            const denied = await this.requireTeamScope(authResult.user!, teamId, 'team:read', env);
+            if (denied) {
+                return denied;
+            }
+
+            const bodyResult = await this.parseJsonBody<{ email?: string; role?: string }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const { email, role = 'member' } = bodyResult.data ?? {};
+            if (!email) {
+                return this.createErrorResponse('Email is required', 400);
+            }
+            if (!isTeamRole(role)) {
+                return this.createErrorResponse('Role must be one of owner, admin, member or viewer', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const team = (await dbService.getTeam(teamId))!;
+            const inviterRole = await dbService.getTeamMemberRole(teamId, authResult.user!.id);
+
+            // Admins manage members, regular members may invite only when the team allows it
+            const canInvite = hasTeamRole(inviterRole, 'admin')
+                || (team.allowMemberInvites && hasTeamRole(inviterRole, 'member'));
+            if (!canInvite || !hasTeamRole(inviterRole, role)) {
+                return this.createErrorResponse('You do not have permission to invite members with this role', 403);
+            }
+
+            const invitee = await dbService.findUserByEmail(email.toLowerCase());
+            if (!invitee) {
+                return this.createErrorResponse('No user found with this email', 404);
+            }
+
+            if (await dbService.getTeamMemberRole(teamId, invitee.id)) {
+                return this.createErrorResponse('User is already a member of this team', 409);
+            }
+
+            if (team.maxMembers && await dbService.countTeamMembers(teamId) >= team.maxMembers) {
+                return this.createErrorResponse(`Team member limit of ${team.maxMembers} reached`, 400);
+            }
+
+            await dbService.addTeamMember(teamId, invitee.id, role, authResult.user!.id);
+
+            return this.createSuccessResponse({
+                member: {
+                    userId: invitee.id,
+                    email: invitee.email,
+                    displayName: invitee.displayName,
+                    avatarUrl: invitee.avatarUrl,
+                    role,
+                }
+            });
+        } catch (error) {
+            this.logger.error('Error inviting team member:', error);
+            return this.createErrorResponse('Failed to invite team member', 500);
+        }
+    }
+
+    // Change the role of a team member
+    async updateMemberRole(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const teamId = params?.id;
+            const memberId = params?.userId;
+            if (!teamId || !memberId) {
+                return this.createErrorResponse('Team ID and user ID are required', 400);
+            }
+
+            const denied = await this.requireTeamScope(authResult.user!, teamId, 'team:members:manage', env);
+            if (denied) {
+                return denied;
+            }
+
+            const bodyResult = await this.parseJsonBody<{ role?: string }>(request);
+            if (!bodyResult.success) {
+                return bodyResult.response!;
+            }
+
+            const role = bodyResult.data?.role;
+            if (!isTeamRole(role)) {
+                return this.createErrorResponse('Role must be one of owner, admin, member or viewer', 400);
+            }
+
+            const dbService = this.createDbService(env);
+            const currentRole = await dbService.getTeamMemberRole(teamId, memberId);
+            if (!currentRole) {
+                return this.createErrorResponse('Team member not found', 404);
+            }
+
+            // Only owners can promote to or demote from owner
+            if ((role === 'owner' || currentRole === 'owner')
+                && !await checkPermissions(authResult.user!, ['team:owner'], env, teamId)) {
+                return this.createErrorResponse('Only team owners can change owner roles', 403);
+            }
+
+            if (role !== 'owner' && await this.isLastOwner(dbService, teamId, currentRole)) {
+                return this.createErrorResponse('A team must have at least one owner', 400);
+            }
+
+            await dbService.updateTeamMemberRole(teamId, memberId, role);
+
+            return this.createSuccessResponse({ userId: memberId, role });
+        } catch (error) {
+            this.logger.error('Error updating team member role:', error);
+            return this.createErrorResponse('Failed to update team member role', 500);
+        }
+    }
+
+    // Remove a member from the team (members can always remove themselves)
+    async removeMember(request: Request, env: Env, _ctx: ExecutionContext, params?: Record<string, string>): Promise<Response> {
+        try {
+            const authResult = await this.requireAuth(request, env);
+            if (!authResult.success) {
+                return authResult.response!;
+            }
+
+            const teamId = params?.id;
+            const memberId = params?.userId;
+            if (!teamId || !memberId) {
+                return this.createErrorResponse('Team ID and user ID are required', 400);
+            }
+
+            // Members of any status may leave, so pending invitees can decline
+            const isSelf = memberId === authResult.user!.id;
+            if (!isSelf) {
+                const denied = await this.requireTeamScope(authResult.user!, teamId, 'team:members:manage', env);
+                if (denied) {
+                    return denied;
+                }
+            }
+
+            const dbService = this.createDbService(env);
+            const member = await dbService.getTeamMember(teamId, memberId);
+            if (!member) {
+                return this.createErrorResponse('Team member not found', 404);
+            }
+
+            if (!isSelf && member.role === 'owner'
+                && !await checkPermissions(authResult.user!, ['team:owner'], env, teamId)) {
+                return this.createErrorResponse('Only team owners can remove other owners', 403);
+            }
+
+            // Only active owners count towards the remaining owners
+            if (member.status === 'active' && await this.isLastOwner(dbService, teamId, member.role)) {
+                return this.createErrorResponse('A team must have at least one owner', 400);
+            }
+
+            await dbService.removeTeamMember(teamId, memberId);
+
+            return this.createSuccessResponse({ userId: memberId, removed: true });
+        } catch (error) {
+            this.logger.error('Error removing team member:', error);
+            return this.createErrorResponse('Failed to remove team member', 500);
+        }
+    }
+}
+
+// Export singleton instance
+export const teamController = new TeamController();
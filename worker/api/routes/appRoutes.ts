@@ -1,6 +1,8 @@
 import { Router } from '../router';
 import { appController } from '../controllers/appController';
 import { appViewController } from '../controllers/appViewController';
+import { commentController } from '../controllers/commentController';
+import { withRateLimit } from '../../middleware/security/rateLimiter';
 
 /**
  * Setup app management routes
@@ -24,6 +26,9 @@ export function setupAppRoutes(router: Router): Router {
     // Toggle favorite status
     router.post('/api/apps/:id/favorite', appController.toggleFavorite.bind(appController));
 
+    // Update app tags and category (only for app owners)
+    router.put('/api/apps/:id/tags', appController.updateAppTaxonomy.bind(appController));
+
     // Update app visibility (only for app owners)
     router.put('/api/apps/:id/visibility', appController.updateAppVisibility.bind(appController));
 
@@ -32,5 +37,13 @@ export function setupAppRoutes(router: Router): Router {
     router.post('/api/apps/:id/star', appViewController.toggleAppStar.bind(appViewController));
     router.post('/api/apps/:id/fork', appViewController.forkApp.bind(appViewController));
 
+    // App comments (threaded, likes)
+    router.get('/api/apps/:id/comments', commentController.getComments.bind(commentController));
+    router.post('/api/apps/:id/comments', withRateLimit('comments', commentController.createComment.bind(commentController)));
+    router.put('/api/apps/:id/comments/:commentId', withRateLimit('comments', commentController.updateComment.bind(commentController)));
+    router.delete('/api/apps/:id/comments/:commentId', withRateLimit('comments', commentController.deleteComment.bind(commentController)));
+    router.post('/api/apps/:id/comments/:commentId/like', withRateLimit('comments', commentController.likeComment.bind(commentController)));
+    router.delete('/api/apps/:id/comments/:commentId/like', withRateLimit('comments', commentController.unlikeComment.bind(commentController)));
+
     return router;
 }
\ No newline at end of file
@@ -5,6 +5,7 @@
 
 import { Router } from '../router';
 import { AuthController } from '../controllers/authController';
+import { withRateLimit } from '../../middleware/security/rateLimiter';
 // Removed redundant authMiddleware import - AuthController methods handle their own authentication
 
 /**
@@ -31,8 +32,8 @@ export function setupAuthRoutes(router: Router): Router {
     };
     
     // Public authentication routes
-    router.post('/api/auth/register', createAuthHandler('register'));
-    router.post('/api/auth/login', createAuthHandler('login'));
+    router.post('/api/auth/register', withRateLimit('auth', createAuthHandler('register')));
+    router.post('/api/auth/login', withRateLimit('auth', createAuthHandler('login')));
     router.post('/api/auth/refresh', createAuthHandler('refreshToken'));
     router.get('/api/auth/check', createAuthHandler('checkAuth'));
     
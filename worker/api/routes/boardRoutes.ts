@@ -0,0 +1,29 @@
+import { Router } from '../router';
+import { boardController } from '../controllers/boardController';
+
+/**
+ * Setup board routes (curated app collections)
+ */
+export function setupBoardRoutes(router: Router): Router {
+    // Popular public boards (no auth required) and board creation
+    router.get('/api/boards', boardController.getBoards.bind(boardController));
+    router.post('/api/boards', boardController.createBoard.bind(boardController));
+
+    // Board CRUD (visibility checked per board)
+    router.get('/api/boards/:id', boardController.getBoard.bind(boardController));
+    router.put('/api/boards/:id', boardController.updateBoard.bind(boardController));
+    router.delete('/api/boards/:id', boardController.deleteBoard.bind(boardController));
+
+    // Apps shared to the board
+    router.get('/api/boards/:id/apps', boardController.getBoardApps.bind(boardController));
+    router.post('/api/boards/:id/apps', boardController.addApp.bind(boardController));
+    router.delete('/api/boards/:id/apps/:appId', boardController.removeApp.bind(boardController));
+
+    // Membership and moderation
+    router.get('/api/boards/:id/members', boardController.getMembers.bind(boardController));
+    router.post('/api/boards/:id/members', boardController.addMember.bind(boardController));
+    router.put('/api/boards/:id/members/:userId', boardController.updateMemberRole.bind(boardController));
+    router.delete('/api/boards/:id/members/:userId', boardController.removeMember.bind(boardController));
+
+    return router;
+}
@@ -0,0 +1,14 @@
+import { Router } from '../router';
+import { cloudflareAccountController } from '../controllers/cloudflareAccountController';
+
+/**
+ * Setup Cloudflare account routes (accounts users deploy their apps to)
+ */
+export function setupCloudflareAccountRoutes(router: Router): Router {
+    router.get('/api/cloudflare-accounts', cloudflareAccountController.getAccounts.bind(cloudflareAccountController));
+    router.post('/api/cloudflare-accounts', cloudflareAccountController.createAccount.bind(cloudflareAccountController));
+    router.post('/api/cloudflare-accounts/:id/validate', cloudflareAccountController.validateAccount.bind(cloudflareAccountController));
+    router.delete('/api/cloudflare-accounts/:id', cloudflareAccountController.deleteAccount.bind(cloudflareAccountController));
+
+    return router;
+}
@@ -1,11 +1,18 @@
 import { Router } from '../router';
 import { CodeGenController } from '../controllers/codeGenController';
+import { withRateLimit } from '../../middleware/security/rateLimiter';
 import { setupAuthRoutes } from './authRoutes';
 import { setupAppRoutes } from './appRoutes';
+import { setupTeamRoutes } from './teamRoutes';
+import { setupBoardRoutes } from './boardRoutes';
 import { setupStatsRoutes } from './statsRoutes';
 import { setupWebhookRoutes } from './webhookRoutes';
 import { setupIntegrationRoutes } from './integrationRoutes';
 import { setupSecretsRoutes } from './secretsRoutes';
+import { setupMcpServerRoutes } from './mcpServerRoutes';
+import { setupModelConfigRoutes } from './modelConfigRoutes';
+import { setupDeploymentRoutes } from './deploymentRoutes';
+import { setupCloudflareAccountRoutes } from './cloudflareAccountRoutes';
 // import { handleInsertRag, handleQueryRag } from "./rag";
 
 // Export the CodeGenerator Agent as a Durable Object class named CodeGen
@@ -19,9 +26,12 @@ export function setupRouter(): Router {
 
     // Code generation endpoints - modern incremental API
     // router.get('/api/codegen/template', codeGenController.searchTemplates.bind(codeGenController));
-    router.post('/api/codegen/incremental', codeGenController.startCodeGeneration.bind(codeGenController));
+    router.post('/api/codegen/incremental', withRateLimit('codegen', codeGenController.startCodeGeneration.bind(codeGenController)));
     router.get('/api/codegen/incremental/:agentId', codeGenController.getCodeGenerationProgress.bind(codeGenController));
 
+    // Start a session from an existing GitHub repository of the user
+    router.post('/api/codegen/import', withRateLimit('codegen', codeGenController.importFromGitHub.bind(codeGenController)));
+
     // WebSocket endpoint for real-time code generation updates
     router.register('/api/codegen/ws/:agentId', codeGenController.handleWebSocketConnection.bind(codeGenController), ['GET']);
 
@@ -29,7 +39,7 @@ export function setupRouter(): Router {
     router.get('/api/agent/:agentId', codeGenController.connectToExistingAgent.bind(codeGenController));
 
     // Default codegen path
-    router.post('/api/codegen', codeGenController.startCodeGeneration.bind(codeGenController));
+    router.post('/api/codegen', withRateLimit('codegen', codeGenController.startCodeGeneration.bind(codeGenController)));
     
     // Authentication and user management routes
     setupAuthRoutes(router);
@@ -37,6 +47,12 @@ export function setupRouter(): Router {
     // App management routes
     setupAppRoutes(router);
     
+    // Team workspace routes
+    setupTeamRoutes(router);
+    
+    // Board routes
+    setupBoardRoutes(router);
+    
     // Stats routes
     setupStatsRoutes(router);
     
@@ -49,5 +65,17 @@ export function setupRouter(): Router {
     // Secrets management routes
     setupSecretsRoutes(router);
     
+    // MCP server routes
+    setupMcpServerRoutes(router);
+    
+    // Model config routes
+    setupModelConfigRoutes(router);
+    
+    // Deployment environment and history routes
+    setupDeploymentRoutes(router);
+    
+    // Linked Cloudflare account routes
+    setupCloudflareAccountRoutes(router);
+    
     return router;
 }
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from '../router';
+import { deploymentController } from '../controllers/deploymentController';
+
+/**
+ * Setup deployment routes (per-app environments, deployment history and rollback)
+ */
+export function setupDeploymentRoutes(router: Router): Router {
+    // Preview and production environments of an app
+    router.get('/api/apps/:id/environments', deploymentController.getAppEnvironments.bind(deploymentController));
+    router.put('/api/apps/:id/environments/:environment', deploymentController.updateAppEnvironment.bind(deploymentController));
+    router.post('/api/apps/:id/environments/:environment/domain/verify', deploymentController.verifyCustomDomain.bind(deploymentController));
+
+    // Deployment history
+    router.get('/api/apps/:id/deployments', deploymentController.getAppDeployments.bind(deploymentController));
+    router.post('/api/apps/:id/deployments', deploymentController.createAppDeployment.bind(deploymentController));
+    router.post('/api/apps/:id/deployments/:deploymentId/rollback', deploymentController.rollbackAppDeployment.bind(deploymentController));
+
+    return router;
+}
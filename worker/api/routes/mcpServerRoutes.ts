@@ -0,0 +1,20 @@
+import { Router } from '../router';
+import { mcpServerController } from '../controllers/mcpServerController';
+
+/**
+ * Setup MCP server routes (user-registered tool servers and per-app enablement)
+ */
+export function setupMcpServerRoutes(router: Router): Router {
+    // User MCP servers
+    router.get('/api/mcp-servers', mcpServerController.getServers.bind(mcpServerController));
+    router.post('/api/mcp-servers', mcpServerController.createServer.bind(mcpServerController));
+    router.put('/api/mcp-servers/:id', mcpServerController.updateServer.bind(mcpServerController));
+    router.delete('/api/mcp-servers/:id', mcpServerController.deleteServer.bind(mcpServerController));
+    router.get('/api/mcp-servers/:id/tools', mcpServerController.getServerTools.bind(mcpServerController));
+
+    // Servers enabled for an app
+    router.get('/api/apps/:id/mcp-servers', mcpServerController.getAppServers.bind(mcpServerController));
+    router.put('/api/apps/:id/mcp-servers', mcpServerController.updateAppServers.bind(mcpServerController));
+
+    return router;
+}
@@ -0,0 +1,13 @@
+import { Router } from '../router';
+import { modelConfigController } from '../controllers/modelConfigController';
+
+/**
+ * Setup model config routes (per-user overrides of the model used for each agent action)
+ */
+export function setupModelConfigRoutes(router: Router): Router {
+    router.get('/api/model-configs', modelConfigController.getModelConfigs.bind(modelConfigController));
+    router.put('/api/model-configs/:actionKey', modelConfigController.updateModelConfig.bind(modelConfigController));
+    router.delete('/api/model-configs/:actionKey', modelConfigController.resetModelConfig.bind(modelConfigController));
+
+    return router;
+}
@@ -13,5 +13,11 @@ export function setupStatsRoutes(router: Router): Router {
     // User activity timeline
     router.get('/api/stats/activity', statsController.getUserActivity.bind(statsController));
 
+    // Quotas of the user and their current usage
+    router.get('/api/stats/quotas', statsController.getUserQuotas.bind(statsController));
+
+    // Token usage and estimated cost of an app
+    router.get('/api/stats/apps/:id/usage', statsController.getAppUsage.bind(statsController));
+
     return router;
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { Router } from '../router';
+import { teamController } from '../controllers/teamController';
+
+/**
+ * Setup team workspace routes
+ */
+export function setupTeamRoutes(router: Router): Router {
+    // Teams of the current user
+    router.get('/api/teams', teamController.getUserTeams.bind(teamController));
+    router.post('/api/teams', teamController.createTeam.bind(teamController));
+
+    // Team details and apps (team members only)
+    router.get('/api/teams/:id', teamController.getTeam.bind(teamController));
+    router.get('/api/teams/:id/apps', teamController.getTeamApps.bind(teamController));
+
+    // Membership management
+    router.post('/api/teams/:id/members', teamController.inviteMember.bind(teamController));
+    router.put('/api/teams/:id/members/:userId', teamController.updateMemberRole.bind(teamController));
+    router.delete('/api/teams/:id/members/:userId', teamController.removeMember.bind(teamController));
+
+    return router;
+}
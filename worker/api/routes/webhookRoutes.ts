@@ -1,5 +1,6 @@
 import { Router } from '../router';
 import { WebhookController } from '../controllers/webhookController';
+import { withRateLimit } from '../../middleware/security/rateLimiter';
 
 /**
  * Setup webhook routes for external service integrations
@@ -15,7 +16,7 @@ export function setupWebhookRoutes(router: Router): Router {
 
     // Runner service webhook endpoint
     // POST /api/webhook/runner/:agentId/:eventType
-    router.post('/api/webhook/runner/*', createWebhookHandler('handleRunnerWebhook'));
+    router.post('/api/webhook/runner/*', withRateLimit('webhooks', createWebhookHandler('handleRunnerWebhook')));
     
     // Webhook health check endpoint
     // GET /api/webhook/health
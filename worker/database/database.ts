@@ -1,5 +1,5 @@
 import { drizzle } from 'drizzle-orm/d1';
-import { eq, and, or, desc, count, sql, lt } from 'drizzle-orm';
+import { eq, and, or, desc, count, sql, lt, gte, inArray, isNull, isNotNull, type SQL } from 'drizzle-orm';
 import * as schema from './schema';
 
 // Type-safe database environment interface
@@ -12,14 +12,83 @@ export type {
     User, NewUser, Session, NewSession,
     Team, NewTeam, TeamMember, NewTeamMember,
     App, NewApp, CodeGenInstance, NewCodeGenInstance,
+    AppEnvironment, NewAppEnvironment, AppDeployment, NewAppDeployment,
     Board, NewBoard, BoardMember, NewBoardMember,
     CloudflareAccount, NewCloudflareAccount,
     GitHubIntegration, NewGitHubIntegration,
     AppLike, NewAppLike, AppComment, NewAppComment,
-    AppView, NewAppView, OAuthState, NewOAuthState,
-    SystemSetting, NewSystemSetting
+    AppView, NewAppView, InferenceUsage, NewInferenceUsage,
+    OAuthState, NewOAuthState,
+    SystemSetting, NewSystemSetting,
+    McpServer, NewMcpServer,
+    UserModelConfig, NewUserModelConfig
 } from './schema';
 
+/**
+ * Number of apps sharing a tag, category or framework
+ */
+export interface FacetCount {
+    name: string;
+    count: number;
+}
+
+/**
+ * Conditions to count each facet with, so that every facet leaves out its own filter
+ */
+export interface FacetConditions {
+    tags: SQL[];
+    categories: SQL[];
+    frameworks: SQL[];
+}
+
+/**
+ * App comment with author details and like information
+ */
+export interface CommentWithAuthor {
+    id: string;
+    appId: string;
+    userId: string;
+    content: string;
+    parentCommentId: string | null;
+    isEdited: boolean | null;
+    isDeleted: boolean | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+    userName: string | null;
+    userAvatar: string | null;
+    likeCount: number;
+    userLiked: boolean;
+}
+
+/**
+ * Token and cost totals of a group of inferences
+ */
+export interface InferenceUsageTotals {
+    inferences: number;
+    promptTokens: number;
+    completionTokens: number;
+    reasoningTokens: number;
+    estimatedCost: number;
+    latencyMs: number;
+    retries: number;
+    fallbacks: number;
+    failures: number;
+}
+
+/**
+ * Whose usage a quota is counted against: an account, or the anonymous clients sharing a key
+ */
+export type QuotaOwner = { userId: string } | { anonymousKey: string };
+
+/**
+ * Inference usage of an app or user, broken down by agent action and model
+ */
+export interface InferenceUsageSummary {
+    totals: InferenceUsageTotals;
+    byAction: Array<InferenceUsageTotals & { agentActionName: string }>;
+    byModel: Array<InferenceUsageTotals & { model: string }>;
+}
+
 /**
  * Orange Database Service - Production-ready database operations
  * 
@@ -116,17 +185,60 @@ export class DatabaseService {
             .where(lt(schema.sessions.expiresAt, now));
     }
 
+    // ========================================
+    // API KEY OPERATIONS
+    // ========================================
+
+    async findActiveApiKeyByHash(keyHash: string): Promise<schema.ApiKey | null> {
+        const keys = await this.db
+            .select()
+            .from(schema.apiKeys)
+            .where(and(
+                eq(schema.apiKeys.keyHash, keyHash),
+                eq(schema.apiKeys.isActive, true)
+            ))
+            .limit(1);
+        return keys[0] || null;
+    }
+
+    /**
+     * Record a request made with an API key and count it against the key's fixed rate limit window
+     * The window is restarted in the same statement once it has elapsed, so concurrent requests are counted exactly
+     */
+    async recordApiKeyUsage(id: string, windowSeconds: number): Promise<{ windowRequestCount: number; windowStartedAt: Date }> {
+        const now = Math.floor(Date.now() / 1000);
+        const windowElapsed = sql`coalesce(${schema.apiKeys.windowStartedAt}, 0) <= ${now - windowSeconds}`;
+        const [usage] = await this.db
+            .update(schema.apiKeys)
+            .set({
+                lastUsed: new Date(now * 1000),
+                requestCount: sql`coalesce(${schema.apiKeys.requestCount}, 0) + 1`,
+                windowStartedAt: sql`case when ${windowElapsed} then ${now} else ${schema.apiKeys.windowStartedAt} end`,
+                windowRequestCount: sql`case when ${windowElapsed} then 1 else coalesce(${schema.apiKeys.windowRequestCount}, 0) + 1 end`,
+            })
+            .where(eq(schema.apiKeys.id, id))
+            .returning({
+                windowRequestCount: schema.apiKeys.windowRequestCount,
+                windowStartedAt: schema.apiKeys.windowStartedAt,
+            });
+        return {
+            windowRequestCount: usage?.windowRequestCount ?? 0,
+            windowStartedAt: usage?.windowStartedAt ?? new Date(now * 1000),
+        };
+    }
+
     // ========================================
     // TEAM OPERATIONS
     // ========================================
 
-    async createTeam(teamData: Omit<schema.NewTeam, 'id'>): Promise<schema.Team> {
+    async createTeam(teamData: Omit<schema.NewTeam, 'id' | 'slug'>): Promise<schema.Team> {
         const [team] = await this.db
             .insert(schema.teams)
             .values({
                 ...teamData,
                 id: crypto.randomUUID(),
-                slug: this.generateSlug(teamData.name),
+                // Team slugs are unique, suffix to avoid collisions between teams with the same name
+                slug: `${this.generateSlug(teamData.name)}-${crypto.randomUUID().slice(0, 8)}`,
             })
             .returning();
 
@@ -135,7 +247,7 @@ export class DatabaseService {
         return team;
     }
 
-    async addTeamMember(teamId: string, userId: string, role: 'owner' | 'admin' | 'member' | 'viewer' = 'member'): Promise<void> {
+    async addTeamMember(teamId: string, userId: string, role: 'owner' | 'admin' | 'member' | 'viewer' = 'member', invitedBy?: string): Promise<void> {
         await this.db
             .insert(schema.teamMembers)
             .values({
@@ -143,10 +255,114 @@ export class DatabaseService {
                 teamId,
                 userId,
                 role: role as 'owner' | 'admin' | 'member' | 'viewer',
+                invitedBy: invitedBy ?? null,
+                invitedAt: invitedBy ? new Date() : null,
                 joinedAt: new Date(),
             });
     }
 
+    async getTeam(teamId: string): Promise<schema.Team | null> {
+        const teams = await this.db
+            .select()
+            .from(schema.teams)
+            .where(and(
+                eq(schema.teams.id, teamId),
+                sql`${schema.teams.deletedAt} IS NULL`
+            ))
+            .limit(1);
+        return teams[0] || null;
+    }
+
+    async getTeamMemberRole(teamId: string, userId: string): Promise<schema.TeamMember['role'] | null> {
+        const members = await this.db
+            .select({ role: schema.teamMembers.role })
+            .from(schema.teamMembers)
+            .innerJoin(schema.teams, eq(schema.teams.id, schema.teamMembers.teamId))
+            .where(and(
+                eq(schema.teamMembers.teamId, teamId),
+                eq(schema.teamMembers.userId, userId),
+                eq(schema.teamMembers.status, 'active'),
+                sql`${schema.teams.deletedAt} IS NULL`
+            ))
+            .limit(1);
+        return members[0]?.role ?? null;
+    }
+
+    /**
+     * Get a membership row whatever its status, so pending and suspended members can be managed too
+     */
+    async getTeamMember(teamId: string, userId: string): Promise<schema.TeamMember | null> {
+        const members = await this.db
+            .select({ member: schema.teamMembers })
+            .from(schema.teamMembers)
+            .innerJoin(schema.teams, eq(schema.teams.id, schema.teamMembers.teamId))
+            .where(and(
+                eq(schema.teamMembers.teamId, teamId),
+                eq(schema.teamMembers.userId, userId),
+                sql`${schema.teams.deletedAt} IS NULL`
+            ))
+            .limit(1);
+        return members[0]?.member ?? null;
+    }
+
+    async getTeamMembers(teamId: string): Promise<Array<{
+        userId: string;
+        role: schema.TeamMember['role'];
+        status: schema.TeamMember['status'];
+        joinedAt: Date | null;
+        email: string;
+        displayName: string;
+        avatarUrl: string | null;
+    }>> {
+        return await this.db
+            .select({
+                userId: schema.teamMembers.userId,
+                role: schema.teamMembers.role,
+                status: schema.teamMembers.status,
+                joinedAt: schema.teamMembers.joinedAt,
+                email: schema.users.email,
+                displayName: schema.users.displayName,
+                avatarUrl: schema.users.avatarUrl,
+            })
+            .from(schema.teamMembers)
+            .innerJoin(schema.users, eq(schema.users.id, schema.teamMembers.userId))
+            .where(eq(schema.teamMembers.teamId, teamId))
+            .orderBy(schema.teamMembers.joinedAt);
+    }
+
+    async countTeamMembers(teamId: string, role?: schema.TeamMember['role']): Promise<number> {
+        const whereConditions: any[] = [
+            eq(schema.teamMembers.teamId, teamId),
+            eq(schema.teamMembers.status, 'active')
+        ];
+        if (role) whereConditions.push(eq(schema.teamMembers.role, role));
+
+        const result = await this.db
+            .select({ count: count() })
+            .from(schema.teamMembers)
+            .where(and(...whereConditions));
+        return result[0]?.count || 0;
+    }
+
+    async updateTeamMemberRole(teamId: string, userId: string, role: schema.TeamMember['role']): Promise<void> {
+        await this.db
+            .update(schema.teamMembers)
+            .set({ role, updatedAt: new Date() })
+            .where(and(
+                eq(schema.teamMembers.teamId, teamId),
+                eq(schema.teamMembers.userId, userId)
+            ));
+    }
+
+    async removeTeamMember(teamId: string, userId: string): Promise<void> {
+        await this.db
+            .delete(schema.teamMembers)
+            .where(and(
+                eq(schema.teamMembers.teamId, teamId),
+                eq(schema.teamMembers.userId, userId)
+            ));
+    }
+
     async getUserTeams(userId: string): Promise<Array<schema.Team & { memberRole: string }>> {
         const results = await this.db
             .select({
@@ -191,6 +407,41 @@ export class DatabaseService {
         return app;
     }
 
+    async getAppOwnerId(appId: string): Promise<string | null> {
+        const apps = await this.db
+            .select({ userId: schema.apps.userId })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .limit(1);
+        return apps[0]?.userId ?? null;
+    }
+
+    /**
+     * Whose quotas an app's actions are counted against, null for apps saved before anonymous usage was keyed
+     */
+    async getAppQuotaOwner(appId: string): Promise<QuotaOwner | null> {
+        const apps = await this.db
+            .select({ userId: schema.apps.userId, anonymousKey: schema.apps.anonymousKey })
+            .from(schema.apps)
+            .where(eq(schema.apps.id, appId))
+            .limit(1);
+        const app = apps[0];
+        if (app?.userId) {
+            return { userId: app.userId };
+        }
+        return app?.anonymousKey ? { anonymousKey: app.anonymousKey } : null;
+    }
+
+    async getRecentlyUpdatedAppIds(userId: string, since: Date, limit: number = 50): Promise<string[]> {
+        const apps = await this.db
+            .select({ id: schema.apps.id })
+            .from(schema.apps)
+            .where(and(eq(schema.apps.userId, userId), gte(schema.apps.updatedAt, since)))
+            .orderBy(desc(schema.apps.updatedAt))
+            .limit(limit);
+        return apps.map(app => app.id);
+    }
+
     async getUserApps(
         userId: string,
         options: {
@@ -220,6 +471,16 @@ export class DatabaseService {
             .offset(offset);
     }
 
+    async getTeamApps(teamId: string, limit: number = 50, offset: number = 0): Promise<schema.App[]> {
+        return await this.db
+            .select()
+            .from(schema.apps)
+            .where(eq(schema.apps.teamId, teamId))
+            .orderBy(desc(schema.apps.updatedAt))
+            .limit(limit)
+            .offset(offset);
+    }
+
     async getPublicApps(boardId?: string, limit: number = 20, offset: number = 0): Promise<schema.App[]> {
         const whereConditions: any[] = [
             or(
@@ -328,22 +589,302 @@ export class DatabaseService {
             .orderBy(desc(schema.cloudflareAccounts.isDefault));
     }
 
+    async getCloudflareAccount(id: string, userId: string): Promise<schema.CloudflareAccount | null> {
+        const accounts = await this.db
+            .select()
+            .from(schema.cloudflareAccounts)
+            .where(and(
+                eq(schema.cloudflareAccounts.id, id),
+                eq(schema.cloudflareAccounts.userId, userId),
+                eq(schema.cloudflareAccounts.isActive, true)
+            ))
+            .limit(1);
+        return accounts[0] || null;
+    }
+
+    async updateCloudflareAccount(
+        id: string,
+        updates: Partial<Omit<schema.NewCloudflareAccount, 'id' | 'userId' | 'teamId' | 'createdAt'>>
+    ): Promise<schema.CloudflareAccount> {
+        const [account] = await this.db
+            .update(schema.cloudflareAccounts)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(schema.cloudflareAccounts.id, id))
+            .returning();
+        return account;
+    }
+
+    async deleteCloudflareAccount(id: string): Promise<void> {
+        await this.db
+            .delete(schema.cloudflareAccounts)
+            .where(eq(schema.cloudflareAccounts.id, id));
+    }
+
+    // ========================================
+    // DEPLOYMENT ENVIRONMENT OPERATIONS
+    // ========================================
+
+    async getAppEnvironments(appId: string): Promise<schema.AppEnvironment[]> {
+        return await this.db
+            .select()
+            .from(schema.appEnvironments)
+            .where(eq(schema.appEnvironments.appId, appId))
+            .orderBy(schema.appEnvironments.name);
+    }
+
+    async getAppEnvironment(appId: string, name: schema.AppEnvironment['name']): Promise<schema.AppEnvironment | null> {
+        const environments = await this.db
+            .select()
+            .from(schema.appEnvironments)
+            .where(and(
+                eq(schema.appEnvironments.appId, appId),
+                eq(schema.appEnvironments.name, name)
+            ))
+            .limit(1);
+        return environments[0] || null;
+    }
+
+    async getAppEnvironmentByDomain(customDomain: string): Promise<schema.AppEnvironment | null> {
+        const environments = await this.db
+            .select()
+            .from(schema.appEnvironments)
+            .where(eq(schema.appEnvironments.customDomain, customDomain))
+            .limit(1);
+        return environments[0] || null;
+    }
+
+    /**
+     * Create the environment of an app on first use, or update the given fields
+     */
+    async upsertAppEnvironment(
+        appId: string,
+        name: schema.AppEnvironment['name'],
+        updates: Partial<Omit<schema.NewAppEnvironment, 'id' | 'appId' | 'name' | 'createdAt' | 'updatedAt'>>
+    ): Promise<schema.AppEnvironment> {
+        const [environment] = await this.db
+            .insert(schema.appEnvironments)
+            .values({
+                ...updates,
+                id: crypto.randomUUID(),
+                appId,
+                name,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .onConflictDoUpdate({
+                target: [schema.appEnvironments.appId, schema.appEnvironments.name],
+                set: { ...updates, updatedAt: new Date() },
+            })
+            .returning();
+        return environment;
+    }
+
+    /**
+     * Record a new deployment of an environment with the next version number
+     */
+    async createAppDeployment(
+        deploymentData: Pick<schema.NewAppDeployment, 'appId' | 'environment' | 'rollbackOfId'>
+    ): Promise<schema.AppDeployment> {
+        const latest = await this.db
+            .select({ version: sql<number>`max(${schema.appDeployments.version})` })
+            .from(schema.appDeployments)
+            .where(and(
+                eq(schema.appDeployments.appId, deploymentData.appId),
+                eq(schema.appDeployments.environment, deploymentData.environment)
+            ))
+            .get();
+
+        const [deployment] = await this.db
+            .insert(schema.appDeployments)
+            .values({
+                ...deploymentData,
+                id: crypto.randomUUID(),
+                version: (latest?.version ?? 0) + 1,
+                status: 'deploying',
+                createdAt: new Date(),
+            })
+            .returning();
+        return deployment;
+    }
+
+    async updateAppDeployment(
+        deploymentId: string,
+        updates: Partial<Pick<schema.NewAppDeployment, 'status' | 'scriptName' | 'deploymentUrl' | 'archiveKey' | 'cloudflareAccountId' | 'error' | 'completedAt'>>
+    ): Promise<schema.AppDeployment> {
+        const [deployment] = await this.db
+            .update(schema.appDeployments)
+            .set(updates)
+            .where(eq(schema.appDeployments.id, deploymentId))
+            .returning();
+        return deployment;
+    }
+
+    async getAppDeployment(deploymentId: string): Promise<schema.AppDeployment | null> {
+        const deployments = await this.db
+            .select()
+            .from(schema.appDeployments)
+            .where(eq(schema.appDeployments.id, deploymentId))
+            .limit(1);
+        return deployments[0] || null;
+    }
+
+    async getAppDeployments(appId: string, limit: number = 50): Promise<schema.AppDeployment[]> {
+        return await this.db
+            .select()
+            .from(schema.appDeployments)
+            .where(eq(schema.appDeployments.appId, appId))
+            .orderBy(desc(schema.appDeployments.createdAt), desc(schema.appDeployments.version))
+            .limit(limit);
+    }
+
     // ========================================
     // BOARD AND COMMUNITY OPERATIONS
     // ========================================
 
-    async createBoard(boardData: Omit<schema.NewBoard, 'id'>): Promise<schema.Board> {
+    async createBoard(boardData: Omit<schema.NewBoard, 'id' | 'slug'>): Promise<schema.Board> {
         const [board] = await this.db
             .insert(schema.boards)
             .values({
                 ...boardData,
                 id: crypto.randomUUID(),
-                slug: this.generateSlug(boardData.name),
+                // Board slugs are unique, suffix to avoid collisions between boards with the same name
+                slug: `${this.generateSlug(boardData.name)}-${crypto.randomUUID().slice(0, 8)}`,
             })
             .returning();
+
+        // Add owner as board member
+        if (board.ownerId) {
+            await this.addBoardMember(board.id, board.ownerId, 'owner');
+        }
         return board;
     }
 
+    async getBoard(boardIdOrSlug: string): Promise<schema.Board | null> {
+        const boards = await this.db
+            .select()
+            .from(schema.boards)
+            .where(or(
+                eq(schema.boards.id, boardIdOrSlug),
+                eq(schema.boards.slug, boardIdOrSlug)
+            ))
+            .limit(1);
+        return boards[0] || null;
+    }
+
+    async updateBoard(boardId: string, updates: Partial<Omit<schema.NewBoard, 'id' | 'slug' | 'ownerId' | 'createdAt'>>): Promise<schema.Board> {
+        const [board] = await this.db
+            .update(schema.boards)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(schema.boards.id, boardId))
+            .returning();
+        return board;
+    }
+
+    async deleteBoard(boardId: string): Promise<void> {
+        // Apps reference boards without cascade, unshare them before deleting
+        await this.db
+            .update(schema.apps)
+            .set({ boardId: null, visibility: this.boardlessVisibility(), updatedAt: new Date() })
+            .where(eq(schema.apps.boardId, boardId));
+
+        await this.db
+            .delete(schema.boards)
+            .where(eq(schema.boards.id, boardId));
+    }
+
+    async addBoardMember(boardId: string, userId: string, role: schema.BoardMember['role'] = 'member'): Promise<void> {
+        await this.db
+            .insert(schema.boardMembers)
+            .values({
+                id: crypto.randomUUID(),
+                boardId,
+                userId,
+                role,
+                joinedAt: new Date(),
+            });
+    }
+
+    async getBoardMember(boardId: string, userId: string): Promise<schema.BoardMember | null> {
+        const members = await this.db
+            .select()
+            .from(schema.boardMembers)
+            .where(and(
+                eq(schema.boardMembers.boardId, boardId),
+                eq(schema.boardMembers.userId, userId)
+            ))
+            .limit(1);
+        return members[0] || null;
+    }
+
+    async getBoardMembers(boardId: string): Promise<Array<{
+        userId: string;
+        role: schema.BoardMember['role'];
+        joinedAt: Date | null;
+        displayName: string;
+        avatarUrl: string | null;
+    }>> {
+        return await this.db
+            .select({
+                userId: schema.boardMembers.userId,
+                role: schema.boardMembers.role,
+                joinedAt: schema.boardMembers.joinedAt,
+                displayName: schema.users.displayName,
+                avatarUrl: schema.users.avatarUrl,
+            })
+            .from(schema.boardMembers)
+            .innerJoin(schema.users, eq(schema.users.id, schema.boardMembers.userId))
+            .where(and(
+                eq(schema.boardMembers.boardId, boardId),
+                eq(schema.boardMembers.isBanned, false)
+            ))
+            .orderBy(schema.boardMembers.joinedAt);
+    }
+
+    async updateBoardMemberRole(boardId: string, userId: string, role: schema.BoardMember['role']): Promise<void> {
+        await this.db
+            .update(schema.boardMembers)
+            .set({ role })
+            .where(and(
+                eq(schema.boardMembers.boardId, boardId),
+                eq(schema.boardMembers.userId, userId)
+            ));
+    }
+
+    async removeBoardMember(boardId: string, userId: string): Promise<void> {
+        await this.db
+            .delete(schema.boardMembers)
+            .where(and(
+                eq(schema.boardMembers.boardId, boardId),
+                eq(schema.boardMembers.userId, userId)
+            ));
+    }
+
+    async addAppToBoard(appId: string, boardId: string): Promise<void> {
+        // Public apps stay public, anything else becomes visible through the board
+        await this.db
+            .update(schema.apps)
+            .set({
+                boardId,
+                visibility: sql`CASE WHEN ${schema.apps.visibility} = 'public' THEN 'public' ELSE 'board' END`,
+                updatedAt: new Date()
+            })
+            .where(eq(schema.apps.id, appId));
+    }
+
+    async removeAppFromBoard(appId: string): Promise<void> {
+        await this.db
+            .update(schema.apps)
+            .set({ boardId: null, visibility: this.boardlessVisibility(), updatedAt: new Date() })
+            .where(eq(schema.apps.id, appId));
+    }
+
+    /**
+     * Apps only visible through a board fall back to private when unshared
+     */
+    private boardlessVisibility() {
+        return sql`CASE WHEN ${schema.apps.visibility} = 'board' THEN 'private' ELSE ${schema.apps.visibility} END`;
+    }
+
     async getPopularBoards(limit: number = 10): Promise<schema.Board[]> {
         // Use SQL aggregation for optimal performance - single query with joins
         return await this.db
@@ -395,6 +936,412 @@ export class DatabaseService {
             .limit(limit);
     }
 
+    // ========================================
+    // TAG AND CATEGORY OPERATIONS
+    // ========================================
+
+    /**
+     * Replace the tags of an app, tags are normalized to lowercase hyphenated words
+     */
+    async setAppTags(appId: string, tags: string[]): Promise<string[]> {
+        const normalized = this.normalizeTags(tags);
+
+        await this.db
+            .delete(schema.appTags)
+            .where(eq(schema.appTags.appId, appId));
+
+        if (normalized.length > 0) {
+            await this.db
+                .insert(schema.appTags)
+                .values(normalized.map(tagName => ({
+                    id: crypto.randomUUID(),
+                    appId,
+                    tagName,
+                    createdAt: new Date(),
+                })));
+        }
+        return normalized;
+    }
+
+    /**
+     * Set the category of an app, an app belongs to at most one category
+     */
+    async setAppCategory(appId: string, categoryName: string | null): Promise<void> {
+        await this.db
+            .delete(schema.appCategories)
+            .where(eq(schema.appCategories.appId, appId));
+
+        if (categoryName) {
+            await this.db
+                .insert(schema.appCategories)
+                .values({
+                    id: crypto.randomUUID(),
+                    appId,
+                    categoryName,
+                    createdAt: new Date(),
+                });
+        }
+    }
+
+    async getAppTaxonomy(appIds: string[]): Promise<Record<string, { tags: string[]; category: string | null }>> {
+        if (appIds.length === 0) return {};
+
+        const [tags, categories] = await Promise.all([
+            this.db
+                .select({ appId: schema.appTags.appId, tagName: schema.appTags.tagName })
+                .from(schema.appTags)
+                .where(inArray(schema.appTags.appId, appIds))
+                .orderBy(schema.appTags.tagName),
+            this.db
+                .select({ appId: schema.appCategories.appId, categoryName: schema.appCategories.categoryName })
+                .from(schema.appCategories)
+                .where(inArray(schema.appCategories.appId, appIds)),
+        ]);
+
+        const taxonomy: Record<string, { tags: string[]; category: string | null }> = {};
+        for (const appId of appIds) {
+            taxonomy[appId] = { tags: [], category: null };
+        }
+        for (const { appId, tagName } of tags) {
+            taxonomy[appId].tags.push(tagName);
+        }
+        for (const { appId, categoryName } of categories) {
+            taxonomy[appId].category = categoryName;
+        }
+        return taxonomy;
+    }
+
+    /**
+     * Count tags, categories and frameworks of the apps matching each facet's conditions
+     */
+    async getAppFacets(conditions: FacetConditions, tagLimit: number = 20): Promise<{
+        tags: FacetCount[];
+        categories: FacetCount[];
+        frameworks: FacetCount[];
+    }> {
+        const [tags, categories, frameworks] = await Promise.all([
+            this.db
+                .select({ name: schema.appTags.tagName, count: count() })
+                .from(schema.appTags)
+                .innerJoin(schema.apps, eq(schema.apps.id, schema.appTags.appId))
+                .where(and(...conditions.tags))
+                .groupBy(schema.appTags.tagName)
+                .orderBy(desc(count()))
+                .limit(tagLimit),
+            this.db
+                .select({ name: schema.appCategories.categoryName, count: count() })
+                .from(schema.appCategories)
+                .innerJoin(schema.apps, eq(schema.apps.id, schema.appCategories.appId))
+                .where(and(...conditions.categories))
+                .groupBy(schema.appCategories.categoryName)
+                .orderBy(desc(count())),
+            this.db
+                .select({ name: schema.apps.framework, count: count() })
+                .from(schema.apps)
+                .where(and(...conditions.frameworks, isNotNull(schema.apps.framework)))
+                .groupBy(schema.apps.framework)
+                .orderBy(desc(count())),
+        ]);
+
+        return {
+            tags,
+            categories,
+            frameworks: frameworks.map(({ name, count }) => ({ name: name!, count })),
+        };
+    }
+
+    // ========================================
+    // MCP SERVER OPERATIONS
+    // ========================================
+
+    async createMcpServer(serverData: Omit<schema.NewMcpServer, 'id'>): Promise<schema.McpServer> {
+        const [server] = await this.db
+            .insert(schema.mcpServers)
+            .values({ ...serverData, id: crypto.randomUUID() })
+            .returning();
+        return server;
+    }
+
+    async getUserMcpServers(userId: string): Promise<schema.McpServer[]> {
+        return this.db
+            .select()
+            .from(schema.mcpServers)
+            .where(and(
+                eq(schema.mcpServers.userId, userId),
+                eq(schema.mcpServers.isActive, true)
+            ))
+            .orderBy(schema.mcpServers.name);
+    }
+
+    async getMcpServer(serverId: string, userId: string): Promise<schema.McpServer | null> {
+        const servers = await this.db
+            .select()
+            .from(schema.mcpServers)
+            .where(and(
+                eq(schema.mcpServers.id, serverId),
+                eq(schema.mcpServers.userId, userId),
+                eq(schema.mcpServers.isActive, true)
+            ))
+            .limit(1);
+        return servers[0] || null;
+    }
+
+    async updateMcpServer(
+        serverId: string,
+        updates: Partial<Omit<schema.NewMcpServer, 'id' | 'userId' | 'createdAt'>>
+    ): Promise<schema.McpServer> {
+        const [server] = await this.db
+            .update(schema.mcpServers)
+            .set({ ...updates, updatedAt: new Date() })
+            .where(eq(schema.mcpServers.id, serverId))
+            .returning();
+        return server;
+    }
+
+    async deleteMcpServer(serverId: string): Promise<void> {
+        await this.db
+            .delete(schema.mcpServers)
+            .where(eq(schema.mcpServers.id, serverId));
+    }
+
+    /**
+     * Get the active MCP servers enabled for an app
+     */
+    async getAppMcpServers(appId: string): Promise<schema.McpServer[]> {
+        const rows = await this.db
+            .select({ server: schema.mcpServers })
+            .from(schema.appMcpServers)
+            .innerJoin(schema.mcpServers, eq(schema.mcpServers.id, schema.appMcpServers.serverId))
+            .where(and(
+                eq(schema.appMcpServers.appId, appId),
+                eq(schema.mcpServers.isActive, true)
+            ))
+            .orderBy(schema.mcpServers.name);
+        return rows.map(row => row.server);
+    }
+
+    /**
+     * Replace the set of MCP servers enabled for an app
+     */
+    async setAppMcpServers(appId: string, serverIds: string[]): Promise<void> {
+        await this.db
+            .delete(schema.appMcpServers)
+            .where(eq(schema.appMcpServers.appId, appId));
+
+        const uniqueIds = [...new Set(serverIds)];
+        if (uniqueIds.length > 0) {
+            await this.db
+                .insert(schema.appMcpServers)
+                .values(uniqueIds.map(serverId => ({
+                    id: crypto.randomUUID(),
+                    appId,
+                    serverId,
+                    createdAt: new Date(),
+                })));
+        }
+    }
+
+    // ========================================
+    // MODEL CONFIG OPERATIONS
+    // ========================================
+
+    async getUserModelConfigs(userId: string): Promise<schema.UserModelConfig[]> {
+        return await this.db
+            .select()
+            .from(schema.userModelConfigs)
+            .where(eq(schema.userModelConfigs.userId, userId))
+            .orderBy(schema.userModelConfigs.agentActionName);
+    }
+
+    /**
+     * Create or replace the user's override for an agent action
+     */
+    async upsertUserModelConfig(
+        userId: string,
+        agentActionName: string,
+        config: Omit<schema.NewUserModelConfig, 'id' | 'userId' | 'agentActionName' | 'createdAt' | 'updatedAt'>
+    ): Promise<schema.UserModelConfig> {
+        const values = {
+            modelName: config.modelName,
+            reasoningEffort: config.reasoningEffort ?? null,
+            maxTokens: config.maxTokens ?? null,
+            temperature: config.temperature ?? null,
+            fallbackModel: config.fallbackModel ?? null,
+            providerSecretId: config.providerSecretId ?? null,
+        };
+        const [row] = await this.db
+            .insert(schema.userModelConfigs)
+            .values({
+                ...values,
+                id: crypto.randomUUID(),
+                userId,
+                agentActionName,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .onConflictDoUpdate({
+                target: [schema.userModelConfigs.userId, schema.userModelConfigs.agentActionName],
+                set: { ...values, updatedAt: new Date() },
+            })
+            .returning();
+        return row;
+    }
+
+    async deleteUserModelConfig(userId: string, agentActionName: string): Promise<void> {
+        await this.db
+            .delete(schema.userModelConfigs)
+            .where(and(
+                eq(schema.userModelConfigs.userId, userId),
+                eq(schema.userModelConfigs.agentActionName, agentActionName)
+            ));
+    }
+
+    // ========================================
+    // GITHUB INTEGRATION OPERATIONS
+    // ========================================
+
+    async getGitHubIntegration(userId: string): Promise<schema.GitHubIntegration | null> {
+        const integrations = await this.db
+            .select()
+            .from(schema.githubIntegrations)
+            .where(and(
+                eq(schema.githubIntegrations.userId, userId),
+                eq(schema.githubIntegrations.isActive, true)
+            ))
+            .limit(1);
+        return integrations[0] || null;
+    }
+
+    // ========================================
+    // COMMENT OPERATIONS
+    // ========================================
+
+    async createComment(commentData: Omit<schema.NewAppComment, 'id'>): Promise<schema.AppComment> {
+        const [comment] = await this.db
+            .insert(schema.appComments)
+            .values({
+                ...commentData,
+                id: crypto.randomUUID(),
+            })
+            .returning();
+        return comment;
+    }
+
+    async getComment(commentId: string): Promise<schema.AppComment | null> {
+        const comments = await this.db
+            .select()
+            .from(schema.appComments)
+            .where(eq(schema.appComments.id, commentId))
+            .limit(1);
+        return comments[0] || null;
+    }
+
+    /**
+     * Get comments of an app with author, like count and whether the user liked them
+     * Top-level comments when parentCommentIds is omitted, replies to the given parents otherwise
+     */
+    async getAppComments(
+        appId: string,
+        options: {
+            parentCommentIds?: string[];
+            userId?: string;
+            limit?: number;
+            offset?: number;
+        } = {}
+    ): Promise<CommentWithAuthor[]> {
+        const { parentCommentIds, userId, limit, offset = 0 } = options;
+
+        if (parentCommentIds && parentCommentIds.length === 0) {
+            return [];
+        }
+
+        const query = this.db
+            .select({
+                id: schema.appComments.id,
+                appId: schema.appComments.appId,
+                userId: schema.appComments.userId,
+                content: schema.appComments.content,
+                parentCommentId: schema.appComments.parentCommentId,
+                isEdited: schema.appComments.isEdited,
+                isDeleted: schema.appComments.isDeleted,
+                createdAt: schema.appComments.createdAt,
+                updatedAt: schema.appComments.updatedAt,
+                userName: schema.users.displayName,
+                userAvatar: schema.users.avatarUrl,
+                likeCount: sql<number>`COALESCE((SELECT COUNT(*) FROM ${schema.commentLikes} WHERE ${schema.commentLikes.commentId} = ${schema.appComments.id}), 0)`,
+                userLiked: userId
+                    ? sql<boolean>`EXISTS(SELECT 1 FROM ${schema.commentLikes} WHERE ${schema.commentLikes.commentId} = ${schema.appComments.id} AND ${schema.commentLikes.userId} = ${userId})`
+                    : sql<boolean>`false`,
+            })
+            .from(schema.appComments)
+            .leftJoin(schema.users, eq(schema.appComments.userId, schema.users.id))
+            .where(and(
+                eq(schema.appComments.appId, appId),
+                parentCommentIds
+                    ? inArray(schema.appComments.parentCommentId, parentCommentIds)
+                    : isNull(schema.appComments.parentCommentId)
+            ))
+            // Newest threads first, replies in chronological order
+            .orderBy(parentCommentIds ? schema.appComments.createdAt : desc(schema.appComments.createdAt));
+
+        return limit !== undefined ? await query.limit(limit).offset(offset) : await query;
+    }
+
+    async countAppComments(appId: string, topLevelOnly: boolean = false): Promise<number> {
+        const whereConditions: any[] = [
+            eq(schema.appComments.appId, appId),
+        ];
+        if (topLevelOnly) {
+            whereConditions.push(isNull(schema.appComments.parentCommentId));
+        } else {
+            whereConditions.push(eq(schema.appComments.isDeleted, false));
+        }
+
+        const result = await this.db
+            .select({ count: count() })
+            .from(schema.appComments)
+            .where(and(...whereConditions));
+        return result[0]?.count || 0;
+    }
+
+    async updateComment(commentId: string, content: string): Promise<schema.AppComment> {
+        const [comment] = await this.db
+            .update(schema.appComments)
+            .set({ content, isEdited: true, updatedAt: new Date() })
+            .where(eq(schema.appComments.id, commentId))
+            .returning();
+        return comment;
+    }
+
+    async softDeleteComment(commentId: string): Promise<void> {
+        // Keep the row so replies stay attached to their thread
+        await this.db
+            .update(schema.appComments)
+            .set({ content: '', isDeleted: true, updatedAt: new Date() })
+            .where(eq(schema.appComments.id, commentId));
+    }
+
+    async likeComment(commentId: string, userId: string): Promise<void> {
+        await this.db
+            .insert(schema.commentLikes)
+            .values({
+                id: crypto.randomUUID(),
+                commentId,
+                userId,
+                createdAt: new Date(),
+            })
+            .onConflictDoNothing();
+    }
+
+    async unlikeComment(commentId: string, userId: string): Promise<void> {
+        await this.db
+            .delete(schema.commentLikes)
+            .where(and(
+                eq(schema.commentLikes.commentId, commentId),
+                eq(schema.commentLikes.userId, userId)
+            ));
+    }
+
     // ========================================
     // ANALYTICS AND TRACKING
     // ========================================
@@ -433,10 +1380,153 @@ export class DatabaseService {
         };
     }
 
+    async recordInferenceUsage(usageData: Omit<schema.NewInferenceUsage, 'id'>): Promise<void> {
+        await this.db
+            .insert(schema.inferenceUsage)
+            .values({ ...usageData, id: crypto.randomUUID(), createdAt: new Date() });
+    }
+
+    /**
+     * Roll up the inference usage of an app or of all apps of a user
+     */
+    async getInferenceUsageSummary(filter: { appId: string } | { userId: string }): Promise<InferenceUsageSummary> {
+        const usage = schema.inferenceUsage;
+        const where = 'appId' in filter ? eq(usage.appId, filter.appId) : eq(usage.userId, filter.userId);
+        const totalsColumns = {
+            inferences: count(),
+            promptTokens: sql<number>`coalesce(sum(${usage.promptTokens}), 0)`,
+            completionTokens: sql<number>`coalesce(sum(${usage.completionTokens}), 0)`,
+            reasoningTokens: sql<number>`coalesce(sum(${usage.reasoningTokens}), 0)`,
+            estimatedCost: sql<number>`coalesce(sum(${usage.estimatedCost}), 0)`,
+            latencyMs: sql<number>`coalesce(sum(${usage.latencyMs}), 0)`,
+            retries: sql<number>`coalesce(sum(${usage.retries}), 0)`,
+            fallbacks: sql<number>`coalesce(sum(${usage.usedFallback}), 0)`,
+            failures: sql<number>`coalesce(sum(1 - ${usage.success}), 0)`,
+        };
+        const costOrder = desc(sql`sum(${usage.estimatedCost})`);
+
+        const [[totals], byAction, byModel] = await Promise.all([
+            this.db.select(totalsColumns).from(usage).where(where),
+            this.db
+                .select({ agentActionName: usage.agentActionName, ...totalsColumns })
+                .from(usage)
+                .where(where)
+                .groupBy(usage.agentActionName)
+                .orderBy(costOrder),
+            this.db
+                .select({ model: usage.model, ...totalsColumns })
+                .from(usage)
+                .where(where)
+                .groupBy(usage.model)
+                .orderBy(costOrder),
+        ]);
+
+        return { totals, byAction, byModel };
+    }
+
+    // ========================================
+    // SYSTEM SETTINGS
+    // ========================================
+
+    /**
+     * Value of a system setting, null when it is not set
+     * Defaults are seeded as JSON strings, values edited directly in D1 are parsed by drizzle already
+     */
+    async getSystemSetting(key: string): Promise<unknown> {
+        const setting = await this.db
+            .select({ value: schema.systemSettings.value })
+            .from(schema.systemSettings)
+            .where(eq(schema.systemSettings.key, key))
+            .get();
+        if (!setting || setting.value === null || setting.value === undefined) {
+            return null;
+        }
+        if (typeof setting.value !== 'string') {
+            return setting.value;
+        }
+        try {
+            return JSON.parse(setting.value);
+        } catch {
+            return setting.value;
+        }
+    }
+
+    // ========================================
+    // QUOTAS
+    // ========================================
+
+    /**
+     * Usage of a user, or of the anonymous clients sharing a key, counted against their quotas
+     * Rollbacks restore an earlier bundle and are not counted as deployments
+     */
+    async getQuotaUsage(owner: QuotaOwner, since: { day: Date; month: Date; activeAgents: Date }): Promise<{
+        generationsToday: number;
+        activeAgents: number;
+        deploymentsToday: number;
+        inferenceSpend: number;
+    }> {
+        const ownsApp = 'userId' in owner
+            ? eq(schema.apps.userId, owner.userId)
+            : and(isNull(schema.apps.userId), eq(schema.apps.anonymousKey, owner.anonymousKey));
+        // Inferences of anonymous apps carry no user, they are attributed through their app
+        const spendQuery = 'userId' in owner
+            ? this.db
+                .select({ total: sql<number>`coalesce(sum(${schema.inferenceUsage.estimatedCost}), 0)` })
+                .from(schema.inferenceUsage)
+                .where(and(eq(schema.inferenceUsage.userId, owner.userId), gte(schema.inferenceUsage.createdAt, since.month)))
+            : this.db
+                .select({ total: sql<number>`coalesce(sum(${schema.inferenceUsage.estimatedCost}), 0)` })
+                .from(schema.inferenceUsage)
+                .innerJoin(schema.apps, eq(schema.inferenceUsage.appId, schema.apps.id))
+                .where(and(ownsApp, gte(schema.inferenceUsage.createdAt, since.month)));
+
+        const [generations, activeAgents, deployments, spend] = await Promise.all([
+            this.db
+                .select({ count: count() })
+                .from(schema.apps)
+                .where(and(ownsApp, gte(schema.apps.createdAt, since.day)))
+                .get(),
+            this.db
+                .select({ count: count() })
+                .from(schema.apps)
+                .where(and(
+                    ownsApp,
+                    eq(schema.apps.status, 'generating'),
+                    gte(schema.apps.updatedAt, since.activeAgents)
+                ))
+                .get(),
+            this.db
+                .select({ count: count() })
+                .from(schema.appDeployments)
+                .innerJoin(schema.apps, eq(schema.appDeployments.appId, schema.apps.id))
+                .where(and(
+                    ownsApp,
+                    isNull(schema.appDeployments.rollbackOfId),
+                    gte(schema.appDeployments.createdAt, since.day)
+                ))
+                .get(),
+            spendQuery.get(),
+        ]);
+
+        return {
+            generationsToday: generations?.count || 0,
+            activeAgents: activeAgents?.count || 0,
+            deploymentsToday: deployments?.count || 0,
+            inferenceSpend: spend?.total || 0,
+        };
+    }
+
     // ========================================
     // UTILITY METHODS
     // ========================================
 
+    private normalizeTags(tags: string[]): string[] {
+        const normalized = tags
+            .map(tag => this.generateSlug(tag).replace(/^-+|-+$/g, '').substring(0, 30))
+            .filter(tag => tag.length > 0);
+        return [...new Set(normalized)].slice(0, 10);
+    }
+
     private generateSlug(text: string): string {
         return text
             .toLowerCase()
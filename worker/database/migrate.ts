@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/d1';
 import { migrate } from 'drizzle-orm/d1/migrator';
 import * as schema from './schema';
+import { DEFAULT_USER_QUOTAS, USER_QUOTAS_SETTING_KEY } from '../services/quotas/quotaService';
 
 /**
  * Database migration utility for Cloudflare D1
@@ -94,6 +95,12 @@ export async function initializeSystemDefaults(env: Env) {
                 key: 'allow_anonymous_submissions',
                 value: JSON.stringify(true),
                 description: 'Whether anonymous users can submit to public boards'
+            },
+            {
+                id: 'user-quotas',
+                key: USER_QUOTAS_SETTING_KEY,
+                value: JSON.stringify(DEFAULT_USER_QUOTAS),
+                description: 'Default per-user quotas (null is unlimited), overridden per user by user_quotas:<userId> settings'
             }
         ];
         
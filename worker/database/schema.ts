@@ -1,5 +1,5 @@
 import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 // ========================================
 // CORE USER AND IDENTITY MANAGEMENT
@@ -107,6 +107,9 @@ export const apiKeys = sqliteTable('api_keys', {
     // Usage Tracking
     lastUsed: integer('last_used', { mode: 'timestamp' }),
     requestCount: integer('request_count').default(0), // Track usage
+    rateLimit: integer('rate_limit'), // Requests per minute, the platform default applies when unset
+    windowStartedAt: integer('window_started_at', { mode: 'timestamp' }), // Start of the current rate limit window
+    windowRequestCount: integer('window_request_count').default(0), // Requests made in the current rate limit window
     
     // Timing
     expiresAt: integer('expires_at', { mode: 'timestamp' }), // Optional expiration
@@ -200,6 +203,7 @@ export const cloudflareAccounts = sqliteTable('cloudflare_accounts', {
     // Account Details
     accountId: text('account_id').notNull(), // Cloudflare Account ID
     apiTokenHash: text('api_token_hash').notNull(), // Encrypted/hashed API token
+    apiTokenSecretId: text('api_token_secret_id').references(() => userSecrets.id, { onDelete: 'set null' }), // Token stored encrypted through SecretsService
     
     // Ownership - either user or team
     userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }),
@@ -354,6 +358,7 @@ export const apps = sqliteTable('apps', {
     userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // Null for anonymous
     teamId: text('team_id').references(() => teams.id, { onDelete: 'cascade' }), // Team context if applicable
     sessionToken: text('session_token'), // For anonymous users
+    anonymousKey: text('anonymous_key'), // Hash of the client IP of anonymous generations, their quotas are counted against it
     
     // Visibility and Sharing
     visibility: text('visibility', { enum: ['private', 'team', 'board', 'public'] }).notNull().default('private'),
@@ -368,6 +373,7 @@ export const apps = sqliteTable('apps', {
     cloudflareAccountId: text('cloudflare_account_id'), // Which CF account was used
     deploymentStatus: text('deployment_status').default('none'), // 'none', 'deploying', 'deployed', 'failed'
     deploymentMetadata: text('deployment_metadata', { mode: 'json' }).default('{}'),
+    githubRepositoryUrl: text('github_repository_url'), // Repository the app was exported to or imported from
     
     // App Metadata
     isArchived: integer('is_archived', { mode: 'boolean' }).default(false),
@@ -391,6 +397,7 @@ export const apps = sqliteTable('apps', {
     visibilityIdx: index('apps_visibility_idx').on(table.visibility),
     slugIdx: index('apps_slug_idx').on(table.slug),
     sessionTokenIdx: index('apps_session_token_idx').on(table.sessionToken),
+    anonymousKeyIdx: index('apps_anonymous_key_idx').on(table.anonymousKey),
     parentAppIdx: index('apps_parent_app_idx').on(table.parentAppId),
     // Performance indexes for common queries
     searchIdx: index('apps_search_idx').on(table.title, table.description),
@@ -446,6 +453,63 @@ export const codeGenInstances = sqliteTable('code_gen_instances', {
     websocketIdx: index('codegen_instances_websocket_idx').on(table.websocketConnectionId),
 }));
 
+/**
+ * AppEnvironments table - Per-app deployment environments (preview and production)
+ * Each environment is deployed as its own worker with its own variables and optional custom domain
+ */
+export const appEnvironments = sqliteTable('app_environments', {
+    id: text('id').primaryKey(),
+    appId: text('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    name: text('name', { enum: ['preview', 'production'] }).notNull(),
+
+    // Variables exposed to the deployed worker, mapping variable name to a user_secrets id
+    envVars: text('env_vars', { mode: 'json' }).default('{}'),
+
+    // Custom domain routed to this environment once its owner proved control of it
+    // It is added to the platform zone as a Cloudflare for SaaS custom hostname, whose TXT record verifies ownership
+    customDomain: text('custom_domain'),
+    customHostnameId: text('custom_hostname_id'),
+    customDomainVerification: text('custom_domain_verification', { mode: 'json' }), // TXT record name and value
+    customDomainVerifiedAt: integer('custom_domain_verified_at', { mode: 'timestamp' }),
+    cloudflareAccountId: text('cloudflare_account_id').references(() => cloudflareAccounts.id, { onDelete: 'set null' }),
+
+    // Deployment currently serving this environment
+    scriptName: text('script_name'),
+    activeDeploymentId: text('active_deployment_id'),
+
+    // Metadata
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    appNameIdx: uniqueIndex('app_environments_app_name_idx').on(table.appId, table.name),
+    customDomainIdx: uniqueIndex('app_environments_custom_domain_idx').on(table.customDomain),
+}));
+
+/**
+ * AppDeployments table - History of Cloudflare deployments of an app, one row per version
+ */
+export const appDeployments = sqliteTable('app_deployments', {
+    id: text('id').primaryKey(),
+    appId: text('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    environment: text('environment', { enum: ['preview', 'production'] }).notNull(),
+    version: integer('version').notNull(), // Increments per app and environment
+
+    // Result
+    status: text('status', { enum: ['deploying', 'deployed', 'failed'] }).notNull().default('deploying'),
+    scriptName: text('script_name'),
+    deploymentUrl: text('deployment_url'),
+    archiveKey: text('archive_key'), // DEPLOYMENT_ARCHIVES key of the deployed bundle, used for rollback
+    rollbackOfId: text('rollback_of_id'), // Deployment whose bundle was redeployed
+    cloudflareAccountId: text('cloudflare_account_id').references(() => cloudflareAccounts.id, { onDelete: 'set null' }), // Null for the platform account
+    error: text('error'),
+
+    // Metadata
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+    completedAt: integer('completed_at', { mode: 'timestamp' }),
+}, (table) => ({
+    appEnvironmentIdx: index('app_deployments_app_environment_idx').on(table.appId, table.environment, table.version),
+}));
+
 /**
  * Favorites table - Track user favorite apps
  */
@@ -572,6 +636,36 @@ export const appViews = sqliteTable('app_views', {
     viewedAtIdx: index('app_views_viewed_at_idx').on(table.viewedAt),
 }));
 
+/**
+ * InferenceUsage table - Token usage and estimated cost of every LLM inference
+ * Not tied to apps by foreign key, the blueprint is generated before the app is saved
+ */
+export const inferenceUsage = sqliteTable('inference_usage', {
+    id: text('id').primaryKey(),
+    appId: text('app_id').notNull(), // Code generation instance the inference was made for
+    userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }), // Null for anonymous
+    agentActionName: text('agent_action_name').notNull(), // AgentActionKey, e.g. "phaseImplementation"
+    model: text('model').notNull(), // Model that produced the response, the fallback model when one was used
+
+    // Tokens summed over all attempts, reasoning tokens are included in completion tokens
+    promptTokens: integer('prompt_tokens').notNull().default(0),
+    completionTokens: integer('completion_tokens').notNull().default(0),
+    reasoningTokens: integer('reasoning_tokens').notNull().default(0),
+    estimatedCost: real('estimated_cost').notNull().default(0), // USD
+
+    // Call behaviour
+    latencyMs: integer('latency_ms').notNull(),
+    retries: integer('retries').notNull().default(0),
+    usedFallback: integer('used_fallback', { mode: 'boolean' }).notNull().default(false),
+    success: integer('success', { mode: 'boolean' }).notNull().default(true),
+
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    appIdx: index('inference_usage_app_idx').on(table.appId),
+    userIdx: index('inference_usage_user_idx').on(table.userId),
+    createdAtIdx: index('inference_usage_created_at_idx').on(table.createdAt),
+}));
+
 // ========================================
 // OAUTH AND EXTERNAL INTEGRATIONS
 // ========================================
@@ -746,6 +840,74 @@ export const userSecrets = sqliteTable('user_secrets', {
     activeIdx: index('user_secrets_active_idx').on(table.isActive),
 }));
 
+/**
+ * MCP Servers table - User-registered Model Context Protocol servers
+ * Tools from these servers are exposed to the agent for apps that enable them
+ */
+export const mcpServers = sqliteTable('mcp_servers', {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    
+    // Server identification
+    name: text('name').notNull(), // Tool namespace (e.g., "linear" exposes "linear__create_issue")
+    description: text('description'),
+    
+    // Connection
+    transport: text('transport', { enum: ['sse', 'streamable-http'] }).notNull().default('streamable-http'),
+    url: text('url').notNull(),
+    authHeaderName: text('auth_header_name'), // e.g., "Authorization"
+    authSecretId: text('auth_secret_id').references(() => userSecrets.id, { onDelete: 'set null' }), // Header value stored encrypted
+    
+    // Status
+    isActive: integer('is_active', { mode: 'boolean' }).default(true),
+    
+    // Metadata
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    userIdx: index('mcp_servers_user_idx').on(table.userId),
+    userNameIdx: uniqueIndex('mcp_servers_user_name_idx').on(table.userId, table.name),
+}));
+
+/**
+ * AppMcpServers table - MCP servers enabled for an app
+ */
+export const appMcpServers = sqliteTable('app_mcp_servers', {
+    id: text('id').primaryKey(),
+    appId: text('app_id').notNull().references(() => apps.id, { onDelete: 'cascade' }),
+    serverId: text('server_id').notNull().references(() => mcpServers.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    appServerIdx: uniqueIndex('app_mcp_servers_app_server_idx').on(table.appId, table.serverId),
+    serverIdx: index('app_mcp_servers_server_idx').on(table.serverId),
+}));
+
+/**
+ * UserModelConfigs table - Per-user replacements of the AGENT_CONFIG model config of an agent action
+ * Unset parameters are left to the provider's defaults
+ */
+export const userModelConfigs = sqliteTable('user_model_configs', {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    agentActionName: text('agent_action_name').notNull(), // AgentActionKey, e.g. "phaseImplementation"
+
+    // Model parameters
+    modelName: text('model_name').notNull(),
+    reasoningEffort: text('reasoning_effort', { enum: ['minimal', 'low', 'medium', 'high'] }),
+    maxTokens: integer('max_tokens'),
+    temperature: real('temperature'),
+    fallbackModel: text('fallback_model'),
+
+    // User's own provider key, used instead of the platform key for the model's provider
+    providerSecretId: text('provider_secret_id').references(() => userSecrets.id, { onDelete: 'set null' }),
+
+    // Metadata
+    createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`CURRENT_TIMESTAMP`),
+}, (table) => ({
+    userActionIdx: uniqueIndex('user_model_configs_user_action_idx').on(table.userId, table.agentActionName),
+}));
+
 // ========================================
 // SYSTEM CONFIGURATION
 // ========================================
@@ -791,6 +953,12 @@ export type NewApp = typeof apps.$inferInsert;
 export type CodeGenInstance = typeof codeGenInstances.$inferSelect;
 export type NewCodeGenInstance = typeof codeGenInstances.$inferInsert;
 
+export type AppEnvironment = typeof appEnvironments.$inferSelect;
+export type NewAppEnvironment = typeof appEnvironments.$inferInsert;
+
+export type AppDeployment = typeof appDeployments.$inferSelect;
+export type NewAppDeployment = typeof appDeployments.$inferInsert;
+
 export type Board = typeof boards.$inferSelect;
 export type NewBoard = typeof boards.$inferInsert;
 
@@ -815,6 +983,9 @@ export type NewAppComment = typeof appComments.$inferInsert;
 export type AppView = typeof appViews.$inferSelect;
 export type NewAppView = typeof appViews.$inferInsert;
 
+export type InferenceUsage = typeof inferenceUsage.$inferSelect;
+export type NewInferenceUsage = typeof inferenceUsage.$inferInsert;
+
 export type OAuthState = typeof oauthStates.$inferSelect;
 export type NewOAuthState = typeof oauthStates.$inferInsert;
 
@@ -844,3 +1015,12 @@ export type NewAuditLog = typeof auditLogs.$inferInsert;
 
 export type UserSecret = typeof userSecrets.$inferSelect;
 export type NewUserSecret = typeof userSecrets.$inferInsert;
+
+export type McpServer = typeof mcpServers.$inferSelect;
+export type NewMcpServer = typeof mcpServers.$inferInsert;
+
+export type AppMcpServer = typeof appMcpServers.$inferSelect;
+export type NewAppMcpServer = typeof appMcpServers.$inferInsert;
+
+export type UserModelConfig = typeof userModelConfigs.$inferSelect;
+export type NewUserModelConfig = typeof userModelConfigs.$inferInsert;
@@ -3,12 +3,15 @@ import { setupRouter } from './api/routes/codegenRoutes';
 import { errorResponse } from './api/responses';
 import { SmartCodeGeneratorAgent } from "./agents/core/smartGeneratorAgent";
 import { proxyToSandbox } from '@cloudflare/sandbox';
+import { getCustomDomainScript, isPlatformHostname } from './services/domains/customDomains';
 
 export class CodeGeneratorAgent extends SmartCodeGeneratorAgent {}
 export { UserAppSandboxService, DeployerService } from './services/sandbox/sandboxSdkClient';
+export { RateLimiter } from './services/rate-limit/RateLimiter';
 
 // Logger for the main application
 const logger = createLogger('App');
+
 /**
  * Main Worker fetch handler
  */
@@ -28,10 +31,13 @@ export default {
                 const proxyResponse = await proxyToSandbox(request, env);
                 if (proxyResponse) return proxyResponse;
                 logger.info(`Dispatching request to dispatcher`);
+                // Custom domains bound to an app environment are served by that environment's worker
+                const customDomainScript = isPlatformHostname(env, hostname) ? null : await getCustomDomainScript(env, hostname);
+                const scriptName = customDomainScript ?? subdomain;
                 // Get worker from dispatch namespace
-                const worker = env.DISPATCHER.get(subdomain);
+                const worker = env.DISPATCHER.get(scriptName);
                 if (worker) {
-                    logger.info(`Dispatching request to worker ${subdomain}`);
+                    logger.info(`Dispatching request to worker ${scriptName}`);
                     // Dispatch request to worker
                     const response = await worker.fetch(request);
                     return response;
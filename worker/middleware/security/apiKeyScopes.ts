@@ -0,0 +1,71 @@
+/**
+ * API Key Scopes
+ * Maps the REST routes API keys may call to the scope they require
+ */
+
+import { API_KEY_SCOPES, ApiKeyScope } from '../../types/auth-types';
+
+// Requests per minute allowed for keys created without an explicit limit
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 1000;
+export const API_KEY_RATE_LIMIT_WINDOW_SECONDS = 60;
+
+// Set by the worker on WebSocket upgrades it authenticated with an API key, never trusted from clients
+export const API_KEY_SCOPES_HEADER = 'X-Api-Key-Scopes';
+
+interface ApiKeyRouteRule {
+    methods: string[];
+    pattern: RegExp;
+    scope: ApiKeyScope;
+}
+
+/**
+ * Routes reachable with an API key, first match wins
+ * Account management (auth, secrets, linked accounts, teams) stays session-only
+ */
+const API_KEY_ROUTE_RULES: ApiKeyRouteRule[] = [
+    { methods: ['POST'], pattern: /^\/api\/codegen(\/incremental|\/import)?$/, scope: 'codegen:write' },
+    { methods: ['GET'], pattern: /^\/api\/codegen\/ws\/[^/]+$/, scope: 'codegen:write' },
+    { methods: ['GET'], pattern: /^\/api\/(codegen\/incremental|agent)\/[^/]+$/, scope: 'apps:read' },
+    { methods: ['POST'], pattern: /^\/api\/apps\/[^/]+\/deployments(\/[^/]+\/rollback)?$/, scope: 'deploy' },
+    { methods: ['PUT'], pattern: /^\/api\/apps\/[^/]+\/environments\/[^/]+$/, scope: 'deploy' },
+    { methods: ['GET'], pattern: /^\/api\/(apps|stats)(\/.*)?$/, scope: 'apps:read' },
+];
+
+/**
+ * Scope an API key needs for the request, null when the route cannot be called with an API key
+ */
+export function getRequiredApiKeyScope(request: Request): ApiKeyScope | null {
+    const method = request.method.toUpperCase();
+    const path = new URL(request.url).pathname;
+    const rule = API_KEY_ROUTE_RULES.find(r => r.methods.includes(method) && r.pattern.test(path));
+    return rule?.scope ?? null;
+}
+
+/**
+ * Parse the scopes stored with a key
+ * Keys created before scopes were enforced were stored as ["read", "write"] and keep full access
+ */
+export function parseApiKeyScopes(stored: string): ApiKeyScope[] {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stored);
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(parsed)) {
+        return [];
+    }
+    const values: unknown[] = parsed;
+    if (values.includes('write')) {
+        return [...API_KEY_SCOPES];
+    }
+    return API_KEY_SCOPES.filter(scope => values.includes(scope) || (scope === 'apps:read' && values.includes('read')));
+}
+
+/**
+ * API keys are opaque hex strings, JWT access tokens always contain dot separated segments
+ */
+export function isApiKeyToken(token: string): boolean {
+    return !token.includes('.');
+}
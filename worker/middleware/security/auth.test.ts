@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ApiKey } from '../../database/schema';
+import type { DatabaseService } from '../../database/database';
+import { SecurityError } from '../../types/security';
+
+const db = vi.hoisted(() => ({
+    findActiveApiKeyByHash: vi.fn(),
+    recordApiKeyUsage: vi.fn(),
+    getAppOwnerId: vi.fn(),
+    user: null as { id: string; email: string; displayName: string | null } | null,
+}));
+
+vi.mock('../../database/database', () => ({
+    DatabaseService: class {
+        findActiveApiKeyByHash = db.findActiveApiKeyByHash;
+        recordApiKeyUsage = db.recordApiKeyUsage;
+        getAppOwnerId = db.getAppOwnerId;
+        db = {
+            select: () => ({ from: () => ({ where: () => ({ get: async () => db.user }) }) }),
+        };
+    },
+}));
+
+import { canApiKeyAccessApp, validateApiKey } from './auth';
+
+const env = {} as Env;
+
+function createApiKey(overrides: Partial<ApiKey> = {}): ApiKey {
+    return {
+        id: 'key-1',
+        userId: 'user-1',
+        name: 'CI',
+        keyHash: 'hash',
+        keyPreview: 'abcd...',
+        scopes: JSON.stringify(['codegen:write', 'apps:read']),
+        isActive: true,
+        lastUsed: null,
+        requestCount: 0,
+        rateLimit: null,
+        windowStartedAt: null,
+        windowRequestCount: 0,
+        expiresAt: null,
+        createdAt: null,
+        updatedAt: null,
+        ...overrides,
+    };
+}
+
+function request(method: string, path: string): Request {
+    return new Request(`https://build.example.com${path}`, { method });
+}
+
+describe('validateApiKey', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        db.findActiveApiKeyByHash.mockResolvedValue(createApiKey());
+        db.recordApiKeyUsage.mockResolvedValue({ windowRequestCount: 1, windowStartedAt: new Date() });
+        db.user = { id: 'user-1', email: 'user@example.com', displayName: null };
+    });
+
+    it('should return the owner with the scopes of the key', async () => {
+        const user = await validateApiKey('secret-key', request('POST', '/api/codegen'), env);
+
+        expect(user).toEqual({
+            id: 'user-1',
+            email: 'user@example.com',
+            displayName: undefined,
+            isAnonymous: false,
+            apiKey: { id: 'key-1', scopes: ['apps:read', 'codegen:write'] },
+        });
+        expect(db.findActiveApiKeyByHash).not.toHaveBeenCalledWith('secret-key');
+    });
+
+    it('should reject keys without the scope of the route', async () => {
+        const result = validateApiKey('secret-key', request('POST', '/api/apps/app-1/deployments'), env);
+
+        await expect(result).rejects.toBeInstanceOf(SecurityError);
+        await expect(result).rejects.toMatchObject({ statusCode: 403, message: 'API key is missing the deploy scope' });
+        expect(db.recordApiKeyUsage).not.toHaveBeenCalled();
+    });
+
+    it('should reject routes that cannot be called with an API key', async () => {
+        await expect(validateApiKey('secret-key', request('POST', '/api/secrets'), env)).rejects.toMatchObject({
+            statusCode: 403,
+            message: 'This endpoint cannot be called with an API key',
+        });
+    });
+
+    it('should not authenticate revoked keys', async () => {
+        db.findActiveApiKeyByHash.mockResolvedValue(null);
+
+        expect(await validateApiKey('secret-key', request('POST', '/api/codegen'), env)).toBeNull();
+        expect(db.recordApiKeyUsage).not.toHaveBeenCalled();
+    });
+
+    it('should not authenticate expired keys', async () => {
+        db.findActiveApiKeyByHash.mockResolvedValue(createApiKey({ expiresAt: new Date(Date.now() - 1000) }));
+        expect(await validateApiKey('secret-key', request('POST', '/api/codegen'), env)).toBeNull();
+    });
+
+    it('should reject requests over the rate limit of the key', async () => {
+        db.findActiveApiKeyByHash.mockResolvedValue(createApiKey({ rateLimit: 5 }));
+        db.recordApiKeyUsage.mockResolvedValue({ windowRequestCount: 6, windowStartedAt: new Date() });
+
+        await expect(validateApiKey('secret-key', request('POST', '/api/codegen'), env)).rejects.toMatchObject({ statusCode: 429 });
+    });
+});
+
+describe('canApiKeyAccessApp', () => {
+    const user = { id: 'user-1', email: 'user@example.com', isAnonymous: false };
+    const dbService = db as unknown as DatabaseService;
+
+    it('should let keys reach apps of their owner', async () => {
+        db.getAppOwnerId.mockResolvedValue('user-1');
+        expect(await canApiKeyAccessApp(user, 'app-1', dbService)).toBe(true);
+    });
+
+    it('should deny keys for apps that are not saved yet', async () => {
+        db.getAppOwnerId.mockResolvedValue(null);
+        expect(await canApiKeyAccessApp(user, 'app-1', dbService)).toBe(false);
+    });
+
+    it('should deny keys for apps of other users', async () => {
+        db.getAppOwnerId.mockResolvedValue('user-2');
+        expect(await canApiKeyAccessApp(user, 'app-1', dbService)).toBe(false);
+    });
+});
@@ -1,6 +1,6 @@
 /**
  * Authentication Middleware for Cloudflare Workers
- * Handles JWT validation and session management
+ * Handles JWT validation, API keys and session management
  */
 
 import { AuthUser } from '../../types/auth-types';
@@ -11,6 +11,14 @@ import * as schema from '../../database/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { TokenValidator } from '../../services/auth/tokenValidator';
 import { extractToken, parseCookies } from '../../utils/authUtils';
+import { CryptoUtils } from '../../utils/CryptoUtils';
+import {
+    API_KEY_RATE_LIMIT_WINDOW_SECONDS,
+    DEFAULT_API_KEY_RATE_LIMIT,
+    getRequiredApiKeyScope,
+    isApiKeyToken,
+    parseApiKeyScopes,
+} from './apiKeyScopes';
 
 const logger = createLogger('AuthMiddleware');
 
@@ -74,6 +82,101 @@ export async function validateToken(
     }
 }
 
+/**
+ * Stored record of an active, unexpired API key, null for unknown, revoked and expired keys
+ * Only looks the key up, scopes and usage are checked by validateApiKey
+ */
+export async function findValidApiKey(key: string, dbService: DatabaseService): Promise<schema.ApiKey | null> {
+    const keyHash = CryptoUtils.arrayBufferToBase64(await CryptoUtils.sha256(key));
+    const apiKey = await dbService.findActiveApiKeyByHash(keyHash);
+    if (!apiKey) {
+        logger.debug('Unknown or revoked API key');
+        return null;
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() < Date.now()) {
+        logger.debug('API key expired', { keyId: apiKey.id });
+        return null;
+    }
+    return apiKey;
+}
+
+/**
+ * Validate an API key for the request and return its owner
+ * Throws a SecurityError when the key may not call the route or is over its rate limit
+ */
+export async function validateApiKey(
+    key: string,
+    request: Request,
+    env: Env
+): Promise<AuthUser | null> {
+    const dbService = new DatabaseService({ DB: env.DB });
+    const apiKey = await findValidApiKey(key, dbService);
+    if (!apiKey) {
+        return null;
+    }
+
+    const scopes = parseApiKeyScopes(apiKey.scopes);
+    const requiredScope = getRequiredApiKeyScope(request);
+    if (!requiredScope || !scopes.includes(requiredScope)) {
+        throw new SecurityError(
+            SecurityErrorType.FORBIDDEN,
+            requiredScope
+                ? `API key is missing the ${requiredScope} scope`
+                : 'This endpoint cannot be called with an API key',
+            403
+        );
+    }
+
+    const usage = await dbService.recordApiKeyUsage(apiKey.id, API_KEY_RATE_LIMIT_WINDOW_SECONDS);
+    const limit = apiKey.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT;
+    if (usage.windowRequestCount > limit) {
+        const windowEndsAt = usage.windowStartedAt.getTime() + API_KEY_RATE_LIMIT_WINDOW_SECONDS * 1000;
+        logger.warn('API key rate limit exceeded', { keyId: apiKey.id, limit });
+        throw new SecurityError(
+            SecurityErrorType.RATE_LIMITED,
+            `API key rate limit of ${limit} requests per minute exceeded`,
+            429,
+            Math.max(1, Math.ceil((windowEndsAt - Date.now()) / 1000))
+        );
+    }
+
+    const user = await dbService.db
+        .select({
+            id: schema.users.id,
+            email: schema.users.email,
+            displayName: schema.users.displayName
+        })
+        .from(schema.users)
+        .where(
+            and(
+                eq(schema.users.id, apiKey.userId),
+                sql`${schema.users.deletedAt} IS NULL`
+            )
+        )
+        .get();
+    if (!user) {
+        logger.warn('User not found for API key', { keyId: apiKey.id });
+        return null;
+    }
+
+    return {
+        id: user.id,
+        email: user.email,
+        displayName: user.displayName || undefined,
+        isAnonymous: false,
+        apiKey: { id: apiKey.id, scopes }
+    };
+}
+
+/**
+ * Whether a user authenticated with an API key may reach an app
+ * Apps are saved once their blueprint is ready, unsaved ones have no owner the key could match
+ */
+export async function canApiKeyAccessApp(user: AuthUser, appId: string, dbService: DatabaseService): Promise<boolean> {
+    const ownerId = await dbService.getAppOwnerId(appId);
+    return !!ownerId && ownerId === user.id;
+}
+
 /**
  * Check for anonymous session
  */
@@ -114,6 +217,15 @@ export async function authMiddleware(
         // Extract token
         const token = extractToken(request);
         
+        // API keys never fall back to other credentials, an invalid key fails the request
+        if (token && isApiKeyToken(token)) {
+            const user = await validateApiKey(token, request, env);
+            if (user) {
+                logger.debug('API key authenticated', { userId: user.id, keyId: user.apiKey?.id });
+            }
+            return user;
+        }
+
         if (token) {
             const user = await validateToken(token, env);
             if (user) {
@@ -132,6 +244,10 @@ export async function authMiddleware(
         logger.debug('No authentication found');
         return null;
     } catch (error) {
+        // Scope and rate limit rejections carry their own status for the caller
+        if (error instanceof SecurityError) {
+            throw error;
+        }
         logger.error('Auth middleware error', error);
         return null;
     }
@@ -157,22 +273,90 @@ export async function requireAuth(
     return user;
 }
 
+export type TeamRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+const TEAM_ROLE_RANK: Record<TeamRole, number> = {
+    viewer: 0,
+    member: 1,
+    admin: 2,
+    owner: 3,
+};
+
+/**
+ * Minimum team role required for each team scope
+ */
+const TEAM_SCOPE_ROLES: Record<string, TeamRole> = {
+    'team:read': 'viewer',              // View the team, its members and apps
+    'team:apps:write': 'member',        // Create, edit and fork team apps
+    'team:members:manage': 'admin',     // Invite/remove members and change roles
+    'team:owner': 'owner',              // Transfer ownership, promote owners
+};
+
+/**
+ * Account scopes held by every signed-in user, anonymous users may only generate code
+ */
+const USER_SCOPES = ['codegen:write', 'boards:write', 'teams:write'];
+const ANONYMOUS_SCOPES = ['codegen:write'];
+
+/**
+ * Check if a team role satisfies the required role
+ */
+export function hasTeamRole(role: TeamRole | null | undefined, requiredRole: TeamRole): boolean {
+    return !!role && TEAM_ROLE_RANK[role] >= TEAM_ROLE_RANK[requiredRole];
+}
+
 /**
  * Check if user has required permissions
+ * When a teamId is given, team scopes are checked against the user's role in that team
+ * Scopes that are not recognised are always denied
  */
 export async function checkPermissions(
     user: AuthUser,
     requiredScopes: string[],
-    _env: Env
+    env: Env,
+    teamId?: string
+): Promise<boolean> {
+    if (teamId) {
+        if (user.isAnonymous) {
+            return false;
+        }
+
+        const db = new DatabaseService({ DB: env.DB });
+        const role = await db.getTeamMemberRole(teamId, user.id);
+        if (!role) {
+            logger.debug('User is not a member of team', { userId: user.id, teamId });
+            return false;
+        }
+
+        return requiredScopes.every(scope => {
+            const requiredRole = TEAM_SCOPE_ROLES[scope];
+            return !!requiredRole && hasTeamRole(role, requiredRole);
+        });
+    }
+
+    const grantedScopes = user.isAnonymous ? ANONYMOUS_SCOPES : USER_SCOPES;
+    return requiredScopes.every(scope => grantedScopes.includes(scope));
+}
+
+/**
+ * Check if a user can view an app
+ * Private and team apps are visible to their owner and members of the owning team
+ */
+export async function canViewApp(
+    user: AuthUser | null | undefined,
+    app: { userId: string | null; teamId: string | null; visibility: string },
+    env: Env
 ): Promise<boolean> {
-    // For now, all authenticated users have all scopes
-    // In production, implement proper RBAC
-    if (user.isAnonymous && requiredScopes.includes('codegen:write')) {
-        // Anonymous users can use code generation
+    if (app.visibility !== 'private' && app.visibility !== 'team') {
         return true;
     }
-    
-    return !user.isAnonymous;
+    if (!user) {
+        return false;
+    }
+    if (app.userId === user.id) {
+        return true;
+    }
+    return !!app.teamId && await checkPermissions(user, ['team:read'], env, app.teamId);
 }
 
 // Cookie management functions moved to utils/authUtils.ts
@@ -1,100 +1,164 @@
 /**
  * Rate Limiting Middleware using Durable Objects
- * Prevents brute force attacks and API abuse
+ * Limits each route group through the RateLimiter Durable Object, one instance per group and client key
  */
 
 import { SecurityError, SecurityErrorType } from '../../types/security';
 import { createLogger } from '../../logger';
+import { errorResponse } from '../../api/responses';
+import type { RequestHandler } from '../../api/router';
+import type { RateLimitDecision, RateLimitPolicy } from '../../services/rate-limit/RateLimiter';
+import { TokenValidator } from '../../services/auth/tokenValidator';
+import { extractToken } from '../../utils/authUtils';
+import { DatabaseService } from '../../database/database';
+import { isApiKeyToken } from './apiKeyScopes';
+import { findValidApiKey } from './auth';
 
 const logger = createLogger('RateLimiter');
 
-export interface RateLimitConfig {
-    requests: number;
-    window: number; // milliseconds
-    identifier: (request: Request) => string;
+export type RateLimitGroup = 'auth' | 'codegen' | 'comments' | 'webhooks';
+
+export type RateLimitKeyType = 'apiKey' | 'user' | 'ip';
+
+export interface RateLimitGroupConfig {
+    policy: RateLimitPolicy;
+    keyBy: RateLimitKeyType[]; // Tried in order, the first identifier the request carries keys the limit
 }
 
-export class RateLimiter {
-    private attempts: Map<string, number[]> = new Map();
-    
-    constructor(private config: RateLimitConfig) {}
+export const RATE_LIMIT_GROUPS: Record<RateLimitGroup, RateLimitGroupConfig> = {
+    // Login and registration, per IP to slow down credential stuffing
+    auth: {
+        policy: { algorithm: 'sliding-window', limit: 5, windowSeconds: 15 * 60 },
+        keyBy: ['ip'],
+    },
+    // Starting a generation is expensive: short bursts are fine, sustained use is throttled to one every 30s
+    codegen: {
+        policy: { algorithm: 'token-bucket', capacity: 10, refillPerSecond: 1 / 30 },
+        keyBy: ['apiKey', 'user', 'ip'],
+    },
+    comments: {
+        policy: { algorithm: 'sliding-window', limit: 20, windowSeconds: 60 },
+        keyBy: ['user', 'ip'],
+    },
+    // Runner callbacks arrive in bursts while a sandbox builds
+    webhooks: {
+        policy: { algorithm: 'token-bucket', capacity: 120, refillPerSecond: 2 },
+        keyBy: ['ip'],
+    },
+};
 
-    async checkLimit(request: Request): Promise<boolean> {
-        const identifier = this.config.identifier(request);
-        const now = Date.now();
-        
-        // Get existing attempts
-        const userAttempts = this.attempts.get(identifier) || [];
-        
-        // Clean expired attempts
-        const validAttempts = userAttempts.filter(
-            attempt => now - attempt < this.config.window
-        );
-        
-        // Check if limit exceeded
-        if (validAttempts.length >= this.config.requests) {
-            logger.warn('Rate limit exceeded', { 
-                identifier, 
-                attempts: validAttempts.length,
-                limit: this.config.requests 
-            });
-            return false;
+function getClientIp(request: Request): string {
+    return request.headers.get('CF-Connecting-IP') ||
+        request.headers.get('X-Forwarded-For')?.split(',')[0].trim() ||
+        'unknown';
+}
+
+/**
+ * Identifier the limit of the request is counted against
+ * API keys are keyed by their id once they validate, made up keys fall back to the IP so they can't get a fresh limit each
+ */
+async function resolveRateLimitKey(request: Request, env: Env, keyBy: RateLimitKeyType[]): Promise<string> {
+    const token = extractToken(request);
+    for (const keyType of keyBy) {
+        if (keyType === 'apiKey' && token && isApiKeyToken(token)) {
+            const apiKey = await findValidApiKey(token, new DatabaseService({ DB: env.DB }));
+            if (apiKey) {
+                return `apiKey:${apiKey.id}`;
+            }
+            break;
+        }
+        if (keyType === 'user' && token && !isApiKeyToken(token)) {
+            const payload = await new TokenValidator(env).verifyToken(token).catch(() => null);
+            if (payload?.type === 'access') {
+                return `user:${payload.sub}`;
+            }
+        }
+        if (keyType === 'ip') {
+            break;
         }
-        
-        // Record this attempt
-        validAttempts.push(now);
-        this.attempts.set(identifier, validAttempts);
-        
-        return true;
     }
+    // Anonymous requests, and groups keyed by IP only
+    return `ip:${getClientIp(request)}`;
+}
 
-    async getRemainingAttempts(request: Request): Promise<number> {
-        const identifier = this.config.identifier(request);
-        const now = Date.now();
-        const userAttempts = this.attempts.get(identifier) || [];
-        
-        const validAttempts = userAttempts.filter(
-            attempt => now - attempt < this.config.window
-        );
-        
-        return Math.max(0, this.config.requests - validAttempts.length);
+/**
+ * Count the request against the limit of its route group
+ * Returns null when the limiter is unavailable, requests are let through rather than failing the API
+ */
+export async function checkRateLimit(request: Request, env: Env, group: RateLimitGroup): Promise<RateLimitDecision | null> {
+    const { policy, keyBy } = RATE_LIMIT_GROUPS[group];
+    try {
+        const key = await resolveRateLimitKey(request, env, keyBy);
+        const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`${group}:${key}`));
+        const decision = await limiter.consume(policy);
+        if (!decision.allowed) {
+            logger.warn('Rate limit exceeded', { group, key, limit: decision.limit });
+        }
+        return decision;
+    } catch (error) {
+        logger.error('Rate limiter unavailable', { group, error });
+        return null;
     }
 }
 
-// Predefined rate limit configurations
-export const authRateLimit = new RateLimiter({
-    requests: 5,
-    window: 15 * 60 * 1000, // 15 minutes
-    identifier: (request: Request) => {
-        const ip = request.headers.get('CF-Connecting-IP') || 
-                             request.headers.get('X-Forwarded-For')?.split(',')[0] || 
-                             'unknown';
-        return `auth:${ip}`;
+/**
+ * Standard RateLimit-* headers, with Retry-After on rejected requests
+ * The policy window of a token bucket is the time it takes to refill completely
+ */
+export function setRateLimitHeaders(headers: Headers, group: RateLimitGroup, decision: RateLimitDecision): void {
+    const { policy } = RATE_LIMIT_GROUPS[group];
+    const windowSeconds = policy.algorithm === 'sliding-window'
+        ? policy.windowSeconds
+        : Math.ceil(policy.capacity / policy.refillPerSecond);
+    headers.set('RateLimit-Limit', String(decision.limit));
+    headers.set('RateLimit-Remaining', String(decision.remaining));
+    headers.set('RateLimit-Reset', String(decision.resetSeconds));
+    headers.set('RateLimit-Policy', `${decision.limit};w=${windowSeconds}`);
+    if (decision.retryAfterSeconds) {
+        headers.set('Retry-After', String(decision.retryAfterSeconds));
     }
-});
+}
 
-export const apiRateLimit = new RateLimiter({
-    requests: 100,
-    window: 60 * 1000, // 1 minute
-    identifier: (request: Request) => {
-        const ip = request.headers.get('CF-Connecting-IP') || 
-                             request.headers.get('X-Forwarded-For')?.split(',')[0] || 
-                             'unknown';
-        return `api:${ip}`;
-    }
-});
+/**
+ * Wrap a route handler with the limit of its group
+ * Rejected requests get a 429 without reaching the handler, allowed ones carry the remaining limit in their headers
+ */
+export function withRateLimit(group: RateLimitGroup, handler: RequestHandler): RequestHandler {
+    return async (request, env, ctx, params) => {
+        const decision = await checkRateLimit(request, env, group);
+        if (decision && !decision.allowed) {
+            const response = errorResponse('Rate limit exceeded. Try again later.', 429);
+            setRateLimitHeaders(response.headers, group, decision);
+            return response;
+        }
 
+        const response = await handler(request, env, ctx, params);
+        if (!decision || response.webSocket) {
+            return response;
+        }
+        // Responses passed through from other services have immutable headers
+        const limitedResponse = new Response(response.body, response);
+        setRateLimitHeaders(limitedResponse.headers, group, decision);
+        return limitedResponse;
+    };
+}
+
+/**
+ * Reject the request when it exceeds the limit of its route group, for handlers that cannot be wrapped
+ */
 export async function rateLimitMiddleware(
     request: Request,
-    rateLimiter: RateLimiter
+    env: Env,
+    group: RateLimitGroup
 ): Promise<void> {
-    const allowed = await rateLimiter.checkLimit(request);
-    
-    if (!allowed) {
+    const decision = await checkRateLimit(request, env, group);
+
+    if (decision && !decision.allowed) {
         throw new SecurityError(
             SecurityErrorType.RATE_LIMITED,
             `Rate limit exceeded. Try again later.`,
-            429
+            429,
+            decision.retryAfterSeconds
         );
     }
-}
\ No newline at end of file
+}
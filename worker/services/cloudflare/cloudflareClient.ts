@@ -0,0 +1,168 @@
+/**
+ * Cloudflare REST API client used to check user-provided API tokens before deploying to their accounts,
+ * to take screenshots of deployed previews with Browser Rendering and to add custom domains to the platform zone
+ */
+
+import { createLogger } from '../../logger';
+
+const logger = createLogger('CloudflareClient');
+
+const CLOUDFLARE_API_URL = 'https://api.cloudflare.com/client/v4';
+
+export class CloudflareApiError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'CloudflareApiError';
+    }
+}
+
+interface CloudflareApiResponse<T> {
+    success: boolean;
+    errors: Array<{ code: number; message: string }>;
+    result: T;
+}
+
+/**
+ * Outcome of checking a token against an account
+ * Capabilities list the checks that passed, e.g. "workers_scripts:read"
+ */
+export interface CloudflareTokenValidation {
+    valid: boolean;
+    capabilities: string[];
+    accountName?: string;
+    error?: string;
+}
+
+/**
+ * Cloudflare for SaaS custom hostname, active once the TXT record of its ownership verification was found
+ */
+export interface CustomHostname {
+    id: string;
+    hostname: string;
+    status: string;
+    ownership_verification?: { type: string; name: string; value: string };
+    verification_errors?: string[];
+}
+
+export class CloudflareClient {
+    constructor(private readonly token: string) {}
+
+    private async request<T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+        const response = await fetch(`${CLOUDFLARE_API_URL}${path}`, {
+            method: init.method ?? 'GET',
+            headers: {
+                'Authorization': `Bearer ${this.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        });
+
+        const body = await response.json().catch(() => null) as CloudflareApiResponse<T> | null;
+        if (!response.ok || !body?.success) {
+            const error = body?.errors?.map(e => e.message).join(', ') || response.statusText;
+            logger.warn(`Cloudflare API request failed: ${path}`, { status: response.status, error });
+            throw new CloudflareApiError(`Cloudflare API error (${response.status}): ${error}`, response.status);
+        }
+        return body.result;
+    }
+
+    async verifyToken(): Promise<{ id: string; status: string }> {
+        return this.request('/user/tokens/verify');
+    }
+
+    async getAccount(accountId: string): Promise<{ id: string; name: string }> {
+        return this.request(`/accounts/${accountId}`);
+    }
+
+    async listWorkerScripts(accountId: string): Promise<Array<{ id: string }>> {
+        return this.request(`/accounts/${accountId}/workers/scripts`);
+    }
+
+    async getWorkersSubdomain(accountId: string): Promise<string | null> {
+        const result = await this.request<{ subdomain?: string }>(`/accounts/${accountId}/workers/subdomain`);
+        return result.subdomain || null;
+    }
+
+    /**
+     * Add a hostname to a zone with Cloudflare for SaaS, its certificate is validated over HTTP once traffic reaches the zone
+     */
+    async createCustomHostname(zoneId: string, hostname: string): Promise<CustomHostname> {
+        return this.request(`/zones/${zoneId}/custom_hostnames`, {
+            method: 'POST',
+            body: { hostname, ssl: { method: 'http', type: 'dv' } },
+        });
+    }
+
+    async getCustomHostname(zoneId: string, customHostnameId: string): Promise<CustomHostname> {
+        return this.request(`/zones/${zoneId}/custom_hostnames/${customHostnameId}`);
+    }
+
+    async deleteCustomHostname(zoneId: string, customHostnameId: string): Promise<void> {
+        await this.request(`/zones/${zoneId}/custom_hostnames/${customHostnameId}`, { method: 'DELETE' });
+    }
+
+    /**
+     * Render a page with Browser Rendering and return the PNG screenshot
+     * Waits for the network to go idle so client-rendered apps have painted
+     */
+    async captureScreenshot(accountId: string, url: string, viewport: { width: number; height: number }): Promise<ArrayBuffer> {
+        const path = `/accounts/${accountId}/browser-rendering/screenshot`;
+        const response = await fetch(`${CLOUDFLARE_API_URL}${path}`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.token}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                url,
+                viewport,
+                gotoOptions: { waitUntil: 'networkidle0', timeout: 30000 },
+                screenshotOptions: { fullPage: true, type: 'png' },
+            }),
+        });
+
+        // Failures are reported as a JSON envelope, successful renders as the raw image
+        if (!response.ok || !response.headers.get('Content-Type')?.startsWith('image/')) {
+            const body = await response.json().catch(() => null) as CloudflareApiResponse<unknown> | null;
+            const error = body?.errors?.map(e => e.message).join(', ') || response.statusText;
+            logger.warn(`Cloudflare API request failed: ${path}`, { status: response.status, error });
+            throw new CloudflareApiError(`Cloudflare API error (${response.status}): ${error}`, response.status);
+        }
+        return response.arrayBuffer();
+    }
+
+    /**
+     * Check that the token is active and can manage workers on the account
+     * Write access cannot be probed without side effects, so a token limited to reads only fails at deploy time
+     */
+    async validateDeploymentAccess(accountId: string): Promise<CloudflareTokenValidation> {
+        const capabilities: string[] = [];
+        try {
+            const token = await this.verifyToken();
+            if (token.status !== 'active') {
+                return { valid: false, capabilities, error: `Token is ${token.status}` };
+            }
+            capabilities.push('token:active');
+
+            const account = await this.getAccount(accountId);
+            capabilities.push('account:read');
+
+            await this.listWorkerScripts(accountId);
+            capabilities.push('workers_scripts:read');
+
+            // Workers deployed outside the platform are served from the account's workers.dev subdomain
+            if (!await this.getWorkersSubdomain(accountId)) {
+                return { valid: false, capabilities, accountName: account.name, error: 'The account has no workers.dev subdomain set up' };
+            }
+            capabilities.push('workers_subdomain');
+
+            return { valid: true, capabilities, accountName: account.name };
+        } catch (error) {
+            return {
+                valid: false,
+                capabilities,
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for TS1192 (Module Has No Default Export) fixer
+ */
+
+import { describe, test, expect } from 'vitest';
+import { convertDefaultImport, fixMissingDefaultExport } from './ts1192';
+import { generateCode, parseCode } from '../utils/ast';
+import { findImportDeclarationAtLocation } from '../utils/imports';
+import { FixerContext } from '../types';
+
+function createContext(files: Record<string, string>): FixerContext {
+    return {
+        files: new Map(Object.entries(files).map(([filePath, content]) => [filePath, { filePath, content }])),
+        fetchedFiles: new Set(),
+    };
+}
+
+describe('TS1192 Fixer', () => {
+    describe('convertDefaultImport', () => {
+        test('converts default import to named import', () => {
+            const ast = parseCode(`import Header from './Header';`);
+            convertDefaultImport(ast, findImportDeclarationAtLocation(ast, 1)!, 'Header');
+
+            expect(generateCode(ast).code).toBe(`import { Header } from './Header';`);
+        });
+
+        test('keeps the local name when export name differs in case', () => {
+            const ast = parseCode(`import header from './Header';`);
+            convertDefaultImport(ast, findImportDeclarationAtLocation(ast, 1)!, 'Header');
+
+            expect(generateCode(ast).code).toBe(`import { Header as header } from './Header';`);
+        });
+
+        test('converts default import to namespace import', () => {
+            const ast = parseCode(`import utils from './utils';`);
+            convertDefaultImport(ast, findImportDeclarationAtLocation(ast, 1)!);
+
+            expect(generateCode(ast).code).toBe(`import * as utils from './utils';`);
+        });
+
+        test('splits namespace import from remaining named imports', () => {
+            const ast = parseCode(`import React, { useState } from 'react';`);
+            convertDefaultImport(ast, findImportDeclarationAtLocation(ast, 1)!);
+
+            const code = generateCode(ast).code;
+            expect(code).toContain(`import { useState } from 'react';`);
+            expect(code).toContain(`import * as React from 'react';`);
+        });
+    });
+
+    describe('integration test', () => {
+        test('uses the matching named export of a local module', async () => {
+            const context = createContext({
+                'src/App.tsx': `import Header from './components/Header';\nexport default function App() { return <Header />; }`,
+                'src/components/Header.tsx': `export function Header() { return <header />; }`,
+            });
+
+            const result = await fixMissingDefaultExport(context, [{
+                message: `Module '"./components/Header"' has no default export.`,
+                filePath: 'src/App.tsx',
+                line: 1,
+                severity: 'error',
+                ruleId: 'TS1192',
+            }]);
+
+            expect(result.fixedIssues).toHaveLength(1);
+            expect(result.modifiedFiles[0].file_contents).toContain(`import { Header } from './components/Header';`);
+        });
+
+        test('reports modules that have a default export', async () => {
+            const context = createContext({
+                'src/App.tsx': `import Header from './components/Header';`,
+                'src/components/Header.tsx': `export default function Header() { return null; }`,
+            });
+
+            const result = await fixMissingDefaultExport(context, [{
+                message: `Module '"./components/Header"' has no default export.`,
+                filePath: 'src/App.tsx',
+                line: 1,
+                severity: 'error',
+                ruleId: 'TS1192',
+            }]);
+
+            expect(result.fixedIssues).toHaveLength(0);
+            expect(result.unfixableIssues).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * TS1192: Module has no default export fixer
+ * Handles default imports of modules that only have named exports
+ * Example: "Module '"@/components/Header"' has no default export."
+ */
+
+import * as t from '@babel/types';
+import { CodeIssue } from '../../sandbox/sandboxTypes';
+import { FixerContext, FixResult, FixedIssue, UnfixableIssue, FileObject } from '../types';
+import { generateCode } from '../utils/ast';
+import { findImportDeclarationAtLocation, getFileAST, getFileExports } from '../utils/imports';
+import { isExternalModule } from '../utils/modules';
+import { createObjectLogger } from '../../../logger';
+import {
+    createFixerLogMessages,
+    createMissingImportError,
+    createSourceFileParseError,
+    createTargetFileNotFoundError,
+    createUnfixableIssue,
+    getTargetFileAndAST,
+    groupIssuesByFile,
+    handleFixerError
+} from '../utils/helpers';
+
+const logger = createObjectLogger({ name: 'TS1192Fixer' }, 'TS1192Fixer');
+
+/**
+ * Fix TS1192 "Module has no default export" errors
+ * Local modules get a named import when an export matches the imported name,
+ * everything else falls back to a namespace import
+ */
+export async function fixMissingDefaultExport(
+    context: FixerContext,
+    issues: CodeIssue[]
+): Promise<FixResult> {
+    const logs = createFixerLogMessages('TS1192Fixer', issues.length);
+    logger.info(logs.start);
+
+    const fixedIssues: FixedIssue[] = [];
+    const unfixableIssues: UnfixableIssue[] = [];
+    const modifiedFiles: FileObject[] = [];
+    const newFiles: FileObject[] = [];
+
+    for (const [filePath, fileIssues] of groupIssuesByFile(issues)) {
+        const ast = await getFileAST(
+            filePath,
+            context.files,
+            context.fileFetcher,
+            context.fetchedFiles as Set<string>
+        );
+
+        if (!ast) {
+            logger.error(`Failed to parse source file: ${filePath}`);
+            unfixableIssues.push(...fileIssues.map(createSourceFileParseError));
+            continue;
+        }
+
+        let fileModified = false;
+
+        for (const issue of fileIssues) {
+            logger.info(logs.processing(issue));
+
+            try {
+                const declaration = findImportDeclarationAtLocation(ast, issue.line);
+                const defaultSpecifier = declaration?.specifiers.find(specifier => t.isImportDefaultSpecifier(specifier));
+                if (!declaration || !defaultSpecifier) {
+                    unfixableIssues.push(createMissingImportError(issue));
+                    continue;
+                }
+
+                const moduleSpecifier = declaration.source.value;
+                const localName = defaultSpecifier.local.name;
+                let exportName: string | undefined;
+
+                if (!isExternalModule(moduleSpecifier)) {
+                    const target = await getTargetFileAndAST(moduleSpecifier, issue.filePath, context);
+                    if (!target) {
+                        unfixableIssues.push(createTargetFileNotFoundError(issue, moduleSpecifier));
+                        continue;
+                    }
+
+                    const exports = getFileExports(target.targetAST);
+                    if (exports.defaultExport) {
+                        unfixableIssues.push(createUnfixableIssue(issue, `Module '${moduleSpecifier}' already has a default export`));
+                        continue;
+                    }
+                    exportName = exports.namedExports.find(name => name.toLowerCase() === localName.toLowerCase());
+                }
+
+                convertDefaultImport(ast, declaration, exportName);
+                fileModified = true;
+
+                fixedIssues.push({
+                    issueCode: issue.ruleId || 'TS1192',
+                    filePath: issue.filePath,
+                    line: issue.line,
+                    column: issue.column,
+                    originalMessage: issue.message,
+                    fixApplied: exportName
+                        ? `Changed default import '${localName}' to named import '${exportName}' from '${moduleSpecifier}'`
+                        : `Changed default import '${localName}' to namespace import from '${moduleSpecifier}'`,
+                    fixType: 'import_fix'
+                });
+                logger.info(logs.success(issue));
+            } catch (error) {
+                logger.error(`Error fixing TS1192 issue in ${issue.filePath}:`, error);
+                unfixableIssues.push(handleFixerError(issue, error as Error, 'TS1192Fixer'));
+            }
+        }
+
+        if (fileModified) {
+            modifiedFiles.push({
+                file_path: filePath,
+                file_contents: generateCode(ast).code
+            });
+        }
+    }
+
+    logger.info(logs.completed(fixedIssues.length, unfixableIssues.length, modifiedFiles.length, newFiles.length));
+
+    return {
+        fixedIssues,
+        unfixableIssues,
+        modifiedFiles,
+        newFiles
+    };
+}
+
+/**
+ * Replace the default specifier of an import declaration
+ * With an export name it becomes a named import, otherwise a namespace import
+ * Namespace imports cannot be combined with named imports, so those are split into a separate declaration
+ */
+export function convertDefaultImport(ast: t.File, declaration: t.ImportDeclaration, exportName?: string): void {
+    const defaultSpecifier = declaration.specifiers.find(specifier => t.isImportDefaultSpecifier(specifier));
+    if (!defaultSpecifier) {
+        return;
+    }
+
+    const localName = defaultSpecifier.local.name;
+    const otherSpecifiers = declaration.specifiers.filter(specifier => specifier !== defaultSpecifier);
+
+    if (exportName) {
+        declaration.specifiers = [
+            ...otherSpecifiers,
+            t.importSpecifier(t.identifier(localName), t.identifier(exportName))
+        ];
+        return;
+    }
+
+    const namespaceSpecifier = t.importNamespaceSpecifier(t.identifier(localName));
+    if (otherSpecifiers.length === 0) {
+        declaration.specifiers = [namespaceSpecifier];
+        return;
+    }
+
+    declaration.specifiers = otherSpecifiers;
+    const index = ast.program.body.indexOf(declaration);
+    ast.program.body.splice(index + 1, 0, t.importDeclaration([namespaceSpecifier], t.cloneNode(declaration.source)));
+}
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for TS2300 (Duplicate Identifier) fixer
+ */
+
+import { describe, test, expect } from 'vitest';
+import { parseDuplicateImportFile, parseTS2300ErrorMessage, removeDuplicateImports } from './ts2300';
+import { generateCode } from '../utils/ast';
+
+describe('TS2300 Fixer', () => {
+    describe('parseTS2300ErrorMessage', () => {
+        test('parses standard format', () => {
+            expect(parseTS2300ErrorMessage("Duplicate identifier 'Button'.")).toBe('Button');
+        });
+
+        test('returns null for invalid format', () => {
+            expect(parseTS2300ErrorMessage('Some random error message')).toBeNull();
+        });
+    });
+
+    describe('removeDuplicateImports', () => {
+        test('removes duplicate named import from merged import statements', () => {
+            const ast = parseDuplicateImportFile(`import { Button } from './ui';\nimport { Button, Card } from './ui';`);
+
+            expect(removeDuplicateImports(ast!, 'Button')).toBe('removed');
+            const code = generateCode(ast!).code;
+            expect(code.match(/Button/g)).toHaveLength(1);
+            expect(code).toContain('Card');
+        });
+
+        test('removes duplicate specifier within a single import', () => {
+            const ast = parseDuplicateImportFile(`import { cn, cn } from '@/lib/utils';`);
+
+            expect(removeDuplicateImports(ast!, 'cn')).toBe('removed');
+            expect(generateCode(ast!).code).toBe(`import { cn } from '@/lib/utils';`);
+        });
+
+        test('keeps the value import over a type-only import', () => {
+            const ast = parseDuplicateImportFile(`import type { Store } from './store';\nimport { Store } from './store';`);
+
+            expect(removeDuplicateImports(ast!, 'Store')).toBe('removed');
+            const code = generateCode(ast!).code;
+            expect(code).not.toContain('import type');
+            expect(code).toContain(`import { Store } from './store';`);
+        });
+
+        test('reports conflicts between different modules', () => {
+            const ast = parseDuplicateImportFile(`import { Button } from './ui';\nimport { Button } from './legacy';`);
+
+            expect(removeDuplicateImports(ast!, 'Button')).toBe('conflict');
+        });
+
+        test('reports duplicates that are not imports', () => {
+            const ast = parseDuplicateImportFile(`import { Button } from './ui';\nconst Button = () => null;`);
+
+            expect(removeDuplicateImports(ast!, 'Button')).toBe('not-imported');
+        });
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * TS2300: Duplicate identifier fixer
+ * Handles the same binding being imported more than once, usually after merging imports
+ * Example: "import { Button } from './ui'; import { Button, Card } from './ui';"
+ */
+
+import * as t from '@babel/types';
+import { CodeIssue } from '../../sandbox/sandboxTypes';
+import { FixerContext, FixResult, FixedIssue, UnfixableIssue, FileObject } from '../types';
+import { generateCode, parseCode } from '../utils/ast';
+import { getFileContent, getImportedName, removeImportSpecifiers } from '../utils/imports';
+import { createObjectLogger } from '../../../logger';
+import {
+    createFixerLogMessages,
+    createSourceFileParseError,
+    createUnfixableIssue,
+    groupIssuesByFile,
+    handleFixerError
+} from '../utils/helpers';
+
+const logger = createObjectLogger({ name: 'TS2300Fixer' }, 'TS2300Fixer');
+
+export type DuplicateImportResult = 'removed' | 'conflict' | 'not-imported';
+
+/**
+ * Fix TS2300 "Duplicate identifier" errors caused by redundant imports
+ * TypeScript reports every occurrence, so all issues for one name share a single fix
+ */
+export async function fixDuplicateIdentifier(
+    context: FixerContext,
+    issues: CodeIssue[]
+): Promise<FixResult> {
+    const logs = createFixerLogMessages('TS2300Fixer', issues.length);
+    logger.info(logs.start);
+
+    const fixedIssues: FixedIssue[] = [];
+    const unfixableIssues: UnfixableIssue[] = [];
+    const modifiedFiles: FileObject[] = [];
+    const newFiles: FileObject[] = [];
+
+    for (const [filePath, fileIssues] of groupIssuesByFile(issues)) {
+        const content = await getFileContent(
+            filePath,
+            context.files,
+            context.fileFetcher,
+            context.fetchedFiles as Set<string>
+        );
+
+        // Duplicate bindings are a parse error for Babel unless error recovery is enabled
+        const ast = content ? parseDuplicateImportFile(content) : null;
+        if (!ast) {
+            logger.error(`Failed to parse source file: ${filePath}`);
+            unfixableIssues.push(...fileIssues.map(createSourceFileParseError));
+            continue;
+        }
+
+        const results = new Map<string, DuplicateImportResult>();
+
+        for (const issue of fileIssues) {
+            logger.info(logs.processing(issue));
+
+            try {
+                const duplicateName = parseTS2300ErrorMessage(issue.message);
+                if (!duplicateName) {
+                    unfixableIssues.push(createUnfixableIssue(issue, 'Could not parse error message to extract identifier'));
+                    continue;
+                }
+
+                let result = results.get(duplicateName);
+                if (!result) {
+                    result = removeDuplicateImports(ast, duplicateName);
+                    results.set(duplicateName, result);
+                }
+
+                if (result === 'conflict') {
+                    unfixableIssues.push(createUnfixableIssue(issue, `'${duplicateName}' is imported from different modules or under different names`));
+                    continue;
+                }
+                if (result === 'not-imported') {
+                    unfixableIssues.push(createUnfixableIssue(issue, `Duplicate '${duplicateName}' is not a redundant import`));
+                    continue;
+                }
+
+                fixedIssues.push({
+                    issueCode: issue.ruleId || 'TS2300',
+                    filePath: issue.filePath,
+                    line: issue.line,
+                    column: issue.column,
+                    originalMessage: issue.message,
+                    fixApplied: `Removed duplicate import of '${duplicateName}'`,
+                    fixType: 'import_fix'
+                });
+                logger.info(logs.success(issue));
+            } catch (error) {
+                logger.error(`Error fixing TS2300 issue in ${issue.filePath}:`, error);
+                unfixableIssues.push(handleFixerError(issue, error as Error, 'TS2300Fixer'));
+            }
+        }
+
+        if ([...results.values()].includes('removed')) {
+            modifiedFiles.push({
+                file_path: filePath,
+                file_contents: generateCode(ast).code
+            });
+        }
+    }
+
+    logger.info(logs.completed(fixedIssues.length, unfixableIssues.length, modifiedFiles.length, newFiles.length));
+
+    return {
+        fixedIssues,
+        unfixableIssues,
+        modifiedFiles,
+        newFiles
+    };
+}
+
+/**
+ * Parse TS2300 error message to extract the duplicate identifier
+ *
+ * Example: "Duplicate identifier 'Button'."
+ */
+export function parseTS2300ErrorMessage(errorMessage: string): string | null {
+    const match = errorMessage.match(/^Duplicate identifier '([^']+)'\.?\s*$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Parse a file that may contain duplicate declarations
+ */
+export function parseDuplicateImportFile(content: string): t.File | null {
+    try {
+        return parseCode(content, { errorRecovery: true });
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remove redundant imports of a local name, keeping the first value import
+ * Imports are only redundant when they bind the same export of the same module
+ */
+export function removeDuplicateImports(ast: t.File, localName: string): DuplicateImportResult {
+    const bindings: Array<{ specifier: t.ImportDeclaration['specifiers'][number]; key: string; typeOnly: boolean }> = [];
+
+    for (const statement of ast.program.body) {
+        if (!t.isImportDeclaration(statement)) {
+            continue;
+        }
+        for (const specifier of statement.specifiers) {
+            if (specifier.local.name === localName) {
+                bindings.push({
+                    specifier,
+                    key: `${statement.source.value}:${getImportedName(specifier)}`,
+                    typeOnly: statement.importKind === 'type' || (t.isImportSpecifier(specifier) && specifier.importKind === 'type')
+                });
+            }
+        }
+    }
+
+    if (bindings.length < 2) {
+        return 'not-imported';
+    }
+    if (bindings.some(binding => binding.key !== bindings[0].key)) {
+        return 'conflict';
+    }
+
+    // Keep a value import when the name is also used as a value
+    const kept = bindings.find(binding => !binding.typeOnly) || bindings[0];
+    removeImportSpecifiers(ast, specifier =>
+        specifier !== kept.specifier && bindings.some(binding => binding.specifier === specifier)
+    );
+    return 'removed';
+}
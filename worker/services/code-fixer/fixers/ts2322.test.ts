@@ -0,0 +1,90 @@
+/**
+ * Unit tests for TS2322 (Namespace Import Assignment) fixer
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+    convertNamespaceImport,
+    findNamespaceImportForModule,
+    fixNamespaceImportAssignment,
+    parseTS2322ModulePath
+} from './ts2322';
+import { generateCode, parseCode } from '../utils/ast';
+import { findImportDeclarationAtLocation } from '../utils/imports';
+import { FixerContext } from '../types';
+
+describe('TS2322 Fixer', () => {
+    describe('parseTS2322ModulePath', () => {
+        test('extracts module path from namespace type', () => {
+            const message = `Type 'typeof import("/app/src/components/Header")' is not assignable to type 'ComponentType<{}>'.`;
+
+            expect(parseTS2322ModulePath(message)).toBe('/app/src/components/Header');
+        });
+
+        test('returns null for unrelated type mismatches', () => {
+            const message = "Type 'string' is not assignable to type 'number'.";
+
+            expect(parseTS2322ModulePath(message)).toBeNull();
+        });
+    });
+
+    describe('findNamespaceImportForModule', () => {
+        test('finds namespace import referenced on the error line', () => {
+            const ast = parseCode(`import * as Header from './components/Header';\nconst routes = [{ element: Header }];`);
+
+            const declaration = findNamespaceImportForModule(ast, '/app/src/components/Header', 2);
+            expect(declaration?.source.value).toBe('./components/Header');
+        });
+
+        test('ignores namespace imports of other modules', () => {
+            const ast = parseCode(`import * as Footer from './components/Footer';\nconst routes = [{ element: Footer }];`);
+
+            expect(findNamespaceImportForModule(ast, '/app/src/components/Header', 2)).toBeNull();
+        });
+    });
+
+    describe('convertNamespaceImport', () => {
+        test('converts to default import', () => {
+            const ast = parseCode(`import * as Header from './Header';`);
+            convertNamespaceImport(findImportDeclarationAtLocation(ast, 1)!, 'default');
+
+            expect(generateCode(ast).code).toBe(`import Header from './Header';`);
+        });
+
+        test('converts to named import', () => {
+            const ast = parseCode(`import * as Header from './Header';`);
+            convertNamespaceImport(findImportDeclarationAtLocation(ast, 1)!, 'Header');
+
+            expect(generateCode(ast).code).toBe(`import { Header } from './Header';`);
+        });
+    });
+
+    describe('integration test', () => {
+        test('replaces namespace import with the default export', async () => {
+            const context: FixerContext = {
+                files: new Map([
+                    ['src/routes.tsx', {
+                        filePath: 'src/routes.tsx',
+                        content: `import type { FC } from 'react';\nimport * as Home from './pages/Home';\nexport const page: FC = Home;`,
+                    }],
+                    ['src/pages/Home.tsx', {
+                        filePath: 'src/pages/Home.tsx',
+                        content: `export default function Home() { return null; }`,
+                    }],
+                ]),
+                fetchedFiles: new Set(),
+            };
+
+            const result = await fixNamespaceImportAssignment(context, [{
+                message: `Type 'typeof import("/app/src/pages/Home")' is not assignable to type 'FC<{}>'.`,
+                filePath: 'src/routes.tsx',
+                line: 3,
+                severity: 'error',
+                ruleId: 'TS2322',
+            }]);
+
+            expect(result.fixedIssues).toHaveLength(1);
+            expect(result.modifiedFiles[0].file_contents).toContain(`import Home from './pages/Home';`);
+        });
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * TS2322: Type is not assignable fixer (import-related cases only)
+ * Handles namespace imports used where the module's default or named export was meant
+ * Example: "Type 'typeof import("/app/src/components/Header")' is not assignable to type 'ComponentType<{}>'."
+ */
+
+import * as t from '@babel/types';
+import { CodeIssue } from '../../sandbox/sandboxTypes';
+import { FixerContext, FixResult, FixedIssue, UnfixableIssue, FileObject } from '../types';
+import { generateCode, traverseAST } from '../utils/ast';
+import { getFileAST, getFileExports } from '../utils/imports';
+import { isExternalModule } from '../utils/modules';
+import { createObjectLogger } from '../../../logger';
+import {
+    createExternalModuleError,
+    createFixerLogMessages,
+    createSourceFileParseError,
+    createTargetFileNotFoundError,
+    createUnfixableIssue,
+    getTargetFileAndAST,
+    groupIssuesByFile,
+    handleFixerError
+} from '../utils/helpers';
+
+const logger = createObjectLogger({ name: 'TS2322Fixer' }, 'TS2322Fixer');
+
+/**
+ * Fix TS2322 errors where a module namespace object is assigned instead of an export
+ * Other type mismatches are not deterministic and are left to the LLM
+ */
+export async function fixNamespaceImportAssignment(
+    context: FixerContext,
+    issues: CodeIssue[]
+): Promise<FixResult> {
+    const logs = createFixerLogMessages('TS2322Fixer', issues.length);
+    logger.info(logs.start);
+
+    const fixedIssues: FixedIssue[] = [];
+    const unfixableIssues: UnfixableIssue[] = [];
+    const modifiedFiles: FileObject[] = [];
+    const newFiles: FileObject[] = [];
+
+    for (const [filePath, fileIssues] of groupIssuesByFile(issues)) {
+        const ast = await getFileAST(
+            filePath,
+            context.files,
+            context.fileFetcher,
+            context.fetchedFiles as Set<string>
+        );
+
+        if (!ast) {
+            logger.error(`Failed to parse source file: ${filePath}`);
+            unfixableIssues.push(...fileIssues.map(createSourceFileParseError));
+            continue;
+        }
+
+        let fileModified = false;
+
+        for (const issue of fileIssues) {
+            logger.info(logs.processing(issue));
+
+            try {
+                const modulePath = parseTS2322ModulePath(issue.message);
+                if (!modulePath) {
+                    unfixableIssues.push(createUnfixableIssue(issue, 'Type mismatch is not caused by a module import'));
+                    continue;
+                }
+
+                const declaration = findNamespaceImportForModule(ast, modulePath, issue.line);
+                if (!declaration) {
+                    unfixableIssues.push(createUnfixableIssue(issue, `No namespace import of '${modulePath}' used at the error location`));
+                    continue;
+                }
+
+                const moduleSpecifier = declaration.source.value;
+                const localName = declaration.specifiers[0].local.name;
+                if (isExternalModule(moduleSpecifier)) {
+                    unfixableIssues.push(createExternalModuleError(issue, moduleSpecifier));
+                    continue;
+                }
+
+                const target = await getTargetFileAndAST(moduleSpecifier, issue.filePath, context);
+                if (!target) {
+                    unfixableIssues.push(createTargetFileNotFoundError(issue, moduleSpecifier));
+                    continue;
+                }
+
+                const exports = getFileExports(target.targetAST);
+                const exportName = exports.defaultExport
+                    ? 'default'
+                    : exports.namedExports.find(name => name.toLowerCase() === localName.toLowerCase());
+                if (!exportName) {
+                    unfixableIssues.push(createUnfixableIssue(issue, `Module '${moduleSpecifier}' has no default export or export named '${localName}'`));
+                    continue;
+                }
+
+                convertNamespaceImport(declaration, exportName);
+                fileModified = true;
+
+                fixedIssues.push({
+                    issueCode: issue.ruleId || 'TS2322',
+                    filePath: issue.filePath,
+                    line: issue.line,
+                    column: issue.column,
+                    originalMessage: issue.message,
+                    fixApplied: exportName === 'default'
+                        ? `Changed namespace import '${localName}' to default import from '${moduleSpecifier}'`
+                        : `Changed namespace import '${localName}' to named import '${exportName}' from '${moduleSpecifier}'`,
+                    fixType: 'import_fix'
+                });
+                logger.info(logs.success(issue));
+            } catch (error) {
+                logger.error(`Error fixing TS2322 issue in ${issue.filePath}:`, error);
+                unfixableIssues.push(handleFixerError(issue, error as Error, 'TS2322Fixer'));
+            }
+        }
+
+        if (fileModified) {
+            modifiedFiles.push({
+                file_path: filePath,
+                file_contents: generateCode(ast).code
+            });
+        }
+    }
+
+    logger.info(logs.completed(fixedIssues.length, unfixableIssues.length, modifiedFiles.length, newFiles.length));
+
+    return {
+        fixedIssues,
+        unfixableIssues,
+        modifiedFiles,
+        newFiles
+    };
+}
+
+/**
+ * Extract the module path from a TS2322 message about a module namespace type
+ *
+ * Example: "Type 'typeof import("/app/src/components/Header")' is not assignable to type 'FC<{}>'."
+ */
+export function parseTS2322ModulePath(errorMessage: string): string | null {
+    const match = errorMessage.match(/^Type 'typeof import\("([^"]+)"\)' is not assignable to type/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Strip directories and script extensions so import specifiers can be matched against resolved module paths
+ */
+function getModuleBaseName(modulePath: string): string {
+    const fileName = modulePath.split('/').pop() || modulePath;
+    const baseName = fileName.replace(/\.(ts|tsx|js|jsx)$/, '');
+    // "./Header/index" and "./Header" both resolve to the same module name
+    return baseName === 'index' ? modulePath.split('/').slice(-2, -1)[0] || baseName : baseName;
+}
+
+/**
+ * Find the namespace import of a module that is referenced on the error line
+ */
+export function findNamespaceImportForModule(ast: t.File, modulePath: string, line: number): t.ImportDeclaration | null {
+    const moduleName = getModuleBaseName(modulePath);
+    const candidates = ast.program.body.filter((statement): statement is t.ImportDeclaration =>
+        t.isImportDeclaration(statement)
+        && statement.specifiers.length === 1
+        && t.isImportNamespaceSpecifier(statement.specifiers[0])
+        && getModuleBaseName(statement.source.value) === moduleName
+    );
+
+    const referencedOnLine = new Set<string>();
+    traverseAST(ast, {
+        Identifier(path) {
+            if (path.node.loc?.start.line === line) {
+                referencedOnLine.add(path.node.name);
+            }
+        },
+        JSXIdentifier(path) {
+            if (path.node.loc?.start.line === line) {
+                referencedOnLine.add(path.node.name);
+            }
+        }
+    });
+
+    const matches = candidates.filter(candidate => referencedOnLine.has(candidate.specifiers[0].local.name));
+    return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Convert a namespace import to a default import or a named import of the given export
+ */
+export function convertNamespaceImport(declaration: t.ImportDeclaration, exportName: string): void {
+    const local = t.identifier(declaration.specifiers[0].local.name);
+    declaration.specifiers = [
+        exportName === 'default'
+            ? t.importDefaultSpecifier(local)
+            : t.importSpecifier(local, t.identifier(exportName))
+    ];
+}
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for TS2339 (Missing Namespace Member) fixer
+ */
+
+import { describe, test, expect } from 'vitest';
+import { findNamespaceMemberAccess, fixMissingNamespaceMember, parseTS2339ErrorMessage } from './ts2339';
+import { parseCode } from '../utils/ast';
+import { findClosestName } from '../utils/helpers';
+import { FixerContext } from '../types';
+
+describe('TS2339 Fixer', () => {
+    describe('parseTS2339ErrorMessage', () => {
+        test('parses module namespace types', () => {
+            const message = `Property 'formatdate' does not exist on type 'typeof import("/app/src/lib/utils")'.`;
+
+            expect(parseTS2339ErrorMessage(message)).toEqual({
+                property: 'formatdate',
+                typeName: 'typeof import("/app/src/lib/utils")'
+            });
+        });
+
+        test('returns null for invalid format', () => {
+            expect(parseTS2339ErrorMessage('Some random error message')).toBeNull();
+        });
+    });
+
+    describe('findNamespaceMemberAccess', () => {
+        test('finds member access on a namespace import', () => {
+            const ast = parseCode(`import * as utils from './utils';\nutils.formatdate(new Date());`);
+
+            expect(findNamespaceMemberAccess(ast, 2, 7, 'formatdate')).toEqual({
+                namespace: 'utils',
+                moduleSpecifier: './utils'
+            });
+        });
+
+        test('ignores member access on other bindings', () => {
+            const ast = parseCode(`import utils from './utils';\nutils.formatdate(new Date());`);
+
+            expect(findNamespaceMemberAccess(ast, 2, 7, 'formatdate')).toBeNull();
+        });
+
+        test('ignores shadowed namespace names', () => {
+            const ast = parseCode(`import * as utils from './utils';\nfunction run(utils) {\n    utils.formatdate();\n}`);
+
+            expect(findNamespaceMemberAccess(ast, 3, undefined, 'formatdate')).toBeNull();
+        });
+    });
+
+    describe('findClosestName', () => {
+        test('prefers case-insensitive matches', () => {
+            expect(findClosestName('formatdate', ['formatDate', 'formatData'])).toBe('formatDate');
+        });
+
+        test('finds close misspellings', () => {
+            expect(findClosestName('fetchTodo', ['fetchTodos', 'createTodo'])).toBe('fetchTodos');
+        });
+
+        test('rejects distant or ambiguous candidates', () => {
+            expect(findClosestName('foo', ['somethingElse'])).toBeNull();
+            expect(findClosestName('getItem', ['getItems', 'getIteM2', 'setItem'])).toBeNull();
+        });
+    });
+
+    describe('integration test', () => {
+        test('renames misspelled member to the closest export', async () => {
+            const context: FixerContext = {
+                files: new Map([
+                    ['src/App.tsx', {
+                        filePath: 'src/App.tsx',
+                        content: `import * as api from './lib/api';\nexport const load = () => api.fetchTodo();`,
+                    }],
+                    ['src/lib/api.ts', {
+                        filePath: 'src/lib/api.ts',
+                        content: `export async function fetchTodos() { return []; }\nexport async function createTodo() {}`,
+                    }],
+                ]),
+                fetchedFiles: new Set(),
+            };
+
+            const result = await fixMissingNamespaceMember(context, [{
+                message: `Property 'fetchTodo' does not exist on type 'typeof import("/app/src/lib/api")'.`,
+                filePath: 'src/App.tsx',
+                line: 2,
+                severity: 'error',
+                ruleId: 'TS2339',
+            }]);
+
+            expect(result.fixedIssues).toHaveLength(1);
+            expect(result.modifiedFiles[0].file_contents).toContain('api.fetchTodos()');
+        });
+    });
+});
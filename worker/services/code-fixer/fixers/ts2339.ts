@@ -0,0 +1,185 @@
+/**
+ * TS2339: Property does not exist fixer
+ * Handles misspelled members of namespace imports from local modules
+ * Example: "Property 'formatdate' does not exist on type 'typeof import("/app/src/lib/utils")'."
+ */
+
+import * as t from '@babel/types';
+import { CodeIssue } from '../../sandbox/sandboxTypes';
+import { FixerContext, FixResult, FixedIssue, UnfixableIssue, FileObject } from '../types';
+import { generateCode, isAtLocation, renamePropertyAccess, traverseAST } from '../utils/ast';
+import { getFileAST, getFileExports } from '../utils/imports';
+import { isExternalModule } from '../utils/modules';
+import { createObjectLogger } from '../../../logger';
+import {
+    createExternalModuleError,
+    createFixerLogMessages,
+    createSourceFileParseError,
+    createTargetFileNotFoundError,
+    createUnfixableIssue,
+    findClosestName,
+    getTargetFileAndAST,
+    groupIssuesByFile,
+    handleFixerError
+} from '../utils/helpers';
+
+const logger = createObjectLogger({ name: 'TS2339Fixer' }, 'TS2339Fixer');
+
+/**
+ * Fix TS2339 "Property does not exist" errors on namespace imports
+ * Renames the accessed member to the closest export of the imported module
+ * Property errors on other types are not deterministic and are left to the LLM
+ */
+export async function fixMissingNamespaceMember(
+    context: FixerContext,
+    issues: CodeIssue[]
+): Promise<FixResult> {
+    const logs = createFixerLogMessages('TS2339Fixer', issues.length);
+    logger.info(logs.start);
+
+    const fixedIssues: FixedIssue[] = [];
+    const unfixableIssues: UnfixableIssue[] = [];
+    const modifiedFiles: FileObject[] = [];
+    const newFiles: FileObject[] = [];
+
+    for (const [filePath, fileIssues] of groupIssuesByFile(issues)) {
+        const ast = await getFileAST(
+            filePath,
+            context.files,
+            context.fileFetcher,
+            context.fetchedFiles as Set<string>
+        );
+
+        if (!ast) {
+            logger.error(`Failed to parse source file: ${filePath}`);
+            unfixableIssues.push(...fileIssues.map(createSourceFileParseError));
+            continue;
+        }
+
+        let fileModified = false;
+
+        for (const issue of fileIssues) {
+            logger.info(logs.processing(issue));
+
+            try {
+                const property = parseTS2339ErrorMessage(issue.message)?.property;
+                if (!property) {
+                    unfixableIssues.push(createUnfixableIssue(issue, 'Could not parse error message to extract property name'));
+                    continue;
+                }
+
+                const access = findNamespaceMemberAccess(ast, issue.line, issue.column, property);
+                if (!access) {
+                    unfixableIssues.push(createUnfixableIssue(issue, `Property '${property}' is not accessed on a namespace import`));
+                    continue;
+                }
+
+                const { moduleSpecifier } = access;
+                if (isExternalModule(moduleSpecifier)) {
+                    unfixableIssues.push(createExternalModuleError(issue, moduleSpecifier));
+                    continue;
+                }
+
+                const target = await getTargetFileAndAST(moduleSpecifier, issue.filePath, context);
+                if (!target) {
+                    unfixableIssues.push(createTargetFileNotFoundError(issue, moduleSpecifier));
+                    continue;
+                }
+
+                const exportName = findClosestName(property, getFileExports(target.targetAST).namedExports);
+                if (!exportName) {
+                    unfixableIssues.push(createUnfixableIssue(issue, `No export of '${moduleSpecifier}' is close to '${property}'`));
+                    continue;
+                }
+
+                renamePropertyAccess(ast, issue.line, issue.column, property, exportName);
+                fileModified = true;
+
+                fixedIssues.push({
+                    issueCode: issue.ruleId || 'TS2339',
+                    filePath: issue.filePath,
+                    line: issue.line,
+                    column: issue.column,
+                    originalMessage: issue.message,
+                    fixApplied: `Renamed '${access.namespace}.${property}' to '${access.namespace}.${exportName}' exported by '${moduleSpecifier}'`,
+                    fixType: 'import_fix'
+                });
+                logger.info(logs.success(issue));
+            } catch (error) {
+                logger.error(`Error fixing TS2339 issue in ${issue.filePath}:`, error);
+                unfixableIssues.push(handleFixerError(issue, error as Error, 'TS2339Fixer'));
+            }
+        }
+
+        if (fileModified) {
+            modifiedFiles.push({
+                file_path: filePath,
+                file_contents: generateCode(ast).code
+            });
+        }
+    }
+
+    logger.info(logs.completed(fixedIssues.length, unfixableIssues.length, modifiedFiles.length, newFiles.length));
+
+    return {
+        fixedIssues,
+        unfixableIssues,
+        modifiedFiles,
+        newFiles
+    };
+}
+
+/**
+ * Parse TS2339 error message to extract the property and type
+ *
+ * Examples:
+ * - "Property 'formatdate' does not exist on type 'typeof import("/app/src/lib/utils")'."
+ * - "Property 'foo' does not exist on type '{ bar: string; }'."
+ */
+export function parseTS2339ErrorMessage(errorMessage: string): {
+    property: string;
+    typeName: string;
+} | null {
+    const match = errorMessage.match(/^Property '([^']+)' does not exist on type '(.+)'\.?\s*$/i);
+    if (!match) {
+        return null;
+    }
+
+    return {
+        property: match[1],
+        typeName: match[2]
+    };
+}
+
+/**
+ * Find a member access on a namespace import binding at the error location
+ * Example: "import * as utils from './utils'; utils.formatdate()"
+ */
+export function findNamespaceMemberAccess(
+    ast: t.File,
+    line: number,
+    column: number | undefined,
+    property: string
+): { namespace: string; moduleSpecifier: string } | null {
+    let access: { namespace: string; moduleSpecifier: string } | null = null;
+
+    traverseAST(ast, {
+        MemberExpression(path) {
+            const { object, property: accessed, computed } = path.node;
+            if (access || computed || !t.isIdentifier(object)
+                || !t.isIdentifier(accessed, { name: property }) || !isAtLocation(accessed, line, column)) {
+                return;
+            }
+
+            const bindingPath = path.scope.getBinding(object.name)?.path;
+            if (bindingPath?.isImportNamespaceSpecifier() && t.isImportDeclaration(bindingPath.parent)) {
+                access = {
+                    namespace: object.name,
+                    moduleSpecifier: bindingPath.parent.source.value
+                };
+            }
+        }
+    });
+
+    return access;
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for TS2551 (Misspelled Property) fixer
+ */
+
+import { describe, test, expect } from 'vitest';
+import { fixMisspelledProperty, parseTS2551ErrorMessage } from './ts2551';
+import { generateCode, parseCode, renamePropertyAccess } from '../utils/ast';
+import { FixerContext } from '../types';
+
+describe('TS2551 Fixer', () => {
+    describe('parseTS2551ErrorMessage', () => {
+        test('parses standard format', () => {
+            const message = "Property 'lenght' does not exist on type 'string[]'. Did you mean 'length'?";
+
+            expect(parseTS2551ErrorMessage(message)).toEqual({
+                property: 'lenght',
+                typeName: 'string[]',
+                suggestedProperty: 'length'
+            });
+        });
+
+        test('parses module namespace types', () => {
+            const message = `Property 'formatdate' does not exist on type 'typeof import("/app/src/lib/utils")'. Did you mean 'formatDate'?`;
+
+            expect(parseTS2551ErrorMessage(message)).toEqual({
+                property: 'formatdate',
+                typeName: 'typeof import("/app/src/lib/utils")',
+                suggestedProperty: 'formatDate'
+            });
+        });
+
+        test('returns null without a suggestion', () => {
+            const message = "Property 'foo' does not exist on type 'Bar'.";
+            expect(parseTS2551ErrorMessage(message)).toBeNull();
+        });
+    });
+
+    describe('renamePropertyAccess', () => {
+        test('renames member access at the given column', () => {
+            const ast = parseCode(`const total = items.lenght + other.lenght;`);
+
+            expect(renamePropertyAccess(ast, 1, 21, 'lenght', 'length')).toBe(1);
+            expect(generateCode(ast).code).toBe(`const total = items.length + other.lenght;`);
+        });
+
+        test('renames all accesses on the line without a column', () => {
+            const ast = parseCode(`const total = items.lenght + other.lenght;`);
+
+            expect(renamePropertyAccess(ast, 1, undefined, 'lenght', 'length')).toBe(2);
+        });
+
+        test('renames optional member access', () => {
+            const ast = parseCode(`const name = user?.nmae;`);
+
+            expect(renamePropertyAccess(ast, 1, undefined, 'nmae', 'name')).toBe(1);
+            expect(generateCode(ast).code).toBe(`const name = user?.name;`);
+        });
+
+        test('keeps the local binding of destructured properties', () => {
+            const ast = parseCode(`const { lenght } = items;`);
+
+            expect(renamePropertyAccess(ast, 1, undefined, 'lenght', 'length')).toBe(1);
+            expect(generateCode(ast).code).toBe(`const { length: lenght } = items;`);
+        });
+
+        test('ignores computed access', () => {
+            const ast = parseCode(`const value = items[lenght];`);
+
+            expect(renamePropertyAccess(ast, 1, undefined, 'lenght', 'length')).toBe(0);
+        });
+    });
+
+    describe('integration test', () => {
+        test('applies TypeScript suggestion at the error location', async () => {
+            const filePath = 'src/hooks/useTodos.ts';
+            const context: FixerContext = {
+                files: new Map([[filePath, {
+                    filePath,
+                    content: `export function count(todos: string[]) {\n    return todos.lenght;\n}`,
+                }]]),
+                fetchedFiles: new Set(),
+            };
+
+            const result = await fixMisspelledProperty(context, [{
+                message: "Property 'lenght' does not exist on type 'string[]'. Did you mean 'length'?",
+                filePath,
+                line: 2,
+                column: 18,
+                severity: 'error',
+                ruleId: 'TS2551',
+            }]);
+
+            expect(result.fixedIssues).toHaveLength(1);
+            expect(result.modifiedFiles[0].file_contents).toContain('return todos.length;');
+        });
+    });
+});
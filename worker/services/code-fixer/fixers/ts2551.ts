@@ -0,0 +1,127 @@
+/**
+ * TS2551: Property does not exist, did you mean fixer
+ * Handles misspelled property names where TypeScript suggests a close candidate
+ * Example: "Property 'lenght' does not exist on type 'string[]'. Did you mean 'length'?"
+ */
+
+import { CodeIssue } from '../../sandbox/sandboxTypes';
+import { FixerContext, FixResult, FixedIssue, UnfixableIssue, FileObject } from '../types';
+import { generateCode, renamePropertyAccess } from '../utils/ast';
+import { getFileAST } from '../utils/imports';
+import { createObjectLogger } from '../../../logger';
+import {
+    createFixerLogMessages,
+    createSourceFileParseError,
+    createUnfixableIssue,
+    groupIssuesByFile,
+    handleFixerError
+} from '../utils/helpers';
+
+const logger = createObjectLogger({ name: 'TS2551Fixer' }, 'TS2551Fixer');
+
+/**
+ * Fix TS2551 "Property does not exist. Did you mean" errors
+ * Renames the property access at the error location to TypeScript's suggestion
+ */
+export async function fixMisspelledProperty(
+    context: FixerContext,
+    issues: CodeIssue[]
+): Promise<FixResult> {
+    const logs = createFixerLogMessages('TS2551Fixer', issues.length);
+    logger.info(logs.start);
+
+    const fixedIssues: FixedIssue[] = [];
+    const unfixableIssues: UnfixableIssue[] = [];
+    const modifiedFiles: FileObject[] = [];
+    const newFiles: FileObject[] = [];
+
+    for (const [filePath, fileIssues] of groupIssuesByFile(issues)) {
+        const ast = await getFileAST(
+            filePath,
+            context.files,
+            context.fileFetcher,
+            context.fetchedFiles as Set<string>
+        );
+
+        if (!ast) {
+            logger.error(`Failed to parse source file: ${filePath}`);
+            unfixableIssues.push(...fileIssues.map(createSourceFileParseError));
+            continue;
+        }
+
+        let fileModified = false;
+
+        for (const issue of fileIssues) {
+            logger.info(logs.processing(issue));
+
+            try {
+                const parseResult = parseTS2551ErrorMessage(issue.message);
+                if (!parseResult) {
+                    unfixableIssues.push(createUnfixableIssue(issue, 'Could not parse error message to extract property names'));
+                    continue;
+                }
+
+                const { property, suggestedProperty } = parseResult;
+                if (renamePropertyAccess(ast, issue.line, issue.column, property, suggestedProperty) === 0) {
+                    unfixableIssues.push(createUnfixableIssue(issue, `No access to property '${property}' found at the error location`));
+                    continue;
+                }
+
+                fileModified = true;
+                fixedIssues.push({
+                    issueCode: issue.ruleId || 'TS2551',
+                    filePath: issue.filePath,
+                    line: issue.line,
+                    column: issue.column,
+                    originalMessage: issue.message,
+                    fixApplied: `Renamed property '${property}' to '${suggestedProperty}'`,
+                    fixType: 'usage_fix'
+                });
+                logger.info(logs.success(issue));
+            } catch (error) {
+                logger.error(`Error fixing TS2551 issue in ${issue.filePath}:`, error);
+                unfixableIssues.push(handleFixerError(issue, error as Error, 'TS2551Fixer'));
+            }
+        }
+
+        if (fileModified) {
+            modifiedFiles.push({
+                file_path: filePath,
+                file_contents: generateCode(ast).code
+            });
+        }
+    }
+
+    logger.info(logs.completed(fixedIssues.length, unfixableIssues.length, modifiedFiles.length, newFiles.length));
+
+    return {
+        fixedIssues,
+        unfixableIssues,
+        modifiedFiles,
+        newFiles
+    };
+}
+
+/**
+ * Parse TS2551 error message to extract the property, type and suggested property
+ *
+ * Examples:
+ * - "Property 'lenght' does not exist on type 'string[]'. Did you mean 'length'?"
+ * - "Property 'formatdate' does not exist on type 'typeof import("/app/src/lib/utils")'. Did you mean 'formatDate'?"
+ */
+export function parseTS2551ErrorMessage(errorMessage: string): {
+    property: string;
+    typeName: string;
+    suggestedProperty: string;
+} | null {
+    const match = errorMessage.match(/^Property '([^']+)' does not exist on type '(.+)'\.\s+Did you mean '([^']+)'\??\s*$/i);
+    if (!match) {
+        return null;
+    }
+
+    return {
+        property: match[1],
+        typeName: match[2],
+        suggestedProperty: match[3]
+    };
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for TS6133 (Unused Import) fixer
+ */
+
+import { describe, test, expect } from 'vitest';
+import { fixUnusedImport, parseTS6133ErrorMessage, removeUnusedImport } from './ts6133';
+import { generateCode, parseCode } from '../utils/ast';
+import { FixerContext } from '../types';
+
+describe('TS6133 Fixer', () => {
+    describe('parseTS6133ErrorMessage', () => {
+        test('parses value never read format', () => {
+            const message = "'useState' is declared but its value is never read.";
+            expect(parseTS6133ErrorMessage(message)).toBe('useState');
+        });
+
+        test('parses never used format', () => {
+            const message = "'Props' is declared but never used.";
+            expect(parseTS6133ErrorMessage(message)).toBe('Props');
+        });
+
+        test('returns null for invalid format', () => {
+            expect(parseTS6133ErrorMessage('Some random error message')).toBeNull();
+        });
+    });
+
+    describe('removeUnusedImport', () => {
+        test('removes a single named import among others', () => {
+            const ast = parseCode(`import { useState, useEffect } from 'react';`);
+
+            expect(removeUnusedImport(ast, 'useState', 1)).toBe(true);
+            expect(generateCode(ast).code).toBe(`import { useEffect } from 'react';`);
+        });
+
+        test('removes the declaration when no specifiers remain', () => {
+            const ast = parseCode(`import React from 'react';\nimport { Button } from '@/components/ui/button';`);
+
+            expect(removeUnusedImport(ast, 'React', 1)).toBe(true);
+            expect(generateCode(ast).code).not.toContain('react');
+            expect(generateCode(ast).code).toContain('Button');
+        });
+
+        test('removes aliased imports by local name', () => {
+            const ast = parseCode(`import { toast as showToast, Toaster } from 'sonner';`);
+
+            expect(removeUnusedImport(ast, 'showToast', 1)).toBe(true);
+            expect(generateCode(ast).code).toBe(`import { Toaster } from 'sonner';`);
+        });
+
+        test('ignores names that are not imported on the error line', () => {
+            const ast = parseCode(`import { useState } from 'react';\nconst unused = 1;`);
+
+            expect(removeUnusedImport(ast, 'unused', 2)).toBe(false);
+            expect(removeUnusedImport(ast, 'useState', 2)).toBe(false);
+        });
+
+        test('keeps side-effect imports', () => {
+            const ast = parseCode(`import './index.css';\nimport { cn } from '@/lib/utils';`);
+
+            expect(removeUnusedImport(ast, 'cn', 2)).toBe(true);
+            expect(generateCode(ast).code).toContain(`import './index.css';`);
+        });
+    });
+
+    describe('integration test', () => {
+        test('removes all unused imports of a file in one pass', async () => {
+            const filePath = 'src/App.tsx';
+            const context: FixerContext = {
+                files: new Map([[filePath, {
+                    filePath,
+                    content: `import { useState, useEffect, useMemo } from 'react';\nexport const value = useMemo(() => 1, []);`,
+                }]]),
+                fetchedFiles: new Set(),
+            };
+
+            const result = await fixUnusedImport(context, [
+                { message: "'useState' is declared but its value is never read.", filePath, line: 1, severity: 'error', ruleId: 'TS6133' },
+                { message: "'useEffect' is declared but its value is never read.", filePath, line: 1, severity: 'error', ruleId: 'TS6133' },
+                { message: "'value' is declared but its value is never read.", filePath, line: 2, severity: 'error', ruleId: 'TS6133' },
+            ]);
+
+            expect(result.fixedIssues).toHaveLength(2);
+            expect(result.unfixableIssues).toHaveLength(1);
+            expect(result.modifiedFiles).toHaveLength(1);
+            expect(result.modifiedFiles[0].file_contents).toContain(`import { useMemo } from 'react';`);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * TS6133: Declared but never read fixer
+ * Removes unused imports that block builds with noUnusedLocals
+ * Example: "'useState' is declared but its value is never read."
+ */
+
+import * as t from '@babel/types';
+import { CodeIssue } from '../../sandbox/sandboxTypes';
+import { FixerContext, FixResult, FixedIssue, UnfixableIssue, FileObject } from '../types';
+import { generateCode } from '../utils/ast';
+import { findImportDeclarationAtLocation, getFileAST, removeImportSpecifiers } from '../utils/imports';
+import { createObjectLogger } from '../../../logger';
+import {
+    createFixerLogMessages,
+    createSourceFileParseError,
+    createUnfixableIssue,
+    groupIssuesByFile,
+    handleFixerError
+} from '../utils/helpers';
+
+const logger = createObjectLogger({ name: 'TS6133Fixer' }, 'TS6133Fixer');
+
+/**
+ * Fix TS6133 "declared but its value is never read" errors
+ * Only unused imports are removed, unused locals and parameters are left to the LLM
+ */
+export async function fixUnusedImport(
+    context: FixerContext,
+    issues: CodeIssue[]
+): Promise<FixResult> {
+    const logs = createFixerLogMessages('TS6133Fixer', issues.length);
+    logger.info(logs.start);
+
+    const fixedIssues: FixedIssue[] = [];
+    const unfixableIssues: UnfixableIssue[] = [];
+    const modifiedFiles: FileObject[] = [];
+    const newFiles: FileObject[] = [];
+
+    // All unused imports of a file are removed from the same AST
+    for (const [filePath, fileIssues] of groupIssuesByFile(issues)) {
+        const ast = await getFileAST(
+            filePath,
+            context.files,
+            context.fileFetcher,
+            context.fetchedFiles as Set<string>
+        );
+
+        if (!ast) {
+            logger.error(`Failed to parse source file: ${filePath}`);
+            unfixableIssues.push(...fileIssues.map(createSourceFileParseError));
+            continue;
+        }
+
+        let fileModified = false;
+
+        for (const issue of fileIssues) {
+            logger.info(logs.processing(issue));
+
+            try {
+                const unusedName = parseTS6133ErrorMessage(issue.message);
+                if (!unusedName) {
+                    unfixableIssues.push(createUnfixableIssue(issue, 'Could not parse error message to extract unused name'));
+                    continue;
+                }
+
+                if (!removeUnusedImport(ast, unusedName, issue.line)) {
+                    unfixableIssues.push(createUnfixableIssue(issue, `'${unusedName}' is not an import binding`));
+                    continue;
+                }
+
+                fileModified = true;
+                fixedIssues.push({
+                    issueCode: issue.ruleId || 'TS6133',
+                    filePath: issue.filePath,
+                    line: issue.line,
+                    column: issue.column,
+                    originalMessage: issue.message,
+                    fixApplied: `Removed unused import '${unusedName}'`,
+                    fixType: 'import_fix'
+                });
+                logger.info(logs.success(issue));
+            } catch (error) {
+                logger.error(`Error fixing TS6133 issue in ${issue.filePath}:`, error);
+                unfixableIssues.push(handleFixerError(issue, error as Error, 'TS6133Fixer'));
+            }
+        }
+
+        if (fileModified) {
+            modifiedFiles.push({
+                file_path: filePath,
+                file_contents: generateCode(ast).code
+            });
+        }
+    }
+
+    logger.info(logs.completed(fixedIssues.length, unfixableIssues.length, modifiedFiles.length, newFiles.length));
+
+    return {
+        fixedIssues,
+        unfixableIssues,
+        modifiedFiles,
+        newFiles
+    };
+}
+
+/**
+ * Parse TS6133 error message to extract the unused name
+ *
+ * Examples:
+ * - "'useState' is declared but its value is never read."
+ * - "'Props' is declared but never used."
+ */
+export function parseTS6133ErrorMessage(errorMessage: string): string | null {
+    const match = errorMessage.match(/^'([^']+)' is declared but (?:its value is )?never (?:read|used)\.?\s*$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Remove the import binding with the given local name
+ * The import declaration must span the error line so that shadowing locals are never touched
+ */
+export function removeUnusedImport(ast: t.File, localName: string, line: number): boolean {
+    const declaration = findImportDeclarationAtLocation(ast, line);
+    if (!declaration) {
+        return false;
+    }
+
+    const removed = removeImportSpecifiers(ast, (specifier, specifierDeclaration) =>
+        specifierDeclaration === declaration && specifier.local.name === localName
+    );
+    return removed > 0;
+}
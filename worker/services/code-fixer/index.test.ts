@@ -0,0 +1,55 @@
+/**
+ * Unit tests for dry-run code fix proposals
+ */
+
+import { describe, test, expect } from 'vitest';
+import { proposeProjectFixes } from './index';
+import { applyUnifiedDiff } from '../../agents/diff-formats';
+import { CodeIssue } from '../sandbox/sandboxTypes';
+
+const source = `const items = [1, 2];
+const count = items.lenght;
+const last = items.lenght - 1;
+`;
+
+function createIssue(line: number, column: number): CodeIssue {
+    return {
+        message: "Property 'lenght' does not exist on type 'number[]'. Did you mean 'length'?",
+        filePath: 'src/App.tsx',
+        line,
+        column,
+        ruleId: 'TS2551',
+        severity: 'error',
+        source: 'typescript'
+    };
+}
+
+describe('proposeProjectFixes', () => {
+    test('proposes one reviewable diff per issue without applying it', async () => {
+        const files = [{ file_path: 'src/App.tsx', file_contents: source }];
+        const proposal = await proposeProjectFixes(files, [createIssue(2, 21), createIssue(3, 20)]);
+
+        expect(proposal.proposedFixes).toHaveLength(2);
+        expect(files[0].file_contents).toBe(source);
+
+        const [first, second] = proposal.proposedFixes;
+        expect(first.id).toBe('TS2551:src/App.tsx:2:21');
+        expect(first.fixer).toBe('TS2551Fixer');
+        expect(first.confidence).toBe('high');
+        expect(first.diffs).toHaveLength(1);
+        expect(first.diffs[0].isNewFile).toBe(false);
+
+        // Each diff only touches its own issue, so both apply on their own
+        expect(applyUnifiedDiff(source, first.diffs[0].diff)).toContain('const count = items.length;');
+        expect(applyUnifiedDiff(source, first.diffs[0].diff)).toContain('const last = items.lenght - 1;');
+        expect(applyUnifiedDiff(source, second.diffs[0].diff)).toContain('const last = items.length - 1;');
+    });
+
+    test('reports issues without a fixer as unfixable', async () => {
+        const files = [{ file_path: 'src/App.tsx', file_contents: source }];
+        const proposal = await proposeProjectFixes(files, [{ ...createIssue(2, 21), ruleId: 'TS9999' }]);
+
+        expect(proposal.proposedFixes).toHaveLength(0);
+        expect(proposal.unfixableIssues).toHaveLength(1);
+    });
+});
@@ -12,10 +12,14 @@ import {
     FileMap, 
     ProjectFile,
     FixerRegistry,
-    FixResult
+    FixResult,
+    CodeFixProposal,
+    ProposedFix,
+    UnfixableIssue
 } from './types';
 import { isScriptFile } from './utils/ast';
 import { canModifyFile } from './utils/modules';
+import { createUnifiedDiff } from '../../agents/diff-formats';
 
 // Import all fixers
 import { fixModuleNotFound } from './fixers/ts2307';
@@ -24,6 +28,12 @@ import { fixUndefinedName } from './fixers/ts2304';
 import { fixMissingExportedMember } from './fixers/ts2305';
 import { fixImportExportTypeMismatch } from './fixers/ts2614';
 import { fixIncorrectNamedImport } from './fixers/ts2724';
+import { fixMissingNamespaceMember } from './fixers/ts2339';
+import { fixMisspelledProperty } from './fixers/ts2551';
+import { fixNamespaceImportAssignment } from './fixers/ts2322';
+import { fixUnusedImport } from './fixers/ts6133';
+import { fixMissingDefaultExport } from './fixers/ts1192';
+import { fixDuplicateIdentifier } from './fixers/ts2300';
 
 // ============================================================================
 // MAIN ENTRY POINT
@@ -89,6 +99,97 @@ export async function fixProjectIssues(
     }
 }
 
+/**
+ * Compute fixes without applying them (dry-run / explain mode)
+ * Every fixable issue is fixed in isolation against the original files, so each
+ * proposed fix carries its own unified diffs and can be accepted or rejected independently
+ * 
+ * @param allFiles - Initial files to work with
+ * @param issues - TypeScript compilation issues to fix
+ * @param fileFetcher - Optional callback to fetch additional files on-demand
+ * @returns Promise containing one proposed fix per fixable issue
+ */
+export async function proposeProjectFixes(
+    allFiles: FileObject[],
+    issues: CodeIssue[],
+    fileFetcher?: FileFetcher
+): Promise<CodeFixProposal> {
+    const fileMap = createFileMap(allFiles);
+    const fetchedFiles = new Set<string>();
+    const fixerRegistry = createFixerRegistry();
+    
+    const { fixableIssues, unfixableIssues } = separateIssues(issues, fixerRegistry);
+    const proposedFixes: ProposedFix[] = [];
+    const fixerUnfixableIssues: UnfixableIssue[] = [];
+    
+    for (const issue of fixableIssues) {
+        const fixer = fixerRegistry.get(issue.ruleId!)!;
+        
+        // Each issue gets its own copy of the file map so fixes never see each other's edits
+        const context: FixerContext = {
+            files: new Map(fileMap),
+            fileFetcher,
+            fetchedFiles
+        };
+        
+        try {
+            const result = await fixer.fix(context, [issue]);
+            fixerUnfixableIssues.push(...result.unfixableIssues);
+            
+            const fixedIssue = result.fixedIssues[0];
+            if (fixedIssue) {
+                const diffs = [...result.modifiedFiles, ...result.newFiles]
+                    .filter(file => canModifyFile(file.file_path))
+                    .map(file => {
+                        const original = fileMap.get(file.file_path) ?? context.files.get(file.file_path);
+                        return {
+                            filePath: file.file_path,
+                            isNewFile: !original,
+                            diff: createUnifiedDiff(file.file_path, original?.content ?? '', file.file_contents)
+                        };
+                    })
+                    .filter(fileDiff => fileDiff.diff);
+                
+                if (diffs.length > 0) {
+                    proposedFixes.push({
+                        id: `${fixedIssue.issueCode}:${fixedIssue.filePath}:${fixedIssue.line}:${fixedIssue.column ?? 0}`,
+                        issue: fixedIssue,
+                        fixer: fixer.name,
+                        confidence: fixer.confidence,
+                        diffs
+                    });
+                }
+            }
+            
+            // Keep files fetched during this run for the next issues
+            for (const [filePath, file] of context.files) {
+                if (!fileMap.has(filePath)) {
+                    fileMap.set(filePath, file);
+                }
+            }
+        } catch (error) {
+            fixerUnfixableIssues.push({
+                issueCode: issue.ruleId || 'UNKNOWN',
+                filePath: issue.filePath,
+                line: issue.line,
+                column: issue.column,
+                originalMessage: issue.message,
+                reason: `Fixer ${fixer.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            });
+        }
+    }
+    
+    return {
+        proposedFixes,
+        unfixableIssues: mergeFixResults([{
+            fixedIssues: [],
+            unfixableIssues: fixerUnfixableIssues,
+            modifiedFiles: [],
+            newFiles: []
+        }], unfixableIssues).unfixableIssues
+    };
+}
+
 // ============================================================================
 // FILE MAP CREATION
 // ============================================================================
@@ -121,15 +222,21 @@ function createFileMap(files: FileObject[]): FileMap {
  * Create registry of all available fixers
  */
 function createFixerRegistry(): FixerRegistry {
-    const registry = new Map();
-    
-    // Register fixers with their detection functions
-    registry.set('TS2307', fixModuleNotFound);
-    registry.set('TS2613', fixModuleIsNotModule);
-    registry.set('TS2304', fixUndefinedName);
-    registry.set('TS2305', fixMissingExportedMember);
-    registry.set('TS2614', fixImportExportTypeMismatch);
-    registry.set('TS2724', fixIncorrectNamedImport);
+    const registry: FixerRegistry = new Map([
+        // Register fixers with their confidence levels
+        ['TS2307', { name: 'TS2307Fixer', confidence: 'medium', fix: fixModuleNotFound }],
+        ['TS2613', { name: 'TS2613Fixer', confidence: 'medium', fix: fixModuleIsNotModule }],
+        ['TS2304', { name: 'TS2304Fixer', confidence: 'low', fix: fixUndefinedName }],
+        ['TS2305', { name: 'TS2305Fixer', confidence: 'low', fix: fixMissingExportedMember }],
+        ['TS2614', { name: 'TS2614Fixer', confidence: 'medium', fix: fixImportExportTypeMismatch }],
+        ['TS2724', { name: 'TS2724Fixer', confidence: 'high', fix: fixIncorrectNamedImport }],
+        ['TS2339', { name: 'TS2339Fixer', confidence: 'medium', fix: fixMissingNamespaceMember }],
+        ['TS2551', { name: 'TS2551Fixer', confidence: 'high', fix: fixMisspelledProperty }],
+        ['TS2322', { name: 'TS2322Fixer', confidence: 'medium', fix: fixNamespaceImportAssignment }],
+        ['TS6133', { name: 'TS6133Fixer', confidence: 'high', fix: fixUnusedImport }],
+        ['TS1192', { name: 'TS1192Fixer', confidence: 'medium', fix: fixMissingDefaultExport }],
+        ['TS2300', { name: 'TS2300Fixer', confidence: 'high', fix: fixDuplicateIdentifier }],
+    ]);
     
     return registry;
 }
@@ -202,8 +309,17 @@ async function applyFixes(
         }
         
         try {
-            const result = await fixer(context, issues);
+            const result = await fixer.fix(context, issues);
             results.push(result);
+            
+            // Later fixers build on this fixer's output instead of overwriting it
+            for (const file of [...result.modifiedFiles, ...result.newFiles]) {
+                context.files.set(file.file_path, {
+                    filePath: file.file_path,
+                    content: file.file_contents,
+                    ast: undefined
+                });
+            }
         } catch (error) {
             // Handle fixer errors
             results.push({
@@ -293,6 +409,10 @@ function mergeFixResults(results: FixResult[], preSeparatedUnfixableIssues: Code
 // Re-export types for easy importing
 export type {
     CodeFixResult,
+    CodeFixProposal,
+    ProposedFix,
+    FixFileDiff,
+    FixConfidence,
     FixedIssue,
     UnfixableIssue,
     FileFetcher,
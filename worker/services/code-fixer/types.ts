@@ -32,7 +32,7 @@ export interface FixedIssue {
     /** Description of the fix that was applied */
     fixApplied: string;
     /** Type of fix that was applied */
-    fixType: 'import_fix' | 'export_fix' | 'stub_creation' | 'declaration_fix';
+    fixType: 'import_fix' | 'export_fix' | 'stub_creation' | 'declaration_fix' | 'usage_fix';
 }
 
 /**
@@ -175,9 +175,64 @@ export type FixerFunction = (
 ) => Promise<FixResult>;
 
 /**
- * Registry of fixer functions by issue code
+ * How likely a fixer's output is to be the intended fix
+ * high: follows a TypeScript suggestion or removes dead code
+ * medium: inferred from the project's exports
+ * low: placeholder declarations or stubs that need follow-up
  */
-export type FixerRegistry = ReadonlyMap<string, FixerFunction>;
+export type FixConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * A registered fixer with the metadata reported alongside its fixes
+ */
+export interface FixerDefinition {
+    /** Fixer name reported with proposed fixes (e.g., 'TS2724Fixer') */
+    name: string;
+    confidence: FixConfidence;
+    fix: FixerFunction;
+}
+
+/**
+ * Registry of fixers by issue code
+ */
+export type FixerRegistry = ReadonlyMap<string, FixerDefinition>;
+
+// ============================================================================
+// DRY-RUN TYPES
+// ============================================================================
+
+/**
+ * Unified diff of one file touched by a proposed fix
+ */
+export interface FixFileDiff {
+    filePath: string;
+    /** True when the fix creates the file (e.g., a stub module) */
+    isNewFile: boolean;
+    diff: string;
+}
+
+/**
+ * A fix computed in dry-run mode, not yet applied to any file
+ */
+export interface ProposedFix {
+    /** Stable identifier used to accept or reject the fix */
+    id: string;
+    /** The issue the fix addresses, including an explanation of the change */
+    issue: FixedIssue;
+    fixer: string;
+    confidence: FixConfidence;
+    diffs: FixFileDiff[];
+}
+
+/**
+ * Result of running the deterministic code fixer in dry-run mode
+ */
+export interface CodeFixProposal {
+    /** One entry per fixable issue, each computed against the original files */
+    proposedFixes: ProposedFix[];
+    /** Issues that could not be fixed automatically */
+    unfixableIssues: UnfixableIssue[];
+}
 
 // ============================================================================
 // UTILITY TYPES
@@ -191,6 +246,8 @@ export interface ParseOptions {
     allowImportExportEverywhere?: boolean;
     allowReturnOutsideFunction?: boolean;
     ranges?: boolean;
+    /** Keep parsing past recoverable errors such as duplicate declarations */
+    errorRecovery?: boolean;
     plugins?: string[];
 }
 
@@ -189,6 +189,64 @@ export function createFileAST(statements: t.Statement[]): t.File {
     );
 }
 
+// ============================================================================
+// AST EDITING
+// ============================================================================
+
+/**
+ * Check whether a node starts at a TypeScript diagnostic location
+ * TypeScript columns are 1-based while Babel columns are 0-based
+ */
+export function isAtLocation(node: t.Node, line: number, column?: number): boolean {
+    const start = node.loc?.start;
+    if (!start || start.line !== line) {
+        return false;
+    }
+    return column === undefined || start.column + 1 === column;
+}
+
+/**
+ * Rename non-computed property accesses and destructured keys at a location
+ * Destructured bindings keep their local name ({ old } becomes { new: old })
+ * Returns the number of renamed occurrences
+ */
+export function renamePropertyAccess(
+    ast: t.File,
+    line: number,
+    column: number | undefined,
+    oldName: string,
+    newName: string
+): number {
+    let renamed = 0;
+
+    const renameMember = (node: t.MemberExpression | t.OptionalMemberExpression) => {
+        if (!node.computed && t.isIdentifier(node.property, { name: oldName }) && isAtLocation(node.property, line, column)) {
+            node.property = t.identifier(newName);
+            renamed++;
+        }
+    };
+
+    traverseAST(ast, {
+        MemberExpression(path) {
+            renameMember(path.node);
+        },
+        OptionalMemberExpression(path) {
+            renameMember(path.node);
+        },
+        ObjectProperty(path) {
+            const node = path.node;
+            if (t.isObjectPattern(path.parent) && !node.computed
+                && t.isIdentifier(node.key, { name: oldName }) && isAtLocation(node.key, line, column)) {
+                node.key = t.identifier(newName);
+                node.shorthand = false;
+                renamed++;
+            }
+        }
+    });
+
+    return renamed;
+}
+
 // ============================================================================
 // AST VALIDATION
 // ============================================================================
@@ -132,6 +132,70 @@ export async function getSourceAndTargetFiles(
     };
 }
 
+/**
+ * Group issues by the file they were reported in
+ * Used by fixers that apply several edits to the same file AST
+ */
+export function groupIssuesByFile(issues: CodeIssue[]): Map<string, CodeIssue[]> {
+    const issuesByFile = new Map<string, CodeIssue[]>();
+    for (const issue of issues) {
+        const fileIssues = issuesByFile.get(issue.filePath) || [];
+        fileIssues.push(issue);
+        issuesByFile.set(issue.filePath, fileIssues);
+    }
+    return issuesByFile;
+}
+
+// ============================================================================
+// NAME MATCHING HELPERS
+// ============================================================================
+
+/**
+ * Levenshtein edit distance between two names
+ */
+export function getEditDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Find the closest candidate for a misspelled name
+ * Case-insensitive matches win, otherwise the candidate must be unambiguously
+ * closest and within a third of the name length (mirrors TypeScript's spelling suggestions)
+ */
+export function findClosestName(name: string, candidates: string[]): string | null {
+    const caseInsensitiveMatch = candidates.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+    if (caseInsensitiveMatch) {
+        return caseInsensitiveMatch;
+    }
+
+    const maxDistance = Math.max(1, Math.floor(name.length / 3));
+    let closest: string | null = null;
+    let closestDistance = Infinity;
+    let ambiguous = false;
+
+    for (const candidate of candidates) {
+        const distance = getEditDistance(name, candidate);
+        if (distance < closestDistance) {
+            closest = candidate;
+            closestDistance = distance;
+            ambiguous = false;
+        } else if (distance === closestDistance) {
+            ambiguous = true;
+        }
+    }
+
+    return closest && closestDistance <= maxDistance && !ambiguous ? closest : null;
+}
+
 // ============================================================================
 // ERROR HANDLING HELPERS
 // ============================================================================
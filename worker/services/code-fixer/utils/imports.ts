@@ -67,6 +67,32 @@ export function findImportAtLocation(ast: t.File, line: number): ImportInfo | nu
     return foundImport;
 }
 
+/**
+ * Find the import declaration node spanning a specific line number
+ */
+export function findImportDeclarationAtLocation(ast: t.File, line: number): t.ImportDeclaration | null {
+    for (const statement of ast.program.body) {
+        if (t.isImportDeclaration(statement) && statement.loc
+            && statement.loc.start.line <= line && statement.loc.end.line >= line) {
+            return statement;
+        }
+    }
+    return null;
+}
+
+/**
+ * Get the name a specifier imports from its module ('default' and '*' for default and namespace imports)
+ */
+export function getImportedName(specifier: t.ImportDeclaration['specifiers'][number]): string {
+    if (t.isImportDefaultSpecifier(specifier)) {
+        return 'default';
+    }
+    if (t.isImportNamespaceSpecifier(specifier)) {
+        return '*';
+    }
+    return t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+}
+
 /**
  * Get all imports from a file AST
  */
@@ -349,6 +375,35 @@ export async function getFileAST(
     }
 }
 
+// ============================================================================
+// IMPORT SPECIFIER EDITING
+// ============================================================================
+
+/**
+ * Remove import specifiers matching the predicate
+ * Declarations left without specifiers are removed, side-effect imports are kept
+ * Returns the number of removed specifiers
+ */
+export function removeImportSpecifiers(
+    ast: t.File,
+    predicate: (specifier: t.ImportDeclaration['specifiers'][number], declaration: t.ImportDeclaration) => boolean
+): number {
+    let removed = 0;
+
+    ast.program.body = ast.program.body.filter(statement => {
+        if (!t.isImportDeclaration(statement) || statement.specifiers.length === 0) {
+            return true;
+        }
+
+        const remaining = statement.specifiers.filter(specifier => !predicate(specifier, statement));
+        removed += statement.specifiers.length - remaining.length;
+        statement.specifiers = remaining;
+        return remaining.length > 0;
+    });
+
+    return removed;
+}
+
 // ============================================================================
 // IMPORT PATH UPDATING
 // ============================================================================
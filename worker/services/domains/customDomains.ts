@@ -0,0 +1,132 @@
+/**
+ * Custom domains of app environments: provisioning them as Cloudflare for SaaS custom hostnames of the platform zone,
+ * verifying their ownership and resolving them to the environment workers they are bound to
+ */
+
+import { createLogger } from '../../logger';
+import { DatabaseService } from '../../database/database';
+import type { AppEnvironment } from '../../database/schema';
+import { CloudflareClient } from '../cloudflare/cloudflareClient';
+
+const logger = createLogger('CustomDomains');
+
+// Bindings change rarely, so lookups are cached per colo and a change takes effect within this time
+const CUSTOM_DOMAIN_CACHE_TTL_SECONDS = 300;
+const CUSTOM_DOMAIN_CACHE_NAME = 'custom-domains';
+const CUSTOM_DOMAIN_CACHE_URL = 'https://custom-domains.internal/';
+
+/**
+ * Whether the hostname is the platform domain or one of the app subdomains under it
+ */
+export function isPlatformHostname(env: Env, hostname: string): boolean {
+    const platformDomain = env.PLATFORM_DOMAIN?.toLowerCase();
+    if (!platformDomain) {
+        return false;
+    }
+    const host = hostname.toLowerCase();
+    return host === platformDomain || host.endsWith(`.${platformDomain}`);
+}
+
+/**
+ * TXT record the owner of a custom domain publishes to prove they control it
+ */
+export interface CustomDomainVerification {
+    name: string;
+    value: string;
+}
+
+/**
+ * Zone custom domains are added to, null when the platform does not offer custom domains
+ */
+export function getCustomHostnamesZoneId(env: Env): string | null {
+    return env.CUSTOM_HOSTNAMES_ZONE_ID || null;
+}
+
+/**
+ * Add a custom domain to the platform zone, it is only routed once the returned TXT record is published and verified
+ */
+export async function provisionCustomDomain(env: Env, zoneId: string, hostname: string): Promise<{ customHostnameId: string; verification: CustomDomainVerification }> {
+    const customHostname = await new CloudflareClient(env.CLOUDFLARE_API_TOKEN).createCustomHostname(zoneId, hostname);
+    if (!customHostname.ownership_verification) {
+        throw new Error(`No ownership verification was issued for ${hostname}`);
+    }
+    const { name, value } = customHostname.ownership_verification;
+    return { customHostnameId: customHostname.id, verification: { name, value } };
+}
+
+/**
+ * Whether Cloudflare found the ownership TXT record of a custom domain, with the reasons when it did not
+ */
+export async function checkCustomDomainVerification(env: Env, zoneId: string, customHostnameId: string): Promise<{ verified: boolean; errors: string[] }> {
+    const customHostname = await new CloudflareClient(env.CLOUDFLARE_API_TOKEN).getCustomHostname(zoneId, customHostnameId);
+    return {
+        verified: customHostname.status === 'active',
+        errors: customHostname.verification_errors ?? [],
+    };
+}
+
+/**
+ * Remove a custom domain from the platform zone, failures are logged since the binding itself is already gone
+ */
+export async function releaseCustomDomain(env: Env, zoneId: string, customHostnameId: string): Promise<void> {
+    try {
+        await new CloudflareClient(env.CLOUDFLARE_API_TOKEN).deleteCustomHostname(zoneId, customHostnameId);
+    } catch (error) {
+        logger.warn(`Failed to remove custom hostname ${customHostnameId}`, error);
+    }
+}
+
+/**
+ * Only verified domains are routed, and only to deployments in the platform's dispatch namespace
+ * Environments deployed to the owner's own Cloudflare account are not in it
+ */
+async function getRoutableScript(dbService: DatabaseService, appEnvironment: AppEnvironment): Promise<string | null> {
+    if (!appEnvironment.customDomainVerifiedAt || !appEnvironment.scriptName || !appEnvironment.activeDeploymentId) {
+        return null;
+    }
+    const deployment = await dbService.getAppDeployment(appEnvironment.activeDeploymentId);
+    return deployment && !deployment.cloudflareAccountId ? appEnvironment.scriptName : null;
+}
+
+function getCacheKey(hostname: string): Request {
+    return new Request(`${CUSTOM_DOMAIN_CACHE_URL}${encodeURIComponent(hostname.toLowerCase())}`);
+}
+
+/**
+ * Script name of the app environment a custom domain is bound to, in the dispatch namespace
+ * Unbound domains are cached too, so requests to unknown hosts don't reach the database every time
+ */
+export async function getCustomDomainScript(env: Env, hostname: string): Promise<string | null> {
+    const cacheKey = getCacheKey(hostname);
+    try {
+        const cache = await caches.open(CUSTOM_DOMAIN_CACHE_NAME);
+        const cached = await cache.match(cacheKey);
+        if (cached) {
+            const { scriptName } = await cached.json<{ scriptName: string | null }>();
+            return scriptName;
+        }
+
+        const dbService = new DatabaseService({ DB: env.DB });
+        const appEnvironment = await dbService.getAppEnvironmentByDomain(hostname.toLowerCase());
+        const scriptName = appEnvironment ? await getRoutableScript(dbService, appEnvironment) : null;
+        await cache.put(cacheKey, Response.json({ scriptName }, {
+            headers: { 'Cache-Control': `max-age=${CUSTOM_DOMAIN_CACHE_TTL_SECONDS}` }
+        }));
+        return scriptName;
+    } catch (error) {
+        logger.error(`Failed to resolve custom domain ${hostname}`, error);
+        return null;
+    }
+}
+
+/**
+ * Drop the cached binding of a custom domain after it changed, in the colo handling the change
+ */
+export async function invalidateCustomDomain(hostname: string): Promise<void> {
+    try {
+        const cache = await caches.open(CUSTOM_DOMAIN_CACHE_NAME);
+        await cache.delete(getCacheKey(hostname));
+    } catch (error) {
+        logger.warn(`Failed to invalidate cached custom domain ${hostname}`, error);
+    }
+}
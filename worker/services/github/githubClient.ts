@@ -0,0 +1,244 @@
+/**
+ * GitHub REST API client used to import repositories and pull remote changes into agent sessions
+ */
+
+import { createLogger } from '../../logger';
+
+const logger = createLogger('GitHubClient');
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+// Imported files are kept in the agent state, which is persisted as a single value of at most ~2 MB.
+// The total cap leaves room for template files, the blueprint and the conversation next to them.
+const MAX_IMPORTED_FILES = 300;
+const MAX_FILE_SIZE = 200 * 1024;
+const MAX_IMPORTED_BYTES = 1024 * 1024;
+
+const IGNORED_PATH_PREFIXES = ['node_modules/', 'dist/', 'build/', '.git/', '.wrangler/', 'coverage/'];
+const IGNORED_FILES = ['bun.lock', 'bun.lockb', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+const BINARY_EXTENSIONS = [
+    '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.bmp', '.avif',
+    '.woff', '.woff2', '.ttf', '.otf', '.eot',
+    '.mp3', '.mp4', '.wav', '.webm', '.ogg',
+    '.zip', '.gz', '.tar', '.pdf', '.wasm',
+];
+
+export class GitHubApiError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'GitHubApiError';
+    }
+}
+
+export interface GitHubRepositoryRef {
+    owner: string;
+    repo: string;
+}
+
+export interface GitHubTreeEntry {
+    path: string;
+    sha: string;    // Git blob sha of the file contents
+    size: number;
+}
+
+export interface GitHubCommitFile {
+    path: string;
+    contents: string;
+}
+
+export interface GitHubPullRequest {
+    number: number;
+    url: string;
+}
+
+export interface GitHubRepositoryFile {
+    path: string;
+    sha: string;
+    contents: string;
+}
+
+/**
+ * Whether a repository path holds source that can be imported into the agent state
+ */
+export function isImportablePath(path: string, size: number = 0): boolean {
+    const lowerPath = path.toLowerCase();
+    return size <= MAX_FILE_SIZE
+        && !IGNORED_PATH_PREFIXES.some(prefix => lowerPath.startsWith(prefix) || lowerPath.includes(`/${prefix}`))
+        && !IGNORED_FILES.includes(lowerPath.split('/').pop() || '')
+        && !BINARY_EXTENSIONS.some(extension => lowerPath.endsWith(extension));
+}
+
+function formatKilobytes(bytes: number): string {
+    return `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Compute the git blob sha of file contents, which is what GitHub trees report for each file
+ */
+export async function computeGitBlobSha(contents: string): Promise<string> {
+    const body = new TextEncoder().encode(contents);
+    const header = new TextEncoder().encode(`blob ${body.length}\0`);
+    const data = new Uint8Array(header.length + body.length);
+    data.set(header);
+    data.set(body, header.length);
+    const digest = await crypto.subtle.digest('SHA-1', data);
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class GitHubClient {
+    constructor(private readonly token: string) {}
+
+    /**
+     * Parse `owner/repo`, an https URL or a git remote into a repository reference
+     */
+    static parseRepository(input: string): GitHubRepositoryRef | null {
+        const match = input.trim().match(/^(?:(?:https?:\/\/|git@)?github\.com[/:])?([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?$/);
+        if (!match) {
+            return null;
+        }
+        return { owner: match[1], repo: match[2] };
+    }
+
+    private async request<T>(
+        path: string,
+        accept: string = 'application/vnd.github+json',
+        init: { method?: string; body?: unknown } = {}
+    ): Promise<T> {
+        const response = await fetch(`${GITHUB_API_URL}${path}`, {
+            method: init.method || 'GET',
+            headers: {
+                'Authorization': `token ${this.token}`,
+                'Accept': accept,
+                'User-Agent': 'Cloudflare-Vibe-Coding-Platform',
+                'X-GitHub-Api-Version': '2022-11-28',
+                ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            logger.warn(`GitHub API request failed: ${path}`, { status: response.status, error });
+            throw new GitHubApiError(`GitHub API error (${response.status}): ${error}`, response.status);
+        }
+
+        return accept === 'application/vnd.github.raw'
+            ? await response.text() as T
+            : await response.json() as T;
+    }
+
+    async getDefaultBranch({ owner, repo }: GitHubRepositoryRef): Promise<string> {
+        const repository = await this.request<{ default_branch: string }>(`/repos/${owner}/${repo}`);
+        return repository.default_branch;
+    }
+
+    async getBranchHeadSha({ owner, repo }: GitHubRepositoryRef, branch: string): Promise<string> {
+        const ref = await this.request<{ object: { sha: string } }>(`/repos/${owner}/${repo}/git/ref/heads/${encodeURIComponent(branch)}`);
+        return ref.object.sha;
+    }
+
+    /**
+     * List the files of a commit that can be imported, with their blob shas
+     */
+    async getTree({ owner, repo }: GitHubRepositoryRef, commitSha: string): Promise<GitHubTreeEntry[]> {
+        const tree = await this.request<{
+            truncated: boolean;
+            tree: Array<{ path: string; type: string; sha: string; size?: number }>;
+        }>(`/repos/${owner}/${repo}/git/trees/${commitSha}?recursive=1`);
+
+        if (tree.truncated) {
+            logger.warn('Repository tree was truncated by GitHub', { owner, repo, commitSha });
+        }
+
+        return tree.tree
+            .filter(entry => entry.type === 'blob' && isImportablePath(entry.path, entry.size))
+            .map(entry => ({ path: entry.path, sha: entry.sha, size: entry.size || 0 }));
+    }
+
+    async getFileContents({ owner, repo }: GitHubRepositoryRef, path: string, ref: string): Promise<string> {
+        const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+        return this.request<string>(`/repos/${owner}/${repo}/contents/${encodedPath}?ref=${ref}`, 'application/vnd.github.raw');
+    }
+
+    /**
+     * Fetch the contents of tree entries in small batches to stay within the subrequest limits
+     */
+    async getFiles(repository: GitHubRepositoryRef, entries: GitHubTreeEntry[], ref: string): Promise<GitHubRepositoryFile[]> {
+        if (entries.length > MAX_IMPORTED_FILES) {
+            throw new GitHubApiError(`Repository has ${entries.length} source files, at most ${MAX_IMPORTED_FILES} can be imported`, 413);
+        }
+        const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+        if (totalBytes > MAX_IMPORTED_BYTES) {
+            throw new GitHubApiError(
+                `Repository source files add up to ${formatKilobytes(totalBytes)}, at most ${formatKilobytes(MAX_IMPORTED_BYTES)} can be imported`,
+                413
+            );
+        }
+
+        const files: GitHubRepositoryFile[] = [];
+        const batchSize = 10;
+        for (let i = 0; i < entries.length; i += batchSize) {
+            const batch = entries.slice(i, i + batchSize);
+            const contents = await Promise.all(batch.map(entry => this.getFileContents(repository, entry.path, ref)));
+            batch.forEach((entry, index) => files.push({ path: entry.path, sha: entry.sha, contents: contents[index] }));
+        }
+        return files;
+    }
+
+    async getCommitTreeSha({ owner, repo }: GitHubRepositoryRef, commitSha: string): Promise<string> {
+        const commit = await this.request<{ tree: { sha: string } }>(`/repos/${owner}/${repo}/git/commits/${commitSha}`);
+        return commit.tree.sha;
+    }
+
+    /**
+     * Create a commit that changes the given files on top of the parent commit, without moving any branch
+     */
+    async createCommit(
+        { owner, repo }: GitHubRepositoryRef,
+        parentSha: string,
+        message: string,
+        files: GitHubCommitFile[]
+    ): Promise<{ commitSha: string; treeSha: string }> {
+        const baseTree = await this.getCommitTreeSha({ owner, repo }, parentSha);
+        const tree = await this.request<{ sha: string }>(`/repos/${owner}/${repo}/git/trees`, undefined, {
+            method: 'POST',
+            body: {
+                base_tree: baseTree,
+                tree: files.map(file => ({ path: file.path, mode: '100644', type: 'blob', content: file.contents })),
+            },
+        });
+        const commit = await this.request<{ sha: string }>(`/repos/${owner}/${repo}/git/commits`, undefined, {
+            method: 'POST',
+            body: { message, tree: tree.sha, parents: [parentSha] },
+        });
+        return { commitSha: commit.sha, treeSha: tree.sha };
+    }
+
+    /**
+     * Move a branch to a commit, failing unless it is a fast-forward
+     */
+    async updateBranch({ owner, repo }: GitHubRepositoryRef, branch: string, commitSha: string): Promise<void> {
+        await this.request(`/repos/${owner}/${repo}/git/refs/heads/${encodeURIComponent(branch)}`, undefined, {
+            method: 'PATCH',
+            body: { sha: commitSha, force: false },
+        });
+    }
+
+    async createBranch({ owner, repo }: GitHubRepositoryRef, branch: string, commitSha: string): Promise<void> {
+        await this.request(`/repos/${owner}/${repo}/git/refs`, undefined, {
+            method: 'POST',
+            body: { ref: `refs/heads/${branch}`, sha: commitSha },
+        });
+    }
+
+    async createPullRequest(
+        { owner, repo }: GitHubRepositoryRef,
+        pullRequest: { title: string; body: string; head: string; base: string }
+    ): Promise<GitHubPullRequest> {
+        const created = await this.request<{ number: number; html_url: string }>(`/repos/${owner}/${repo}/pulls`, undefined, {
+            method: 'POST',
+            body: pullRequest,
+        });
+        return { number: created.number, url: created.html_url };
+    }
+}
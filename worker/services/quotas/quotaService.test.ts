@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DatabaseService } from '../../database/database';
+import type { AuthUser } from '../../types/auth-types';
+import {
+    DEFAULT_USER_QUOTAS,
+    QuotaService,
+    UserQuotaUsage,
+    USER_QUOTAS_SETTING_KEY,
+    getUserQuotaOverrideKey,
+    resolveQuotaOwner,
+} from './quotaService';
+
+const USER = { userId: 'user-1' };
+const ANONYMOUS = { anonymousKey: 'anon:key' };
+
+const NO_USAGE: UserQuotaUsage = {
+    generationsToday: 0,
+    activeAgents: 0,
+    deploymentsToday: 0,
+    inferenceSpend: 0,
+};
+
+function createQuotaService(settings: Record<string, unknown> = {}, usage: Partial<UserQuotaUsage> = {}) {
+    const getQuotaUsage = vi.fn().mockResolvedValue({ ...NO_USAGE, ...usage });
+    const db = {
+        getSystemSetting: vi.fn(async (key: string) => settings[key] ?? null),
+        getQuotaUsage,
+    } as unknown as DatabaseService;
+    return { quotaService: new QuotaService(db), getQuotaUsage };
+}
+
+describe('QuotaService', () => {
+    describe('getLimits', () => {
+        it('should use the built-in defaults without settings', async () => {
+            const { quotaService } = createQuotaService();
+            expect(await quotaService.getLimits('user-1')).toEqual(DEFAULT_USER_QUOTAS);
+        });
+
+        it('should merge the user override over the system defaults over the built-in ones', async () => {
+            const { quotaService } = createQuotaService({
+                [USER_QUOTAS_SETTING_KEY]: { generationsPerDay: 5, deploymentsPerDay: 10 },
+                [getUserQuotaOverrideKey('user-1')]: { generationsPerDay: null, monthlyInferenceSpend: 200 },
+            });
+
+            expect(await quotaService.getLimits('user-1')).toEqual({
+                generationsPerDay: null,
+                concurrentAgents: DEFAULT_USER_QUOTAS.concurrentAgents,
+                deploymentsPerDay: 10,
+                monthlyInferenceSpend: 200,
+            });
+            expect((await quotaService.getLimits('user-2')).generationsPerDay).toBe(5);
+        });
+
+        it('should ignore invalid settings', async () => {
+            const { quotaService } = createQuotaService({
+                [USER_QUOTAS_SETTING_KEY]: { generationsPerDay: -1 },
+                [getUserQuotaOverrideKey('user-1')]: 'unlimited',
+            });
+            expect(await quotaService.getLimits('user-1')).toEqual(DEFAULT_USER_QUOTAS);
+        });
+    });
+
+    describe('getStatus', () => {
+        it('should count usage from the start of the UTC day and month', async () => {
+            const { quotaService, getQuotaUsage } = createQuotaService();
+            const now = new Date('2025-03-31T23:59:59.999Z');
+
+            const status = await quotaService.getStatus(USER, now);
+
+            expect(getQuotaUsage).toHaveBeenCalledWith(USER, {
+                day: new Date('2025-03-31T00:00:00.000Z'),
+                month: new Date('2025-03-01T00:00:00.000Z'),
+                activeAgents: new Date('2025-03-31T21:59:59.999Z'),
+            });
+            expect(status.dailyResetAt).toBe('2025-04-01T00:00:00.000Z');
+            expect(status.monthlyResetAt).toBe('2025-04-01T00:00:00.000Z');
+        });
+
+        it('should roll the monthly period over at the end of the year', async () => {
+            const { quotaService } = createQuotaService();
+            const status = await quotaService.getStatus(USER, new Date('2025-12-31T12:00:00.000Z'));
+
+            expect(status.dailyResetAt).toBe('2026-01-01T00:00:00.000Z');
+            expect(status.monthlyResetAt).toBe('2026-01-01T00:00:00.000Z');
+        });
+    });
+
+    describe('findExceededQuota', () => {
+        const now = new Date('2025-06-15T18:00:00.000Z');
+
+        it('should let users within their limits proceed', async () => {
+            const { quotaService } = createQuotaService({}, { generationsToday: 19, activeAgents: 2, inferenceSpend: 49.99 });
+            expect(await quotaService.findExceededQuota(USER, 'generation', now)).toBeNull();
+        });
+
+        it('should block generations at the daily limit until midnight UTC', async () => {
+            const { quotaService } = createQuotaService({}, { generationsToday: 20 });
+
+            const exceeded = await quotaService.findExceededQuota(USER, 'generation', now);
+
+            expect(exceeded?.quota).toBe('generationsPerDay');
+            expect(exceeded?.statusCode).toBe(429);
+            expect(exceeded?.retryAfter).toBe(6 * 60 * 60);
+        });
+
+        it('should block generations while the concurrent agent limit is reached', async () => {
+            const { quotaService } = createQuotaService({}, { activeAgents: 3 });
+            const exceeded = await quotaService.findExceededQuota(USER, 'generation', now);
+            expect(exceeded?.quota).toBe('concurrentAgents');
+        });
+
+        it('should only apply count limits to their own action', async () => {
+            const { quotaService } = createQuotaService({}, { generationsToday: 20, activeAgents: 3, deploymentsToday: 30 });
+
+            expect(await quotaService.findExceededQuota(USER, 'export', now)).toBeNull();
+            expect((await quotaService.findExceededQuota(USER, 'deployment', now))?.quota).toBe('deploymentsPerDay');
+        });
+
+        it('should block every action once the spend limit is reached', async () => {
+            const { quotaService } = createQuotaService({}, { inferenceSpend: 50 });
+
+            for (const action of ['generation', 'deployment', 'export'] as const) {
+                const exceeded = await quotaService.findExceededQuota(USER, action, now);
+                expect(exceeded?.quota).toBe('monthlyInferenceSpend');
+                expect(exceeded?.statusCode).toBe(402);
+            }
+        });
+
+        it('should not limit quotas that are set to unlimited', async () => {
+            const { quotaService } = createQuotaService(
+                { [getUserQuotaOverrideKey('user-1')]: { generationsPerDay: null, monthlyInferenceSpend: null } },
+                { generationsToday: 1000, inferenceSpend: 1000 }
+            );
+            expect(await quotaService.findExceededQuota(USER, 'generation', now)).toBeNull();
+        });
+
+        it('should count anonymous usage against the default limits', async () => {
+            const { quotaService, getQuotaUsage } = createQuotaService({}, { generationsToday: 20 });
+
+            const exceeded = await quotaService.findExceededQuota(ANONYMOUS, 'generation', now);
+
+            expect(exceeded?.quota).toBe('generationsPerDay');
+            expect(exceeded?.statusCode).toBe(429);
+            expect(getQuotaUsage).toHaveBeenCalledWith(ANONYMOUS, expect.any(Object));
+        });
+
+        it('should not apply user overrides to anonymous usage', async () => {
+            const { quotaService } = createQuotaService(
+                {
+                    [USER_QUOTAS_SETTING_KEY]: { generationsPerDay: 2 },
+                    [getUserQuotaOverrideKey('anon:key')]: { generationsPerDay: null },
+                },
+                { generationsToday: 2 }
+            );
+            expect((await quotaService.findExceededQuota(ANONYMOUS, 'generation', now))?.quota).toBe('generationsPerDay');
+        });
+
+        it('should let anonymous clients within the default limits proceed', async () => {
+            const { quotaService } = createQuotaService({}, { generationsToday: 1 });
+            expect(await quotaService.findExceededQuota(ANONYMOUS, 'generation', now)).toBeNull();
+        });
+    });
+
+    describe('resolveQuotaOwner', () => {
+        const accountUser: AuthUser = { id: 'user-1', email: 'user@example.com', isAnonymous: false };
+        const anonymousSession = (id: string): AuthUser => ({ id, email: '', isAnonymous: true });
+
+        it('should count signed in users against their account', async () => {
+            expect(await resolveQuotaOwner(accountUser, '203.0.113.1')).toEqual({ userId: 'user-1' });
+        });
+
+        it('should count requests without a user against a hash of the client IP', async () => {
+            const owner = await resolveQuotaOwner(null, '203.0.113.1');
+
+            expect(owner).toEqual({ anonymousKey: expect.stringMatching(/^anon:/) });
+            expect(JSON.stringify(owner)).not.toContain('203.0.113.1');
+            expect(await resolveQuotaOwner(null, '203.0.113.2')).not.toEqual(owner);
+        });
+
+        it('should count anonymous sessions against the client IP whatever their session id', async () => {
+            const withoutSession = await resolveQuotaOwner(null, '203.0.113.1');
+
+            expect(await resolveQuotaOwner(anonymousSession('anon_1'), '203.0.113.1')).toEqual(withoutSession);
+            expect(await resolveQuotaOwner(anonymousSession('anon_2'), '203.0.113.1')).toEqual(withoutSession);
+        });
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Quota Service
+ * Resolves the plan limits of a user and enforces them before generations, deployments and exports
+ */
+
+import { z } from 'zod';
+import { DatabaseService, QuotaOwner } from '../../database/database';
+import { createLogger } from '../../logger';
+import { AuthUser } from '../../types/auth-types';
+import { CryptoUtils } from '../../utils/CryptoUtils';
+
+const logger = createLogger('QuotaService');
+
+// System setting holding the limits every user gets
+export const USER_QUOTAS_SETTING_KEY = 'user_quotas';
+
+// Apps still marked as generating after this long are treated as abandoned rather than active
+const ACTIVE_AGENT_WINDOW_HOURS = 2;
+
+export type QuotaName = 'generationsPerDay' | 'concurrentAgents' | 'deploymentsPerDay' | 'monthlyInferenceSpend';
+
+export type QuotaAction = 'generation' | 'deployment' | 'export';
+
+/**
+ * Limits of a user, null means unlimited
+ * monthlyInferenceSpend is the estimated USD cost of inferences per calendar month (UTC)
+ */
+export type UserQuotaLimits = Record<QuotaName, number | null>;
+
+export interface UserQuotaUsage {
+    generationsToday: number;
+    activeAgents: number;
+    deploymentsToday: number;
+    inferenceSpend: number;
+}
+
+export interface UserQuotaStatus {
+    limits: UserQuotaLimits;
+    usage: UserQuotaUsage;
+    dailyResetAt: string;
+    monthlyResetAt: string;
+}
+
+export const DEFAULT_USER_QUOTAS: UserQuotaLimits = {
+    generationsPerDay: 20,
+    concurrentAgents: 3,
+    deploymentsPerDay: 30,
+    monthlyInferenceSpend: 50,
+};
+
+const limitSchema = z.number().nonnegative().nullable();
+
+const UserQuotaLimitsSchema = z.object({
+    generationsPerDay: limitSchema,
+    concurrentAgents: limitSchema,
+    deploymentsPerDay: limitSchema,
+    monthlyInferenceSpend: limitSchema,
+}).partial();
+
+/**
+ * System setting holding the overrides of a single user, merged over the defaults
+ */
+export function getUserQuotaOverrideKey(userId: string): string {
+    return `${USER_QUOTAS_SETTING_KEY}:${userId}`;
+}
+
+/**
+ * Whose quotas a request is counted against
+ * Requests without a user and anonymous sessions are treated alike: their session ids are chosen by the client,
+ * so their usage is counted against a hash of the client IP instead
+ */
+export async function resolveQuotaOwner(user: AuthUser | null, clientIp: string): Promise<QuotaOwner> {
+    if (user && !user.isAnonymous) {
+        return { userId: user.id };
+    }
+    return { anonymousKey: `anon:${CryptoUtils.arrayBufferToBase64(await CryptoUtils.sha256(clientIp))}` };
+}
+
+/**
+ * Thrown when an action would exceed a quota of the user
+ * Spend limits map to 402 since only a plan change lifts them, count limits to 429 with the time until they reset
+ */
+export class QuotaExceededError extends Error {
+    constructor(
+        message: string,
+        public readonly quota: QuotaName,
+        public readonly statusCode: 402 | 429,
+        public readonly retryAfter?: number
+    ) {
+        super(message);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export class QuotaService {
+    constructor(private db: DatabaseService) {}
+
+    /**
+     * Limits of a user: the built-in defaults, overridden by the system setting, overridden by the user's own setting
+     */
+    async getLimits(userId: string): Promise<UserQuotaLimits> {
+        const [defaults, overrides] = await Promise.all([
+            this.getDefaultLimits(),
+            this.db.getSystemSetting(getUserQuotaOverrideKey(userId)),
+        ]);
+        return {
+            ...defaults,
+            ...this.parseLimits(getUserQuotaOverrideKey(userId), overrides),
+        };
+    }
+
+    /**
+     * Limits every user gets: the built-in defaults, overridden by the system setting
+     */
+    async getDefaultLimits(): Promise<UserQuotaLimits> {
+        const defaults = await this.db.getSystemSetting(USER_QUOTAS_SETTING_KEY);
+        return {
+            ...DEFAULT_USER_QUOTAS,
+            ...this.parseLimits(USER_QUOTAS_SETTING_KEY, defaults),
+        };
+    }
+
+    /**
+     * Anonymous clients get the limits every user gets, without per-user overrides
+     */
+    async getStatus(owner: QuotaOwner, now: Date = new Date()): Promise<UserQuotaStatus> {
+        const periods = this.getPeriods(now);
+        const [limits, usage] = await Promise.all([
+            'userId' in owner ? this.getLimits(owner.userId) : this.getDefaultLimits(),
+            this.db.getQuotaUsage(owner, {
+                day: periods.dayStart,
+                month: periods.monthStart,
+                activeAgents: new Date(now.getTime() - ACTIVE_AGENT_WINDOW_HOURS * 60 * 60 * 1000),
+            }),
+        ]);
+        return {
+            limits,
+            usage,
+            dailyResetAt: periods.dayEnd.toISOString(),
+            monthlyResetAt: periods.monthEnd.toISOString(),
+        };
+    }
+
+    /**
+     * First quota the action would exceed, null when the owner may proceed
+     * Every action is blocked once the spend limit is reached, generations and deployments also have count limits
+     */
+    async findExceededQuota(owner: QuotaOwner, action: QuotaAction, now: Date = new Date()): Promise<QuotaExceededError | null> {
+        const { limits, usage } = await this.getStatus(owner, now);
+        const periods = this.getPeriods(now);
+        const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+        if (limits.monthlyInferenceSpend !== null && usage.inferenceSpend >= limits.monthlyInferenceSpend) {
+            return new QuotaExceededError(
+                `Monthly AI usage limit of $${limits.monthlyInferenceSpend.toFixed(2)} reached, it resets on ${periods.monthEnd.toISOString().slice(0, 10)}`,
+                'monthlyInferenceSpend',
+                402
+            );
+        }
+
+        if (action === 'generation') {
+            if (limits.generationsPerDay !== null && usage.generationsToday >= limits.generationsPerDay) {
+                return new QuotaExceededError(
+                    `Daily limit of ${limits.generationsPerDay} generations reached, try again tomorrow`,
+                    'generationsPerDay',
+                    429,
+                    secondsUntil(periods.dayEnd)
+                );
+            }
+            if (limits.concurrentAgents !== null && usage.activeAgents >= limits.concurrentAgents) {
+                return new QuotaExceededError(
+                    `You already have ${usage.activeAgents} apps generating, wait for one to finish before starting another`,
+                    'concurrentAgents',
+                    429,
+                    60
+                );
+            }
+        }
+
+        if (action === 'deployment' && limits.deploymentsPerDay !== null && usage.deploymentsToday >= limits.deploymentsPerDay) {
+            return new QuotaExceededError(
+                `Daily limit of ${limits.deploymentsPerDay} deployments reached, try again tomorrow`,
+                'deploymentsPerDay',
+                429,
+                secondsUntil(periods.dayEnd)
+            );
+        }
+
+        return null;
+    }
+
+    async assertWithinQuota(owner: QuotaOwner, action: QuotaAction): Promise<void> {
+        const exceeded = await this.findExceededQuota(owner, action);
+        if (exceeded) {
+            logger.info('Quota exceeded', { ...owner, action, quota: exceeded.quota });
+            throw exceeded;
+        }
+    }
+
+    /**
+     * Daily quotas reset at midnight UTC, the spend limit on the first of the month
+     */
+    private getPeriods(now: Date): { dayStart: Date; dayEnd: Date; monthStart: Date; monthEnd: Date } {
+        const year = now.getUTCFullYear();
+        const month = now.getUTCMonth();
+        const day = now.getUTCDate();
+        return {
+            dayStart: new Date(Date.UTC(year, month, day)),
+            dayEnd: new Date(Date.UTC(year, month, day + 1)),
+            monthStart: new Date(Date.UTC(year, month, 1)),
+            monthEnd: new Date(Date.UTC(year, month + 1, 1)),
+        };
+    }
+
+    /**
+     * Invalid settings are ignored rather than failing every request they apply to
+     */
+    private parseLimits(key: string, value: unknown): Partial<UserQuotaLimits> {
+        if (value === null) {
+            return {};
+        }
+        const result = UserQuotaLimitsSchema.safeParse(value);
+        if (!result.success) {
+            logger.warn('Ignoring invalid quota setting', { key, issues: result.error.issues });
+            return {};
+        }
+        return result.data;
+    }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { consumeSlidingWindow, consumeTokenBucket } from './RateLimiter';
+
+describe('consumeSlidingWindow', () => {
+    const policy = { algorithm: 'sliding-window', limit: 3, windowSeconds: 60 } as const;
+
+    it('should allow requests up to the limit within the window', () => {
+        let timestamps: number[] = [];
+        for (let i = 0; i < 3; i++) {
+            const result = consumeSlidingWindow(timestamps, policy, 1000 + i * 1000);
+            expect(result.decision.allowed).toBe(true);
+            expect(result.decision.remaining).toBe(2 - i);
+            timestamps = result.timestamps;
+        }
+        expect(timestamps).toEqual([1000, 2000, 3000]);
+    });
+
+    it('should reject requests over the limit until the oldest one leaves the window', () => {
+        const result = consumeSlidingWindow([1000, 2000, 3000], policy, 10_000);
+
+        expect(result.decision.allowed).toBe(false);
+        expect(result.decision.remaining).toBe(0);
+        // The request at 1000 leaves the window at 61000
+        expect(result.decision.retryAfterSeconds).toBe(51);
+        expect(result.decision.resetSeconds).toBe(53);
+        expect(result.timestamps).toEqual([1000, 2000, 3000]);
+    });
+
+    it('should allow requests again once the window rolls over', () => {
+        const result = consumeSlidingWindow([1000, 2000, 3000], policy, 61_001);
+
+        expect(result.decision.allowed).toBe(true);
+        expect(result.decision.retryAfterSeconds).toBeUndefined();
+        expect(result.timestamps).toEqual([2000, 3000, 61_001]);
+    });
+
+    it('should drop requests outside the window from the history', () => {
+        const result = consumeSlidingWindow([1000, 2000], policy, 200_000);
+
+        expect(result.timestamps).toEqual([200_000]);
+        expect(result.decision.remaining).toBe(2);
+        expect(result.decision.resetSeconds).toBe(60);
+    });
+});
+
+describe('consumeTokenBucket', () => {
+    const policy = { algorithm: 'token-bucket', capacity: 2, refillPerSecond: 0.5 } as const;
+
+    it('should start with a full bucket', () => {
+        const result = consumeTokenBucket(undefined, policy, 0);
+
+        expect(result.decision.allowed).toBe(true);
+        expect(result.decision.remaining).toBe(1);
+        expect(result.state).toEqual({ tokens: 1, updatedAt: 0 });
+        expect(result.decision.resetSeconds).toBe(2);
+    });
+
+    it('should reject requests once the bucket is empty with the time until the next token', () => {
+        const result = consumeTokenBucket({ tokens: 0, updatedAt: 0 }, policy, 1000);
+
+        expect(result.decision.allowed).toBe(false);
+        expect(result.decision.remaining).toBe(0);
+        // Half a token has refilled, the other half takes another second
+        expect(result.decision.retryAfterSeconds).toBe(1);
+        expect(result.state).toEqual({ tokens: 0.5, updatedAt: 1000 });
+    });
+
+    it('should refill tokens over time', () => {
+        const result = consumeTokenBucket({ tokens: 0, updatedAt: 0 }, policy, 2000);
+
+        expect(result.decision.allowed).toBe(true);
+        expect(result.state.tokens).toBe(0);
+        expect(result.decision.resetSeconds).toBe(4);
+    });
+
+    it('should not refill beyond the capacity', () => {
+        const result = consumeTokenBucket({ tokens: 0, updatedAt: 0 }, policy, 60_000);
+
+        expect(result.state.tokens).toBe(1);
+        expect(result.decision.remaining).toBe(1);
+    });
+
+    it('should ignore clock skew that moves time backwards', () => {
+        const result = consumeTokenBucket({ tokens: 0.5, updatedAt: 5000 }, policy, 4000);
+
+        expect(result.decision.allowed).toBe(false);
+        expect(result.state.tokens).toBe(0.5);
+    });
+});
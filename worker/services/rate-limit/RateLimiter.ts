@@ -0,0 +1,120 @@
+/**
+ * Rate Limiter Durable Object
+ * Each instance holds the request history of a single rate limit key, so limits are shared by every isolate
+ * and survive isolate restarts
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+export type RateLimitPolicy =
+    | { algorithm: 'sliding-window'; limit: number; windowSeconds: number }
+    | { algorithm: 'token-bucket'; capacity: number; refillPerSecond: number };
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetSeconds: number; // Until the full limit is available again
+    retryAfterSeconds?: number; // Until a rejected request may be retried
+}
+
+interface SlidingWindowState {
+    algorithm: 'sliding-window';
+    timestamps: number[];
+}
+
+interface TokenBucketState {
+    algorithm: 'token-bucket';
+    tokens: number;
+    updatedAt: number;
+}
+
+type RateLimitState = SlidingWindowState | TokenBucketState;
+
+const STATE_KEY = 'state';
+
+/**
+ * Sliding window log: a request is allowed while fewer than `limit` requests were allowed in the last window
+ */
+export function consumeSlidingWindow(
+    timestamps: number[],
+    policy: Extract<RateLimitPolicy, { algorithm: 'sliding-window' }>,
+    now: number
+): { timestamps: number[]; decision: RateLimitDecision } {
+    const windowMs = policy.windowSeconds * 1000;
+    const recent = timestamps.filter(timestamp => timestamp > now - windowMs);
+    const allowed = recent.length < policy.limit;
+    if (allowed) {
+        recent.push(now);
+    }
+
+    const newest = recent[recent.length - 1] ?? now;
+    // The oldest request that has to leave the window before another one fits
+    const blocking = recent[recent.length - policy.limit] ?? now;
+    return {
+        timestamps: recent,
+        decision: {
+            allowed,
+            limit: policy.limit,
+            remaining: Math.max(0, policy.limit - recent.length),
+            resetSeconds: Math.max(0, Math.ceil((newest + windowMs - now) / 1000)),
+            retryAfterSeconds: allowed ? undefined : Math.max(1, Math.ceil((blocking + windowMs - now) / 1000)),
+        },
+    };
+}
+
+/**
+ * Token bucket: bursts up to `capacity` requests, then one request per refilled token
+ */
+export function consumeTokenBucket(
+    state: Omit<TokenBucketState, 'algorithm'> | undefined,
+    policy: Extract<RateLimitPolicy, { algorithm: 'token-bucket' }>,
+    now: number
+): { state: Omit<TokenBucketState, 'algorithm'>; decision: RateLimitDecision } {
+    const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+    const available = Math.min(policy.capacity, (state?.tokens ?? policy.capacity) + elapsedSeconds * policy.refillPerSecond);
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+    return {
+        state: { tokens, updatedAt: now },
+        decision: {
+            allowed,
+            limit: policy.capacity,
+            remaining: Math.floor(tokens),
+            resetSeconds: Math.ceil((policy.capacity - tokens) / policy.refillPerSecond),
+            retryAfterSeconds: allowed ? undefined : Math.max(1, Math.ceil((1 - tokens) / policy.refillPerSecond)),
+        },
+    };
+}
+
+export class RateLimiter extends DurableObject<Env> {
+    /**
+     * Count a request against the policy and decide whether it may proceed
+     * Rejected requests are not counted, so clients that honour Retry-After are not locked out for longer
+     */
+    async consume(policy: RateLimitPolicy): Promise<RateLimitDecision> {
+        const now = Date.now();
+        const stored = await this.ctx.storage.get<RateLimitState>(STATE_KEY);
+
+        let state: RateLimitState;
+        let decision: RateLimitDecision;
+        if (policy.algorithm === 'sliding-window') {
+            const result = consumeSlidingWindow(stored?.algorithm === 'sliding-window' ? stored.timestamps : [], policy, now);
+            state = { algorithm: 'sliding-window', timestamps: result.timestamps };
+            decision = result.decision;
+        } else {
+            const result = consumeTokenBucket(stored?.algorithm === 'token-bucket' ? stored : undefined, policy, now);
+            state = { algorithm: 'token-bucket', ...result.state };
+            decision = result.decision;
+        }
+
+        await this.ctx.storage.put(STATE_KEY, state);
+        // Keys that go quiet delete their history once it no longer affects a decision
+        await this.ctx.storage.setAlarm(now + (decision.resetSeconds + 1) * 1000);
+        return decision;
+    }
+
+    async alarm(): Promise<void> {
+        await this.ctx.storage.deleteAll();
+    }
+}
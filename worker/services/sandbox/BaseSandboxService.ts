@@ -21,6 +21,7 @@ import {
 
     // Deployment types
     DeploymentCredentials,
+    DeploymentOptions,
     DeploymentResult,
     BootstrapResponse,
     GitHubInitRequest,
@@ -50,6 +51,7 @@ export interface TemplateInfo {
     name: string;
     language?: string;
     frameworks?: string[];
+    analyzers?: string[];
     description: {
         selection: string;
         usage: string;
@@ -106,6 +108,7 @@ export abstract class BaseSandboxService {
                     name: t.name,
                     language: t.language,
                     frameworks: t.frameworks || [],
+                    analyzers: t.analyzers,
                     description: t.description,
                 })),
                 count: filteredTemplates.length,
@@ -254,6 +257,7 @@ export abstract class BaseSandboxService {
     abstract deployToCloudflareWorkers(
         instanceId: string,
         credentials?: DeploymentCredentials,
+        options?: DeploymentOptions,
     ): Promise<DeploymentResult>;
 
     // ==========================================
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { parseVitestOutput } from './analysisParsers';
+
+function vitestReport(overrides: Record<string, unknown> = {}): string {
+    return JSON.stringify({
+        success: true,
+        numTotalTests: 2,
+        numPassedTests: 2,
+        numFailedTests: 0,
+        testResults: [
+            {
+                name: '/app/src/App.test.tsx',
+                status: 'passed',
+                assertionResults: [
+                    { fullName: 'App renders the title', status: 'passed', failureMessages: [] },
+                    { fullName: 'App adds a todo', status: 'passed', failureMessages: [] },
+                ],
+            },
+        ],
+        ...overrides,
+    });
+}
+
+describe('parseVitestOutput', () => {
+    it('should report a passing run without failures', () => {
+        expect(parseVitestOutput(vitestReport())).toEqual({
+            success: true,
+            numTotalTests: 2,
+            numPassedTests: 2,
+            numFailedTests: 0,
+            failures: [],
+        });
+    });
+
+    it('should collect failed assertions with their file and line', () => {
+        const result = parseVitestOutput(vitestReport({
+            success: false,
+            numPassedTests: 1,
+            numFailedTests: 1,
+            testResults: [
+                {
+                    name: '/app/src/App.test.tsx',
+                    status: 'failed',
+                    assertionResults: [
+                        { fullName: 'App renders the title', status: 'passed' },
+                        {
+                            fullName: 'App adds a todo',
+                            status: 'failed',
+                            failureMessages: ['AssertionError: expected 0 to be 1', '    at App.test.tsx:14:22'],
+                            location: { line: 14, column: 22 },
+                        },
+                    ],
+                },
+            ],
+        }));
+
+        expect(result.success).toBe(false);
+        expect(result.numFailedTests).toBe(1);
+        expect(result.failures).toEqual([{
+            testName: 'App adds a todo',
+            filePath: '/app/src/App.test.tsx',
+            message: 'AssertionError: expected 0 to be 1\n    at App.test.tsx:14:22',
+            line: 14,
+        }]);
+    });
+
+    it('should turn a suite that failed to load into a single failure', () => {
+        const result = parseVitestOutput(vitestReport({
+            success: false,
+            numTotalTests: 0,
+            numPassedTests: 0,
+            numFailedTests: 0,
+            testResults: [
+                {
+                    name: '/app/src/utils.test.ts',
+                    status: 'failed',
+                    message: "Failed to resolve import './missing' from 'src/utils.test.ts'",
+                    assertionResults: [],
+                },
+            ],
+        }));
+
+        expect(result.success).toBe(false);
+        expect(result.numFailedTests).toBe(1);
+        expect(result.failures).toEqual([{
+            testName: 'Test suite failed to run',
+            filePath: '/app/src/utils.test.ts',
+            message: "Failed to resolve import './missing' from 'src/utils.test.ts'",
+        }]);
+    });
+
+    it('should not report success while failures were found', () => {
+        const result = parseVitestOutput(vitestReport({
+            testResults: [
+                { name: '/app/src/App.test.tsx', status: 'failed', assertionResults: [] },
+            ],
+        }));
+
+        expect(result.success).toBe(false);
+        expect(result.failures[0].message).toBe('Unknown error');
+    });
+
+    it('should truncate long failure messages', () => {
+        const result = parseVitestOutput(vitestReport({
+            testResults: [
+                {
+                    name: '/app/src/App.test.tsx',
+                    status: 'failed',
+                    assertionResults: [
+                        { fullName: 'App renders', status: 'failed', failureMessages: ['x'.repeat(5000)] },
+                    ],
+                },
+            ],
+        }));
+
+        expect(result.failures[0].message).toHaveLength(2000);
+    });
+
+    it('should tolerate suites without assertion results', () => {
+        const result = parseVitestOutput(JSON.stringify({
+            success: true,
+            numTotalTests: 0,
+            numPassedTests: 0,
+            numFailedTests: 0,
+            testResults: [{ name: '/app/src/empty.test.ts', status: 'passed' }],
+        }));
+
+        expect(result).toEqual({ success: true, numTotalTests: 0, numPassedTests: 0, numFailedTests: 0, failures: [] });
+    });
+
+    it('should throw when the output is not Vitest JSON', () => {
+        expect(() => parseVitestOutput('cat: node_modules/.vitest-results.json: No such file or directory')).toThrow();
+    });
+});
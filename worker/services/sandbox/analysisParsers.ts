@@ -0,0 +1,218 @@
+import { CodeIssue, LintSeverity, TestFailure, TestRunResult } from './sandboxTypes';
+
+/**
+ * Issue as reported by an analyzer, before its severity is mapped onto LintSeverity
+ */
+export type RawCodeIssue = Omit<CodeIssue, 'severity'> & { severity: string | number };
+
+export function mapESLintSeverity(severity: string | number): LintSeverity {
+    switch (severity) {
+        case 1: return 'warning';
+        case 2: return 'error';
+        default: return 'info';
+    }
+}
+
+/**
+ * Parse the JSON formatter output of ESLint into code issues
+ * @throws When the output is not valid ESLint JSON
+ */
+export function parseESLintOutput(stdout: string): RawCodeIssue[] {
+    const lintData = JSON.parse(stdout) as Array<{
+        filePath: string;
+        messages: Array<{
+            message: string;
+            line?: number;
+            column?: number;
+            severity: number;
+            ruleId?: string;
+        }>;
+    }>;
+
+    const issues: RawCodeIssue[] = [];
+    for (const fileResult of lintData) {
+        for (const message of fileResult.messages || []) {
+            issues.push({
+                message: message.message,
+                filePath: fileResult.filePath,
+                line: message.line || 0,
+                column: message.column,
+                severity: message.severity,
+                ruleId: message.ruleId,
+                source: 'eslint'
+            });
+        }
+    }
+    return issues;
+}
+
+/**
+ * Parse `tsc --pretty false` output into code issues, folding continuation lines into the message
+ */
+export function parseTypeScriptOutput(output: string): RawCodeIssue[] {
+    const issues: RawCodeIssue[] = [];
+    let currentError: RawCodeIssue | null = null;
+
+    for (const line of output.split('\n')) {
+        // Match TypeScript error format: path(line,col): error TSxxxx: message
+        const match = line.match(/^(.+?)\((\d+),(\d+)\): error TS(\d+): (.*)$/);
+        if (match) {
+            // If we have a previous error being built, add it
+            if (currentError) {
+                issues.push(currentError);
+            }
+
+            currentError = {
+                message: match[5].trim(),
+                filePath: match[1].trim(),
+                line: parseInt(match[2]),
+                column: parseInt(match[3]),
+                severity: 'error',
+                source: 'typescript',
+                ruleId: `TS${match[4]}`
+            };
+        } else if (currentError && line.trim() && !line.startsWith('src/') && !line.includes(': error TS')) {
+            // This might be a continuation of the error message
+            currentError.message += ' ' + line.trim();
+        }
+    }
+
+    // Add the last error if it exists
+    if (currentError) {
+        issues.push(currentError);
+    }
+    return issues;
+}
+
+/**
+ * Parse the JSON formatter output of stylelint, which newer versions print to stderr
+ * @throws When neither stream holds valid stylelint JSON
+ */
+export function parseStylelintOutput(stdout: string, stderr: string): RawCodeIssue[] {
+    const output = stdout.trim().startsWith('[') ? stdout : stderr;
+    const results = JSON.parse(output) as Array<{
+        source: string;
+        warnings: Array<{
+            line: number;
+            column?: number;
+            rule: string;
+            severity: string;
+            text: string;
+        }>;
+    }>;
+
+    return results.flatMap(result => (result.warnings || []).map(warning => ({
+        // stylelint appends the rule name to every message
+        message: warning.text.replace(` (${warning.rule})`, ''),
+        filePath: result.source,
+        line: warning.line,
+        column: warning.column,
+        severity: warning.severity,
+        ruleId: warning.rule,
+        source: 'stylelint'
+    })));
+}
+
+/**
+ * Parse the errors of a failed `vite build`, which come from esbuild or rollup in different formats
+ */
+export function parseViteBuildOutput(stdout: string, stderr: string, exitCode: number): RawCodeIssue[] {
+    if (exitCode === 0) {
+        return [];
+    }
+
+    const output = `${stdout}\n${stderr}`;
+    const issues: RawCodeIssue[] = [];
+
+    // esbuild: path:line:col: ERROR: message
+    for (const match of output.matchAll(/^(\S+?):(\d+):(\d+): ERROR: (.*)$/gm)) {
+        issues.push({
+            message: match[4].trim(),
+            filePath: match[1],
+            line: parseInt(match[2]),
+            column: parseInt(match[3]),
+            severity: 'error',
+            ruleId: 'build',
+            source: 'vite'
+        });
+    }
+    if (issues.length > 0) {
+        return issues;
+    }
+
+    // rollup: "error during build:" followed by the message and a "file: path:line:col" line
+    const lines = output.split('\n').map(line => line.trim()).filter(Boolean);
+    const errorIndex = lines.findIndex(line => line.startsWith('error during build'));
+    const message = (errorIndex >= 0 ? lines[errorIndex + 1] : undefined) || lines[lines.length - 1] || 'Build failed';
+    const location = output.match(/^file: (.+?):(\d+):(\d+)$/m);
+    return [{
+        message: message.replace(/^\[[^\]]+\]:?\s*/, ''),
+        filePath: location ? location[1] : '',
+        line: location ? parseInt(location[2]) : 0,
+        column: location ? parseInt(location[3]) : undefined,
+        severity: 'error',
+        ruleId: 'build',
+        source: 'vite'
+    }];
+}
+
+/**
+ * Parse the JSON reporter output of `vitest run`, which follows the Jest results format
+ * Suites that fail to load have no assertions, so their error becomes a single failure.
+ * @throws When the output is not valid Vitest JSON
+ */
+export function parseVitestOutput(output: string): TestRunResult {
+    const report = JSON.parse(output) as {
+        success: boolean;
+        numTotalTests: number;
+        numPassedTests: number;
+        numFailedTests: number;
+        testResults: Array<{
+            name: string;
+            status: string;
+            message?: string;
+            assertionResults: Array<{
+                fullName: string;
+                status: string;
+                failureMessages?: string[];
+                location?: { line: number; column: number };
+            }>;
+        }>;
+    };
+
+    const failures: TestFailure[] = [];
+    for (const suite of report.testResults || []) {
+        const failedAssertions = (suite.assertionResults || []).filter(assertion => assertion.status === 'failed');
+        for (const assertion of failedAssertions) {
+            failures.push({
+                testName: assertion.fullName,
+                filePath: suite.name,
+                message: (assertion.failureMessages || []).join('\n').slice(0, 2000),
+                line: assertion.location?.line,
+            });
+        }
+        if (suite.status === 'failed' && failedAssertions.length === 0) {
+            failures.push({
+                testName: 'Test suite failed to run',
+                filePath: suite.name,
+                message: (suite.message || 'Unknown error').slice(0, 2000),
+            });
+        }
+    }
+
+    return {
+        success: report.success && failures.length === 0,
+        numTotalTests: report.numTotalTests,
+        numPassedTests: report.numPassedTests,
+        numFailedTests: Math.max(report.numFailedTests, failures.length),
+        failures,
+    };
+}
+
+export function summarizeIssues(issues: CodeIssue[]) {
+    return {
+        errorCount: issues.filter(issue => issue.severity === 'error').length,
+        warningCount: issues.filter(issue => issue.severity === 'warning').length,
+        infoCount: issues.filter(issue => issue.severity === 'info').length
+    };
+}
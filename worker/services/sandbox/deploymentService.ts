@@ -1,7 +1,7 @@
 import { getSandbox } from '@cloudflare/sandbox';
 import { StructuredLogger } from '../../logger';
 import { env } from 'cloudflare:workers'
-import { DeploymentCredentials, DeploymentResult } from './sandboxTypes';
+import { DeploymentCredentials, DeploymentEnvironment, DeploymentResult } from './sandboxTypes';
 import { getProtocolForHost } from '../../utils/urls';
 
 export interface CFDeploymentArgs {
@@ -11,6 +11,32 @@ export interface CFDeploymentArgs {
     logger: StructuredLogger;
     projectName: string;
     hostname: string;
+    vars?: Record<string, string>;
+    archiveKey?: string;
+}
+
+export interface CFRollbackArgs {
+    credentials?: DeploymentCredentials;
+    archiveKey: string;
+    logger: StructuredLogger;
+    scriptName: string;
+    hostname: string;
+    vars?: Record<string, string>;
+}
+
+// Written next to the extracted bundle for the duration of a deploy, holds the environment variables of the worker
+const DEPLOY_SECRETS_FILE = '.deploy-secrets.json';
+
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Name of the worker serving an environment in the dispatch namespace
+ * Production keeps the project name so existing deployment URLs stay valid
+ */
+export function getEnvironmentScriptName(projectName: string, environment: DeploymentEnvironment): string {
+    return environment === 'production' ? projectName : `${projectName}-${environment}`;
 }
 
 export async function deployToCloudflareWorkers(args: CFDeploymentArgs): Promise<DeploymentResult> {
@@ -25,28 +51,87 @@ export async function deployToCloudflareWorkers(args: CFDeploymentArgs): Promise
     // Extract zip file
     await sandbox.exec(`unzip -o -q ${args.instanceId}.zip -d .`);
     args.logger.info(`[deployToCloudflareWorkers] Extracted zip file to sandbox: ${args.instanceId}`);
-    const deployCmd = `CLOUDFLARE_API_TOKEN=${env.CLOUDFLARE_API_TOKEN} CLOUDFLARE_ACCOUNT_ID=${env.CLOUDFLARE_ACCOUNT_ID} bunx wrangler deploy --dispatch-namespace orange-build-default-namespace`;
-                
+
+    // Workers in user-linked accounts are deployed standalone, only the platform account has the dispatch namespace
+    const accountId = args.credentials?.accountId || env.CLOUDFLARE_ACCOUNT_ID;
+    const apiToken = args.credentials?.apiToken || env.CLOUDFLARE_API_TOKEN;
+    const onPlatform = accountId === env.CLOUDFLARE_ACCOUNT_ID;
+    const namespaceFlag = onPlatform ? ' --dispatch-namespace orange-build-default-namespace' : '';
+
+    // Credentials and environment variable values stay out of the command, which ends up in logs and exec results
+    const secretsFile = `${args.instanceId}/${DEPLOY_SECRETS_FILE}`;
+    const hasVars = Object.keys(args.vars ?? {}).length > 0;
+    if (hasVars) {
+        await sandbox.writeFile(secretsFile, JSON.stringify(args.vars));
+    }
+    const secretsFlag = hasVars ? ` --secrets-file ${DEPLOY_SECRETS_FILE}` : '';
+    const deployCmd = `bunx wrangler deploy${namespaceFlag} --name ${shellQuote(args.projectName)}${secretsFlag}`;
+
     const startTime = Date.now();
-    const deployResult = await sandbox.exec(`cd ${args.instanceId} && ${deployCmd}`);
+    let deployResult: { exitCode: number; stdout: string; stderr: string };
+    try {
+        deployResult = await sandbox.exec(`cd ${args.instanceId} && ${deployCmd}`, {
+            env: { CLOUDFLARE_API_TOKEN: apiToken, CLOUDFLARE_ACCOUNT_ID: accountId },
+        });
+    } finally {
+        if (hasVars) {
+            await sandbox.deleteFile(secretsFile).catch(() => undefined);
+        }
+    }
     const endTime = Date.now();
     const duration = (endTime - startTime) / 1000;
-    args.logger.info(`[deployToCloudflareWorkers] Deployed ${args.instanceId} in ${duration} seconds`, deployResult);
+    const { exitCode, stdout, stderr } = deployResult;
+    args.logger.info(`[deployToCloudflareWorkers] Deployed ${args.instanceId} in ${duration} seconds`, { exitCode, stdout, stderr });
     if (deployResult.exitCode === 0) {
-        // Extract deployed URL from output
-        // const urlMatch = deployResult.stdout.match(/https:\/\/[^\s]+\.workers\.dev/g);
-        // const deployedUrl = urlMatch ? urlMatch[0] : undefined;
-        const deployedUrl = `${getProtocolForHost(args.hostname)}://${args.projectName}.${args.hostname}`;
+        // Platform workers are served through the dispatcher, others from the account's workers.dev subdomain
+        const urlMatch = onPlatform ? null : deployResult.stdout.match(/https:\/\/[^\s]+\.workers\.dev/);
+        if (!onPlatform && !urlMatch) {
+            throw new Error(`[deployToCloudflareWorkers] Deployment succeeded but no workers.dev URL was reported: ${deployResult.stdout}`);
+        }
+        const deployedUrl = urlMatch ? urlMatch[0] : `${getProtocolForHost(args.hostname)}://${args.projectName}.${args.hostname}`;
         args.logger.info(`[deployToCloudflareWorkers] Successfully deployed instance ${args.instanceId}`, { deployedUrl });
+
+        if (args.archiveKey) {
+            await env.DEPLOYMENT_ARCHIVES.put(args.archiveKey, base64Data, {
+                customMetadata: { instanceId: args.instanceId }
+            });
+        }
         
         return {
             success: true,
             message: 'Successfully deployed to Cloudflare Workers',
             deployedUrl,
             deploymentId: `deploy-${args.instanceId}-${Date.now()}`,
+            scriptName: args.projectName,
             output: deployResult.stdout
         };
     } else {
         throw new Error(`[deployToCloudflareWorkers] Deployment failed: STDOUT: ${deployResult.stdout} STDERR: ${deployResult.stderr}`);
     }
 }
+
+/**
+ * Redeploy a bundle stored by a previous deployment, without going through a sandbox instance
+ */
+export async function redeployArchive(args: CFRollbackArgs): Promise<DeploymentResult> {
+    const archive = await env.DEPLOYMENT_ARCHIVES.get(args.archiveKey);
+    if (!archive) {
+        throw new Error(`No stored bundle found for ${args.archiveKey}`);
+    }
+
+    // The bundle extracts into a directory named after the instance it was packed from
+    const instanceId = archive.customMetadata?.instanceId;
+    if (!instanceId) {
+        throw new Error(`Stored bundle ${args.archiveKey} has no instance metadata`);
+    }
+
+    return deployToCloudflareWorkers({
+        credentials: args.credentials,
+        instanceId,
+        base64encodedArchive: await archive.text(),
+        logger: args.logger,
+        projectName: args.scriptName,
+        hostname: args.hostname,
+        vars: args.vars,
+    });
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { env } from 'cloudflare:workers';
+import { getSandboxService } from './factory';
+import { RemoteSandboxServiceClient } from './remoteSandboxService';
+
+// The container SDK does not load in the test runtime
+vi.mock('./sandboxSdkClient', () => ({ SandboxSdkClient: class {} }));
+
+describe('getSandboxService', () => {
+    const runnerUrl = 'http://localhost:8100';
+    let originalServiceType: string;
+
+    beforeEach(() => {
+        originalServiceType = env.SANDBOX_SERVICE_TYPE;
+        env.SANDBOX_SERVICE_TYPE = 'runner';
+        RemoteSandboxServiceClient.init(runnerUrl, 'runner-token');
+    });
+
+    afterEach(() => {
+        env.SANDBOX_SERVICE_TYPE = originalServiceType;
+        vi.restoreAllMocks();
+    });
+
+    it('should send runner requests over HTTP with the session and token', async () => {
+        const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+            Response.json({ success: true, instances: [], count: 0 })
+        );
+
+        const service = getSandboxService('session-123', 'example.com');
+        expect(service).toBeInstanceOf(RemoteSandboxServiceClient);
+
+        const result = await service.listAllInstances();
+        expect(result.success).toBe(true);
+
+        expect(fetchSpy).toHaveBeenCalledTimes(1);
+        const [url, init] = fetchSpy.mock.calls[0];
+        expect(url).toBe(`${runnerUrl}/instances`);
+        expect(init?.method).toBe('GET');
+        const headers = new Headers(init?.headers);
+        expect(headers.get('Authorization')).toBe('Bearer runner-token');
+        expect(headers.get('x-session-id')).toBe('session-123');
+    });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createLogger } from '../../logger';
+import { InstancePoolConfig, PoolCommandRunner, SandboxInstancePool } from './instancePool';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface PoolMarker {
+    poolId: string;
+    templateName: string;
+    createdAt: string;
+}
+
+/**
+ * In-memory stand-in for the .pool directory, answering the shell commands the pool runs
+ */
+class FakePoolDirectory {
+    dirs = new Map<string, number>();   // poolId -> modification time in ms
+    markers = new Map<string, string>();    // poolId -> raw marker content
+    commands: string[] = [];
+    failInstalls = false;
+
+    addReady(poolId: string, ageMs: number): void {
+        const createdAt = Date.now() - ageMs;
+        this.dirs.set(poolId, createdAt);
+        const marker: PoolMarker = { poolId, templateName: poolId.split('--')[0], createdAt: new Date(createdAt).toISOString() };
+        this.markers.set(poolId, JSON.stringify(marker));
+    }
+
+    addWarming(poolId: string, ageMs: number): void {
+        this.dirs.set(poolId, Date.now() - ageMs);
+    }
+
+    run: PoolCommandRunner = async (command) => {
+        this.commands.push(command);
+        let match: RegExpMatchArray | null;
+
+        if (command.startsWith('mkdir -p .pool')) {
+            const ready = [...this.markers.values()].map(marker => `${marker}\n`).join('');
+            const dirs = [...this.dirs].map(([poolId, modifiedAt]) => `${poolId} ${modifiedAt / 1000}\n`).join('');
+            return { exitCode: 0, stdout: `${ready}===WARMING===\n${dirs}`, stderr: '' };
+        }
+        if ((match = command.match(/^mv \.pool\/(\S+) (\S+)/))) {
+            if (!this.dirs.delete(match[1])) {
+                return { exitCode: 1, stdout: '', stderr: 'No such file or directory' };
+            }
+            this.markers.delete(match[1]);
+            return { exitCode: 0, stdout: '', stderr: '' };
+        }
+        if ((match = command.match(/^rm -rf \.pool\/(\S+)/))) {
+            this.dirs.delete(match[1]);
+            this.markers.delete(match[1]);
+            return { exitCode: 0, stdout: '', stderr: '' };
+        }
+        if ((match = command.match(/^cp -r \S+ \.pool\/(\S+) /))) {
+            this.dirs.set(match[1], Date.now());
+            return this.failInstalls
+                ? { exitCode: 1, stdout: '', stderr: 'bun install failed' }
+                : { exitCode: 0, stdout: '', stderr: '' };
+        }
+        if ((match = command.match(/^echo '(.*)' > \.pool\//))) {
+            const marker = JSON.parse(match[1]) as PoolMarker;
+            this.markers.set(marker.poolId, match[1]);
+            return { exitCode: 0, stdout: '', stderr: '' };
+        }
+        throw new Error(`Unexpected command: ${command}`);
+    };
+}
+
+describe('SandboxInstancePool', () => {
+    const config: InstancePoolConfig = {
+        templates: ['react-vite'],
+        size: 2,
+        maxIdleMs: 6 * HOUR_MS,
+        warmupTimeoutMs: HOUR_MS,
+    };
+    let directory: FakePoolDirectory;
+    let ensureTemplateExists: ReturnType<typeof vi.fn>;
+    let pool: SandboxInstancePool;
+
+    beforeEach(() => {
+        directory = new FakePoolDirectory();
+        ensureTemplateExists = vi.fn().mockResolvedValue(undefined);
+        pool = new SandboxInstancePool(directory.run, ensureTemplateExists, createLogger('InstancePoolTest'), config);
+    });
+
+    describe('claim', () => {
+        it('should not touch the sandbox for templates outside the pool', async () => {
+            expect(pool.isPooled('next-app')).toBe(false);
+            expect(await pool.claim('next-app', 'i-1')).toBe(false);
+            expect(directory.commands).toHaveLength(0);
+        });
+
+        it('should treat a pool size of zero as disabled', async () => {
+            pool = new SandboxInstancePool(directory.run, ensureTemplateExists, createLogger('InstancePoolTest'), { ...config, size: 0 });
+            directory.addReady('react-vite--a', 0);
+
+            expect(pool.isPooled('react-vite')).toBe(false);
+            expect(await pool.claim('react-vite', 'i-1')).toBe(false);
+        });
+
+        it('should move the oldest ready instance of the template into place', async () => {
+            directory.addReady('react-vite--new', HOUR_MS);
+            directory.addReady('react-vite--old', 2 * HOUR_MS);
+            directory.addReady('vue-vite--older', 3 * HOUR_MS);
+            directory.addWarming('react-vite--warming', HOUR_MS / 2);
+
+            expect(await pool.claim('react-vite', 'i-1')).toBe(true);
+
+            expect(directory.commands).toContain('mv .pool/react-vite--old i-1 && rm -f .pool/react-vite--old.json');
+            expect([...directory.dirs.keys()]).toEqual(['react-vite--new', 'vue-vite--older', 'react-vite--warming']);
+        });
+
+        it('should skip instances that sat idle too long', async () => {
+            directory.addReady('react-vite--stale', 7 * HOUR_MS);
+
+            expect(await pool.claim('react-vite', 'i-1')).toBe(false);
+            expect(directory.dirs.has('react-vite--stale')).toBe(true);
+        });
+
+        it('should try the next instance when another session claimed one first', async () => {
+            directory.addReady('react-vite--taken', 2 * HOUR_MS);
+            directory.addReady('react-vite--free', HOUR_MS);
+            directory.dirs.delete('react-vite--taken');
+
+            expect(await pool.claim('react-vite', 'i-1')).toBe(true);
+            expect(directory.commands.filter(command => command.startsWith('mv '))).toHaveLength(2);
+            expect(directory.dirs.has('react-vite--free')).toBe(false);
+        });
+
+        it('should skip corrupted markers', async () => {
+            directory.markers.set('react-vite--broken', '{not json');
+            directory.addReady('react-vite--a', HOUR_MS);
+
+            expect(await pool.claim('react-vite', 'i-1')).toBe(true);
+        });
+    });
+
+    describe('evictIdle', () => {
+        it('should remove idle ready instances and installs that never finished', async () => {
+            directory.addReady('react-vite--idle', 7 * HOUR_MS);
+            directory.addReady('react-vite--fresh', HOUR_MS);
+            directory.addWarming('react-vite--stuck', 2 * HOUR_MS);
+            directory.addWarming('react-vite--installing', HOUR_MS / 2);
+
+            expect(await pool.evictIdle()).toBe(2);
+            expect([...directory.dirs.keys()]).toEqual(['react-vite--fresh', 'react-vite--installing']);
+            expect(directory.markers.has('react-vite--idle')).toBe(false);
+        });
+    });
+
+    describe('refill', () => {
+        it('should top up to the configured size counting instances still installing', async () => {
+            directory.addWarming('react-vite--installing', HOUR_MS / 2);
+
+            await pool.refill();
+
+            const entries = [...directory.dirs.keys()].filter(poolId => poolId.startsWith('react-vite--'));
+            expect(entries).toHaveLength(2);
+            expect(directory.markers.size).toBe(1);
+            expect(ensureTemplateExists).toHaveBeenCalledTimes(1);
+        });
+
+        it('should replace evicted instances', async () => {
+            directory.addReady('react-vite--idle', 7 * HOUR_MS);
+            directory.addReady('react-vite--fresh', HOUR_MS);
+
+            await pool.refill();
+
+            expect(directory.dirs.has('react-vite--idle')).toBe(false);
+            expect(directory.dirs.size).toBe(2);
+            expect(directory.markers.size).toBe(2);
+        });
+
+        it('should clean up instances whose install failed', async () => {
+            directory.failInstalls = true;
+
+            await pool.refill();
+
+            expect(directory.dirs.size).toBe(0);
+            expect(directory.markers.size).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,204 @@
+import { env } from 'cloudflare:workers';
+import { StructuredLogger } from '../../logger';
+
+/**
+ * Runs a shell command in the sandbox working directory
+ */
+export type PoolCommandRunner = (command: string) => Promise<{ exitCode: number; stdout: string; stderr: string }>;
+
+export interface InstancePoolConfig {
+    templates: string[];    // Templates kept pre-installed in every sandbox
+    size: number;           // Ready instances kept per template
+    maxIdleMs: number;      // Ready instances older than this are evicted, so template updates get picked up
+    warmupTimeoutMs: number;    // Instances still installing after this long are considered failed
+}
+
+interface PoolEntry {
+    poolId: string;
+    templateName: string;
+    createdAt: string;
+    ready: boolean;
+}
+
+interface PoolMetrics {
+    hits: number;
+    misses: number;
+}
+
+const POOL_DIR = '.pool';  // Hidden so instance cleanup with `rm -rf /app/*` keeps the pool
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_MAX_IDLE_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_WARMUP_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Per isolate, reported with every claim
+const metrics = new Map<string, PoolMetrics>();
+
+export function getInstancePoolConfig(): InstancePoolConfig {
+    const size = parseInt(env.SANDBOX_POOL_SIZE ?? '', 10);
+    return {
+        templates: (env.SANDBOX_POOL_TEMPLATES ?? '').split(',').map(name => name.trim()).filter(Boolean),
+        size: Number.isNaN(size) ? DEFAULT_POOL_SIZE : Math.max(0, size),
+        maxIdleMs: DEFAULT_MAX_IDLE_MS,
+        warmupTimeoutMs: DEFAULT_WARMUP_TIMEOUT_MS,
+    };
+}
+
+function recordClaim(templateName: string, hit: boolean): PoolMetrics & { hitRate: number } {
+    const templateMetrics = metrics.get(templateName) ?? { hits: 0, misses: 0 };
+    if (hit) {
+        templateMetrics.hits++;
+    } else {
+        templateMetrics.misses++;
+    }
+    metrics.set(templateName, templateMetrics);
+    return {
+        ...templateMetrics,
+        hitRate: templateMetrics.hits / (templateMetrics.hits + templateMetrics.misses),
+    };
+}
+
+/**
+ * Pool of template instances with dependencies already installed, kept inside a sandbox container
+ * Entries are directories under .pool with a `<poolId>.json` marker written once `bun install` succeeded.
+ * Claiming moves the directory into place, which is atomic, so concurrent sessions never share an entry.
+ */
+export class SandboxInstancePool {
+    private refilling = new Set<string>();
+
+    constructor(
+        private run: PoolCommandRunner,
+        private ensureTemplateExists: (templateName: string) => Promise<void>,
+        private logger: StructuredLogger,
+        private config: InstancePoolConfig = getInstancePoolConfig(),
+    ) {}
+
+    isPooled(templateName: string): boolean {
+        return this.config.size > 0 && this.config.templates.includes(templateName);
+    }
+
+    private async listEntries(): Promise<PoolEntry[]> {
+        const result = await this.run(`mkdir -p ${POOL_DIR} && for f in ${POOL_DIR}/*.json; do [ -f "$f" ] && cat "$f" && echo; done; echo "===WARMING==="; find ${POOL_DIR} -mindepth 1 -maxdepth 1 -type d -printf '%f %T@\\n'`);
+        if (result.exitCode !== 0) {
+            this.logger.warn('Failed to list pool entries', result.stderr);
+            return [];
+        }
+
+        const [readySection, dirSection = ''] = result.stdout.split('===WARMING===');
+        const entries: PoolEntry[] = [];
+        const readyIds = new Set<string>();
+        for (const line of readySection.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as Omit<PoolEntry, 'ready'>;
+                entries.push({ ...entry, ready: true });
+                readyIds.add(entry.poolId);
+            } catch {
+                this.logger.warn('Skipping corrupted pool marker', line);
+            }
+        }
+
+        // Directories without a marker are still installing
+        for (const line of dirSection.split('\n')) {
+            const [poolId, modifiedAt] = line.trim().split(' ');
+            if (!poolId || readyIds.has(poolId)) continue;
+            entries.push({
+                poolId,
+                templateName: poolId.split('--')[0],
+                createdAt: new Date(parseFloat(modifiedAt) * 1000).toISOString(),
+                ready: false,
+            });
+        }
+        return entries;
+    }
+
+    /**
+     * Move a ready instance of the template to instanceId
+     * @returns Whether an instance was claimed; on a miss the caller sets up the instance from scratch
+     */
+    async claim(templateName: string, instanceId: string): Promise<boolean> {
+        if (!this.isPooled(templateName)) {
+            return false;
+        }
+
+        const startTime = Date.now();
+        const candidates = (await this.listEntries())
+            .filter(entry => entry.ready && entry.templateName === templateName && !this.isExpired(entry))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        let hit = false;
+        for (const entry of candidates) {
+            // mv fails if another session claimed the entry first, in which case try the next one
+            const result = await this.run(`mv ${POOL_DIR}/${entry.poolId} ${instanceId} && rm -f ${POOL_DIR}/${entry.poolId}.json`);
+            if (result.exitCode === 0) {
+                hit = true;
+                break;
+            }
+        }
+
+        const claimMetrics = recordClaim(templateName, hit);
+        this.logger.info(`Instance pool ${hit ? 'hit' : 'miss'} for ${templateName}`, {
+            instanceId,
+            claimMs: Date.now() - startTime,
+            ...claimMetrics,
+        });
+        return hit;
+    }
+
+    private isExpired(entry: PoolEntry): boolean {
+        const age = Date.now() - new Date(entry.createdAt).getTime();
+        return entry.ready ? age > this.config.maxIdleMs : age > this.config.warmupTimeoutMs;
+    }
+
+    /**
+     * Remove instances that sat idle too long or never finished installing
+     */
+    async evictIdle(): Promise<number> {
+        const expired = (await this.listEntries()).filter(entry => this.isExpired(entry));
+        for (const entry of expired) {
+            await this.run(`rm -rf ${POOL_DIR}/${entry.poolId} ${POOL_DIR}/${entry.poolId}.json`);
+        }
+        if (expired.length > 0) {
+            this.logger.info(`Evicted ${expired.length} idle pool instances`, { poolIds: expired.map(entry => entry.poolId) });
+        }
+        return expired.length;
+    }
+
+    /**
+     * Top up every pooled template to the configured size, evicting idle instances first
+     * Safe to call without awaiting; instances still installing count towards the size
+     */
+    async refill(): Promise<void> {
+        for (const templateName of this.config.templates) {
+            if (this.refilling.has(templateName)) continue;
+            this.refilling.add(templateName);
+            try {
+                await this.evictIdle();
+                const existing = (await this.listEntries()).filter(entry => entry.templateName === templateName);
+                for (let i = existing.length; i < this.config.size; i++) {
+                    await this.warmInstance(templateName);
+                }
+            } catch (error) {
+                this.logger.warn(`Failed to refill instance pool for ${templateName}`, error);
+            } finally {
+                this.refilling.delete(templateName);
+            }
+        }
+    }
+
+    private async warmInstance(templateName: string): Promise<void> {
+        const poolId = `${templateName}--${crypto.randomUUID()}`;
+        await this.ensureTemplateExists(templateName);
+
+        const result = await this.run(`cp -r ${templateName} ${POOL_DIR}/${poolId} && cd ${POOL_DIR}/${poolId} && bun install`);
+        if (result.exitCode !== 0) {
+            this.logger.warn(`Failed to warm pool instance for ${templateName}`, result.stderr);
+            await this.run(`rm -rf ${POOL_DIR}/${poolId}`);
+            return;
+        }
+
+        const entry = { poolId, templateName, createdAt: new Date().toISOString() };
+        await this.run(`echo '${JSON.stringify(entry)}' > ${POOL_DIR}/${poolId}.json`);
+        this.logger.info(`Warmed pool instance ${poolId}`);
+    }
+}
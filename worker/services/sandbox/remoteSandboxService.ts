@@ -12,6 +12,7 @@ import {
     ClearErrorsResponse,
     StaticAnalysisResponse,
     DeploymentCredentials,
+    DeploymentOptions,
     DeploymentResult,
     GitHubInitRequest, GitHubInitResponse, GitHubPushRequest, GitHubPushResponse,
     GetLogsResponse,
@@ -216,9 +217,10 @@ export class RemoteSandboxServiceClient extends BaseSandboxService{
      * Deploy a runner instance to Cloudflare Workers.
      * @param instanceId The ID of the runner instance to deploy
      * @param credentials Optional Cloudflare deployment credentials
+     * @param options Optional target environment, variables and archive key
      */
-    async deployToCloudflareWorkers(instanceId: string, credentials?: DeploymentCredentials): Promise<DeploymentResult> {
-        const requestBody = credentials || {};
+    async deployToCloudflareWorkers(instanceId: string, credentials?: DeploymentCredentials, options?: DeploymentOptions): Promise<DeploymentResult> {
+        const requestBody = { ...credentials, ...options };
         return this.makeRequest(`/instances/${instanceId}/deploy`, 'POST', DeploymentResultSchema, requestBody);
     }
 
@@ -13,13 +13,13 @@ import {
     RuntimeErrorResponse,
     ClearErrorsResponse,
     StaticAnalysisResponse,
+    DeploymentCredentials,
+    DeploymentOptions,
     DeploymentResult,
     FileTreeNode,
     RuntimeError,
     CommandExecutionResult,
-    CodeIssue,
     InstanceDetails,
-    LintSeverity,
     TemplateInfo,
     TemplateDetails,
     GitHubInitRequest, GitHubInitResponse, GitHubPushRequest, GitHubPushResponse,
@@ -33,10 +33,12 @@ import { createObjectLogger } from '../../logger';
 import { env } from 'cloudflare:workers'
 import { BaseSandboxService } from './BaseSandboxService';
 
-import { deployToCloudflareWorkers } from './deploymentService';
+import { deployToCloudflareWorkers, getEnvironmentScriptName } from './deploymentService';
 import { TokenService } from '../auth/tokenService';
 import { CodeFixResult, FileFetcher, fixProjectIssues } from '../code-fixer';
 import { FileObject } from '../code-fixer/types';
+import { DEFAULT_ANALYZERS, runStaticAnalyzers } from './staticAnalyzers';
+import { SandboxInstancePool } from './instancePool';
 // Export the Sandbox class in your Worker
 export { Sandbox as UserAppSandboxService, Sandbox as DeployerService} from "@cloudflare/sandbox";
 
@@ -96,6 +98,7 @@ export class SandboxSdkClient extends BaseSandboxService {
     private sandbox: SandboxType;
     private hostname: string;
     private metadataCache = new Map<string, InstanceMetadata>();
+    private instancePool: SandboxInstancePool;
     
     private envVars?: Record<string, string>;
 
@@ -114,6 +117,11 @@ export class SandboxSdkClient extends BaseSandboxService {
         this.logger.setFields({
             sandboxId: this.sandboxId
         });
+        this.instancePool = new SandboxInstancePool(
+            (command) => this.getSandbox().exec(command),
+            (templateName) => this.ensureTemplateExists(templateName),
+            this.logger
+        );
         this.logger.info('Initialized SandboxSdkClient session', { sandboxId: this.sandboxId });
     }
 
@@ -333,7 +341,8 @@ export class SandboxSdkClient extends BaseSandboxService {
                 files: filesResponse.files,
                 language: catalogInfo?.language,
                 deps: dependencies,
-                frameworks: catalogInfo?.frameworks || []
+                frameworks: catalogInfo?.frameworks || [],
+                analyzers: catalogInfo?.analyzers || DEFAULT_ANALYZERS
             };
             
             this.logger.info(`Successfully retrieved ${filesResponse.files.length} files for template ${templateName}`);
@@ -624,7 +633,7 @@ export class SandboxSdkClient extends BaseSandboxService {
         }
     }
 
-    private async setupInstance(instanceId: string, projectName: string, localEnvVars?: Record<string, string>): Promise<{previewURL: string, tunnelURL: string, processId: string, allocatedPort: number} | undefined> {
+    private async setupInstance(instanceId: string, projectName: string, localEnvVars?: Record<string, string>, preinstalled: boolean = false): Promise<{previewURL: string, tunnelURL: string, processId: string, allocatedPort: number} | undefined> {
         try {
             const sandbox = this.getSandbox();
             // Update project configuration with the specified project name
@@ -636,9 +645,11 @@ export class SandboxSdkClient extends BaseSandboxService {
             // Start cloudflared tunnel using the same port as dev server
             const tunnelPromise = this.startCloudflaredTunnel(instanceId, allocatedPort);
                 
-            this.logger.info(`Installing dependencies for ${instanceId}`);
-            const installResult = await this.executeCommand(instanceId, `bun install`);
-            this.logger.info(`Install result: ${installResult.stdout}`);
+            // Instances claimed from the pool already have their dependencies installed
+            const installResult = preinstalled
+                ? { exitCode: 0, stdout: '', stderr: '' }
+                : await this.executeCommand(instanceId, `bun install`);
+            this.logger.info(`Install result for ${instanceId}: ${preinstalled ? 'preinstalled' : installResult.stdout}`);
 
             if (localEnvVars) {
                 await this.setLocalEnvVars(instanceId, localEnvVars);
@@ -699,14 +710,21 @@ export class SandboxSdkClient extends BaseSandboxService {
             await this.setAuthEnvironmentVariables(jwtToken);
             
             let results: {previewURL: string, tunnelURL: string, processId: string, allocatedPort: number} | undefined;
-            await this.ensureTemplateExists(templateName);
-            
-            const moveTemplateResult = await this.getSandbox().exec(`mv ${templateName} ${instanceId}`);
-            if (moveTemplateResult.exitCode !== 0) {
-                throw new Error(`Failed to move template: ${moveTemplateResult.stderr}`);
+            const preinstalled = await this.instancePool.claim(templateName, instanceId);
+            if (!preinstalled) {
+                await this.ensureTemplateExists(templateName);
+                
+                const moveTemplateResult = await this.getSandbox().exec(`mv ${templateName} ${instanceId}`);
+                if (moveTemplateResult.exitCode !== 0) {
+                    throw new Error(`Failed to move template: ${moveTemplateResult.stderr}`);
+                }
+            }
+            if (this.instancePool.isPooled(templateName)) {
+                // Top up the pool in the background for the next session
+                this.instancePool.refill();
             }
             
-            const setupPromise = () => this.setupInstance(instanceId, projectName, localEnvVars);
+            const setupPromise = () => this.setupInstance(instanceId, projectName, localEnvVars, preinstalled);
             if (wait) {
                 const setupResult = await setupPromise();
                 if (!setupResult) {
@@ -1298,150 +1316,19 @@ export class SandboxSdkClient extends BaseSandboxService {
     // CODE ANALYSIS & FIXING
     // ==========================================
 
+    /**
+     * Analyzers declared by the instance's template in the catalog
+     */
+    private async getInstanceAnalyzers(instanceId: string): Promise<string[]> {
+        const metadata = await this.getInstanceMetadata(instanceId);
+        const catalogInfo = metadata ? await this.getTemplateFromCatalog(metadata.templateName) : null;
+        return catalogInfo?.analyzers || DEFAULT_ANALYZERS;
+    }
+
     async runStaticAnalysisCode(instanceId: string): Promise<StaticAnalysisResponse> {
         try {
-            const lintIssues: CodeIssue[] = [];
-            const typecheckIssues: CodeIssue[] = [];
-            
-            // Run ESLint and TypeScript check in parallel
-            const [lintResult, tscResult] = await Promise.allSettled([
-                this.executeCommand(instanceId, 'bun run lint'),
-                this.executeCommand(instanceId, 'bunx tsc -b --incremental --noEmit --pretty false')
-            ]);
-
-            const results: StaticAnalysisResponse = {
-                success: true,
-                lint: {
-                    issues: [],
-                    summary: {
-                        errorCount: 0,
-                        warningCount: 0,
-                        infoCount: 0
-                    },
-                    rawOutput: ''
-                },
-                typecheck: {
-                    issues: [],
-                    summary: {
-                        errorCount: 0,
-                        warningCount: 0,
-                        infoCount: 0
-                    },
-                    rawOutput: ''
-                }
-            };
-            
-            // Process ESLint results
-            if (lintResult.status === 'fulfilled') {
-                try {
-                    const lintData = JSON.parse(lintResult.value.stdout) as Array<{
-                        filePath: string;
-                        messages: Array<{
-                            message: string;
-                            line?: number;
-                            column?: number;
-                            severity: number;
-                            ruleId?: string;
-                        }>;
-                    }>;
-                    
-                    for (const fileResult of lintData) {
-                        for (const message of fileResult.messages || []) {
-                            lintIssues.push({
-                                message: message.message,
-                                filePath: fileResult.filePath,
-                                line: message.line || 0,
-                                column: message.column,
-                                severity: this.mapESLintSeverity(message.severity),
-                                ruleId: message.ruleId,
-                                source: 'eslint'
-                            });
-                        }
-                    }
-                } catch (error) {
-                    this.logger.warn('Failed to parse ESLint output', error);
-                }
-
-                results.lint.issues = lintIssues;
-                results.lint.summary = {
-                    errorCount: lintIssues.filter(issue => issue.severity === 'error').length,
-                    warningCount: lintIssues.filter(issue => issue.severity === 'warning').length,
-                    infoCount: lintIssues.filter(issue => issue.severity === 'info').length
-                };
-                results.lint.rawOutput = `STDOUT: ${lintResult.value.stdout}\nSTDERR: ${lintResult.value.stderr}`;
-            } else if (lintResult.status === 'rejected') {
-                this.logger.warn('ESLint analysis failed', lintResult.reason);
-            }
-            
-            // Process TypeScript check results
-            if (tscResult.status === 'fulfilled') {
-                try {
-                    // TypeScript errors can come from either stdout or stderr
-                    const output = tscResult.value.stderr || tscResult.value.stdout;
-                    
-                    if (!output || output.trim() === '') {
-                        this.logger.info('No TypeScript output to parse');
-                    } else {
-                        this.logger.info(`Parsing TypeScript output: ${output.substring(0, 200)}...`);
-                        
-                        // Split by lines and parse each error
-                        const lines = output.split('\n');
-                        let currentError: any = null;
-                        
-                        for (const line of lines) {
-                            // Match TypeScript error format: path(line,col): error TSxxxx: message
-                            const match = line.match(/^(.+?)\((\d+),(\d+)\): error TS(\d+): (.*)$/);
-                            if (match) {
-                                // If we have a previous error being built, add it
-                                if (currentError) {
-                                    typecheckIssues.push(currentError);
-                                }
-                                
-                                // Start building new error
-                                currentError = {
-                                    message: match[5].trim(),
-                                    filePath: match[1].trim(),
-                                    line: parseInt(match[2]),
-                                    column: parseInt(match[3]),
-                                    severity: 'error' as const,
-                                    source: 'typescript',
-                                    ruleId: `TS${match[4]}`
-                                };
-                                
-                                this.logger.info(`Found TypeScript error: ${currentError.filePath}:${currentError.line} - ${currentError.ruleId}`);
-                            } else if (currentError && line.trim() && !line.startsWith('src/') && !line.includes(': error TS')) {
-                                // This might be a continuation of the error message
-                                currentError.message += ' ' + line.trim();
-                            }
-                        }
-                        
-                        // Add the last error if it exists
-                        if (currentError) {
-                            typecheckIssues.push(currentError);
-                        }
-                        
-                        this.logger.info(`Parsed ${typecheckIssues.length} TypeScript errors`);
-                    }
-                } catch (error) {
-                    this.logger.warn('Failed to parse TypeScript output', error);
-                }
-                
-                results.typecheck.issues = typecheckIssues;
-                results.typecheck.summary = {
-                    errorCount: typecheckIssues.filter(issue => issue.severity === 'error').length,
-                    warningCount: typecheckIssues.filter(issue => issue.severity === 'warning').length,
-                    infoCount: typecheckIssues.filter(issue => issue.severity === 'info').length
-                };
-                results.typecheck.rawOutput = `STDOUT: ${tscResult.value.stdout}\nSTDERR: ${tscResult.value.stderr}`;
-            } else if (tscResult.status === 'rejected') {
-                this.logger.warn('TypeScript analysis failed', tscResult.reason);
-            }
-
-            this.logger.info(`Analysis completed: ${lintIssues.length} lint issues, ${typecheckIssues.length} typecheck issues`);
-
-            return {
-                ...results
-            };
+            const analyzerIds = await this.getInstanceAnalyzers(instanceId);
+            return await runStaticAnalyzers(analyzerIds, (command) => this.executeCommand(instanceId, command), this.logger);
         } catch (error) {
             this.logger.error('runStaticAnalysisCode', error, { instanceId });
             return {
@@ -1510,27 +1397,26 @@ export class SandboxSdkClient extends BaseSandboxService {
         }
     }
 
-    private mapESLintSeverity(severity: number): LintSeverity {
-        switch (severity) {
-            case 1: return 'warning';
-            case 2: return 'error';
-            default: return 'info';
-        }
-    }
-
     // ==========================================
     // DEPLOYMENT
     // ==========================================
 
-    async deployToCloudflareWorkers(instanceId: string): Promise<DeploymentResult> {
+    async deployToCloudflareWorkers(instanceId: string, credentials?: DeploymentCredentials, options?: DeploymentOptions): Promise<DeploymentResult> {
         try {
+            const projectName = (await this.getInstanceMetadata(instanceId))?.projectName;
+            if (!projectName) {
+                throw new Error(`Instance metadata not found for ${instanceId}`);
+            }
             const base64Data = await this.packInstance(instanceId, true);
-            return deployToCloudflareWorkers({
+            return await deployToCloudflareWorkers({
+                credentials,
                 instanceId,
                 base64encodedArchive: base64Data,
                 logger: this.logger,
-                projectName: this.metadataCache.get(instanceId)?.projectName || '',
-                hostname: this.hostname
+                projectName: getEnvironmentScriptName(projectName, options?.environment ?? 'production'),
+                hostname: this.hostname,
+                vars: options?.vars,
+                archiveKey: options?.archiveKey
             });
             
         } catch (error) {
@@ -34,6 +34,7 @@ export const TemplateDetailsSchema = z.object({
     language: z.string().optional(),
     deps: z.record(z.string(), z.string()),
     frameworks: z.array(z.string()).optional(),
+    analyzers: z.array(z.string()).optional(), // Static analyzers that apply to the template, see staticAnalyzers.ts
 })
 export type TemplateDetails = z.infer<typeof TemplateDetailsSchema>
 
@@ -86,6 +87,7 @@ export const TemplateInfoSchema = z.object({
     name: z.string(),
     language: z.string().optional(),
     frameworks: z.array(z.string()).optional(),
+    analyzers: z.array(z.string()).optional(),
     description: z.object({
         selection: z.string(),
         usage: z.string(),
@@ -337,10 +339,32 @@ export const StaticAnalysisResponseSchema = z.object({
     success: z.boolean(),
     lint: CodeIssueResponseSchema,
     typecheck: CodeIssueResponseSchema,
+    analyzers: z.record(z.string(), CodeIssueResponseSchema).optional(), // One section per analyzer that ran, keyed by analyzer id
     error: z.string().optional()
 })
 export type StaticAnalysisResponse = z.infer<typeof StaticAnalysisResponseSchema>
 
+// --- Test Runs ---
+
+export const TestFailureSchema = z.object({
+    testName: z.string(),
+    filePath: z.string(),
+    message: z.string(),
+    line: z.number().optional(),
+})
+export type TestFailure = z.infer<typeof TestFailureSchema>
+
+export const TestRunResultSchema = z.object({
+    success: z.boolean(),
+    numTotalTests: z.number(),
+    numPassedTests: z.number(),
+    numFailedTests: z.number(),
+    failures: z.array(TestFailureSchema),
+    rawOutput: z.string().optional(),
+    error: z.string().optional()
+})
+export type TestRunResult = z.infer<typeof TestRunResultSchema>
+
 // --- Cloudflare Deployment ---
 
 // /instances/:id/deploy (POST) - Request body
@@ -350,12 +374,24 @@ export const DeploymentCredentialsSchema = z.object({
 })
 export type DeploymentCredentials = z.infer<typeof DeploymentCredentialsSchema>
 
+export const DeploymentEnvironmentSchema = z.enum(['preview', 'production'])
+export type DeploymentEnvironment = z.infer<typeof DeploymentEnvironmentSchema>
+
+// /instances/:id/deploy (POST) - Request body, alongside the credentials
+export const DeploymentOptionsSchema = z.object({
+    environment: DeploymentEnvironmentSchema.optional(),
+    vars: z.record(z.string(), z.string()).optional(), // Plain text variables bound to the deployed worker
+    archiveKey: z.string().optional(), // Store the deployed bundle under this key for later rollback
+})
+export type DeploymentOptions = z.infer<typeof DeploymentOptionsSchema>
+
 // /instances/:id/deploy (POST) - Response
 export const DeploymentResultSchema = z.object({
     success: z.boolean(),
     message: z.string(),
     deployedUrl: z.string().optional(),
     deploymentId: z.string().optional(),
+    scriptName: z.string().optional(),
     output: z.string().optional(),
     error: z.string().optional(),
 })
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLogger } from '../../logger';
+import { AnalyzerCommandResult, getStaticAnalyzer, runStaticAnalyzers, StaticAnalyzer } from './staticAnalyzers';
+
+const logger = createLogger('StaticAnalyzersTest');
+
+function analyzer(id: string): StaticAnalyzer {
+    const registered = getStaticAnalyzer(id);
+    if (!registered) {
+        throw new Error(`Analyzer ${id} is not registered`);
+    }
+    return registered;
+}
+
+function result(overrides: Partial<AnalyzerCommandResult> = {}): AnalyzerCommandResult {
+    return { stdout: '', stderr: '', exitCode: 1, ...overrides };
+}
+
+const eslintOutput = JSON.stringify([
+    {
+        filePath: '/app/src/App.tsx',
+        messages: [
+            { message: "'x' is defined but never used.", line: 3, column: 7, severity: 1, ruleId: '@typescript-eslint/no-unused-vars' },
+            { message: 'img elements must have an alt prop.', line: 12, column: 9, severity: 2, ruleId: 'jsx-a11y/alt-text' },
+        ],
+    },
+    { filePath: '/app/src/main.tsx', messages: [] },
+]);
+
+describe('static analyzers', () => {
+    describe('eslint', () => {
+        it('should parse every message with its ESLint severity', () => {
+            const issues = analyzer('eslint').parse(result({ stdout: eslintOutput }));
+
+            expect(issues).toEqual([
+                {
+                    message: "'x' is defined but never used.",
+                    filePath: '/app/src/App.tsx',
+                    line: 3,
+                    column: 7,
+                    severity: 1,
+                    ruleId: '@typescript-eslint/no-unused-vars',
+                    source: 'eslint',
+                },
+                expect.objectContaining({ line: 12, severity: 2, ruleId: 'jsx-a11y/alt-text' }),
+            ]);
+            expect(issues.map(issue => analyzer('eslint').mapSeverity(issue.severity))).toEqual(['warning', 'error']);
+        });
+
+        it('should throw on output that is not ESLint JSON', () => {
+            expect(() => analyzer('eslint').parse(result({ stdout: 'Oops! Something went wrong!' }))).toThrow();
+        });
+    });
+
+    describe('typescript', () => {
+        it('should fold continuation lines into the previous error', () => {
+            const output = [
+                "src/App.tsx(4,10): error TS2322: Type 'string' is not assignable to type 'number'.",
+                "  Types of property 'id' are incompatible.",
+                "src/lib/utils.ts(1,21): error TS2307: Cannot find module 'clsx' or its corresponding type declarations.",
+            ].join('\n');
+
+            const issues = analyzer('typescript').parse(result({ stdout: output }));
+
+            expect(issues).toEqual([
+                {
+                    message: "Type 'string' is not assignable to type 'number'. Types of property 'id' are incompatible.",
+                    filePath: 'src/App.tsx',
+                    line: 4,
+                    column: 10,
+                    severity: 'error',
+                    source: 'typescript',
+                    ruleId: 'TS2322',
+                },
+                expect.objectContaining({ filePath: 'src/lib/utils.ts', line: 1, column: 21, ruleId: 'TS2307' }),
+            ]);
+        });
+
+        it('should prefer stderr when TypeScript writes errors there', () => {
+            const issues = analyzer('typescript').parse(result({
+                stdout: 'Version 5.8.3',
+                stderr: 'src/main.tsx(2,1): error TS1005: \';\' expected.',
+            }));
+
+            expect(issues).toHaveLength(1);
+            expect(issues[0].ruleId).toBe('TS1005');
+        });
+    });
+
+    describe('stylelint', () => {
+        const stylelintOutput = JSON.stringify([
+            {
+                source: '/app/src/index.css',
+                warnings: [
+                    { line: 5, column: 3, rule: 'color-no-invalid-hex', severity: 'error', text: 'Unexpected invalid hex color "#ggg" (color-no-invalid-hex)' },
+                    { line: 9, column: 1, rule: 'no-duplicate-selectors', severity: 'warning', text: 'Unexpected duplicate selector ".card" (no-duplicate-selectors)' },
+                ],
+            },
+        ]);
+
+        it('should read the report from stderr and strip the rule name from messages', () => {
+            const issues = analyzer('stylelint').parse(result({ stderr: stylelintOutput }));
+
+            expect(issues[0]).toEqual({
+                message: 'Unexpected invalid hex color "#ggg"',
+                filePath: '/app/src/index.css',
+                line: 5,
+                column: 3,
+                severity: 'error',
+                ruleId: 'color-no-invalid-hex',
+                source: 'stylelint',
+            });
+            expect(issues.map(issue => analyzer('stylelint').mapSeverity(issue.severity))).toEqual(['error', 'warning']);
+        });
+
+        it('should read the report from stdout on older versions', () => {
+            const issues = analyzer('stylelint').parse(result({ stdout: stylelintOutput, stderr: 'deprecation warning' }));
+
+            expect(issues).toHaveLength(2);
+        });
+    });
+
+    describe('vite-build', () => {
+        it('should report nothing for a successful build', () => {
+            expect(analyzer('vite-build').parse(result({ stdout: 'built in 1.2s', exitCode: 0 }))).toEqual([]);
+        });
+
+        it('should parse esbuild errors', () => {
+            const issues = analyzer('vite-build').parse(result({
+                stderr: 'src/App.tsx:8:14: ERROR: Expected ";" but found "}"\nsrc/main.tsx:1:0: ERROR: Unexpected "<<"',
+            }));
+
+            expect(issues).toEqual([
+                {
+                    message: 'Expected ";" but found "}"',
+                    filePath: 'src/App.tsx',
+                    line: 8,
+                    column: 14,
+                    severity: 'error',
+                    ruleId: 'build',
+                    source: 'vite',
+                },
+                expect.objectContaining({ filePath: 'src/main.tsx', line: 1, column: 0 }),
+            ]);
+        });
+
+        it('should parse rollup errors with their file location', () => {
+            const issues = analyzer('vite-build').parse(result({
+                stderr: [
+                    'error during build:',
+                    '[vite:load-fallback] Could not load /app/src/components/Missing.tsx: ENOENT: no such file or directory',
+                    'file: /app/src/App.tsx:3:22',
+                ].join('\n'),
+            }));
+
+            expect(issues).toEqual([{
+                message: 'Could not load /app/src/components/Missing.tsx: ENOENT: no such file or directory',
+                filePath: '/app/src/App.tsx',
+                line: 3,
+                column: 22,
+                severity: 'error',
+                ruleId: 'build',
+                source: 'vite',
+            }]);
+        });
+
+        it('should fall back to the last output line when the error has no known format', () => {
+            const issues = analyzer('vite-build').parse(result({ stderr: 'transforming...\nKilled' }));
+
+            expect(issues).toEqual([expect.objectContaining({ message: 'Killed', filePath: '', line: 0 })]);
+        });
+    });
+
+    describe('jsx-a11y', () => {
+        it('should keep only accessibility rules and downgrade their severity', () => {
+            const a11y = analyzer('jsx-a11y');
+            const issues = a11y.parse(result({ stdout: eslintOutput }));
+
+            expect(issues.map(issue => issue.ruleId)).toEqual(['jsx-a11y/alt-text']);
+            expect(a11y.mapSeverity(2)).toBe('warning');
+            expect(a11y.mapSeverity(1)).toBe('info');
+        });
+    });
+
+    describe('runStaticAnalyzers', () => {
+        it('should collect one section per analyzer and mirror lint and typecheck', async () => {
+            const run = vi.fn(async (command: string) => command === analyzer('eslint').command
+                ? result({ stdout: eslintOutput })
+                : result({ stdout: "src/App.tsx(4,10): error TS2322: Type 'string' is not assignable to type 'number'." }));
+
+            const response = await runStaticAnalyzers(['eslint', 'typescript', 'unknown'], run, logger);
+
+            expect(run).toHaveBeenCalledTimes(2);
+            expect(response.lint.issues.map(issue => issue.severity)).toEqual(['warning', 'error']);
+            expect(response.lint.summary).toEqual({ errorCount: 1, warningCount: 1, infoCount: 0 });
+            expect(response.typecheck.issues).toHaveLength(1);
+            expect(Object.keys(response.analyzers ?? {})).toEqual(['eslint', 'typescript']);
+        });
+
+        it('should return an empty section for analyzers that fail to run or parse', async () => {
+            const run = vi.fn(async (command: string) => {
+                if (command === analyzer('stylelint').command) {
+                    throw new Error('container restarted');
+                }
+                return result({ stdout: 'not json' });
+            });
+
+            const response = await runStaticAnalyzers(['eslint', 'stylelint'], run, logger);
+
+            expect(response.success).toBe(true);
+            expect(response.analyzers?.eslint.issues).toEqual([]);
+            expect(response.analyzers?.stylelint).toEqual({
+                issues: [],
+                summary: { errorCount: 0, warningCount: 0, infoCount: 0 },
+                rawOutput: '',
+            });
+            expect(response.typecheck).toEqual({ issues: [] });
+        });
+    });
+});
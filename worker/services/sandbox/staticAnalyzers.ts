@@ -0,0 +1,153 @@
+import { CodeIssue, CodeIssueResponse, LintSeverity, StaticAnalysisResponse } from './sandboxTypes';
+import {
+    mapESLintSeverity,
+    parseESLintOutput,
+    parseStylelintOutput,
+    parseTypeScriptOutput,
+    parseViteBuildOutput,
+    RawCodeIssue,
+    summarizeIssues,
+} from './analysisParsers';
+import { StructuredLogger } from '../../logger';
+
+export interface AnalyzerCommandResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+}
+
+/**
+ * A static analysis tool run inside an instance's directory
+ */
+export interface StaticAnalyzer {
+    id: string;             // Key of the analyzer's section in StaticAnalysisResponse.analyzers
+    description: string;
+    command: string;
+    parse(result: AnalyzerCommandResult): RawCodeIssue[];
+    mapSeverity(severity: string | number): LintSeverity;
+}
+
+/**
+ * Analyzers run for templates that don't declare any
+ */
+export const DEFAULT_ANALYZERS = ['eslint', 'typescript'];
+
+function mapStylelintSeverity(severity: string | number): LintSeverity {
+    return severity === 'error' ? 'error' : severity === 'warning' ? 'warning' : 'info';
+}
+
+// Runs the template's own ESLint config with the recommended jsx-a11y rules added on top
+const A11Y_ESLINT_CONFIG = `import base from '../eslint.config.js';
+import jsxA11y from 'eslint-plugin-jsx-a11y';
+export default [...base, jsxA11y.flatConfigs.recommended];`;
+
+const analyzers = new Map<string, StaticAnalyzer>();
+
+export function registerStaticAnalyzer(analyzer: StaticAnalyzer): void {
+    analyzers.set(analyzer.id, analyzer);
+}
+
+export function getStaticAnalyzer(id: string): StaticAnalyzer | undefined {
+    return analyzers.get(id);
+}
+
+registerStaticAnalyzer({
+    id: 'eslint',
+    description: 'ESLint with the template lint config',
+    command: 'bun run lint',
+    parse: ({ stdout }) => parseESLintOutput(stdout),
+    mapSeverity: mapESLintSeverity,
+});
+
+registerStaticAnalyzer({
+    id: 'typescript',
+    description: 'TypeScript type check',
+    command: 'bunx tsc -b --incremental --noEmit --pretty false',
+    // TypeScript errors can come from either stdout or stderr
+    parse: ({ stdout, stderr }) => parseTypeScriptOutput(stderr || stdout),
+    mapSeverity: () => 'error',
+});
+
+registerStaticAnalyzer({
+    id: 'stylelint',
+    description: 'stylelint for CSS files',
+    command: `bunx stylelint "src/**/*.css" --formatter json --allow-empty-input`,
+    parse: ({ stdout, stderr }) => parseStylelintOutput(stdout, stderr),
+    mapSeverity: mapStylelintSeverity,
+});
+
+registerStaticAnalyzer({
+    id: 'vite-build',
+    description: 'Production build with Vite',
+    // Build into node_modules so the deployable dist directory is left untouched
+    command: 'bunx vite build --logLevel error --outDir node_modules/.analysis-build --emptyOutDir',
+    parse: ({ stdout, stderr, exitCode }) => parseViteBuildOutput(stdout, stderr, exitCode),
+    mapSeverity: () => 'error',
+});
+
+registerStaticAnalyzer({
+    id: 'jsx-a11y',
+    description: 'Accessibility lint with eslint-plugin-jsx-a11y',
+    command: `cat > node_modules/.a11y.eslint.config.js << 'EOF'\n${A11Y_ESLINT_CONFIG}\nEOF\nbunx eslint -c node_modules/.a11y.eslint.config.js --format json src`,
+    parse: ({ stdout }) => parseESLintOutput(stdout).filter(issue => issue.ruleId?.startsWith('jsx-a11y/')),
+    // Accessibility findings should not block generation like broken code does
+    mapSeverity: (severity) => severity === 2 ? 'warning' : 'info',
+});
+
+/**
+ * Run analyzers in parallel and collect one section per analyzer
+ * `lint` and `typecheck` mirror the ESLint and TypeScript sections for existing consumers.
+ */
+export async function runStaticAnalyzers(
+    analyzerIds: string[],
+    run: (command: string) => Promise<AnalyzerCommandResult>,
+    logger: StructuredLogger
+): Promise<StaticAnalysisResponse> {
+    const selected = analyzerIds
+        .map(id => {
+            const analyzer = getStaticAnalyzer(id);
+            if (!analyzer) {
+                logger.warn(`Unknown static analyzer ${id}, skipping`);
+            }
+            return analyzer;
+        })
+        .filter((analyzer): analyzer is StaticAnalyzer => !!analyzer);
+
+    const results = await Promise.allSettled(selected.map(analyzer => run(analyzer.command)));
+
+    const sections: Record<string, CodeIssueResponse> = {};
+    selected.forEach((analyzer, index) => {
+        const result = results[index];
+        if (result.status === 'rejected') {
+            logger.warn(`${analyzer.id} analysis failed`, result.reason);
+            sections[analyzer.id] = { issues: [], summary: summarizeIssues([]), rawOutput: '' };
+            return;
+        }
+
+        let issues: CodeIssue[] = [];
+        try {
+            issues = analyzer.parse(result.value).map(issue => ({
+                ...issue,
+                severity: analyzer.mapSeverity(issue.severity),
+            }));
+        } catch (error) {
+            logger.warn(`Failed to parse ${analyzer.id} output`, error);
+        }
+        sections[analyzer.id] = {
+            issues,
+            summary: summarizeIssues(issues),
+            rawOutput: `STDOUT: ${result.value.stdout}\nSTDERR: ${result.value.stderr}`
+        };
+    });
+
+    logger.info('Static analysis completed', Object.fromEntries(
+        Object.entries(sections).map(([id, section]) => [id, section.issues.length])
+    ));
+
+    return {
+        success: true,
+        lint: sections.eslint ?? { issues: [] },
+        typecheck: sections.typescript ?? { issues: [] },
+        analyzers: sections,
+    };
+}
@@ -9,6 +9,16 @@
  */
 export type OAuthProvider = 'google' | 'github';
 
+/**
+ * Permissions an API key can be granted
+ * apps:read - list and inspect apps and track generations
+ * codegen:write - start generations and drive them over the WebSocket
+ * deploy - deploy, roll back and configure app environments
+ * export - export generated code to GitHub
+ */
+export const API_KEY_SCOPES = ['apps:read', 'codegen:write', 'deploy', 'export'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
 /**
  * Enhanced user profile with computed properties
  */
@@ -34,6 +44,12 @@ export interface AuthUser {
   theme?: 'light' | 'dark' | 'system';
   timezone?: string;
   preferences?: Record<string, unknown>;
+
+  // Set when the request authenticated with an API key instead of a session
+  apiKey?: {
+    id: string;
+    scopes: ApiKeyScope[];
+  };
 }
 
 /**
@@ -163,7 +179,7 @@ export interface ApiKeyInfo {
   keyPreview: string; // First few characters for display
   
   // Security and access control
-  scopes: string[];
+  scopes: ApiKeyScope[];
   isActive: boolean;
   
   // Usage tracking
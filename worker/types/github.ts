@@ -7,11 +7,14 @@ export interface GitHubExportOptions {
     isPrivate: boolean;
     description?: string;
     userId?: string;
+    pullRequest?: boolean;  // Push to a new branch and open a pull request instead of committing to main
 }
 
 export interface GitHubExportResult {
     success: boolean;
     repositoryUrl?: string;
+    pullRequestUrl?: string;
+    commitCount?: number;
     error?: string;
 }
 
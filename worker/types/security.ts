@@ -72,7 +72,8 @@ export class SecurityError extends Error {
     constructor(
         public type: SecurityErrorType,
         message: string,
-        public statusCode: number = 401
+        public statusCode: number = 401,
+        public retryAfter?: number // Seconds until a rate limited request may be retried
     ) {
         super(message);
         this.name = 'SecurityError';
@@ -285,7 +285,7 @@ export class CryptoUtils {
         const fullKey = CryptoUtils.generateSecureToken(40);
         const keyHashBuffer = await CryptoUtils.sha256(fullKey);
         const keyHash = CryptoUtils.arrayBufferToBase64(keyHashBuffer);
-        const keyPreview = `${fullKey.substring(0, 8)}...${fullKey.substring(-4)}`;
+        const keyPreview = `${fullKey.substring(0, 8)}...${fullKey.slice(-4)}`;
         
         return {
             key: fullKey,